@@ -0,0 +1,210 @@
+// =============================================================================
+// WEB CLIP — Vercel Serverless Function
+// =============================================================================
+// Fetches a web page server-side (browsers cannot, because of CORS) and
+// returns its readable content and metadata for saving as a note.
+//
+// Request:  POST { url: string }
+// Response: WebClip (see src/lib/webClip/webClipExtractor.ts)
+//
+// Only public http(s) URLs are fetched. Every hop (the URL and each
+// redirect) is resolved with DNS and refused if any address is loopback,
+// private or link-local, so hostnames and redirects cannot reach internal
+// services.
+// =============================================================================
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import { extractWebClip } from '../src/lib/webClip/webClipExtractor';
+
+interface ClipRequest {
+  url?: string;
+}
+
+/** A page fetched from a public address, or why it was refused */
+type FetchOutcome =
+  | { response: Response; url: URL }
+  | { status: number; error: string };
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_HTML_BYTES = 3 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+const NOT_PUBLIC = 'Only public http(s) URLs can be clipped';
+
+/** True for host names reserved for this machine or a private network */
+function isPrivateHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  return host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal');
+}
+
+function isPrivateIPv4(ip: string): boolean {
+  const [a, b] = ip.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+/** True for loopback, private, link-local and reserved addresses; non-addresses count as private */
+function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '');
+  if (isIP(ip) === 4) return isPrivateIPv4(ip);
+  if (isIP(ip) !== 6) return true;
+
+  // IPv4-mapped and IPv4-compatible: ::ffff:127.0.0.1, ::ffff:7f00:1, ::7f00:1
+  const embedded = ip.match(/^::(?:ffff:(?:0:)?)?(.+)$/);
+  if (embedded && embedded[1].includes('.')) return isPrivateIPv4(embedded[1]);
+  const hex = embedded?.[1].match(/^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hex) {
+    const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  // Loopback, unspecified, NAT64, unique-local, link-local and multicast
+  return ip === '::1' || ip === '::' || ip.startsWith('64:ff9b:') || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith('ff');
+}
+
+/** True if the URL is http(s) and every address its host resolves to is public */
+async function isPublicUrl(url: URL): Promise<boolean> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isPrivateHostname(host)) return false;
+  if (isIP(host)) return !isPrivateAddress(host);
+
+  try {
+    const addresses = await lookup(host, { all: true, verbatim: true });
+    return addresses.length > 0 && addresses.every(a => !isPrivateAddress(a.address));
+  } catch {
+    return false;
+  }
+}
+
+/** Fetch a page, following redirects by hand so every hop is checked first */
+async function fetchPublicPage(start: URL, signal: AbortSignal): Promise<FetchOutcome> {
+  let url = start;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (!(await isPublicUrl(url))) return { status: 400, error: NOT_PUBLIC };
+
+    const response = await fetch(url.href, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; FrameLordClipper/1.0)',
+        'Accept': 'text/html,application/xhtml+xml',
+      },
+      redirect: 'manual',
+      signal,
+    });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url };
+    }
+
+    await response.body?.cancel();
+    try {
+      url = new URL(location, url);
+    } catch {
+      return { status: 502, error: 'Page redirected to an invalid URL' };
+    }
+  }
+  return { status: 502, error: 'Too many redirects' };
+}
+
+/** Read the body as text, giving up as soon as it exceeds maxBytes */
+async function readTextWithLimit(response: Response, maxBytes: number): Promise<string | null> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // Only allow POST
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const { url } = (req.body || {}) as ClipRequest;
+
+  let target: URL;
+  try {
+    target = new URL(String(url || '').trim());
+  } catch {
+    res.status(400).json({ error: 'A valid url is required' });
+    return;
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    const outcome = await fetchPublicPage(target, controller.signal);
+    if ('error' in outcome) {
+      res.status(outcome.status).json({ error: outcome.error });
+      return;
+    }
+    const { response, url: finalUrl } = outcome;
+
+    if (!response.ok) {
+      console.error('[web-clip] Fetch failed:', response.status, target.href);
+      await response.body?.cancel();
+      res.status(502).json({ error: `Page returned ${response.status}` });
+      return;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType && !contentType.includes('html')) {
+      await response.body?.cancel();
+      res.status(415).json({ error: `Unsupported content type: ${contentType.split(';')[0]}` });
+      return;
+    }
+
+    const html = await readTextWithLimit(response, MAX_HTML_BYTES);
+    if (html === null) {
+      res.status(413).json({ error: 'Page is too large to clip' });
+      return;
+    }
+
+    res.status(200).json(extractWebClip(html, finalUrl.href));
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      res.status(504).json({ error: 'Timed out fetching the page' });
+      return;
+    }
+    console.error('[web-clip] Unexpected error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,145 @@
+// =============================================================================
+// CONTACT IMPORT SERVICE TESTS
+// =============================================================================
+// Covers column mapping, preview validation, duplicate detection and batch
+// undo, including after a reload and when created contacts gained records.
+// =============================================================================
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  parseImportFile,
+  suggestColumnMapping,
+  buildImportPreview,
+  commitContactImport,
+  undoContactImport,
+  getImportUndoBlocker,
+} from '../../services/contactImportService';
+import { createContact, getContactById, updateContact } from '../../services/contactStore';
+import { createTask } from '../../services/taskStore';
+
+const existing = createContact({
+  fullName: 'Grace Hopper',
+  email: 'grace@navy.example',
+  phone: '+1 (555) 010-9999',
+  relationshipDomain: 'business',
+  tags: ['admiral'],
+});
+
+const CSV = [
+  'First Name,Last Name,E-mail Address,Mobile Phone,Organization,Job Title,LinkedIn,Twitter,Labels,Domain',
+  'Ada,Lovelace,ada@example.com,555 010 2000,Analytical Engines,Mathematician,https://linkedin.com/in/ada,https://x.com/ada,vip;investor,personal',
+  'Grace,H.,GRACE@navy.example,,US Navy,,,,,',
+  'Charles,Babbage,not-an-email,,,,,,,',
+  'Ada,Lovelace,,,,,,,,',
+  'G.,Hopper,,555-010-9999,,,,,,',
+].join('\n');
+
+describe('contactImportService', () => {
+  const table = parseImportFile('hubspot.csv', CSV);
+  const mapping = suggestColumnMapping(table.headers);
+
+  it('suggests a field for common export headers', () => {
+    expect(mapping).toEqual([
+      'firstName', 'lastName', 'email', 'phone', 'company', 'title',
+      'linkedinUrl', 'xHandle', 'tags', 'relationshipDomain',
+    ]);
+  });
+
+  it('maps rows and flags errors and duplicates', () => {
+    const preview = buildImportPreview(table, mapping);
+
+    expect(preview[0].contact).toMatchObject({
+      fullName: 'Ada Lovelace',
+      email: 'ada@example.com',
+      company: 'Analytical Engines',
+      xHandle: '@ada',
+      tags: ['vip', 'investor'],
+      relationshipDomain: 'personal',
+    });
+    expect(preview[0].duplicate).toBeNull();
+    expect(preview[1].duplicate).toEqual({ contactId: existing.id, matchedOn: 'email' });
+    expect(preview[2].errors).toEqual(['Invalid email "not-an-email"']);
+    expect(preview[3].duplicateOfRow).toBe(0);
+    expect(preview[4].duplicate).toEqual({ contactId: existing.id, matchedOn: 'phone' });
+  });
+
+  it('merges duplicates and undoes the whole batch', () => {
+    const preview = buildImportPreview(table, mapping);
+    const batch = commitContactImport(table, preview, { duplicateStrategy: 'merge', extraTags: ['imported'] });
+
+    expect(batch.createdContactIds).toHaveLength(1);
+    expect(batch.merges.map(m => m.contactId)).toEqual([existing.id]);
+    expect(batch.skippedRows).toBe(2);
+
+    const created = getContactById(batch.createdContactIds[0])!;
+    expect(created.tags).toEqual(['vip', 'investor', 'imported']);
+    expect(getContactById(existing.id)?.company).toBe('US Navy');
+    expect(getContactById(existing.id)?.tags).toEqual(['admiral', 'imported']);
+
+    expect(undoContactImport(batch.id)).toBe(true);
+    expect(getContactById(created.id)).toBeUndefined();
+    expect(getContactById(existing.id)?.company).toBeUndefined();
+    expect(undoContactImport(batch.id)).toBe(false);
+  });
+
+  it('keeps edits made after the import when undoing', () => {
+    const batch = commitContactImport(table, buildImportPreview(table, mapping), { duplicateStrategy: 'merge' });
+    const merged = getContactById(existing.id)!;
+    expect(merged.company).toBe('US Navy');
+
+    updateContact({ ...merged, company: 'Remington Rand', location: 'Arlington', tags: [...merged.tags, 'mentor'] });
+
+    expect(undoContactImport(batch.id)).toBe(true);
+    expect(getContactById(existing.id)).toMatchObject({
+      email: 'grace@navy.example',
+      company: 'Remington Rand',
+      location: 'Arlington',
+      tags: ['admiral', 'mentor'],
+    });
+  });
+
+  it('refuses to undo once a created contact has linked records', () => {
+    const batch = commitContactImport(table, buildImportPreview(table, mapping), { duplicateStrategy: 'skip' });
+    const createdId = batch.createdContactIds[0];
+    expect(getImportUndoBlocker(batch.id)).toBeNull();
+
+    createTask({ contactId: createdId, title: 'Send the notes on the engine' });
+
+    expect(getImportUndoBlocker(batch.id)).toContain('Ada Lovelace');
+    expect(undoContactImport(batch.id)).toBe(false);
+    expect(getContactById(createdId)).toBeDefined();
+  });
+
+  it('imports vCards through the same mapping', () => {
+    const vcf = parseImportFile('contacts.vcf', 'BEGIN:VCARD\nFN:Alan Turing\nEMAIL:alan@example.com\nEND:VCARD');
+    const [row] = buildImportPreview(vcf, suggestColumnMapping(vcf.headers));
+
+    expect(row.contact).toMatchObject({ fullName: 'Alan Turing', email: 'alan@example.com' });
+    expect(row.errors).toEqual([]);
+  });
+
+  it('only reads X handles from X or Twitter links', () => {
+    const vcf = parseImportFile('contacts.vcf', [
+      'BEGIN:VCARD',
+      'FN:Alan Turing',
+      'URL:https://www.dropbox.com/s/notes',
+      'URL:https://twitter.com/alan_t',
+      'END:VCARD',
+    ].join('\n'));
+    const [row] = buildImportPreview(vcf, suggestColumnMapping(vcf.headers));
+
+    expect(row.contact.xHandle).toBe('@alan_t');
+  });
+
+  it('can undo an import after a reload', async () => {
+    const batch = commitContactImport(table, buildImportPreview(table, mapping), { duplicateStrategy: 'skip' });
+
+    vi.resetModules();
+    const reloaded = await import('../../services/contactImportService');
+    const reloadedContacts = await import('../../services/contactStore');
+
+    expect(reloaded.getContactImportBatches().map(b => b.id)).toContain(batch.id);
+    expect(reloaded.undoContactImport(batch.id)).toBe(true);
+    expect(reloadedContacts.getContactById(batch.createdContactIds[0])).toBeUndefined();
+  });
+});
@@ -0,0 +1,157 @@
+// =============================================================================
+// CONTACT MERGE SERVICE TESTS
+// =============================================================================
+// Covers duplicate detection signals and re-pointing of linked records when
+// two contacts are merged.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  findDuplicateContacts,
+  findDuplicatesOf,
+  dismissDuplicatePair,
+  mergeContacts,
+  normalizeLinkedInUrl,
+} from '../../services/contactMergeService';
+import { createContact, getContactById, getAllContacts, isDemoContact, CONTACT_ZERO } from '../../services/contactStore';
+import { createNote, getNoteById } from '../../services/noteStore';
+import { createTask, getTaskById } from '../../services/taskStore';
+import { createInteraction, getInteractionById } from '../../services/interactionStore';
+import { createProject, getProjectById } from '../../services/projectStore';
+import { createGroup, addMember, getMembers } from '../../services/groupStore';
+import { getEvidence, addEvidence } from '../../services/psychometricStore';
+import { flagIntelForReview, getIntelReviewItem } from '../../services/reviewStore';
+import { addManualLedgerAdjustment, getLedgerEntriesForContact } from '../../services/frameScoreLedgerStore';
+
+const pairOf = (a: string, b: string) => [a, b].sort().join('|');
+
+describe('contactMergeService', () => {
+  describe('findDuplicateContacts', () => {
+    const jon = createContact({ fullName: 'Jon Quillfeather', relationshipDomain: 'business', tags: ['from-mention'] });
+    const jonathan = createContact({ fullName: 'Jonathan Quillfeather', relationshipDomain: 'business' });
+    const mary = createContact({ fullName: 'Mary Quillfeather', relationshipDomain: 'business' });
+    const byEmail = createContact({ fullName: 'P. Okonkwo', email: 'Pat@Okonkwo.example', relationshipDomain: 'business' });
+    const byEmail2 = createContact({ fullName: 'Patience Okonkwo-Reed', email: 'pat@okonkwo.example', relationshipDomain: 'business' });
+    const byLinkedIn = createContact({
+      fullName: 'Ravi Zanzibar',
+      linkedinUrl: 'https://www.linkedin.com/in/Ravi-Z/?trk=profile',
+      relationshipDomain: 'business',
+    });
+    const byLinkedIn2 = createContact({ fullName: 'R. Zanzibar', linkedinUrl: 'linkedin.com/in/ravi-z', relationshipDomain: 'business' });
+
+    const candidates = findDuplicateContacts();
+    const find = (a: string, b: string) => candidates.find(c => c.contactIds.join('|') === pairOf(a, b));
+
+    it('matches truncated first names with the same last name', () => {
+      expect(find(jon.id, jonathan.id)?.signals).toEqual(['name_fuzzy']);
+      expect(find(jon.id, mary.id)).toBeUndefined();
+    });
+
+    it('matches on normalized email and LinkedIn profile', () => {
+      expect(find(byEmail.id, byEmail2.id)?.signals).toContain('email');
+      expect(find(byEmail.id, byEmail2.id)?.score).toBe(1);
+      expect(find(byLinkedIn.id, byLinkedIn2.id)?.signals).toContain('linkedin');
+      expect(normalizeLinkedInUrl('https://www.linkedin.com/in/Ravi-Z/?trk=profile')).toBe('ravi-z');
+    });
+
+    it('hides dismissed pairs', () => {
+      dismissDuplicatePair(jonathan.id, jon.id);
+      expect(findDuplicatesOf(jon.id)).toHaveLength(0);
+    });
+  });
+
+  describe('mergeContacts', () => {
+    it('re-points linked records onto the survivor and removes the duplicate', () => {
+      const survivor = createContact({
+        fullName: 'Jonathan Merriweather',
+        email: 'jonathan@merri.example',
+        relationshipDomain: 'business',
+        tags: ['client'],
+      });
+      const duplicate = createContact({
+        fullName: 'Jon Merriweather',
+        phone: '555-010-4242',
+        company: 'Merri & Co',
+        relationshipDomain: 'business',
+        tags: ['from-mention'],
+      });
+
+      const note = createNote({
+        title: 'Lunch',
+        content: `Met <span class="contact-mention" data-contact-id="${duplicate.id}">Jon</span>`,
+        targetContactIds: [duplicate.id, survivor.id],
+      });
+      const task = createTask({ contactId: duplicate.id, title: 'Send proposal' });
+      const interaction = createInteraction({
+        contactId: duplicate.id,
+        authorContactId: CONTACT_ZERO.id,
+        type: 'call',
+        summary: 'Intro call',
+      });
+      const project = createProject({ name: 'Merri rollout', primaryContactId: duplicate.id, relatedContactIds: [survivor.id] });
+      const group = createGroup({ name: 'Merri group' });
+      addMember({ groupId: group.id, contactId: duplicate.id });
+      addEvidence({
+        id: 'ev-merge-test',
+        contactId: duplicate.id,
+        sourceType: 'note',
+        originId: 'origin-merge-test',
+        rawText: 'Direct, decisive',
+        createdAt: new Date().toISOString(),
+      });
+
+      const result = mergeContacts(survivor.id, duplicate.id);
+
+      expect(result).toMatchObject({ notes: 1, tasks: 1, interactions: 1, projects: 1, groups: 1, psychometricEvidence: 1 });
+      expect(getContactById(duplicate.id)).toBeUndefined();
+
+      const merged = getContactById(survivor.id)!;
+      expect(merged.email).toBe('jonathan@merri.example');
+      expect(merged.phone).toBe('555-010-4242');
+      expect(merged.company).toBe('Merri & Co');
+      expect(merged.tags).toEqual(['client', 'from-mention']);
+
+      const updatedNote = getNoteById(note.id)!;
+      expect(updatedNote.targetContactIds).toEqual([survivor.id]);
+      expect(updatedNote.content).toContain(`data-contact-id="${survivor.id}"`);
+      expect(getTaskById(task.id)?.contactId).toBe(survivor.id);
+      expect(getInteractionById(interaction.id)?.contactId).toBe(survivor.id);
+      expect(getProjectById(project.id)).toMatchObject({ primaryContactId: survivor.id, relatedContactIds: [] });
+      expect(getMembers(group.id)).toEqual([survivor.id]);
+      expect(getEvidence(survivor.id).map(e => e.id)).toContain('ev-merge-test');
+      expect(getEvidence(duplicate.id)).toHaveLength(0);
+    });
+
+    it('moves review flags and ledger entries onto the survivor', () => {
+      const survivor = createContact({ fullName: 'Odile Brack', relationshipDomain: 'business' });
+      const duplicate = createContact({ fullName: 'O. Brack', relationshipDomain: 'business' });
+      const flag = flagIntelForReview(duplicate.id, 'watchFor')!;
+      const entry = addManualLedgerAdjustment(duplicate.id, 5, 'Held the line on price')!;
+
+      const result = mergeContacts(survivor.id, duplicate.id);
+
+      expect(result).toMatchObject({ reviewItems: 1, ledgerEntries: 1 });
+      expect(getIntelReviewItem(survivor.id, 'watchFor')?.id).toBe(flag.id);
+      expect(getLedgerEntriesForContact(survivor.id).map(e => e.id)).toContain(entry.id);
+      expect(getLedgerEntriesForContact(duplicate.id)).toHaveLength(0);
+    });
+
+    it('refuses to merge Contact Zero on either side', () => {
+      const other = createContact({ fullName: 'Someone Else', relationshipDomain: 'business' });
+      expect(mergeContacts(other.id, CONTACT_ZERO.id)).toBeUndefined();
+      expect(mergeContacts(CONTACT_ZERO.id, other.id)).toBeUndefined();
+      expect(getContactById(CONTACT_ZERO.id)).toBeDefined();
+      expect(getContactById(other.id)).toBeDefined();
+    });
+
+    it('refuses to merge demo contacts on either side', () => {
+      const demo = getAllContacts(true).find(c => isDemoContact(c.id))!;
+      const other = createContact({ fullName: 'Real Person', relationshipDomain: 'business' });
+
+      expect(mergeContacts(demo.id, other.id)).toBeUndefined();
+      expect(mergeContacts(other.id, demo.id)).toBeUndefined();
+      expect(getContactById(demo.id)).toBeDefined();
+      expect(getContactById(other.id)).toBeDefined();
+    });
+  });
+});
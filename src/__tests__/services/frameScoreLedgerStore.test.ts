@@ -0,0 +1,88 @@
+// =============================================================================
+// FRAME SCORE LEDGER STORE TESTS
+// =============================================================================
+// Covers entries derived from tasks and notable interactions, and manual
+// adjustments.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  syncFrameScoreLedger,
+  getAllLedgerEntries,
+  getLedgerEntriesForContact,
+  addManualLedgerAdjustment,
+  deleteManualLedgerAdjustment,
+} from '../../services/frameScoreLedgerStore';
+import { createContact, CONTACT_ZERO } from '../../services/contactStore';
+import { createTask, updateTaskStatus } from '../../services/taskStore';
+import { createInteraction, setInteractionNotable } from '../../services/interactionStore';
+
+const entriesFor = (sourceId: string) => getAllLedgerEntries().filter(e => e.sourceId === sourceId);
+const threeDaysAgo = () => new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString();
+
+describe('frameScoreLedgerStore', () => {
+  it('records a missed task and half credit when it is finished late', () => {
+    const task = createTask({ contactId: CONTACT_ZERO.id, title: 'Ship the ledger', dueAt: threeDaysAgo() });
+    syncFrameScoreLedger();
+
+    expect(entriesFor(task.id).map(e => [e.eventType, e.adjustment])).toEqual([['task_missed', -2]]);
+
+    updateTaskStatus(task.id, 'done');
+    syncFrameScoreLedger();
+    const completed = entriesFor(task.id).find(e => e.eventType === 'task_completed');
+
+    expect(completed?.adjustment).toBe(0.5);
+    expect(completed?.reason).toContain('late');
+    expect(entriesFor(task.id).some(e => e.eventType === 'task_missed')).toBe(true);
+    expect(syncFrameScoreLedger()).toBe(0);
+  });
+
+  it('puts commitments to other contacts on Contact Zero\'s ledger', () => {
+    const other = createContact({ fullName: 'Ledger Counterparty', relationshipDomain: 'business' });
+    const task = createTask({ contactId: other.id, title: 'Send the proposal', priority: 'high' });
+    updateTaskStatus(task.id, 'done');
+    syncFrameScoreLedger();
+
+    const [kept] = entriesFor(task.id);
+    expect(kept.eventType).toBe('commitment_kept');
+    expect(kept.contactId).toBe(CONTACT_ZERO.id);
+    expect(kept.relatedContactId).toBe(other.id);
+    expect(kept.adjustment).toBe(3);
+
+    updateTaskStatus(task.id, 'open');
+    syncFrameScoreLedger();
+    expect(entriesFor(task.id)).toHaveLength(0);
+  });
+
+  it('credits notable interactions to the contact they were with', () => {
+    const other = createContact({ fullName: 'Ledger Notable', relationshipDomain: 'business' });
+    const interaction = createInteraction({
+      contactId: other.id,
+      authorContactId: CONTACT_ZERO.id,
+      type: 'meeting',
+      summary: 'Held the line on pricing',
+    });
+    setInteractionNotable(interaction.id, true);
+    syncFrameScoreLedger();
+
+    expect(getLedgerEntriesForContact(other.id).map(e => e.eventType)).toEqual(['notable_interaction']);
+
+    setInteractionNotable(interaction.id, false);
+    syncFrameScoreLedger();
+    expect(getLedgerEntriesForContact(other.id)).toHaveLength(0);
+  });
+
+  it('adds and removes clamped manual adjustments', () => {
+    const other = createContact({ fullName: 'Ledger Manual', relationshipDomain: 'business' });
+
+    expect(addManualLedgerAdjustment(other.id, 5, '  ')).toBeNull();
+    const entry = addManualLedgerAdjustment(other.id, 50, 'Walked away from a bad deal');
+
+    expect(entry?.adjustment).toBe(20);
+    syncFrameScoreLedger();
+    expect(getLedgerEntriesForContact(other.id)).toHaveLength(1);
+
+    expect(deleteManualLedgerAdjustment(entry!.id)).toBe(true);
+    expect(getLedgerEntriesForContact(other.id)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,99 @@
+// =============================================================================
+// NOTE COMMENT STORE TESTS
+// =============================================================================
+// Covers threads, resolve/reopen, @mention resolution, anchors following
+// note edits and the "comments on my notes" feed.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  addComment,
+  replyToComment,
+  editComment,
+  deleteComment,
+  resolveThread,
+  reopenThread,
+  getCommentThreads,
+  getNoteComments,
+  getCommentsOnMyNotes,
+  getCommentsMentioningContact,
+  resolveCommentMentions,
+} from '../../services/noteCommentStore';
+import { createContact } from '../../services/contactStore';
+import { createNote, permanentlyDeleteNote } from '../../services/noteStore';
+import { createTextAnchor, htmlToAnchorText } from '../../lib/editor/textAnchor';
+
+describe('noteCommentStore', () => {
+  const ada = createContact({ fullName: 'Ada Lovelace', relationshipDomain: 'business' });
+  const adaShort = createContact({ fullName: 'Ada', relationshipDomain: 'business' });
+  const guest = { contactId: ada.id, name: 'Ada Lovelace' };
+
+  it('threads replies under the root and reopens resolved threads on reply', () => {
+    const note = createNote({ title: 'Threads', content: '<p>Body</p>' });
+    const root = addComment(note.id, 'First thought')!;
+    const reply = replyToComment(root.id, 'Agreed')!;
+    // Replying to a reply stays in the same thread
+    replyToComment(reply.id, 'Me too', { author: guest });
+
+    resolveThread(root.id);
+    expect(getCommentThreads(note.id)[0].resolved).toBe(true);
+
+    replyToComment(root.id, 'Actually, one more thing');
+    const [thread] = getCommentThreads(note.id);
+    expect(thread.resolved).toBe(false);
+    expect(thread.replies.map(r => r.content)).toEqual(['Agreed', 'Me too', 'Actually, one more thing']);
+
+    resolveThread(reply.id);
+    reopenThread(root.id);
+    expect(getCommentThreads(note.id)[0].resolved).toBe(false);
+
+    deleteComment(root.id);
+    expect(getNoteComments(note.id)).toHaveLength(0);
+  });
+
+  it('resolves @mentions to the longest matching contact name', () => {
+    expect(resolveCommentMentions('@Ada Lovelace please check with @ada, not ada@example.com')).toEqual([ada.id, adaShort.id]);
+
+    const note = createNote({ title: 'Mentions', content: '<p>Body</p>' });
+    const comment = addComment(note.id, 'No mentions yet')!;
+    expect(comment.mentionedContactIds).toEqual([]);
+
+    editComment(comment.id, 'Looping in @Ada Lovelace');
+    expect(getCommentsMentioningContact(ada.id).map(c => c.id)).toContain(comment.id);
+  });
+
+  it('keeps anchors attached through edits and flags deleted passages', () => {
+    const html = '<p>Intro line.</p><p>The budget is <strong>40k</strong> for Q3.</p>';
+    const note = createNote({ title: 'Anchors', content: html });
+    const text = htmlToAnchorText(html);
+    addComment(note.id, 'Is this confirmed?', { anchor: createTextAnchor(text, 'budget is 40k') });
+    addComment(note.id, 'Whole-note comment');
+
+    const edited = htmlToAnchorText('<p>New heading</p><p>Intro line.</p><p>The budget is <em>40k</em> for Q3.</p>');
+    const [anchored, unanchored] = getCommentThreads(note.id, edited);
+    expect(edited.slice(anchored.range!.start, anchored.range!.end)).toBe('budget is 40k');
+    expect(unanchored.range).toBeUndefined();
+    expect(unanchored.orphaned).toBe(false);
+
+    const deleted = getCommentThreads(note.id, htmlToAnchorText('<p>Intro line.</p>'));
+    expect(deleted.find(t => t.root.anchor)?.orphaned).toBe(true);
+  });
+
+  it('feeds comments on my notes and drops them with the note', () => {
+    const note = createNote({ title: 'Feed note', content: '<p>Body</p>' });
+    const own = addComment(note.id, 'My own remark')!;
+    const theirs = replyToComment(own.id, 'Guest remark', { author: guest })!;
+
+    const feedIds = () => getCommentsOnMyNotes().map(item => item.comment.id);
+    expect(feedIds()).toContain(theirs.id);
+    expect(feedIds()).not.toContain(own.id);
+    expect(getCommentsOnMyNotes({ includeOwn: true }).map(item => item.comment.id)).toContain(own.id);
+
+    resolveThread(own.id);
+    expect(feedIds()).not.toContain(theirs.id);
+    expect(getCommentsOnMyNotes({ includeResolved: true })[0]).toMatchObject({ noteTitle: 'Feed note', resolved: true });
+
+    permanentlyDeleteNote(note.id);
+    expect(getNoteComments(note.id)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,121 @@
+// =============================================================================
+// NOTE REVISION STORE TESTS
+// =============================================================================
+// Covers snapshotting on updateNote, burst coalescing, the per-note and
+// total storage caps and restoring a revision as a new version.
+// =============================================================================
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  getNoteRevisions,
+  captureNoteRevision,
+  MAX_REVISIONS_PER_NOTE,
+  MAX_REVISION_STORAGE_CHARS,
+  REVISION_COALESCE_MS,
+} from '../../services/noteRevisionStore';
+import { createNote, updateNote, getNoteById, restoreNoteRevision, permanentlyDeleteNote } from '../../services/noteStore';
+
+describe('noteRevisionStore', () => {
+  // Note IDs are timestamp based, so every test starts on a different day
+  let day = 1;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(`2026-03-${String(day++).padStart(2, '0')}T09:00:00.000Z`));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('snapshots the previous content and coalesces rapid edits', () => {
+    const note = createNote({ title: 'Draft', content: '<p>v1</p>' });
+
+    updateNote(note.id, { content: '<p>v2</p>' });
+    updateNote(note.id, { content: '<p>v3</p>' });
+    expect(getNoteRevisions(note.id).map(r => r.content)).toEqual(['<p>v1</p>']);
+
+    vi.advanceTimersByTime(REVISION_COALESCE_MS + 1);
+    updateNote(note.id, { content: '<p>v4</p>' });
+    expect(getNoteRevisions(note.id).map(r => r.content)).toEqual(['<p>v3</p>', '<p>v1</p>']);
+
+    // Metadata-only updates are not versioned
+    updateNote(note.id, { isPinned: true });
+    expect(getNoteRevisions(note.id)).toHaveLength(2);
+  });
+
+  it('always snapshots before large deletions', () => {
+    const note = createNote({ title: 'Long', content: `<p>${'important '.repeat(40)}</p>` });
+    updateNote(note.id, { content: `<p>${'important '.repeat(40)}more</p>` });
+    updateNote(note.id, { content: '<p></p>' });
+
+    expect(getNoteRevisions(note.id)).toHaveLength(2);
+    expect(getNoteRevisions(note.id)[0].content).toContain('more');
+  });
+
+  it('measures the editing burst from the last edit', () => {
+    const note = createNote({ title: 'Essay', content: '<p>outline</p>' });
+    for (const section of ['intro', 'body', 'end']) {
+      vi.advanceTimersByTime(REVISION_COALESCE_MS / 2);
+      updateNote(note.id, { content: `${getNoteById(note.id)!.content}<p>${section}</p>` });
+    }
+    expect(getNoteRevisions(note.id).map(r => r.content)).toEqual(['<p>outline</p>']);
+
+    vi.advanceTimersByTime(REVISION_COALESCE_MS + 1);
+    updateNote(note.id, { content: `${getNoteById(note.id)!.content}<p>notes</p>` });
+    expect(getNoteRevisions(note.id)).toHaveLength(2);
+  });
+
+  it('always snapshots before most of the note is pasted over', () => {
+    const note = createNote({ title: 'Pitch', content: '<p>first draft of the pitch</p>' });
+    updateNote(note.id, { content: '<p>second draft of the pitch</p>' });
+    updateNote(note.id, { content: '<p>something else entirely!!</p>' });
+
+    expect(getNoteRevisions(note.id).map(r => r.content)).toEqual([
+      '<p>second draft of the pitch</p>',
+      '<p>first draft of the pitch</p>',
+    ]);
+  });
+
+  it('drops the oldest revisions of any note beyond the storage limit', () => {
+    const chunk = 'x'.repeat(MAX_REVISION_STORAGE_CHARS / 3);
+    const first = createNote({ title: null, content: `<p>a${chunk}</p>` });
+    updateNote(first.id, { content: '<p>a</p>' });
+    vi.advanceTimersByTime(1000);
+    const second = createNote({ title: null, content: `<p>b${chunk}</p>` });
+    updateNote(second.id, { content: '<p>b</p>' });
+    updateNote(second.id, { content: `<p>c${chunk}</p>` });
+    updateNote(second.id, { content: '<p>d</p>' });
+
+    expect(getNoteRevisions(first.id)).toHaveLength(0);
+    expect(getNoteRevisions(second.id).map(r => r.content.slice(0, 4))).toEqual(['<p>c', '<p>b']);
+  });
+
+  it('keeps at most MAX_REVISIONS_PER_NOTE per note', () => {
+    const note = createNote({ title: 'Busy', content: '<p>0</p>' });
+    for (let i = 1; i <= MAX_REVISIONS_PER_NOTE + 5; i++) {
+      vi.advanceTimersByTime(REVISION_COALESCE_MS + 1);
+      captureNoteRevision({ ...getNoteById(note.id)!, content: `<p>${i}</p>` });
+    }
+
+    const revisions = getNoteRevisions(note.id);
+    expect(revisions).toHaveLength(MAX_REVISIONS_PER_NOTE);
+    expect(revisions[0].content).toBe(`<p>${MAX_REVISIONS_PER_NOTE + 5}</p>`);
+  });
+
+  it('restores a revision as a new version and keeps the current one', () => {
+    const note = createNote({ title: 'Original title', content: '<p>original</p>' });
+    updateNote(note.id, { title: 'Overwritten', content: '<p>oops</p>' });
+    const [original] = getNoteRevisions(note.id);
+
+    const restored = restoreNoteRevision(note.id, original.id);
+    expect(restored?.title).toBe('Original title');
+    expect(restored?.content).toBe('<p>original</p>');
+
+    const history = getNoteRevisions(note.id);
+    expect(history[0]).toMatchObject({ reason: 'restore', content: '<p>oops</p>' });
+
+    permanentlyDeleteNote(note.id);
+    expect(getNoteRevisions(note.id)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,81 @@
+// =============================================================================
+// NOTE TEMPLATE TESTS
+// =============================================================================
+// Covers rendering built-in and user templates with contact data, open task
+// loops and prompts, and linking the note to the chosen contact.
+// =============================================================================
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  getTemplateInputs,
+  renderNoteTemplate,
+  replaceTemplateVariables,
+  applyTemplateToNote,
+  getTemplateById,
+} from '../../services/noteTemplates';
+import { replaceUserTemplateVariables } from '../../services/userTemplatesStore';
+import { createContact, getContactById } from '../../services/contactStore';
+import { createTask, updateTaskStatus } from '../../services/taskStore';
+import { createNote, getNoteById } from '../../services/noteStore';
+
+const now = new Date('2026-05-04T09:00:00Z');
+
+const TASK_TEMPLATE = `Prep for {{contact.firstName}}{{#if contact.company}} ({{contact.company}}){{/if}}
+{{#each contact.openTasks}}{{@number}}. {{title}}{{#if dueDate}} by {{dueDate}}{{/if}}
+{{else}}No open tasks
+{{/each}}Follow up {{date+7d}}`;
+
+describe('note templates', () => {
+  it('keeps {{date}} replacement working', () => {
+    expect(replaceTemplateVariables('Day {{date}}', { now })).toBe('Day 2026-05-04');
+    expect(replaceUserTemplateVariables('Day {{date-1d}}', { now })).toBe('Day 2026-05-03');
+  });
+
+  it('reports prompts and contact usage', () => {
+    const meetingPrep = getTemplateById('meeting-prep')!;
+    expect(getTemplateInputs(meetingPrep.body)).toEqual({
+      prompts: [{ label: 'Purpose', defaultValue: '' }],
+      needsContact: true,
+    });
+    expect(getTemplateInputs('{{date}}')).toEqual({ prompts: [], needsContact: false });
+  });
+
+  it('renders contact fields and loops over open tasks, soonest due first', () => {
+    const contact = createContact({
+      fullName: 'Grace Template',
+      company: 'Hopper Labs',
+      relationshipDomain: 'business',
+    });
+    createTask({ contactId: contact.id, title: 'Send deck', dueAt: '2026-05-10T00:00:00Z' });
+    createTask({ contactId: contact.id, title: 'Book demo', dueAt: '2026-05-06T00:00:00Z' });
+    const done = createTask({ contactId: contact.id, title: 'Intro call' });
+    updateTaskStatus(done.id, 'done');
+
+    expect(renderNoteTemplate(TASK_TEMPLATE, { contactId: contact.id, now })).toBe(
+      'Prep for Grace (Hopper Labs)\n1. Book demo by 2026-05-06\n2. Send deck by 2026-05-10\nFollow up 2026-05-11'
+    );
+  });
+
+  it('renders without a contact', () => {
+    expect(renderNoteTemplate(TASK_TEMPLATE, { now })).toBe('Prep for \nNo open tasks\nFollow up 2026-05-11');
+  });
+
+  it('applies a template to a note and links the contact', () => {
+    const contact = createContact({ fullName: 'Linked Template Contact', relationshipDomain: 'business' });
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+    const note = createNote({ title: 'Prep', content: '' });
+    vi.useRealTimers();
+
+    const updated = applyTemplateToNote(note.id, 'Meeting with {{contact.fullName}} about {{prompt:Topic}}', {
+      contactId: contact.id,
+      prompts: { Topic: 'renewal' },
+    });
+
+    expect(updated?.content).toBe('Meeting with Linked Template Contact about renewal');
+    expect(getNoteById(note.id)?.targetContactIds).toContain(contact.id);
+    expect(getNoteById(note.id)?.mentions).toContain(contact.id);
+    expect(getContactById(contact.id)?.mentionedInNotes).toContain(note.id);
+    expect(applyTemplateToNote('note-missing', '{{date}}')).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+// =============================================================================
+// PIPELINE ANALYTICS TESTS
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import type { PipelineItem, PipelineTemplate } from '../../types';
+import { computePipelineAnalytics, getStageProbability, median } from '../../services/pipelineAnalytics';
+
+const template: PipelineTemplate = {
+  id: 'tpl_analytics',
+  name: 'Sales',
+  domain: 'business',
+  stages: [
+    { id: 'lead', name: 'Lead', order: 0 },
+    { id: 'proposal', name: 'Proposal', order: 1 },
+    { id: 'won', name: 'Won', order: 2 },
+    { id: 'lost', name: 'Lost', order: 3 },
+  ],
+  createdAt: '2030-01-01T00:00:00Z',
+  updatedAt: '2030-01-01T00:00:00Z',
+};
+
+/** Item that visited the given stages, one per [stageId, day-of-month] pair */
+const item = (
+  id: string,
+  visits: [string, number][],
+  status: PipelineItem['status'],
+  value?: number
+): PipelineItem => ({
+  id,
+  templateId: template.id,
+  contactId: 'c_analytics',
+  currentStageId: visits[visits.length - 1][0],
+  stageHistory: visits.map(([stageId, day], i) => ({
+    fromStageId: i === 0 ? null : visits[i - 1][0],
+    toStageId: stageId,
+    at: `2030-01-${String(day).padStart(2, '0')}T00:00:00Z`,
+    actor: { type: 'system' as const },
+  })),
+  createdAt: '2030-01-01T00:00:00Z',
+  updatedAt: '2030-01-01T00:00:00Z',
+  status,
+  value,
+});
+
+const items: PipelineItem[] = [
+  item('a', [['lead', 1], ['proposal', 3], ['won', 10]], 'won', 1000),
+  item('b', [['lead', 1], ['proposal', 5], ['lost', 6]], 'lost', 500),
+  item('c', [['lead', 1], ['won', 9]], 'won', 2000), // skipped Proposal
+  item('d', [['lead', 1]], 'open', 400),
+  item('e', [['lead', 1], ['proposal', 2]], 'open', 1000),
+  item('f', [['lead', 1]], 'archived', 9999),
+];
+
+describe('pipelineAnalytics', () => {
+  const analytics = computePipelineAnalytics(template, items);
+  const stage = (id: string) => analytics.stages.find(s => s.stageId === id)!;
+
+  it('computes the funnel with skipped stages counted as passed', () => {
+    expect(stage('lead').reached).toBe(5);
+    expect(stage('proposal').reached).toBe(4);
+    expect(stage('won').reached).toBe(2);
+    expect(stage('lost').reached).toBe(1);
+
+    expect(stage('lead').conversionRate).toBeCloseTo(4 / 5);
+    expect(stage('proposal').conversionRate).toBeCloseTo(2 / 4);
+    expect(stage('won').conversionRate).toBeNull();
+    expect(stage('lost').conversionRate).toBeNull();
+  });
+
+  it('computes median days over completed visits', () => {
+    // Lead visits: 2, 4, 8, 1 days
+    expect(stage('lead').medianDaysInStage).toBe(3);
+    expect(stage('lead').completedVisits).toBe(4);
+    // Proposal visits: 7, 1 days (item e is still in Proposal)
+    expect(stage('proposal').medianDaysInStage).toBe(4);
+    expect(stage('won').medianDaysInStage).toBeNull();
+  });
+
+  it('computes win rate and a weighted forecast', () => {
+    expect(analytics.winRate).toBeCloseTo(2 / 3);
+    expect(analytics.wonValue).toBe(3000);
+    expect(analytics.openValue).toBe(1400);
+
+    // Lead 1/3, Proposal 2/3 by default
+    expect(analytics.forecastValue).toBeCloseTo(400 / 3 + 1000 * (2 / 3));
+  });
+
+  it('prefers explicit stage probabilities', () => {
+    expect(getStageProbability(template, { id: 'x', name: 'Lead', order: 0, probability: 0.1 })).toBe(0.1);
+    expect(getStageProbability(template, template.stages[2])).toBe(1);
+    expect(getStageProbability(template, template.stages[3])).toBe(0);
+  });
+
+  it('computes medians of even and odd lists', () => {
+    expect(median([])).toBeNull();
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+  });
+});
@@ -0,0 +1,170 @@
+// =============================================================================
+// PIPELINE AUTOMATION TESTS
+// =============================================================================
+// Covers enter/exit/time-in-stage rules fired through pipelineStore, the
+// per-item run history, once-per-visit dedup, and skipped actions.
+// =============================================================================
+
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import type { PipelineAutomationRule, PipelineTemplate } from '../../types';
+import {
+  createPipelineTemplate,
+  updatePipelineTemplate,
+  createPipelineItem,
+  movePipelineItem,
+  getPipelineItemById,
+  runTimeInStageAutomations,
+  flushPipelineAutomations,
+} from '../../services/pipelineStore';
+import { getAutomationRunsForItem, clearAutomationRuns } from '../../services/pipelineAutomation';
+import { createContact } from '../../services/contactStore';
+import { getAllTasks } from '../../services/taskStore';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const rule = (overrides: Partial<PipelineAutomationRule> & Pick<PipelineAutomationRule, 'trigger' | 'actions'>): PipelineAutomationRule => ({
+  id: `rule-${Math.random().toString(36).slice(2, 7)}`,
+  name: 'Test rule',
+  enabled: true,
+  ...overrides,
+});
+
+const contact = createContact({ fullName: 'Ada Lovelace', relationshipDomain: 'business' });
+
+const tasksTitled = (title: string) =>
+  getAllTasks().filter(t => t.contactId === contact.id && t.title === title);
+
+describe('pipeline automation', () => {
+  let template: PipelineTemplate;
+  let [lead, qualified, stale] = ['', '', ''];
+
+  beforeAll(() => {
+    template = createPipelineTemplate({
+      name: 'Automation test',
+      domain: 'business',
+      stages: [{ name: 'Lead' }, { name: 'Qualified' }, { name: 'Stale' }],
+    });
+    [lead, qualified, stale] = template.stages.map(s => s.id);
+  });
+
+  beforeEach(() => {
+    clearAutomationRuns();
+    template = { ...template, stages: template.stages.map(s => ({ ...s, automations: [] })) };
+    updatePipelineTemplate(template);
+  });
+
+  const setRules = (stageId: string, automations: PipelineAutomationRule[]) => {
+    template = { ...template, stages: template.stages.map(s => (s.id === stageId ? { ...s, automations } : s)) };
+    updatePipelineTemplate(template);
+  };
+
+  it('runs enter rules and renders placeholders', async () => {
+    setRules(qualified, [
+      rule({
+        trigger: { type: 'enter' },
+        actions: [{ type: 'create_task', titleTemplate: 'Book call with {{contact.firstName}} ({{stage.name}})' }],
+      }),
+    ]);
+    const item = createPipelineItem({ templateId: template.id, contactId: contact.id, initialStageId: lead });
+
+    movePipelineItem(item.id, qualified);
+    await flushPipelineAutomations();
+
+    expect(tasksTitled('Book call with Ada (Qualified)')).toHaveLength(1);
+    expect(getAutomationRunsForItem(item.id)).toHaveLength(1);
+  });
+
+  it('runs exit rules of the previous stage', async () => {
+    setRules(lead, [
+      rule({ trigger: { type: 'exit' }, actions: [{ type: 'create_task', titleTemplate: 'Left {{stage.name}}' }] }),
+    ]);
+    const item = createPipelineItem({ templateId: template.id, contactId: contact.id, initialStageId: lead });
+
+    movePipelineItem(item.id, qualified);
+    movePipelineItem(item.id, qualified);
+    await flushPipelineAutomations();
+
+    expect(tasksTitled('Left Lead')).toHaveLength(1);
+  });
+
+  it('moves stale items once per stage visit', async () => {
+    setRules(lead, [
+      rule({ trigger: { type: 'time_in_stage', days: 14 }, actions: [{ type: 'move_to_stage', stageId: stale }] }),
+    ]);
+    const item = createPipelineItem({ templateId: template.id, contactId: contact.id, initialStageId: lead });
+
+    await runTimeInStageAutomations(new Date(Date.now() + 13 * DAY_MS));
+    expect(getPipelineItemById(item.id)?.currentStageId).toBe(lead);
+
+    await runTimeInStageAutomations(new Date(Date.now() + 15 * DAY_MS));
+    expect(getPipelineItemById(item.id)?.currentStageId).toBe(stale);
+
+    // Back in Lead: the rule fires again only after another 14 days
+    movePipelineItem(item.id, lead);
+    const runs = await runTimeInStageAutomations(new Date(Date.now() + 1 * DAY_MS));
+    expect(runs.filter(r => r.itemId === item.id)).toHaveLength(0);
+  });
+
+  it('does not refire a time-in-stage rule once its run has left the history', async () => {
+    setRules(lead, [
+      rule({ trigger: { type: 'time_in_stage', days: 7 }, actions: [{ type: 'create_task', titleTemplate: 'Nudge {{contact.firstName}}' }] }),
+    ]);
+    const item = createPipelineItem({ templateId: template.id, contactId: contact.id, initialStageId: lead });
+
+    const first = await runTimeInStageAutomations(new Date(Date.now() + 8 * DAY_MS));
+    expect(first.filter(r => r.itemId === item.id)).toHaveLength(1);
+
+    clearAutomationRuns();
+    const second = await runTimeInStageAutomations(new Date(Date.now() + 9 * DAY_MS));
+    expect(second.filter(r => r.itemId === item.id)).toHaveLength(0);
+  });
+
+  it('fires a time-in-stage rule once when sweeps overlap', async () => {
+    const emailed = createContact({ fullName: 'Grace Hopper', relationshipDomain: 'business', email: 'grace@example.com' });
+    setRules(lead, [
+      rule({ trigger: { type: 'time_in_stage', days: 7 }, actions: [{ type: 'send_email', subjectTemplate: 'Still there?', bodyTemplate: 'Hi' }] }),
+    ]);
+    const item = createPipelineItem({ templateId: template.id, contactId: emailed.id, initialStageId: lead });
+
+    const later = new Date(Date.now() + 8 * DAY_MS);
+    await Promise.all([runTimeInStageAutomations(later), runTimeInStageAutomations(later)]);
+
+    expect(getAutomationRunsForItem(item.id)).toHaveLength(1);
+  });
+
+  it('records skipped actions in the run history', async () => {
+    setRules(qualified, [
+      rule({
+        name: 'Welcome email',
+        trigger: { type: 'enter' },
+        actions: [{ type: 'send_email', subjectTemplate: 'Welcome', bodyTemplate: 'Hi {{contact.firstName}}' }],
+      }),
+    ]);
+    const item = createPipelineItem({ templateId: template.id, contactId: contact.id, initialStageId: lead });
+
+    movePipelineItem(item.id, qualified);
+    await flushPipelineAutomations();
+
+    const [run] = getAutomationRunsForItem(item.id);
+    expect(run.ruleName).toBe('Welcome email');
+    expect(run.results).toEqual([
+      { type: 'send_email', status: 'skipped', detail: 'Contact has no email address' },
+    ]);
+  });
+
+  it('stops rules that move items back and forth', async () => {
+    setRules(lead, [
+      rule({ trigger: { type: 'enter' }, actions: [{ type: 'move_to_stage', stageId: qualified }] }),
+    ]);
+    setRules(qualified, [
+      rule({ trigger: { type: 'enter' }, actions: [{ type: 'move_to_stage', stageId: lead }] }),
+    ]);
+    const item = createPipelineItem({ templateId: template.id, contactId: contact.id, initialStageId: stale });
+
+    movePipelineItem(item.id, lead);
+    await flushPipelineAutomations();
+
+    // The initial move plus five chained moves, then the chain is cut off
+    expect(getAutomationRunsForItem(item.id)).toHaveLength(6);
+  });
+});
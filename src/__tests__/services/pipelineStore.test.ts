@@ -0,0 +1,97 @@
+// =============================================================================
+// PIPELINE STORE TESTS
+// =============================================================================
+// Covers the append-only stage transition history on pipeline items.
+// =============================================================================
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { PipelineTemplate } from '../../types';
+import {
+  createPipelineTemplate,
+  updatePipelineTemplate,
+  createPipelineItem,
+  movePipelineItem,
+  updatePipelineItem,
+  getPipelineItemById,
+  getPipelineItemHistory,
+  applySyncedPipelineItem,
+} from '../../services/pipelineStore';
+import { CONTACT_ZERO } from '../../services/contactStore';
+
+describe('pipeline stage history', () => {
+  let template: PipelineTemplate;
+  let [lead, qualified, won] = ['', '', ''];
+
+  beforeAll(() => {
+    template = createPipelineTemplate({
+      name: 'History test',
+      domain: 'business',
+      stages: [{ name: 'Lead' }, { name: 'Qualified' }, { name: 'Won' }],
+    });
+    [lead, qualified, won] = template.stages.map(s => s.id);
+  });
+
+  const newItem = () => createPipelineItem({ templateId: template.id, contactId: 'c_history', initialStageId: lead });
+
+  it('records creation and each move with actor and reason', () => {
+    const item = newItem();
+    movePipelineItem(item.id, qualified, { reason: '  Budget confirmed ' });
+    movePipelineItem(item.id, qualified);
+    movePipelineItem(item.id, won);
+
+    const history = getPipelineItemHistory(item.id);
+    expect(history.map(t => [t.fromStageId, t.toStageId])).toEqual([
+      [null, lead],
+      [lead, qualified],
+      [qualified, won],
+    ]);
+    expect(history[1].reason).toBe('Budget confirmed');
+    expect(history[1].actor).toEqual({ type: 'user', contactId: CONTACT_ZERO.id });
+    expect(history[2].reason).toBeUndefined();
+  });
+
+  it('attributes automation moves to the rule', () => {
+    updatePipelineTemplate({
+      ...template,
+      stages: template.stages.map(s =>
+        s.id === qualified
+          ? {
+              ...s,
+              automations: [
+                { id: 'r_auto_win', name: 'Auto win', enabled: true, trigger: { type: 'enter' }, actions: [{ type: 'move_to_stage', stageId: won }] },
+              ],
+            }
+          : s
+      ),
+    });
+    const item = newItem();
+    movePipelineItem(item.id, qualified);
+    updatePipelineTemplate(template);
+
+    const last = getPipelineItemHistory(item.id).at(-1)!;
+    expect(last.toStageId).toBe(won);
+    expect(last.actor).toEqual({ type: 'automation', ruleId: 'r_auto_win', ruleName: 'Auto win' });
+  });
+
+  it('does not let updatePipelineItem rewrite the stage or history', () => {
+    const item = newItem();
+    updatePipelineItem({ ...item, label: 'Renamed', currentStageId: won, stageHistory: [] });
+
+    const stored = getPipelineItemById(item.id)!;
+    expect(stored.label).toBe('Renamed');
+    expect(stored.currentStageId).toBe(lead);
+    expect(stored.stageHistory).toHaveLength(1);
+  });
+
+  it('merges histories received from sync', () => {
+    const item = newItem();
+    movePipelineItem(item.id, qualified);
+    const local = getPipelineItemById(item.id)!;
+
+    // Another device only knows the creation entry plus its own move
+    const remoteMove = { fromStageId: lead, toStageId: won, at: '2099-01-01T00:00:00Z', actor: { type: 'system' as const } };
+    applySyncedPipelineItem({ ...local, currentStageId: won, stageHistory: [local.stageHistory![0], remoteMove] });
+
+    expect(getPipelineItemHistory(item.id).map(t => t.toStageId)).toEqual([lead, qualified, won]);
+  });
+});
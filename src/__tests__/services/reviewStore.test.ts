@@ -0,0 +1,94 @@
+// =============================================================================
+// REVIEW STORE TESTS
+// =============================================================================
+// Covers flagging notes, passages and personal intel, the daily queue, and
+// how remembered / forgot answers move items out of and back into it.
+// =============================================================================
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  flagNoteForReview,
+  flagBlockForReview,
+  flagIntelForReview,
+  getReviewQueue,
+  recordReview,
+  unflagReviewItem,
+  getReviewItemsForNote,
+} from '../../services/reviewStore';
+import { createNote, updateNote, permanentlyDeleteNote } from '../../services/noteStore';
+import { createContact, updatePersonalIntel } from '../../services/contactStore';
+import { createTextAnchor, htmlToAnchorText } from '../../lib/editor/textAnchor';
+
+describe('review store', () => {
+  // Note IDs come from Date.now(); give each note its own millisecond
+  let tick = 0;
+  const makeNote = (title: string, content = '') => {
+    vi.setSystemTime(new Date(Date.UTC(2026, 5, 1, 9, 0, ++tick)));
+    return createNote({ title, content, kind: 'note' });
+  };
+  const queueIds = (today: string, ids: string[]) =>
+    getReviewQueue(today).map(card => card.item.id).filter(id => ids.includes(id));
+
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('queues flagged notes, passages and intel from the next day', () => {
+    const note = makeNote('Pricing lessons', '<p>Never discount first.</p><p>Anchor high, then trade.</p>');
+    const contact = createContact({ fullName: 'Review Rhea', relationshipDomain: 'business', relationshipRole: 'client' });
+    updatePersonalIntel(contact.id, { watchFor: 'Goes quiet when rushed' });
+
+    const noteItem = flagNoteForReview(note.id)!;
+    const anchor = createTextAnchor(htmlToAnchorText(note.content!), 'Anchor high, then trade.')!;
+    const blockItem = flagBlockForReview(note.id, anchor)!;
+    const intelItem = flagIntelForReview(contact.id, 'watchFor')!;
+    const ids = [noteItem.id, blockItem.id, intelItem.id];
+
+    // Flagging twice returns the same item
+    expect(flagNoteForReview(note.id)!.id).toBe(noteItem.id);
+    expect(flagBlockForReview(note.id, anchor)!.id).toBe(blockItem.id);
+
+    expect(queueIds('2026-06-01', ids)).toEqual([]);
+    const cards = getReviewQueue('2026-06-02').filter(card => ids.includes(card.item.id));
+    expect(cards.map(card => card.content)).toEqual([
+      'Never discount first. Anchor high, then trade.',
+      'Anchor high, then trade.',
+      'Goes quiet when rushed',
+    ]);
+    expect(cards[2].context).toBe('Review Rhea · Watch for');
+  });
+
+  it('spaces remembered items out and brings forgotten ones back tomorrow', () => {
+    const note = makeNote('Objection handling', '<p>Agree, then reframe.</p>');
+    const item = flagNoteForReview(note.id)!;
+
+    recordReview(item.id, 'remembered', '2026-06-02');
+    expect(queueIds('2026-06-03', [item.id])).toEqual([item.id]);
+
+    recordReview(item.id, 'remembered', '2026-06-03');
+    expect(queueIds('2026-06-08', [item.id])).toEqual([]);
+    expect(queueIds('2026-06-09', [item.id])).toEqual([item.id]);
+
+    const forgotten = recordReview(item.id, 'forgot', '2026-06-09')!;
+    expect(forgotten.schedule.dueDate).toBe('2026-06-10');
+    expect(forgotten.reviewCount).toBe(3);
+    expect(forgotten.lastOutcome).toBe('forgot');
+  });
+
+  it('leaves out items whose target is gone and cleans up deleted notes', () => {
+    const note = makeNote('Launch memo', '<p>Ship on Tuesday.</p>');
+    const contact = createContact({ fullName: 'Review Remy', relationshipDomain: 'business', relationshipRole: 'client' });
+    updatePersonalIntel(contact.id, { howTheySpeak: 'Short sentences' });
+
+    const anchor = createTextAnchor(htmlToAnchorText(note.content!), 'Ship on Tuesday.')!;
+    const blockItem = flagBlockForReview(note.id, anchor)!;
+    const intelItem = flagIntelForReview(contact.id, 'howTheySpeak')!;
+
+    updateNote(note.id, { content: '<p>Launch postponed.</p>' });
+    updatePersonalIntel(contact.id, { howTheySpeak: '' });
+    expect(queueIds('2026-06-02', [blockItem.id, intelItem.id])).toEqual([]);
+
+    expect(unflagReviewItem(intelItem.id)).toBe(true);
+    permanentlyDeleteNote(note.id);
+    expect(getReviewItemsForNote(note.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+// =============================================================================
+// SEARCH SERVICE TESTS
+// =============================================================================
+// Covers typed results across stores, filter operators and incremental
+// re-indexing as stores change.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { searchWorkspace } from '../../services/searchService';
+import { createContact, CONTACT_ZERO } from '../../services/contactStore';
+import { createNote, updateNote, deleteNote, addTopicToNoteByLabel } from '../../services/noteStore';
+import { createTask } from '../../services/taskStore';
+import { createInteraction } from '../../services/interactionStore';
+
+describe('searchService', () => {
+  const contact = createContact({ fullName: 'Zephyrine Okafor', company: 'Quasarly', relationshipDomain: 'business' });
+  const other = createContact({ fullName: 'Bartholomew Quince', relationshipDomain: 'business' });
+  const note = createNote({
+    title: 'Quasarly renewal',
+    content: '<p>Renewal <strong>negotiations</strong> stalled on seat pricing</p>',
+    targetContactIds: [contact.id],
+  });
+  addTopicToNoteByLabel(note.id, 'Renewals');
+  const task = createTask({ contactId: contact.id, title: 'Send Quasarly renewal quote', dueAt: '2026-02-10T09:00:00.000Z' });
+  createTask({ contactId: other.id, title: 'Send renewal reminder', dueAt: '2025-12-01T09:00:00.000Z' });
+  createInteraction({
+    contactId: contact.id,
+    authorContactId: CONTACT_ZERO.id,
+    type: 'call',
+    summary: 'Walked through the Quasarly renewal pricing',
+    occurredAt: '2026-01-15T10:00:00.000Z',
+  });
+
+  it('returns typed results from every store', () => {
+    const types = searchWorkspace('quasarly').map(r => r.type);
+    expect(types).toEqual(expect.arrayContaining(['note', 'contact', 'task', 'interaction']));
+
+    const noteHit = searchWorkspace('negotiation').find(r => r.id === note.id);
+    expect(noteHit?.snippet).toContain('negotiations');
+  });
+
+  it('applies @contact, #topic, is: and date operators', () => {
+    expect(searchWorkspace('renewal @zephyr is:task').map(r => r.id)).toEqual([task.id]);
+    expect(searchWorkspace('#renewals').map(r => r.id)).toEqual([note.id]);
+    expect(searchWorkspace('renewal is:task before:2026-01-01').every(r => r.contactId === other.id)).toBe(true);
+    expect(searchWorkspace('renewal is:task after:2026-01-01').map(r => r.id)).toEqual([task.id]);
+  });
+
+  it('picks up edits and deletions', () => {
+    updateNote(note.id, { content: '<p>Now about xylophone procurement</p>' });
+    expect(searchWorkspace('xylophone').map(r => r.id)).toEqual([note.id]);
+    expect(searchWorkspace('negotiations')).toHaveLength(0);
+
+    deleteNote(note.id);
+    expect(searchWorkspace('xylophone')).toHaveLength(0);
+  });
+});
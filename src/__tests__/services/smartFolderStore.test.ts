@@ -0,0 +1,151 @@
+// =============================================================================
+// SMART FOLDER TESTS
+// =============================================================================
+// Covers note query criteria (topics with subtopics, contacts, kinds, date
+// ranges, flags), smart folder CRUD and live result notifications.
+// =============================================================================
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { Note } from '../../types';
+import {
+  runNoteQuery,
+  matchesNoteQuery,
+  describeNoteQuery,
+  isEmptyNoteQuery,
+  createSmartFolder,
+  updateSmartFolder,
+  deleteSmartFolder,
+  getAllSmartFolders,
+  getSmartFolderNotes,
+  subscribeSmartFolders,
+  subscribeNoteQueryResults,
+} from '../../services/smartFolderStore';
+import { createNote, updateNote, addTopicToNoteById, deleteNote } from '../../services/noteStore';
+import { getOrCreateTopic } from '../../services/topicStore';
+import { createContact } from '../../services/contactStore';
+import { restoreFrameScanReport, type FrameScanReport } from '../../services/frameScanReportStore';
+
+/** Create notes at distinct, fixed times (note IDs are timestamp based) */
+const notesAt = (...specs: { at: string; title: string; content?: string; kind?: Note['kind']; dateKey?: string }[]): Note[] => {
+  vi.useFakeTimers();
+  const notes = specs.map(spec => {
+    vi.setSystemTime(new Date(spec.at));
+    return createNote({ title: spec.title, content: spec.content || '<p></p>', kind: spec.kind, dateKey: spec.dateKey });
+  });
+  vi.useRealTimers();
+  return notes;
+};
+
+const ids = (notes: Note[]) => notes.map(n => n.id);
+
+describe('note queries', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('matches topics including subtopics, and linked contacts', () => {
+    const parent = getOrCreateTopic('Smart/Deals');
+    const child = getOrCreateTopic('Smart/Deals/Renewals');
+    const contact = createContact({ fullName: 'Smart Query Contact', relationshipDomain: 'business' });
+    const [a, b, c] = notesAt(
+      { at: '2026-02-01T10:00:00Z', title: 'Parent topic' },
+      { at: '2026-02-02T10:00:00Z', title: 'Child topic' },
+      { at: '2026-02-03T10:00:00Z', title: 'Contact only' },
+    );
+    addTopicToNoteById(a.id, parent.id);
+    addTopicToNoteById(b.id, child.id);
+    updateNote(b.id, { targetContactIds: [contact.id] });
+    updateNote(c.id, { mentionedContactIds: [contact.id] });
+
+    expect(ids(runNoteQuery({ topicIds: [parent.id], sort: 'title' }))).toEqual([b.id, a.id]);
+    expect(ids(runNoteQuery({ contactIds: [contact.id], sort: 'created' }))).toEqual([c.id, b.id]);
+    expect(ids(runNoteQuery({ topicIds: [parent.id], contactIds: [contact.id] }))).toEqual([b.id]);
+  });
+
+  it('filters by kind and date range, using the log date for journal entries', () => {
+    const topic = getOrCreateTopic('Smart Dates');
+    const [note, log, old] = notesAt(
+      { at: '2026-03-10T10:00:00Z', title: 'Recent note' },
+      { at: '2026-03-12T10:00:00Z', title: 'Backfilled log', kind: 'log', dateKey: '2026-01-05' },
+      { at: '2026-01-02T10:00:00Z', title: 'Old note' },
+    );
+    [note, log, old].forEach(n => addTopicToNoteById(n.id, topic.id));
+    const now = new Date('2026-03-12T18:00:00Z');
+
+    expect(ids(runNoteQuery({ topicIds: [topic.id], kinds: ['log'] }))).toEqual([log.id]);
+    expect(ids(runNoteQuery({ topicIds: [topic.id], withinDays: 7 }, now))).toEqual([note.id]);
+    expect(ids(runNoteQuery({ topicIds: [topic.id], after: '2026-01-01', before: '2026-01-31', sort: 'title' }))).toEqual([
+      log.id,
+      old.id,
+    ]);
+    // Topic edits above touched updatedAt, so every note was updated today
+    expect(runNoteQuery({ topicIds: [topic.id], dateField: 'updated', after: new Date().toISOString().split('T')[0] })).toHaveLength(3);
+  });
+
+  it('filters by pinned, attachments and FrameScans, and skips trashed notes', () => {
+    const topic = getOrCreateTopic('Smart Flags');
+    const [pinned, image, scanned, trashed] = notesAt(
+      { at: '2026-04-01T10:00:00Z', title: 'Pinned' },
+      { at: '2026-04-02T10:00:00Z', title: 'Image', content: '<p>Look</p><img src="data:image/png;base64,AA">' },
+      { at: '2026-04-03T10:00:00Z', title: 'Scanned' },
+      { at: '2026-04-04T10:00:00Z', title: 'Trashed' },
+    );
+    [pinned, image, scanned, trashed].forEach(n => addTopicToNoteById(n.id, topic.id));
+    updateNote(pinned.id, { isPinned: true });
+    restoreFrameScanReport({
+      id: 'fsr_smart_folder_test',
+      createdAt: '2026-04-03T11:00:00Z',
+      sourceRef: `note:${scanned.id}`,
+      subjectContactIds: [],
+    } as unknown as FrameScanReport);
+    deleteNote(trashed.id);
+
+    expect(ids(runNoteQuery({ topicIds: [topic.id], pinned: true }))).toEqual([pinned.id]);
+    expect(ids(runNoteQuery({ topicIds: [topic.id], hasAttachment: true }))).toEqual([image.id]);
+    expect(ids(runNoteQuery({ topicIds: [topic.id], hasFrameScan: true }))).toEqual([scanned.id]);
+    expect(runNoteQuery({ topicIds: [topic.id], hasFrameScan: false })).toHaveLength(2);
+    expect(matchesNoteQuery(trashed, { topicIds: [topic.id] })).toBe(false);
+  });
+
+  it('describes queries', () => {
+    expect(isEmptyNoteQuery({ sort: 'title' })).toBe(true);
+    expect(describeNoteQuery({})).toBe('All notes');
+    expect(describeNoteQuery({ kinds: ['log'], withinDays: 30, pinned: true })).toBe('log · last 30 days · pinned');
+  });
+});
+
+describe('smart folders', () => {
+  it('creates, updates and deletes smart folders and notifies subscribers', () => {
+    const topic = getOrCreateTopic('Smart Folder CRUD');
+    const [note] = notesAt({ at: '2026-05-01T10:00:00Z', title: 'In folder' });
+    addTopicToNoteById(note.id, topic.id);
+
+    const onFolders = vi.fn();
+    const unsubscribe = subscribeSmartFolders(onFolders);
+    const folder = createSmartFolder('  CRUD folder  ', { topicIds: [topic.id] });
+
+    expect(folder.name).toBe('CRUD folder');
+    expect(getAllSmartFolders().map(f => f.id)).toContain(folder.id);
+    expect(ids(getSmartFolderNotes(folder.id))).toEqual([note.id]);
+
+    updateSmartFolder(folder.id, { query: { topicIds: [topic.id], pinned: true } });
+    expect(getSmartFolderNotes(folder.id)).toEqual([]);
+
+    expect(deleteSmartFolder(folder.id)).toBe(true);
+    expect(deleteSmartFolder(folder.id)).toBe(false);
+    expect(getSmartFolderNotes(folder.id)).toEqual([]);
+    expect(onFolders).toHaveBeenCalledTimes(3);
+    unsubscribe();
+  });
+
+  it('notifies result subscribers when notes change', () => {
+    const onResults = vi.fn();
+    const unsubscribe = subscribeNoteQueryResults(onResults);
+    const [note] = notesAt({ at: '2026-05-02T10:00:00Z', title: 'Live' });
+    updateNote(note.id, { isPinned: true });
+    expect(onResults).toHaveBeenCalled();
+
+    unsubscribe();
+    onResults.mockClear();
+    updateNote(note.id, { isPinned: false });
+    expect(onResults).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,234 @@
+// =============================================================================
+// TASK STORE TESTS
+// =============================================================================
+// Covers recurring tasks (next-occurrence generation, projection into date
+// ranges, skipping/rescheduling single occurrences) and planning fields
+// (dependencies, subtasks, priorities, durations).
+// =============================================================================
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createTask,
+  updateTaskStatus,
+  updateTask,
+  getTaskById,
+  getAllTasks,
+  getTasksByDateRange,
+  isProjectedOccurrence,
+  parseOccurrenceId,
+  skipTaskOccurrence,
+  rescheduleTaskOccurrence,
+  addTaskDependency,
+  removeTaskDependency,
+  getSubtaskProgress,
+  setTaskParent,
+  logTaskTime,
+  queryTasks,
+  getOpenTasksGroupedByContact,
+} from '../../services/taskStore';
+
+const CONTACT_ID = 'c_recurring_test';
+
+const seriesTasks = (seriesId: string) =>
+  getAllTasks().filter(t => t.seriesId === seriesId);
+
+describe('taskStore recurrence', () => {
+  let taskId: string;
+
+  beforeEach(() => {
+    taskId = createTask({
+      contactId: CONTACT_ID,
+      title: 'Weekly check-in',
+      dueAt: '2030-03-04T10:00:00Z', // Monday
+      recurrence: 'FREQ=WEEKLY;COUNT=4',
+    }).id;
+  });
+
+  it('ignores recurrence without a due date', () => {
+    const task = createTask({ contactId: CONTACT_ID, title: 'Someday', recurrence: 'FREQ=DAILY' });
+
+    expect(task.recurrence).toBeUndefined();
+  });
+
+  it('creates the next occurrence when the current one is done', () => {
+    updateTaskStatus(taskId, 'done');
+
+    const completed = getTaskById(taskId)!;
+    expect(completed.status).toBe('done');
+    expect(completed.recurrence).toBeNull();
+
+    const open = seriesTasks(taskId).filter(t => t.status === 'open');
+    expect(open).toHaveLength(1);
+    expect(open[0].dueAt).toBe('2030-03-11T10:00:00Z');
+    expect(open[0].recurrence?.rule).toBe('FREQ=WEEKLY;COUNT=4');
+  });
+
+  it('does not create another occurrence when a task is completed twice', () => {
+    updateTaskStatus(taskId, 'done');
+    updateTaskStatus(taskId, 'open');
+    updateTaskStatus(taskId, 'done');
+
+    expect(seriesTasks(taskId)).toHaveLength(2);
+  });
+
+  it('reopening a completed occurrence takes the series back from it', () => {
+    updateTaskStatus(taskId, 'done');
+    expect(updateTaskStatus(taskId, 'open')).toBe(true);
+
+    const open = seriesTasks(taskId).filter(t => t.status === 'open');
+    expect(open.map(t => t.id)).toEqual([taskId]);
+    expect(getTaskById(taskId)?.recurrence?.rule).toBe('FREQ=WEEKLY;COUNT=4');
+
+    updateTaskStatus(taskId, 'done');
+    const next = seriesTasks(taskId).filter(t => t.status === 'open');
+    expect(next).toHaveLength(1);
+    expect(next[0].dueAt).toBe('2030-03-11T10:00:00Z');
+  });
+
+  it('keeps skips and reschedules when a completed occurrence is reopened', () => {
+    skipTaskOccurrence(taskId, '2030-03-11');
+    rescheduleTaskOccurrence(taskId, '2030-03-18', '2030-03-19T09:00:00Z');
+    updateTaskStatus(taskId, 'done');
+    updateTaskStatus(taskId, 'open');
+
+    const dates = getTasksByDateRange('2030-03-01', '2030-03-31')
+      .filter(t => (parseOccurrenceId(t.id)?.taskId ?? t.id) === taskId)
+      .map(t => t.dueAt);
+    expect(dates).toEqual(['2030-03-04T10:00:00Z', '2030-03-19T09:00:00Z', '2030-03-25T10:00:00Z']);
+  });
+
+  it('refuses to reopen an occurrence once the next one has been worked on', () => {
+    updateTaskStatus(taskId, 'done');
+    const next = seriesTasks(taskId).find(t => t.status === 'open')!;
+    updateTask(next.id, { title: 'Weekly check-in (agenda sent)' });
+
+    expect(updateTaskStatus(taskId, 'open')).toBe(false);
+    expect(getTaskById(taskId)?.status).toBe('done');
+    expect(seriesTasks(taskId).filter(t => t.status === 'open').map(t => t.id)).toEqual([next.id]);
+  });
+
+  it('projects future occurrences into date ranges', () => {
+    const tasks = getTasksByDateRange('2030-03-01', '2030-03-31').filter(
+      t => (parseOccurrenceId(t.id)?.taskId ?? t.id) === taskId
+    );
+
+    expect(tasks.map(t => t.dueAt)).toEqual([
+      '2030-03-04T10:00:00Z',
+      '2030-03-11T10:00:00Z',
+      '2030-03-18T10:00:00Z',
+      '2030-03-25T10:00:00Z',
+    ]);
+    expect(tasks.filter(isProjectedOccurrence)).toHaveLength(3);
+  });
+
+  it('skips a future occurrence', () => {
+    skipTaskOccurrence(taskId, '2030-03-11');
+
+    const dates = getTasksByDateRange('2030-03-01', '2030-03-31')
+      .filter(t => t.seriesId === taskId)
+      .map(t => t.dueAt);
+    expect(dates).not.toContain('2030-03-11T10:00:00Z');
+
+    updateTaskStatus(taskId, 'done');
+    const next = seriesTasks(taskId).find(t => t.status === 'open');
+    expect(next?.dueAt).toBe('2030-03-18T10:00:00Z');
+  });
+
+  it('skipping the current occurrence advances the task', () => {
+    skipTaskOccurrence(taskId, '2030-03-04');
+
+    expect(getTaskById(taskId)?.dueAt).toBe('2030-03-11T10:00:00Z');
+  });
+
+  it('reschedules one occurrence without shifting the series', () => {
+    rescheduleTaskOccurrence(taskId, '2030-03-04', '2030-03-06T10:00:00Z');
+    rescheduleTaskOccurrence(taskId, '2030-03-11', '2030-03-12T15:00:00Z');
+
+    const task = getTaskById(taskId)!;
+    expect(task.dueAt).toBe('2030-03-06T10:00:00Z');
+    expect(task.occurrenceAt).toBe('2030-03-04T10:00:00Z');
+
+    updateTaskStatus(taskId, 'done');
+    const next = seriesTasks(taskId).find(t => t.status === 'open')!;
+    expect(next.dueAt).toBe('2030-03-12T15:00:00Z');
+    expect(next.occurrenceAt).toBe('2030-03-11T10:00:00Z');
+  });
+
+  it('projects an occurrence rescheduled from after the range into it', () => {
+    rescheduleTaskOccurrence(taskId, '2030-03-25', '2030-03-14T10:00:00Z');
+
+    const dates = getTasksByDateRange('2030-03-01', '2030-03-15')
+      .filter(t => (parseOccurrenceId(t.id)?.taskId ?? t.id) === taskId)
+      .map(t => t.dueAt);
+    expect(dates).toEqual(['2030-03-04T10:00:00Z', '2030-03-11T10:00:00Z', '2030-03-14T10:00:00Z']);
+  });
+
+  it('ends the series after COUNT occurrences', () => {
+    let current = taskId;
+    for (let i = 0; i < 4; i++) {
+      updateTaskStatus(current, 'done');
+      current = seriesTasks(taskId).find(t => t.status === 'open')?.id ?? '';
+    }
+
+    expect(current).toBe('');
+    expect(seriesTasks(taskId)).toHaveLength(4);
+  });
+});
+
+describe('taskStore dependencies and planning', () => {
+  it('blocks a task until its dependencies are done', () => {
+    const blocker = createTask({ contactId: CONTACT_ID, title: 'Draft contract' });
+    const task = createTask({ contactId: CONTACT_ID, title: 'Send contract', blockedBy: [blocker.id] });
+
+    expect(task.status).toBe('blocked');
+
+    updateTaskStatus(blocker.id, 'done');
+    expect(getTaskById(task.id)?.status).toBe('open');
+
+    updateTaskStatus(blocker.id, 'open');
+    expect(getTaskById(task.id)?.status).toBe('blocked');
+
+    removeTaskDependency(task.id, blocker.id);
+    expect(getTaskById(task.id)?.status).toBe('open');
+  });
+
+  it('rejects self and circular dependencies', () => {
+    const a = createTask({ contactId: CONTACT_ID, title: 'A' });
+    const b = createTask({ contactId: CONTACT_ID, title: 'B' });
+
+    expect(addTaskDependency(a.id, a.id)).toBe(false);
+    expect(addTaskDependency(b.id, a.id)).toBe(true);
+    expect(addTaskDependency(a.id, b.id)).toBe(false);
+  });
+
+  it('tracks subtasks and prevents parent cycles', () => {
+    const parent = createTask({ contactId: CONTACT_ID, title: 'Launch' });
+    const child = createTask({ contactId: CONTACT_ID, title: 'Write copy', parentTaskId: parent.id });
+    createTask({ contactId: CONTACT_ID, title: 'Design', parentTaskId: parent.id });
+    updateTaskStatus(child.id, 'done');
+
+    expect(getSubtaskProgress(parent.id)).toEqual({ done: 1, total: 2 });
+    expect(setTaskParent(parent.id, child.id)).toBe(false);
+  });
+
+  it('accumulates actual time', () => {
+    const task = createTask({ contactId: CONTACT_ID, title: 'Audit', estimatedMinutes: 60 });
+    logTaskTime(task.id, 25);
+    logTaskTime(task.id, 20);
+
+    expect(getTaskById(task.id)?.actualMinutes).toBe(45);
+  });
+
+  it('sorts and filters by priority', () => {
+    const low = createTask({ contactId: CONTACT_ID, title: 'Low', priority: 'low' });
+    const critical = createTask({ contactId: CONTACT_ID, title: 'Critical', priority: 'critical' });
+    const high = createTask({ contactId: CONTACT_ID, title: 'High', priority: 'high' });
+
+    const sorted = queryTasks([low, critical, high], { sortBy: 'priority' });
+    expect(sorted.map(t => t.title)).toEqual(['Critical', 'High', 'Low']);
+
+    const grouped = getOpenTasksGroupedByContact({ priorities: ['critical'] });
+    expect(grouped.get(CONTACT_ID)?.map(t => t.id)).toContain(critical.id);
+    expect(grouped.get(CONTACT_ID)?.map(t => t.id)).not.toContain(low.id);
+  });
+});
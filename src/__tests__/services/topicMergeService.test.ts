@@ -0,0 +1,129 @@
+// =============================================================================
+// TOPIC HIERARCHY, ALIAS AND MERGE TESTS
+// =============================================================================
+// Covers nested topic creation, alias resolution, roll-up queries and merging
+// topics across notes, contacts, projects and note links.
+// =============================================================================
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  getOrCreateTopic,
+  createTopicFromHashtag,
+  resolveTopic,
+  addTopicAlias,
+  setTopicParent,
+  getTopicById,
+  getChildTopics,
+  getTopicPath,
+  getNotesForTopic,
+  getNoteCountForTopic,
+  linkNoteToTopic,
+  getTopicsForNote,
+} from '../../services/topicStore';
+import { mergeTopics } from '../../services/topicMergeService';
+import { createNote, getNoteById, addTopicToNoteById } from '../../services/noteStore';
+import { createContact, getContactById, addTopicToContact, CONTACT_ZERO } from '../../services/contactStore';
+import { createProject, getProjectById, updateProject } from '../../services/projectStore';
+
+describe('topic hierarchy and aliases', () => {
+  it('creates nested topics from a path and reuses existing levels', () => {
+    const child = getOrCreateTopic('Accounts/Enterprise Deals');
+    const parent = getTopicById(child.parentId!)!;
+
+    expect(child.slug).toBe('accounts/enterprise-deals');
+    expect(parent.slug).toBe('accounts');
+    expect(getTopicPath(child.id)).toBe('Accounts/Enterprise Deals');
+    expect(getOrCreateTopic('accounts / enterprise deals').id).toBe(child.id);
+    expect(getOrCreateTopic('Accounts/SMB').parentId).toBe(parent.id);
+    expect(getChildTopics(parent.id)).toHaveLength(2);
+  });
+
+  it('resolves aliases, including inside a path', () => {
+    const revenue = getOrCreateTopic('Revenue');
+    expect(addTopicAlias(revenue.id, 'Selling')).toBe(true);
+
+    expect(createTopicFromHashtag('selling').id).toBe(revenue.id);
+    expect(getOrCreateTopic('selling/renewals').slug).toBe('revenue/renewals');
+    expect(resolveTopic('Revenue/Renewals')?.parentId).toBe(revenue.id);
+
+    // An alias cannot shadow another topic
+    getOrCreateTopic('Bookings');
+    expect(addTopicAlias(revenue.id, 'bookings')).toBe(false);
+  });
+
+  it('moves subtrees and refuses cycles', () => {
+    const ops = getOrCreateTopic('Ops');
+    const hiring = getOrCreateTopic('Hiring/Interviews');
+    const hiringRoot = getTopicById(hiring.parentId!)!;
+
+    expect(setTopicParent(hiringRoot.id, ops.id)).toBe(true);
+    expect(getTopicById(hiring.id)!.slug).toBe('ops/hiring/interviews');
+    expect(setTopicParent(ops.id, hiring.id)).toBe(false);
+  });
+
+  it('rolls up notes from child topics', () => {
+    const parent = getOrCreateTopic('Rollup');
+    const child = getOrCreateTopic('Rollup/Child');
+    // Note IDs are timestamp based
+    vi.useFakeTimers();
+    const parentNote = createNote({ title: 'Parent note', content: '<p>a</p>' });
+    vi.advanceTimersByTime(1);
+    const childNote = createNote({ title: 'Child note', content: '<p>b</p>' });
+    vi.useRealTimers();
+    addTopicToNoteById(parentNote.id, parent.id);
+    linkNoteToTopic(childNote.id, child);
+
+    expect(getNotesForTopic(parent.id).map(n => n.id)).toEqual([parentNote.id]);
+    expect(getNotesForTopic(parent.id, true).map(n => n.id).sort()).toEqual([parentNote.id, childNote.id].sort());
+    expect(getNoteCountForTopic(parent.id, true)).toBe(2);
+  });
+});
+
+describe('mergeTopics', () => {
+  it('re-points notes, contacts, projects and note links, and keeps the old name as an alias', () => {
+    const survivor = getOrCreateTopic('Pipeline');
+    const duplicate = getOrCreateTopic('Pipeline Team');
+    getOrCreateTopic('Pipeline Team/Q3');
+
+    const note = createNote({
+      title: 'Tagged',
+      content: `<p><span data-type="topic-mention" data-topic-id="${duplicate.id}" data-topic-label="Pipeline Team">#Pipeline Team</span></p>`,
+    });
+    addTopicToNoteById(note.id, duplicate.id);
+    linkNoteToTopic(note.id, duplicate);
+
+    const contact = createContact({ fullName: 'Topic Merge Contact', relationshipDomain: 'business' });
+    addTopicToContact(contact.id, duplicate.id);
+
+    const project = createProject({ name: 'Topic merge project', primaryContactId: CONTACT_ZERO.id });
+    updateProject({ ...getProjectById(project.id)!, topicIds: [duplicate.id, survivor.id] });
+
+    const result = mergeTopics(survivor.id, duplicate.id)!;
+    expect(result).toMatchObject({ notes: 1, contacts: 1, projects: 1, noteLinks: 1, childTopics: 1 });
+
+    expect(getTopicById(duplicate.id)).toBeUndefined();
+    expect(getNoteById(note.id)!.topics).toEqual([survivor.id]);
+    expect(getNoteById(note.id)!.content).toContain(`data-topic-id="${survivor.id}"`);
+    expect(getContactById(contact.id)!.linkedTopics).toEqual([survivor.id]);
+    expect(getProjectById(project.id)!.topicIds).toEqual([survivor.id]);
+    expect(getTopicsForNote(note.id).map(t => t.id)).toEqual([survivor.id]);
+    expect(resolveTopic('pipeline-team/q3')?.slug).toBe('pipeline/q3');
+
+    // Typing the old hashtag now lands on the survivor
+    expect(createTopicFromHashtag('Pipeline Team').id).toBe(survivor.id);
+  });
+
+  it('merges same-named children and refuses merging into a descendant', () => {
+    const a = getOrCreateTopic('Alpha/Leads');
+    const b = getOrCreateTopic('Beta/Leads');
+    const alpha = getTopicById(a.parentId!)!;
+    const beta = getTopicById(b.parentId!)!;
+
+    const result = mergeTopics(alpha.id, beta.id)!;
+    expect(result.mergedChildTopics).toBe(1);
+    expect(getChildTopics(alpha.id).map(t => t.id)).toEqual([a.id]);
+    expect(getTopicById(b.id)).toBeUndefined();
+
+    expect(mergeTopics(a.id, alpha.id)).toBeUndefined();
+  });
+});
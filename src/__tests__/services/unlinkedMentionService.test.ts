@@ -0,0 +1,94 @@
+// =============================================================================
+// UNLINKED MENTION SERVICE TESTS
+// =============================================================================
+// Covers finding plain-text note titles and contact names in HTML and plain
+// note bodies, skipping text that is already linked, and converting mentions
+// singly or in bulk.
+// =============================================================================
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  findUnlinkedMentions,
+  linkMentionsInContent,
+  linkUnlinkedMentions,
+} from '../../services/unlinkedMentionService';
+import { createContact, getContactById } from '../../services/contactStore';
+import { createNote, getNoteById } from '../../services/noteStore';
+
+describe('unlinked mention service', () => {
+  // Note IDs come from Date.now(); give each note its own millisecond
+  let tick = 0;
+  const makeNote = (title: string, content = '') => {
+    vi.setSystemTime(new Date(Date.UTC(2026, 4, 4, 9, 0, ++tick)));
+    return createNote({ title, content, kind: 'note' });
+  };
+
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('finds note titles and contact names in visible text only', () => {
+    const roadmap = makeNote('Orbital Roadmap');
+    const contact = createContact({ fullName: 'Imogen Unlinked', relationshipDomain: 'business', relationshipRole: 'client' });
+    const self = makeNote('Weekly sync');
+
+    const html =
+      '<p>Went through the orbital roadmap with Imogen Unlinked. Weekly sync next.</p>' +
+      '<p>See <span class="wikilink" data-wiki-title="Orbital Roadmap"><span class="wikilink-text">Orbital Roadmap</span></span> ' +
+      'and <a href="https://x.test">Orbital Roadmap</a> and <code>Orbital Roadmap</code>.</p>' +
+      '<p><img src="orbital-roadmap.png" alt="Orbital Roadmap"> Orbital Roadmap again, @Imogen Unlinked.</p>';
+
+    const mentions = findUnlinkedMentions(html, { excludeNoteId: self.id });
+
+    expect(mentions.map(m => [m.kind, m.targetId, m.count])).toEqual([
+      ['note', roadmap.id, 2],
+      ['contact', contact.id, 1],
+    ]);
+    expect(mentions[1].snippet).toContain('roadmap with Imogen Unlinked. Weekly sync next.');
+  });
+
+  it('skips [[wikilinks]] in plain text and lets longer names win', () => {
+    const launch = makeNote('Launch');
+    const launchPlan = makeNote('Launch Plan');
+
+    const mentions = findUnlinkedMentions('The launch plan is in [[Launch]]. Launch soon.');
+
+    expect(mentions.map(m => [m.targetId, m.count])).toEqual([
+      [launch.id, 1],
+      [launchPlan.id, 1],
+    ]);
+  });
+
+  it('converts only the selected mentions', () => {
+    const roadmap = makeNote('Quarterly Roadmap');
+    const contact = createContact({ fullName: 'Tobias Unlinked', relationshipDomain: 'business', relationshipRole: 'client' });
+
+    const plain = linkMentionsInContent('Quarterly roadmap for Tobias Unlinked.', [
+      { kind: 'note', targetId: roadmap.id, label: 'Quarterly Roadmap' },
+    ]);
+    expect(plain).toBe('[[Quarterly Roadmap]] for Tobias Unlinked.');
+
+    const html = linkMentionsInContent('<p>Ask Tobias Unlinked &amp; co.</p>', [
+      { kind: 'contact', targetId: contact.id, label: 'Tobias Unlinked' },
+    ]);
+    expect(html).toBe(
+      `<p>Ask <span data-contact-id="${contact.id}" data-contact-name="Tobias Unlinked" class="contact-mention">` +
+      '<span class="mention-icon-placeholder"></span><span class="mention-text">Tobias Unlinked</span></span> &amp; co.</p>'
+    );
+    expect(findUnlinkedMentions(html)).toEqual([]);
+  });
+
+  it('links every mention in a stored note in bulk', () => {
+    const roadmap = makeNote('Pricing Roadmap');
+    const contact = createContact({ fullName: 'Nadia Unlinked', relationshipDomain: 'business', relationshipRole: 'client' });
+    const note = makeNote('Pricing call', '<p>Nadia Unlinked asked about the pricing roadmap.</p>');
+
+    const mentions = findUnlinkedMentions(note.content || '', { excludeNoteId: note.id });
+    const updated = linkUnlinkedMentions(note.id, mentions)!;
+
+    expect(updated.content).toContain(`data-note-id="${roadmap.id}"`);
+    expect(updated.content).toContain(`data-contact-id="${contact.id}"`);
+    expect(getNoteById(note.id)!.mentions).toContain(contact.id);
+    expect(getContactById(contact.id)!.mentionedInNotes).toContain(note.id);
+    expect(findUnlinkedMentions(updated.content || '', { excludeNoteId: note.id })).toEqual([]);
+  });
+});
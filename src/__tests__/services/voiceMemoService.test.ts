@@ -0,0 +1,151 @@
+// =============================================================================
+// VOICE MEMO SERVICE TESTS
+// =============================================================================
+// Covers committing a reviewed memo draft: only included items are created,
+// tasks land on the right contact, unknown names become contacts once and the
+// note links every confirmed mention.
+// =============================================================================
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { buildVoiceMemoHtml, commitVoiceMemo, type VoiceMemoDraft } from '../../services/voiceMemoService';
+import { createContact, getContactById, findContactByName, CONTACT_ZERO } from '../../services/contactStore';
+import { getNoteById } from '../../services/noteStore';
+
+const now = new Date('2026-05-04T09:00:00Z');
+
+describe('voice memo service', () => {
+  // Note IDs come from Date.now(); keep each commit on its own millisecond
+  let tick = 0;
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(now.getTime() + ++tick * 1000));
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it('builds paragraphs with mention chips and an optional recording', () => {
+    const html = buildVoiceMemoHtml(
+      'Met <Ada Lovelace> today.\n\nAda Lovelace again.',
+      [{ contactId: 'c-ada', name: 'Ada Lovelace' }],
+      { src: 'data:audio/webm;base64,AA', title: 'Memo' }
+    );
+    expect(html).toBe(
+      '<p>Met &lt;<span class="contact-mention" data-contact-id="c-ada" data-contact-name="Ada Lovelace">Ada Lovelace</span>&gt; today.</p>' +
+      '<p>Ada Lovelace again.</p>' +
+      '<div data-type="audio-embed" src="data:audio/webm;base64,AA" title="Memo"></div>'
+    );
+  });
+
+  it('creates the confirmed note, tasks, mentions and interaction', () => {
+    const ada = createContact({
+      fullName: 'Ada Voicememo',
+      relationshipDomain: 'business',
+      relationshipRole: 'client',
+    });
+
+    const draft: VoiceMemoDraft = {
+      transcript: 'raw',
+      title: 'Call with Ada',
+      body: 'Talked to Ada Voicememo and Grace Newcontact about the launch.',
+      tasks: [
+        { include: true, title: 'Send launch plan', dueDate: '2026-05-08', contactId: null, contactName: null },
+        { include: true, title: 'Book room', dueDate: null, contactId: CONTACT_ZERO.id, contactName: 'Me' },
+        { include: false, title: 'Skipped task', dueDate: null, contactId: ada.id, contactName: 'Ada Voicememo' },
+      ],
+      mentions: [
+        { include: true, contactId: ada.id, name: 'Ada Voicememo' },
+        { include: true, contactId: null, name: 'Grace Newcontact' },
+        { include: false, contactId: null, name: 'Nobody Rejected' },
+      ],
+      interaction: {
+        include: true,
+        contactId: ada.id,
+        contactName: 'Ada Voicememo',
+        type: 'call',
+        summary: 'Launch call',
+        occurredOn: '2026-05-03',
+      },
+      extracted: true,
+    };
+
+    const result = commitVoiceMemo(draft, { now });
+    const grace = findContactByName('Grace Newcontact');
+
+    expect(grace).toBeDefined();
+    expect(findContactByName('Nobody Rejected')).toBeUndefined();
+
+    const note = getNoteById(result.note.id)!;
+    expect(note.title).toBe('Call with Ada');
+    expect(note.dateKey).toBe('2026-05-04');
+    expect(note.targetContactIds).toEqual([ada.id, grace!.id]);
+    expect(note.mentions).toEqual([ada.id, grace!.id]);
+    expect(note.content).toContain(`data-contact-id="${grace!.id}"`);
+    expect(getContactById(ada.id)!.mentionedInNotes).toContain(note.id);
+
+    // Tasks without a contact go to the interaction's contact
+    expect(result.tasks.map(t => [t.title, t.contactId, t.dueAt])).toEqual([
+      ['Send launch plan', ada.id, '2026-05-08'],
+      ['Book room', CONTACT_ZERO.id, null],
+    ]);
+
+    expect(result.interaction).toMatchObject({
+      contactId: ada.id,
+      authorContactId: CONTACT_ZERO.id,
+      type: 'call',
+      summary: 'Launch call',
+      occurredAt: '2026-05-03T00:00:00.000Z',
+    });
+  });
+
+  it('skips an unconfirmed interaction and creates a contact for a new interaction name', () => {
+    const skipped = commitVoiceMemo({
+      transcript: 'raw',
+      title: '',
+      body: 'Quick thought.',
+      tasks: [],
+      mentions: [],
+      interaction: { include: false, contactId: null, contactName: 'Ignored Person', type: 'meeting', summary: 'x', occurredOn: null },
+      extracted: false,
+    }, { now });
+    vi.advanceTimersByTime(1);
+    expect(skipped.interaction).toBeNull();
+    expect(skipped.note.title).toBe('Voice memo');
+    expect(findContactByName('Ignored Person')).toBeUndefined();
+
+    const created = commitVoiceMemo({
+      transcript: 'raw',
+      title: 'Coffee',
+      body: 'Coffee with Lin.',
+      tasks: [{ include: true, title: 'Send intro', dueDate: null, contactId: null, contactName: null }],
+      mentions: [],
+      interaction: { include: true, contactId: null, contactName: 'Lin Coffeememo', type: 'meeting', summary: 'Coffee', occurredOn: null },
+      extracted: true,
+    }, { now });
+    const lin = findContactByName('Lin Coffeememo')!;
+    expect(created.interaction?.contactId).toBe(lin.id);
+    expect(created.interaction?.occurredAt).toBe(now.toISOString());
+    expect(created.tasks[0].contactId).toBe(lin.id);
+    expect(getNoteById(created.note.id)!.targetContactIds).toEqual([lin.id]);
+  });
+
+  it('creates a contact for a new name on a task, shared with its mention', () => {
+    const result = commitVoiceMemo({
+      transcript: 'raw',
+      title: 'Follow-ups',
+      body: 'Need to call Rosa Taskmemo and send Omar Taskmemo the deck.',
+      tasks: [
+        { include: true, title: 'Call Rosa', dueDate: null, contactId: null, contactName: 'Rosa Taskmemo' },
+        { include: true, title: 'Send Omar the deck', dueDate: null, contactId: null, contactName: 'Omar Taskmemo' },
+        { include: true, title: 'Send Omar the notes', dueDate: null, contactId: null, contactName: 'omar taskmemo' },
+      ],
+      mentions: [{ include: true, contactId: null, name: 'Omar Taskmemo' }],
+      interaction: null,
+      extracted: true,
+    }, { now });
+
+    const rosa = findContactByName('Rosa Taskmemo')!;
+    const omar = findContactByName('Omar Taskmemo')!;
+    expect(rosa).toBeDefined();
+    expect(result.tasks.map(t => t.contactId)).toEqual([rosa.id, omar.id, omar.id]);
+    expect(result.mentionedContactIds).toEqual([omar.id]);
+  });
+});
@@ -0,0 +1,74 @@
+// =============================================================================
+// WEB CLIP SERVICE TESTS
+// =============================================================================
+// Covers turning extracted fixture pages into notes with source metadata,
+// contact attachment, and the FrameScan length guard.
+// =============================================================================
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { extractWebClip } from '../../lib/webClip/webClipExtractor';
+import { buildWebClipNoteHtml, createNoteFromWebClip, clipUrlToNote } from '../../services/webClipService';
+import { createContact } from '../../services/contactStore';
+
+const fixture = (name: string): string =>
+  readFileSync(join(__dirname, '../../lib/webClip/__fixtures__', `${name}.html`), 'utf8');
+
+describe('web clip service', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('stores an article as a note with source metadata and a contact', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-05-01T10:00:00Z'));
+    const contact = createContact({ fullName: 'Ada Clipped', relationshipDomain: 'business', relationshipRole: 'prospect' });
+    const clip = extractWebClip(fixture('article'), 'https://blog.example.com/posts/ada');
+
+    const note = createNoteFromWebClip(clip, { contactId: contact.id });
+
+    expect(note.title).toBe('How Ada Lovelace Negotiates');
+    expect(note.tags).toEqual(['clipped', 'article']);
+    expect(note.targetContactIds).toContain(contact.id);
+    expect(note.source).toEqual({
+      url: 'https://review.example.com/2026/03/ada-lovelace-negotiates',
+      type: 'article',
+      siteName: 'Example Business Review',
+      author: 'Charles Babbage',
+      publishedAt: '2026-03-14T08:30:00.000Z',
+      imageUrl: 'https://blog.example.com/images/ada-lead.jpg',
+      clippedAt: '2026-05-01T10:00:00.000Z',
+    });
+    expect(note.content).toMatch(/^<p><em>Clipped from <a href="https:\/\/blog\.example\.com\/posts\/ada">Example Business Review<\/a> · Charles Babbage · 2026-03-14<\/em><\/p><img src="https:\/\/blog\.example\.com\/images\/ada-lead\.jpg"/);
+  });
+
+  it('embeds tweets instead of repeating the lead image', () => {
+    const clip = extractWebClip(fixture('tweet'), 'https://x.com/gracehopper/status/1790000000000000001');
+
+    const html = buildWebClipNoteHtml(clip);
+
+    expect(html).toContain(
+      '<div data-type="tweet-embed" data-url="https://x.com/gracehopper/status/1790000000000000001" data-tweet-id="1790000000000000001" data-author="gracehopper"></div>'
+    );
+    expect(html).not.toContain('<img');
+  });
+
+  it('fetches through the clip endpoint and skips FrameScan on short text', async () => {
+    const clip = extractWebClip(
+      '<html><head><title>Short</title></head><body><p>Too short.</p></body></html>',
+      'https://example.com/short'
+    );
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve(clip) });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await clipUrlToNote('https://example.com/short', { runFrameScan: true });
+
+    expect(fetchMock).toHaveBeenCalledWith('/api/web-clip', expect.objectContaining({ method: 'POST' }));
+    expect(result.success).toBe(true);
+    expect(result.note!.source!.type).toBe('web');
+    expect(result.frameScore).toBeUndefined();
+    expect(result.frameScanError).toBe('Not enough text to scan');
+  });
+});
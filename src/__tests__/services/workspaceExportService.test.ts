@@ -0,0 +1,102 @@
+// =============================================================================
+// WORKSPACE EXPORT SERVICE TESTS
+// =============================================================================
+// Covers bundle round-trips, conflict strategies and the Markdown vault layout.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  exportWorkspaceBundle,
+  exportWorkspaceJSON,
+  parseWorkspaceBundle,
+  previewWorkspaceImport,
+  importWorkspaceBundle,
+  buildMarkdownVault,
+  fulfillDataExportRequest,
+} from '../../services/workspaceExportService';
+import { createContact } from '../../services/contactStore';
+import { createNote, updateNote, getNoteById, permanentlyDeleteNote } from '../../services/noteStore';
+import { createFolder } from '../../services/folderStore';
+import { requestDataExport, getDataRequestById } from '../../stores/dataRequestStore';
+
+describe('workspaceExportService', () => {
+  it('round-trips records deleted after the export', () => {
+    const note = createNote({ title: 'Backup round trip', content: '<p>Keep me</p>' });
+    const bundle = parseWorkspaceBundle(exportWorkspaceJSON());
+    permanentlyDeleteNote(note.id);
+
+    const notesPreview = previewWorkspaceImport(bundle).find(s => s.key === 'notes')!;
+    expect(notesPreview.new).toBe(1);
+
+    const results = importWorkspaceBundle(bundle, { conflictStrategy: 'skip', sections: ['notes'] });
+    expect(results).toEqual([{ key: 'notes', label: 'Notes', added: 1, replaced: 0, skipped: notesPreview.conflicts }]);
+    expect(getNoteById(note.id)?.content).toBe('<p>Keep me</p>');
+  });
+
+  it('applies the conflict strategy to existing records', () => {
+    const note = createNote({ title: 'Conflict', content: '<p>Backup copy</p>' });
+    const bundle = exportWorkspaceBundle();
+    const backup = (bundle.data.notes as any[]).find(n => n.id === note.id);
+
+    updateNote(note.id, { content: '<p>Local edit</p>' });
+    importWorkspaceBundle(bundle, { conflictStrategy: 'skip', sections: ['notes'] });
+    expect(getNoteById(note.id)?.content).toBe('<p>Local edit</p>');
+
+    // The local edit is newer, so "newer" keeps it…
+    importWorkspaceBundle(bundle, { conflictStrategy: 'newer', sections: ['notes'] });
+    expect(getNoteById(note.id)?.content).toBe('<p>Local edit</p>');
+
+    // …until the backup carries the later edit
+    backup.updatedAt = '2999-01-01T00:00:00.000Z';
+    importWorkspaceBundle(bundle, { conflictStrategy: 'newer', sections: ['notes'] });
+    expect(getNoteById(note.id)?.content).toBe('<p>Backup copy</p>');
+
+    updateNote(note.id, { content: '<p>Local again</p>' });
+    importWorkspaceBundle(bundle, { conflictStrategy: 'overwrite', sections: ['notes'] });
+    expect(getNoteById(note.id)?.content).toBe('<p>Backup copy</p>');
+  });
+
+  it('rejects files that are not workspace exports', () => {
+    expect(() => parseWorkspaceBundle('{nope')).toThrow('Invalid JSON format');
+    expect(() => parseWorkspaceBundle('{"contacts":[]}')).toThrow('Not a FrameLord workspace export');
+    expect(() =>
+      parseWorkspaceBundle(JSON.stringify({ format: 'framelord-workspace', version: 99, data: {} }))
+    ).toThrow('newer version');
+  });
+
+  it('builds an Obsidian vault with folders, frontmatter and contact pages', () => {
+    const contact = createContact({ fullName: 'Vault Person', relationshipDomain: 'business', tags: ['VIP client'] });
+    const folder = createFolder('Vault Folder');
+    createNote({
+      title: 'Vault: Kickoff',
+      folderId: folder.id,
+      tags: ['meetings'],
+      targetContactIds: [contact.id],
+      content: `<p>Met <span class="contact-mention" data-contact-id="${contact.id}">@Vault Person</span></p>`,
+    });
+    createNote({ title: 'Vault: Kickoff', folderId: folder.id, content: 'second' });
+
+    const entries = buildMarkdownVault();
+    const paths = entries.map(e => e.path);
+    expect(paths).toContain('Vault Folder/Vault- Kickoff.md');
+    expect(paths).toContain('Vault Folder/Vault- Kickoff (2).md');
+
+    const text = entries.find(e => (e.content as string).includes('Met '))!.content as string;
+    expect(text).toMatch(/^---\nid: "/);
+    expect(text).toContain('tags: ["meetings"]');
+    expect(text).toContain('contacts: ["[[Vault Person]]"]');
+    expect(text).toContain('Met [[Vault Person]]');
+
+    const page = entries.find(e => e.path === 'Contacts/Vault Person.md');
+    expect(page?.content).toContain('tags: ["VIP-client"]');
+  });
+
+  it('completes EXPORT data requests with the bundle', () => {
+    const request = requestDataExport('tenant-export', 'user-export');
+    const json = fulfillDataExportRequest(request.id);
+
+    expect(JSON.parse(json!).format).toBe('framelord-workspace');
+    expect(getDataRequestById(request.id)?.status).toBe('COMPLETED');
+    expect(fulfillDataExportRequest(request.id)).toBeNull();
+  });
+});
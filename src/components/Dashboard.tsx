@@ -8,7 +8,7 @@ import {
   Menu, ExternalLink, Shield, Lock,
   Plus, MoreHorizontal, X, Folder, ChevronDown,
   Upload, Image as ImageIcon, FileText, ArrowRight, AlertTriangle, Lightbulb,
-  CheckCircle, Loader2, Paperclip, Mic, MicOff, FileCode, Crosshair, Binary, Terminal, Cpu, GitCommit, Briefcase, Camera, Notebook, ArrowLeft, Clock as ClockIcon, User, Calendar, Target
+  CheckCircle, Loader2, Paperclip, Mic, MicOff, FileCode, Crosshair, Binary, Terminal, Cpu, GitCommit, Briefcase, Repeat, Camera, Notebook, ArrowLeft, Clock as ClockIcon, User, Calendar, Target
 } from 'lucide-react';
 import './AppSidebarSkin.css';
 import { SidebarParticles } from './notes/SidebarParticles';
@@ -23,6 +23,7 @@ import { FrameAnalysisResult, DEFAULT_FOLDERS } from '../types';
 import { Reveal } from './Reveal';
 import { ContactsView } from './crm/ContactsView';
 import { CasesView } from './crm/CasesView';
+import { ReviewQueueView } from './crm/ReviewQueueView';
 import { PipelinesView } from './crm/PipelinesView';
 import { ProjectsView } from './crm/ProjectsView';
 import { ProjectDetailView } from './crm/ProjectDetailView';
@@ -55,6 +56,9 @@ import {
   startReminderScheduler,
   stopReminderScheduler,
 } from '../services/taskReminderService';
+import { initCrmSync } from '../lib/sync/crmSync';
+import { startPipelineAutomationScheduler } from '../services/pipelineStore';
+import { startFrameScoreLedgerSync } from '../services/frameScoreLedgerStore';
 import {
   getTodayEvents,
   formatTime as formatEventTime,
@@ -1184,7 +1188,7 @@ const getFolderDisplayName = (folderId: string): string => {
 };
 
 // --- DASHBOARD OVERVIEW (Rich - Binds to Contact Zero) ---
-const DashboardOverview: React.FC = () => {
+const DashboardOverview: React.FC<{ onOpenFrameScans: () => void }> = ({ onOpenFrameScans }) => {
     const [chartRange, setChartRange] = useState<'week' | 'month' | 'year'>('week');
 
     // Use centralized selectors for KPIs
@@ -1646,6 +1650,23 @@ const DashboardOverview: React.FC = () => {
                 </div>
             </SparkBorder>
 
+            {/* REVIEW QUEUE + FRAME SCORE ROW */}
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <SparkBorder className="lg:col-span-2">
+                    <div className="bg-[#000000] border border-[#1c1c1c] rounded-xl p-6 relative overflow-hidden h-full">
+                        <div className="flex justify-between items-center mb-4">
+                            <div className="flex items-center gap-2 text-[#0043ff]">
+                                <Repeat size={16} />
+                                <h3 className="text-xs font-bold uppercase tracking-widest">Review Queue</h3>
+                            </div>
+                        </div>
+                        <ReviewQueueView />
+                    </div>
+                </SparkBorder>
+
+                <FrameScoreTile onOpenFrameScans={onOpenFrameScans} />
+            </div>
+
             {/* CASES / WORKLOAD SECTION */}
             <SparkBorder>
                 <div className="bg-[#000000] border border-[#1c1c1c] rounded-xl p-6 relative overflow-hidden">
@@ -1883,6 +1904,21 @@ export const Dashboard: React.FC = () => {
     return () => stopReminderScheduler();
   }, []);
 
+  // Start pipeline time-in-stage automations on mount
+  useEffect(() => {
+    return startPipelineAutomationScheduler();
+  }, []);
+
+  // Keep the FrameScore ledger in step with tasks and interactions
+  useEffect(() => {
+    return startFrameScoreLedgerSync();
+  }, []);
+
+  // Start background CRM sync on mount (no-op without Supabase/auth)
+  useEffect(() => {
+    return initCrmSync();
+  }, []);
+
   // Only show the right sidebar on Overview
   useEffect(() => {
     setIsRightSidebarOpen(currentView === 'OVERVIEW');
@@ -2112,7 +2148,7 @@ export const Dashboard: React.FC = () => {
          </div>
 
          <div className={`p-4 md:p-6 flex-1 overflow-y-auto custom-scrollbar ${!isLeftSidebarOpen ? 'max-w-full' : ''}`}>
-             {currentView === 'OVERVIEW' && <DashboardOverview />}
+             {currentView === 'OVERVIEW' && <DashboardOverview onOpenFrameScans={() => setCurrentView('FRAMESCAN')} />}
             {currentView === 'DOSSIER' && (
               selectedContactId === CONTACT_ZERO.id ? (
                 <ContactZeroView
@@ -2146,6 +2182,7 @@ export const Dashboard: React.FC = () => {
                  setSelectedContactId={setSelectedContactId}
                  onNavigateToDossier={() => setCurrentView('DOSSIER')}
                  onNavigateToGroup={handleNavigateToGroup}
+                 onNavigateToTopic={handleNavigateToTopic}
                  onBack={() => setCurrentView('DOSSIER')}
                />
              )}
@@ -25,6 +25,8 @@ import {
   getDataRequestsForUser 
 } from '../../stores/dataRequestStore';
 import { recordAdminAction } from '../../stores/adminAuditStore';
+import { fulfillDataExportRequest } from '../../services/workspaceExportService';
+import { downloadFile } from '../../lib/export/download';
 
 const MotionDiv = motion.div as any;
 
@@ -350,9 +352,14 @@ const DataTab: React.FC<{ userScope: UserScope }> = ({ userScope }) => {
 
   const handleExportRequest = () => {
     setIsExporting(true);
-    requestDataExport(userScope.tenantId, userScope.userId);
+    const request = requestDataExport(userScope.tenantId, userScope.userId);
+    const json = fulfillDataExportRequest(request.id);
     setIsExporting(false);
-    alert('Data export request submitted. You will receive an email when your data is ready.');
+    if (json) {
+      downloadFile(`framelord-export-${new Date().toISOString().split('T')[0]}.json`, json, 'application/json');
+    } else {
+      alert('Data export request submitted. You will receive an email when your data is ready.');
+    }
   };
 
   const handleDeleteRequest = () => {
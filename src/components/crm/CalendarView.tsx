@@ -4,21 +4,28 @@
 // Displays a month grid with task counts per day.
 // Clicking a day shows tasks for that date.
 // Tasks with time components show the time.
+// Recurring tasks are expanded; single occurrences can be skipped or moved.
 // =============================================================================
 
 import React, { useState, useMemo } from 'react';
 import { 
   Calendar, ChevronLeft, ChevronRight, Clock, 
-  CheckSquare, Square, CheckCircle, ArrowRight
+  CheckSquare, Square, CheckCircle, ArrowRight, Repeat, SkipForward, CalendarClock
 } from 'lucide-react';
 import { 
   getTasksByDate, 
-  getTaskCountByDate, 
+  getTasksByDateRange, 
   updateTaskStatus,
   formatDueTime,
-  hasTimeComponent
+  hasTimeComponent,
+  getTaskById,
+  isProjectedOccurrence,
+  parseOccurrenceId,
+  skipTaskOccurrence,
+  rescheduleTaskOccurrence
 } from '../../services/taskStore';
 import { getContactById, CONTACT_ZERO } from '../../services/contactStore';
+import { describeRRule } from '../../lib/recurrence/rrule';
 import { Task } from '../../types';
 
 // --- PROPS ---
@@ -67,6 +74,8 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<string>(getTodayKey());
   const [refreshKey, setRefreshKey] = useState(0);
+  const [reschedulingTaskId, setReschedulingTaskId] = useState<string | null>(null);
+  const [rescheduleDate, setRescheduleDate] = useState('');
 
   // Derived values
   const year = currentMonth.getFullYear();
@@ -83,6 +92,17 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
   // Build calendar grid data
   const calendarDays = useMemo(() => {
     const days: Array<{ day: number; dateKey: string; taskCount: number } | null> = [];
+
+    // Expand the whole month once rather than per day
+    const countsByDate = new Map<string, number>();
+    const monthTasks = getTasksByDateRange(
+      formatDateKey(year, month, 1),
+      formatDateKey(year, month, daysInMonth)
+    );
+    for (const task of monthTasks) {
+      const dateKey = task.dueAt!.split('T')[0];
+      countsByDate.set(dateKey, (countsByDate.get(dateKey) || 0) + 1);
+    }
     
     // Add empty cells for days before the first day of month
     for (let i = 0; i < firstDayOfMonth; i++) {
@@ -92,7 +112,7 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
     // Add days of the month
     for (let day = 1; day <= daysInMonth; day++) {
       const dateKey = formatDateKey(year, month, day);
-      const taskCount = getTaskCountByDate(dateKey);
+      const taskCount = countsByDate.get(dateKey) || 0;
       days.push({ day, dateKey, taskCount });
     }
     
@@ -125,6 +145,37 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
     setRefreshKey(k => k + 1);
   };
 
+  // Recurring occurrence handlers
+  const resolveOccurrence = (task: Task): { taskId: string; occurrenceDate: string } | null => {
+    const projected = parseOccurrenceId(task.id);
+    if (projected) return projected;
+    const slot = task.occurrenceAt || task.dueAt;
+    return task.recurrence && slot ? { taskId: task.id, occurrenceDate: slot.split('T')[0] } : null;
+  };
+
+  const handleSkipOccurrence = (task: Task) => {
+    const occurrence = resolveOccurrence(task);
+    if (!occurrence) return;
+    skipTaskOccurrence(occurrence.taskId, occurrence.occurrenceDate);
+    setRefreshKey(k => k + 1);
+  };
+
+  const handleStartReschedule = (task: Task) => {
+    setReschedulingTaskId(task.id);
+    setRescheduleDate(task.dueAt ? task.dueAt.split('T')[0] : selectedDate);
+  };
+
+  const handleConfirmReschedule = (task: Task) => {
+    const occurrence = resolveOccurrence(task);
+    if (!occurrence || !rescheduleDate || !task.dueAt) return;
+    // Keep the occurrence's time of day
+    const timeIndex = task.dueAt.indexOf('T');
+    const newDueAt = timeIndex === -1 ? rescheduleDate : rescheduleDate + task.dueAt.slice(timeIndex);
+    rescheduleTaskOccurrence(occurrence.taskId, occurrence.occurrenceDate, newDueAt);
+    setReschedulingTaskId(null);
+    setRefreshKey(k => k + 1);
+  };
+
   const handleContactClick = (contactId: string) => {
     setSelectedContactId(contactId);
     onNavigateToDossier();
@@ -273,6 +324,10 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
                 if (!taskContact) return null;
                 const isContactZeroTask = task.contactId === CONTACT_ZERO.id;
                 const timeStr = formatDueTime(task.dueAt);
+                const isProjected = isProjectedOccurrence(task);
+                const recurrence = isProjected
+                  ? getTaskById(parseOccurrenceId(task.id)!.taskId)?.recurrence
+                  : task.recurrence;
 
                 return (
                   <div
@@ -295,6 +350,15 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
                         {!timeStr && (
                           <span className="text-xs text-gray-600">All day</span>
                         )}
+                        {recurrence && (
+                          <span
+                            className="flex items-center gap-1 text-[10px] text-gray-500"
+                            title={recurrence.rule}
+                          >
+                            <Repeat size={10} />
+                            {describeRRule(recurrence.rule)}
+                          </span>
+                        )}
                       </div>
                       <span className={`text-[10px] px-2 py-0.5 rounded border font-bold uppercase ${statusBadge(task.status)}`}>
                         {task.status}
@@ -303,20 +367,26 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
 
                     {/* Task Content */}
                     <div className="flex items-start gap-3">
-                      {/* Checkbox */}
-                      <button
-                        onClick={() => task.status === 'done' 
-                          ? handleMarkTaskOpen(task.id) 
-                          : handleMarkTaskDone(task.id)
-                        }
-                        className={`mt-0.5 transition-colors ${
-                          task.status === 'done'
-                            ? 'text-blue-500 hover:text-gray-400'
-                            : 'text-gray-500 hover:text-blue-500'
-                        }`}
-                      >
-                        {task.status === 'done' ? <CheckCircle size={18} /> : <Square size={18} />}
-                      </button>
+                      {/* Checkbox (upcoming occurrences are completed in order, from the current one) */}
+                      {isProjected ? (
+                        <span className="mt-0.5 text-gray-700" title="Upcoming occurrence">
+                          <Repeat size={18} />
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => task.status === 'done' 
+                            ? handleMarkTaskOpen(task.id) 
+                            : handleMarkTaskDone(task.id)
+                          }
+                          className={`mt-0.5 transition-colors ${
+                            task.status === 'done'
+                              ? 'text-blue-500 hover:text-gray-400'
+                              : 'text-gray-500 hover:text-blue-500'
+                          }`}
+                        >
+                          {task.status === 'done' ? <CheckCircle size={18} /> : <Square size={18} />}
+                        </button>
+                      )}
 
                       <div className="flex-1 min-w-0">
                         {/* Title */}
@@ -344,6 +414,47 @@ export const CalendarView: React.FC<CalendarViewProps> = ({
                             <ArrowRight size={10} className="opacity-0 group-hover:opacity-100 transition-opacity" />
                           </span>
                         </button>
+
+                        {/* Occurrence actions */}
+                        {recurrence && task.status !== 'done' && (
+                          reschedulingTaskId === task.id ? (
+                            <div className="flex items-center gap-2 mt-3">
+                              <input
+                                type="date"
+                                value={rescheduleDate}
+                                onChange={(e) => setRescheduleDate(e.target.value)}
+                                className="flex-1 bg-[#0E0E0E] border border-[#333] rounded px-2 py-1 text-xs text-white outline-none focus:border-[#4433FF]"
+                              />
+                              <button
+                                onClick={() => handleConfirmReschedule(task)}
+                                className="px-2 py-1 text-[10px] font-bold bg-[#4433FF] hover:bg-[#5544FF] text-white rounded transition-colors"
+                              >
+                                Move
+                              </button>
+                              <button
+                                onClick={() => setReschedulingTaskId(null)}
+                                className="px-2 py-1 text-[10px] font-bold text-gray-500 hover:text-white transition-colors"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          ) : (
+                            <div className="flex items-center gap-3 mt-3">
+                              <button
+                                onClick={() => handleSkipOccurrence(task)}
+                                className="flex items-center gap-1 text-[10px] text-gray-500 hover:text-white transition-colors"
+                              >
+                                <SkipForward size={10} /> Skip
+                              </button>
+                              <button
+                                onClick={() => handleStartReschedule(task)}
+                                className="flex items-center gap-1 text-[10px] text-gray-500 hover:text-white transition-colors"
+                              >
+                                <CalendarClock size={10} /> Reschedule
+                              </button>
+                            </div>
+                          )
+                        )}
                       </div>
                     </div>
                   </div>
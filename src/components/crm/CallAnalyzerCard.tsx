@@ -1,11 +1,12 @@
 // =============================================================================
 // CALL ANALYZER CARD — AI analysis of call transcripts
 // =============================================================================
-// Shows AI-powered analysis of call recordings and transcripts.
-// Displays frame dynamics, talking points, and key insights.
+// Shows the contact's call FrameScans: score, talk ratio, questions,
+// interruptions and where the frame slipped, plus prep for the next call.
+// Upload Call opens the call scan modal unless the parent handles it.
 // =============================================================================
 
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   Phone,
   Lock,
@@ -20,8 +21,14 @@ import {
 } from 'lucide-react';
 
 // Stores
-import { getContactById } from '@/services/contactStore';
-import { getInteractionsByContactId } from '@/services/interactionStore';
+import { getContactById, CONTACT_ZERO } from '@/services/contactStore';
+import {
+  getReportsForContact,
+  subscribe as subscribeFrameScanReports,
+  type FrameScanReport,
+} from '@/services/frameScanReportStore';
+
+import { CallScanModal } from './CallScanModal';
 
 // Plan Config
 import {
@@ -44,7 +51,10 @@ interface CallAnalyzerCardProps {
 interface CallAnalysis {
   id: string;
   date: string;
-  duration: number;
+  /** Seconds, or null when the transcript had no timestamps */
+  duration: number | null;
+  /** Contact Zero's share of the talking, 0-1 */
+  talkShare: number | null;
   frameScore: number;
   keyInsights: string[];
   talkingPointsSuggested: string[];
@@ -92,6 +102,57 @@ const formatDuration = (seconds: number): string => {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 };
 
+/**
+ * Summarize a call FrameScan report for the card
+ */
+const buildCallAnalysis = (report: FrameScanReport): CallAnalysis => {
+  const call = report.call!;
+  const mine = call.metrics.speakers.find(m => m.speakerContactId === CONTACT_ZERO.id);
+  const theirs = call.metrics.speakers.find(m => m.speakerContactId !== CONTACT_ZERO.id);
+  const collapse = report.thread?.collapse;
+
+  const keyInsights: string[] = [];
+  if (mine) {
+    keyInsights.push(`You talked ${Math.round(mine.talkShare * 100)}% of the call`);
+    keyInsights.push(
+      `You asked ${mine.questions} question${mine.questions === 1 ? '' : 's'}` +
+      (theirs ? `, they asked ${theirs.questions}` : '')
+    );
+  }
+
+  const warnings: string[] = [];
+  if (collapse) {
+    const turn = call.turns[call.scoredTurnIndexes[collapse.index]];
+    const at = turn?.start !== undefined ? formatDuration(Math.round(turn.start)) : `turn ${collapse.index + 1}`;
+    warnings.push(`Frame collapsed at ${at}: ${collapse.reason}`);
+  }
+  warnings.push(...report.rawResult.diagnostics.primaryPatterns);
+  if (mine && mine.talkShare > 0.6) {
+    warnings.push('You did most of the talking');
+  }
+  if (mine && mine.interruptions > 0) {
+    warnings.push(`You interrupted ${mine.interruptions} time${mine.interruptions === 1 ? '' : 's'}`);
+  }
+  if (mine && mine.longestMonologueWords > 150) {
+    warnings.push(
+      mine.longestMonologueSeconds !== null
+        ? `Longest monologue ran ${formatDuration(mine.longestMonologueSeconds)}`
+        : `Longest monologue ran ${mine.longestMonologueWords} words`
+    );
+  }
+
+  return {
+    id: report.id,
+    date: report.createdAt,
+    duration: call.metrics.durationSeconds,
+    talkShare: mine?.talkShare ?? null,
+    frameScore: report.score.frameScore,
+    keyInsights,
+    talkingPointsSuggested: report.rawResult.corrections.topShifts.map(shift => shift.shift),
+    warnings,
+  };
+};
+
 /**
  * Call Analysis Summary
  */
@@ -113,16 +174,31 @@ const CallAnalysisSummary: React.FC<{ analysis: CallAnalysis }> = ({ analysis })
           </span>
         </div>
         <div className="flex items-center gap-3">
-          <span className="text-[10px] text-gray-500 flex items-center gap-1">
-            <Clock size={10} />
-            {formatDuration(analysis.duration)}
-          </span>
+          {analysis.duration !== null && (
+            <span className="text-[10px] text-gray-500 flex items-center gap-1">
+              <Clock size={10} />
+              {formatDuration(analysis.duration)}
+            </span>
+          )}
           <span className={`text-sm font-bold ${scoreColor}`}>
             {analysis.frameScore}
           </span>
         </div>
       </div>
 
+      {/* Talk Ratio */}
+      {analysis.talkShare !== null && (
+        <div className="mb-2">
+          <div className="flex items-center justify-between text-[9px] text-gray-500 uppercase mb-1">
+            <span className="flex items-center gap-1"><BarChart3 size={10} /> Talk Ratio</span>
+            <span>{Math.round(analysis.talkShare * 100)}% / {100 - Math.round(analysis.talkShare * 100)}%</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-[#1b2c45] overflow-hidden">
+            <div className="h-full bg-[#4433FF]" style={{ width: `${Math.round(analysis.talkShare * 100)}%` }} />
+          </div>
+        </div>
+      )}
+
       {/* Key Insights */}
       {analysis.keyInsights.length > 0 && (
         <div className="mb-2">
@@ -166,36 +242,20 @@ export const CallAnalyzerCard: React.FC<CallAnalyzerCardProps> = ({
   onUploadCall,
 }) => {
   const contact = getContactById(contactId);
-  const interactions = getInteractionsByContactId(contactId);
-
-  // Get call interactions
-  const callInteractions = useMemo(() => {
-    return interactions
-      .filter(i => i.type === 'call')
-      .sort((a, b) => new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime())
-      .slice(0, 3);
-  }, [interactions]);
-
-  // Mock call analyses (in real implementation, this would come from AI analysis)
-  const mockAnalyses: CallAnalysis[] = useMemo(() => {
-    return callInteractions.map(call => ({
-      id: call.id,
-      date: call.occurredAt,
-      duration: Math.floor(Math.random() * 1800) + 300, // 5-35 min
-      frameScore: Math.floor(Math.random() * 40) + 50, // 50-90
-      keyInsights: [
-        'Maintained frame during price discussion',
-        'Good use of silence after key points',
-      ],
-      talkingPointsSuggested: [
-        'Follow up on Q4 projections',
-        'Schedule implementation timeline review',
-      ],
-      warnings: [
-        'Consider being more direct on next steps',
-      ],
-    }));
-  }, [callInteractions]);
+  const [isScanOpen, setIsScanOpen] = useState(false);
+  const [reportsVersion, setReportsVersion] = useState(0);
+
+  useEffect(() => subscribeFrameScanReports(() => setReportsVersion(v => v + 1)), []);
+
+  // Most recent call scans for this contact
+  const analyses: CallAnalysis[] = useMemo(() => {
+    return getReportsForContact(contactId)
+      .filter(report => report.modality === 'call' && report.call)
+      .slice(0, 3)
+      .map(buildCallAnalysis);
+  }, [contactId, reportsVersion]);
+
+  const handleUploadCall = onUploadCall ?? (() => setIsScanOpen(true));
 
   if (!contact) {
     return (
@@ -215,45 +275,54 @@ export const CallAnalyzerCard: React.FC<CallAnalyzerCardProps> = ({
           <Mic size={14} className="text-red-400" />
           <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Call Analyzer</span>
         </div>
-        {onExpandClick && (
-          <button
-            onClick={onExpandClick}
-            className="text-xs text-[#4433FF] hover:text-white flex items-center gap-1"
-          >
-            All Calls <ChevronRight size={14} />
-          </button>
-        )}
+        <div className="flex items-center gap-3">
+          {analyses.length > 0 && (
+            <button
+              onClick={handleUploadCall}
+              className="text-gray-500 hover:text-white"
+              title="Upload Call"
+            >
+              <Upload size={14} />
+            </button>
+          )}
+          {onExpandClick && (
+            <button
+              onClick={onExpandClick}
+              className="text-xs text-[#4433FF] hover:text-white flex items-center gap-1"
+            >
+              All Calls <ChevronRight size={14} />
+            </button>
+          )}
+        </div>
       </div>
 
-      {mockAnalyses.length === 0 ? (
+      {analyses.length === 0 ? (
         <div className="text-center py-6">
           <Phone size={24} className="mx-auto mb-2 text-gray-600" />
           <p className="text-sm text-gray-500">No calls analyzed yet</p>
           <p className="text-[10px] text-gray-600 mt-1 mb-3">
-            Upload a call recording to get AI analysis
+            Upload a call recording or transcript to get AI analysis
           </p>
-          {onUploadCall && (
-            <button
-              onClick={onUploadCall}
-              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-[#4433FF] border border-[#4433FF]/30 rounded-lg hover:bg-[#4433FF]/10 transition-colors"
-            >
-              <Upload size={12} />
-              Upload Call
-            </button>
-          )}
+          <button
+            onClick={handleUploadCall}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-[#4433FF] border border-[#4433FF]/30 rounded-lg hover:bg-[#4433FF]/10 transition-colors"
+          >
+            <Upload size={12} />
+            Upload Call
+          </button>
         </div>
       ) : (
         <div className="space-y-3">
           {/* Summary Stats */}
           <div className="flex items-center justify-between p-2 bg-[#0a111d] rounded-lg border border-[#112035]">
             <div className="text-center flex-1">
-              <div className="text-lg font-bold text-white">{mockAnalyses.length}</div>
+              <div className="text-lg font-bold text-white">{analyses.length}</div>
               <p className="text-[9px] text-gray-500 uppercase">Calls</p>
             </div>
             <div className="text-center flex-1 border-l border-[#1b2c45]">
               <div className="text-lg font-bold text-green-400">
                 {Math.round(
-                  mockAnalyses.reduce((sum, a) => sum + a.frameScore, 0) / mockAnalyses.length
+                  analyses.reduce((sum, a) => sum + a.frameScore, 0) / analyses.length
                 )}
               </div>
               <p className="text-[9px] text-gray-500 uppercase">Avg Score</p>
@@ -261,7 +330,7 @@ export const CallAnalyzerCard: React.FC<CallAnalyzerCardProps> = ({
           </div>
 
           {/* Recent Call Analysis */}
-          {mockAnalyses.slice(0, 1).map(analysis => (
+          {analyses.slice(0, 1).map(analysis => (
             <CallAnalysisSummary key={analysis.id} analysis={analysis} />
           ))}
 
@@ -272,7 +341,7 @@ export const CallAnalyzerCard: React.FC<CallAnalyzerCardProps> = ({
               <span className="text-[9px] font-semibold text-gray-500 uppercase">Next Call Prep</span>
             </div>
             <ul className="space-y-1">
-              {mockAnalyses[0]?.talkingPointsSuggested.slice(0, 2).map((point, i) => (
+              {analyses[0]?.talkingPointsSuggested.slice(0, 2).map((point, i) => (
                 <li key={i} className="text-[10px] text-gray-400 flex items-start gap-1.5">
                   <span className="text-[#4433FF]">•</span>
                   {point}
@@ -282,6 +351,13 @@ export const CallAnalyzerCard: React.FC<CallAnalyzerCardProps> = ({
           </div>
         </div>
       )}
+
+      <CallScanModal
+        isOpen={isScanOpen}
+        onClose={() => setIsScanOpen(false)}
+        contactId={contactId}
+        contactName={contact.fullName}
+      />
     </div>
   );
 };
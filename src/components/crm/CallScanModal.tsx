@@ -0,0 +1,316 @@
+// =============================================================================
+// CALL SCAN MODAL — Run a FrameScan over a call transcript
+// =============================================================================
+// Takes a transcript as a .vtt/.srt/.txt file, an audio recording (sent
+// through transcription) or pasted text. Speaker labels found in the
+// transcript are mapped to "Me" or the contact; unlabelled transcripts are
+// attributed during the scan.
+// =============================================================================
+
+import React, { useMemo, useRef, useState } from 'react';
+import { X, Upload, Loader2, Scan, FileAudio } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CONTACT_ZERO } from '@/services/contactStore';
+import { transcribeAudioToText } from '@/services/transcriptionService';
+import {
+  runCallFrameScan,
+  FrameScanRejectionError,
+  type TextDomainId,
+} from '@/lib/frameScan/frameScanLLM';
+import { parseTranscript, getTranscriptSpeakers } from '@/lib/frameScan/callTranscript';
+import type { FrameCallScanResult } from '@/lib/frameScan/frameTypes';
+
+interface CallScanModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  contactId: string;
+  contactName: string;
+  onComplete?: (result: FrameCallScanResult) => void;
+}
+
+type SpeakerSide = 'me' | 'contact';
+
+const CALL_DOMAINS: { id: TextDomainId; label: string }[] = [
+  { id: 'generic', label: 'Generic' },
+  { id: 'sales_email', label: 'Sales' },
+  { id: 'dating_message', label: 'Dating' },
+  { id: 'leadership_update', label: 'Leadership' },
+];
+
+/**
+ * Initial side for a speaker label: the contact's name maps to them, "Me",
+ * "You" or Contact Zero's name to the user, anything else alternates.
+ */
+const guessSpeakerSide = (label: string, index: number, contactName: string): SpeakerSide => {
+  const normalized = label.toLowerCase();
+  const contactFirst = contactName.split(' ')[0]?.toLowerCase();
+  const myFirst = CONTACT_ZERO.fullName.split(' ')[0]?.toLowerCase();
+  if (contactFirst && normalized.includes(contactFirst)) return 'contact';
+  if (normalized === 'me' || normalized === 'you' || (myFirst && normalized.includes(myFirst))) return 'me';
+  return index % 2 === 0 ? 'me' : 'contact';
+};
+
+export const CallScanModal: React.FC<CallScanModalProps> = ({
+  isOpen,
+  onClose,
+  contactId,
+  contactName,
+  onComplete,
+}) => {
+  const [transcript, setTranscript] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sideOverrides, setSideOverrides] = useState<Record<string, SpeakerSide>>({});
+  const [domain, setDomain] = useState<TextDomainId>('generic');
+  const [occurredAt, setOccurredAt] = useState(() => {
+    // Default to now in local datetime format
+    const now = new Date();
+    now.setMinutes(now.getMinutes() - now.getTimezoneOffset());
+    return now.toISOString().slice(0, 16);
+  });
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const utterances = useMemo(() => parseTranscript(transcript), [transcript]);
+  const speakers = useMemo(() => getTranscriptSpeakers(utterances), [utterances]);
+  const sideOf = (label: string, index: number): SpeakerSide =>
+    sideOverrides[label] ?? guessSpeakerSide(label, index, contactName);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setFileName(file.name);
+    setSideOverrides({});
+
+    if (file.type.startsWith('audio/') || file.type.startsWith('video/')) {
+      setIsTranscribing(true);
+      const result = await transcribeAudioToText(file);
+      setIsTranscribing(false);
+      if (result.success && result.text) {
+        setTranscript(result.text);
+      } else {
+        setError(result.error || 'Could not transcribe audio');
+      }
+      return;
+    }
+
+    setTranscript(await file.text());
+  };
+
+  const handleScan = async () => {
+    if (utterances.length === 0 || isScanning) return;
+
+    setIsScanning(true);
+    setError(null);
+
+    try {
+      const sides = new Map(speakers.map((label, index) => [label, sideOf(label, index)]));
+      const result = await runCallFrameScan({
+        contactId,
+        domain,
+        utterances: utterances.map(u => ({
+          speakerContactId: u.speaker
+            ? (sides.get(u.speaker) === 'me' ? CONTACT_ZERO.id : contactId)
+            : null,
+          text: u.text,
+          start: u.start,
+          end: u.end,
+        })),
+        occurredAt: new Date(occurredAt).toISOString(),
+        sourceRef: fileName ?? undefined,
+      });
+
+      setTranscript('');
+      setFileName(null);
+      setSideOverrides({});
+      onComplete?.(result);
+      onClose();
+    } catch (err: any) {
+      setError(err instanceof FrameScanRejectionError ? err.rejectionReason : err?.message || 'Scan failed');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.95, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.95, opacity: 0 }}
+          className="bg-[#050c18] border border-[#0043FF]/40 shadow-[0_0_18px_rgba(0,0,0,0.9),0_0_24px_rgba(0,67,255,0.3)] rounded-3xl p-6 w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-lg font-bold text-white">Analyze Call</h2>
+              <p className="text-xs text-gray-500">with {contactName}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-white hover:bg-[#1b2c45] rounded-lg transition-colors"
+            >
+              <X size={16} />
+            </button>
+          </div>
+
+          <div className="space-y-4">
+            {/* Upload */}
+            <div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".vtt,.srt,.txt,audio/*,video/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) void handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isTranscribing}
+                className="w-full flex items-center justify-center gap-2 px-3 py-3 rounded-lg border border-dashed border-[#1b2c45] bg-[#0a111d] text-sm text-gray-400 hover:border-[#4433FF] hover:text-gray-200 transition-colors disabled:opacity-50"
+              >
+                {isTranscribing ? (
+                  <>
+                    <Loader2 size={14} className="animate-spin" />
+                    Transcribing...
+                  </>
+                ) : (
+                  <>
+                    {fileName ? <FileAudio size={14} /> : <Upload size={14} />}
+                    {fileName || 'Upload transcript (.vtt, .srt, .txt) or recording'}
+                  </>
+                )}
+              </button>
+            </div>
+
+            {/* Transcript */}
+            <div>
+              <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">
+                Transcript
+              </label>
+              <textarea
+                value={transcript}
+                onChange={(e) => setTranscript(e.target.value)}
+                placeholder={'Paste a transcript, e.g.\nMe: Thanks for making time today.\nDana: Happy to. What did you want to cover?'}
+                rows={6}
+                className="w-full px-3 py-2 bg-[#0a111d] border border-[#1b2c45] rounded-lg text-white text-sm placeholder-gray-600 focus:outline-none focus:border-[#4433FF] resize-none font-mono"
+              />
+              {transcript.trim() && (
+                <p className="text-[10px] text-gray-500 mt-1">
+                  {utterances.length} line{utterances.length !== 1 ? 's' : ''}
+                  {utterances.some(u => u.start !== undefined) && ' · timestamped'}
+                </p>
+              )}
+            </div>
+
+            {/* Speakers */}
+            {transcript.trim() && (
+              <div>
+                <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">
+                  Speakers
+                </label>
+                {speakers.length === 0 ? (
+                  <p className="text-xs text-gray-500">
+                    No speaker labels found. Speakers will be told apart during the scan.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {speakers.map((label, index) => (
+                      <div key={label} className="flex items-center justify-between gap-3">
+                        <span className="text-sm text-gray-300 truncate">{label}</span>
+                        <div className="grid grid-cols-2 gap-1 shrink-0">
+                          {(['me', 'contact'] as SpeakerSide[]).map(side => (
+                            <button
+                              key={side}
+                              type="button"
+                              onClick={() => setSideOverrides(prev => ({ ...prev, [label]: side }))}
+                              className={`px-2 py-1 rounded border text-xs transition-colors ${
+                                sideOf(label, index) === side
+                                  ? 'border-[#4433FF] bg-[#4433FF]/20 text-white'
+                                  : 'border-[#1b2c45] bg-[#0a111d] text-gray-400 hover:text-gray-300'
+                              }`}
+                            >
+                              {side === 'me' ? 'Me' : contactName}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Domain and date */}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">
+                  Domain
+                </label>
+                <select
+                  value={domain}
+                  onChange={(e) => setDomain(e.target.value as TextDomainId)}
+                  className="w-full px-3 py-2 bg-[#0a111d] border border-[#1b2c45] rounded-lg text-white text-sm focus:outline-none focus:border-[#4433FF]"
+                >
+                  {CALL_DOMAINS.map(d => (
+                    <option key={d.id} value={d.id}>{d.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">
+                  When
+                </label>
+                <input
+                  type="datetime-local"
+                  value={occurredAt}
+                  onChange={(e) => setOccurredAt(e.target.value)}
+                  className="w-full px-3 py-2 bg-[#0a111d] border border-[#1b2c45] rounded-lg text-white text-sm focus:outline-none focus:border-[#4433FF]"
+                />
+              </div>
+            </div>
+
+            {error && <p className="text-xs text-red-400">{error}</p>}
+
+            {/* Actions */}
+            <div className="flex items-center justify-end gap-3 pt-4 border-t border-[#1b2c45]">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleScan}
+                disabled={utterances.length === 0 || isScanning || isTranscribing}
+                className="flex items-center gap-2 px-4 py-2 bg-[#4433FF] text-white text-sm font-semibold rounded-lg hover:bg-[#5544FF] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isScanning ? <Loader2 size={14} className="animate-spin" /> : <Scan size={14} />}
+                {isScanning ? 'Scanning...' : 'Run Call Scan'}
+              </button>
+            </div>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default CallScanModal;
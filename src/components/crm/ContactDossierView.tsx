@@ -59,6 +59,8 @@ import {
 } from '../../services/wantStore';
 import { Contact, RelationshipDomain, ContactStatus, Topic, Task, Interaction, InteractionType, InteractionAttachment } from '../../types';
 import { DatePicker } from '../DatePicker';
+import { RecurrencePicker } from './RecurrencePicker';
+import { PipelineStageTimeline } from './PipelineStageTimeline';
 import { 
   getAllAttachmentsForContactZero, 
   getAttachmentsForContact, 
@@ -161,6 +163,7 @@ export const ContactDossierView: React.FC<ContactDossierViewProps> = ({
   // New task input state
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [newTaskDueDate, setNewTaskDueDate] = useState('');
+  const [newTaskRecurrence, setNewTaskRecurrence] = useState('');
   
   // New interaction input state
   const [newInteractionType, setNewInteractionType] = useState<InteractionType>('call');
@@ -518,10 +521,12 @@ export const ContactDossierView: React.FC<ContactDossierViewProps> = ({
       contactId: selectedContactId,
       title: newTaskTitle.trim(),
       dueAt: newTaskDueDate ? new Date(newTaskDueDate).toISOString() : null,
+      recurrence: newTaskRecurrence || null,
     });
 
     setNewTaskTitle('');
     setNewTaskDueDate('');
+    setNewTaskRecurrence('');
     setRefreshKey(k => k + 1);
   };
 
@@ -1078,6 +1083,9 @@ export const ContactDossierView: React.FC<ContactDossierViewProps> = ({
                       <Plus size={12} /> Add
                     </button>
                   </div>
+                  {newTaskDueDate && (
+                    <RecurrencePicker value={newTaskRecurrence} onChange={setNewTaskRecurrence} />
+                  )}
                 </div>
                 {openTasks.length > 0 ? (
                   openTasks.map((task) => (
@@ -1528,6 +1536,16 @@ export const ContactDossierView: React.FC<ContactDossierViewProps> = ({
                           Closed: {new Date(item.closedAt).toLocaleDateString()}
                         </div>
                       )}
+                      {(item.stageHistory?.length || 0) > 0 && (
+                        <details className="mt-2">
+                          <summary className="text-[10px] text-[#6b92b9] cursor-pointer hover:text-white">
+                            Stage history ({item.stageHistory!.length})
+                          </summary>
+                          <div className="mt-2">
+                            <PipelineStageTimeline item={item} template={template} />
+                          </div>
+                        </details>
+                      )}
                     </div>
                   );
                 })}
@@ -1906,6 +1924,9 @@ export const ContactDossierView: React.FC<ContactDossierViewProps> = ({
                   <Plus size={12} /> Add
                 </button>
               </div>
+              {newTaskDueDate && (
+                <RecurrencePicker value={newTaskRecurrence} onChange={setNewTaskRecurrence} />
+              )}
             </div>
 
             {/* Open Tasks List */}
@@ -0,0 +1,421 @@
+// =============================================================================
+// CONTACT IMPORT WIZARD — Bulk import contacts from CSV or vCard
+// =============================================================================
+// Steps: choose file → map columns → preview (errors + duplicates) → done.
+// Every import is a batch that can be undone from the final step or from the
+// recent imports list on the first step.
+// =============================================================================
+
+import React, { useMemo, useState } from 'react';
+import { X, Upload, ArrowLeft, ArrowRight, AlertTriangle, Copy, Undo2, CheckCircle } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { RelationshipDomain } from '@/types';
+import { getContactById } from '@/services/contactStore';
+import {
+  IMPORT_FIELDS,
+  parseImportFile,
+  suggestColumnMapping,
+  buildImportPreview,
+  commitContactImport,
+  getContactImportBatches,
+  getImportUndoBlocker,
+  undoContactImport,
+  type ImportTable,
+  type ColumnMapping,
+  type ImportField,
+  type DuplicateStrategy,
+  type ContactImportBatch,
+} from '@/services/contactImportService';
+
+interface ContactImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called after an import or undo so the caller can refresh its list */
+  onChange?: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+const PREVIEW_LIMIT = 200;
+
+const DUPLICATE_STRATEGIES: { value: DuplicateStrategy; label: string }[] = [
+  { value: 'skip', label: 'Skip duplicates' },
+  { value: 'merge', label: 'Merge into existing (fill empty fields)' },
+  { value: 'create', label: 'Create anyway' },
+];
+
+const inputClass =
+  'bg-[#0a111d] border border-[#1b2c45] rounded-lg px-2 py-1.5 text-gray-200 text-xs focus:border-[#4433FF] outline-none';
+
+export const ContactImportWizard: React.FC<ContactImportWizardProps> = ({ isOpen, onClose, onChange }) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [defaultDomain, setDefaultDomain] = useState<RelationshipDomain>('business');
+  const [extraTags, setExtraTags] = useState('');
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>('skip');
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set());
+  const [batch, setBatch] = useState<ContactImportBatch | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [undoError, setUndoError] = useState<string | null>(null);
+  const [batchesKey, setBatchesKey] = useState(0);
+
+  const preview = useMemo(
+    () => (table && step === 'preview' ? buildImportPreview(table, mapping, { defaultDomain }) : []),
+    [table, mapping, defaultDomain, step]
+  );
+  const recentBatches = useMemo(() => getContactImportBatches().slice(0, 5), [batchesKey, isOpen]);
+
+  const counts = useMemo(() => ({
+    errors: preview.filter(r => r.errors.length > 0).length,
+    duplicates: preview.filter(r => r.errors.length === 0 && (r.duplicate || r.duplicateOfRow !== null)).length,
+  }), [preview]);
+
+  const hasNameColumn = mapping.includes('fullName') || mapping.includes('firstName') || mapping.includes('email');
+
+  const reset = () => {
+    setStep('upload');
+    setTable(null);
+    setMapping([]);
+    setExcludedRows(new Set());
+    setBatch(null);
+    setParseError(null);
+    setExtraTags('');
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      if (parsed.rows.length === 0) {
+        setParseError('No contacts found in this file');
+        return;
+      }
+      setTable(parsed);
+      setMapping(suggestColumnMapping(parsed.headers));
+      setParseError(null);
+      setStep('map');
+    } catch (error) {
+      console.error('[ContactImportWizard] Failed to read file:', error);
+      setParseError('Could not read this file');
+    }
+  };
+
+  const handleImport = () => {
+    if (!table) return;
+    const result = commitContactImport(table, preview, {
+      duplicateStrategy,
+      excludedRows: [...excludedRows],
+      extraTags: extraTags.split(',').map(t => t.trim()).filter(Boolean),
+    });
+    setBatch(result);
+    setStep('done');
+    setBatchesKey(k => k + 1);
+    onChange?.();
+  };
+
+  const handleUndo = (batchId: string) => {
+    const blocker = getImportUndoBlocker(batchId);
+    if (blocker) {
+      setUndoError(blocker);
+      return;
+    }
+    if (undoContactImport(batchId)) {
+      setUndoError(null);
+      if (batch?.id === batchId) setBatch({ ...batch, undoneAt: new Date().toISOString() });
+      setBatchesKey(k => k + 1);
+      onChange?.();
+    }
+  };
+
+  const toggleRow = (rowIndex: number) => {
+    const next = new Set(excludedRows);
+    if (next.has(rowIndex)) next.delete(rowIndex);
+    else next.add(rowIndex);
+    setExcludedRows(next);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm"
+        onClick={handleClose}
+      >
+        <motion.div
+          initial={{ scale: 0.95, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.95, opacity: 0 }}
+          className="bg-[#050c18] border border-[#0043FF]/40 shadow-[0_0_18px_rgba(0,0,0,0.9),0_0_24px_rgba(0,67,255,0.3)] rounded-3xl p-6 w-full max-w-4xl mx-4 max-h-[90vh] flex flex-col"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-lg font-bold text-white">Import Contacts</h2>
+              <p className="text-xs text-gray-500">
+                {step === 'upload' && 'CSV or vCard (.vcf) export from another CRM'}
+                {step === 'map' && `${table?.fileName} · ${table?.rows.length} rows · map columns to contact fields`}
+                {step === 'preview' && `${preview.length} rows · ${counts.errors} with errors · ${counts.duplicates} duplicates`}
+                {step === 'done' && table?.fileName}
+              </p>
+            </div>
+            <button
+              onClick={handleClose}
+              className="p-2 text-gray-400 hover:text-white hover:bg-[#1b2c45] rounded-lg transition-colors"
+            >
+              <X size={16} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto min-h-0">
+            {/* Step 1: Upload */}
+            {step === 'upload' && (
+              <div className="space-y-6">
+                <label className="flex flex-col items-center justify-center gap-3 py-12 border-2 border-dashed border-[#1b2c45] hover:border-[#4433FF] rounded-2xl cursor-pointer transition-colors">
+                  <Upload size={28} className="text-[#4433FF]" />
+                  <span className="text-sm text-gray-300">Choose a .csv or .vcf file</span>
+                  <input
+                    type="file"
+                    accept=".csv,.vcf,text/csv,text/vcard"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) void handleFile(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                {parseError && <p className="text-xs text-red-400">{parseError}</p>}
+
+                {recentBatches.length > 0 && (
+                  <div>
+                    <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Recent Imports</h3>
+                    {undoError && <p className="text-xs text-red-400 mb-2">{undoError}</p>}
+                    <div className="space-y-2">
+                      {recentBatches.map(b => (
+                        <div key={b.id} className="flex items-center justify-between p-3 bg-[#0a111d] border border-[#1b2c45] rounded-lg text-xs">
+                          <div>
+                            <div className="text-white">{b.fileName}</div>
+                            <div className="text-gray-500">
+                              {new Date(b.importedAt).toLocaleString()} · {b.createdContactIds.length} created · {b.merges.length} merged
+                            </div>
+                          </div>
+                          {b.undoneAt ? (
+                            <span className="text-gray-500">Undone</span>
+                          ) : (
+                            <button onClick={() => handleUndo(b.id)} className="flex items-center gap-1 text-gray-400 hover:text-white">
+                              <Undo2 size={12} /> Undo
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Step 2: Map columns */}
+            {step === 'map' && table && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-[1fr_12rem_1fr] gap-2 text-[10px] font-semibold text-gray-500 uppercase tracking-wider">
+                  <span>Column</span>
+                  <span>Field</span>
+                  <span>Sample</span>
+                </div>
+                {table.headers.map((header, col) => (
+                  <div key={col} className="grid grid-cols-[1fr_12rem_1fr] gap-2 items-center">
+                    <span className="text-sm text-white truncate">{header || `Column ${col + 1}`}</span>
+                    <select
+                      value={mapping[col] || 'ignore'}
+                      onChange={(e) => {
+                        const next = [...mapping];
+                        next[col] = e.target.value as ImportField;
+                        setMapping(next);
+                      }}
+                      className={inputClass}
+                    >
+                      {IMPORT_FIELDS.map(f => (
+                        <option key={f.field} value={f.field}>{f.label}</option>
+                      ))}
+                    </select>
+                    <span className="text-xs text-gray-500 truncate">
+                      {table.rows.slice(0, 3).map(r => r[col]).filter(Boolean).join(' · ')}
+                    </span>
+                  </div>
+                ))}
+
+                <div className="grid grid-cols-2 gap-4 pt-4 border-t border-[#1b2c45]">
+                  <label className="space-y-1">
+                    <span className="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Default domain</span>
+                    <select
+                      value={defaultDomain}
+                      onChange={(e) => setDefaultDomain(e.target.value as RelationshipDomain)}
+                      className={`w-full ${inputClass}`}
+                    >
+                      <option value="business">Business</option>
+                      <option value="personal">Personal</option>
+                      <option value="hybrid">Hybrid</option>
+                    </select>
+                  </label>
+                  <label className="space-y-1">
+                    <span className="block text-xs font-semibold text-gray-400 uppercase tracking-wider">Add tags to all</span>
+                    <input
+                      value={extraTags}
+                      onChange={(e) => setExtraTags(e.target.value)}
+                      placeholder="imported, hubspot"
+                      className={`w-full ${inputClass}`}
+                    />
+                  </label>
+                </div>
+                {!hasNameColumn && (
+                  <p className="text-xs text-amber-400">Map a name or email column to continue</p>
+                )}
+              </div>
+            )}
+
+            {/* Step 3: Preview */}
+            {step === 'preview' && (
+              <div className="space-y-4">
+                <label className="flex items-center gap-3">
+                  <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Duplicates</span>
+                  <select
+                    value={duplicateStrategy}
+                    onChange={(e) => setDuplicateStrategy(e.target.value as DuplicateStrategy)}
+                    className={inputClass}
+                  >
+                    {DUPLICATE_STRATEGIES.map(s => (
+                      <option key={s.value} value={s.value}>{s.label}</option>
+                    ))}
+                  </select>
+                </label>
+
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-[10px] text-gray-500 uppercase tracking-wider text-left">
+                      <th className="pb-2 w-8"></th>
+                      <th className="pb-2">Name</th>
+                      <th className="pb-2">Email</th>
+                      <th className="pb-2">Company</th>
+                      <th className="pb-2">Tags</th>
+                      <th className="pb-2">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.slice(0, PREVIEW_LIMIT).map(row => {
+                      const existing = row.duplicate ? getContactById(row.duplicate.contactId) : undefined;
+                      const hasErrors = row.errors.length > 0;
+                      return (
+                        <tr key={row.rowIndex} className={`border-t border-[#1b2c45] ${excludedRows.has(row.rowIndex) || hasErrors ? 'opacity-50' : ''}`}>
+                          <td className="py-1.5">
+                            <input
+                              type="checkbox"
+                              checked={!excludedRows.has(row.rowIndex) && !hasErrors}
+                              disabled={hasErrors}
+                              onChange={() => toggleRow(row.rowIndex)}
+                            />
+                          </td>
+                          <td className="py-1.5 text-white">{row.contact.fullName || '—'}</td>
+                          <td className="py-1.5 text-gray-400">{row.contact.email || '—'}</td>
+                          <td className="py-1.5 text-gray-400">{row.contact.company || '—'}</td>
+                          <td className="py-1.5 text-gray-500">{row.contact.tags?.join(', ')}</td>
+                          <td className="py-1.5">
+                            {hasErrors ? (
+                              <span className="flex items-center gap-1 text-red-400"><AlertTriangle size={10} /> {row.errors.join('; ')}</span>
+                            ) : existing ? (
+                              <span className="flex items-center gap-1 text-amber-400">
+                                <Copy size={10} /> Matches {existing.fullName} ({row.duplicate!.matchedOn})
+                              </span>
+                            ) : row.duplicateOfRow !== null ? (
+                              <span className="flex items-center gap-1 text-amber-400">
+                                <Copy size={10} /> Repeats row {row.duplicateOfRow + 1}
+                              </span>
+                            ) : (
+                              <span className="text-green-400">New</span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {preview.length > PREVIEW_LIMIT && (
+                  <p className="text-xs text-gray-500">Showing the first {PREVIEW_LIMIT} of {preview.length} rows</p>
+                )}
+              </div>
+            )}
+
+            {/* Step 4: Done */}
+            {step === 'done' && batch && (
+              <div className="flex flex-col items-center text-center gap-3 py-10">
+                <CheckCircle size={32} className={batch.undoneAt ? 'text-gray-500' : 'text-green-400'} />
+                <p className="text-sm text-white">
+                  {batch.undoneAt
+                    ? 'Import undone'
+                    : `${batch.createdContactIds.length} created · ${batch.merges.length} merged · ${batch.skippedRows} skipped`}
+                </p>
+                {!batch.undoneAt && (
+                  <button
+                    onClick={() => handleUndo(batch.id)}
+                    className="flex items-center gap-2 px-4 py-2 text-sm text-gray-300 border border-[#1b2c45] hover:border-red-500 rounded-lg transition-colors"
+                  >
+                    <Undo2 size={14} /> Undo this import
+                  </button>
+                )}
+                {undoError && <p className="text-xs text-red-400">{undoError}</p>}
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center justify-between gap-3 pt-4 mt-4 border-t border-[#1b2c45]">
+            <div>
+              {(step === 'map' || step === 'preview') && (
+                <button
+                  onClick={() => setStep(step === 'preview' ? 'map' : 'upload')}
+                  className="flex items-center gap-1 px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors"
+                >
+                  <ArrowLeft size={14} /> Back
+                </button>
+              )}
+            </div>
+            <div className="flex items-center gap-3">
+              <button onClick={handleClose} className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors">
+                {step === 'done' ? 'Close' : 'Cancel'}
+              </button>
+              {step === 'map' && (
+                <button
+                  onClick={() => setStep('preview')}
+                  disabled={!hasNameColumn}
+                  className="flex items-center gap-1 px-4 py-2 bg-[#4433FF] text-white text-sm font-semibold rounded-lg hover:bg-[#5544FF] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Preview <ArrowRight size={14} />
+                </button>
+              )}
+              {step === 'preview' && (
+                <button
+                  onClick={handleImport}
+                  disabled={preview.length === counts.errors}
+                  className="px-4 py-2 bg-[#4433FF] text-white text-sm font-semibold rounded-lg hover:bg-[#5544FF] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Import
+                </button>
+              )}
+            </div>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default ContactImportWizard;
@@ -11,10 +11,12 @@ import React, { useMemo, useState } from 'react';
 import { Contact, RelationshipDomain } from '../../types';
 import { getAllContacts, CONTACT_ZERO, createContact, archiveContact } from '../../services/contactStore';
 import { getNoteCountByContactId } from '../../services/noteStore';
+import { ContactImportWizard } from './ContactImportWizard';
+import { DuplicateContactsModal } from './DuplicateContactsModal';
 import { 
   TrendingUp, TrendingDown, Minus, 
   Calendar, Target, Filter, FileText, ExternalLink,
-  Plus, Archive, X
+  Plus, Archive, X, Upload, GitMerge
 } from 'lucide-react';
 
 // --- PROPS ---
@@ -37,6 +39,8 @@ export const ContactsView: React.FC<ContactsViewProps> = ({
   const [domainFilter, setDomainFilter] = useState<DomainFilter>('all');
   const [showArchived, setShowArchived] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
   
   // Add contact form state
   const [isAddingContact, setIsAddingContact] = useState(false);
@@ -201,6 +205,22 @@ export const ContactsView: React.FC<ContactsViewProps> = ({
         </div>
 
         <div className="flex items-center gap-3">
+          {/* Import */}
+          <button
+            onClick={() => setIsImportOpen(true)}
+            className="flex items-center gap-2 px-3 py-1.5 bg-[#1A1A1D] border border-[#333] hover:border-[#4433FF] text-white text-xs font-bold rounded transition-colors"
+          >
+            <Upload size={14} /> Import
+          </button>
+
+          {/* Duplicates */}
+          <button
+            onClick={() => setIsDuplicatesOpen(true)}
+            className="flex items-center gap-2 px-3 py-1.5 bg-[#1A1A1D] border border-[#333] hover:border-[#4433FF] text-white text-xs font-bold rounded transition-colors"
+          >
+            <GitMerge size={14} /> Duplicates
+          </button>
+
           {/* Show Archived Toggle */}
           <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
             <input
@@ -564,6 +584,18 @@ export const ContactsView: React.FC<ContactsViewProps> = ({
           Click a row to select • Double-click to view dossier
         </div>
       )}
+
+      <ContactImportWizard
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onChange={() => setRefreshKey(k => k + 1)}
+      />
+
+      <DuplicateContactsModal
+        isOpen={isDuplicatesOpen}
+        onClose={() => setIsDuplicatesOpen(false)}
+        onChange={() => setRefreshKey(k => k + 1)}
+      />
     </div>
   );
 };
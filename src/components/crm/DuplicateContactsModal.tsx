@@ -0,0 +1,194 @@
+// =============================================================================
+// DUPLICATE CONTACTS MODAL — Review likely duplicates and merge them
+// =============================================================================
+// Lists candidate pairs from findDuplicateContacts. For each pair the user
+// picks which record survives; the other is merged into it and every note,
+// task, interaction, pipeline item, project, group and FrameScan that pointed
+// at it is re-pointed. "Not a duplicate" hides the pair for the session.
+// =============================================================================
+
+import React, { useMemo, useState } from 'react';
+import { X, GitMerge, CheckCircle, Users } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Contact } from '@/types';
+import { getContactById } from '@/services/contactStore';
+import {
+  findDuplicateContacts,
+  dismissDuplicatePair,
+  mergeContacts,
+  type DuplicateSignal,
+  type ContactMergeResult,
+} from '@/services/contactMergeService';
+
+interface DuplicateContactsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called after a merge so the caller can refresh its list */
+  onChange?: () => void;
+}
+
+const SIGNAL_LABELS: Record<DuplicateSignal, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  linkedin: 'Same LinkedIn',
+  name_exact: 'Same name',
+  name_fuzzy: 'Similar name',
+};
+
+const describeMerge = (result: ContactMergeResult): string => {
+  const parts = [
+    [result.notes, 'notes'],
+    [result.tasks, 'tasks'],
+    [result.interactions, 'interactions'],
+    [result.pipelineItems, 'pipeline items'],
+    [result.projects, 'projects'],
+    [result.groups, 'groups'],
+    [result.frameScanReports, 'FrameScans'],
+    [result.reviewItems, 'review flags'],
+    [result.ledgerEntries, 'ledger entries'],
+  ]
+    .filter(([count]) => (count as number) > 0)
+    .map(([count, label]) => `${count} ${label}`);
+  return parts.length > 0 ? `Moved ${parts.join(', ')}` : 'No linked records to move';
+};
+
+const ContactSummary: React.FC<{ contact: Contact; onKeep: () => void }> = ({ contact, onKeep }) => (
+  <div className="flex-1 min-w-0 p-3 bg-[#0a111d] border border-[#1b2c45] rounded-xl">
+    <div className="flex items-center gap-2 mb-2">
+      {contact.avatarUrl ? (
+        <img src={contact.avatarUrl} alt="" className="w-7 h-7 rounded-full object-cover" />
+      ) : (
+        <div className="w-7 h-7 rounded-full bg-[#1b2c45] flex items-center justify-center">
+          <Users size={12} className="text-gray-400" />
+        </div>
+      )}
+      <div className="min-w-0">
+        <div className="text-sm text-white truncate">{contact.fullName}</div>
+        <div className="text-[10px] text-gray-500 truncate">
+          {[contact.title, contact.company].filter(Boolean).join(' · ') || contact.relationshipRole}
+        </div>
+      </div>
+    </div>
+    <div className="space-y-0.5 text-[11px] text-gray-400">
+      {contact.email && <div className="truncate">{contact.email}</div>}
+      {contact.phone && <div className="truncate">{contact.phone}</div>}
+      {contact.linkedinUrl && <div className="truncate">{contact.linkedinUrl}</div>}
+      <div className="text-gray-600">{contact.mentionedInNotes.length} note mentions</div>
+    </div>
+    <button
+      onClick={onKeep}
+      className="mt-3 w-full flex items-center justify-center gap-1 px-3 py-1.5 bg-[#4433FF]/20 border border-[#4433FF]/50 hover:bg-[#4433FF]/40 text-white text-xs font-semibold rounded-lg transition-colors"
+    >
+      <GitMerge size={12} /> Keep this one
+    </button>
+  </div>
+);
+
+export const DuplicateContactsModal: React.FC<DuplicateContactsModalProps> = ({ isOpen, onClose, onChange }) => {
+  const [scanKey, setScanKey] = useState(0);
+  const [lastMerge, setLastMerge] = useState<{ name: string; result: ContactMergeResult } | null>(null);
+
+  const candidates = useMemo(() => (isOpen ? findDuplicateContacts() : []), [isOpen, scanKey]);
+
+  const handleMerge = (survivorId: string, duplicateId: string) => {
+    const duplicateName = getContactById(duplicateId)?.fullName || 'contact';
+    const result = mergeContacts(survivorId, duplicateId);
+    if (result) {
+      setLastMerge({ name: duplicateName, result });
+      onChange?.();
+    }
+    setScanKey(k => k + 1);
+  };
+
+  const handleDismiss = (a: string, b: string) => {
+    dismissDuplicatePair(a, b);
+    setScanKey(k => k + 1);
+  };
+
+  const handleClose = () => {
+    setLastMerge(null);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm"
+        onClick={handleClose}
+      >
+        <motion.div
+          initial={{ scale: 0.95, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.95, opacity: 0 }}
+          className="bg-[#050c18] border border-[#0043FF]/40 shadow-[0_0_18px_rgba(0,0,0,0.9),0_0_24px_rgba(0,67,255,0.3)] rounded-3xl p-6 w-full max-w-3xl mx-4 max-h-[90vh] flex flex-col"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-lg font-bold text-white">Duplicate Contacts</h2>
+              <p className="text-xs text-gray-500">
+                {candidates.length} likely {candidates.length === 1 ? 'duplicate' : 'duplicates'} · matched by email, phone, LinkedIn and name
+              </p>
+            </div>
+            <button
+              onClick={handleClose}
+              className="p-2 text-gray-400 hover:text-white hover:bg-[#1b2c45] rounded-lg transition-colors"
+            >
+              <X size={16} />
+            </button>
+          </div>
+
+          {lastMerge && (
+            <div className="flex items-center gap-2 mb-4 p-3 bg-green-500/10 border border-green-500/30 rounded-lg text-xs text-green-300">
+              <CheckCircle size={14} />
+              Merged {lastMerge.name}. {describeMerge(lastMerge.result)}.
+            </div>
+          )}
+
+          <div className="flex-1 overflow-y-auto min-h-0 space-y-4">
+            {candidates.length === 0 && (
+              <div className="py-12 text-center text-sm text-gray-500">No duplicates found</div>
+            )}
+
+            {candidates.map(candidate => {
+              const [a, b] = candidate.contactIds.map(id => getContactById(id));
+              if (!a || !b) return null;
+              return (
+                <div key={candidate.contactIds.join('|')} className="p-4 border border-[#1b2c45] rounded-2xl">
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="flex flex-wrap gap-1">
+                      {candidate.signals.map(signal => (
+                        <span key={signal} className="px-2 py-0.5 text-[10px] rounded-full bg-[#4433FF]/20 text-[#8b7fff]">
+                          {SIGNAL_LABELS[signal]}
+                        </span>
+                      ))}
+                    </div>
+                    <span className="text-xs text-gray-500">{Math.round(candidate.score * 100)}% match</span>
+                  </div>
+                  <div className="flex gap-3">
+                    <ContactSummary contact={a} onKeep={() => handleMerge(a.id, b.id)} />
+                    <ContactSummary contact={b} onKeep={() => handleMerge(b.id, a.id)} />
+                  </div>
+                  <button
+                    onClick={() => handleDismiss(a.id, b.id)}
+                    className="mt-3 text-xs text-gray-500 hover:text-white transition-colors"
+                  >
+                    Not a duplicate
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default DuplicateContactsModal;
@@ -2,14 +2,14 @@
 // FRAME SCAN CONTACT TAB — Frame profile, scans, and Framelord assistant
 // =============================================================================
 // Shows cumulative frame profile, list of scans, and Framelord chat
-// for a specific contact. Allows triggering new text and image scans.
+// for a specific contact. Allows triggering new text, image and thread scans.
 // =============================================================================
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import {
   Scan, FileText, Image as ImageIcon,
-  Calendar, ChevronRight, Type, Loader2, Mic, MicOff
+  Calendar, ChevronRight, Type, Loader2, Mic, MicOff, MessagesSquare, Plus, X, Phone
 } from 'lucide-react';
 import {
   getReportsForContact,
@@ -24,8 +24,9 @@ import {
   computeCumulativeFrameProfileForContact,
   formatProfileDate,
 } from '../../lib/frameScan/frameProfile';
-import { runTextFrameScan, runImageFrameScan, type TextDomainId, type ImageDomainId, FrameScanRejectionError } from '../../lib/frameScan/frameScanLLM';
+import { runTextFrameScan, runImageFrameScan, runThreadFrameScan, type TextDomainId, type ImageDomainId, FrameScanRejectionError } from '../../lib/frameScan/frameScanLLM';
 import type { FrameDomainId } from '../../lib/frameScan/frameTypes';
+import { validateThreadMessages } from '../../lib/frameScan/threadScan';
 import { CONTACT_ZERO } from '../../services/contactStore';
 import { FrameScanContextHelp } from '../FrameScanContextHelp';
 
@@ -41,6 +42,17 @@ interface FrameScanContactTabProps {
   onViewReport: (reportId: string) => void;
 }
 
+/** A message row in the thread scan form */
+interface ThreadRow {
+  fromMe: boolean;
+  content: string;
+}
+
+const emptyThread = (): ThreadRow[] => [
+  { fromMe: false, content: '' },
+  { fromMe: true, content: '' },
+];
+
 // =============================================================================
 // DOMAIN OPTIONS
 // =============================================================================
@@ -94,6 +106,7 @@ export const FrameScanContactTab: React.FC<FrameScanContactTabProps> = ({
   // State for new scan modal
   const [isTextScanOpen, setIsTextScanOpen] = useState(false);
   const [isImageScanOpen, setIsImageScanOpen] = useState(false);
+  const [isThreadScanOpen, setIsThreadScanOpen] = useState(false);
   const [scanLoading, setScanLoading] = useState(false);
   const [scanError, setScanError] = useState<string | null>(null);
 
@@ -106,6 +119,10 @@ export const FrameScanContactTab: React.FC<FrameScanContactTabProps> = ({
   const [imageDescription, setImageDescription] = useState('');
   const [imageDomain, setImageDomain] = useState<ImageDomainId>('profile_photo');
 
+  // Thread scan form state
+  const [threadRows, setThreadRows] = useState<ThreadRow[]>(emptyThread);
+  const [threadDomain, setThreadDomain] = useState<TextDomainId>('generic');
+
   // Refresh key for re-fetching data
   const [refreshKey, setRefreshKey] = useState(0);
 
@@ -115,6 +132,16 @@ export const FrameScanContactTab: React.FC<FrameScanContactTabProps> = ({
 
   const isContactZero = contactId === CONTACT_ZERO.id;
 
+  const threadMessages = threadRows.map(row => ({
+    speakerContactId: row.fromMe ? CONTACT_ZERO.id : contactId,
+    content: row.content.trim(),
+  }));
+  const threadError = validateThreadMessages(threadMessages);
+
+  const updateThreadRow = (index: number, updates: Partial<ThreadRow>) => {
+    setThreadRows(rows => rows.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  };
+
   // Handle audio recording and transcription
   const handleAudioRecord = async () => {
     if (isRecording) {
@@ -290,6 +317,71 @@ export const FrameScanContactTab: React.FC<FrameScanContactTabProps> = ({
     }
   };
 
+  // Handle thread scan with audio and toast
+  const handleThreadScan = async () => {
+    if (threadError) {
+      setScanError(threadError);
+      return;
+    }
+
+    // Guard against double-clicks
+    if (scanInProgressRef.current) return;
+    scanInProgressRef.current = true;
+
+    setScanLoading(true);
+    setScanError(null);
+
+    // Play start sound and begin hum
+    await play('scan_start');
+    play('scan_hum', { loop: true, volume: 0.2 });
+
+    try {
+      const { thread } = await runThreadFrameScan({
+        domain: threadDomain,
+        messages: threadMessages,
+      });
+
+      // Stop hum and play success
+      stop('scan_hum');
+      await play('scan_complete');
+
+      // Get the newly created report for navigation
+      const latestReport = getLatestReport();
+
+      // Show completion toast
+      showToast({
+        type: 'success',
+        title: 'FrameScan complete',
+        message: thread.collapse
+          ? `Your frame collapsed at message ${thread.collapse.index + 1}. Click to view the report`
+          : 'Click to view detailed report',
+        onClick: latestReport ? () => onViewReport(latestReport.id) : undefined,
+      });
+
+      setThreadRows(emptyThread());
+      setIsThreadScanOpen(false);
+      setRefreshKey(k => k + 1);
+    } catch (err: any) {
+      // Stop hum and play error
+      stop('scan_hum');
+      await play('error');
+
+      // Handle rejection errors differently
+      if (err instanceof FrameScanRejectionError) {
+        showToast({
+          type: 'warning',
+          title: 'Scan Rejected',
+          message: err.rejectionReason,
+        });
+        setScanError(err.rejectionReason);
+      } else {
+        setScanError(err?.message || 'Scan failed');
+      }
+    } finally {
+      setScanLoading(false);
+      scanInProgressRef.current = false;
+    }
+  };
 
   return (
     <div className="space-y-6">
@@ -311,6 +403,7 @@ export const FrameScanContactTab: React.FC<FrameScanContactTabProps> = ({
             onClick={() => {
               setIsTextScanOpen(true);
               setIsImageScanOpen(false);
+              setIsThreadScanOpen(false);
               setScanError(null);
             }}
             className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-[#1A1A1A] border border-[#333] rounded-lg text-sm text-white hover:bg-[#222] hover:border-[#4433FF]/50 transition-colors"
@@ -322,6 +415,7 @@ export const FrameScanContactTab: React.FC<FrameScanContactTabProps> = ({
             onClick={() => {
               setIsImageScanOpen(true);
               setIsTextScanOpen(false);
+              setIsThreadScanOpen(false);
               setScanError(null);
             }}
             className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-[#1A1A1A] border border-[#333] rounded-lg text-sm text-white hover:bg-[#222] hover:border-[#4433FF]/50 transition-colors"
@@ -329,6 +423,20 @@ export const FrameScanContactTab: React.FC<FrameScanContactTabProps> = ({
             <ImageIcon size={16} />
             Run Image Scan
           </button>
+          {!isContactZero && (
+            <button
+              onClick={() => {
+                setIsThreadScanOpen(true);
+                setIsTextScanOpen(false);
+                setIsImageScanOpen(false);
+                setScanError(null);
+              }}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-[#1A1A1A] border border-[#333] rounded-lg text-sm text-white hover:bg-[#222] hover:border-[#4433FF]/50 transition-colors"
+            >
+              <MessagesSquare size={16} />
+              Run Thread Scan
+            </button>
+          )}
           <FrameScanContextHelp iconSize={16} />
         </div>
 
@@ -535,6 +643,110 @@ export const FrameScanContactTab: React.FC<FrameScanContactTabProps> = ({
           </MotionDiv>
         )}
 
+        {/* Thread Scan Form */}
+        {isThreadScanOpen && (
+          <MotionDiv
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className={`bg-[#0E0E0E] border border-[#333] rounded-lg p-4 ${scanLoading ? 'framescan-wobble' : ''}`}
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-sm font-medium text-white">New Thread Scan</h3>
+              <button
+                onClick={() => setIsThreadScanOpen(false)}
+                className="text-gray-400 hover:text-white text-xs"
+              >
+                Cancel
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Domain</label>
+                <select
+                  value={threadDomain}
+                  onChange={(e) => setThreadDomain(e.target.value as TextDomainId)}
+                  className="w-full bg-[#1A1A1A] border border-[#333] rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-[#4433FF]"
+                >
+                  {TEXT_DOMAINS.map(d => (
+                    <option key={d.id} value={d.id}>{d.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Messages, oldest first</label>
+                <div className="space-y-2">
+                  {threadRows.map((row, index) => (
+                    <div key={index} className="flex items-start gap-2">
+                      <button
+                        onClick={() => updateThreadRow(index, { fromMe: !row.fromMe })}
+                        className={`w-20 shrink-0 px-2 py-2 rounded text-xs font-medium border transition-colors truncate ${
+                          row.fromMe
+                            ? 'bg-[#4433FF]/20 border-[#4433FF]/50 text-white'
+                            : 'bg-[#1A1A1A] border-[#333] text-gray-300'
+                        }`}
+                        title="Switch speaker"
+                      >
+                        {row.fromMe ? 'Me' : contactName.split(' ')[0]}
+                      </button>
+                      <textarea
+                        value={row.content}
+                        onChange={(e) => updateThreadRow(index, { content: e.target.value })}
+                        placeholder={row.fromMe ? 'What you sent...' : `What ${contactName} sent...`}
+                        rows={2}
+                        className="flex-1 bg-[#1A1A1A] border border-[#333] rounded px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-[#4433FF] resize-none"
+                      />
+                      <button
+                        onClick={() => setThreadRows(rows => rows.filter((_, i) => i !== index))}
+                        disabled={threadRows.length <= 2}
+                        className="p-2 text-gray-500 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                        title="Remove message"
+                      >
+                        <X size={14} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setThreadRows(rows => [
+                    ...rows,
+                    { fromMe: !(rows[rows.length - 1]?.fromMe ?? true), content: '' },
+                  ])}
+                  className="mt-2 flex items-center gap-1 text-xs text-[#4433FF] hover:text-white transition-colors"
+                >
+                  <Plus size={12} />
+                  Add message
+                </button>
+              </div>
+
+              {scanError && (
+                <div className="text-sm text-red-400">{scanError}</div>
+              )}
+
+              <button
+                onClick={handleThreadScan}
+                disabled={scanLoading || !!threadError}
+                title={threadError || undefined}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-[#4433FF] text-white rounded text-sm font-medium hover:bg-[#5544FF] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {scanLoading ? (
+                  <>
+                    <Loader2 size={16} className="animate-spin" />
+                    Scanning...
+                  </>
+                ) : (
+                  <>
+                    <Scan size={16} />
+                    Run Scan
+                  </>
+                )}
+              </button>
+            </div>
+          </MotionDiv>
+        )}
+
         {/* Reports List */}
         <div>
           <h3 className="text-sm font-medium text-gray-400 mb-3">Scan History</h3>
@@ -560,6 +772,10 @@ export const FrameScanContactTab: React.FC<FrameScanContactTabProps> = ({
                   }`}>
                     {report.modality === 'image' ? (
                       <ImageIcon size={14} className="text-blue-400" />
+                    ) : report.modality === 'thread' ? (
+                      <MessagesSquare size={14} className="text-purple-400" />
+                    ) : report.modality === 'call' ? (
+                      <Phone size={14} className="text-purple-400" />
                     ) : (
                       <FileText size={14} className="text-purple-400" />
                     )}
@@ -5,12 +5,12 @@
 // to legacy rendering for older reports without uiReport.
 // =============================================================================
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import {
   ArrowLeft, Target, TrendingUp, TrendingDown, Minus,
   AlertTriangle, CheckCircle, Lightbulb, User, Calendar,
-  FileText, Image as ImageIcon, ExternalLink, Star, Zap, Lock, Sparkles, FileDown, BookOpen
+  FileText, Image as ImageIcon, ExternalLink, Star, Zap, Lock, Sparkles, FileDown, BookOpen, Highlighter
 } from 'lucide-react';
 import { getReportById, type FrameScanReport } from '../../services/frameScanReportStore';
 import { getContactById, CONTACT_ZERO } from '../../services/contactStore';
@@ -23,6 +23,12 @@ import {
 import type { FrameAxisScore, FrameBand, FrameWinWinState } from '../../lib/frameScan/frameTypes';
 import type { FrameScanUIReport, FrameScanUISection, FrameScanUICorrection } from '../../lib/frameScan/frameReportUI';
 import { MarkdownRenderer } from './MarkdownRenderer';
+import {
+  collectEvidenceMarks,
+  segmentEvidenceText,
+  getDominantAxisMark,
+  type EvidenceMark,
+} from '../../lib/frameScan/evidenceSpans';
 import { createNoteFromFrameScan } from '../../services/noteStore';
 
 const MotionDiv = motion.div as any;
@@ -77,6 +83,22 @@ const AXIS_LABELS: Record<string, string> = {
   field_strength: 'Field Strength',
 };
 
+// Highlight colours for scanned-text evidence, by axis band
+const HIGHLIGHT_COLORS: Record<FrameBand, string> = {
+  strong_slave: 'bg-red-500/25 border-b-2 border-red-500',
+  mild_slave: 'bg-orange-500/20 border-b-2 border-orange-500',
+  neutral: 'bg-yellow-500/15 border-b-2 border-yellow-500',
+  mild_apex: 'bg-emerald-500/15 border-b-2 border-emerald-500',
+  strong_apex: 'bg-green-500/20 border-b-2 border-green-500',
+};
+
+const PATTERN_HIGHLIGHT = 'bg-[#4433FF]/20 border-b-2 border-dashed border-[#4433FF]';
+
+const describeMark = (mark: EvidenceMark): string =>
+  mark.kind === 'axis'
+    ? `${AXIS_LABELS[mark.axisId] || mark.axisId} (${mark.score > 0 ? '+' : ''}${mark.score}): ${mark.notes}`
+    : `Pattern: ${mark.pattern}`;
+
 // Section icon mapping
 const SECTION_ICONS: Record<string, React.ReactNode> = {
   summary: <Target size={18} className="text-[#4433FF]" />,
@@ -144,6 +166,99 @@ const PaywallOverlay: React.FC<PaywallOverlayProps> = ({ onUpgrade }) => (
   </div>
 );
 
+// =============================================================================
+// SCANNED TEXT WITH EVIDENCE HIGHLIGHTS
+// =============================================================================
+
+interface EvidenceTextPanelProps {
+  report: FrameScanReport;
+  focusedAxisId: string | null;
+  onSelectAxis: (axisId: string | null) => void;
+}
+
+const EvidenceTextPanel: React.FC<EvidenceTextPanelProps> = ({ report, focusedAxisId, onSelectAxis }) => {
+  const text = report.sourceText ?? '';
+  const marks = useMemo(() => collectEvidenceMarks(report.rawResult), [report.rawResult]);
+  const segments = useMemo(() => segmentEvidenceText(text, marks), [text, marks]);
+
+  const axesWithEvidence = report.rawResult.axes.filter(axis => axis.evidenceSpans?.length);
+  const patterns = report.rawResult.diagnostics.patternSpans ?? [];
+
+  const handleClick = (segmentMarks: EvidenceMark[]) => {
+    const axisMark = getDominantAxisMark(segmentMarks);
+    onSelectAxis(axisMark?.axisId ?? null);
+    document
+      .getElementById(axisMark ? `axis-row-${axisMark.axisId}` : 'axis-breakdown')
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  return (
+    <MotionDiv
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.32 }}
+      className="bg-[#0E0E0E] border border-[#222] rounded-lg p-4 mb-4"
+    >
+      <h2 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+        <Highlighter size={18} className="text-[#4433FF]" />
+        Scanned Text
+      </h2>
+
+      {/* Legend */}
+      {marks.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {axesWithEvidence.map(axis => (
+            <button
+              key={axis.axisId}
+              onClick={() => onSelectAxis(focusedAxisId === axis.axisId ? null : axis.axisId)}
+              className={`px-2 py-1 rounded text-xs border transition-opacity ${BAND_COLORS[axis.band]} ${
+                focusedAxisId && focusedAxisId !== axis.axisId ? 'opacity-40' : ''
+              }`}
+            >
+              {AXIS_LABELS[axis.axisId] || axis.axisId}
+            </button>
+          ))}
+          {patterns.map(entry => (
+            <span
+              key={entry.pattern}
+              className="px-2 py-1 rounded text-xs border border-dashed border-[#4433FF]/50 text-[#8877FF]"
+            >
+              {entry.pattern}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <p className="text-sm text-gray-300 leading-relaxed whitespace-pre-wrap">
+        {segments.map(segment => {
+          if (segment.marks.length === 0) {
+            return <React.Fragment key={segment.start}>{segment.text}</React.Fragment>;
+          }
+          const axisMark = getDominantAxisMark(segment.marks);
+          const dimmed = focusedAxisId !== null
+            && !segment.marks.some(m => m.kind === 'axis' && m.axisId === focusedAxisId);
+          return (
+            <mark
+              key={segment.start}
+              onClick={() => handleClick(segment.marks)}
+              title={segment.marks.map(describeMark).join('\n')}
+              className={`text-inherit rounded-sm cursor-pointer transition-opacity ${
+                axisMark ? HIGHLIGHT_COLORS[axisMark.band] : PATTERN_HIGHLIGHT
+              } ${dimmed ? 'opacity-30' : ''}`}
+            >
+              {segment.text}
+            </mark>
+          );
+        })}
+      </p>
+
+      {marks.length === 0 && (
+        <p className="text-xs text-gray-500 mt-3">No passages were tied to specific scores in this scan.</p>
+      )}
+    </MotionDiv>
+  );
+};
+
 // =============================================================================
 // COMPONENT
 // =============================================================================
@@ -160,6 +275,9 @@ export const FrameScanReportDetail: React.FC<FrameScanReportDetailProps> = ({
   // Use demo report if provided, otherwise fetch from store
   const report = demoReport || getReportById(reportId);
 
+  // Axis selected from the scanned-text highlights
+  const [focusedAxisId, setFocusedAxisId] = useState<string | null>(null);
+
   // State for Add to Notes functionality
   const [isCreatingNote, setIsCreatingNote] = useState(false);
   const [noteCreatedMessage, setNoteCreatedMessage] = useState<string | null>(null);
@@ -539,9 +657,19 @@ export const FrameScanReportDetail: React.FC<FrameScanReportDetailProps> = ({
           </MotionDiv>
           )}
 
+          {/* Scanned Text with evidence highlights - Hidden when paywalled */}
+          {!isPaywalled && report.sourceText && (
+            <EvidenceTextPanel
+              report={report}
+              focusedAxisId={focusedAxisId}
+              onSelectAxis={setFocusedAxisId}
+            />
+          )}
+
           {/* Axis Breakdown - Hidden when paywalled */}
           {!isPaywalled && (
           <MotionDiv
+            id="axis-breakdown"
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.35 }}
@@ -563,7 +691,14 @@ export const FrameScanReportDetail: React.FC<FrameScanReportDetailProps> = ({
                 </thead>
                 <tbody>
                   {report.score.axisScores.map((axis) => (
-                    <tr key={axis.axisId} className="border-b border-[#222] hover:bg-[#1A1A1A] transition-colors">
+                    <tr
+                      key={axis.axisId}
+                      id={`axis-row-${axis.axisId}`}
+                      onClick={() => report.sourceText && setFocusedAxisId(focusedAxisId === axis.axisId ? null : axis.axisId)}
+                      className={`border-b border-[#222] hover:bg-[#1A1A1A] transition-colors ${
+                        report.sourceText ? 'cursor-pointer' : ''
+                      } ${focusedAxisId === axis.axisId ? 'bg-[#4433FF]/10' : ''}`}
+                    >
                       <td className="py-3 px-3 text-sm text-white">
                         {AXIS_LABELS[axis.axisId] || axis.axisId}
                       </td>
@@ -1,17 +1,25 @@
 // =============================================================================
 // FRAME SCORE TILE — Dashboard widget showing frame profile for Contact Zero
 // =============================================================================
-// Compact widget for the dashboard showing current frame score and scan count.
+// Compact widget for the dashboard showing current frame score and scan count,
+// with a breakdown of what moved the score (scan average, Want Tracking,
+// ledger events) and an itemized ledger audit trail.
 // Links to the full Frame Scans page.
 // =============================================================================
 
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
-  Scan, TrendingUp, TrendingDown, Minus, ArrowRight 
+  Scan, TrendingUp, TrendingDown, Minus, ArrowRight, ChevronDown, ChevronRight, Plus, X
 } from 'lucide-react';
 import { getContactZeroReports } from '../../services/frameScanReportStore';
 import { CONTACT_ZERO } from '../../services/contactStore';
+import {
+  addManualLedgerAdjustment,
+  deleteManualLedgerAdjustment,
+  subscribeFrameScoreLedger,
+  LEDGER_EVENT_LABELS,
+} from '../../services/frameScoreLedgerStore';
 import { 
   computeCumulativeFrameProfileForContact,
   computeFrameProfileTrend,
@@ -37,8 +45,18 @@ interface FrameScoreTileProps {
 export const FrameScoreTile: React.FC<FrameScoreTileProps> = ({
   onOpenFrameScans,
 }) => {
+  const [ledgerVersion, setLedgerVersion] = useState(0);
+  const [showAudit, setShowAudit] = useState(false);
+  const [manualPoints, setManualPoints] = useState('');
+  const [manualReason, setManualReason] = useState('');
+
+  useEffect(() => subscribeFrameScoreLedger(() => setLedgerVersion(v => v + 1)), []);
+
   const reports = useMemo(() => getContactZeroReports(), []);
-  const profile = useMemo(() => computeCumulativeFrameProfileForContact(CONTACT_ZERO.id, reports), [reports]);
+  const profile = useMemo(
+    () => computeCumulativeFrameProfileForContact(CONTACT_ZERO.id, reports),
+    [reports, ledgerVersion]
+  );
   const trend = useMemo(() => computeFrameProfileTrend(reports), [reports]);
 
   const scoreColorClass = getFrameScoreColorClass(profile.currentFrameScore);
@@ -48,6 +66,21 @@ export const FrameScoreTile: React.FC<FrameScoreTileProps> = ({
     : trend?.direction === 'down' ? TrendingDown 
     : Minus;
 
+  const ledgerItems = profile.ledgerItems ?? [];
+  const ledgerAdjustment = profile.ledgerAdjustment ?? 0;
+  const wantPenalty = profile.wantTrackingPenalty?.totalPenalty ?? 0;
+  const formatPoints = (points: number) => `${points > 0 ? '+' : points < 0 ? '−' : ''}${Math.abs(points).toFixed(Number.isInteger(points) ? 0 : 1)}`;
+  const pointsClass = (points: number) => (points > 0 ? 'text-green-400' : points < 0 ? 'text-red-400' : 'text-gray-500');
+
+  const handleAddManual = () => {
+    const points = Number(manualPoints);
+    if (!Number.isFinite(points)) return;
+    if (addManualLedgerAdjustment(CONTACT_ZERO.id, points, manualReason)) {
+      setManualPoints('');
+      setManualReason('');
+    }
+  };
+
   return (
     <MotionDiv
       initial={{ opacity: 0, scale: 0.95 }}
@@ -126,6 +159,90 @@ export const FrameScoreTile: React.FC<FrameScoreTileProps> = ({
         </div>
       )}
 
+      {/* Score Breakdown */}
+      {profile.baseFrameScore !== undefined && (
+        <div className="mb-3 space-y-1 text-xs">
+          <div className="flex justify-between text-gray-500">
+            <span>{profile.scansCount > 0 ? 'Scan average' : 'Baseline'}</span>
+            <span>{profile.baseFrameScore}</span>
+          </div>
+          {wantPenalty > 0 && (
+            <div className="flex justify-between text-gray-500">
+              <span>Want tracking</span>
+              <span className="text-red-400">{formatPoints(-wantPenalty)}</span>
+            </div>
+          )}
+          <button
+            onClick={() => setShowAudit(open => !open)}
+            className="w-full flex justify-between text-gray-500 hover:text-gray-300 transition-colors"
+          >
+            <span className="flex items-center gap-1">
+              {showAudit ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+              Ledger ({ledgerItems.length} event{ledgerItems.length !== 1 ? 's' : ''})
+            </span>
+            <span className={pointsClass(ledgerAdjustment)}>{formatPoints(ledgerAdjustment)}</span>
+          </button>
+        </div>
+      )}
+
+      {/* Ledger Audit Trail */}
+      {showAudit && (
+        <div className="mb-3 border border-[#222] rounded">
+          <div className="max-h-48 overflow-y-auto divide-y divide-[#1A1A1A]">
+            {ledgerItems.map(({ entry, decayFactor, effectiveAdjustment }) => (
+              <div key={entry.id} className="flex items-start gap-2 px-2 py-1.5 text-[11px] group">
+                <div className="flex-1 min-w-0">
+                  <div className="text-gray-300 truncate" title={entry.reason}>{entry.reason}</div>
+                  <div className="text-[10px] text-gray-600">
+                    {LEDGER_EVENT_LABELS[entry.eventType]} · {formatProfileDate(entry.occurredAt)}
+                  </div>
+                </div>
+                <span
+                  className={`shrink-0 ${pointsClass(effectiveAdjustment)}`}
+                  title={decayFactor < 1 ? `${formatPoints(entry.adjustment)} before decay` : undefined}
+                >
+                  {formatPoints(Math.round(effectiveAdjustment * 10) / 10)}
+                </span>
+                {entry.eventType === 'manual_adjustment' && (
+                  <button
+                    onClick={() => deleteManualLedgerAdjustment(entry.id)}
+                    className="shrink-0 text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Remove adjustment"
+                  >
+                    <X size={12} />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-1 p-2 border-t border-[#222]">
+            <input
+              type="number"
+              value={manualPoints}
+              onChange={(e) => setManualPoints(e.target.value)}
+              placeholder="±pts"
+              className="w-14 px-1.5 py-1 bg-[#1A1A1A] border border-[#333] rounded text-[11px] text-white focus:outline-none focus:border-[#4433FF]/50"
+            />
+            <input
+              type="text"
+              value={manualReason}
+              onChange={(e) => setManualReason(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddManual()}
+              placeholder="Reason for adjustment"
+              className="flex-1 min-w-0 px-1.5 py-1 bg-[#1A1A1A] border border-[#333] rounded text-[11px] text-white focus:outline-none focus:border-[#4433FF]/50"
+            />
+            <button
+              onClick={handleAddManual}
+              disabled={!Number(manualPoints) || !manualReason.trim()}
+              className="p-1 text-gray-400 hover:text-white disabled:opacity-40 transition-colors"
+              title="Add manual adjustment"
+            >
+              <Plus size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* CTA Button */}
       <button
         onClick={onOpenFrameScans}
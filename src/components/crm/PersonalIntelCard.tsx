@@ -9,7 +9,7 @@
 // Supports in-place editing of personal intel fields.
 // =============================================================================
 
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   Eye,
   Target,
@@ -22,6 +22,7 @@ import {
   Save,
   X,
   Sparkles,
+  Repeat,
 } from 'lucide-react';
 
 // Stores
@@ -30,6 +31,13 @@ import { getInteractionsByContactId, getLastNotableInteractionForContact } from
 import { getNotesByContactId } from '@/services/noteStore';
 import { getReportsForContact } from '@/services/frameScanReportStore';
 import { psychometricStore } from '@/services/psychometricStore';
+import {
+  getIntelReviewItem,
+  flagIntelForReview,
+  unflagReviewItem,
+  subscribeReviewItems,
+  type ReviewableIntelField,
+} from '@/services/reviewStore';
 
 // Types
 interface PersonalIntelCardProps {
@@ -76,12 +84,24 @@ const EditableIntelSection: React.FC<{
   isEditing: boolean;
   editValue: string;
   onEditValueChange: (value: string) => void;
-}> = ({ icon, label, value, placeholder, isEditing, editValue, onEditValueChange }) => {
+  /** Shown when the field has saved intel that can be flagged for review */
+  isFlaggedForReview?: boolean;
+  onToggleReview?: () => void;
+}> = ({ icon, label, value, placeholder, isEditing, editValue, onEditValueChange, isFlaggedForReview, onToggleReview }) => {
   return (
     <div className="p-3 bg-[#0a111d] rounded-lg border border-[#112035]">
       <div className="flex items-center gap-2 mb-1.5">
         {icon}
         <span className="text-[10px] font-semibold text-gray-400 uppercase">{label}</span>
+        {onToggleReview && !isEditing && (
+          <button
+            onClick={onToggleReview}
+            className={`ml-auto p-0.5 rounded transition-colors ${isFlaggedForReview ? 'text-[#4433FF]' : 'text-gray-600 hover:text-gray-300'}`}
+            title={isFlaggedForReview ? 'Stop reviewing' : 'Flag for review'}
+          >
+            <Repeat size={12} />
+          </button>
+        )}
       </div>
       {isEditing ? (
         <textarea
@@ -118,6 +138,19 @@ export const PersonalIntelCard: React.FC<PersonalIntelCardProps> = ({
   const personalIntel = useMemo(() => getPersonalIntel(contactId), [contactId, refreshKey]);
   const profile = psychometricStore.getProfile(contactId);
 
+  // Review flags on intel fields
+  const [, setReviewVersion] = useState(0);
+  useEffect(() => subscribeReviewItems(() => setReviewVersion(v => v + 1)), []);
+
+  const reviewProps = (field: ReviewableIntelField) => {
+    if (!personalIntel?.[field]?.trim()) return {};
+    const item = getIntelReviewItem(contactId, field);
+    return {
+      isFlaggedForReview: !!item,
+      onToggleReview: () => (item ? unflagReviewItem(item.id) : flagIntelForReview(contactId, field)),
+    };
+  };
+
   // Edit form state
   const [editHowTheySpeak, setEditHowTheySpeak] = useState(personalIntel?.howTheySpeak || '');
   const [editWatchFor, setEditWatchFor] = useState(personalIntel?.watchFor || '');
@@ -240,6 +273,7 @@ export const PersonalIntelCard: React.FC<PersonalIntelCardProps> = ({
           isEditing={isEditing}
           editValue={editHowTheySpeak}
           onEditValueChange={setEditHowTheySpeak}
+          {...reviewProps('howTheySpeak')}
         />
 
         {/* Watch For - Editable */}
@@ -252,6 +286,7 @@ export const PersonalIntelCard: React.FC<PersonalIntelCardProps> = ({
             isEditing={isEditing}
             editValue={editWatchFor}
             onEditValueChange={setEditWatchFor}
+            {...reviewProps('watchFor')}
           />
         )}
 
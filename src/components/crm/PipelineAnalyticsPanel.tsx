@@ -0,0 +1,115 @@
+// =============================================================================
+// PIPELINE ANALYTICS PANEL — Funnel, stage velocity and forecast for a template
+// =============================================================================
+// Read-only view over pipelineAnalytics selectors. Shown in the Analytics tab
+// of PipelinesView.
+// =============================================================================
+
+import React, { useMemo } from 'react';
+import { TrendingUp, Trophy, Target, Clock } from 'lucide-react';
+import { PipelineTemplate } from '../../types';
+import { getPipelineAnalytics } from '../../services/pipelineAnalytics';
+
+interface PipelineAnalyticsPanelProps {
+  template: PipelineTemplate;
+  /** Bumped by the parent when items change */
+  refreshKey: number;
+}
+
+const formatCurrency = (value: number): string =>
+  value.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+const formatPercent = (value: number | null): string =>
+  value === null ? '—' : `${Math.round(value * 100)}%`;
+
+const formatDays = (value: number | null): string =>
+  value === null ? '—' : value < 1 ? `${Math.round(value * 24)}h` : `${value.toFixed(1)}d`;
+
+export const PipelineAnalyticsPanel: React.FC<PipelineAnalyticsPanelProps> = ({ template, refreshKey }) => {
+  const analytics = useMemo(() => getPipelineAnalytics(template.id), [template, refreshKey]);
+
+  if (!analytics) return null;
+
+  const maxReached = Math.max(1, ...analytics.stages.map(s => s.reached));
+
+  const kpis = [
+    { label: 'Win Rate', value: formatPercent(analytics.winRate), sub: `${analytics.wonCount} won · ${analytics.lostCount} lost`, icon: Trophy },
+    { label: 'Open', value: String(analytics.openCount), sub: formatCurrency(analytics.openValue), icon: Target },
+    { label: 'Forecast', value: formatCurrency(analytics.forecastValue), sub: 'Weighted by stage probability', icon: TrendingUp },
+    { label: 'Won Value', value: formatCurrency(analytics.wonValue), sub: `${analytics.totalItems} items total`, icon: Trophy },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* KPIs */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {kpis.map(kpi => (
+          <div key={kpi.label} className="bg-[#0E0E0E] border border-[#2A2A2A] rounded-xl p-4">
+            <div className="flex items-center gap-2 text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-2">
+              <kpi.icon size={12} className="text-[#4433FF]" /> {kpi.label}
+            </div>
+            <div className="text-xl font-bold text-white">{kpi.value}</div>
+            <div className="text-xs text-gray-500 mt-1">{kpi.sub}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Funnel */}
+      <div className="bg-[#0E0E0E] border border-[#2A2A2A] rounded-xl p-6">
+        <h3 className="text-sm font-bold text-white mb-4">Conversion Funnel</h3>
+        <div className="space-y-3">
+          {analytics.stages.map(stage => (
+            <div key={stage.stageId} className="grid grid-cols-[8rem_1fr_4rem] items-center gap-3">
+              <div className="text-xs text-gray-300 truncate">{stage.name}</div>
+              <div className="h-5 bg-[#1A1A1D] rounded overflow-hidden">
+                <div
+                  className={`h-full ${
+                    stage.terminal === 'won' ? 'bg-green-500/60' : stage.terminal === 'lost' ? 'bg-red-500/50' : 'bg-[#4433FF]/70'
+                  }`}
+                  style={{ width: `${(stage.reached / maxReached) * 100}%` }}
+                />
+              </div>
+              <div className="text-xs text-gray-400 text-right">{stage.reached}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Stage Table */}
+      <div className="bg-[#0E0E0E] border border-[#2A2A2A] rounded-xl p-6 overflow-x-auto">
+        <h3 className="text-sm font-bold text-white mb-4">Stage Velocity & Forecast</h3>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] text-gray-500 uppercase tracking-widest text-left">
+              <th className="pb-2 font-bold">Stage</th>
+              <th className="pb-2 font-bold text-right">Next-stage conv.</th>
+              <th className="pb-2 font-bold text-right">
+                <span className="inline-flex items-center gap-1"><Clock size={10} /> Median time</span>
+              </th>
+              <th className="pb-2 font-bold text-right">Open</th>
+              <th className="pb-2 font-bold text-right">Probability</th>
+              <th className="pb-2 font-bold text-right">Weighted</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analytics.stages.map(stage => (
+              <tr key={stage.stageId} className="border-t border-[#1A1A1D] text-gray-300">
+                <td className="py-2">{stage.name}</td>
+                <td className="py-2 text-right">{formatPercent(stage.conversionRate)}</td>
+                <td className="py-2 text-right" title={`${stage.completedVisits} completed visits`}>
+                  {formatDays(stage.medianDaysInStage)}
+                </td>
+                <td className="py-2 text-right">
+                  {stage.openCount}
+                  {stage.openValue > 0 && <span className="text-gray-500"> · {formatCurrency(stage.openValue)}</span>}
+                </td>
+                <td className="py-2 text-right">{formatPercent(stage.probability)}</td>
+                <td className="py-2 text-right text-white">{formatCurrency(stage.weightedValue)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
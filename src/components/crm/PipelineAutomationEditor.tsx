@@ -0,0 +1,339 @@
+// =============================================================================
+// PIPELINE AUTOMATION EDITOR — Stage rules and per-item run history
+// =============================================================================
+// PipelineAutomationEditor edits the automation rules of one stage inside the
+// template form. AutomationRunHistory lists the rules that ran for an item.
+// =============================================================================
+
+import React from 'react';
+import { Zap, Plus, X, CheckCircle, MinusCircle, XCircle } from 'lucide-react';
+import {
+  PipelineAutomationRule,
+  PipelineAutomationAction,
+  PipelineAutomationTrigger,
+  InteractionType,
+  TaskPriority,
+} from '../../types';
+import { getAutomationRunsForItem } from '../../services/pipelineAutomation';
+
+// --- CONSTANTS ---
+
+const ACTION_LABELS: Record<PipelineAutomationAction['type'], string> = {
+  create_task: 'Create task',
+  log_interaction: 'Log interaction',
+  send_email: 'Send email',
+  send_sms: 'Send SMS',
+  request_framescan: 'Request FrameScan',
+  move_to_stage: 'Move to stage',
+};
+
+const INTERACTION_TYPES: InteractionType[] = ['call', 'meeting', 'message', 'email', 'dm', 'other'];
+const PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'critical'];
+
+const inputClass =
+  'bg-[#0E0E0E] border border-[#333] rounded px-2 py-1 text-white text-xs focus:border-[#4433FF] outline-none';
+
+/** Blank action of a given type */
+const defaultAction = (type: PipelineAutomationAction['type'], fallbackStageId: string): PipelineAutomationAction => {
+  switch (type) {
+    case 'create_task':
+      return { type, titleTemplate: 'Follow up with {{contact.name}}', dueInDays: 1 };
+    case 'log_interaction':
+      return { type, interactionType: 'other', summaryTemplate: 'Moved to {{stage.name}}' };
+    case 'send_email':
+      return { type, subjectTemplate: '', bodyTemplate: 'Hi {{contact.firstName}},\n\n' };
+    case 'send_sms':
+      return { type, bodyTemplate: '' };
+    case 'request_framescan':
+      return { type };
+    case 'move_to_stage':
+      return { type, stageId: fallbackStageId };
+  }
+};
+
+// --- RULE EDITOR ---
+
+interface PipelineAutomationEditorProps {
+  rules: PipelineAutomationRule[];
+  /** Saved stages of the template, used as move targets */
+  stages: { id: string; name: string }[];
+  onChange: (rules: PipelineAutomationRule[]) => void;
+}
+
+export const PipelineAutomationEditor: React.FC<PipelineAutomationEditorProps> = ({
+  rules,
+  stages,
+  onChange,
+}) => {
+  const updateRule = (ruleId: string, patch: Partial<PipelineAutomationRule>) => {
+    onChange(rules.map(r => (r.id === ruleId ? { ...r, ...patch } : r)));
+  };
+
+  const updateAction = (rule: PipelineAutomationRule, index: number, action: PipelineAutomationAction) => {
+    updateRule(rule.id, { actions: rule.actions.map((a, i) => (i === index ? action : a)) });
+  };
+
+  const handleAddRule = () => {
+    onChange([
+      ...rules,
+      {
+        id: `rule-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+        name: `Rule ${rules.length + 1}`,
+        enabled: true,
+        trigger: { type: 'enter' },
+        actions: [defaultAction('create_task', stages[0]?.id || '')],
+      },
+    ]);
+  };
+
+  const handleTriggerChange = (rule: PipelineAutomationRule, type: PipelineAutomationTrigger['type']) => {
+    const trigger: PipelineAutomationTrigger = type === 'time_in_stage' ? { type, days: 7 } : { type };
+    updateRule(rule.id, { trigger });
+  };
+
+  const renderActionFields = (rule: PipelineAutomationRule, action: PipelineAutomationAction, index: number) => {
+    const set = (next: PipelineAutomationAction) => updateAction(rule, index, next);
+
+    switch (action.type) {
+      case 'create_task':
+        return (
+          <div className="grid grid-cols-[1fr_4rem_5rem] gap-1">
+            <input
+              value={action.titleTemplate}
+              onChange={(e) => set({ ...action, titleTemplate: e.target.value })}
+              className={inputClass}
+              placeholder="Task title"
+            />
+            <input
+              type="number"
+              min={0}
+              value={action.dueInDays ?? ''}
+              onChange={(e) => set({ ...action, dueInDays: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+              className={inputClass}
+              placeholder="Days"
+              title="Due in days"
+            />
+            <select
+              value={action.priority || 'medium'}
+              onChange={(e) => set({ ...action, priority: e.target.value as TaskPriority })}
+              className={inputClass}
+            >
+              {PRIORITIES.map(p => (
+                <option key={p} value={p}>{p}</option>
+              ))}
+            </select>
+          </div>
+        );
+      case 'log_interaction':
+        return (
+          <div className="grid grid-cols-[6rem_1fr] gap-1">
+            <select
+              value={action.interactionType}
+              onChange={(e) => set({ ...action, interactionType: e.target.value as InteractionType })}
+              className={inputClass}
+            >
+              {INTERACTION_TYPES.map(t => (
+                <option key={t} value={t}>{t}</option>
+              ))}
+            </select>
+            <input
+              value={action.summaryTemplate}
+              onChange={(e) => set({ ...action, summaryTemplate: e.target.value })}
+              className={inputClass}
+              placeholder="Summary"
+            />
+          </div>
+        );
+      case 'send_email':
+        return (
+          <div className="space-y-1">
+            <input
+              value={action.subjectTemplate}
+              onChange={(e) => set({ ...action, subjectTemplate: e.target.value })}
+              className={`w-full ${inputClass}`}
+              placeholder="Subject"
+            />
+            <textarea
+              value={action.bodyTemplate}
+              onChange={(e) => set({ ...action, bodyTemplate: e.target.value })}
+              className={`w-full resize-none ${inputClass}`}
+              rows={3}
+              placeholder="Body"
+            />
+          </div>
+        );
+      case 'send_sms':
+        return (
+          <textarea
+            value={action.bodyTemplate}
+            onChange={(e) => set({ ...action, bodyTemplate: e.target.value })}
+            className={`w-full resize-none ${inputClass}`}
+            rows={2}
+            placeholder="Message"
+          />
+        );
+      case 'request_framescan':
+        return (
+          <input
+            value={action.instructions || ''}
+            onChange={(e) => set({ ...action, instructions: e.target.value || undefined })}
+            className={`w-full ${inputClass}`}
+            placeholder="Instructions (optional)"
+          />
+        );
+      case 'move_to_stage':
+        return stages.length > 0 ? (
+          <select
+            value={action.stageId}
+            onChange={(e) => set({ ...action, stageId: e.target.value })}
+            className={`w-full ${inputClass}`}
+          >
+            {stages.map(s => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </select>
+        ) : (
+          <p className="text-[10px] text-gray-500">Save the template before choosing a target stage</p>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {rules.map(rule => (
+        <div key={rule.id} className="border border-[#333] rounded p-2 space-y-2 bg-[#0E0E0E]/50">
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+              title="Enabled"
+            />
+            <input
+              value={rule.name}
+              onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+              className={`flex-1 ${inputClass}`}
+              placeholder="Rule name"
+            />
+            <select
+              value={rule.trigger.type}
+              onChange={(e) => handleTriggerChange(rule, e.target.value as PipelineAutomationTrigger['type'])}
+              className={inputClass}
+            >
+              <option value="enter">On enter</option>
+              <option value="exit">On exit</option>
+              <option value="time_in_stage">After N days</option>
+            </select>
+            {rule.trigger.type === 'time_in_stage' && (
+              <input
+                type="number"
+                min={1}
+                value={rule.trigger.days}
+                onChange={(e) =>
+                  updateRule(rule.id, { trigger: { type: 'time_in_stage', days: Math.max(1, parseInt(e.target.value, 10) || 1) } })
+                }
+                className={`w-14 ${inputClass}`}
+                title="Days in stage"
+              />
+            )}
+            <button
+              onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+              className="p-1 text-gray-500 hover:text-red-400"
+              title="Delete rule"
+            >
+              <X size={12} />
+            </button>
+          </div>
+
+          {rule.actions.map((action, index) => (
+            <div key={index} className="pl-4 space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] uppercase font-bold text-gray-400">{ACTION_LABELS[action.type]}</span>
+                <button
+                  onClick={() => updateRule(rule.id, { actions: rule.actions.filter((_, i) => i !== index) })}
+                  className="p-0.5 text-gray-500 hover:text-red-400"
+                  title="Remove action"
+                >
+                  <X size={10} />
+                </button>
+              </div>
+              {renderActionFields(rule, action, index)}
+            </div>
+          ))}
+
+          <select
+            value=""
+            onChange={(e) => {
+              if (!e.target.value) return;
+              const type = e.target.value as PipelineAutomationAction['type'];
+              updateRule(rule.id, { actions: [...rule.actions, defaultAction(type, stages[0]?.id || '')] });
+            }}
+            className={`ml-4 ${inputClass}`}
+          >
+            <option value="">+ Add action…</option>
+            {Object.entries(ACTION_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+        </div>
+      ))}
+
+      <button
+        onClick={handleAddRule}
+        className="text-xs text-gray-400 hover:text-white flex items-center gap-1"
+      >
+        <Zap size={12} /> <Plus size={10} /> Add automation rule
+      </button>
+    </div>
+  );
+};
+
+// --- RUN HISTORY ---
+
+const RUN_TRIGGER_LABELS: Record<PipelineAutomationTrigger['type'], string> = {
+  enter: 'On enter',
+  exit: 'On exit',
+  time_in_stage: 'Time in stage',
+};
+
+const STATUS_ICONS = {
+  success: <CheckCircle size={10} className="text-green-400 shrink-0" />,
+  skipped: <MinusCircle size={10} className="text-gray-500 shrink-0" />,
+  failed: <XCircle size={10} className="text-red-400 shrink-0" />,
+};
+
+interface AutomationRunHistoryProps {
+  itemId: string;
+  /** Stage names by id, for labelling where each run fired */
+  stageNames: Record<string, string>;
+}
+
+export const AutomationRunHistory: React.FC<AutomationRunHistoryProps> = ({ itemId, stageNames }) => {
+  const runs = getAutomationRunsForItem(itemId);
+
+  if (runs.length === 0) {
+    return <p className="text-[10px] text-gray-600">No automations have run for this item</p>;
+  }
+
+  return (
+    <div className="space-y-2 max-h-48 overflow-y-auto">
+      {runs.map(run => (
+        <div key={run.id} className="text-[10px]">
+          <div className="flex items-center justify-between text-gray-400">
+            <span className="font-bold truncate">{run.ruleName}</span>
+            <span className="text-gray-600 shrink-0 ml-2">{new Date(run.ranAt).toLocaleString()}</span>
+          </div>
+          <div className="text-gray-600">
+            {stageNames[run.stageId] || 'Removed stage'} · {RUN_TRIGGER_LABELS[run.trigger]}
+          </div>
+          {run.results.map((res, i) => (
+            <div key={i} className="flex items-center gap-1 text-gray-400 pl-1">
+              {STATUS_ICONS[res.status]}
+              <span className="truncate" title={res.detail}>{res.detail}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
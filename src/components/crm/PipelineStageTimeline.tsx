@@ -0,0 +1,90 @@
+// =============================================================================
+// PIPELINE STAGE TIMELINE — Audit trail of a pipeline item's stage moves
+// =============================================================================
+// Renders the item's append-only stage history, newest first, with who made
+// each move, why, and how long the item sat in the stage it left. Used on
+// board cards in PipelinesView and in ContactDossierView.
+// =============================================================================
+
+import React from 'react';
+import { ArrowRight, User, Zap, Clock } from 'lucide-react';
+import { PipelineItem, PipelineTemplate, PipelineTransitionActor } from '../../types';
+import { getContactById } from '../../services/contactStore';
+
+interface PipelineStageTimelineProps {
+  item: PipelineItem;
+  template: PipelineTemplate;
+  /** Show only the most recent entries */
+  limit?: number;
+}
+
+const formatActor = (actor: PipelineTransitionActor): string => {
+  switch (actor.type) {
+    case 'user':
+      return getContactById(actor.contactId)?.fullName || 'User';
+    case 'automation':
+      return `Automation: ${actor.ruleName}`;
+    case 'system':
+      return 'System';
+  }
+};
+
+const formatDuration = (ms: number): string => {
+  const hours = ms / (60 * 60 * 1000);
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))}m`;
+  if (hours < 48) return `${Math.round(hours)}h`;
+  return `${Math.round(hours / 24)}d`;
+};
+
+export const PipelineStageTimeline: React.FC<PipelineStageTimelineProps> = ({ item, template, limit }) => {
+  const history = item.stageHistory || [];
+  const stageName = (id: string | null) =>
+    id === null ? null : template.stages.find(s => s.id === id)?.name || 'Removed stage';
+
+  if (history.length === 0) {
+    return <p className="text-[10px] text-gray-600">No stage history recorded</p>;
+  }
+
+  const entries = history
+    .map((transition, index) => ({
+      transition,
+      // Time spent in the stage this move left
+      durationMs: index > 0 ? new Date(transition.at).getTime() - new Date(history[index - 1].at).getTime() : null,
+    }))
+    .reverse()
+    .slice(0, limit);
+
+  return (
+    <ol className="relative border-l border-[#333] ml-1 space-y-3">
+      {entries.map(({ transition, durationMs }) => (
+        <li key={`${transition.at}-${transition.toStageId}`} className="pl-3 text-[10px]">
+          <span className="absolute -left-[3px] mt-1 w-1.5 h-1.5 rounded-full bg-[#4433FF]" />
+          <div className="flex items-center gap-1 text-gray-300">
+            {transition.fromStageId === null ? (
+              <span>Added to <span className="font-bold text-white">{stageName(transition.toStageId)}</span></span>
+            ) : (
+              <>
+                <span>{stageName(transition.fromStageId)}</span>
+                <ArrowRight size={10} className="text-gray-500" />
+                <span className="font-bold text-white">{stageName(transition.toStageId)}</span>
+              </>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-x-2 text-gray-500">
+            <span>{new Date(transition.at).toLocaleString()}</span>
+            <span className="flex items-center gap-0.5">
+              {transition.actor.type === 'automation' ? <Zap size={9} /> : <User size={9} />}
+              {formatActor(transition.actor)}
+            </span>
+            {durationMs !== null && (
+              <span className="flex items-center gap-0.5" title="Time in previous stage">
+                <Clock size={9} /> {formatDuration(durationMs)}
+              </span>
+            )}
+          </div>
+          {transition.reason && <div className="text-gray-400 italic">“{transition.reason}”</div>}
+        </li>
+      ))}
+    </ol>
+  );
+};
@@ -2,7 +2,9 @@
 // PIPELINES VIEW — Pipeline Board and Template Management
 // =============================================================================
 // Board tab: Kanban-style view of contacts moving through pipeline stages.
-// Templates tab: Create and edit pipeline templates with stages and automation.
+// Analytics tab: Conversion funnel, stage velocity and forecast per template.
+// Templates tab: Create and edit pipeline templates with stages and automation
+// rules (see PipelineAutomationEditor).
 // =============================================================================
 
 import React, { useState, useMemo } from 'react';
@@ -25,6 +27,10 @@ import {
 } from '../../services/pipelineStore';
 import { getAllContacts } from '../../services/contactStore';
 import { getContactById } from '../../services/contactStore';
+import { getStageRules, describeAutomationTrigger } from '../../services/pipelineAutomation';
+import { PipelineAutomationEditor, AutomationRunHistory } from './PipelineAutomationEditor';
+import { PipelineAnalyticsPanel } from './PipelineAnalyticsPanel';
+import { PipelineStageTimeline } from './PipelineStageTimeline';
 import {
   Layout,
   Plus,
@@ -35,6 +41,9 @@ import {
   ChevronUp,
   ChevronDown,
   ArrowRight,
+  Zap,
+  BarChart3,
+  History,
 } from 'lucide-react';
 
 // --- PROPS ---
@@ -45,7 +54,7 @@ interface PipelinesViewProps {
   onNavigateToDossier: () => void;
 }
 
-type Tab = 'board' | 'templates';
+type Tab = 'board' | 'analytics' | 'templates';
 
 // --- COMPONENT ---
 
@@ -71,7 +80,7 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
     name: string;
     description: string;
     domain: RelationshipDomain;
-    stages: (Omit<PipelineStageTemplate, 'id' | 'order'> & { tempId: string })[];
+    stages: (Omit<PipelineStageTemplate, 'id' | 'order'> & { tempId: string; stageId?: string })[];
   } | null>(null);
 
   const templates = getPipelineTemplates();
@@ -88,6 +97,10 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
 
   const [newItemContactId, setNewItemContactId] = useState<string>('');
   const [newItemLabel, setNewItemLabel] = useState<string>('');
+  const [newItemValue, setNewItemValue] = useState<string>('');
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null);
+  const [moveReason, setMoveReason] = useState<string>('');
+  const [moveReasonStageId, setMoveReasonStageId] = useState<string>('');
 
   const handleAddToPipeline = () => {
     if (!selectedTemplateId || !newItemContactId) return;
@@ -96,18 +109,33 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
       templateId: selectedTemplateId,
       contactId: newItemContactId,
       label: newItemLabel.trim() || undefined,
+      value: newItemValue ? parseFloat(newItemValue) : undefined,
     });
 
     setNewItemContactId('');
     setNewItemLabel('');
+    setNewItemValue('');
     setRefreshKey(k => k + 1);
   };
 
-  const handleMoveItem = (itemId: string, newStageId: string) => {
-    movePipelineItem(itemId, newStageId);
+  const handleMoveItem = (itemId: string, newStageId: string, reason?: string) => {
+    movePipelineItem(itemId, newStageId, { reason });
     setRefreshKey(k => k + 1);
   };
 
+  const handleToggleHistory = (itemId: string) => {
+    setHistoryItemId(historyItemId === itemId ? null : itemId);
+    setMoveReason('');
+    setMoveReasonStageId('');
+  };
+
+  const handleMoveWithReason = (itemId: string) => {
+    if (!moveReasonStageId) return;
+    handleMoveItem(itemId, moveReasonStageId, moveReason);
+    setMoveReason('');
+    setMoveReasonStageId('');
+  };
+
   // Drag and drop handlers
   const handleDragStart = (e: React.DragEvent, itemId: string) => {
     setDraggedItemId(itemId);
@@ -178,7 +206,10 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
         color: stage.color || '',
         autoTaskTitle: stage.autoTaskTitle || '',
         autoTaskDueInDays: stage.autoTaskDueInDays,
+        probability: stage.probability,
+        automations: stage.automations || [],
         tempId: `temp_${index}`,
+        stageId: stage.id,
       })),
     });
   };
@@ -190,7 +221,7 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
       description: '',
       domain: 'business',
       stages: [
-        { name: 'Stage 1', color: '', autoTaskTitle: '', tempId: 'temp_0' },
+        { name: 'Stage 1', color: '', autoTaskTitle: '', automations: [], tempId: 'temp_0' },
       ],
     });
   };
@@ -214,6 +245,8 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
           color: stage.color || undefined,
           autoTaskTitle: stage.autoTaskTitle || undefined,
           autoTaskDueInDays: stage.autoTaskDueInDays,
+          probability: stage.probability,
+          automations: stage.automations?.length ? stage.automations : undefined,
         })),
       });
       setSelectedTemplateId(newTemplate.id);
@@ -228,12 +261,15 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
         description: templateForm.description || undefined,
         domain: templateForm.domain,
         stages: templateForm.stages.map((stage, index) => ({
-          id: existing.stages[index]?.id || `stage_${Date.now()}_${index}`,
+          // Keep stage ids stable across reordering: items and move rules reference them
+          id: stage.stageId || `stage_${Date.now()}_${index}`,
           name: stage.name,
           order: index,
           color: stage.color || undefined,
           autoTaskTitle: stage.autoTaskTitle || undefined,
           autoTaskDueInDays: stage.autoTaskDueInDays,
+          probability: stage.probability,
+          automations: stage.automations?.length ? stage.automations : undefined,
         })),
         updatedAt: new Date().toISOString(),
       };
@@ -268,6 +304,7 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
           name: `Stage ${templateForm.stages.length + 1}`,
           color: '',
           autoTaskTitle: '',
+          automations: [],
           tempId: `temp_${Date.now()}`,
         },
       ],
@@ -298,6 +335,26 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
 
   // --- RENDER ---
 
+  // Template selection, shared by the Board and Analytics tabs
+  const templateSelector = (
+    <div className="bg-[#0E0E0E] border border-[#2A2A2A] rounded-xl p-4">
+      <label className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-2 block">
+        Active Pipeline Template
+      </label>
+      <select
+        value={selectedTemplateId || ''}
+        onChange={(e) => setSelectedTemplateId(e.target.value || null)}
+        className="w-full bg-[#1A1A1D] border border-[#333] rounded px-3 py-2 text-white text-sm focus:border-[#4433FF] outline-none"
+      >
+        {templates.map(t => (
+          <option key={t.id} value={t.id}>
+            {t.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
   return (
     <div className="space-y-6 pb-20">
       {/* Header */}
@@ -320,6 +377,16 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
         >
           Board
         </button>
+        <button
+          onClick={() => setActiveTab('analytics')}
+          className={`px-4 py-2 text-sm font-bold transition-colors flex items-center gap-2 ${
+            activeTab === 'analytics'
+              ? 'text-[#4433FF] border-b-2 border-[#4433FF]'
+              : 'text-gray-500 hover:text-white'
+          }`}
+        >
+          <BarChart3 size={14} /> Analytics
+        </button>
         <button
           onClick={() => setActiveTab('templates')}
           className={`px-4 py-2 text-sm font-bold transition-colors ${
@@ -335,30 +402,14 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
       {/* Board Tab */}
       {activeTab === 'board' && (
         <div className="space-y-6">
-          {/* Template Selection */}
-          <div className="bg-[#0E0E0E] border border-[#2A2A2A] rounded-xl p-4">
-            <label className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-2 block">
-              Active Pipeline Template
-            </label>
-            <select
-              value={selectedTemplateId || ''}
-              onChange={(e) => setSelectedTemplateId(e.target.value || null)}
-              className="w-full bg-[#1A1A1D] border border-[#333] rounded px-3 py-2 text-white text-sm focus:border-[#4433FF] outline-none"
-            >
-              {templates.map(t => (
-                <option key={t.id} value={t.id}>
-                  {t.name}
-                </option>
-              ))}
-            </select>
-          </div>
+          {templateSelector}
 
           {selectedTemplate ? (
             <>
               {/* Add to Pipeline */}
               <div className="bg-[#0E0E0E] border border-[#2A2A2A] rounded-xl p-4">
                 <h3 className="text-sm font-bold text-white mb-3">+ Add to Pipeline</h3>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
                   <select
                     value={newItemContactId}
                     onChange={(e) => setNewItemContactId(e.target.value)}
@@ -378,6 +429,14 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
                     placeholder="Deal/Case name (optional)"
                     className="bg-[#1A1A1D] border border-[#333] rounded px-3 py-2 text-white text-sm focus:border-[#4433FF] outline-none"
                   />
+                  <input
+                    type="number"
+                    min={0}
+                    value={newItemValue}
+                    onChange={(e) => setNewItemValue(e.target.value)}
+                    placeholder="Value (optional)"
+                    className="bg-[#1A1A1D] border border-[#333] rounded px-3 py-2 text-white text-sm focus:border-[#4433FF] outline-none"
+                  />
                   <button
                     onClick={handleAddToPipeline}
                     disabled={!newItemContactId}
@@ -420,6 +479,15 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
                                 />
                               )}
                               <h3 className="text-sm font-bold text-white">{stage.name}</h3>
+                              {getStageRules(stage).length > 0 && (
+                                <span
+                                  title={getStageRules(stage)
+                                    .map(r => `${r.name}: ${describeAutomationTrigger(r.trigger)}`)
+                                    .join('\n')}
+                                >
+                                  <Zap size={12} className="text-[#4433FF]" />
+                                </span>
+                              )}
                             </div>
                             <span className="text-xs text-gray-500 bg-[#1A1A1D] px-2 py-1 rounded">
                               {stageItems.length}
@@ -488,6 +556,9 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
                                       {item.status}
                                     </span>
                                     <span className="text-[10px] text-gray-600">
+                                      {item.value !== undefined && (
+                                        <span className="text-gray-400 mr-2">${item.value.toLocaleString()}</span>
+                                      )}
                                       {new Date(item.createdAt).toLocaleDateString()}
                                     </span>
                                   </div>
@@ -509,6 +580,70 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
                                         </option>
                                       ))}
                                   </select>
+
+                                  {/* Stage & Automation History */}
+                                  <button
+                                    onClick={() => handleToggleHistory(item.id)}
+                                    onMouseDown={(e) => e.stopPropagation()}
+                                    className="mt-2 text-[10px] text-gray-500 hover:text-white flex items-center gap-1"
+                                  >
+                                    <History size={10} /> {historyItemId === item.id ? 'Hide' : 'Show'} history
+                                  </button>
+                                  {historyItemId === item.id && (
+                                    <div
+                                      className="mt-2 pt-2 border-t border-[#333] space-y-3"
+                                      onMouseDown={(e) => e.stopPropagation()}
+                                    >
+                                      {/* Move with reason */}
+                                      <div className="space-y-1">
+                                        <select
+                                          value={moveReasonStageId}
+                                          onChange={(e) => setMoveReasonStageId(e.target.value)}
+                                          className="w-full bg-[#0E0E0E] border border-[#333] rounded px-2 py-1 text-xs text-white focus:border-[#4433FF] outline-none"
+                                        >
+                                          <option value="">Move to…</option>
+                                          {selectedTemplate.stages
+                                            .filter(s => s.id !== item.currentStageId)
+                                            .sort((a, b) => a.order - b.order)
+                                            .map(s => (
+                                              <option key={s.id} value={s.id}>{s.name}</option>
+                                            ))}
+                                        </select>
+                                        <div className="flex gap-1">
+                                          <input
+                                            type="text"
+                                            value={moveReason}
+                                            onChange={(e) => setMoveReason(e.target.value)}
+                                            onKeyDown={(e) => e.key === 'Enter' && handleMoveWithReason(item.id)}
+                                            placeholder="Reason (optional)"
+                                            className="flex-1 min-w-0 bg-[#0E0E0E] border border-[#333] rounded px-2 py-1 text-xs text-white focus:border-[#4433FF] outline-none"
+                                          />
+                                          <button
+                                            onClick={() => handleMoveWithReason(item.id)}
+                                            disabled={!moveReasonStageId}
+                                            className="px-2 py-1 bg-[#4433FF] hover:bg-[#5544FF] disabled:bg-[#333] disabled:cursor-not-allowed text-white text-xs font-bold rounded"
+                                          >
+                                            Move
+                                          </button>
+                                        </div>
+                                      </div>
+
+                                      <div>
+                                        <div className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-2">Stage History</div>
+                                        <PipelineStageTimeline item={item} template={selectedTemplate} />
+                                      </div>
+
+                                      <div>
+                                        <div className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-2 flex items-center gap-1">
+                                          <Zap size={10} /> Automations
+                                        </div>
+                                        <AutomationRunHistory
+                                          itemId={item.id}
+                                          stageNames={Object.fromEntries(selectedTemplate.stages.map(s => [s.id, s.name]))}
+                                        />
+                                      </div>
+                                    </div>
+                                  )}
                                 </div>
                               );
                             })}
@@ -527,6 +662,21 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
         </div>
       )}
 
+      {/* Analytics Tab */}
+      {activeTab === 'analytics' && (
+        <div className="space-y-6">
+          {templateSelector}
+
+          {selectedTemplate ? (
+            <PipelineAnalyticsPanel template={selectedTemplate} refreshKey={refreshKey} />
+          ) : (
+            <div className="text-center py-12 text-gray-500">
+              No pipeline template selected
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Templates Tab */}
       {activeTab === 'templates' && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -717,7 +867,7 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
                             <X size={14} />
                           </button>
                         </div>
-                        <div className="grid grid-cols-2 gap-2">
+                        <div className="grid grid-cols-3 gap-2">
                           <input
                             type="text"
                             value={stage.autoTaskTitle}
@@ -742,7 +892,34 @@ export const PipelinesView: React.FC<PipelinesViewProps> = ({
                             className="bg-[#0E0E0E] border border-[#333] rounded px-2 py-1 text-white text-xs focus:border-[#4433FF] outline-none"
                             placeholder="Due in days"
                           />
+                          <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={stage.probability !== undefined ? Math.round(stage.probability * 100) : ''}
+                            onChange={(e) => {
+                              const newStages = [...templateForm.stages];
+                              newStages[index].probability = e.target.value
+                                ? Math.min(100, Math.max(0, parseInt(e.target.value, 10))) / 100
+                                : undefined;
+                              setTemplateForm({ ...templateForm, stages: newStages });
+                            }}
+                            className="bg-[#0E0E0E] border border-[#333] rounded px-2 py-1 text-white text-xs focus:border-[#4433FF] outline-none"
+                            placeholder="Win % (auto)"
+                            title="Win probability used for the forecast"
+                          />
                         </div>
+                        <PipelineAutomationEditor
+                          rules={stage.automations || []}
+                          stages={templateForm.stages
+                            .filter(s => s.stageId)
+                            .map(s => ({ id: s.stageId!, name: s.name }))}
+                          onChange={(automations) => {
+                            const newStages = [...templateForm.stages];
+                            newStages[index] = { ...newStages[index], automations };
+                            setTemplateForm({ ...templateForm, stages: newStages });
+                          }}
+                        />
                       </div>
                     ))}
                   </div>
@@ -3,7 +3,8 @@
 // =============================================================================
 // Clean, modular project view with:
 // - Overview: Banner, description, dates, stats, contacts
-// - Tasks: Asana-style sections with task management
+// - Tasks: Asana-style sections with priorities, subtasks, dependencies and
+//   time estimates
 // - Files: Attachments
 // - Scans: Frame analysis
 // - Settings: Edit project, upload banner
@@ -26,9 +27,14 @@ import {
   Calendar as CalendarIcon,
   Users,
   Download,
-  Image as ImageIcon
+  Image as ImageIcon,
+  ChevronRight,
+  ChevronDown,
+  Lock,
+  Link2,
+  Timer
 } from 'lucide-react';
-import type { Project, ProjectSection as ProjectSectionType, Task, Contact } from '../../types';
+import type { Project, ProjectSection as ProjectSectionType, Task, TaskPriority, Contact } from '../../types';
 import { TabNavigation, TabItem } from '../ui/TabNavigation';
 import { DatePicker } from '../DatePicker';
 import {
@@ -38,6 +44,7 @@ import {
   createSection,
   deleteSection,
   getTaskLinksForSection,
+  getTaskLinksForProject,
   addTaskToProjectSection,
   moveTaskBetweenSections,
   removeTaskFromProject,
@@ -51,7 +58,19 @@ import {
   removeGoalFromProject
 } from '../../services/projectStore';
 import { getContactById, getContactsExcludingSelf, CONTACT_ZERO } from '../../services/contactStore';
-import { getTaskById, createTask } from '../../services/taskStore';
+import {
+  getTaskById,
+  createTask,
+  updateTask,
+  updateTaskStatus,
+  getTaskPriority,
+  getSubtasks,
+  getSubtaskProgress,
+  getTaskBlockers,
+  addTaskDependency,
+  removeTaskDependency,
+  formatTaskDuration
+} from '../../services/taskStore';
 
 interface ProjectDetailViewProps {
   projectId: string;
@@ -677,6 +696,219 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
   );
 };
 
+// =============================================================================
+// PROJECT TASK ROW
+// =============================================================================
+
+const PRIORITY_ORDER: TaskPriority[] = ['low', 'medium', 'high', 'critical'];
+
+const PRIORITY_COLORS: Record<TaskPriority, string> = {
+  low: 'text-gray-500 border-gray-600/40',
+  medium: 'text-blue-300 border-blue-500/30',
+  high: 'text-orange-400 border-orange-500/40',
+  critical: 'text-red-400 border-red-500/40',
+};
+
+const parseMinutes = (value: string): number | null => {
+  const minutes = parseInt(value, 10);
+  return isNaN(minutes) || minutes < 0 ? null : minutes;
+};
+
+interface ProjectTaskRowProps {
+  task: Task;
+  /** Other tasks in the project that can be picked as blockers */
+  projectTasks: Task[];
+  depth?: number;
+  onRefresh: () => void;
+}
+
+const ProjectTaskRow: React.FC<ProjectTaskRowProps> = ({ task, projectTasks, depth = 0, onRefresh }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState('');
+
+  const priority = getTaskPriority(task);
+  const subtasks = getSubtasks(task.id);
+  const progress = getSubtaskProgress(task.id);
+  const blockers = getTaskBlockers(task.id);
+  const blockerCandidates = projectTasks.filter(
+    t => t.id !== task.id && !blockers.some(b => b.id === t.id)
+  );
+
+  const handleToggle = () => {
+    updateTaskStatus(task.id, task.status === 'done' ? 'open' : 'done');
+    onRefresh();
+  };
+
+  const handleCyclePriority = () => {
+    const next = PRIORITY_ORDER[(PRIORITY_ORDER.indexOf(priority) + 1) % PRIORITY_ORDER.length];
+    updateTask(task.id, { priority: next });
+    onRefresh();
+  };
+
+  const handleAddSubtask = () => {
+    const title = newSubtaskTitle.trim();
+    if (!title) return;
+    createTask({ contactId: task.contactId, title, parentTaskId: task.id });
+    setNewSubtaskTitle('');
+    onRefresh();
+  };
+
+  const handleAddBlocker = (blockerId: string) => {
+    if (!blockerId) return;
+    if (!addTaskDependency(task.id, blockerId)) {
+      alert('That dependency would create a cycle.');
+    }
+    onRefresh();
+  };
+
+  const handleRemoveBlocker = (blockerId: string) => {
+    removeTaskDependency(task.id, blockerId);
+    onRefresh();
+  };
+
+  const handleDurationChange = (field: 'estimatedMinutes' | 'actualMinutes', value: string) => {
+    updateTask(task.id, { [field]: parseMinutes(value) });
+    onRefresh();
+  };
+
+  return (
+    <div className={depth > 0 ? 'ml-4 border-l border-[#2A2A2A] pl-2' : ''}>
+      <div className="flex items-start gap-2 p-2 bg-[#0E0E0E] border border-[#2A2A2A] rounded hover:border-[#4433FF]/50 transition-colors group">
+        <button onClick={handleToggle} className="mt-0.5 flex-shrink-0">
+          {task.status === 'done' ? (
+            <CheckCircle size={16} className="text-green-500" />
+          ) : task.status === 'blocked' ? (
+            <Lock size={16} className="text-red-400" />
+          ) : (
+            <Circle size={16} className="text-gray-600 group-hover:text-gray-400" />
+          )}
+        </button>
+        <div className="flex-1 min-w-0">
+          <div className={`text-sm ${task.status === 'done' ? 'text-gray-600 line-through' : 'text-white'}`}>
+            {task.title}
+          </div>
+          <div className="flex items-center gap-2 mt-1 flex-wrap">
+            <button
+              onClick={handleCyclePriority}
+              className={`text-[9px] px-1.5 py-0.5 rounded border font-bold uppercase ${PRIORITY_COLORS[priority]}`}
+              title="Change priority"
+            >
+              {priority}
+            </button>
+            {progress.total > 0 && (
+              <span className="text-[10px] text-gray-500">{progress.done}/{progress.total} subtasks</span>
+            )}
+            {task.status === 'blocked' && blockers.length > 0 && (
+              <span className="text-[10px] text-red-400/80 truncate">
+                Waiting on {blockers.filter(b => b.status !== 'done').map(b => b.title).join(', ')}
+              </span>
+            )}
+            {task.estimatedMinutes != null && (
+              <span className="flex items-center gap-1 text-[10px] text-gray-500">
+                <Timer size={10} />
+                {formatTaskDuration(task.actualMinutes)} / {formatTaskDuration(task.estimatedMinutes)}
+              </span>
+            )}
+          </div>
+        </div>
+        <button
+          onClick={() => setIsExpanded(v => !v)}
+          className="p-0.5 text-gray-600 hover:text-white transition-colors"
+        >
+          {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-1 mb-2 p-2 bg-[#141416] border border-[#2A2A2A] rounded space-y-2">
+          {/* Dependencies */}
+          <div>
+            <div className="flex items-center gap-1 text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1">
+              <Link2 size={10} /> Blocked by
+            </div>
+            <div className="flex flex-wrap gap-1 mb-1">
+              {blockers.map(blocker => (
+                <span
+                  key={blocker.id}
+                  className={`flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded bg-[#0E0E0E] border border-[#333] ${
+                    blocker.status === 'done' ? 'text-gray-600 line-through' : 'text-gray-300'
+                  }`}
+                >
+                  {blocker.title}
+                  <button onClick={() => handleRemoveBlocker(blocker.id)} className="hover:text-red-400">
+                    <X size={10} />
+                  </button>
+                </span>
+              ))}
+            </div>
+            {blockerCandidates.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => handleAddBlocker(e.target.value)}
+                className="w-full bg-[#0E0E0E] border border-[#2A2A2A] rounded px-2 py-1 text-xs text-gray-300 outline-none focus:border-[#4433FF]"
+              >
+                <option value="">+ Add dependency…</option>
+                {blockerCandidates.map(candidate => (
+                  <option key={candidate.id} value={candidate.id}>{candidate.title}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {/* Durations (minutes) */}
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-[10px] text-gray-500">
+              Estimate (min)
+              <input
+                type="number"
+                min={0}
+                defaultValue={task.estimatedMinutes ?? ''}
+                onBlur={(e) => handleDurationChange('estimatedMinutes', e.target.value)}
+                className="w-full mt-0.5 bg-[#0E0E0E] border border-[#2A2A2A] rounded px-2 py-1 text-xs text-white outline-none focus:border-[#4433FF]"
+              />
+            </label>
+            <label className="text-[10px] text-gray-500">
+              Actual (min)
+              <input
+                type="number"
+                min={0}
+                defaultValue={task.actualMinutes ?? ''}
+                onBlur={(e) => handleDurationChange('actualMinutes', e.target.value)}
+                className="w-full mt-0.5 bg-[#0E0E0E] border border-[#2A2A2A] rounded px-2 py-1 text-xs text-white outline-none focus:border-[#4433FF]"
+              />
+            </label>
+          </div>
+
+          {/* Add Subtask */}
+          <input
+            type="text"
+            value={newSubtaskTitle}
+            onChange={(e) => setNewSubtaskTitle(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddSubtask()}
+            placeholder="+ Add subtask"
+            className="w-full bg-[#0E0E0E] border border-[#2A2A2A] rounded px-2 py-1 text-white text-xs placeholder:text-gray-600 focus:border-[#4433FF] outline-none"
+          />
+        </div>
+      )}
+
+      {/* Subtasks */}
+      {subtasks.length > 0 && (
+        <div className="mt-1 space-y-1">
+          {subtasks.map(subtask => (
+            <ProjectTaskRow
+              key={subtask.id}
+              task={subtask}
+              projectTasks={projectTasks}
+              depth={depth + 1}
+              onRefresh={onRefresh}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // =============================================================================
 // TASKS TAB (Asana-style sections)
 // =============================================================================
@@ -729,14 +961,15 @@ const TasksTab: React.FC<TasksTabProps> = ({ projectId, sections, onRefresh }) =
     onRefresh();
   };
 
-  const handleToggleTask = (taskId: string, currentStatus: string) => {
-    const newStatus = currentStatus === 'done' ? 'open' : 'done';
-    const task = getTaskById(taskId);
-    if (task) {
-      task.status = newStatus as any;
-      onRefresh();
-    }
-  };
+  // Every task in the project (including subtasks) can be picked as a blocker
+  const collectWithSubtasks = (task: Task): Task[] => [
+    task,
+    ...getSubtasks(task.id).flatMap(collectWithSubtasks),
+  ];
+  const projectTasks = getTaskLinksForProject(projectId)
+    .map(link => getTaskById(link.taskId))
+    .filter((t): t is Task => !!t)
+    .flatMap(collectWithSubtasks);
 
   return (
     <div className="space-y-6">
@@ -791,7 +1024,8 @@ const TasksTab: React.FC<TasksTabProps> = ({ projectId, sections, onRefresh }) =
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         {sections.map(section => {
           const taskLinks = getTaskLinksForSection(section.id);
-          const tasks = taskLinks.map(link => getTaskById(link.taskId)).filter(Boolean) as Task[];
+          const tasks = (taskLinks.map(link => getTaskById(link.taskId)).filter(Boolean) as Task[])
+            .filter(task => !task.parentTaskId);
 
           return (
             <div key={section.id} className="bg-[#1A1A1D] border border-[#333] rounded-xl p-4">
@@ -809,26 +1043,12 @@ const TasksTab: React.FC<TasksTabProps> = ({ projectId, sections, onRefresh }) =
               {/* Tasks List */}
               <div className="space-y-2 mb-3">
                 {tasks.map(task => (
-                  <div
+                  <ProjectTaskRow
                     key={task.id}
-                    className="flex items-start gap-2 p-2 bg-[#0E0E0E] border border-[#2A2A2A] rounded hover:border-[#4433FF]/50 transition-colors group"
-                  >
-                    <button
-                      onClick={() => handleToggleTask(task.id, task.status)}
-                      className="mt-0.5 flex-shrink-0"
-                    >
-                      {task.status === 'done' ? (
-                        <CheckCircle size={16} className="text-green-500" />
-                      ) : (
-                        <Circle size={16} className="text-gray-600 group-hover:text-gray-400" />
-                      )}
-                    </button>
-                    <div className="flex-1">
-                      <div className={`text-sm ${task.status === 'done' ? 'text-gray-600 line-through' : 'text-white'}`}>
-                        {task.title}
-                      </div>
-                    </div>
-                  </div>
+                    task={task}
+                    projectTasks={projectTasks}
+                    onRefresh={onRefresh}
+                  />
                 ))}
               </div>
 
@@ -0,0 +1,74 @@
+// =============================================================================
+// RECURRENCE PICKER — Choose how often a task repeats
+// =============================================================================
+// Offers the common presets plus a free-form RFC 5545 RRULE field.
+// The value is an RRULE string, or '' for a one-off task.
+// =============================================================================
+
+import React, { useState } from 'react';
+import { Repeat } from 'lucide-react';
+import { RECURRENCE_PRESETS, describeRRule, isValidRRule } from '../../lib/recurrence/rrule';
+
+interface RecurrencePickerProps {
+  value: string;
+  onChange: (rule: string) => void;
+  className?: string;
+}
+
+const CUSTOM_OPTION = 'custom';
+
+export const RecurrencePicker: React.FC<RecurrencePickerProps> = ({
+  value,
+  onChange,
+  className = '',
+}) => {
+  const preset = RECURRENCE_PRESETS.find(p => p.rule === value);
+  const [isCustom, setIsCustom] = useState(!!value && !preset);
+
+  const selected = isCustom ? CUSTOM_OPTION : preset?.id || '';
+  const customInvalid = isCustom && !!value && !isValidRRule(value);
+
+  const handleSelect = (id: string) => {
+    if (id === CUSTOM_OPTION) {
+      setIsCustom(true);
+      return;
+    }
+    setIsCustom(false);
+    onChange(RECURRENCE_PRESETS.find(p => p.id === id)?.rule || '');
+  };
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      <div className="flex items-center gap-2">
+        <Repeat size={12} className="text-gray-500 shrink-0" />
+        <select
+          value={selected}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 bg-[#0a111d] border border-[#112035] rounded-lg px-2 py-1.5 text-gray-200 text-xs focus:border-[#4433FF] outline-none"
+        >
+          <option value="">Does not repeat</option>
+          {RECURRENCE_PRESETS.map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+          <option value={CUSTOM_OPTION}>Custom RRULE…</option>
+        </select>
+      </div>
+      {isCustom && (
+        <>
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => onChange(e.target.value.trim())}
+            placeholder="FREQ=MONTHLY;BYDAY=1MO"
+            className={`w-full bg-[#0a111d] border rounded-lg px-2 py-1.5 text-gray-200 text-xs font-mono outline-none ${
+              customInvalid ? 'border-red-500/60' : 'border-[#112035] focus:border-[#4433FF]'
+            }`}
+          />
+          <p className={`text-[10px] ${customInvalid ? 'text-red-400' : 'text-gray-500'}`}>
+            {customInvalid ? 'Unsupported rule' : value ? describeRRule(value) : 'Enter an RFC 5545 rule'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
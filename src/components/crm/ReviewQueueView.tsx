@@ -0,0 +1,136 @@
+// =============================================================================
+// REVIEW QUEUE VIEW — Today's spaced review of flagged notes and intel
+// =============================================================================
+// One card at a time: the prompt first, then the content on reveal, then a
+// "forgot" / "remembered" answer that schedules the next review.
+// =============================================================================
+
+import React, { useEffect, useState } from 'react';
+import { Eye, RotateCcw, Check, X, FileText, User } from 'lucide-react';
+import {
+  getReviewQueue,
+  recordReview,
+  unflagReviewItem,
+  subscribeReviewItems,
+  type ReviewCard,
+} from '../../services/reviewStore';
+import { scheduleReview, type ReviewOutcome } from '../../lib/review/sm2';
+import { getTodayKey } from '../../services/dailyNoteStore';
+
+const formatInterval = (days: number): string =>
+  days < 30 ? `${days}d` : days < 365 ? `${Math.round(days / 30)}mo` : `${Math.round(days / 365)}y`;
+
+export const ReviewQueueView: React.FC = () => {
+  const [, setVersion] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const [reviewedToday, setReviewedToday] = useState(0);
+
+  useEffect(() => subscribeReviewItems(() => setVersion(v => v + 1)), []);
+
+  const today = getTodayKey();
+  let queue: ReviewCard[] = [];
+  try {
+    queue = getReviewQueue(today);
+  } catch (e) {
+    console.error('ReviewQueueView error:', e);
+  }
+  const card = queue[0];
+
+  const handleAnswer = (outcome: ReviewOutcome) => {
+    if (!card) return;
+    recordReview(card.item.id, outcome, today);
+    setRevealed(false);
+    setReviewedToday(n => n + 1);
+  };
+
+  const handleUnflag = () => {
+    if (!card) return;
+    unflagReviewItem(card.item.id);
+    setRevealed(false);
+  };
+
+  const nextInterval = (outcome: ReviewOutcome) =>
+    card ? formatInterval(scheduleReview(card.item.schedule, outcome, today).intervalDays) : '';
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        {queue.length} item{queue.length !== 1 ? 's' : ''} due
+        {reviewedToday > 0 && ` · ${reviewedToday} reviewed`}
+      </p>
+
+      {!card ? (
+        <div className="bg-[#0E0E0E] border border-[#2A2A2A] rounded-xl p-8 text-center">
+          <div className="text-sm text-gray-500">Nothing to review today</div>
+          <div className="text-[10px] text-gray-600 mt-1">
+            Flag notes, passages or contact intel for review and they will come back here
+          </div>
+        </div>
+      ) : (
+        <div className="bg-[#0E0E0E] border border-[#2A2A2A] rounded-xl p-5 space-y-4">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2 text-[10px] font-bold text-gray-500 uppercase tracking-wider min-w-0">
+              {card.contactId ? <User size={12} className="text-purple-400 shrink-0" /> : <FileText size={12} className="text-blue-400 shrink-0" />}
+              <span className="truncate">{card.context}</span>
+              {card.overdueDays > 0 && (
+                <span className="text-[8px] px-1.5 py-0.5 bg-orange-500/20 text-orange-400 rounded shrink-0">
+                  {card.overdueDays}d overdue
+                </span>
+              )}
+            </div>
+            <button
+              onClick={handleUnflag}
+              className="text-[10px] text-gray-600 hover:text-gray-300 transition-colors shrink-0"
+              title="Stop reviewing this item"
+            >
+              Unflag
+            </button>
+          </div>
+
+          <div className="text-base font-bold text-white">{card.title}</div>
+
+          {revealed ? (
+            <>
+              <p className="text-sm text-gray-300 whitespace-pre-wrap line-clamp-6">{card.content || 'Empty note'}</p>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => handleAnswer('forgot')}
+                  className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg border border-red-500/40 text-red-400 hover:bg-red-500/10 text-xs font-bold uppercase tracking-wider transition-colors"
+                >
+                  <X size={14} />
+                  Forgot
+                  <span className="text-[10px] font-normal text-red-400/60">{nextInterval('forgot')}</span>
+                </button>
+                <button
+                  onClick={() => handleAnswer('remembered')}
+                  className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg border border-green-500/40 text-green-400 hover:bg-green-500/10 text-xs font-bold uppercase tracking-wider transition-colors"
+                >
+                  <Check size={14} />
+                  Remembered
+                  <span className="text-[10px] font-normal text-green-400/60">{nextInterval('remembered')}</span>
+                </button>
+              </div>
+            </>
+          ) : (
+            <button
+              onClick={() => setRevealed(true)}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg border border-[#0043ff]/50 text-[#5577ff] hover:bg-[#0043ff]/10 text-xs font-bold uppercase tracking-wider transition-colors"
+            >
+              <Eye size={14} />
+              Show
+            </button>
+          )}
+
+          {card.item.reviewCount > 0 && (
+            <div className="flex items-center gap-1 text-[10px] text-gray-600">
+              <RotateCcw size={10} />
+              Reviewed {card.item.reviewCount}×{card.item.schedule.lapses > 0 && `, forgotten ${card.item.schedule.lapses}×`}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewQueueView;
@@ -30,6 +30,10 @@ import {
   Command,
   Crown,
   LogOut,
+  RefreshCw,
+  Cloud,
+  Upload,
+  FolderArchive,
 } from 'lucide-react';
 import { appConfig } from '../../config/appConfig';
 import {
@@ -67,6 +71,19 @@ import {
   handleCheckoutSuccess,
   getAvailableUpgrades,
 } from '../../api/stripeApi';
+import {
+  getSyncState,
+  subscribeSyncState,
+  runSync,
+  resolveSyncConflict,
+  getSyncTableLabel,
+  describeConflict,
+  type ConflictResolution,
+  type SyncState,
+} from '../../lib/sync/syncEngine';
+import { exportWorkspaceJSON, exportMarkdownVault } from '../../services/workspaceExportService';
+import { downloadFile } from '../../lib/export/download';
+import { WorkspaceRestoreModal } from './WorkspaceRestoreModal';
 
 type SettingsTab = 'profile' | 'billing' | 'appearance' | 'notifications' | 'integrations' | 'privacy' | 'help';
 
@@ -370,6 +387,128 @@ const BillingSection: React.FC<BillingSectionProps> = ({ user }) => {
   );
 };
 
+// Cloud Sync Section Component
+const SYNC_STATUS_LABELS: Record<SyncState['status'], string> = {
+  idle: 'Up to date',
+  syncing: 'Syncing…',
+  offline: 'Offline — changes are saved locally',
+  error: 'Last sync failed',
+  disabled: 'Not connected — sign in to enable cloud sync',
+};
+
+const SyncSection: React.FC = () => {
+  const [syncState, setSyncState] = useState<SyncState>(getSyncState);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    return subscribeSyncState(() => setSyncState(getSyncState()));
+  }, []);
+
+  const handleResolve = async (id: string, resolution: ConflictResolution) => {
+    setResolvingId(id);
+    await resolveSyncConflict(id, resolution);
+    setResolvingId(null);
+  };
+
+  const summarize = (value: unknown): string => {
+    if (value === null || value === undefined) return 'Deleted';
+    const json = JSON.stringify(value);
+    return json.length > 160 ? `${json.slice(0, 160)}…` : json;
+  };
+
+  return (
+    <div className="glass-card rounded-lg p-6 border border-[#1f2f45]">
+      <div className="mb-4">
+        <h3 className="text-sm font-bold text-white mb-1">Cloud Sync</h3>
+        <p className="text-xs text-[#7fa6d1]">
+          Contacts, notes, tasks, interactions and pipeline items sync to your account. Everything keeps working offline.
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Cloud size={16} className={syncState.status === 'error' ? 'text-red-400' : 'text-[#4433FF]'} />
+          <div>
+            <div className="text-sm font-semibold text-white">{SYNC_STATUS_LABELS[syncState.status]}</div>
+            <div className="text-xs text-gray-500">
+              {syncState.lastSyncedAt
+                ? `Last synced ${new Date(syncState.lastSyncedAt).toLocaleString()}`
+                : 'Never synced'}
+              {syncState.lastError && ` · ${syncState.lastError}`}
+            </div>
+          </div>
+        </div>
+        <button
+          onClick={() => void runSync()}
+          disabled={syncState.status === 'disabled' || syncState.status === 'syncing'}
+          className="flex items-center gap-2 px-4 py-2 bg-[#4433FF] hover:bg-[#5544FF] disabled:opacity-50 text-white text-sm font-bold rounded-lg transition-colors"
+        >
+          <RefreshCw size={14} className={syncState.status === 'syncing' ? 'animate-spin' : ''} />
+          Sync now
+        </button>
+      </div>
+
+      {syncState.conflicts.length > 0 && (
+        <div className="mt-6 space-y-3">
+          <div className="flex items-center gap-2 text-xs font-bold text-yellow-400 uppercase tracking-widest">
+            <AlertTriangle size={14} />
+            {syncState.conflicts.length} conflict{syncState.conflicts.length === 1 ? '' : 's'} to resolve
+          </div>
+          {syncState.conflicts.map(conflict => (
+            <div key={conflict.id} className="p-4 bg-[#1A1A1D] border border-yellow-500/30 rounded-lg space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-semibold text-white">
+                  {getSyncTableLabel(conflict.table)}: {describeConflict(conflict)}
+                </div>
+                <div className="text-[10px] text-gray-500">
+                  Detected {new Date(conflict.detectedAt).toLocaleString()}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <div className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-1">This device</div>
+                  <pre className="text-[11px] text-[#7fa6d1] whitespace-pre-wrap break-all">{summarize(conflict.local)}</pre>
+                </div>
+                <div>
+                  <div className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-1">
+                    Cloud (v{conflict.remote.sync_version})
+                  </div>
+                  <pre className="text-[11px] text-[#7fa6d1] whitespace-pre-wrap break-all">
+                    {summarize(conflict.remote.deleted ? null : conflict.remote.data)}
+                  </pre>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleResolve(conflict.id, 'keep_local')}
+                  disabled={resolvingId === conflict.id}
+                  className="px-3 py-1.5 text-xs font-bold rounded-lg bg-[#4433FF] hover:bg-[#5544FF] text-white disabled:opacity-50"
+                >
+                  Keep this device
+                </button>
+                <button
+                  onClick={() => handleResolve(conflict.id, 'keep_remote')}
+                  disabled={resolvingId === conflict.id}
+                  className="px-3 py-1.5 text-xs font-bold rounded-lg border border-[#333] text-gray-300 hover:border-[#4433FF] disabled:opacity-50"
+                >
+                  Keep cloud
+                </button>
+                <button
+                  onClick={() => handleResolve(conflict.id, 'merge')}
+                  disabled={resolvingId === conflict.id || conflict.local === null || conflict.remote.deleted}
+                  className="px-3 py-1.5 text-xs font-bold rounded-lg border border-[#333] text-gray-300 hover:border-[#4433FF] disabled:opacity-50"
+                >
+                  Merge
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
 interface SettingsViewProps {
   selectedContactId: string;
   setSelectedContactId: (id: string) => void;
@@ -382,6 +521,7 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
   onLogout,
 }) => {
   const [activeTab, setActiveTab] = useState<SettingsTab>('profile');
+  const [showRestore, setShowRestore] = useState(false);
   const user = getContactZero();
   
   // Profile state
@@ -555,20 +695,13 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
   };
 
   const handleExportData = () => {
-    // Export all data as JSON
-    const data = {
-      contacts: JSON.parse(localStorage.getItem('framelord_contacts') || '[]'),
-      notes: JSON.parse(localStorage.getItem('framelord_notes') || '[]'),
-      tasks: JSON.parse(localStorage.getItem('framelord_tasks') || '[]'),
-      exportedAt: new Date().toISOString(),
-    };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `framelord-export-${new Date().toISOString().split('T')[0]}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    const date = new Date().toISOString().split('T')[0];
+    downloadFile(`framelord-export-${date}.json`, exportWorkspaceJSON(), 'application/json');
+  };
+
+  const handleExportVault = () => {
+    const date = new Date().toISOString().split('T')[0];
+    downloadFile(`framelord-vault-${date}.zip`, exportMarkdownVault(), 'application/zip');
   };
 
   const persistGoogleCal = (linked: boolean, email: string) => {
@@ -1229,6 +1362,8 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
         {/* INTEGRATIONS TAB */}
         {activeTab === 'integrations' && (
           <div className="space-y-6">
+            <SyncSection />
+
             {/* FrameScan API Keys - Only show if advanced settings enabled */}
             {appConfig.enableAdvancedApiSettings && (
               <SettingCard
@@ -1431,7 +1566,7 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
 
             <SettingCard
               title="Data Management"
-              description="Export or delete your data"
+              description="Back up, restore or delete your data"
             >
               <div className="space-y-4">
                 <button
@@ -1442,11 +1577,36 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                     <Download size={16} className="text-[#4433FF]" />
                     <div className="text-left">
                       <div className="text-sm font-semibold text-white">Export Data</div>
-                      <div className="text-xs text-gray-500">Download all your data as JSON</div>
+                      <div className="text-xs text-gray-500">Download a full workspace backup as JSON</div>
                     </div>
                   </div>
                   <ExternalLink size={14} className="text-gray-500" />
                 </button>
+                <button
+                  onClick={handleExportVault}
+                  className="w-full flex items-center justify-between px-4 py-3 bg-[#1A1A1D] border border-[#333] rounded-lg hover:border-[#4433FF] transition-colors"
+                >
+                  <div className="flex items-center gap-3">
+                    <FolderArchive size={16} className="text-[#4433FF]" />
+                    <div className="text-left">
+                      <div className="text-sm font-semibold text-white">Export Markdown Vault</div>
+                      <div className="text-xs text-gray-500">Notes as Obsidian-compatible Markdown (.zip)</div>
+                    </div>
+                  </div>
+                  <ExternalLink size={14} className="text-gray-500" />
+                </button>
+                <button
+                  onClick={() => setShowRestore(true)}
+                  className="w-full flex items-center justify-between px-4 py-3 bg-[#1A1A1D] border border-[#333] rounded-lg hover:border-[#4433FF] transition-colors"
+                >
+                  <div className="flex items-center gap-3">
+                    <Upload size={16} className="text-[#4433FF]" />
+                    <div className="text-left">
+                      <div className="text-sm font-semibold text-white">Restore from Backup</div>
+                      <div className="text-xs text-gray-500">Import a workspace export</div>
+                    </div>
+                  </div>
+                </button>
                 <button
                   onClick={handleDeleteAccount}
                   className="w-full flex items-center justify-between px-4 py-3 bg-[#1A1A1D] border border-red-500/30 rounded-lg hover:border-red-500/50 transition-colors"
@@ -1545,6 +1705,8 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
           </div>
         )}
       </div>
+
+      <WorkspaceRestoreModal isOpen={showRestore} onClose={() => setShowRestore(false)} />
     </div>
   );
 };
@@ -5,11 +5,22 @@
 import React, { useState, useMemo } from 'react';
 import { 
   CheckSquare, Square, Clock, Calendar,
-  ArrowRight, Filter, Search, Mic, Pencil, FileText, Map, Notebook
+  ArrowRight, Filter, Search, Mic, Pencil, FileText, Map, Notebook,
+  Flag, ListTree, Link2, Timer, ArrowUpDown
 } from 'lucide-react';
-import { getAllTasks, updateTaskStatus } from '../../services/taskStore';
+import {
+  getAllTasks,
+  updateTaskStatus,
+  queryTasks,
+  getTaskPriority,
+  getTaskById,
+  getTaskBlockers,
+  getSubtaskProgress,
+  formatTaskDuration,
+  type TaskSortKey,
+} from '../../services/taskStore';
 import { getContactById, CONTACT_ZERO } from '../../services/contactStore';
-import { Task, TaskStatus } from '../../types';
+import { Task, TaskStatus, TaskPriority } from '../../types';
 
 interface TasksViewProps {
   selectedContactId: string;
@@ -20,6 +31,22 @@ interface TasksViewProps {
 
 type StatusFilter = 'all' | TaskStatus;
 
+const PRIORITIES: TaskPriority[] = ['critical', 'high', 'medium', 'low'];
+
+const PRIORITY_STYLES: Record<TaskPriority, string> = {
+  critical: 'bg-red-500/20 text-red-400 border-red-500/30',
+  high: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
+  medium: 'bg-blue-500/10 text-blue-300 border-blue-500/20',
+  low: 'bg-gray-500/10 text-gray-400 border-gray-500/20',
+};
+
+const SORT_OPTIONS: Array<{ value: TaskSortKey; label: string }> = [
+  { value: 'due', label: 'Due date' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'estimate', label: 'Estimate' },
+  { value: 'created', label: 'Newest' },
+];
+
 export const TasksView: React.FC<TasksViewProps> = ({
   selectedContactId,
   setSelectedContactId,
@@ -29,6 +56,10 @@ export const TasksView: React.FC<TasksViewProps> = ({
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
   const [refreshKey, setRefreshKey] = useState(0);
   const [searchQuery, setSearchQuery] = useState<string>('');
+  const [sortBy, setSortBy] = useState<TaskSortKey>('due');
+  const [priorityFilter, setPriorityFilter] = useState<TaskPriority[]>([]);
+  const [hideSubtasks, setHideSubtasks] = useState(false);
+  const [onlyWithBlockers, setOnlyWithBlockers] = useState(false);
 
   const allTasks = useMemo(() => getAllTasks(), [refreshKey]);
 
@@ -42,8 +73,19 @@ export const TasksView: React.FC<TasksViewProps> = ({
       );
     }
     
-    return tasks;
-  }, [allTasks, statusFilter, searchQuery]);
+    return queryTasks(tasks, {
+      sortBy,
+      priorities: priorityFilter,
+      topLevelOnly: hideSubtasks,
+      hasBlockers: onlyWithBlockers || undefined,
+    });
+  }, [allTasks, statusFilter, searchQuery, sortBy, priorityFilter, hideSubtasks, onlyWithBlockers]);
+
+  const togglePriorityFilter = (priority: TaskPriority) => {
+    setPriorityFilter(prev =>
+      prev.includes(priority) ? prev.filter(p => p !== priority) : [...prev, priority]
+    );
+  };
 
   const stats = useMemo(() => {
     const open = allTasks.filter(t => t.status === 'open').length;
@@ -168,6 +210,47 @@ export const TasksView: React.FC<TasksViewProps> = ({
               ))}
             </div>
           </div>
+
+          {/* Priority Section */}
+          <div className="mt-6">
+            <div className="flex items-center gap-2 mb-3 px-3">
+              <Flag size={12} className="text-gray-500" />
+              <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Priority</span>
+            </div>
+            <div className="flex flex-wrap gap-1.5 px-3">
+              {PRIORITIES.map((priority) => (
+                <button
+                  key={priority}
+                  onClick={() => togglePriorityFilter(priority)}
+                  className={`text-[10px] px-2 py-1 rounded border font-bold uppercase transition-opacity ${PRIORITY_STYLES[priority]} ${
+                    priorityFilter.length === 0 || priorityFilter.includes(priority) ? '' : 'opacity-30'
+                  }`}
+                >
+                  {priority}
+                </button>
+              ))}
+            </div>
+            <div className="mt-3 space-y-1">
+              <button
+                onClick={() => setHideSubtasks(v => !v)}
+                className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+                  hideSubtasks ? 'bg-[#4433FF]/20 text-[#4433FF]' : 'text-gray-400 hover:text-white hover:bg-[#151623]'
+                }`}
+              >
+                <ListTree size={14} />
+                Hide subtasks
+              </button>
+              <button
+                onClick={() => setOnlyWithBlockers(v => !v)}
+                className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+                  onlyWithBlockers ? 'bg-[#4433FF]/20 text-[#4433FF]' : 'text-gray-400 hover:text-white hover:bg-[#151623]'
+                }`}
+              >
+                <Link2 size={14} />
+                Has dependencies
+              </button>
+            </div>
+          </div>
         </div>
 
         {/* Stats */}
@@ -210,13 +293,27 @@ export const TasksView: React.FC<TasksViewProps> = ({
       {/* MAIN CONTENT */}
       <div className="flex-1 flex flex-col overflow-hidden">
         <div className="flex-1 overflow-y-auto px-8 py-6">
-          <div className="mb-6">
-            <h2 className="text-lg font-semibold text-white mb-1">Tasks</h2>
-            {searchQuery && (
-              <span className="text-sm text-gray-500">
-                {filteredTasks.length} result{filteredTasks.length !== 1 ? 's' : ''}
-              </span>
-            )}
+          <div className="mb-6 flex items-start justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-white mb-1">Tasks</h2>
+              {searchQuery && (
+                <span className="text-sm text-gray-500">
+                  {filteredTasks.length} result{filteredTasks.length !== 1 ? 's' : ''}
+                </span>
+              )}
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-500">
+              <ArrowUpDown size={12} />
+              <select
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as TaskSortKey)}
+                className="bg-[#0A0A12] border border-[#1F2028] rounded px-2 py-1 text-gray-300 outline-none focus:border-[#4433FF]"
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
           </div>
 
           {filteredTasks.length === 0 ? (
@@ -236,6 +333,10 @@ export const TasksView: React.FC<TasksViewProps> = ({
                 const taskContact = getContactById(task.contactId);
                 if (!taskContact) return null;
                 const isContactZeroTask = task.contactId === CONTACT_ZERO.id;
+                const priority = getTaskPriority(task);
+                const parent = task.parentTaskId ? getTaskById(task.parentTaskId) : undefined;
+                const blockers = getTaskBlockers(task.id).filter(t => t.status !== 'done');
+                const subtaskProgress = getSubtaskProgress(task.id);
 
                 return (
                   <div 
@@ -267,11 +368,28 @@ export const TasksView: React.FC<TasksViewProps> = ({
 
                       {/* Task Content */}
                       <div className="flex-1 min-w-0">
-                        <p className={`text-sm ${
-                          task.status === 'done' ? 'text-gray-500 line-through' : 'text-white'
-                        }`}>
-                          {task.title}
-                        </p>
+                        {parent && (
+                          <p className="text-[10px] text-gray-600 mb-0.5 truncate">↳ {parent.title}</p>
+                        )}
+                        <div className="flex items-center gap-2">
+                          <p className={`text-sm ${
+                            task.status === 'done' ? 'text-gray-500 line-through' : 'text-white'
+                          }`}>
+                            {task.title}
+                          </p>
+                          {priority !== 'medium' && (
+                            <span className={`text-[9px] px-1.5 py-0.5 rounded border font-bold uppercase ${PRIORITY_STYLES[priority]}`}>
+                              {priority}
+                            </span>
+                          )}
+                        </div>
+
+                        {blockers.length > 0 && (
+                          <p className="flex items-center gap-1 text-[11px] text-red-400/80 mt-1">
+                            <Link2 size={10} />
+                            Waiting on {blockers.map(b => b.title).join(', ')}
+                          </p>
+                        )}
 
                         <div className="flex items-center gap-3 mt-2 flex-wrap">
                           {/* Contact */}
@@ -305,6 +423,27 @@ export const TasksView: React.FC<TasksViewProps> = ({
                             </div>
                           )}
 
+                          {/* Subtasks */}
+                          {subtaskProgress.total > 0 && (
+                            <div className="flex items-center gap-1 text-xs text-gray-500">
+                              <ListTree size={12} />
+                              {subtaskProgress.done}/{subtaskProgress.total}
+                            </div>
+                          )}
+
+                          {/* Estimate / Actual */}
+                          {(task.estimatedMinutes != null || !!task.actualMinutes) && (
+                            <div className={`flex items-center gap-1 text-xs ${
+                              task.estimatedMinutes != null && (task.actualMinutes || 0) > task.estimatedMinutes
+                                ? 'text-orange-400'
+                                : 'text-gray-500'
+                            }`}>
+                              <Timer size={12} />
+                              {formatTaskDuration(task.actualMinutes)}
+                              {task.estimatedMinutes != null && ` / ${formatTaskDuration(task.estimatedMinutes)}`}
+                            </div>
+                          )}
+
                           {/* Created Date */}
                           <div className="flex items-center gap-1 text-xs text-gray-600">
                             <Clock size={10} />
@@ -2,16 +2,32 @@
 // TOPIC VIEW — View all notes and contacts linked to a topic
 // =============================================================================
 // Shows:
-// - Topic title
+// - Topic title with its parent path
+// - Subtopics (notes and contacts of subtopics roll up into this view)
 // - "Contacts on this topic" strip with avatars
 // - "Notes on this topic" list grouped by contact
+// - Manage panel: aliases, parent topic and merge into another topic
 // =============================================================================
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { 
-  Hash, FileText, Users, Clock, ArrowRight, ArrowLeft
+  Hash, FileText, Users, Clock, ArrowRight, ArrowLeft, ChevronRight, Settings2, X, GitMerge
 } from 'lucide-react';
-import { getTopicById, getNotesForTopic, getContactIdsForTopic, getNoteCountForTopic } from '../../services/topicStore';
+import {
+  getTopicById,
+  getNotesForTopic,
+  getContactIdsForTopic,
+  getNoteCountForTopic,
+  getChildTopics,
+  getTopicAncestors,
+  getDescendantTopicIds,
+  getTopicPath,
+  getAllTopics,
+  addTopicAlias,
+  removeTopicAlias,
+  setTopicParent,
+} from '../../services/topicStore';
+import { mergeTopics } from '../../services/topicMergeService';
 import { getContactById } from '../../services/contactStore';
 import { getAllGroups, getMembers } from '../../services/groupStore';
 import { Note, Contact, Topic } from '../../types';
@@ -24,6 +40,8 @@ interface TopicViewProps {
   setSelectedContactId: (id: string) => void;
   onNavigateToDossier: () => void;
   onNavigateToGroup?: (groupId: string) => void;
+  /** Open another topic (parent, subtopic, or the survivor after a merge) */
+  onNavigateToTopic?: (topicId: string) => void;
   onBack?: () => void;
 }
 
@@ -35,16 +53,34 @@ export const TopicView: React.FC<TopicViewProps> = ({
   setSelectedContactId,
   onNavigateToDossier,
   onNavigateToGroup,
+  onNavigateToTopic,
   onBack
 }) => {
+  // Bumped after alias / parent edits so derived data re-reads the store
+  const [topicVersion, setTopicVersion] = useState(0);
+  const [showManage, setShowManage] = useState(false);
+  const [aliasInput, setAliasInput] = useState('');
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
   // Load topic
   const topic = getTopicById(topicId);
+  const ancestors = useMemo(() => getTopicAncestors(topicId), [topicId, topicVersion]);
+  const childTopics = useMemo(() => getChildTopics(topicId), [topicId, topicVersion]);
+
+  // Topics this one can move under or merge into (never itself or its subtree)
+  const otherTopics = useMemo(() => {
+    const excluded = new Set([topicId, ...getDescendantTopicIds(topicId)]);
+    return getAllTopics()
+      .filter(t => !excluded.has(t.id))
+      .map(t => ({ id: t.id, path: getTopicPath(t.id) }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }, [topicId, topicVersion]);
 
-  // Get notes for this topic
-  const notesForTopic = useMemo(() => getNotesForTopic(topicId), [topicId]);
+  // Get notes for this topic (rolled up across subtopics)
+  const notesForTopic = useMemo(() => getNotesForTopic(topicId, true), [topicId, topicVersion]);
 
-  // Get unique contacts for this topic
-  const contactIds = useMemo(() => getContactIdsForTopic(topicId), [topicId]);
+  // Get unique contacts for this topic (rolled up across subtopics)
+  const contactIds = useMemo(() => getContactIdsForTopic(topicId, true), [topicId, topicVersion]);
   
   const contacts = useMemo(() => {
     return contactIds
@@ -82,6 +118,36 @@ export const TopicView: React.FC<TopicViewProps> = ({
     onNavigateToDossier();
   };
 
+  const handleAddAlias = () => {
+    if (!aliasInput.trim()) return;
+    if (addTopicAlias(topicId, aliasInput)) {
+      setAliasInput('');
+      setTopicVersion(v => v + 1);
+    } else {
+      alert(`"${aliasInput.trim()}" is already a topic or another topic's alias. Merge the topics instead.`);
+    }
+  };
+
+  const handleSetParent = (parentId: string) => {
+    if (!setTopicParent(topicId, parentId || null)) {
+      alert('This topic cannot be moved there: a topic with the same name already exists at that level.');
+    }
+    setTopicVersion(v => v + 1);
+  };
+
+  const handleMerge = () => {
+    const target = getTopicById(mergeTargetId);
+    if (!topic || !target) return;
+    const confirmed = window.confirm(
+      `Merge #${getTopicPath(topicId)} into #${getTopicPath(target.id)}? Notes, contacts and projects tagged with it will move to #${target.label}, and "${topic.label}" will become an alias.`
+    );
+    if (!confirmed) return;
+    if (mergeTopics(target.id, topicId)) {
+      setMergeTargetId('');
+      onNavigateToTopic?.(target.id);
+    }
+  };
+
   // Format date
   const formatDate = (dateStr: string): string => {
     return new Date(dateStr).toLocaleDateString('en-US', {
@@ -132,6 +198,17 @@ export const TopicView: React.FC<TopicViewProps> = ({
             </button>
           )}
           <div className="w-3 h-3 bg-purple-500 rounded-sm" />
+          {ancestors.map(ancestor => (
+            <React.Fragment key={ancestor.id}>
+              <button
+                onClick={() => onNavigateToTopic?.(ancestor.id)}
+                className="text-sm text-gray-500 hover:text-purple-400 transition-colors"
+              >
+                {ancestor.label}
+              </button>
+              <ChevronRight size={14} className="text-gray-700" />
+            </React.Fragment>
+          ))}
           <h1 className="text-2xl font-display font-bold text-white tracking-wide flex items-center gap-2">
             <Hash size={24} className="text-purple-500" />
             {topic.label}
@@ -150,9 +227,122 @@ export const TopicView: React.FC<TopicViewProps> = ({
             <Users size={14} />
             <span>{contacts.length} contacts</span>
           </div>
+          <button
+            onClick={() => setShowManage(open => !open)}
+            className={`p-2 rounded transition-colors ${showManage ? 'bg-[#1A1A1D] text-white' : 'text-gray-500 hover:text-white hover:bg-[#1A1A1D]'}`}
+            title="Manage topic"
+          >
+            <Settings2 size={16} />
+          </button>
         </div>
       </div>
 
+      {/* MANAGE: aliases, parent, merge */}
+      {showManage && (
+        <div className="bg-[#0E0E0E] border border-[#2A2A2A] rounded-xl p-6 grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-3">Aliases</h3>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {(topic.aliases || []).length === 0 && (
+                <span className="text-xs text-gray-600 italic">Other spellings that should land here</span>
+              )}
+              {(topic.aliases || []).map(alias => (
+                <span key={alias} className="flex items-center gap-1 px-2 py-1 bg-[#1A1A1D] border border-[#333] rounded text-xs text-gray-300">
+                  #{alias}
+                  <button
+                    onClick={() => { removeTopicAlias(topicId, alias); setTopicVersion(v => v + 1); }}
+                    className="text-gray-600 hover:text-white"
+                  >
+                    <X size={10} />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <input
+                value={aliasInput}
+                onChange={(e) => setAliasInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddAlias()}
+                placeholder="e.g. selling"
+                className="flex-1 min-w-0 bg-[#1A1A1D] border border-[#333] rounded px-2 py-1.5 text-xs text-white outline-none focus:border-purple-500"
+              />
+              <button
+                onClick={handleAddAlias}
+                className="px-3 py-1.5 bg-purple-500/20 text-purple-300 border border-purple-500/30 rounded text-xs font-bold"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-3">Parent topic</h3>
+            <select
+              value={topic.parentId || ''}
+              onChange={(e) => handleSetParent(e.target.value)}
+              className="w-full bg-[#1A1A1D] border border-[#333] rounded px-2 py-1.5 text-xs text-white outline-none"
+            >
+              <option value="">None (top level)</option>
+              {otherTopics.map(t => (
+                <option key={t.id} value={t.id}>#{t.path}</option>
+              ))}
+            </select>
+            <p className="text-[10px] text-gray-600 mt-2">Path: #{topic.slug}</p>
+          </div>
+
+          <div>
+            <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-3">Merge into</h3>
+            <div className="flex gap-2">
+              <select
+                value={mergeTargetId}
+                onChange={(e) => setMergeTargetId(e.target.value)}
+                className="flex-1 min-w-0 bg-[#1A1A1D] border border-[#333] rounded px-2 py-1.5 text-xs text-white outline-none"
+              >
+                <option value="">Choose a topic…</option>
+                {otherTopics.map(t => (
+                  <option key={t.id} value={t.id}>#{t.path}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleMerge}
+                disabled={!mergeTargetId}
+                className="px-3 py-1.5 bg-red-500/10 text-red-300 border border-red-500/30 rounded text-xs font-bold flex items-center gap-1 disabled:opacity-40"
+              >
+                <GitMerge size={12} />
+                Merge
+              </button>
+            </div>
+            <p className="text-[10px] text-gray-600 mt-2">
+              Moves notes, contacts, projects and subtopics to the chosen topic.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* SUBTOPICS */}
+      {childTopics.length > 0 && (
+        <div className="bg-[#0E0E0E] border border-[#2A2A2A] rounded-xl p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <Hash size={16} className="text-purple-500" />
+            <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">
+              Subtopics
+            </h3>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {childTopics.map(child => (
+              <button
+                key={child.id}
+                onClick={() => onNavigateToTopic?.(child.id)}
+                className="px-3 py-1.5 bg-[#1A1A1D] border border-[#333] hover:border-purple-500/50 text-purple-300 hover:text-white text-xs font-bold rounded transition-colors flex items-center gap-2"
+              >
+                #{child.label}
+                <span className="text-gray-600 font-normal">{getNoteCountForTopic(child.id, true)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* GROUPS LINKED TO THIS TOPIC */}
       {linkedGroups.length > 0 && (
         <div className="bg-[#0E0E0E] border border-[#2A2A2A] rounded-xl p-6">
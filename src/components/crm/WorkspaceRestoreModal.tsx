@@ -0,0 +1,215 @@
+// =============================================================================
+// WORKSPACE RESTORE MODAL — Restore a workspace backup bundle
+// =============================================================================
+// Upload → preview (per-section new/conflict counts) → restore. The conflict
+// strategy decides what happens to records that already exist locally.
+// =============================================================================
+
+import React, { useState } from 'react';
+import { X, Upload, CheckCircle } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  parseWorkspaceBundle,
+  previewWorkspaceImport,
+  importWorkspaceBundle,
+  type WorkspaceBundle,
+  type WorkspaceConflictStrategy,
+  type WorkspaceSectionPreview,
+  type WorkspaceSectionResult,
+} from '@/services/workspaceExportService';
+
+interface WorkspaceRestoreModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const STRATEGY_OPTIONS: { value: WorkspaceConflictStrategy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Keep mine', description: 'Only add records that are missing' },
+  { value: 'newer', label: 'Keep newer', description: 'Replace records the backup has a newer edit of' },
+  { value: 'overwrite', label: 'Use backup', description: 'Replace every matching record' },
+];
+
+export const WorkspaceRestoreModal: React.FC<WorkspaceRestoreModalProps> = ({ isOpen, onClose }) => {
+  const [bundle, setBundle] = useState<WorkspaceBundle | null>(null);
+  const [preview, setPreview] = useState<WorkspaceSectionPreview[]>([]);
+  const [strategy, setStrategy] = useState<WorkspaceConflictStrategy>('skip');
+  const [results, setResults] = useState<WorkspaceSectionResult[] | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setBundle(null);
+    setPreview([]);
+    setResults(null);
+    setParseError(null);
+    onClose();
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const parsed = parseWorkspaceBundle(await file.text());
+      setBundle(parsed);
+      setPreview(previewWorkspaceImport(parsed));
+      setParseError(null);
+    } catch (error) {
+      console.error('[WorkspaceRestoreModal] Failed to read backup:', error);
+      setParseError(error instanceof Error ? error.message : 'Could not read this file');
+    }
+  };
+
+  const handleRestore = () => {
+    if (!bundle) return;
+    setResults(importWorkspaceBundle(bundle, { conflictStrategy: strategy }));
+  };
+
+  if (!isOpen) return null;
+
+  const conflicts = preview.reduce((sum, s) => sum + s.conflicts, 0);
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm"
+        onClick={handleClose}
+      >
+        <motion.div
+          initial={{ scale: 0.95, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.95, opacity: 0 }}
+          className="bg-[#050c18] border border-[#0043FF]/40 shadow-[0_0_18px_rgba(0,0,0,0.9),0_0_24px_rgba(0,67,255,0.3)] rounded-3xl p-6 w-full max-w-xl mx-4 max-h-[90vh] flex flex-col"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-lg font-bold text-white">Restore from Backup</h2>
+              <p className="text-xs text-gray-500">
+                {bundle?.exportedAt
+                  ? `Backup from ${new Date(bundle.exportedAt).toLocaleString()}`
+                  : 'Choose a FrameLord workspace export (.json)'}
+              </p>
+            </div>
+            <button
+              onClick={handleClose}
+              className="p-2 text-gray-400 hover:text-white hover:bg-[#1b2c45] rounded-lg transition-colors"
+            >
+              <X size={16} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto min-h-0 space-y-4">
+            {!bundle && (
+              <>
+                <label className="flex flex-col items-center justify-center gap-3 py-12 border-2 border-dashed border-[#1b2c45] hover:border-[#4433FF] rounded-2xl cursor-pointer transition-colors">
+                  <Upload size={28} className="text-[#4433FF]" />
+                  <span className="text-sm text-gray-300">Choose a workspace export</span>
+                  <input
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) void handleFile(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                {parseError && <p className="text-xs text-red-400">{parseError}</p>}
+              </>
+            )}
+
+            {bundle && !results && (
+              <>
+                <div className="border border-[#1b2c45] rounded-xl divide-y divide-[#1b2c45]">
+                  {preview.length === 0 && (
+                    <div className="p-4 text-center text-sm text-gray-500">This backup is empty</div>
+                  )}
+                  {preview.map(s => (
+                    <div key={s.key} className="flex items-center justify-between px-4 py-2 text-xs">
+                      <span className="text-white">{s.label}</span>
+                      <span className="text-gray-400">
+                        {s.new} new
+                        {s.conflicts > 0 && <span className="text-yellow-400"> · {s.conflicts} already here</span>}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                {conflicts > 0 && (
+                  <div>
+                    <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">
+                      When a record already exists
+                    </h3>
+                    <div className="space-y-2">
+                      {STRATEGY_OPTIONS.map(option => (
+                        <label
+                          key={option.value}
+                          className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                            strategy === option.value ? 'border-[#4433FF] bg-[#4433FF]/10' : 'border-[#1b2c45] hover:border-[#333]'
+                          }`}
+                        >
+                          <input
+                            type="radio"
+                            name="workspace-conflict-strategy"
+                            checked={strategy === option.value}
+                            onChange={() => setStrategy(option.value)}
+                            className="mt-0.5"
+                          />
+                          <div>
+                            <div className="text-sm text-white">{option.label}</div>
+                            <div className="text-xs text-gray-500">{option.description}</div>
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+
+            {results && (
+              <>
+                <div className="flex items-center gap-2 p-3 bg-green-500/10 border border-green-500/30 rounded-lg text-xs text-green-300">
+                  <CheckCircle size={14} />
+                  Restore complete
+                </div>
+                <div className="border border-[#1b2c45] rounded-xl divide-y divide-[#1b2c45]">
+                  {results.map(r => (
+                    <div key={r.key} className="flex items-center justify-between px-4 py-2 text-xs">
+                      <span className="text-white">{r.label}</span>
+                      <span className="text-gray-400">
+                        {r.added} added · {r.replaced} replaced · {r.skipped} kept
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="flex justify-end gap-2 mt-4">
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              {results ? 'Done' : 'Cancel'}
+            </button>
+            {bundle && !results && preview.length > 0 && (
+              <button
+                onClick={handleRestore}
+                className="px-4 py-2 bg-[#4433FF] hover:bg-[#5544FF] text-white text-sm font-semibold rounded-lg transition-colors"
+              >
+                Restore
+              </button>
+            )}
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default WorkspaceRestoreModal;
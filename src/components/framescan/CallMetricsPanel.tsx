@@ -0,0 +1,95 @@
+// =============================================================================
+// CALL METRICS PANEL — Talk ratio and conversation metrics for call scans
+// =============================================================================
+// Per-speaker talk share, questions, interruptions and longest monologue,
+// computed from the transcript rather than the LLM. Only renders when the
+// report carries a call analysis.
+// =============================================================================
+
+import React from 'react';
+import type { FrameScanReport } from '../../services/frameScanReportStore';
+import { getContactById, CONTACT_ZERO } from '../../services/contactStore';
+
+export interface CallMetricsPanelProps {
+  report: FrameScanReport;
+}
+
+function formatSeconds(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export const CallMetricsPanel: React.FC<CallMetricsPanelProps> = ({ report }) => {
+  const call = report.call;
+
+  // Only show for call scans
+  if (report.modality !== 'call' || !call || call.metrics.speakers.length === 0) {
+    return null;
+  }
+
+  const { metrics } = call;
+  const isMe = (contactId: string) => contactId === CONTACT_ZERO.id;
+  const speakerName = (contactId: string) =>
+    isMe(contactId) ? 'Me' : getContactById(contactId)?.fullName || 'Contact';
+
+  return (
+    <div className="framescan-call-section">
+      <div className="framescan-panel">
+        <h3 className="framescan-card-title">CALL DYNAMICS</h3>
+
+        <p className="framescan-call-summary">
+          {call.turns.length} turns
+          {metrics.durationSeconds !== null && ` · ${formatSeconds(metrics.durationSeconds)}`}
+          {call.scoredTurnIndexes.length < call.turns.length && ` · ${call.scoredTurnIndexes.length} longest turns scored`}
+        </p>
+
+        {/* Talk ratio */}
+        <div className="framescan-call-ratio" aria-label="Talk ratio">
+          {metrics.speakers.map(speaker => (
+            <div
+              key={speaker.speakerContactId}
+              className={`framescan-call-ratio-bar framescan-call-ratio-bar--${isMe(speaker.speakerContactId) ? 'me' : 'them'}`}
+              style={{ width: `${Math.round(speaker.talkShare * 100)}%` }}
+              title={`${speakerName(speaker.speakerContactId)}: ${Math.round(speaker.talkShare * 100)}%`}
+            />
+          ))}
+        </div>
+
+        {/* Per-speaker metrics */}
+        <div className="framescan-call-speakers">
+          {metrics.speakers.map(speaker => (
+            <div
+              key={speaker.speakerContactId}
+              className={`framescan-call-speaker${isMe(speaker.speakerContactId) ? ' framescan-call-speaker--me' : ''}`}
+            >
+              <div className="framescan-call-speaker-name">{speakerName(speaker.speakerContactId)}</div>
+              <dl className="framescan-call-stats">
+                <div>
+                  <dt>Talk share</dt>
+                  <dd>{Math.round(speaker.talkShare * 100)}%</dd>
+                </div>
+                <div>
+                  <dt>Questions</dt>
+                  <dd>{speaker.questions}</dd>
+                </div>
+                <div>
+                  <dt>Interruptions</dt>
+                  <dd>{speaker.interruptions}</dd>
+                </div>
+                <div>
+                  <dt>Longest monologue</dt>
+                  <dd>
+                    {speaker.longestMonologueSeconds !== null
+                      ? formatSeconds(speaker.longestMonologueSeconds)
+                      : `${speaker.longestMonologueWords} words`}
+                  </dd>
+                </div>
+              </dl>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CallMetricsPanel;
@@ -2,7 +2,7 @@
 // FRAME SCAN REPORT LAYOUT — Main layout composing all report sections
 // =============================================================================
 // Orchestrates the complete report page layout: header, input preview, core grid,
-// 9-axis breakdown, synthesis note, and deep analysis panels. Uses neon HUD styling.
+// thread trajectory, 9-axis breakdown, synthesis note, and deep analysis panels. Uses neon HUD styling.
 // =============================================================================
 
 import React from 'react';
@@ -12,6 +12,8 @@ import { SAxisPanel } from './SAxisPanel';
 import { ScanChamberPanel } from './ScanChamberPanel';
 import { SystemMetricsPanel } from './SystemMetricsPanel';
 import { ImagePanel } from './ImagePanel';
+import { ThreadTrajectoryPanel } from './ThreadTrajectoryPanel';
+import { CallMetricsPanel } from './CallMetricsPanel';
 import { NineAxisBreakdownPanel } from './NineAxisBreakdownPanel';
 import { SynthesisNotePanel } from './SynthesisNotePanel';
 import { DeepAnalysisPanels } from './DeepAnalysisPanels';
@@ -64,6 +66,12 @@ export const FrameScanReportLayout: React.FC<FrameScanReportLayoutProps> = ({
           {/* Image Panel — shows input image for image scans */}
           <ImagePanel report={report} />
 
+          {/* Call Dynamics — talk ratio and conversation metrics for call scans */}
+          <CallMetricsPanel report={report} />
+
+          {/* Thread Trajectory — per-message scores for thread and call scans */}
+          <ThreadTrajectoryPanel report={report} />
+
           {/* Behavioral Axis Breakdown */}
           <NineAxisBreakdownPanel report={report} />
 
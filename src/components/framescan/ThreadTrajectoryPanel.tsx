@@ -0,0 +1,161 @@
+// =============================================================================
+// THREAD TRAJECTORY PANEL — Per-message frame scores for thread and call scans
+// =============================================================================
+// Plots each side's frame score message by message and lists the messages
+// with their scores, marking the turn where Contact Zero's frame collapsed.
+// For call scans the messages are the scored speaker turns, stamped with the
+// time they started. Only renders when the report carries a thread analysis.
+// =============================================================================
+
+import React from 'react';
+import type { FrameScanReport } from '../../services/frameScanReportStore';
+import type { FrameThreadTrajectoryPoint } from '../../lib/frameScan/frameTypes';
+import { getContactById, CONTACT_ZERO } from '../../services/contactStore';
+
+export interface ThreadTrajectoryPanelProps {
+  report: FrameScanReport;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 140;
+const CHART_PADDING = 12;
+
+/** Map a message index and 0-100 score to chart coordinates */
+function toPoint(point: FrameThreadTrajectoryPoint, count: number): { x: number; y: number } {
+  const span = CHART_WIDTH - CHART_PADDING * 2;
+  const x = CHART_PADDING + (count > 1 ? (point.index / (count - 1)) * span : span / 2);
+  const y = CHART_PADDING + (1 - point.frameScore / 100) * (CHART_HEIGHT - CHART_PADDING * 2);
+  return { x, y };
+}
+
+function formatDelta(delta: number | null): string | null {
+  if (delta === null || delta === 0) return null;
+  return delta > 0 ? `+${delta}` : `${delta}`;
+}
+
+export const ThreadTrajectoryPanel: React.FC<ThreadTrajectoryPanelProps> = ({ report }) => {
+  const thread = report.thread;
+
+  // Only show for thread and call scans
+  if ((report.modality !== 'thread' && report.modality !== 'call') || !thread || thread.trajectory.length === 0) {
+    return null;
+  }
+
+  const unit = report.modality === 'call' ? 'turn' : 'message';
+  const positionLabel = (index: number) => thread.messages[index]?.sentAt ?? `${unit} ${index + 1}`;
+
+  const count = thread.trajectory.length;
+  const isMe = (contactId: string) => contactId === CONTACT_ZERO.id;
+  const speakerName = (contactId: string) =>
+    isMe(contactId) ? 'Me' : getContactById(contactId)?.fullName || 'Contact';
+
+  const mySeries = thread.trajectory.filter(p => isMe(p.speakerContactId));
+  const theirSeries = thread.trajectory.filter(p => !isMe(p.speakerContactId));
+  const polyline = (points: FrameThreadTrajectoryPoint[]) =>
+    points.map(p => {
+      const { x, y } = toPoint(p, count);
+      return `${x},${y}`;
+    }).join(' ');
+
+  const collapsePoint = thread.collapse ? thread.trajectory[thread.collapse.index] : undefined;
+
+  return (
+    <div className="framescan-thread-section">
+      <div className="framescan-panel">
+        <h3 className="framescan-card-title">FRAME TRAJECTORY</h3>
+
+        {/* Legend */}
+        <div className="framescan-thread-legend">
+          <span className="framescan-thread-legend-item framescan-thread-legend-item--me">Me</span>
+          <span className="framescan-thread-legend-item framescan-thread-legend-item--them">
+            {[...new Set(theirSeries.map(p => speakerName(p.speakerContactId)))].join(', ')}
+          </span>
+          {thread.collapse && (
+            <span className="framescan-thread-legend-item framescan-thread-legend-item--collapse">
+              Collapse at {positionLabel(thread.collapse.index)}
+            </span>
+          )}
+        </div>
+
+        {/* Chart */}
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          className="framescan-thread-chart"
+          preserveAspectRatio="none"
+          role="img"
+          aria-label={`Frame score per ${unit}`}
+        >
+          <line
+            x1={CHART_PADDING}
+            x2={CHART_WIDTH - CHART_PADDING}
+            y1={CHART_HEIGHT / 2}
+            y2={CHART_HEIGHT / 2}
+            className="framescan-thread-chart-midline"
+          />
+          {theirSeries.length > 1 && (
+            <polyline points={polyline(theirSeries)} className="framescan-thread-chart-line framescan-thread-chart-line--them" />
+          )}
+          {mySeries.length > 1 && (
+            <polyline points={polyline(mySeries)} className="framescan-thread-chart-line framescan-thread-chart-line--me" />
+          )}
+          {thread.trajectory.map(point => {
+            const { x, y } = toPoint(point, count);
+            return (
+              <circle
+                key={point.index}
+                cx={x}
+                cy={y}
+                r={point === collapsePoint ? 6 : 4}
+                className={
+                  point === collapsePoint
+                    ? 'framescan-thread-chart-dot framescan-thread-chart-dot--collapse'
+                    : `framescan-thread-chart-dot framescan-thread-chart-dot--${isMe(point.speakerContactId) ? 'me' : 'them'}`
+                }
+              >
+                <title>{`#${point.index + 1} ${speakerName(point.speakerContactId)}: ${point.frameScore}`}</title>
+              </circle>
+            );
+          })}
+        </svg>
+
+        {/* Messages */}
+        <ol className="framescan-thread-messages">
+          {thread.messageScores.map(score => {
+            const message = thread.messages[score.index];
+            const point = thread.trajectory[score.index];
+            const delta = formatDelta(point?.delta ?? null);
+            const isCollapse = thread.collapse?.index === score.index;
+
+            return (
+              <li
+                key={score.index}
+                className={`framescan-thread-message${isMe(score.speakerContactId) ? ' framescan-thread-message--me' : ''}${isCollapse ? ' framescan-thread-message--collapse' : ''}`}
+              >
+                <div className="framescan-thread-message-header">
+                  <span className="framescan-thread-message-speaker">
+                    #{score.index + 1} {speakerName(score.speakerContactId)}
+                    {message?.sentAt && ` · ${message.sentAt}`}
+                  </span>
+                  <span className="framescan-thread-message-score">
+                    {score.frameScore}
+                    {delta && <span className="framescan-thread-message-delta">{delta}</span>}
+                  </span>
+                </div>
+                <p className="framescan-thread-message-text">{message?.content}</p>
+                {score.summary && <p className="framescan-thread-message-summary">{score.summary}</p>}
+                {isCollapse && thread.collapse && (
+                  <p className="framescan-thread-message-collapse">
+                    Frame collapsed here: {thread.collapse.fromScore} → {thread.collapse.toScore}
+                    {thread.collapse.reason !== score.summary && `. ${thread.collapse.reason}`}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </div>
+  );
+};
+
+export default ThreadTrajectoryPanel;
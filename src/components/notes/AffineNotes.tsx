@@ -6,6 +6,7 @@
 // - Main view: Docs/Collections/Tags tabs with list/grid view
 // - Editor: Title, icons, theme toggle, favorites
 // - Folders: Drag-drop notes into folders, persisted in state
+// - Smart folders: Saved note queries whose contents update live
 // - Collections: Create and manage collections of notes
 // =============================================================================
 
@@ -48,20 +49,53 @@ import {
   Loader2,
   Mic,
   MicOff,
+  Globe,
   Sun,
   Moon,
   CheckSquare,
+  History,
+  Repeat,
+  FolderSearch,
+  Edit2,
+  Crown,
+  Lock,
 } from 'lucide-react';
 import { FrameLordNotesSidebarSkin } from './FrameLordNotesSidebarSkin';
 import { MarkdownNoteEditor } from './MarkdownNoteEditor';
+import { canAccessWritingAssistant } from '../../services/littleLord/userProfile';
+import { CONTACT_ZERO } from '../../services/contactStore';
 import { RightSidebar, type RightSidebarTab } from './RightSidebar';
 import { NotesSettings } from './NotesSettings';
 import { NotesTasksView } from './NotesTasksView';
 import { JournalWeekStrip } from './JournalWeekStrip';
 import { TemplatePickerModal } from './TemplatePickerModal';
+import { SmartFolderDialog } from './SmartFolderDialog';
+import { VoiceMemoCaptureModal } from './VoiceMemoCaptureModal';
+import { WebClipModal } from './WebClipModal';
+import {
+  getAllSmartFolders,
+  getSmartFolderById,
+  runNoteQuery,
+  describeNoteQuery,
+  createSmartFolder,
+  updateSmartFolder,
+  deleteSmartFolder,
+  subscribeNoteQueryResults,
+  type SmartFolder,
+} from '../../services/smartFolderStore';
+import { NoteHistoryPanel } from './NoteHistoryPanel';
+import {
+  getNoteReviewItem,
+  getReviewItemsForNote,
+  flagNoteForReview,
+  flagBlockForReview,
+  unflagReviewItem,
+  subscribeReviewItems,
+} from '../../services/reviewStore';
+import { htmlToAnchorText, normalizeAnchorText, createTextAnchor } from '../../lib/editor/textAnchor';
 import { useAudioRecorder } from '../../hooks/useAudioRecorder';
 import { transcribeAudioToText } from '../../services/transcriptionService';
-import { noteTemplates, replaceTemplateVariables, type NoteTemplate } from '../../services/noteTemplates';
+import { noteTemplates, applyTemplateToNote, type NoteTemplate } from '../../services/noteTemplates';
 import {
   getAllNotes,
   createNote,
@@ -83,7 +117,7 @@ const MotionDiv = motion.div as any;
 // =============================================================================
 
 type MainTab = 'docs' | 'collections' | 'tags';
-type SidebarView = 'all' | 'journals' | 'tasks' | 'trash' | 'folder' | 'collection' | 'tag';
+type SidebarView = 'all' | 'journals' | 'tasks' | 'trash' | 'folder' | 'smart' | 'collection' | 'tag';
 type ViewMode = 'list' | 'grid';
 
 interface FolderItem {
@@ -198,6 +232,15 @@ export const AffineNotes: React.FC<AffineNotesProps> = ({ onNavigateToContact, i
   const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
   const [selectedCollectionId, setSelectedCollectionId] = useState<string | null>(null);
   const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [selectedSmartFolderId, setSelectedSmartFolderId] = useState<string | null>(null);
+
+  // Smart folders re-run their queries whenever notes, FrameScans or the folders change
+  const [smartFolderVersion, setSmartFolderVersion] = useState(0);
+  const [smartFolderDialog, setSmartFolderDialog] = useState<{ folder: SmartFolder | null } | null>(null);
+  useEffect(() => subscribeNoteQueryResults(() => setSmartFolderVersion(v => v + 1)), []);
+
+  const [showVoiceMemo, setShowVoiceMemo] = useState(false);
+  const [showWebClip, setShowWebClip] = useState(false);
 
   // Journal calendar state
   const [selectedJournalDate, setSelectedJournalDate] = useState<Date>(new Date());
@@ -205,6 +248,7 @@ export const AffineNotes: React.FC<AffineNotesProps> = ({ onNavigateToContact, i
   // Section expansion state
   const [expandedSections, setExpandedSections] = useState({
     organize: true,
+    smartFolders: true,
     tags: true,
     collections: true,
     others: true,
@@ -274,6 +318,11 @@ export const AffineNotes: React.FC<AffineNotesProps> = ({ onNavigateToContact, i
           pages = activeNotes.filter(n => folder?.noteIds.includes(n.id));
         }
         break;
+      case 'smart': {
+        const smartFolder = selectedSmartFolderId ? getSmartFolderById(selectedSmartFolderId) : undefined;
+        if (smartFolder) pages = runNoteQuery(smartFolder.query);
+        break;
+      }
       case 'collection':
         if (selectedCollectionId) {
           const collection = collections.find(c => c.id === selectedCollectionId);
@@ -307,7 +356,9 @@ export const AffineNotes: React.FC<AffineNotesProps> = ({ onNavigateToContact, i
     }
 
     return pages;
-  }, [sidebarView, selectedFolderId, selectedCollectionId, selectedTag, mainTab, activeNotes, journalNotes, trashedNotes, folders, collections, searchQuery]);
+  }, [sidebarView, selectedFolderId, selectedSmartFolderId, selectedCollectionId, selectedTag, mainTab, activeNotes, journalNotes, trashedNotes, folders, collections, searchQuery, smartFolderVersion]);
+
+  const smartFolders = useMemo(() => getAllSmartFolders(), [smartFolderVersion]);
 
   // Group pages by date
   const groupedPages = useMemo(() => {
@@ -524,6 +575,30 @@ export const AffineNotes: React.FC<AffineNotesProps> = ({ onNavigateToContact, i
     }
   }, [selectedFolderId]);
 
+  // Smart folder handlers
+  const handleSaveSmartFolder = useCallback((name: string, query: SmartFolder['query']) => {
+    const editing = smartFolderDialog?.folder;
+    if (editing) {
+      updateSmartFolder(editing.id, { name, query });
+    } else {
+      const created = createSmartFolder(name, query);
+      setSidebarView('smart');
+      setSelectedSmartFolderId(created.id);
+      setMainTab('docs');
+      setSelectedPageId(null);
+    }
+    setSmartFolderDialog(null);
+  }, [smartFolderDialog]);
+
+  const handleDeleteSmartFolder = useCallback((folderId: string) => {
+    if (!window.confirm('Delete this smart folder? Notes in it are not affected.')) return;
+    deleteSmartFolder(folderId);
+    if (selectedSmartFolderId === folderId) {
+      setSidebarView('all');
+      setSelectedSmartFolderId(null);
+    }
+  }, [selectedSmartFolderId]);
+
   // Collection handlers
   const handleCreateCollection = useCallback(() => {
     const colors = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6', '#8b5cf6', '#ec4899'];
@@ -730,6 +805,20 @@ export const AffineNotes: React.FC<AffineNotesProps> = ({ onNavigateToContact, i
               }}
               colors={sidebarColors}
             />
+            <SidebarNavItem
+              icon={<Mic size={16} />}
+              label="Voice memo"
+              isActive={showVoiceMemo}
+              onClick={() => setShowVoiceMemo(true)}
+              colors={sidebarColors}
+            />
+            <SidebarNavItem
+              icon={<Globe size={16} />}
+              label="Clip from web"
+              isActive={showWebClip}
+              onClick={() => setShowWebClip(true)}
+              colors={sidebarColors}
+            />
 
             <div className="my-3 border-t" style={{ borderColor: sidebarColors.border }} />
 
@@ -768,6 +857,50 @@ export const AffineNotes: React.FC<AffineNotesProps> = ({ onNavigateToContact, i
               ))}
             </CollapsibleSection>
 
+            {/* Smart Folders */}
+            <CollapsibleSection
+              label="Smart Folders"
+              isExpanded={expandedSections.smartFolders}
+              onToggle={() => setExpandedSections(s => ({ ...s, smartFolders: !s.smartFolders }))}
+              onAdd={() => setSmartFolderDialog({ folder: null })}
+              colors={sidebarColors}
+            >
+              {smartFolders.length === 0 ? (
+                <div className="px-2 py-2 text-xs" style={{ color: sidebarColors.textMuted }}>No smart folders yet</div>
+              ) : (
+                smartFolders.map(smartFolder => (
+                  <div
+                    key={smartFolder.id}
+                    onClick={() => { setSidebarView('smart'); setSelectedSmartFolderId(smartFolder.id); setMainTab('docs'); setSelectedPageId(null); }}
+                    className="w-full flex items-center gap-2 px-2 py-1 rounded text-sm text-left group cursor-pointer"
+                    style={{
+                      background: sidebarView === 'smart' && selectedSmartFolderId === smartFolder.id ? sidebarColors.active : 'transparent',
+                      color: sidebarColors.text,
+                    }}
+                    title={describeNoteQuery(smartFolder.query)}
+                  >
+                    <FolderSearch size={14} style={{ color: smartFolder.color || sidebarColors.textMuted }} />
+                    <span className="truncate">{smartFolder.name}</span>
+                    <span className="ml-auto text-xs" style={{ color: sidebarColors.textMuted }}>
+                      {runNoteQuery(smartFolder.query).length}
+                    </span>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setSmartFolderDialog({ folder: smartFolder }); }}
+                      className="opacity-0 group-hover:opacity-100 p-0.5 hover:bg-white/10 rounded"
+                    >
+                      <Edit2 size={12} style={{ color: sidebarColors.textMuted }} />
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleDeleteSmartFolder(smartFolder.id); }}
+                      className="opacity-0 group-hover:opacity-100 p-0.5 hover:bg-white/10 rounded"
+                    >
+                      <X size={12} style={{ color: sidebarColors.textMuted }} />
+                    </button>
+                  </div>
+                ))
+              )}
+            </CollapsibleSection>
+
             {/* Tags */}
             <CollapsibleSection
               label="Tags"
@@ -964,6 +1097,41 @@ export const AffineNotes: React.FC<AffineNotesProps> = ({ onNavigateToContact, i
         />
       </div>
 
+      {/* Smart Folder Editor */}
+      <SmartFolderDialog
+        isOpen={smartFolderDialog !== null}
+        folder={smartFolderDialog?.folder}
+        onClose={() => setSmartFolderDialog(null)}
+        onSave={handleSaveSmartFolder}
+        colors={colors}
+      />
+
+      {/* Voice Memo Capture */}
+      <VoiceMemoCaptureModal
+        isOpen={showVoiceMemo}
+        onClose={() => setShowVoiceMemo(false)}
+        onCreated={(noteId) => {
+          setShowVoiceMemo(false);
+          setMainTab('docs');
+          setRefreshKey(k => k + 1);
+          handleNavigateToNote(noteId);
+        }}
+        colors={colors}
+      />
+
+      {/* Web Clip */}
+      <WebClipModal
+        isOpen={showWebClip}
+        onClose={() => setShowWebClip(false)}
+        onCreated={(noteId) => {
+          setShowWebClip(false);
+          setMainTab('docs');
+          setRefreshKey(k => k + 1);
+          handleNavigateToNote(noteId);
+        }}
+        colors={colors}
+      />
+
       {/* Settings Modal */}
       <NotesSettings
         isOpen={showSettings}
@@ -1760,6 +1928,23 @@ const PageEditor: React.FC<PageEditorProps> = ({
   const [newTag, setNewTag] = useState('');
   const [isScanning, setIsScanning] = useState(false);
   const [showTemplatePicker, setShowTemplatePicker] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Inline frame coaching (writing assistant tiers only), remembered across notes
+  const hasWritingAccess = canAccessWritingAssistant('default', CONTACT_ZERO.id);
+  const [frameCoaching, setFrameCoaching] = useState(() => localStorage.getItem('framelord_frame_coaching') === 'on');
+  const handleToggleFrameCoaching = () => {
+    if (!hasWritingAccess) return;
+    const next = !frameCoaching;
+    setFrameCoaching(next);
+    localStorage.setItem('framelord_frame_coaching', next ? 'on' : 'off');
+  };
+
+  // Review flags on this note (whole note and passages)
+  const [, setReviewVersion] = useState(0);
+  useEffect(() => subscribeReviewItems(() => setReviewVersion(v => v + 1)), []);
+  const noteReviewItem = getNoteReviewItem(page.id);
+  const reviewFlagCount = getReviewItemsForNote(page.id).length;
 
   // Audio recording
   const { isRecording, startRecording, stopRecording } = useAudioRecorder();
@@ -1792,6 +1977,20 @@ const PageEditor: React.FC<PageEditorProps> = ({
     onJournalDateChange?.(new Date());
   }, [isJournal, onJournalDateChange]);
 
+  // Flag the selected passage for review, or toggle the whole note
+  const handleToggleReview = useCallback(() => {
+    const selected = typeof window !== 'undefined' ? window.getSelection()?.toString() || '' : '';
+    if (normalizeAnchorText(selected)) {
+      const anchor = createTextAnchor(htmlToAnchorText(page.content || ''), selected);
+      if (anchor) {
+        flagBlockForReview(page.id, anchor);
+        return;
+      }
+    }
+    if (noteReviewItem) unflagReviewItem(noteReviewItem.id);
+    else flagNoteForReview(page.id);
+  }, [page.id, page.content, noteReviewItem]);
+
   // Frame scan handler
   const handleFrameScan = useCallback(async () => {
     if (isScanning) return;
@@ -1905,11 +2104,12 @@ const PageEditor: React.FC<PageEditorProps> = ({
 
   // Template selection handler
   const handleTemplateSelect = useCallback((template: any) => {
-    // Replace template variables (like {{date}})
-    const processedBody = replaceTemplateVariables(template.content || template.body);
-
-    // Replace current note content with template
-    updateNote(page.id, { content: processedBody });
+    // Render the template (variables, prompts, contact data) into the current
+    // note; a chosen contact is also linked to the note
+    applyTemplateToNote(page.id, template.content || template.body || '', {
+      contactId: template.contactId,
+      prompts: template.promptValues,
+    });
     onRefresh();
     setShowTemplatePicker(false);
 
@@ -2020,6 +2220,41 @@ const PageEditor: React.FC<PageEditorProps> = ({
         <button onClick={onToggleFavorite} className="p-1.5 rounded hover:bg-white/10">
           <Star size={16} fill={page.isPinned ? colors.accent : 'none'} style={{ color: page.isPinned ? colors.accent : colors.textMuted }} />
         </button>
+        <button
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={handleToggleReview}
+          className="relative p-1.5 rounded hover:bg-white/10"
+          style={{ color: noteReviewItem ? colors.accent : colors.textMuted }}
+          title={noteReviewItem ? 'Stop reviewing this note (select text to flag a passage)' : 'Flag for review (select text to flag a passage)'}
+        >
+          <Repeat size={16} />
+          {reviewFlagCount > 0 && (
+            <span
+              className="absolute -top-0.5 -right-0.5 min-w-3.5 h-3.5 px-0.5 rounded-full text-[9px] leading-[14px] text-center"
+              style={{ background: colors.accent, color: '#fff' }}
+            >
+              {reviewFlagCount}
+            </span>
+          )}
+        </button>
+        <button
+          onClick={handleToggleFrameCoaching}
+          disabled={!hasWritingAccess}
+          className="p-1.5 rounded hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ color: hasWritingAccess && frameCoaching ? colors.accent : colors.textMuted }}
+          title={
+            !hasWritingAccess
+              ? 'Upgrade to use inline frame coaching'
+              : frameCoaching
+                ? 'Turn off frame coaching'
+                : 'Frame coaching: underline needy and seller-posture phrases as you write'
+          }
+        >
+          {hasWritingAccess ? <Crown size={16} /> : <Lock size={16} />}
+        </button>
+        <button onClick={() => setShowHistory(true)} className="p-1.5 rounded hover:bg-white/10" style={{ color: colors.textMuted }} title="Version history">
+          <History size={16} />
+        </button>
         <div className="relative">
           <button onClick={() => setShowCollectionMenu(!showCollectionMenu)} className="p-1.5 rounded hover:bg-white/10" style={{ color: colors.textMuted }}>
             <Library size={16} />
@@ -2167,6 +2402,7 @@ const PageEditor: React.FC<PageEditorProps> = ({
               onNavigateToContact={onNavigateToContact}
               placeholder="Start writing..."
               showBacklinks={true}
+              frameCoaching={frameCoaching}
             />
           </div>
 
@@ -2210,6 +2446,14 @@ const PageEditor: React.FC<PageEditorProps> = ({
           colors={colors}
         />
       )}
+
+      <NoteHistoryPanel
+        isOpen={showHistory}
+        onClose={() => setShowHistory(false)}
+        note={page}
+        onRestored={(restored) => { setTitle(restored.title || ''); onRefresh(); }}
+        colors={colors}
+      />
     </div>
   );
 };
@@ -5,11 +5,19 @@
 // - Lists all notes containing [[This Note]] links
 // - Shows context snippet where link appears
 // - Clickable to navigate to linking note
+// - Unlinked mentions: other notes' titles and contact names written as plain
+//   text, convertible to wikilinks / @mentions one at a time or all at once
 // =============================================================================
 
-import React, { useMemo } from 'react';
-import { Link2, FileText, ChevronRight } from 'lucide-react';
-import { getBacklinksWithContext, type BacklinkInfo } from '../../services/noteStore';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link2, FileText, ChevronRight, AtSign, Unlink } from 'lucide-react';
+import { getBacklinksWithContext, subscribeNotes, type BacklinkInfo } from '../../services/noteStore';
+import {
+  findUnlinkedMentions,
+  getUnlinkedMentions,
+  linkUnlinkedMentions,
+  type UnlinkedMention,
+} from '../../services/unlinkedMentionService';
 
 // =============================================================================
 // TYPES
@@ -22,6 +30,10 @@ export interface BacklinksProps {
   colors: Record<string, string>;
   /** Called when a backlink is clicked */
   onNavigateToNote: (noteId: string) => void;
+  /** Live editor content; defaults to the stored note */
+  content?: string;
+  /** Convert mentions in the editor; defaults to updating the stored note */
+  onLinkMentions?: (mentions: UnlinkedMention[]) => void;
 }
 
 // =============================================================================
@@ -32,6 +44,8 @@ export const Backlinks: React.FC<BacklinksProps> = ({
   noteId,
   colors,
   onNavigateToNote,
+  content,
+  onLinkMentions,
 }) => {
   // Get backlinks with context
   const backlinks = useMemo(() => {
@@ -76,6 +90,109 @@ export const Backlinks: React.FC<BacklinksProps> = ({
           ))}
         </div>
       )}
+
+      <UnlinkedMentions
+        noteId={noteId}
+        content={content}
+        onLinkMentions={onLinkMentions}
+        colors={colors}
+      />
+    </div>
+  );
+};
+
+// =============================================================================
+// UNLINKED MENTIONS
+// =============================================================================
+
+export interface UnlinkedMentionsProps {
+  noteId: string;
+  /** Live editor content; defaults to the stored note */
+  content?: string;
+  /** Convert mentions in the editor; defaults to updating the stored note */
+  onLinkMentions?: (mentions: UnlinkedMention[]) => void;
+  colors: Record<string, string>;
+}
+
+export const UnlinkedMentions: React.FC<UnlinkedMentionsProps> = ({
+  noteId,
+  content,
+  onLinkMentions,
+  colors,
+}) => {
+  const [version, setVersion] = useState(0);
+  useEffect(() => subscribeNotes(() => setVersion(v => v + 1)), []);
+
+  const mentions = useMemo(
+    () => (content !== undefined ? findUnlinkedMentions(content, { excludeNoteId: noteId }) : getUnlinkedMentions(noteId)),
+    [noteId, content, version]
+  );
+
+  if (mentions.length === 0) return null;
+
+  const link = (selected: UnlinkedMention[]) => {
+    if (onLinkMentions) onLinkMentions(selected);
+    else linkUnlinkedMentions(noteId, selected);
+  };
+
+  return (
+    <div className="mt-6">
+      {/* Header */}
+      <div className="flex items-center gap-2 mb-3">
+        <Unlink size={16} style={{ color: colors.textMuted }} />
+        <h3 className="text-sm font-medium" style={{ color: colors.text }}>
+          Unlinked mentions
+        </h3>
+        <span
+          className="text-xs px-1.5 py-0.5 rounded"
+          style={{ background: colors.hover, color: colors.textMuted }}
+        >
+          {mentions.length}
+        </span>
+        <button
+          onClick={() => link(mentions)}
+          className="ml-auto text-xs px-2 py-1 rounded transition-colors hover:opacity-80"
+          style={{ color: colors.accent }}
+        >
+          Link all
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {mentions.map((mention) => (
+          <div
+            key={mention.key}
+            className="flex items-start gap-2 p-3 rounded-lg"
+            style={{ background: colors.hover }}
+          >
+            {mention.kind === 'note' ? (
+              <FileText size={14} className="mt-0.5 shrink-0" style={{ color: colors.textMuted }} />
+            ) : (
+              <AtSign size={14} className="mt-0.5 shrink-0" style={{ color: colors.textMuted }} />
+            )}
+            <div className="min-w-0 flex-1">
+              <div className="text-sm font-medium" style={{ color: colors.text }}>
+                {mention.label}
+                {mention.count > 1 && (
+                  <span className="ml-1 text-xs font-normal" style={{ color: colors.textMuted }}>
+                    ×{mention.count}
+                  </span>
+                )}
+              </div>
+              <p className="text-xs line-clamp-2" style={{ color: colors.textMuted }}>
+                {mention.snippet}
+              </p>
+            </div>
+            <button
+              onClick={() => link([mention])}
+              className="shrink-0 text-xs px-2 py-1 rounded transition-colors hover:opacity-80"
+              style={{ color: colors.accent }}
+            >
+              {mention.kind === 'note' ? 'Link' : 'Mention'}
+            </button>
+          </div>
+        ))}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,211 @@
+// =============================================================================
+// FRAME COACHING POPOVER — Rewrites for an underlined phrase in the editor
+// =============================================================================
+// Opens when the user clicks a needy or seller-posture underline:
+// - Explains why the phrase leaks frame
+// - Fetches Apex rewrites of the paragraph (counts against the scan throttle)
+// - Replaces the paragraph with a rewrite in one click, for plain-text
+//   paragraphs only; with mentions, links or formatting the rewrites are
+//   shown for reference so nothing is lost
+// =============================================================================
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Crown, Loader2, X } from 'lucide-react';
+import { runInlineFrameCoaching } from '../../lib/frameScan/frameScanLLM';
+import { canRunAnotherScan, getRemainingScanCount } from '../../lib/frameScan/frameThrottle';
+import type { FrameSampleRewrite } from '../../lib/frameScan/frameTypes';
+import type { FrameCoachingHit } from '../../lib/editor/FrameCoachingExtension';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface FrameCoachingPopoverProps {
+  /** The clicked underline, or null when closed */
+  hit: FrameCoachingHit | null;
+  /** Theme colors */
+  colors: Record<string, string>;
+  /** Replace the paragraph; returns false if it changed since it was scanned */
+  onApply: (rewrite: FrameSampleRewrite) => boolean;
+  /** Called when popover should close */
+  onClose: () => void;
+}
+
+const KIND_LABELS = {
+  needy: 'Needy',
+  seller_posture: 'Seller posture',
+} as const;
+
+/** Rewrites already fetched this session, by prompt text */
+const rewriteCache = new Map<string, FrameSampleRewrite[]>();
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const FrameCoachingPopover: React.FC<FrameCoachingPopoverProps> = ({
+  hit,
+  colors,
+  onApply,
+  onClose,
+}) => {
+  const [rewrites, setRewrites] = useState<FrameSampleRewrite[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Fetch rewrites for the clicked paragraph
+  useEffect(() => {
+    setError(null);
+    setRewrites(null);
+    setLoading(false);
+    if (!hit) return;
+
+    const cached = rewriteCache.get(hit.paragraph.promptText);
+    if (cached) {
+      setRewrites(cached);
+      return;
+    }
+    if (!canRunAnotherScan()) {
+      setError('Frame scan limit reached for this session. Please wait or upgrade your plan.');
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    runInlineFrameCoaching({ paragraph: hit.paragraph.promptText, phrases: hit.paragraph.phrases })
+      .then(result => {
+        rewriteCache.set(hit.paragraph.promptText, result);
+        if (!cancelled) setRewrites(result);
+      })
+      .catch(err => {
+        console.warn('[FrameCoaching] Rewrite failed:', err);
+        if (!cancelled) setError(err?.message || 'Could not load rewrites');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hit]);
+
+  // Escape and click outside to close
+  useEffect(() => {
+    if (!hit) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [hit, onClose]);
+
+  if (!hit) return null;
+
+  const handleApply = (rewrite: FrameSampleRewrite) => {
+    if (onApply(rewrite)) {
+      onClose();
+    } else {
+      setError('This paragraph changed since it was scanned. Click the underline again.');
+    }
+  };
+
+  const kindColor = hit.phrase.kind === 'needy' ? '#f59e0b' : '#ef4444';
+  const canApply = hit.paragraph.plain;
+
+  return (
+    <div
+      ref={containerRef}
+      className="fixed z-50 rounded-lg shadow-xl overflow-hidden w-[340px]"
+      style={{
+        top: hit.position.top,
+        left: hit.position.left,
+        background: colors.sidebar || '#1f2023',
+        border: `1px solid ${colors.border || '#2d2f36'}`,
+      }}
+    >
+      {/* Phrase and reason */}
+      <div className="px-3 py-2 border-b" style={{ borderColor: colors.border }}>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-semibold uppercase tracking-wider" style={{ color: kindColor }}>
+            {KIND_LABELS[hit.phrase.kind]}
+          </span>
+          <button
+            onClick={onClose}
+            className="p-0.5 rounded transition-colors"
+            style={{ color: colors.textMuted }}
+            title="Close"
+          >
+            <X size={12} />
+          </button>
+        </div>
+        <p className="text-sm mt-1" style={{ color: colors.text }}>
+          &ldquo;{hit.phrase.quote}&rdquo;
+        </p>
+        <p className="text-xs mt-1" style={{ color: colors.textMuted }}>
+          {hit.phrase.reason}
+        </p>
+      </div>
+
+      {/* Rewrites */}
+      <div className="py-1 max-h-[280px] overflow-y-auto">
+        {loading && (
+          <div className="px-3 py-3 flex items-center gap-2 text-xs" style={{ color: colors.textMuted }}>
+            <Loader2 size={12} className="animate-spin" />
+            Rewriting paragraph...
+          </div>
+        )}
+
+        {rewrites && !canApply && (
+          <p className="px-3 pt-1 text-[10px]" style={{ color: colors.textMuted }}>
+            This paragraph has mentions, links or formatting, so rewrites can&rsquo;t be applied in one click.
+          </p>
+        )}
+
+        {rewrites?.map((rewrite, index) => (
+          <button
+            key={index}
+            onClick={() => handleApply(rewrite)}
+            disabled={!canApply}
+            className={`w-full px-3 py-2 text-left transition-colors ${canApply ? 'hover:bg-white/5' : 'cursor-text select-text'}`}
+            title={canApply ? 'Replace the paragraph with this rewrite' : undefined}
+          >
+            <div className="flex items-center gap-1.5 text-[10px] font-semibold uppercase tracking-wider" style={{ color: colors.accent }}>
+              <Crown size={10} />
+              {rewrite.purpose}
+            </div>
+            <p className="text-sm mt-0.5" style={{ color: colors.text }}>
+              {rewrite.apexVersion}
+            </p>
+          </button>
+        ))}
+
+        {error && (
+          <p className="px-3 py-2 text-xs text-red-400">{error}</p>
+        )}
+      </div>
+
+      {/* Throttle hint */}
+      <div
+        className="px-3 py-1.5 text-[10px] border-t"
+        style={{ color: colors.textMuted, borderColor: colors.border }}
+      >
+        {getRemainingScanCount()} frame scans left this session
+      </div>
+    </div>
+  );
+};
+
+export default FrameCoachingPopover;
@@ -5,9 +5,10 @@
 // - Rich text editing with Tiptap
 // - Obsidian-style [[wiki links]] with [[ trigger
 // - @mentions for contacts with @ trigger
-// - Backlinks section at bottom
+// - Backlinks section at bottom, with unlinked mentions
 // - Theme-aware styling
 // - Auto-save on change
+// - Optional inline frame coaching (needy / seller-posture underlines)
 // =============================================================================
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
@@ -40,8 +41,17 @@ import { ContactMentionSuggestion } from './ContactMentionSuggestion';
 import { TopicMentionNode } from './extensions/TopicMentionNode';
 import { TopicMentionSuggestion } from './TopicMentionSuggestion';
 import { TweetEmbedNode } from './extensions/TweetEmbedNode';
+import { SmartQueryNode } from './extensions/SmartQueryNode';
 import { SlashCommandExtension } from '../../lib/editor/SlashCommandExtension';
+import {
+  FrameCoachingExtension,
+  getCoachingParagraph,
+  type FrameCoachingHit,
+} from '../../lib/editor/FrameCoachingExtension';
+import { FrameCoachingPopover } from './FrameCoachingPopover';
 import { BiDirectionalLinks } from './BiDirectionalLinks';
+import { UnlinkedMentions } from './Backlinks';
+import { linkUnlinkedMentions, type UnlinkedMention } from '../../services/unlinkedMentionService';
 import {
   findNoteByTitle,
   createNoteFromWikiLink,
@@ -49,11 +59,14 @@ import {
 } from '../../services/noteStore';
 import {
   createContactFromMention,
+  CONTACT_ZERO,
 } from '../../services/contactStore';
+import { canAccessWritingAssistant } from '../../services/littleLord/userProfile';
 import {
   createTopicFromHashtag,
 } from '../../services/topicStore';
 import type { Note, Contact, Topic } from '../../types';
+import type { FrameSampleRewrite } from '../../lib/frameScan/frameTypes';
 
 // =============================================================================
 // TYPES
@@ -76,6 +89,8 @@ export interface MarkdownNoteEditorProps {
   onNavigateToContact?: (contactId: string) => void;
   /** Whether to show backlinks section */
   showBacklinks?: boolean;
+  /** Underline needy / seller-posture phrases while writing (writing assistant tiers only) */
+  frameCoaching?: boolean;
 }
 
 // =============================================================================
@@ -125,10 +140,17 @@ export const MarkdownNoteEditor: React.FC<MarkdownNoteEditorProps> = ({
   onNavigateToNote,
   onNavigateToContact,
   showBacklinks = true,
+  frameCoaching = false,
 }) => {
   const colors = getThemeColors(theme);
   const editorRef = useRef<HTMLDivElement>(null);
 
+  // Inline frame coaching state (read through a ref so the extension sees toggles)
+  const coachingEnabled = frameCoaching && canAccessWritingAssistant('default', CONTACT_ZERO.id);
+  const coachingEnabledRef = useRef(coachingEnabled);
+  coachingEnabledRef.current = coachingEnabled;
+  const [coachingHit, setCoachingHit] = useState<FrameCoachingHit | null>(null);
+
   // Wiki link suggestion state
   const [suggestionOpen, setSuggestionOpen] = useState(false);
   const [suggestionQuery, setSuggestionQuery] = useState('');
@@ -198,6 +220,15 @@ export const MarkdownNoteEditor: React.FC<MarkdownNoteEditorProps> = ({
       // ResizableImageNode replaces Image - provides drag handles for resizing
       ResizableImageNode,
       TweetEmbedNode,
+      // Live smart folder results
+      SmartQueryNode.configure({
+        onNavigate: (noteId: string) => {
+          if (onNavigateToNote) {
+            onNavigateToNote(noteId);
+          }
+        },
+        colors,
+      }),
       // Audio embed for recorded/uploaded audio with player
       AudioEmbedNode,
       // Slash command menu for block insertion (Notion-style "/" commands)
@@ -211,6 +242,11 @@ export const MarkdownNoteEditor: React.FC<MarkdownNoteEditorProps> = ({
           accent: colors.accent,
         },
       }),
+      // Inline frame coaching underlines for the current paragraph
+      FrameCoachingExtension.configure({
+        isEnabled: () => coachingEnabledRef.current,
+        onPhraseClick: setCoachingHit,
+      }),
     ],
     content,
     editorProps: {
@@ -619,6 +655,16 @@ export const MarkdownNoteEditor: React.FC<MarkdownNoteEditorProps> = ({
     [handleSelectTopic]
   );
 
+  // Convert unlinked mentions in the live document, then mirror it back into the editor
+  const handleLinkMentions = useCallback(
+    (mentions: UnlinkedMention[]) => {
+      if (!editor || !noteId) return;
+      const updated = linkUnlinkedMentions(noteId, mentions, editor.getHTML());
+      if (updated) editor.commands.setContent(updated.content || '');
+    },
+    [editor, noteId]
+  );
+
   // Sync content when it changes externally
   useEffect(() => {
     if (editor && content !== editor.getHTML()) {
@@ -626,6 +672,41 @@ export const MarkdownNoteEditor: React.FC<MarkdownNoteEditorProps> = ({
     }
   }, [content, editor]);
 
+  // Rescan or clear coaching underlines when coaching is toggled
+  useEffect(() => {
+    if (!editor) return;
+    editor.commands.refreshFrameCoaching();
+    if (!coachingEnabled) setCoachingHit(null);
+  }, [editor, coachingEnabled]);
+
+  const closeCoaching = useCallback(() => setCoachingHit(null), []);
+
+  // Replace the coached paragraph with a rewrite, unless it changed since the
+  // click. Only plain-text paragraphs are replaced, so no inline nodes or
+  // marks are lost.
+  const applyCoachingRewrite = useCallback(
+    (rewrite: FrameSampleRewrite): boolean => {
+      if (!editor || !coachingHit) return false;
+
+      const { paragraph } = coachingHit;
+      const current = getCoachingParagraph(editor.state, paragraph.from);
+      if (!current || !current.plain || current.from !== paragraph.from || current.text !== paragraph.text) {
+        return false;
+      }
+
+      editor
+        .chain()
+        .focus()
+        .insertContentAt(
+          { from: paragraph.from, to: paragraph.to },
+          { type: 'text', text: rewrite.apexVersion.replace(/\uFFFC/g, '').replace(/\s*\n+\s*/g, ' ') }
+        )
+        .run();
+      return true;
+    },
+    [editor, coachingHit]
+  );
+
   // Handle clicks on regular links (note:// protocol)
   const handleEditorClick = useCallback(
     (e: MouseEvent) => {
@@ -842,6 +923,13 @@ export const MarkdownNoteEditor: React.FC<MarkdownNoteEditorProps> = ({
               onNavigateToNote={onNavigateToNote}
             />
           )}
+          {showBacklinks && noteId && (
+            <UnlinkedMentions
+              noteId={noteId}
+              onLinkMentions={handleLinkMentions}
+              colors={colors}
+            />
+          )}
         </div>
       </div>
 
@@ -878,6 +966,14 @@ export const MarkdownNoteEditor: React.FC<MarkdownNoteEditorProps> = ({
         onClose={closeTopic}
       />
 
+      {/* Frame Coaching Rewrites Popup */}
+      <FrameCoachingPopover
+        hit={coachingHit}
+        colors={colors}
+        onApply={applyCoachingRewrite}
+        onClose={closeCoaching}
+      />
+
       {/* Dynamic Styles */}
       <style>{`
         .ProseMirror {
@@ -904,6 +1000,23 @@ export const MarkdownNoteEditor: React.FC<MarkdownNoteEditorProps> = ({
           margin: 0.5em 0;
         }
 
+        /* Inline frame coaching */
+        .ProseMirror .frame-coach-mark {
+          text-decoration-line: underline;
+          text-decoration-style: wavy;
+          text-decoration-thickness: 1.5px;
+          text-underline-offset: 3px;
+          cursor: pointer;
+        }
+
+        .ProseMirror .frame-coach-mark--needy {
+          text-decoration-color: #f59e0b;
+        }
+
+        .ProseMirror .frame-coach-mark--seller_posture {
+          text-decoration-color: #ef4444;
+        }
+
         .ProseMirror h1 {
           font-size: 2em;
           font-weight: 700;
@@ -0,0 +1,222 @@
+// =============================================================================
+// NOTE HISTORY PANEL — Browse, compare and restore note revisions
+// =============================================================================
+// Features:
+// - Revision list (newest first) with the current version on top
+// - Side-by-side line diff between a revision and the current version or
+//   any newer revision (content compared as Markdown for readability)
+// - Restore any revision as a new version (the current state is kept)
+// =============================================================================
+
+import React, { useMemo, useState } from 'react';
+import { X, History, RotateCcw } from 'lucide-react';
+import { getNoteRevisions, type NoteRevision } from '../../services/noteRevisionStore';
+import { restoreNoteRevision } from '../../services/noteStore';
+import { htmlToMarkdown } from '../../lib/editor/htmlToMarkdown';
+import { diffLines, toSideBySide, type DiffOp } from '../../lib/editor/lineDiff';
+import type { Note } from '../../types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface NoteHistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  note: Note;
+  /** Called with the updated note after a revision is restored */
+  onRestored: (note: Note) => void;
+  colors: Record<string, string>;
+}
+
+/** A version that can be compared: a stored revision or the live note */
+interface VersionSnapshot {
+  id: string;
+  label: string;
+  title: string | null;
+  content: string;
+}
+
+const CURRENT_ID = 'current';
+
+const formatWhen = (iso: string): string =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const toSnapshot = (revision: NoteRevision): VersionSnapshot => ({
+  id: revision.id,
+  label: formatWhen(revision.editedAt || revision.createdAt),
+  title: revision.title,
+  content: revision.content,
+});
+
+const DIFF_STYLES: Record<DiffOp['type'], React.CSSProperties> = {
+  equal: {},
+  delete: { background: 'rgba(239, 68, 68, 0.15)' },
+  insert: { background: 'rgba(34, 197, 94, 0.15)' },
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const NoteHistoryPanel: React.FC<NoteHistoryPanelProps> = ({
+  isOpen,
+  onClose,
+  note,
+  onRestored,
+  colors,
+}) => {
+  const [historyKey, setHistoryKey] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string>(CURRENT_ID);
+
+  const revisions = useMemo(() => (isOpen ? getNoteRevisions(note.id) : []), [isOpen, note.id, historyKey]);
+  const current: VersionSnapshot = { id: CURRENT_ID, label: 'Current version', title: note.title, content: note.content || '' };
+
+  const selected = revisions.find(r => r.id === selectedId) || revisions[0];
+  const selectedIndex = selected ? revisions.indexOf(selected) : -1;
+  // Only newer versions make sense as the right-hand side
+  const compareOptions = [current, ...revisions.slice(0, Math.max(selectedIndex, 0)).map(toSnapshot)];
+  const compareTo = compareOptions.find(o => o.id === compareId) || current;
+
+  const rows = useMemo(() => {
+    if (!selected) return [];
+    return toSideBySide(diffLines(htmlToMarkdown(selected.content), htmlToMarkdown(compareTo.content)));
+  }, [selected, compareTo.content]);
+
+  const handleRestore = () => {
+    if (!selected) return;
+    const restored = restoreNoteRevision(note.id, selected.id);
+    if (restored) {
+      onRestored(restored);
+      setHistoryKey(k => k + 1);
+      setSelectedId(null);
+      setCompareId(CURRENT_ID);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+        onClick={onClose}
+      />
+
+      {/* Dialog */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center px-4">
+        <div
+          className="w-full max-w-5xl rounded-xl shadow-2xl overflow-hidden flex flex-col h-[80vh]"
+          style={{ background: colors.bg, border: `1px solid ${colors.border}` }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="px-6 py-4 border-b flex items-center justify-between" style={{ borderColor: colors.border }}>
+            <div className="flex items-center gap-2">
+              <History size={18} style={{ color: colors.textMuted }} />
+              <div>
+                <h3 className="font-semibold text-lg" style={{ color: colors.text }}>Version History</h3>
+                <p className="text-sm mt-0.5" style={{ color: colors.textMuted }}>
+                  {revisions.length} saved {revisions.length === 1 ? 'version' : 'versions'} of "{note.title || 'Untitled'}"
+                </p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-1.5 rounded hover:bg-white/10" style={{ color: colors.textMuted }}>
+              <X size={18} />
+            </button>
+          </div>
+
+          {revisions.length === 0 ? (
+            <div className="flex-1 flex items-center justify-center text-sm" style={{ color: colors.textMuted }}>
+              No earlier versions yet. Versions are saved as you edit.
+            </div>
+          ) : (
+            <div className="flex-1 flex min-h-0">
+              {/* Revision list */}
+              <div className="w-56 shrink-0 border-r overflow-y-auto py-2" style={{ borderColor: colors.border }}>
+                {revisions.map(revision => (
+                  <button
+                    key={revision.id}
+                    onClick={() => { setSelectedId(revision.id); setCompareId(CURRENT_ID); }}
+                    className="w-full text-left px-4 py-2 text-sm transition-colors"
+                    style={{
+                      background: revision.id === selected?.id ? colors.hover : 'transparent',
+                      color: colors.text,
+                    }}
+                  >
+                    <div>{formatWhen(revision.editedAt || revision.createdAt)}</div>
+                    <div className="text-xs truncate" style={{ color: colors.textMuted }}>
+                      {revision.reason === 'restore' ? 'Before restore · ' : ''}
+                      {revision.title || 'Untitled'}
+                    </div>
+                  </button>
+                ))}
+              </div>
+
+              {/* Diff */}
+              <div className="flex-1 flex flex-col min-w-0">
+                <div className="px-4 py-2 border-b flex items-center justify-between gap-3 text-sm" style={{ borderColor: colors.border, color: colors.textMuted }}>
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="truncate">{selected && formatWhen(selected.editedAt || selected.createdAt)}</span>
+                    <span>→</span>
+                    <select
+                      value={compareTo.id}
+                      onChange={(e) => setCompareId(e.target.value)}
+                      className="bg-transparent outline-none rounded px-1 py-0.5"
+                      style={{ color: colors.text, border: `1px solid ${colors.border}` }}
+                    >
+                      {compareOptions.map(option => (
+                        <option key={option.id} value={option.id} style={{ background: colors.bg }}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <button
+                    onClick={handleRestore}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium shrink-0"
+                    style={{ background: colors.accent, color: '#fff' }}
+                  >
+                    <RotateCcw size={14} />
+                    Restore this version
+                  </button>
+                </div>
+
+                {selected && selected.title !== compareTo.title && (
+                  <div className="grid grid-cols-2 border-b text-sm font-medium" style={{ borderColor: colors.border, color: colors.text }}>
+                    <div className="px-4 py-2" style={DIFF_STYLES.delete}>{selected.title || 'Untitled'}</div>
+                    <div className="px-4 py-2" style={DIFF_STYLES.insert}>{compareTo.title || 'Untitled'}</div>
+                  </div>
+                )}
+
+                <div className="flex-1 overflow-auto font-mono text-xs">
+                  {rows.map((row, index) => (
+                    <div key={index} className="grid grid-cols-2">
+                      {[row.left, row.right].map((cell, side) => (
+                        <div
+                          key={side}
+                          className="px-4 py-0.5 whitespace-pre-wrap break-words min-h-[1.25rem]"
+                          style={{
+                            ...(cell ? DIFF_STYLES[cell.type] : {}),
+                            color: cell?.type === 'equal' ? colors.textMuted : colors.text,
+                            borderRight: side === 0 ? `1px solid ${colors.border}` : undefined,
+                          }}
+                        >
+                          {cell?.line}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default NoteHistoryPanel;
@@ -1,18 +1,18 @@
 // =============================================================================
-// QUICK SEARCH MODAL — Cmd+K search across all notes
+// QUICK SEARCH MODAL — Cmd+K search across the workspace
 // =============================================================================
 // Features:
 // - Global keyboard shortcut (Cmd+K / Ctrl+K)
-// - Search across note titles and content
+// - Full-text search across notes, contacts, tasks and interactions
+// - Filter operators: @contact, #topic, is:task, before:/after:YYYY-MM-DD
 // - Keyboard navigation through results
 // - Enter to open selected note
 // - Recent searches
 // =============================================================================
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Search, FileText, Calendar, X, Clock, ArrowUpRight } from 'lucide-react';
-import { getAllNotes } from '../../services/noteStore';
-import type { Note } from '../../types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Search, FileText, X, Clock, ArrowUpRight, User, CheckSquare, MessageSquare } from 'lucide-react';
+import { searchWorkspace, type SearchResult, type SearchResultType } from '../../services/searchService';
 
 // =============================================================================
 // TYPES
@@ -22,10 +22,26 @@ export interface QuickSearchModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSelectNote: (noteId: string) => void;
+  /** Opens the contact behind contact, task and interaction results */
+  onSelectContact?: (contactId: string) => void;
   theme: 'light' | 'dark';
   colors: Record<string, string>;
 }
 
+const RESULT_ICONS: Record<SearchResultType, React.ElementType> = {
+  note: FileText,
+  contact: User,
+  task: CheckSquare,
+  interaction: MessageSquare,
+};
+
+const RESULT_LABELS: Record<SearchResultType, string> = {
+  note: 'Note',
+  contact: 'Contact',
+  task: 'Task',
+  interaction: 'Interaction',
+};
+
 // =============================================================================
 // COMPONENT
 // =============================================================================
@@ -34,6 +50,7 @@ export const QuickSearchModal: React.FC<QuickSearchModalProps> = ({
   isOpen,
   onClose,
   onSelectNote,
+  onSelectContact,
   theme,
   colors,
 }) => {
@@ -51,16 +68,11 @@ export const QuickSearchModal: React.FC<QuickSearchModalProps> = ({
   const inputRef = useRef<HTMLInputElement>(null);
   const resultsRef = useRef<HTMLDivElement>(null);
 
-  // Search notes
-  const allNotes = getAllNotes().filter(n => !n.isArchived);
-  const searchResults = query.trim()
-    ? allNotes.filter(note => {
-        const searchStr = query.toLowerCase();
-        const titleMatch = (note.title || '').toLowerCase().includes(searchStr);
-        const contentMatch = (note.content || '').toLowerCase().includes(searchStr);
-        return titleMatch || contentMatch;
-      }).slice(0, 10)
-    : [];
+  // Search the workspace index
+  const searchResults = useMemo(
+    () => (query.trim() ? searchWorkspace(query, { limit: 20 }) : []),
+    [query]
+  );
 
   // Auto-focus input when modal opens
   useEffect(() => {
@@ -88,18 +100,22 @@ export const QuickSearchModal: React.FC<QuickSearchModalProps> = ({
       setSelectedIndex(prev => Math.max(prev - 1, 0));
     } else if (e.key === 'Enter' && searchResults.length > 0) {
       e.preventDefault();
-      handleSelectNote(searchResults[selectedIndex]);
+      handleSelectResult(searchResults[selectedIndex]);
     }
   }, [searchResults, selectedIndex, onClose]);
 
-  // Save recent search and select note
-  const handleSelectNote = (note: Note) => {
+  // Save recent search and open the result
+  const handleSelectResult = (result: SearchResult) => {
     if (query.trim()) {
       const updated = [query.trim(), ...recentSearches.filter(s => s !== query.trim())].slice(0, 5);
       setRecentSearches(updated);
       localStorage.setItem('framelord_recent_searches', JSON.stringify(updated));
     }
-    onSelectNote(note.id);
+    if (result.type === 'note') {
+      onSelectNote(result.id);
+    } else if (result.contactId) {
+      onSelectContact?.(result.contactId);
+    }
     onClose();
   };
 
@@ -135,7 +151,7 @@ export const QuickSearchModal: React.FC<QuickSearchModalProps> = ({
               value={query}
               onChange={(e) => setQuery(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder="Search notes..."
+              placeholder="Search notes, contacts, tasks..."
               className="flex-1 bg-transparent outline-none text-base"
               style={{ color: colors.text }}
             />
@@ -161,48 +177,52 @@ export const QuickSearchModal: React.FC<QuickSearchModalProps> = ({
             {query.trim() ? (
               searchResults.length > 0 ? (
                 <div className="py-2">
-                  {searchResults.map((note, index) => (
-                    <button
-                      key={note.id}
-                      onClick={() => handleSelectNote(note)}
-                      onMouseEnter={() => setSelectedIndex(index)}
-                      className="w-full flex items-start gap-3 px-4 py-3 text-left transition-colors"
-                      style={{
-                        background: index === selectedIndex ? colors.hover : 'transparent',
-                        color: colors.text,
-                      }}
-                    >
-                      <div className="text-lg mt-0.5">
-                        {note.icon || (note.dateKey ? '📅' : '📄')}
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-2 mb-1">
-                          <h4 className="font-medium truncate">
-                            {note.title || 'Untitled'}
-                          </h4>
-                          {note.dateKey && (
-                            <span className="text-xs px-1.5 py-0.5 rounded" style={{ background: colors.hover, color: colors.textMuted }}>
-                              {note.dateKey}
+                  {searchResults.map((result, index) => {
+                    const Icon = RESULT_ICONS[result.type];
+                    return (
+                      <button
+                        key={`${result.type}:${result.id}`}
+                        onClick={() => handleSelectResult(result)}
+                        onMouseEnter={() => setSelectedIndex(index)}
+                        className="w-full flex items-start gap-3 px-4 py-3 text-left transition-colors"
+                        style={{
+                          background: index === selectedIndex ? colors.hover : 'transparent',
+                          color: colors.text,
+                        }}
+                      >
+                        <Icon size={18} className="mt-0.5 shrink-0" style={{ color: colors.textMuted }} />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 mb-1">
+                            <h4 className="font-medium truncate">
+                              {result.title}
+                            </h4>
+                            <span className="text-xs px-1.5 py-0.5 rounded shrink-0" style={{ background: colors.hover, color: colors.textMuted }}>
+                              {RESULT_LABELS[result.type]}
                             </span>
+                            {result.date && (
+                              <span className="text-xs shrink-0" style={{ color: colors.textMuted }}>
+                                {result.date.slice(0, 10)}
+                              </span>
+                            )}
+                          </div>
+                          {result.snippet && (
+                            <p className="text-sm line-clamp-2" style={{ color: colors.textMuted }}>
+                              {result.snippet}
+                            </p>
                           )}
                         </div>
-                        {note.content && (
-                          <p className="text-sm line-clamp-2" style={{ color: colors.textMuted }}>
-                            {note.content.slice(0, 150)}
-                          </p>
+                        {index === selectedIndex && (
+                          <ArrowUpRight size={16} style={{ color: colors.textMuted }} className="mt-1 shrink-0" />
                         )}
-                      </div>
-                      {index === selectedIndex && (
-                        <ArrowUpRight size={16} style={{ color: colors.textMuted }} className="mt-1 shrink-0" />
-                      )}
-                    </button>
-                  ))}
+                      </button>
+                    );
+                  })}
                 </div>
               ) : (
                 <div className="flex flex-col items-center justify-center py-12 px-4 text-center">
                   <Search size={32} className="mb-3 opacity-20" style={{ color: colors.textMuted }} />
                   <p className="text-sm" style={{ color: colors.textMuted }}>
-                    No notes found for "{query}"
+                    No results for "{query}"
                   </p>
                 </div>
               )
@@ -227,10 +247,10 @@ export const QuickSearchModal: React.FC<QuickSearchModalProps> = ({
               <div className="flex flex-col items-center justify-center py-12 px-4 text-center">
                 <Search size={32} className="mb-3 opacity-20" style={{ color: colors.textMuted }} />
                 <p className="text-sm" style={{ color: colors.textMuted }}>
-                  Start typing to search notes
+                  Start typing to search notes, contacts, tasks and interactions
                 </p>
                 <p className="text-xs mt-1" style={{ color: colors.textMuted }}>
-                  Search by title or content
+                  Filter with @contact, #topic, is:task, before:2026-01-01
                 </p>
               </div>
             )}
@@ -196,8 +196,10 @@ export const RightSidebar: React.FC<RightSidebarProps> = ({
         {activeTab === 'comments' && (
           <CommentsTab
             noteId={noteId}
+            noteContent={noteContent}
             theme={theme}
             colors={colors}
+            onNavigateToNote={onNavigateToNote}
           />
         )}
       </div>
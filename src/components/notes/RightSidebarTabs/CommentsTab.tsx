@@ -1,452 +1,568 @@
 // =============================================================================
 // COMMENTS TAB — Document comments for right sidebar
 // =============================================================================
-// Displays comments on the document with full CRUD functionality
-// - Add comments to content selections
-// - Reply to comments
-// - Edit and delete own comments
-// - Thread conversations
+// Threaded comments backed by noteCommentStore:
+// - Start a thread on the whole note or on the selected passage
+// - Reply, edit and delete own comments
+// - Resolve / reopen threads (resolved threads are hidden by default)
+// - @mention contacts with autocomplete
+// - "On my notes" feed of comments across all notes
+// Anchored passages follow edits to the note; when a passage is deleted the
+// thread is kept and marked as detached.
 // =============================================================================
 
-import React, { useState, useMemo, useCallback } from 'react';
-import { MessageCircle, Send, MoreVertical, Edit2, Trash2, Reply, User } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import {
+  MessageCircle,
+  Send,
+  MoreVertical,
+  Edit2,
+  Trash2,
+  Reply,
+  User,
+  Check,
+  RotateCcw,
+  Quote,
+  X,
+  Inbox,
+} from 'lucide-react';
+import {
+  addComment,
+  replyToComment,
+  editComment,
+  deleteComment,
+  resolveThread,
+  reopenThread,
+  reanchorThreads,
+  getCommentThreads,
+  getCommentsOnMyNotes,
+  getCommentAuthorName,
+  subscribeComments,
+  type NoteComment,
+  type CommentThread,
+} from '../../../services/noteCommentStore';
+import { CONTACT_ZERO, getContactById, searchContactsByName } from '../../../services/contactStore';
+import { createTextAnchor, htmlToAnchorText, normalizeAnchorText, type TextAnchor } from '../../../lib/editor/textAnchor';
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-export interface Comment {
-  id: string;
-  noteId: string;
-  author: string;
-  authorId: string;
-  avatar?: string;
-  content: string;
-  timestamp: string;
-  selection?: {
-    start: number;
-    end: number;
-    text: string;
-  };
-  parentId?: string;
-  replies: Comment[];
-}
-
 export interface CommentsTabProps {
   noteId?: string;
+  /** Current note HTML, used to anchor comments to passages */
+  noteContent?: string;
   currentUserId?: string;
   currentUserName?: string;
   theme: 'light' | 'gray' | 'dark';
   colors: Record<string, string>;
-  onAddComment?: (content: string, selection?: any) => void;
+  onAddComment?: (content: string, selection?: TextAnchor) => void;
+  /** Open a note from the "On my notes" feed */
+  onNavigateToNote?: (noteId: string) => void;
 }
 
+type CommentsView = 'note' | 'feed';
+
+const formatTime = (iso: string): string => {
+  const date = new Date(iso);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+// =============================================================================
+// MENTIONS
+// =============================================================================
+
+/** "@query" being typed at the end of the text before the cursor */
+const MENTION_QUERY = /(?:^|\s)@([^\s@]*(?: [^\s@]*)?)$/;
+
+/** Split comment text so resolved @mentions can be highlighted */
+const renderWithMentions = (comment: NoteComment, accent: string): React.ReactNode => {
+  const names = comment.mentionedContactIds
+    .map(id => getContactById(id)?.fullName)
+    .filter((name): name is string => !!name)
+    .sort((a, b) => b.length - a.length);
+  if (names.length === 0) return comment.content;
+
+  const escaped = names.map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const parts = comment.content.split(new RegExp(`(@(?:${escaped.join('|')}))`, 'gi'));
+  return parts.map((part, index) =>
+    index % 2 === 1 ? (
+      <span key={index} className="font-medium" style={{ color: accent }}>{part}</span>
+    ) : (
+      part
+    )
+  );
+};
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  minHeight: string;
+  autoFocus?: boolean;
+  className: string;
+  colors: Record<string, string>;
+}
+
+/** Textarea with an @mention contact picker */
+const MentionTextarea: React.FC<MentionTextareaProps> = ({
+  value,
+  onChange,
+  placeholder,
+  minHeight,
+  autoFocus,
+  className,
+  colors,
+}) => {
+  const [cursor, setCursor] = useState(value.length);
+  const query = value.slice(0, cursor).match(MENTION_QUERY)?.[1];
+  const suggestions = useMemo(
+    () => (query ? searchContactsByName(query, 5) : []),
+    [query]
+  );
+
+  const insertMention = (fullName: string) => {
+    const before = value.slice(0, cursor).replace(/@[^@]*$/, `@${fullName} `);
+    onChange(before + value.slice(cursor));
+    setCursor(before.length);
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        value={value}
+        onChange={(e) => { onChange(e.target.value); setCursor(e.target.selectionStart); }}
+        onSelect={(e) => setCursor(e.currentTarget.selectionStart)}
+        placeholder={placeholder}
+        className={className}
+        style={{ background: colors.bg, borderColor: colors.border, color: colors.text, minHeight }}
+        autoFocus={autoFocus}
+      />
+      {suggestions.length > 0 && (
+        <div
+          className="absolute left-0 right-0 bottom-full mb-1 z-50 py-1 rounded-lg shadow-lg"
+          style={{ background: colors.sidebar, border: `1px solid ${colors.border}` }}
+        >
+          {suggestions.map(contact => (
+            <button
+              key={contact.id}
+              onMouseDown={(e) => { e.preventDefault(); insertMention(contact.fullName); }}
+              className="w-full flex items-center gap-2 px-3 py-1.5 text-xs text-left hover:bg-white/5"
+              style={{ color: colors.text }}
+            >
+              <User size={12} style={{ color: colors.textMuted }} />
+              {contact.fullName}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // =============================================================================
 // COMPONENT
 // =============================================================================
 
 export const CommentsTab: React.FC<CommentsTabProps> = ({
   noteId,
-  currentUserId = 'user-1',
-  currentUserName = 'You',
+  noteContent,
+  currentUserId = CONTACT_ZERO.id,
+  currentUserName = CONTACT_ZERO.fullName,
   theme,
   colors,
   onAddComment,
+  onNavigateToNote,
 }) => {
+  const [view, setView] = useState<CommentsView>('note');
+  const [showResolved, setShowResolved] = useState(false);
   const [newComment, setNewComment] = useState('');
+  const [pendingAnchor, setPendingAnchor] = useState<TextAnchor | null>(null);
   const [replyingTo, setReplyingTo] = useState<string | null>(null);
   const [replyText, setReplyText] = useState('');
   const [editingCommentId, setEditingCommentId] = useState<string | null>(null);
   const [editText, setEditText] = useState('');
   const [showMenuFor, setShowMenuFor] = useState<string | null>(null);
 
-  // Mock comments - in real implementation, would fetch from noteStore
-  // Comments would be stored as part of note metadata or in a separate comments store
-  const [comments, setComments] = useState<Comment[]>(() => {
-    if (!noteId) return [];
-
-    // TODO: Load from noteStore or separate comments service
-    // For now, return mock data
-    return [
-      {
-        id: 'comment-1',
-        noteId,
-        author: 'Alice',
-        authorId: 'user-2',
-        content: 'This is a great point! Could you elaborate more on this section?',
-        timestamp: new Date(Date.now() - 3600000).toISOString(),
-        selection: {
-          start: 0,
-          end: 50,
-          text: 'Selected text example',
-        },
-        replies: [
-          {
-            id: 'comment-2',
-            noteId,
-            author: currentUserName,
-            authorId: currentUserId,
-            content: 'Sure! I can add more details about this.',
-            timestamp: new Date(Date.now() - 1800000).toISOString(),
-            parentId: 'comment-1',
-            replies: [],
-          },
-        ],
-      },
-    ];
-  });
-
-  // Add new comment
-  const handleAddComment = useCallback(() => {
-    if (!newComment.trim() || !noteId) return;
-
-    const comment: Comment = {
-      id: `comment-${Date.now()}`,
-      noteId,
-      author: currentUserName,
-      authorId: currentUserId,
-      content: newComment.trim(),
-      timestamp: new Date().toISOString(),
-      replies: [],
-    };
-
-    setComments(prev => [...prev, comment]);
-    setNewComment('');
-    onAddComment?.(comment.content);
+  // Re-render on any comment change (including other notes, for the feed)
+  const [commentsVersion, setCommentsVersion] = useState(0);
+  useEffect(() => subscribeComments(() => setCommentsVersion(v => v + 1)), []);
 
-    // TODO: Persist to noteStore or comments service
-  }, [newComment, noteId, currentUserId, currentUserName, onAddComment]);
+  const author = useMemo(() => ({ contactId: currentUserId, name: currentUserName }), [currentUserId, currentUserName]);
+  const anchorText = useMemo(() => (noteContent !== undefined ? htmlToAnchorText(noteContent) : undefined), [noteContent]);
 
-  // Add reply
-  const handleAddReply = useCallback((parentId: string) => {
-    if (!replyText.trim() || !noteId) return;
-
-    const reply: Comment = {
-      id: `comment-${Date.now()}`,
-      noteId,
-      author: currentUserName,
-      authorId: currentUserId,
-      content: replyText.trim(),
-      timestamp: new Date().toISOString(),
-      parentId,
-      replies: [],
-    };
-
-    setComments(prev =>
-      prev.map(c =>
-        c.id === parentId
-          ? { ...c, replies: [...c.replies, reply] }
-          : c
-      )
-    );
+  const threads = useMemo(
+    () => (noteId ? getCommentThreads(noteId, anchorText) : []),
+    [noteId, anchorText, commentsVersion]
+  );
+  const visibleThreads = showResolved ? threads : threads.filter(t => !t.resolved);
+  const resolvedCount = threads.filter(t => t.resolved).length;
 
-    setReplyText('');
-    setReplyingTo(null);
+  const feed = useMemo(
+    () => (view === 'feed' ? getCommentsOnMyNotes({ includeOwn: true, includeResolved: showResolved, limit: 100 }) : []),
+    [view, showResolved, commentsVersion]
+  );
 
-    // TODO: Persist to noteStore
-  }, [replyText, noteId, currentUserId, currentUserName]);
+  // Keep stored anchors in step with the note so they stay resolvable
+  useEffect(() => {
+    if (anchorText !== undefined) reanchorThreads(threads, anchorText);
+  }, [threads, anchorText]);
 
-  // Delete comment
-  const handleDeleteComment = useCallback((commentId: string) => {
-    setComments(prev =>
-      prev.filter(c => c.id !== commentId).map(c => ({
-        ...c,
-        replies: c.replies.filter(r => r.id !== commentId),
-      }))
-    );
+  // Drop a pending selection when switching notes
+  useEffect(() => {
+    setPendingAnchor(null);
+  }, [noteId]);
+
+  // Anchor the new comment to whatever is selected in the editor
+  const handleQuoteSelection = useCallback(() => {
+    const selected = typeof window !== 'undefined' ? window.getSelection()?.toString() || '' : '';
+    if (!anchorText || !normalizeAnchorText(selected)) return;
+    setPendingAnchor(createTextAnchor(anchorText, selected));
+  }, [anchorText]);
 
-    // TODO: Persist to noteStore
-  }, []);
+  // Add new thread
+  const handleAddComment = useCallback(() => {
+    if (!noteId) return;
+    const comment = addComment(noteId, newComment, { anchor: pendingAnchor, author });
+    if (!comment) return;
+
+    setNewComment('');
+    setPendingAnchor(null);
+    onAddComment?.(comment.content, comment.anchor);
+  }, [newComment, noteId, pendingAnchor, author, onAddComment]);
+
+  // Add reply
+  const handleAddReply = useCallback((threadId: string) => {
+    if (!replyToComment(threadId, replyText, { author })) return;
+    setReplyText('');
+    setReplyingTo(null);
+  }, [replyText, author]);
 
   // Edit comment
   const handleEditComment = useCallback((commentId: string) => {
-    if (!editText.trim()) return;
-
-    setComments(prev =>
-      prev.map(c => {
-        if (c.id === commentId) {
-          return { ...c, content: editText.trim() };
-        }
-        return {
-          ...c,
-          replies: c.replies.map(r =>
-            r.id === commentId ? { ...r, content: editText.trim() } : r
-          ),
-        };
-      })
-    );
-
+    if (!editComment(commentId, editText)) return;
     setEditingCommentId(null);
     setEditText('');
-
-    // TODO: Persist to noteStore
   }, [editText]);
 
   // Start editing
-  const startEdit = (comment: Comment) => {
+  const startEdit = (comment: NoteComment) => {
     setEditingCommentId(comment.id);
     setEditText(comment.content);
     setShowMenuFor(null);
   };
 
-  return (
-    <div className="flex-1 flex flex-col overflow-hidden">
-      {/* Header */}
-      <div className="px-4 py-3 border-b" style={{ borderColor: colors.border }}>
-        <h3 className="text-sm font-medium" style={{ color: colors.text }}>
-          Comments
-        </h3>
-      </div>
+  const renderComment = (comment: NoteComment, isReply: boolean) => (
+    <>
+      <div className="flex items-start gap-2 mb-1">
+        <div
+          className={`${isReply ? 'w-6 h-6' : 'w-7 h-7'} rounded-full flex items-center justify-center text-xs font-medium shrink-0`}
+          style={{ background: colors.accent, color: '#fff' }}
+        >
+          <User size={isReply ? 12 : 14} />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-xs font-medium" style={{ color: colors.text }}>
+            {getCommentAuthorName(comment)}
+          </p>
+          <p className="text-xs" style={{ color: colors.textMuted }}>
+            {formatTime(comment.createdAt)}
+            {comment.updatedAt !== comment.createdAt && ' · edited'}
+          </p>
+        </div>
 
-      {/* Content */}
-      <div className="flex-1 overflow-y-auto px-4 py-3">
-        {comments.length === 0 ? (
-          // Empty State
-          <div className="flex flex-col items-center justify-center h-full text-center px-4">
-            <MessageCircle size={32} className="mb-3 opacity-20" style={{ color: colors.textMuted }} />
-            <p className="text-xs mb-1" style={{ color: colors.textMuted }}>
-              No comments yet
-            </p>
-            <p className="text-xs" style={{ color: colors.textMuted }}>
-              Add your first comment below
-            </p>
-          </div>
-        ) : (
-          // Comments List
-          <div className="space-y-4">
-            {comments.map((comment) => (
-              <div key={comment.id} className="space-y-2">
-                {/* Main Comment */}
+        {/* Action Menu */}
+        {comment.authorContactId === currentUserId && (
+          <div className="relative">
+            <button
+              onClick={() => setShowMenuFor(showMenuFor === comment.id ? null : comment.id)}
+              className="p-1 rounded hover:bg-white/10"
+              style={{ color: colors.textMuted }}
+            >
+              <MoreVertical size={14} />
+            </button>
+
+            {showMenuFor === comment.id && (
+              <>
+                <div className="fixed inset-0 z-40" onClick={() => setShowMenuFor(null)} />
                 <div
-                  className="p-3 rounded-lg"
-                  style={{ background: colors.hover }}
+                  className="absolute right-0 top-full mt-1 z-50 py-1 rounded-lg shadow-lg min-w-28"
+                  style={{ background: colors.sidebar, border: `1px solid ${colors.border}` }}
                 >
-                  {/* Comment Header */}
-                  <div className="flex items-start gap-2 mb-2">
-                    <div
-                      className="w-7 h-7 rounded-full flex items-center justify-center text-xs font-medium shrink-0"
-                      style={{ background: colors.accent, color: '#fff' }}
-                    >
-                      {comment.avatar ? (
-                        <img src={comment.avatar} alt={comment.author} className="w-full h-full rounded-full object-cover" />
-                      ) : (
-                        <User size={14} />
-                      )}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-xs font-medium" style={{ color: colors.text }}>
-                        {comment.author}
-                      </p>
-                      <p className="text-xs" style={{ color: colors.textMuted }}>
-                        {new Date(comment.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                      </p>
-                    </div>
-
-                    {/* Action Menu */}
-                    {comment.authorId === currentUserId && (
-                      <div className="relative">
-                        <button
-                          onClick={() => setShowMenuFor(showMenuFor === comment.id ? null : comment.id)}
-                          className="p-1 rounded hover:bg-white/10"
-                          style={{ color: colors.textMuted }}
-                        >
-                          <MoreVertical size={14} />
-                        </button>
-
-                        {showMenuFor === comment.id && (
-                          <>
-                            <div className="fixed inset-0 z-40" onClick={() => setShowMenuFor(null)} />
-                            <div
-                              className="absolute right-0 top-full mt-1 z-50 py-1 rounded-lg shadow-lg min-w-28"
-                              style={{ background: colors.sidebar, border: `1px solid ${colors.border}` }}
-                            >
-                              <button
-                                onClick={() => startEdit(comment)}
-                                className="w-full flex items-center gap-2 px-3 py-1.5 text-xs hover:bg-white/5"
-                                style={{ color: colors.text }}
-                              >
-                                <Edit2 size={12} />
-                                Edit
-                              </button>
-                              <button
-                                onClick={() => { handleDeleteComment(comment.id); setShowMenuFor(null); }}
-                                className="w-full flex items-center gap-2 px-3 py-1.5 text-xs hover:bg-white/5"
-                                style={{ color: '#ef4444' }}
-                              >
-                                <Trash2 size={12} />
-                                Delete
-                              </button>
-                            </div>
-                          </>
-                        )}
-                      </div>
-                    )}
-                  </div>
-
-                  {/* Selection Quote */}
-                  {comment.selection && (
-                    <div className="mb-2 px-2 py-1.5 rounded border-l-2" style={{ background: colors.bg, borderColor: colors.accent }}>
-                      <p className="text-xs italic" style={{ color: colors.textMuted }}>
-                        "{comment.selection.text}"
-                      </p>
-                    </div>
-                  )}
-
-                  {/* Comment Content */}
-                  {editingCommentId === comment.id ? (
-                    <div className="space-y-2">
-                      <textarea
-                        value={editText}
-                        onChange={(e) => setEditText(e.target.value)}
-                        className="w-full px-2 py-1.5 rounded text-xs resize-none outline-none border"
-                        style={{
-                          background: colors.bg,
-                          borderColor: colors.border,
-                          color: colors.text,
-                          minHeight: '60px',
-                        }}
-                        autoFocus
-                      />
-                      <div className="flex items-center gap-2 justify-end">
-                        <button
-                          onClick={() => { setEditingCommentId(null); setEditText(''); }}
-                          className="px-2 py-1 rounded text-xs"
-                          style={{ background: colors.bg, color: colors.textMuted }}
-                        >
-                          Cancel
-                        </button>
-                        <button
-                          onClick={() => handleEditComment(comment.id)}
-                          className="px-2 py-1 rounded text-xs font-medium"
-                          style={{ background: colors.accent, color: '#fff' }}
-                        >
-                          Save
-                        </button>
-                      </div>
-                    </div>
-                  ) : (
-                    <p className="text-xs whitespace-pre-wrap" style={{ color: colors.text }}>
-                      {comment.content}
-                    </p>
-                  )}
-
-                  {/* Reply Button */}
-                  {editingCommentId !== comment.id && (
-                    <button
-                      onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
-                      className="mt-2 flex items-center gap-1 text-xs hover:underline"
-                      style={{ color: colors.accent }}
-                    >
-                      <Reply size={12} />
-                      Reply
-                    </button>
-                  )}
+                  <button
+                    onClick={() => startEdit(comment)}
+                    className="w-full flex items-center gap-2 px-3 py-1.5 text-xs hover:bg-white/5"
+                    style={{ color: colors.text }}
+                  >
+                    <Edit2 size={12} />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => { deleteComment(comment.id); setShowMenuFor(null); }}
+                    className="w-full flex items-center gap-2 px-3 py-1.5 text-xs hover:bg-white/5"
+                    style={{ color: '#ef4444' }}
+                  >
+                    <Trash2 size={12} />
+                    {isReply ? 'Delete' : 'Delete thread'}
+                  </button>
                 </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {editingCommentId === comment.id ? (
+        <div className="space-y-2">
+          <MentionTextarea
+            value={editText}
+            onChange={setEditText}
+            minHeight="60px"
+            className="w-full px-2 py-1.5 rounded text-xs resize-none outline-none border"
+            colors={colors}
+            autoFocus
+          />
+          <div className="flex items-center gap-2 justify-end">
+            <button
+              onClick={() => { setEditingCommentId(null); setEditText(''); }}
+              className="px-2 py-1 rounded text-xs"
+              style={{ background: colors.bg, color: colors.textMuted }}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => handleEditComment(comment.id)}
+              className="px-2 py-1 rounded text-xs font-medium"
+              style={{ background: colors.accent, color: '#fff' }}
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className={`text-xs whitespace-pre-wrap ${isReply ? 'ml-8' : ''}`} style={{ color: colors.text }}>
+          {renderWithMentions(comment, colors.accent)}
+        </p>
+      )}
+    </>
+  );
+
+  const renderAnchor = (thread: CommentThread) => {
+    const { anchor } = thread.root;
+    if (!anchor) return null;
+    return (
+      <div className="mb-2 px-2 py-1.5 rounded border-l-2" style={{ background: colors.bg, borderColor: thread.orphaned ? colors.textMuted : colors.accent }}>
+        <p className={`text-xs italic ${thread.orphaned ? 'line-through' : ''}`} style={{ color: colors.textMuted }}>
+          "{thread.range?.drifted ? thread.range.text : anchor.quote}"
+        </p>
+        {thread.orphaned && (
+          <p className="text-[10px] mt-0.5" style={{ color: colors.textMuted }}>
+            The commented text was removed from the note
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const renderThread = (thread: CommentThread) => {
+    const { root } = thread;
+    return (
+      <div key={root.id} className="space-y-2" style={{ opacity: thread.resolved ? 0.6 : 1 }}>
+        {/* Root Comment */}
+        <div className="p-3 rounded-lg" style={{ background: colors.hover }}>
+          {renderAnchor(thread)}
+          {renderComment(root, false)}
+
+          {/* Thread Actions */}
+          {editingCommentId !== root.id && (
+            <div className="mt-2 flex items-center gap-3">
+              <button
+                onClick={() => setReplyingTo(replyingTo === root.id ? null : root.id)}
+                className="flex items-center gap-1 text-xs hover:underline"
+                style={{ color: colors.accent }}
+              >
+                <Reply size={12} />
+                Reply
+              </button>
+              <button
+                onClick={() => (thread.resolved ? reopenThread(root.id) : resolveThread(root.id, currentUserId))}
+                className="flex items-center gap-1 text-xs hover:underline"
+                style={{ color: colors.textMuted }}
+              >
+                {thread.resolved ? <RotateCcw size={12} /> : <Check size={12} />}
+                {thread.resolved ? 'Reopen' : 'Resolve'}
+              </button>
+            </div>
+          )}
+        </div>
 
-                {/* Replies */}
-                {comment.replies.length > 0 && (
-                  <div className="ml-6 space-y-2">
-                    {comment.replies.map((reply) => (
-                      <div
-                        key={reply.id}
-                        className="p-2 rounded"
-                        style={{ background: colors.hover }}
-                      >
-                        <div className="flex items-start gap-2 mb-1">
-                          <div
-                            className="w-6 h-6 rounded-full flex items-center justify-center text-xs"
-                            style={{ background: colors.accent, color: '#fff' }}
-                          >
-                            <User size={12} />
-                          </div>
-                          <div className="flex-1">
-                            <p className="text-xs font-medium" style={{ color: colors.text }}>
-                              {reply.author}
-                            </p>
-                            <p className="text-xs" style={{ color: colors.textMuted }}>
-                              {new Date(reply.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                            </p>
-                          </div>
-                        </div>
-                        <p className="text-xs whitespace-pre-wrap ml-8" style={{ color: colors.text }}>
-                          {reply.content}
-                        </p>
-                      </div>
-                    ))}
-                  </div>
-                )}
-
-                {/* Reply Input */}
-                {replyingTo === comment.id && (
-                  <div className="ml-6 p-2 rounded" style={{ background: colors.hover }}>
-                    <textarea
-                      value={replyText}
-                      onChange={(e) => setReplyText(e.target.value)}
-                      placeholder="Write a reply..."
-                      className="w-full px-2 py-1.5 rounded text-xs resize-none outline-none border mb-2"
-                      style={{
-                        background: colors.bg,
-                        borderColor: colors.border,
-                        color: colors.text,
-                        minHeight: '50px',
-                      }}
-                      autoFocus
-                    />
-                    <div className="flex items-center gap-2 justify-end">
-                      <button
-                        onClick={() => { setReplyingTo(null); setReplyText(''); }}
-                        className="px-2 py-1 rounded text-xs"
-                        style={{ background: colors.bg, color: colors.textMuted }}
-                      >
-                        Cancel
-                      </button>
-                      <button
-                        onClick={() => handleAddReply(comment.id)}
-                        disabled={!replyText.trim()}
-                        className="px-2 py-1 rounded text-xs font-medium flex items-center gap-1 disabled:opacity-40"
-                        style={{ background: colors.accent, color: '#fff' }}
-                      >
-                        <Send size={10} />
-                        Reply
-                      </button>
-                    </div>
-                  </div>
-                )}
+        {/* Replies */}
+        {thread.replies.length > 0 && (
+          <div className="ml-6 space-y-2">
+            {thread.replies.map((reply) => (
+              <div key={reply.id} className="p-2 rounded" style={{ background: colors.hover }}>
+                {renderComment(reply, true)}
               </div>
             ))}
           </div>
         )}
+
+        {/* Reply Input */}
+        {replyingTo === root.id && (
+          <div className="ml-6 p-2 rounded" style={{ background: colors.hover }}>
+            <MentionTextarea
+              value={replyText}
+              onChange={setReplyText}
+              placeholder={thread.resolved ? 'Reply to reopen...' : 'Write a reply...'}
+              minHeight="50px"
+              className="w-full px-2 py-1.5 rounded text-xs resize-none outline-none border mb-2"
+              colors={colors}
+              autoFocus
+            />
+            <div className="flex items-center gap-2 justify-end">
+              <button
+                onClick={() => { setReplyingTo(null); setReplyText(''); }}
+                className="px-2 py-1 rounded text-xs"
+                style={{ background: colors.bg, color: colors.textMuted }}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleAddReply(root.id)}
+                disabled={!replyText.trim()}
+                className="px-2 py-1 rounded text-xs font-medium flex items-center gap-1 disabled:opacity-40"
+                style={{ background: colors.accent, color: '#fff' }}
+              >
+                <Send size={10} />
+                Reply
+              </button>
+            </div>
+          </div>
+        )}
       </div>
+    );
+  };
 
-      {/* New Comment Input */}
-      <div className="px-4 py-3 border-t" style={{ borderColor: colors.border }}>
-        <textarea
-          value={newComment}
-          onChange={(e) => setNewComment(e.target.value)}
-          placeholder="Add a comment..."
-          className="w-full px-3 py-2 rounded-lg text-xs resize-none outline-none border mb-2"
-          style={{
-            background: colors.bg,
-            borderColor: colors.border,
-            color: colors.text,
-            minHeight: '60px',
-          }}
-        />
-        <div className="flex items-center justify-between">
-          <p className="text-xs" style={{ color: colors.textMuted }}>
-            {comments.length} comment{comments.length !== 1 ? 's' : ''}
-          </p>
-          <button
-            onClick={handleAddComment}
-            disabled={!newComment.trim()}
-            className="px-3 py-1.5 rounded-lg text-xs font-medium flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
-            style={{ background: colors.accent, color: '#fff' }}
-          >
-            <Send size={12} />
-            Comment
-          </button>
+  const renderEmpty = (title: string, hint: string) => (
+    <div className="flex flex-col items-center justify-center h-full text-center px-4">
+      <MessageCircle size={32} className="mb-3 opacity-20" style={{ color: colors.textMuted }} />
+      <p className="text-xs mb-1" style={{ color: colors.textMuted }}>{title}</p>
+      <p className="text-xs" style={{ color: colors.textMuted }}>{hint}</p>
+    </div>
+  );
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="px-4 py-3 border-b flex items-center justify-between gap-2" style={{ borderColor: colors.border }}>
+        <div className="flex items-center gap-1">
+          {([['note', 'Comments'], ['feed', 'On my notes']] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              className="px-2 py-1 rounded text-xs font-medium flex items-center gap-1"
+              style={{
+                background: view === id ? colors.hover : 'transparent',
+                color: view === id ? colors.text : colors.textMuted,
+              }}
+            >
+              {id === 'feed' && <Inbox size={12} />}
+              {label}
+            </button>
+          ))}
         </div>
+        <label className="flex items-center gap-1 text-xs cursor-pointer" style={{ color: colors.textMuted }}>
+          <input
+            type="checkbox"
+            checked={showResolved}
+            onChange={(e) => setShowResolved(e.target.checked)}
+          />
+          Resolved{view === 'note' && resolvedCount > 0 ? ` (${resolvedCount})` : ''}
+        </label>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto px-4 py-3">
+        {view === 'feed' ? (
+          feed.length === 0 ? (
+            renderEmpty('No comments on your notes', 'Comments left on notes you wrote show up here')
+          ) : (
+            <div className="space-y-2">
+              {feed.map(({ comment, noteId: feedNoteId, noteTitle, resolved }) => (
+                <button
+                  key={comment.id}
+                  onClick={() => onNavigateToNote?.(feedNoteId)}
+                  className="w-full text-left p-2 rounded-lg"
+                  style={{ background: colors.hover, opacity: resolved ? 0.6 : 1 }}
+                >
+                  <p className="text-xs truncate" style={{ color: colors.textMuted }}>
+                    {getCommentAuthorName(comment)} {comment.threadId ? 'replied' : 'commented'} on{' '}
+                    <span style={{ color: colors.text }}>{noteTitle}</span> · {formatTime(comment.createdAt)}
+                  </p>
+                  <p className="text-xs mt-1 line-clamp-2 whitespace-pre-wrap" style={{ color: colors.text }}>
+                    {renderWithMentions(comment, colors.accent)}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )
+        ) : visibleThreads.length === 0 ? (
+          resolvedCount > 0
+            ? renderEmpty('All threads resolved', 'Show resolved threads to see them')
+            : renderEmpty('No comments yet', 'Add your first comment below')
+        ) : (
+          <div className="space-y-4">{visibleThreads.map(renderThread)}</div>
+        )}
       </div>
+
+      {/* New Comment Input */}
+      {view === 'note' && (
+        <div className="px-4 py-3 border-t" style={{ borderColor: colors.border }}>
+          {pendingAnchor && (
+            <div className="mb-2 px-2 py-1.5 rounded border-l-2 flex items-start gap-2" style={{ background: colors.bg, borderColor: colors.accent }}>
+              <p className="flex-1 text-xs italic line-clamp-2" style={{ color: colors.textMuted }}>
+                "{pendingAnchor.quote}"
+              </p>
+              <button onClick={() => setPendingAnchor(null)} style={{ color: colors.textMuted }}>
+                <X size={12} />
+              </button>
+            </div>
+          )}
+          <MentionTextarea
+            value={newComment}
+            onChange={setNewComment}
+            placeholder="Add a comment... (@ to mention)"
+            minHeight="60px"
+            className="w-full px-3 py-2 rounded-lg text-xs resize-none outline-none border mb-2"
+            colors={colors}
+          />
+          <div className="flex items-center justify-between">
+            <button
+              // mousedown keeps the editor selection alive until we read it
+              onMouseDown={(e) => { e.preventDefault(); handleQuoteSelection(); }}
+              disabled={!noteId || anchorText === undefined}
+              className="flex items-center gap-1 text-xs hover:underline disabled:opacity-40"
+              style={{ color: colors.textMuted }}
+              title="Attach the text selected in the note"
+            >
+              <Quote size={12} />
+              Comment on selection
+            </button>
+            <button
+              onClick={handleAddComment}
+              disabled={!newComment.trim() || !noteId}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              style={{ background: colors.accent, color: '#fff' }}
+            >
+              <Send size={12} />
+              Comment
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,364 @@
+// =============================================================================
+// SMART FOLDER DIALOG — Create or edit a saved note query
+// =============================================================================
+// Features:
+// - Topic and contact pickers (search + chips)
+// - Kind, date range (fixed or rolling), pinned, attachment and FrameScan filters
+// - Live count of matching notes while editing
+// =============================================================================
+
+import React, { useEffect, useState } from 'react';
+import { X, FolderSearch, Hash, AtSign } from 'lucide-react';
+import type { NoteKind } from '../../types';
+import {
+  runNoteQuery,
+  type NoteQuery,
+  type NoteQuerySort,
+  type SmartFolder,
+} from '../../services/smartFolderStore';
+import { searchTopicsByLabel, getTopicPath } from '../../services/topicStore';
+import { searchContactsByName, getContactById } from '../../services/contactStore';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SmartFolderDialogProps {
+  isOpen: boolean;
+  /** Folder being edited; omit to create a new one */
+  folder?: SmartFolder | null;
+  onClose: () => void;
+  onSave: (name: string, query: NoteQuery) => void;
+  colors: Record<string, string>;
+}
+
+type TriState = 'any' | 'yes' | 'no';
+
+const KIND_OPTIONS: { id: NoteKind; label: string }[] = [
+  { id: 'note', label: 'Notes' },
+  { id: 'log', label: 'Journal entries' },
+  { id: 'system', label: 'System notes' },
+];
+
+const toTriState = (value: boolean | undefined): TriState =>
+  value === undefined ? 'any' : value ? 'yes' : 'no';
+
+const fromTriState = (value: TriState): boolean | undefined =>
+  value === 'any' ? undefined : value === 'yes';
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const SmartFolderDialog: React.FC<SmartFolderDialogProps> = ({
+  isOpen,
+  folder,
+  onClose,
+  onSave,
+  colors,
+}) => {
+  const [name, setName] = useState('');
+  const [query, setQuery] = useState<NoteQuery>({});
+  const [dateMode, setDateMode] = useState<'any' | 'rolling' | 'range'>('any');
+  const [topicSearch, setTopicSearch] = useState('');
+  const [contactSearch, setContactSearch] = useState('');
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(folder?.name || '');
+    setQuery(folder?.query || {});
+    setDateMode(folder?.query.withinDays ? 'rolling' : folder?.query.after || folder?.query.before ? 'range' : 'any');
+    setTopicSearch('');
+    setContactSearch('');
+  }, [isOpen, folder]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<NoteQuery>) => setQuery(prev => ({ ...prev, ...changes }));
+
+  const topicIds = query.topicIds || [];
+  const contactIds = query.contactIds || [];
+  const topicMatches = searchTopicsByLabel(topicSearch, 6).filter(t => !topicIds.includes(t.id));
+  const contactMatches = searchContactsByName(contactSearch, 6).filter(c => !contactIds.includes(c.id));
+
+  // Drop the date criteria the selected mode does not use
+  const effectiveQuery: NoteQuery = {
+    ...query,
+    withinDays: dateMode === 'rolling' ? query.withinDays || 7 : undefined,
+    after: dateMode === 'range' ? query.after || undefined : undefined,
+    before: dateMode === 'range' ? query.before || undefined : undefined,
+  };
+  const matchCount = runNoteQuery(effectiveQuery).length;
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave(name.trim(), effectiveQuery);
+  };
+
+  const inputStyle = { background: colors.bg, borderColor: colors.border, color: colors.text };
+  const labelClass = 'block text-sm font-medium mb-2';
+
+  const triStateSelect = (label: string, value: boolean | undefined, onChange: (value: boolean | undefined) => void) => (
+    <div>
+      <label className={labelClass} style={{ color: colors.text }}>{label}</label>
+      <select
+        value={toTriState(value)}
+        onChange={(e) => onChange(fromTriState(e.target.value as TriState))}
+        className="w-full px-3 py-2 rounded-lg border focus:outline-none"
+        style={inputStyle}
+      >
+        <option value="any">Any</option>
+        <option value="yes">Yes</option>
+        <option value="no">No</option>
+      </select>
+    </div>
+  );
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50" onClick={onClose} />
+
+      {/* Dialog */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center px-4">
+        <div
+          className="w-full max-w-xl rounded-xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh]"
+          style={{ background: colors.bg, border: `1px solid ${colors.border}` }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="px-6 py-4 border-b flex items-center justify-between" style={{ borderColor: colors.border }}>
+            <div className="flex items-center gap-2">
+              <FolderSearch size={18} style={{ color: colors.accent }} />
+              <h3 className="font-semibold text-lg" style={{ color: colors.text }}>
+                {folder ? 'Edit Smart Folder' : 'New Smart Folder'}
+              </h3>
+            </div>
+            <button onClick={onClose} className="p-2 rounded-lg hover:bg-white/10" style={{ color: colors.textMuted }}>
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+            {/* Name */}
+            <div>
+              <label className={labelClass} style={{ color: colors.text }}>
+                Name <span style={{ color: colors.accent }}>*</span>
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Recent sales calls"
+                autoFocus
+                className="w-full px-3 py-2 rounded-lg border focus:outline-none focus:ring-2"
+                style={inputStyle}
+              />
+            </div>
+
+            {/* Topics */}
+            <div>
+              <label className={labelClass} style={{ color: colors.text }}>Topics (any of)</label>
+              <div className="flex flex-wrap gap-1 mb-2">
+                {topicIds.map(id => (
+                  <span key={id} className="flex items-center gap-1 px-2 py-0.5 rounded text-xs" style={{ background: colors.hover, color: colors.text }}>
+                    <Hash size={10} />
+                    {getTopicPath(id) || id}
+                    <button onClick={() => update({ topicIds: topicIds.filter(t => t !== id) })} style={{ color: colors.textMuted }}>
+                      <X size={10} />
+                    </button>
+                  </span>
+                ))}
+              </div>
+              <input
+                type="text"
+                value={topicSearch}
+                onChange={(e) => setTopicSearch(e.target.value)}
+                placeholder="Search topics…"
+                className="w-full px-3 py-2 rounded-lg border focus:outline-none"
+                style={inputStyle}
+              />
+              {topicMatches.length > 0 && (
+                <div className="mt-1 rounded-lg border overflow-hidden" style={{ borderColor: colors.border }}>
+                  {topicMatches.map(topic => (
+                    <button
+                      key={topic.id}
+                      onClick={() => { update({ topicIds: [...topicIds, topic.id] }); setTopicSearch(''); }}
+                      className="w-full text-left px-3 py-1.5 text-sm hover:bg-white/10"
+                      style={{ color: colors.text }}
+                    >
+                      #{getTopicPath(topic.id)}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Contacts */}
+            <div>
+              <label className={labelClass} style={{ color: colors.text }}>Mentioned contacts (any of)</label>
+              <div className="flex flex-wrap gap-1 mb-2">
+                {contactIds.map(id => (
+                  <span key={id} className="flex items-center gap-1 px-2 py-0.5 rounded text-xs" style={{ background: colors.hover, color: colors.text }}>
+                    <AtSign size={10} />
+                    {getContactById(id)?.fullName || 'Unknown'}
+                    <button onClick={() => update({ contactIds: contactIds.filter(c => c !== id) })} style={{ color: colors.textMuted }}>
+                      <X size={10} />
+                    </button>
+                  </span>
+                ))}
+              </div>
+              <input
+                type="text"
+                value={contactSearch}
+                onChange={(e) => setContactSearch(e.target.value)}
+                placeholder="Search contacts…"
+                className="w-full px-3 py-2 rounded-lg border focus:outline-none"
+                style={inputStyle}
+              />
+              {contactMatches.length > 0 && (
+                <div className="mt-1 rounded-lg border overflow-hidden" style={{ borderColor: colors.border }}>
+                  {contactMatches.map(contact => (
+                    <button
+                      key={contact.id}
+                      onClick={() => { update({ contactIds: [...contactIds, contact.id] }); setContactSearch(''); }}
+                      className="w-full text-left px-3 py-1.5 text-sm hover:bg-white/10"
+                      style={{ color: colors.text }}
+                    >
+                      {contact.fullName}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Kinds */}
+            <div>
+              <label className={labelClass} style={{ color: colors.text }}>Kind</label>
+              <div className="flex flex-wrap gap-3">
+                {KIND_OPTIONS.map(kind => (
+                  <label key={kind.id} className="flex items-center gap-1.5 text-sm" style={{ color: colors.text }}>
+                    <input
+                      type="checkbox"
+                      checked={query.kinds?.includes(kind.id) || false}
+                      onChange={(e) => {
+                        const kinds = (query.kinds || []).filter(k => k !== kind.id);
+                        update({ kinds: e.target.checked ? [...kinds, kind.id] : kinds });
+                      }}
+                    />
+                    {kind.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Date range */}
+            <div>
+              <label className={labelClass} style={{ color: colors.text }}>Date</label>
+              <div className="flex gap-2">
+                <select
+                  value={dateMode}
+                  onChange={(e) => setDateMode(e.target.value as typeof dateMode)}
+                  className="px-3 py-2 rounded-lg border focus:outline-none"
+                  style={inputStyle}
+                >
+                  <option value="any">Any time</option>
+                  <option value="rolling">Last N days</option>
+                  <option value="range">Between dates</option>
+                </select>
+                {dateMode === 'rolling' && (
+                  <input
+                    type="number"
+                    min={1}
+                    value={query.withinDays || 7}
+                    onChange={(e) => update({ withinDays: Math.max(1, Number(e.target.value) || 1) })}
+                    className="w-24 px-3 py-2 rounded-lg border focus:outline-none"
+                    style={inputStyle}
+                  />
+                )}
+                {dateMode === 'range' && (
+                  <>
+                    <input
+                      type="date"
+                      value={query.after || ''}
+                      onChange={(e) => update({ after: e.target.value || null })}
+                      className="flex-1 px-3 py-2 rounded-lg border focus:outline-none"
+                      style={inputStyle}
+                    />
+                    <input
+                      type="date"
+                      value={query.before || ''}
+                      onChange={(e) => update({ before: e.target.value || null })}
+                      className="flex-1 px-3 py-2 rounded-lg border focus:outline-none"
+                      style={inputStyle}
+                    />
+                  </>
+                )}
+                {dateMode !== 'any' && (
+                  <select
+                    value={query.dateField || 'created'}
+                    onChange={(e) => update({ dateField: e.target.value as NoteQuery['dateField'] })}
+                    className="px-3 py-2 rounded-lg border focus:outline-none"
+                    style={inputStyle}
+                  >
+                    <option value="created">Created</option>
+                    <option value="updated">Updated</option>
+                  </select>
+                )}
+              </div>
+            </div>
+
+            {/* Flags */}
+            <div className="grid grid-cols-3 gap-3">
+              {triStateSelect('Pinned', query.pinned, pinned => update({ pinned }))}
+              {triStateSelect('Has attachment', query.hasAttachment, hasAttachment => update({ hasAttachment }))}
+              {triStateSelect('FrameScanned', query.hasFrameScan, hasFrameScan => update({ hasFrameScan }))}
+            </div>
+
+            {/* Sort */}
+            <div>
+              <label className={labelClass} style={{ color: colors.text }}>Sort by</label>
+              <select
+                value={query.sort || 'updated'}
+                onChange={(e) => update({ sort: e.target.value as NoteQuerySort })}
+                className="w-full px-3 py-2 rounded-lg border focus:outline-none"
+                style={inputStyle}
+              >
+                <option value="updated">Recently updated</option>
+                <option value="created">Recently created</option>
+                <option value="title">Title</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="px-6 py-4 border-t flex items-center justify-between" style={{ borderColor: colors.border }}>
+            <p className="text-sm" style={{ color: colors.textMuted }}>
+              {matchCount} matching note{matchCount !== 1 ? 's' : ''}
+            </p>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 rounded-lg text-sm font-medium"
+                style={{ background: colors.hover, color: colors.text }}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!name.trim()}
+                className="px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                style={{ background: colors.accent, color: '#fff' }}
+              >
+                {folder ? 'Save' : 'Create'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default SmartFolderDialog;
@@ -6,12 +6,14 @@
 // - Template categories
 // - Preview template structure
 // - Quick create from template
+// - Fill-in step for templates with {{prompt:…}} tags or {{contact.*}} data
 // =============================================================================
 
 import React, { useState } from 'react';
 import { FileText, CheckCircle2, X, Calendar, ListChecks, Sparkles, BookOpen, Target, Scan, Mail, Users, BookMarked, Plus, Edit2, Trash2 } from 'lucide-react';
-import { noteTemplates as frameLordTemplates } from '../../services/noteTemplates';
-import { useUserTemplatesStore, replaceUserTemplateVariables } from '../../services/userTemplatesStore';
+import { noteTemplates as frameLordTemplates, getTemplateInputs, type TemplateInputs } from '../../services/noteTemplates';
+import { useUserTemplatesStore } from '../../services/userTemplatesStore';
+import { getContactById, searchContactsByName } from '../../services/contactStore';
 
 // =============================================================================
 // TYPES
@@ -25,6 +27,10 @@ export interface NoteTemplate {
   category?: 'productivity' | 'personal' | 'creative' | 'business';
   content?: string;
   body?: string;  // Support both content and body fields
+  /** Contact chosen in the fill-in step; exposed as {{contact.*}} and linked to the note */
+  contactId?: string;
+  /** Answers to the template's {{prompt:…}} tags, keyed by label */
+  promptValues?: Record<string, string>;
 }
 
 export interface TemplatePickerModalProps {
@@ -113,6 +119,12 @@ export const TemplatePickerModal: React.FC<TemplatePickerModalProps> = ({
     category: 'productivity' as const,
   });
 
+  // Fill-in step state
+  const [pendingTemplate, setPendingTemplate] = useState<{ template: NoteTemplate; inputs: TemplateInputs } | null>(null);
+  const [promptValues, setPromptValues] = useState<Record<string, string>>({});
+  const [contactId, setContactId] = useState<string | null>(null);
+  const [contactQuery, setContactQuery] = useState('');
+
   const { templates: userTemplates, addTemplate, updateTemplate, deleteTemplate } = useUserTemplatesStore();
 
   // Convert user templates to NoteTemplate format
@@ -135,22 +147,35 @@ export const TemplatePickerModal: React.FC<TemplatePickerModalProps> = ({
     ? userTemplatesFormatted
     : userTemplatesFormatted.filter(t => t.category === selectedCategory);
 
-  // Handle template selection
+  // Handle template selection. Templates that ask for input go through the
+  // fill-in step first; rendering happens where the template is applied.
   const handleSelectTemplate = (template: NoteTemplate) => {
-    // Apply variable substitution for user templates
-    if (template.id.startsWith('user-template-')) {
-      const processedTemplate = {
-        ...template,
-        content: replaceUserTemplateVariables(template.content || ''),
-        body: replaceUserTemplateVariables(template.body || ''),
-      };
-      onSelectTemplate(processedTemplate);
-    } else {
-      onSelectTemplate(template);
+    const inputs = getTemplateInputs(template.content || template.body || '');
+    if (inputs.prompts.length > 0 || inputs.needsContact) {
+      setPendingTemplate({ template, inputs });
+      setPromptValues(Object.fromEntries(inputs.prompts.map(p => [p.label, p.defaultValue])));
+      setContactId(null);
+      setContactQuery('');
+      return;
     }
+    onSelectTemplate(template);
     onClose();
   };
 
+  const handleApplyPendingTemplate = () => {
+    if (!pendingTemplate) return;
+    onSelectTemplate({
+      ...pendingTemplate.template,
+      contactId: contactId || undefined,
+      promptValues,
+    });
+    setPendingTemplate(null);
+    onClose();
+  };
+
+  const selectedContact = contactId ? getContactById(contactId) : undefined;
+  const contactMatches = contactId ? [] : searchContactsByName(contactQuery, 6);
+
   // Reset form
   const resetForm = () => {
     setTemplateFormData({
@@ -238,17 +263,23 @@ export const TemplatePickerModal: React.FC<TemplatePickerModalProps> = ({
           <div className="px-6 py-4 border-b flex items-center justify-between" style={{ borderColor: colors.border }}>
             <div>
               <h3 className="font-semibold text-lg" style={{ color: colors.text }}>
-                {isCreatingTemplate ? (editingTemplateId ? 'Edit Template' : 'Create Template') : 'Choose a Template'}
+                {pendingTemplate
+                  ? pendingTemplate.template.name
+                  : isCreatingTemplate ? (editingTemplateId ? 'Edit Template' : 'Create Template') : 'Choose a Template'}
               </h3>
               <p className="text-sm mt-0.5" style={{ color: colors.textMuted }}>
-                {isCreatingTemplate
-                  ? 'Create your own custom template with {{date}} support'
+                {pendingTemplate
+                  ? 'Fill in the details for this template'
+                  : isCreatingTemplate
+                  ? 'Create your own custom template with variables, prompts and contact data'
                   : 'Start with a pre-built structure or create from scratch'}
               </p>
             </div>
             <button
               onClick={() => {
-                if (isCreatingTemplate) {
+                if (pendingTemplate) {
+                  setPendingTemplate(null);
+                } else if (isCreatingTemplate) {
                   resetForm();
                 } else {
                   onClose();
@@ -262,7 +293,7 @@ export const TemplatePickerModal: React.FC<TemplatePickerModalProps> = ({
           </div>
 
           {/* Tab Switcher - Only show when not creating template */}
-          {!isCreatingTemplate && (
+          {!isCreatingTemplate && !pendingTemplate && (
             <div className="px-6 py-3 border-b flex items-center gap-3" style={{ borderColor: colors.border }}>
               <button
                 onClick={() => setActiveTab('built-in')}
@@ -298,7 +329,7 @@ export const TemplatePickerModal: React.FC<TemplatePickerModalProps> = ({
           )}
 
           {/* Category Tabs - Only show when not creating template */}
-          {!isCreatingTemplate && (
+          {!isCreatingTemplate && !pendingTemplate && (
             <div className="px-6 py-3 border-b flex items-center gap-2 overflow-x-auto" style={{ borderColor: colors.border }}>
               {CATEGORIES.map(category => (
                 <button
@@ -398,7 +429,10 @@ export const TemplatePickerModal: React.FC<TemplatePickerModalProps> = ({
                     }}
                   />
                   <p className="text-xs mt-1" style={{ color: colors.textMuted }}>
-                    Supports Markdown and <code style={{ background: colors.hover, padding: '2px 6px', borderRadius: '4px' }}>{'{{date}}'}</code> variable
+                    Supports Markdown and variables such as{' '}
+                    {['{{date+7d}}', '{{contact.fullName}}', '{{prompt:Goal}}', '{{#each contact.openTasks}}…{{/each}}'].map(example => (
+                      <code key={example} style={{ background: colors.hover, padding: '2px 6px', borderRadius: '4px', marginRight: '4px' }}>{example}</code>
+                    ))}
                   </p>
                 </div>
 
@@ -424,8 +458,107 @@ export const TemplatePickerModal: React.FC<TemplatePickerModalProps> = ({
             </div>
           )}
 
+          {/* Fill-in Step */}
+          {pendingTemplate && (
+            <div className="flex-1 overflow-y-auto px-6 py-4">
+              <div className="max-w-2xl mx-auto space-y-4">
+                {pendingTemplate.inputs.needsContact && (
+                  <div>
+                    <label className="block text-sm font-medium mb-2" style={{ color: colors.text }}>
+                      Contact
+                    </label>
+                    {selectedContact ? (
+                      <div
+                        className="flex items-center justify-between px-3 py-2 rounded-lg border"
+                        style={{ borderColor: colors.border, color: colors.text }}
+                      >
+                        <span className="text-sm">
+                          {selectedContact.fullName}
+                          {selectedContact.company && (
+                            <span style={{ color: colors.textMuted }}> · {selectedContact.company}</span>
+                          )}
+                        </span>
+                        <button
+                          onClick={() => setContactId(null)}
+                          className="p-1 rounded hover:bg-white/10"
+                          style={{ color: colors.textMuted }}
+                          title="Clear contact"
+                        >
+                          <X size={14} />
+                        </button>
+                      </div>
+                    ) : (
+                      <>
+                        <input
+                          type="text"
+                          value={contactQuery}
+                          onChange={(e) => setContactQuery(e.target.value)}
+                          placeholder="Search contacts…"
+                          autoFocus
+                          className="w-full px-3 py-2 rounded-lg border focus:outline-none focus:ring-2"
+                          style={{ background: colors.bg, borderColor: colors.border, color: colors.text }}
+                        />
+                        {contactMatches.length > 0 && (
+                          <div className="mt-1 rounded-lg border overflow-hidden" style={{ borderColor: colors.border }}>
+                            {contactMatches.map(contact => (
+                              <button
+                                key={contact.id}
+                                onClick={() => setContactId(contact.id)}
+                                className="w-full text-left px-3 py-2 text-sm hover:bg-white/10"
+                                style={{ color: colors.text }}
+                              >
+                                {contact.fullName}
+                                {contact.company && <span style={{ color: colors.textMuted }}> · {contact.company}</span>}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </>
+                    )}
+                    <p className="text-xs mt-1" style={{ color: colors.textMuted }}>
+                      The note will be linked to this contact. Leave empty to skip contact details.
+                    </p>
+                  </div>
+                )}
+
+                {pendingTemplate.inputs.prompts.map(prompt => (
+                  <div key={prompt.label}>
+                    <label className="block text-sm font-medium mb-2" style={{ color: colors.text }}>
+                      {prompt.label}
+                    </label>
+                    <input
+                      type="text"
+                      value={promptValues[prompt.label] ?? ''}
+                      onChange={(e) => setPromptValues({ ...promptValues, [prompt.label]: e.target.value })}
+                      placeholder={prompt.defaultValue}
+                      className="w-full px-3 py-2 rounded-lg border focus:outline-none focus:ring-2"
+                      style={{ background: colors.bg, borderColor: colors.border, color: colors.text }}
+                    />
+                  </div>
+                ))}
+
+                <div className="flex items-center gap-3 pt-4">
+                  <button
+                    onClick={handleApplyPendingTemplate}
+                    className="px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                    style={{ background: colors.accent, color: '#fff' }}
+                  >
+                    Apply Template
+                  </button>
+                  <button
+                    onClick={() => setPendingTemplate(null)}
+                    className="px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                    style={{ background: colors.hover, color: colors.text }}
+                  >
+                    Back
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Template Grid - Built-in Templates */}
-          {!isCreatingTemplate && activeTab === 'built-in' && (
+          {!isCreatingTemplate && !pendingTemplate && activeTab === 'built-in' && (
             <div className="flex-1 overflow-y-auto px-6 py-4">
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
                 {builtInTemplates.map(template => (
@@ -471,7 +604,7 @@ export const TemplatePickerModal: React.FC<TemplatePickerModalProps> = ({
           )}
 
           {/* Template Grid - User Templates */}
-          {!isCreatingTemplate && activeTab === 'my-templates' && (
+          {!isCreatingTemplate && !pendingTemplate && activeTab === 'my-templates' && (
             <div className="flex-1 overflow-y-auto px-6 py-4">
               {filteredUserTemplates.length === 0 ? (
                 <div className="flex flex-col items-center justify-center py-12" style={{ color: colors.textMuted }}>
@@ -564,7 +697,7 @@ export const TemplatePickerModal: React.FC<TemplatePickerModalProps> = ({
           )}
 
           {/* Footer */}
-          {!isCreatingTemplate && (
+          {!isCreatingTemplate && !pendingTemplate && (
             <div className="px-6 py-4 border-t flex items-center justify-between" style={{ borderColor: colors.border }}>
               <p className="text-sm" style={{ color: colors.textMuted }}>
                 {activeTab === 'built-in'
@@ -9,7 +9,7 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Hash, Plus, Search } from 'lucide-react';
-import { searchTopicsByLabel, findTopicByLabel, createTopicFromHashtag } from '../../services/topicStore';
+import { searchTopicsByLabel, findTopicByLabel, createTopicFromHashtag, getTopicPath } from '../../services/topicStore';
 import type { Topic } from '../../types';
 
 // =============================================================================
@@ -174,7 +174,7 @@ export const TopicMentionSuggestion: React.FC<TopicMentionSuggestionProps> = ({
               <Hash size={12} style={{ color: colors.accent }} />
             </div>
             <div className="flex-1 min-w-0">
-              <span className="truncate block">{topic.label}</span>
+              <span className="truncate block">{topic.parentId ? getTopicPath(topic.id) : topic.label}</span>
             </div>
           </button>
         ))}
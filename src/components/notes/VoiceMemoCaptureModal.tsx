@@ -0,0 +1,440 @@
+// =============================================================================
+// VOICE MEMO CAPTURE MODAL — Record, transcribe, extract, confirm
+// =============================================================================
+// Features:
+// - Record a memo (or paste a transcript) and transcribe it
+// - LLM split into note body, tasks, contact mentions and an Interaction
+// - Every extracted item can be edited or unchecked before anything is created
+// - Optionally embeds the recording in the created note
+// =============================================================================
+
+import React, { useEffect, useState } from 'react';
+import { X, Mic, MicOff, Loader2, CheckSquare, AtSign, Phone, AlertCircle } from 'lucide-react';
+import type { InteractionType } from '../../types';
+import { useAudioRecorder } from '../../hooks/useAudioRecorder';
+import { transcribeAudioToText } from '../../services/transcriptionService';
+import {
+  createVoiceMemoDraft,
+  commitVoiceMemo,
+  type VoiceMemoDraft,
+  type VoiceMemoDraftTask,
+} from '../../services/voiceMemoService';
+import { CONTACT_ZERO, getAllContacts } from '../../services/contactStore';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface VoiceMemoCaptureModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called with the new note's ID once everything is created */
+  onCreated: (noteId: string) => void;
+  colors: Record<string, string>;
+}
+
+type Step = 'capture' | 'transcribing' | 'extracting' | 'review';
+
+const INTERACTION_TYPES: { id: InteractionType; label: string }[] = [
+  { id: 'call', label: 'Call' },
+  { id: 'meeting', label: 'Meeting' },
+  { id: 'message', label: 'Message' },
+  { id: 'email', label: 'Email' },
+  { id: 'dm', label: 'DM' },
+  { id: 'other', label: 'Other' },
+];
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const VoiceMemoCaptureModal: React.FC<VoiceMemoCaptureModalProps> = ({
+  isOpen,
+  onClose,
+  onCreated,
+  colors,
+}) => {
+  const { isRecording, startRecording, stopRecording, error: recorderError, clearError } = useAudioRecorder();
+  const [step, setStep] = useState<Step>('capture');
+  const [transcript, setTranscript] = useState('');
+  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
+  const [attachAudio, setAttachAudio] = useState(true);
+  const [draft, setDraft] = useState<VoiceMemoDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset whenever the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setStep('capture');
+    setTranscript('');
+    setAudioBlob(null);
+    setAttachAudio(true);
+    setDraft(null);
+    setError(null);
+    clearError();
+  }, [isOpen, clearError]);
+
+  if (!isOpen) return null;
+
+  const contacts = getAllContacts().filter(c => c.id !== CONTACT_ZERO.id);
+
+  const handleClose = () => {
+    if (isRecording) void stopRecording();
+    onClose();
+  };
+
+  const handleRecordToggle = async () => {
+    setError(null);
+    if (!isRecording) {
+      await startRecording();
+      return;
+    }
+
+    const blob = await stopRecording();
+    if (!blob) {
+      setError('No audio was captured.');
+      return;
+    }
+    setAudioBlob(blob);
+    setStep('transcribing');
+    const result = await transcribeAudioToText(blob);
+    if (result.success && result.text) {
+      setTranscript(prev => (prev.trim() ? `${prev.trim()}\n\n${result.text}` : result.text!));
+    } else {
+      console.error('[VoiceMemo] Transcription failed:', result.error);
+      setError(result.error || 'Transcription failed. You can type the memo instead.');
+    }
+    setStep('capture');
+  };
+
+  const handleExtract = async () => {
+    if (!transcript.trim()) return;
+    setError(null);
+    setStep('extracting');
+    const result = await createVoiceMemoDraft(transcript.trim());
+    setDraft(result);
+    setStep('review');
+  };
+
+  const handleCreate = async () => {
+    if (!draft) return;
+    let audioSrc: string | undefined;
+    if (audioBlob && attachAudio) {
+      try {
+        audioSrc = await blobToDataUrl(audioBlob);
+      } catch (err) {
+        console.error('[VoiceMemo] Could not read recording:', err);
+      }
+    }
+    const result = commitVoiceMemo(draft, { audioSrc });
+    onCreated(result.note.id);
+  };
+
+  const updateDraft = (changes: Partial<VoiceMemoDraft>) => setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  const updateTask = (index: number, changes: Partial<VoiceMemoDraftTask>) =>
+    updateDraft({ tasks: draft!.tasks.map((t, i) => (i === index ? { ...t, ...changes } : t)) });
+
+  const inputStyle = { background: colors.bg, borderColor: colors.border, color: colors.text };
+  const labelClass = 'flex items-center gap-2 text-sm font-medium mb-2';
+
+  /** Contact select: known contacts, Contact Zero, plus a "new contact" option for unmatched names */
+  const contactSelect = (
+    value: string | null,
+    newName: string | null,
+    onChange: (contactId: string | null) => void,
+    emptyLabel: string
+  ) => (
+    <select
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      className="px-2 py-1 rounded border text-xs focus:outline-none max-w-[12rem]"
+      style={inputStyle}
+    >
+      <option value="">{newName ? `New contact: ${newName}` : emptyLabel}</option>
+      <option value={CONTACT_ZERO.id}>Me</option>
+      {contacts.map(c => (
+        <option key={c.id} value={c.id}>{c.fullName}</option>
+      ))}
+    </select>
+  );
+
+  const busy = step === 'transcribing' || step === 'extracting';
+  const includedCount = draft
+    ? draft.tasks.filter(t => t.include).length +
+      draft.mentions.filter(m => m.include).length +
+      (draft.interaction?.include ? 1 : 0)
+    : 0;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50" onClick={handleClose} />
+
+      {/* Dialog */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center px-4">
+        <div
+          className="w-full max-w-2xl rounded-xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh]"
+          style={{ background: colors.bg, border: `1px solid ${colors.border}` }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="px-6 py-4 border-b flex items-center justify-between" style={{ borderColor: colors.border }}>
+            <div className="flex items-center gap-2">
+              <Mic size={18} style={{ color: colors.accent }} />
+              <h3 className="font-semibold text-lg" style={{ color: colors.text }}>
+                {step === 'review' ? 'Review Voice Memo' : 'Voice Memo'}
+              </h3>
+            </div>
+            <button onClick={handleClose} className="p-2 rounded-lg hover:bg-white/10" style={{ color: colors.textMuted }}>
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+            {(error || recorderError) && (
+              <div className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm" style={{ background: 'rgba(239, 68, 68, 0.1)', color: '#ef4444' }}>
+                <AlertCircle size={14} />
+                {error || recorderError}
+              </div>
+            )}
+
+            {/* Capture */}
+            {step !== 'review' && (
+              <>
+                <div className="flex flex-col items-center gap-3 py-4">
+                  <button
+                    onClick={handleRecordToggle}
+                    disabled={busy}
+                    className={`w-16 h-16 rounded-full flex items-center justify-center transition-colors disabled:opacity-50 ${isRecording ? 'animate-pulse' : ''}`}
+                    style={{ background: isRecording ? '#ef4444' : colors.accent, color: '#fff' }}
+                  >
+                    {busy ? <Loader2 size={24} className="animate-spin" /> : isRecording ? <MicOff size={24} /> : <Mic size={24} />}
+                  </button>
+                  <span className="text-sm" style={{ color: colors.textMuted }}>
+                    {step === 'transcribing'
+                      ? 'Transcribing…'
+                      : step === 'extracting'
+                        ? 'Extracting tasks, mentions and interactions…'
+                        : isRecording
+                          ? 'Recording — click to stop'
+                          : 'Click to record, or type below'}
+                  </span>
+                </div>
+
+                <div>
+                  <label className={labelClass} style={{ color: colors.text }}>Transcript</label>
+                  <textarea
+                    value={transcript}
+                    onChange={(e) => setTranscript(e.target.value)}
+                    disabled={busy}
+                    rows={6}
+                    placeholder="Just got off a call with…"
+                    className="w-full px-3 py-2 rounded-lg border focus:outline-none resize-none"
+                    style={inputStyle}
+                  />
+                </div>
+              </>
+            )}
+
+            {/* Review */}
+            {step === 'review' && draft && (
+              <>
+                {!draft.extracted && (
+                  <div className="px-3 py-2 rounded-lg text-sm" style={{ background: colors.hover, color: colors.textMuted }}>
+                    Automatic extraction is unavailable, so the transcript was kept as the note. You can still add it as is.
+                  </div>
+                )}
+
+                <div>
+                  <label className={labelClass} style={{ color: colors.text }}>Note</label>
+                  <input
+                    type="text"
+                    value={draft.title}
+                    onChange={(e) => updateDraft({ title: e.target.value })}
+                    placeholder="Title"
+                    className="w-full px-3 py-2 rounded-lg border focus:outline-none mb-2"
+                    style={inputStyle}
+                  />
+                  <textarea
+                    value={draft.body}
+                    onChange={(e) => updateDraft({ body: e.target.value })}
+                    rows={5}
+                    className="w-full px-3 py-2 rounded-lg border focus:outline-none resize-none"
+                    style={inputStyle}
+                  />
+                  {audioBlob && (
+                    <label className="flex items-center gap-2 mt-2 text-sm" style={{ color: colors.textMuted }}>
+                      <input type="checkbox" checked={attachAudio} onChange={(e) => setAttachAudio(e.target.checked)} />
+                      Attach recording to the note
+                    </label>
+                  )}
+                </div>
+
+                {/* Tasks */}
+                <div>
+                  <label className={labelClass} style={{ color: colors.text }}>
+                    <CheckSquare size={14} style={{ color: colors.accent }} />
+                    Tasks
+                  </label>
+                  {draft.tasks.length === 0 && (
+                    <div className="text-sm" style={{ color: colors.textMuted }}>No tasks found</div>
+                  )}
+                  <div className="space-y-2">
+                    {draft.tasks.map((task, index) => (
+                      <div key={index} className="flex items-center gap-2" style={{ opacity: task.include ? 1 : 0.5 }}>
+                        <input type="checkbox" checked={task.include} onChange={(e) => updateTask(index, { include: e.target.checked })} />
+                        <input
+                          type="text"
+                          value={task.title}
+                          onChange={(e) => updateTask(index, { title: e.target.value })}
+                          className="flex-1 px-2 py-1 rounded border text-sm focus:outline-none"
+                          style={inputStyle}
+                        />
+                        <input
+                          type="date"
+                          value={task.dueDate || ''}
+                          onChange={(e) => updateTask(index, { dueDate: e.target.value || null })}
+                          className="px-2 py-1 rounded border text-xs focus:outline-none"
+                          style={inputStyle}
+                        />
+                        {contactSelect(task.contactId, task.contactName, (contactId) => updateTask(index, { contactId }), 'Interaction contact')}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Mentions */}
+                <div>
+                  <label className={labelClass} style={{ color: colors.text }}>
+                    <AtSign size={14} style={{ color: colors.accent }} />
+                    Mentioned contacts
+                  </label>
+                  {draft.mentions.length === 0 && (
+                    <div className="text-sm" style={{ color: colors.textMuted }}>No contacts mentioned</div>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    {draft.mentions.map((mention, index) => (
+                      <label
+                        key={`${mention.contactId || 'new'}-${mention.name}`}
+                        className="flex items-center gap-1.5 px-2 py-1 rounded text-sm cursor-pointer"
+                        style={{ background: colors.hover, color: colors.text, opacity: mention.include ? 1 : 0.5 }}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={mention.include}
+                          onChange={(e) => updateDraft({
+                            mentions: draft.mentions.map((m, i) => (i === index ? { ...m, include: e.target.checked } : m)),
+                          })}
+                        />
+                        @{mention.name}
+                        {!mention.contactId && (
+                          <span className="text-xs" style={{ color: colors.textMuted }}>(new)</span>
+                        )}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Interaction */}
+                {draft.interaction && (
+                  <div>
+                    <label className={labelClass} style={{ color: colors.text }}>
+                      <Phone size={14} style={{ color: colors.accent }} />
+                      Interaction
+                    </label>
+                    <div className="space-y-2" style={{ opacity: draft.interaction.include ? 1 : 0.5 }}>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={draft.interaction.include}
+                          onChange={(e) => updateDraft({ interaction: { ...draft.interaction!, include: e.target.checked } })}
+                        />
+                        <select
+                          value={draft.interaction.type}
+                          onChange={(e) => updateDraft({ interaction: { ...draft.interaction!, type: e.target.value as InteractionType } })}
+                          className="px-2 py-1 rounded border text-xs focus:outline-none"
+                          style={inputStyle}
+                        >
+                          {INTERACTION_TYPES.map(t => (
+                            <option key={t.id} value={t.id}>{t.label}</option>
+                          ))}
+                        </select>
+                        <span className="text-xs" style={{ color: colors.textMuted }}>with</span>
+                        {contactSelect(
+                          draft.interaction.contactId,
+                          draft.interaction.contactName,
+                          (contactId) => updateDraft({ interaction: { ...draft.interaction!, contactId } }),
+                          'Choose contact'
+                        )}
+                        <input
+                          type="date"
+                          value={draft.interaction.occurredOn || ''}
+                          onChange={(e) => updateDraft({ interaction: { ...draft.interaction!, occurredOn: e.target.value || null } })}
+                          className="px-2 py-1 rounded border text-xs focus:outline-none"
+                          style={inputStyle}
+                        />
+                      </div>
+                      <input
+                        type="text"
+                        value={draft.interaction.summary}
+                        onChange={(e) => updateDraft({ interaction: { ...draft.interaction!, summary: e.target.value } })}
+                        className="w-full px-2 py-1 rounded border text-sm focus:outline-none"
+                        style={inputStyle}
+                      />
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="px-6 py-4 border-t flex items-center justify-between" style={{ borderColor: colors.border }}>
+            <span className="text-xs" style={{ color: colors.textMuted }}>
+              {step === 'review' ? `Note + ${includedCount} item${includedCount !== 1 ? 's' : ''}` : ''}
+            </span>
+            <div className="flex gap-2">
+              {step === 'review' && (
+                <button
+                  onClick={() => setStep('capture')}
+                  className="px-4 py-2 rounded-lg text-sm hover:bg-white/10"
+                  style={{ color: colors.textMuted }}
+                >
+                  Back
+                </button>
+              )}
+              {step === 'review' ? (
+                <button
+                  onClick={handleCreate}
+                  className="px-4 py-2 rounded-lg text-sm font-medium"
+                  style={{ background: colors.accent, color: '#fff' }}
+                >
+                  Create
+                </button>
+              ) : (
+                <button
+                  onClick={handleExtract}
+                  disabled={busy || isRecording || !transcript.trim()}
+                  className="px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+                  style={{ background: colors.accent, color: '#fff' }}
+                >
+                  Continue
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default VoiceMemoCaptureModal;
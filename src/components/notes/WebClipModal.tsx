@@ -0,0 +1,222 @@
+// =============================================================================
+// WEB CLIP MODAL — Save an article, LinkedIn post or tweet as a note
+// =============================================================================
+// Features:
+// - Paste a URL; the page is fetched and cleaned server-side
+// - Optionally attach the note to a contact
+// - Optionally run a text FrameScan on the clipped content
+// =============================================================================
+
+import React, { useEffect, useState } from 'react';
+import { X, Globe, Loader2, AlertCircle, ScanLine } from 'lucide-react';
+import type { Note } from '../../types';
+import { clipUrlToNote } from '../../services/webClipService';
+import { CONTACT_ZERO, getAllContacts } from '../../services/contactStore';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface WebClipModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called with the new note's ID once the user opens it */
+  onCreated: (noteId: string) => void;
+  colors: Record<string, string>;
+}
+
+interface ClipDone {
+  note: Note;
+  frameScore?: number;
+  frameScanError?: string;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export const WebClipModal: React.FC<WebClipModalProps> = ({
+  isOpen,
+  onClose,
+  onCreated,
+  colors,
+}) => {
+  const [url, setUrl] = useState('');
+  const [contactId, setContactId] = useState<string | null>(null);
+  const [runFrameScan, setRunFrameScan] = useState(false);
+  const [isClipping, setIsClipping] = useState(false);
+  const [done, setDone] = useState<ClipDone | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset whenever the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setUrl('');
+    setContactId(null);
+    setRunFrameScan(false);
+    setIsClipping(false);
+    setDone(null);
+    setError(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const contacts = getAllContacts().filter(c => c.id !== CONTACT_ZERO.id);
+  const validUrl = /^https?:\/\/\S+\.\S+/i.test(url.trim());
+
+  const handleClose = () => {
+    // The note already exists once clipped; closing still takes the user to it
+    if (done) onCreated(done.note.id);
+    else onClose();
+  };
+
+  const handleClip = async () => {
+    if (!validUrl || isClipping) return;
+    setError(null);
+    setIsClipping(true);
+    const result = await clipUrlToNote(url.trim(), { contactId, runFrameScan });
+    setIsClipping(false);
+
+    if (!result.success || !result.note) {
+      setError(result.error || 'Could not clip this page.');
+      return;
+    }
+    if (!runFrameScan) {
+      onCreated(result.note.id);
+      return;
+    }
+    setDone({ note: result.note, frameScore: result.frameScore, frameScanError: result.frameScanError });
+  };
+
+  const inputStyle = { background: colors.bg, borderColor: colors.border, color: colors.text };
+  const labelClass = 'flex items-center gap-2 text-sm font-medium mb-2';
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50" onClick={handleClose} />
+
+      {/* Dialog */}
+      <div className="fixed inset-0 z-50 flex items-center justify-center px-4">
+        <div
+          className="w-full max-w-lg rounded-xl shadow-2xl overflow-hidden flex flex-col"
+          style={{ background: colors.bg, border: `1px solid ${colors.border}` }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="px-6 py-4 border-b flex items-center justify-between" style={{ borderColor: colors.border }}>
+            <div className="flex items-center gap-2">
+              <Globe size={18} style={{ color: colors.accent }} />
+              <h3 className="font-semibold text-lg" style={{ color: colors.text }}>Clip from Web</h3>
+            </div>
+            <button onClick={handleClose} className="p-2 rounded-lg hover:bg-white/10" style={{ color: colors.textMuted }}>
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="px-6 py-4 space-y-4">
+            {error && (
+              <div className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm" style={{ background: 'rgba(239, 68, 68, 0.1)', color: '#ef4444' }}>
+                <AlertCircle size={14} />
+                {error}
+              </div>
+            )}
+
+            {done ? (
+              <div className="space-y-2 text-sm" style={{ color: colors.text }}>
+                <div>
+                  Saved <span className="font-medium">{done.note.title}</span>
+                </div>
+                <div className="flex items-center gap-2" style={{ color: colors.textMuted }}>
+                  <ScanLine size={14} style={{ color: colors.accent }} />
+                  {done.frameScore !== undefined
+                    ? <>FrameScore <span className="font-semibold" style={{ color: colors.text }}>{done.frameScore}</span></>
+                    : `FrameScan skipped: ${done.frameScanError || 'unavailable'}`}
+                </div>
+              </div>
+            ) : (
+              <>
+                <div>
+                  <label className={labelClass} style={{ color: colors.text }}>URL</label>
+                  <input
+                    type="url"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') void handleClip();
+                    }}
+                    disabled={isClipping}
+                    autoFocus
+                    placeholder="https://…  (article, LinkedIn post or tweet)"
+                    className="w-full px-3 py-2 rounded-lg border focus:outline-none"
+                    style={inputStyle}
+                  />
+                </div>
+
+                <div>
+                  <label className={labelClass} style={{ color: colors.text }}>About</label>
+                  <select
+                    value={contactId || ''}
+                    onChange={(e) => setContactId(e.target.value || null)}
+                    disabled={isClipping}
+                    className="w-full px-3 py-2 rounded-lg border focus:outline-none"
+                    style={inputStyle}
+                  >
+                    <option value="">No contact</option>
+                    {contacts.map(c => (
+                      <option key={c.id} value={c.id}>{c.fullName}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm" style={{ color: colors.textMuted }}>
+                  <input
+                    type="checkbox"
+                    checked={runFrameScan}
+                    onChange={(e) => setRunFrameScan(e.target.checked)}
+                    disabled={isClipping}
+                  />
+                  Run a FrameScan on the clipped text
+                </label>
+              </>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="px-6 py-4 border-t flex justify-end gap-2" style={{ borderColor: colors.border }}>
+            {done ? (
+              <button
+                onClick={() => onCreated(done.note.id)}
+                className="px-4 py-2 rounded-lg text-sm font-medium"
+                style={{ background: colors.accent, color: '#fff' }}
+              >
+                Open note
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 rounded-lg text-sm hover:bg-white/10"
+                  style={{ color: colors.textMuted }}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleClip}
+                  disabled={!validUrl || isClipping}
+                  className="px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+                  style={{ background: colors.accent, color: '#fff' }}
+                >
+                  {isClipping && <Loader2 size={14} className="animate-spin" />}
+                  {isClipping ? (runFrameScan ? 'Clipping & scanning…' : 'Clipping…') : 'Clip'}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default WebClipModal;
@@ -0,0 +1,218 @@
+// =============================================================================
+// SMART QUERY NODE — TipTap block that embeds a smart folder's live results
+// =============================================================================
+// Features:
+// - Stores only the smart folder ID; results are re-run on every change to
+//   notes, FrameScans or the smart folder itself
+// - Click a result to open the note
+// - Shows a placeholder when the smart folder has been deleted
+// =============================================================================
+
+import { Node, mergeAttributes } from '@tiptap/core';
+import { ReactNodeViewRenderer, NodeViewWrapper } from '@tiptap/react';
+import React, { useEffect, useState } from 'react';
+import { FolderSearch, FileText } from 'lucide-react';
+import {
+  getSmartFolderById,
+  runNoteQuery,
+  describeNoteQuery,
+  subscribeNoteQueryResults,
+} from '../../../services/smartFolderStore';
+
+/** Results shown before collapsing into "+N more" */
+const MAX_VISIBLE_RESULTS = 8;
+
+type SmartQueryColors = Record<'bg' | 'border' | 'text' | 'textMuted' | 'hover' | 'accent', string>;
+
+const DEFAULT_COLORS: SmartQueryColors = {
+  bg: 'transparent',
+  border: '#2d2f36',
+  text: '#f3f4f6',
+  textMuted: '#9ca3af',
+  hover: '#1a1a1c',
+  accent: '#6366f1',
+};
+
+// =============================================================================
+// NODE VIEW COMPONENT
+// =============================================================================
+
+interface SmartQueryNodeViewProps {
+  node: {
+    attrs: {
+      smartFolderId: string | null;
+    };
+  };
+  extension: {
+    options: SmartQueryNodeOptions;
+  };
+}
+
+const SmartQueryNodeView: React.FC<SmartQueryNodeViewProps> = ({ node, extension }) => {
+  const { smartFolderId } = node.attrs;
+  const { onNavigate } = extension.options;
+  const colors = { ...DEFAULT_COLORS, ...extension.options.colors };
+  const [, setVersion] = useState(0);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => subscribeNoteQueryResults(() => setVersion(v => v + 1)), []);
+
+  const folder = smartFolderId ? getSmartFolderById(smartFolderId) : undefined;
+  const results = folder ? runNoteQuery(folder.query) : [];
+  const visible = showAll ? results : results.slice(0, MAX_VISIBLE_RESULTS);
+
+  return (
+    <NodeViewWrapper className="smart-query-embed" contentEditable={false}>
+      <div
+        style={{
+          border: `1px solid ${colors.border}`,
+          borderRadius: '10px',
+          padding: '10px 12px',
+          margin: '8px 0',
+          background: colors.bg,
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: folder ? '6px' : 0 }}>
+          <FolderSearch size={14} style={{ color: colors.accent }} />
+          <span style={{ fontSize: '13px', fontWeight: 600, color: colors.text }}>
+            {folder ? folder.name : 'Smart folder not found'}
+          </span>
+          {folder && (
+            <span style={{ fontSize: '11px', color: colors.textMuted, marginLeft: 'auto' }} title={describeNoteQuery(folder.query)}>
+              {results.length} note{results.length !== 1 ? 's' : ''}
+            </span>
+          )}
+        </div>
+
+        {folder && results.length === 0 && (
+          <div style={{ fontSize: '12px', color: colors.textMuted }}>No matching notes</div>
+        )}
+
+        {visible.map(note => (
+          <button
+            key={note.id}
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              onNavigate?.(note.id);
+            }}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              width: '100%',
+              padding: '4px 6px',
+              border: 'none',
+              borderRadius: '6px',
+              background: 'transparent',
+              color: colors.text,
+              fontSize: '13px',
+              textAlign: 'left',
+              cursor: 'pointer',
+            }}
+            onMouseEnter={(e) => { e.currentTarget.style.background = colors.hover; }}
+            onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent'; }}
+          >
+            <FileText size={12} style={{ color: colors.textMuted, flexShrink: 0 }} />
+            <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {note.title || 'Untitled'}
+            </span>
+            <span style={{ fontSize: '11px', color: colors.textMuted }}>
+              {(note.dateKey || note.updatedAt || note.createdAt).split('T')[0]}
+            </span>
+          </button>
+        ))}
+
+        {results.length > MAX_VISIBLE_RESULTS && (
+          <button
+            onClick={(e) => { e.preventDefault(); setShowAll(!showAll); }}
+            style={{ border: 'none', background: 'transparent', color: colors.accent, fontSize: '12px', padding: '4px 6px', cursor: 'pointer' }}
+          >
+            {showAll ? 'Show less' : `+${results.length - MAX_VISIBLE_RESULTS} more`}
+          </button>
+        )}
+      </div>
+    </NodeViewWrapper>
+  );
+};
+
+// =============================================================================
+// NODE EXTENSION
+// =============================================================================
+
+export interface SmartQueryNodeOptions {
+  HTMLAttributes: Record<string, unknown>;
+  onNavigate?: (noteId: string) => void;
+  colors?: Partial<SmartQueryColors>;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    smartQueryNode: {
+      /**
+       * Insert a live results block for a smart folder
+       */
+      insertSmartQuery: (attrs: { smartFolderId: string }) => ReturnType;
+    };
+  }
+}
+
+export const SmartQueryNode = Node.create<SmartQueryNodeOptions>({
+  name: 'smartQuery',
+
+  group: 'block',
+
+  atom: true,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+      onNavigate: undefined,
+      colors: undefined,
+    };
+  },
+
+  addAttributes() {
+    return {
+      smartFolderId: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-smart-folder-id'),
+        renderHTML: (attributes) => ({
+          'data-smart-folder-id': attributes.smartFolderId,
+        }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-type="smart-query"]',
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(this.options.HTMLAttributes, { 'data-type': 'smart-query' }, HTMLAttributes)];
+  },
+
+  addNodeView() {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return ReactNodeViewRenderer(SmartQueryNodeView as any);
+  },
+
+  addCommands() {
+    return {
+      insertSmartQuery:
+        (attrs) =>
+        ({ commands }) => {
+          return commands.insertContent({
+            type: this.name,
+            attrs,
+          });
+        },
+    };
+  },
+});
+
+export default SmartQueryNode;
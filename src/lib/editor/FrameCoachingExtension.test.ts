@@ -0,0 +1,51 @@
+// =============================================================================
+// FRAME COACHING EXTENSION TESTS — Paragraph text for scanning and rewrites
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { Schema } from '@tiptap/pm/model';
+import { EditorState } from '@tiptap/pm/state';
+import { getCoachingParagraph } from './FrameCoachingExtension';
+
+const schema = new Schema({
+  nodes: {
+    doc: { content: 'paragraph+' },
+    paragraph: { content: 'inline*', group: 'block' },
+    text: { group: 'inline' },
+    contactMentionNode: { inline: true, group: 'inline', atom: true, attrs: { name: { default: '' } } },
+  },
+  marks: { bold: {} },
+});
+
+const stateWith = (...inline: ReturnType<typeof schema.text>[]) =>
+  EditorState.create({ doc: schema.node('doc', null, [schema.node('paragraph', null, inline)]) });
+
+describe('getCoachingParagraph', () => {
+  it('marks unformatted paragraphs as plain', () => {
+    const paragraph = getCoachingParagraph(stateWith(schema.text('Sorry to bother you, here is the plan.')), 1)!;
+
+    expect(paragraph.plain).toBe(true);
+    expect(paragraph.promptText).toBe(paragraph.text);
+    expect(paragraph.phrases.map(p => p.quote)).toEqual(['Sorry to bother you']);
+  });
+
+  it('sends mentions by name and never offers to replace them', () => {
+    const state = stateWith(
+      schema.text('Just checking in with '),
+      schema.node('contactMentionNode', { name: 'Ada Lovelace' }),
+      schema.text(' on the proposal.')
+    );
+    const paragraph = getCoachingParagraph(state, 1)!;
+
+    expect(paragraph.plain).toBe(false);
+    expect(paragraph.text).toContain('\uFFFC');
+    expect(paragraph.promptText).toBe('Just checking in with Ada Lovelace on the proposal.');
+    expect(paragraph.phrases[0].quote).toBe('Just checking in');
+  });
+
+  it('treats formatted text as not plain', () => {
+    const state = stateWith(schema.text('Quick question about '), schema.text('pricing', [schema.mark('bold')]));
+
+    expect(getCoachingParagraph(state, 1)?.plain).toBe(false);
+  });
+});
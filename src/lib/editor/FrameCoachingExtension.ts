@@ -0,0 +1,228 @@
+// =============================================================================
+// FRAME COACHING EXTENSION — Inline needy / seller-posture underlines
+// =============================================================================
+// Debounced, in-editor version of the writing assistant:
+// - Scans the paragraph holding the cursor once typing pauses
+// - Underlines phrases found by scanParagraphForFrameLeaks
+// - Reports clicks on an underline so the editor can offer rewrites
+// Only the current paragraph is decorated; moving the cursor to another
+// paragraph rescans there and clears the old underlines.
+// Rewrites replace the whole paragraph as plain text, so they are only
+// applied to paragraphs that are plain text already (see `plain`).
+// =============================================================================
+
+import { Extension } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey, type EditorState } from '@tiptap/pm/state';
+import { Decoration, DecorationSet, type EditorView } from '@tiptap/pm/view';
+import {
+  scanParagraphForFrameLeaks,
+  INLINE_COACHING_DEBOUNCE_MS,
+  type FrameLeakPhrase,
+} from '../frameScan/inlineCoaching';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** A paragraph as scanned: document range plus its text */
+export interface FrameCoachingParagraph {
+  from: number;
+  to: number;
+  /** Offsets map 1:1 to positions; inline atoms are one placeholder character */
+  text: string;
+  /** Text to send for rewrites: inline atoms by their label, no placeholders */
+  promptText: string;
+  /** Only unformatted text, so replacing it with a rewrite loses nothing */
+  plain: boolean;
+  phrases: FrameLeakPhrase[];
+}
+
+export interface FrameCoachingHit {
+  phrase: FrameLeakPhrase;
+  paragraph: FrameCoachingParagraph;
+  /** Viewport position just below the clicked phrase */
+  position: { top: number; left: number };
+}
+
+export interface FrameCoachingOptions {
+  /** Read on every scan, so the editor can toggle coaching without reconfiguring */
+  isEnabled: () => boolean;
+  debounceMs: number;
+  onPhraseClick: (hit: FrameCoachingHit) => void;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    frameCoaching: {
+      /**
+       * Rescan the current paragraph now (clears underlines when disabled)
+       */
+      refreshFrameCoaching: () => ReturnType;
+    };
+  }
+}
+
+// =============================================================================
+// SCANNING
+// =============================================================================
+
+export const frameCoachingKey = new PluginKey<DecorationSet>('frameCoaching');
+
+/** Inline atoms (mentions, wiki links) count as one character, as in the document */
+const LEAF_PLACEHOLDER = '￼';
+
+/** Readable stand-in for an inline atom: contact name, topic label or wiki link title */
+const leafLabel = (leaf: ProseMirrorNode): string =>
+  String(leaf.attrs.name || leaf.attrs.label || leaf.attrs.title || ' ');
+
+/**
+ * The textblock at a position, with text offsets that map 1:1 to positions
+ * from `from`.
+ */
+export function getCoachingParagraph(state: EditorState, pos: number): FrameCoachingParagraph | null {
+  const $pos = state.doc.resolve(pos);
+  if (!$pos.parent.isTextblock || $pos.parent.type.spec.code) return null;
+
+  const from = $pos.start();
+  const to = $pos.end();
+  const text = state.doc.textBetween(from, to, undefined, LEAF_PLACEHOLDER);
+  let plain = true;
+  $pos.parent.forEach(child => {
+    if (!child.isText || child.marks.length > 0) plain = false;
+  });
+
+  return {
+    from,
+    to,
+    text,
+    promptText: plain ? text : state.doc.textBetween(from, to, undefined, leafLabel),
+    plain,
+    phrases: scanParagraphForFrameLeaks(text),
+  };
+}
+
+function buildCoachingDecorations(state: EditorState, enabled: boolean): DecorationSet {
+  if (!enabled) return DecorationSet.empty;
+
+  const paragraph = getCoachingParagraph(state, state.selection.from);
+  if (!paragraph || paragraph.phrases.length === 0) return DecorationSet.empty;
+
+  return DecorationSet.create(
+    state.doc,
+    paragraph.phrases.map(phrase =>
+      Decoration.inline(
+        paragraph.from + phrase.start,
+        paragraph.from + phrase.end,
+        { class: `frame-coach-mark frame-coach-mark--${phrase.kind}` },
+        { phrase }
+      )
+    )
+  );
+}
+
+function refreshDecorations(view: EditorView, enabled: boolean): void {
+  const current = frameCoachingKey.getState(view.state);
+  const next = buildCoachingDecorations(view.state, enabled);
+  if (next === DecorationSet.empty && (!current || current.find().length === 0)) return;
+
+  view.dispatch(view.state.tr.setMeta(frameCoachingKey, next).setMeta('addToHistory', false));
+}
+
+// =============================================================================
+// EXTENSION
+// =============================================================================
+
+export const FrameCoachingExtension = Extension.create<FrameCoachingOptions>({
+  name: 'frameCoaching',
+
+  addOptions() {
+    return {
+      isEnabled: () => false,
+      debounceMs: INLINE_COACHING_DEBOUNCE_MS,
+      onPhraseClick: () => {},
+    };
+  },
+
+  addCommands() {
+    return {
+      refreshFrameCoaching:
+        () =>
+        ({ state, tr }) => {
+          tr.setMeta(frameCoachingKey, buildCoachingDecorations(state, this.options.isEnabled()));
+          tr.setMeta('addToHistory', false);
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const options = this.options;
+
+    return [
+      new Plugin<DecorationSet>({
+        key: frameCoachingKey,
+
+        state: {
+          init: () => DecorationSet.empty,
+          apply: (tr, set) => {
+            const next = tr.getMeta(frameCoachingKey) as DecorationSet | undefined;
+            if (next) return next;
+            return tr.docChanged ? set.map(tr.mapping, tr.doc) : set;
+          },
+        },
+
+        view: () => {
+          let timer: ReturnType<typeof setTimeout> | null = null;
+
+          return {
+            update: (view, prevState) => {
+              // Rescan after edits, or when the cursor lands in another paragraph
+              const sameParagraph = view.state.selection.$from.parent === prevState.selection.$from.parent;
+              if (view.state.doc.eq(prevState.doc) && sameParagraph) return;
+
+              if (timer) clearTimeout(timer);
+              timer = setTimeout(() => {
+                timer = null;
+                if (!view.isDestroyed) refreshDecorations(view, options.isEnabled());
+              }, options.debounceMs);
+            },
+            destroy: () => {
+              if (timer) clearTimeout(timer);
+            },
+          };
+        },
+
+        props: {
+          decorations: state => frameCoachingKey.getState(state),
+
+          handleClick: (view, pos) => {
+            const set = frameCoachingKey.getState(view.state);
+            const mark = set?.find(pos, pos).find(d => d.from <= pos && pos < d.to);
+            if (!mark) return false;
+
+            const paragraph = getCoachingParagraph(view.state, mark.from);
+            if (!paragraph) return false;
+
+            // Prefer the phrase as rescanned now; fall back to the one decorated
+            const offset = mark.from - paragraph.from;
+            const phrase =
+              paragraph.phrases.find(p => p.start <= offset && offset < p.end) ??
+              (mark.spec.phrase as FrameLeakPhrase);
+
+            const coords = view.coordsAtPos(mark.from);
+            options.onPhraseClick({
+              phrase,
+              paragraph,
+              position: { top: coords.bottom + 6, left: coords.left },
+            });
+            // Let the click still place the cursor
+            return false;
+          },
+        },
+      }),
+    ];
+  },
+});
+
+export default FrameCoachingExtension;
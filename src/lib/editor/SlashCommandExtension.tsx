@@ -9,6 +9,7 @@
 // - Horizontal rules
 // - Images
 // - Tweet embeds
+// - Smart folder result blocks
 // =============================================================================
 
 import { Extension } from '@tiptap/core';
@@ -29,7 +30,9 @@ import {
   Twitter,
   Type,
   Mic,
+  FolderSearch,
 } from 'lucide-react';
+import { getAllSmartFolders } from '../../services/smartFolderStore';
 
 // =============================================================================
 // TYPES
@@ -168,6 +171,30 @@ const getSuggestionItems = (): SlashCommandItem[] => [
       }
     },
   },
+  {
+    title: 'Smart Folder',
+    description: 'Embed live results of a smart folder',
+    icon: <FolderSearch size={18} />,
+    command: ({ editor, range }) => {
+      editor.chain().focus().deleteRange(range).run();
+      const folders = getAllSmartFolders();
+      if (folders.length === 0) {
+        window.alert('Create a smart folder in the notes sidebar first.');
+        return;
+      }
+      // Accept either the list number or the folder name
+      const answer = window.prompt(
+        `Embed which smart folder?\n${folders.map((f, i) => `${i + 1}. ${f.name}`).join('\n')}`
+      );
+      if (!answer) return;
+      const folder =
+        folders[Number(answer.trim()) - 1] ||
+        folders.find(f => f.name.toLowerCase() === answer.trim().toLowerCase());
+      if (folder) {
+        editor.chain().focus().insertSmartQuery({ smartFolderId: folder.id }).run();
+      }
+    },
+  },
   {
     title: 'Audio',
     description: 'Record or upload audio',
@@ -0,0 +1,36 @@
+// =============================================================================
+// HTML TO MARKDOWN TESTS
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { htmlToMarkdown, toObsidianTag } from './htmlToMarkdown';
+
+describe('htmlToMarkdown', () => {
+  it('converts headings, inline formatting, lists and task items', () => {
+    const html =
+      '<h2>Plan</h2><p>Some <strong>bold</strong>, <em>italic</em> and <mark>marked</mark> text</p>' +
+      '<ul><li><p>One</p></li><li><p>Two</p></li></ul>' +
+      '<ul data-type="taskList"><li data-checked="true"><label><input type="checkbox" checked></label><div><p>Done</p></div></li>' +
+      '<li data-checked="false"><label><input type="checkbox"></label><div><p>Open</p></div></li></ul>';
+
+    expect(htmlToMarkdown(html)).toBe(
+      '## Plan\n\nSome **bold**, *italic* and ==marked== text\n\n- One\n- Two\n\n- [x] Done\n- [ ] Open'
+    );
+  });
+
+  it('turns wiki links, contact mentions and topics into Obsidian syntax', () => {
+    const html =
+      '<p>See <span class="wikilink" data-wiki-title="Deal Notes">Deal Notes</span> with ' +
+      '<span class="contact-mention" data-contact-id="c-1" data-contact-name="Old Name">@Old Name</span> ' +
+      'about <span class="topic-mention" data-topic-id="t-1" data-topic-label="Deal Flow">#Deal Flow</span></p>';
+
+    expect(htmlToMarkdown(html, { resolveContactName: id => (id === 'c-1' ? 'Ada Lovelace' : undefined) })).toBe(
+      'See [[Deal Notes]] with [[Ada Lovelace]] about #Deal-Flow'
+    );
+  });
+
+  it('leaves plain-text notes unchanged', () => {
+    expect(htmlToMarkdown('Just a line\n- with a list')).toBe('Just a line\n- with a list');
+    expect(toObsidianTag('#Q3 Goals!')).toBe('Q3-Goals');
+  });
+});
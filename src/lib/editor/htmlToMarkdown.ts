@@ -0,0 +1,213 @@
+// =============================================================================
+// HTML TO MARKDOWN — Convert stored note HTML to Obsidian-flavoured Markdown
+// =============================================================================
+// Notes are stored as TipTap HTML (see noteAdapter.ts). This converter walks
+// the DOM and emits Markdown that Obsidian understands:
+//   - wiki links       <span data-wiki-title="X">   -> [[X]]
+//   - contact mentions <span data-contact-id="…">   -> [[Contact Name]]
+//   - topic mentions   <span data-topic-label="X">  -> #X
+//   - task items       <li data-checked="true">     -> - [x] …
+//   - highlights       <mark>                       -> ==…==
+// Content that contains no HTML tags (legacy notes) is returned unchanged.
+// =============================================================================
+
+export interface HtmlToMarkdownOptions {
+  /** Resolve a mention's display name from its contact ID (falls back to the node's own name) */
+  resolveContactName?: (contactId: string) => string | undefined;
+}
+
+const HAS_TAG = /<[a-z][\s\S]*?>/i;
+
+/** "Deal Flow" -> "Deal-Flow" (Obsidian tags cannot contain spaces) */
+export const toObsidianTag = (label: string): string =>
+  label.trim().replace(/^#/, '').replace(/\s+/g, '-').replace(/[^\p{L}\p{N}_\-/]/gu, '');
+
+const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ');
+
+const wrap = (marker: string, inner: string): string => {
+  const trimmed = inner.trim();
+  if (!trimmed) return inner;
+  // Keep surrounding spaces outside the markers ("** bold **" is not bold)
+  const lead = inner.match(/^\s*/)![0];
+  const trail = inner.match(/\s*$/)![0];
+  return `${lead}${marker}${trimmed}${marker}${trail}`;
+};
+
+const indent = (text: string, prefix: string): string =>
+  text.split('\n').map(line => (line ? prefix + line : line)).join('\n');
+
+class MarkdownWriter {
+  constructor(private options: HtmlToMarkdownOptions) {}
+
+  /** Inline content of a node's children */
+  inline(node: Node): string {
+    return Array.from(node.childNodes).map(child => this.inlineNode(child)).join('');
+  }
+
+  private inlineNode(node: Node): string {
+    if (node.nodeType === 3) return collapseWhitespace(node.textContent || '');
+    if (node.nodeType !== 1) return '';
+    const el = node as Element;
+    const tag = el.tagName.toLowerCase();
+
+    const wikiTitle = el.getAttribute('data-wiki-title');
+    if (wikiTitle) return `[[${wikiTitle}]]`;
+
+    const contactId = el.getAttribute('data-contact-id');
+    if (contactId !== null) {
+      const name =
+        this.options.resolveContactName?.(contactId) ||
+        el.getAttribute('data-contact-name') ||
+        (el.textContent || '').replace(/^@/, '').trim();
+      return name ? `[[${name}]]` : '';
+    }
+
+    const topicLabel = el.getAttribute('data-topic-label');
+    if (topicLabel) return `#${toObsidianTag(topicLabel)}`;
+
+    switch (tag) {
+      case 'br':
+        return '\n';
+      case 'strong':
+      case 'b':
+        return wrap('**', this.inline(el));
+      case 'em':
+      case 'i':
+        return wrap('*', this.inline(el));
+      case 's':
+      case 'del':
+      case 'strike':
+        return wrap('~~', this.inline(el));
+      case 'mark':
+        return wrap('==', this.inline(el));
+      case 'code':
+        return `\`${el.textContent || ''}\``;
+      case 'a': {
+        const href = el.getAttribute('href');
+        const text = this.inline(el).trim();
+        return href ? `[${text || href}](${href})` : text;
+      }
+      case 'img': {
+        const src = el.getAttribute('src');
+        return src ? `![${el.getAttribute('alt') || ''}](${src})` : '';
+      }
+      case 'input':
+      case 'label':
+        return '';
+      default:
+        // Block elements nested inside inline context (e.g. <p> in <li>)
+        return isBlock(tag) ? this.block(el).trim() : this.inline(el);
+    }
+  }
+
+  /** Block-level content of a node's children, separated by blank lines */
+  blocks(node: Node): string {
+    const parts: string[] = [];
+    let inlineRun = '';
+
+    const flush = () => {
+      if (inlineRun.trim()) parts.push(inlineRun.trim());
+      inlineRun = '';
+    };
+
+    for (const child of Array.from(node.childNodes)) {
+      if (child.nodeType === 1 && isBlock((child as Element).tagName.toLowerCase())) {
+        flush();
+        const block = this.block(child as Element);
+        if (block.trim()) parts.push(block.replace(/\s+$/, ''));
+      } else {
+        inlineRun += this.inlineNode(child);
+      }
+    }
+    flush();
+    return parts.join('\n\n');
+  }
+
+  private block(el: Element): string {
+    const tag = el.tagName.toLowerCase();
+
+    switch (tag) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        return `${'#'.repeat(Number(tag[1]))} ${this.inline(el).trim()}`;
+      case 'p':
+        return this.inline(el).trim();
+      case 'hr':
+        return '---';
+      case 'pre':
+        return `\`\`\`\n${(el.textContent || '').replace(/\n$/, '')}\n\`\`\``;
+      case 'blockquote':
+        return indent(this.blocks(el), '> ').replace(/^$/gm, '>');
+      case 'ul':
+      case 'ol':
+        return this.list(el, tag === 'ol');
+      case 'table':
+        return this.table(el);
+      default:
+        return this.blocks(el);
+    }
+  }
+
+  private list(el: Element, ordered: boolean): string {
+    const items = Array.from(el.children).filter(c => c.tagName.toLowerCase() === 'li');
+    const start = Number(el.getAttribute('start') || 1);
+
+    return items
+      .map((li, index) => {
+        const checked = li.getAttribute('data-checked');
+        const marker = ordered
+          ? `${start + index}.`
+          : checked !== null
+            ? `- [${checked === 'true' ? 'x' : ' '}]`
+            : '-';
+        const body = this.blocks(li);
+        const [first = '', ...rest] = body.split('\n');
+        const pad = ' '.repeat(marker.length + 1);
+        return [`${marker} ${first}`, ...rest.map(line => (line ? pad + line : line))]
+          .join('\n')
+          .replace(/\n\n+/g, '\n');
+      })
+      .join('\n');
+  }
+
+  private table(el: Element): string {
+    const rows = Array.from(el.querySelectorAll('tr')).map(tr =>
+      Array.from(tr.children).map(cell => this.inline(cell).trim().replace(/\|/g, '\\|'))
+    );
+    if (rows.length === 0) return '';
+    const width = Math.max(...rows.map(r => r.length));
+    const line = (cells: string[]) =>
+      `| ${Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ')} |`;
+    return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+  }
+}
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'ul', 'ol', 'li', 'pre', 'blockquote', 'hr', 'table', 'figure',
+]);
+
+const isBlock = (tag: string): boolean => BLOCK_TAGS.has(tag);
+
+/**
+ * Convert stored note HTML to Markdown.
+ * Without a DOM (server side) tags are stripped and only text is kept.
+ */
+export const htmlToMarkdown = (html: string, options: HtmlToMarkdownOptions = {}): string => {
+  if (!html) return '';
+  if (!HAS_TAG.test(html)) return html;
+
+  if (typeof DOMParser === 'undefined') {
+    return html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(p|h\d|li|div)>/gi, '\n\n').replace(/<[^>]*>/g, '').trim();
+  }
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return new MarkdownWriter(options)
+    .blocks(doc.body)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
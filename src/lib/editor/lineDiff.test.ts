@@ -0,0 +1,39 @@
+// =============================================================================
+// LINE DIFF TESTS
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { diffLines, toSideBySide } from './lineDiff';
+
+describe('diffLines', () => {
+  it('marks inserted, deleted and unchanged lines', () => {
+    const ops = diffLines('# Plan\nCall Ada\nSend deck\nDone', '# Plan\nCall Ada today\nSend deck\nFollow up\nDone');
+
+    expect(ops).toEqual([
+      { type: 'equal', line: '# Plan' },
+      { type: 'delete', line: 'Call Ada' },
+      { type: 'insert', line: 'Call Ada today' },
+      { type: 'equal', line: 'Send deck' },
+      { type: 'insert', line: 'Follow up' },
+      { type: 'equal', line: 'Done' },
+    ]);
+  });
+
+  it('handles empty sides', () => {
+    expect(diffLines('', 'a\nb').map(op => op.type)).toEqual(['insert', 'insert']);
+    expect(diffLines('a', '').map(op => op.type)).toEqual(['delete']);
+  });
+});
+
+describe('toSideBySide', () => {
+  it('pairs replaced lines on the same row', () => {
+    const rows = toSideBySide(diffLines('a\nold\nz', 'a\nnew\nextra\nz'));
+
+    expect(rows.map(r => [r.left?.line ?? null, r.right?.line ?? null])).toEqual([
+      ['a', 'a'],
+      ['old', 'new'],
+      [null, 'extra'],
+      ['z', 'z'],
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+// =============================================================================
+// LINE DIFF — Line-based diff for comparing note revisions
+// =============================================================================
+// Longest-common-subsequence diff over lines, with the shared prefix and
+// suffix trimmed first so typical edits (a few lines changed in a long note)
+// stay cheap. Very large unequal middles fall back to "all removed, all
+// added" rather than allocating a huge table.
+// =============================================================================
+
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp {
+  type: DiffOpType;
+  line: string;
+}
+
+/** One row of a side-by-side view; a missing side is an empty cell */
+export interface SideBySideRow {
+  left: DiffOp | null;
+  right: DiffOp | null;
+}
+
+/** Upper bound on LCS table cells before falling back */
+const MAX_TABLE_CELLS = 4_000_000;
+
+export const diffLines = (before: string, after: string): DiffOp[] => {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map(line => ({ type: 'equal', line }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_TABLE_CELLS) {
+    ops.push(...midA.map(line => ({ type: 'delete' as const, line })));
+    ops.push(...midB.map(line => ({ type: 'insert' as const, line })));
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const cols = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * cols + j + 1] + 1
+            : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        ops.push({ type: 'equal', line: midA[i] });
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+        ops.push({ type: 'delete', line: midA[i++] });
+      } else {
+        ops.push({ type: 'insert', line: midB[j++] });
+      }
+    }
+    while (i < midA.length) ops.push({ type: 'delete', line: midA[i++] });
+    while (j < midB.length) ops.push({ type: 'insert', line: midB[j++] });
+  }
+
+  ops.push(...a.slice(endA).map(line => ({ type: 'equal' as const, line })));
+  return ops;
+};
+
+/**
+ * Lay a diff out in two columns. Runs of deletions and insertions are paired
+ * row by row so a changed line shows its old and new text side by side.
+ */
+export const toSideBySide = (ops: DiffOp[]): SideBySideRow[] => {
+  const rows: SideBySideRow[] = [];
+  let deletes: DiffOp[] = [];
+  let inserts: DiffOp[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(deletes.length, inserts.length); k++) {
+      rows.push({ left: deletes[k] || null, right: inserts[k] || null });
+    }
+    deletes = [];
+    inserts = [];
+  };
+
+  for (const op of ops) {
+    if (op.type === 'delete') deletes.push(op);
+    else if (op.type === 'insert') inserts.push(op);
+    else {
+      flush();
+      rows.push({ left: op, right: op });
+    }
+  }
+  flush();
+  return rows;
+};
@@ -0,0 +1,63 @@
+// =============================================================================
+// TEXT ANCHOR TESTS
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { htmlToAnchorText, createTextAnchor, resolveTextAnchor } from './textAnchor';
+
+const TEXT = 'Pricing review. We agreed the pilot costs 5k per month. Next step: send the pilot contract to legal.';
+
+describe('htmlToAnchorText', () => {
+  it('separates blocks and drops inline tags', () => {
+    expect(htmlToAnchorText('<h1>Plan</h1><p>Call <strong>Ada</strong>&nbsp;today</p><ul><li>one</li><li>two</li></ul>'))
+      .toBe('Plan Call Ada today one two');
+  });
+});
+
+describe('createTextAnchor', () => {
+  it('normalizes the selection and captures context', () => {
+    const anchor = createTextAnchor(TEXT, 'the pilot\n costs 5k')!;
+    expect(anchor.quote).toBe('the pilot costs 5k');
+    expect(TEXT.slice(anchor.start, anchor.start + anchor.quote.length)).toBe(anchor.quote);
+    expect(anchor.prefix.endsWith('We agreed ')).toBe(true);
+    expect(anchor.suffix.startsWith(' per month')).toBe(true);
+  });
+
+  it('returns null for text that is not in the note', () => {
+    expect(createTextAnchor(TEXT, 'not here')).toBeNull();
+    expect(createTextAnchor(TEXT, '   ')).toBeNull();
+  });
+});
+
+describe('resolveTextAnchor', () => {
+  it('follows the passage when text is inserted before it', () => {
+    const anchor = createTextAnchor(TEXT, 'the pilot costs 5k')!;
+    const edited = `Attendees: Ada, Grace. ${TEXT}`;
+
+    const range = resolveTextAnchor(anchor, edited)!;
+    expect(edited.slice(range.start, range.end)).toBe('the pilot costs 5k');
+    expect(range.drifted).toBe(false);
+  });
+
+  it('uses context to pick between repeated quotes', () => {
+    const anchor = createTextAnchor(TEXT, 'the pilot', TEXT.indexOf('the pilot contract'))!;
+    const edited = TEXT.replace('Pricing review.', 'Pricing review (moved).');
+
+    const range = resolveTextAnchor(anchor, edited)!;
+    expect(range.start).toBe(edited.indexOf('the pilot contract'));
+  });
+
+  it('re-locates an edited quote from its surrounding context', () => {
+    const anchor = createTextAnchor(TEXT, 'the pilot costs 5k')!;
+    const edited = TEXT.replace('the pilot costs 5k', 'the pilot costs 6k');
+
+    const range = resolveTextAnchor(anchor, edited)!;
+    expect(range.text).toBe('the pilot costs 6k');
+    expect(range.drifted).toBe(true);
+  });
+
+  it('orphans the anchor when the passage is deleted', () => {
+    const anchor = createTextAnchor(TEXT, 'the pilot costs 5k')!;
+    expect(resolveTextAnchor(anchor, 'Pricing review. Nothing agreed yet.')).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+// =============================================================================
+// TEXT ANCHOR — Attach annotations to a quoted passage that survives edits
+// =============================================================================
+// A TextQuote-style selector: the quoted text plus a little context on each
+// side and the offset it was last seen at. Anchors work on "anchor text" (note
+// HTML flattened to whitespace-collapsed plain text) so the same passage maps
+// to the same string whether it came from stored HTML or a DOM selection.
+//
+// Resolution, in order:
+//   1. Exact occurrences of the quote, ranked by how much surrounding context
+//      still matches and by distance from the last known offset
+//   2. The span between the old prefix and suffix, when the quote itself was
+//      edited but its surroundings were not
+// When neither works the anchor is orphaned (the passage was deleted).
+// =============================================================================
+
+export interface TextAnchor {
+  /** The passage the annotation is attached to */
+  quote: string;
+  /** Up to CONTEXT_CHARS characters before the quote */
+  prefix: string;
+  /** Up to CONTEXT_CHARS characters after the quote */
+  suffix: string;
+  /** Offset in anchor text where the quote was last found */
+  start: number;
+}
+
+export interface ResolvedTextAnchor {
+  start: number;
+  end: number;
+  /** Text currently at the anchored range */
+  text: string;
+  /** True when the quote itself changed and was located via its context */
+  drifted: boolean;
+}
+
+const CONTEXT_CHARS = 32;
+
+const BLOCK_TAGS = /<\/?(p|div|li|ul|ol|h[1-6]|blockquote|pre|tr|td|th|table|br|hr)\b[^>]*>/gi;
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", nbsp: ' ' };
+
+export const normalizeAnchorText = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Flatten note HTML to anchor text. Block boundaries become spaces and inline
+ * tags disappear, matching what a browser selection of the same passage
+ * normalizes to.
+ */
+export const htmlToAnchorText = (html: string): string =>
+  normalizeAnchorText(
+    html
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+      .replace(BLOCK_TAGS, ' ')
+      .replace(/<[^>]*>/g, '')
+      .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_, entity) => ENTITIES[entity])
+  );
+
+/**
+ * Build an anchor for a quote found in `text`. When the quote occurs more
+ * than once, the occurrence nearest `nearOffset` is used.
+ * @returns null if the quote is empty or not present
+ */
+export const createTextAnchor = (text: string, quote: string, nearOffset = 0): TextAnchor | null => {
+  const normalized = normalizeAnchorText(quote);
+  if (!normalized) return null;
+
+  let start = -1;
+  for (let i = text.indexOf(normalized); i !== -1; i = text.indexOf(normalized, i + 1)) {
+    if (start === -1 || Math.abs(i - nearOffset) < Math.abs(start - nearOffset)) start = i;
+  }
+  if (start === -1) return null;
+
+  return anchorAt(text, start, start + normalized.length);
+};
+
+/** Anchor the exact range [start, end) of `text` */
+export const anchorAt = (text: string, start: number, end: number): TextAnchor => ({
+  quote: text.slice(start, end),
+  prefix: text.slice(Math.max(0, start - CONTEXT_CHARS), start),
+  suffix: text.slice(end, end + CONTEXT_CHARS),
+  start,
+});
+
+/** Length of the common suffix of two strings */
+const commonSuffix = (a: string, b: string): number => {
+  let n = 0;
+  while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+  return n;
+};
+
+/** Length of the common prefix of two strings */
+const commonPrefix = (a: string, b: string): number => {
+  let n = 0;
+  while (n < a.length && n < b.length && a[n] === b[n]) n++;
+  return n;
+};
+
+/** Locate an anchor in the current text, or null if it is orphaned */
+export const resolveTextAnchor = (anchor: TextAnchor, text: string): ResolvedTextAnchor | null => {
+  if (!anchor.quote) return null;
+
+  // 1. Exact quote, best context match wins
+  let best: { start: number; score: number } | null = null;
+  for (let i = text.indexOf(anchor.quote); i !== -1; i = text.indexOf(anchor.quote, i + 1)) {
+    const end = i + anchor.quote.length;
+    const context =
+      commonSuffix(text.slice(Math.max(0, i - CONTEXT_CHARS), i), anchor.prefix) +
+      commonPrefix(text.slice(end, end + CONTEXT_CHARS), anchor.suffix);
+    // Context dominates; distance only breaks ties
+    const score = context * text.length - Math.abs(i - anchor.start);
+    if (!best || score > best.score) best = { start: i, score };
+  }
+  if (best) {
+    return {
+      start: best.start,
+      end: best.start + anchor.quote.length,
+      text: anchor.quote,
+      drifted: false,
+    };
+  }
+
+  // 2. Quote edited in place: take what now sits between the old context
+  if (anchor.prefix.length < 4 || anchor.suffix.length < 4) return null;
+  const maxLength = Math.max(anchor.quote.length * 2, anchor.quote.length + CONTEXT_CHARS);
+  let drifted: ResolvedTextAnchor | null = null;
+  for (let p = text.indexOf(anchor.prefix); p !== -1; p = text.indexOf(anchor.prefix, p + 1)) {
+    const start = p + anchor.prefix.length;
+    const end = text.indexOf(anchor.suffix, start);
+    if (end === -1 || end === start || end - start > maxLength) continue;
+    if (!drifted || Math.abs(start - anchor.start) < Math.abs(drifted.start - anchor.start)) {
+      drifted = { start, end, text: text.slice(start, end), drifted: true };
+    }
+  }
+  return drifted;
+};
@@ -19,6 +19,7 @@
 // - WikiLinkNode: [[wiki link]] syntax for note linking
 // - ContactMentionNode: @contact mentions
 // - TopicMentionNode: #topic hashtags
+// - SmartQueryNode: live smart folder results embedded in a note
 // - SlashCommandExtension: "/" menu for quick block insertion
 //
 // NO PRO/CLOUD FEATURES - All extensions are open-source core.
@@ -37,6 +38,7 @@ import { TweetEmbedNode } from '../../components/notes/extensions/TweetEmbedNode
 import { WikiLinkNode } from '../../components/notes/extensions/WikiLinkNode';
 import { ContactMentionNode } from '../../components/notes/extensions/ContactMentionNode';
 import { TopicMentionNode } from '../../components/notes/extensions/TopicMentionNode';
+import { SmartQueryNode } from '../../components/notes/extensions/SmartQueryNode';
 import { SlashCommandExtension } from './SlashCommandExtension';
 
 // =============================================================================
@@ -213,6 +215,16 @@ export function createTiptapExtensions(options: TiptapExtensionOptions) {
 
     // Tweet embeds (with paste-to-embed)
     TweetEmbedNode,
+
+    // Smart folder result blocks
+    SmartQueryNode.configure({
+      onNavigate: (noteId: string) => {
+        if (onNavigateToNote) {
+          onNavigateToNote(noteId);
+        }
+      },
+      colors,
+    }),
   ];
 
   // Optional slash command menu
@@ -338,5 +350,6 @@ export {
   WikiLinkNode,
   ContactMentionNode,
   TopicMentionNode,
+  SmartQueryNode,
   SlashCommandExtension,
 };
@@ -0,0 +1,14 @@
+// =============================================================================
+// DOWNLOAD — Trigger a browser download for generated files
+// =============================================================================
+
+/** Save text or bytes as a file via a temporary object URL */
+export const downloadFile = (fileName: string, data: string | Uint8Array, mimeType: string): void => {
+  const blob = new Blob([data as BlobPart], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
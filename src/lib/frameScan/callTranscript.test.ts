@@ -0,0 +1,147 @@
+// =============================================================================
+// CALL TRANSCRIPT TESTS — Parsing, speaker turns and talk metrics
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseTranscript,
+  parseTimestamp,
+  detectTranscriptFormat,
+  getTranscriptSpeakers,
+  buildCallTurns,
+  computeCallMetrics,
+  selectTurnsForScoring,
+  type ResolvedUtterance,
+} from './callTranscript';
+import type { FrameCallTurn } from './frameTypes';
+
+const ME = 'contact_zero';
+const THEM = 'contact-call-test';
+
+describe('parseTranscript', () => {
+  it('parses WebVTT cues with voice tags', () => {
+    const vtt = [
+      'WEBVTT',
+      '',
+      '1',
+      '00:00:01.000 --> 00:00:04.500',
+      '<v Dana Reyes>Thanks for jumping on.</v>',
+      '',
+      '00:00:04.200 --> 00:00:09.000',
+      '<v Alex>Happy to. What did you want to cover?</v>',
+    ].join('\n');
+
+    expect(detectTranscriptFormat(vtt)).toBe('vtt');
+    expect(parseTranscript(vtt)).toEqual([
+      { speaker: 'Dana Reyes', text: 'Thanks for jumping on.', start: 1, end: 4.5 },
+      { speaker: 'Alex', text: 'Happy to. What did you want to cover?', start: 4.2, end: 9 },
+    ]);
+  });
+
+  it('parses SRT cues with "Name:" speakers', () => {
+    const srt = '1\n00:01:02,500 --> 00:01:05,000\nSpeaker 1: Hello there.\n\n2\n00:01:05,000 --> 00:01:07,000\nSpeaker 2: Hi.\n';
+
+    expect(detectTranscriptFormat(srt)).toBe('srt');
+    const utterances = parseTranscript(srt);
+    expect(utterances[0]).toEqual({ speaker: 'Speaker 1', text: 'Hello there.', start: 62.5, end: 65 });
+    expect(getTranscriptSpeakers(utterances)).toEqual(['Speaker 1', 'Speaker 2']);
+  });
+
+  it('joins unlabelled lines to the previous speaker and ignores sentence colons', () => {
+    const utterances = parseTranscript('Me: Here is the plan.\nIt has three parts.\nDana: One note: the budget is fixed.');
+
+    expect(utterances).toEqual([
+      { speaker: 'Me', text: 'Here is the plan. It has three parts.' },
+      { speaker: 'Dana', text: 'One note: the budget is fixed.' },
+    ]);
+  });
+
+  it('splits a transcript without speakers into sentences', () => {
+    const utterances = parseTranscript('Thanks for the time. Sure, what is on your mind? Pricing.');
+
+    expect(utterances.map(u => u.text)).toEqual(['Thanks for the time.', 'Sure, what is on your mind?', 'Pricing.']);
+    expect(utterances.every(u => u.speaker === null)).toBe(true);
+  });
+
+  it('parses short and long timestamps', () => {
+    expect(parseTimestamp('01:02:03.250')).toBe(3723.25);
+    expect(parseTimestamp('2:03,5')).toBe(123.5);
+  });
+});
+
+describe('buildCallTurns', () => {
+  it('merges consecutive lines by the same speaker', () => {
+    const turns = buildCallTurns([
+      { speakerContactId: ME, text: 'Hi.', start: 0, end: 2 },
+      { speakerContactId: ME, text: 'Quick agenda.', start: 2, end: 5 },
+      { speakerContactId: THEM, text: 'Sounds good.', start: 5.5, end: 7 },
+    ]);
+
+    expect(turns).toHaveLength(2);
+    expect(turns[0]).toMatchObject({ text: 'Hi. Quick agenda.', start: 0, end: 5, interrupted: false });
+  });
+
+  it('marks overlapping and cut-off turns as interruptions', () => {
+    const timed = buildCallTurns([
+      { speakerContactId: THEM, text: 'So what we need is', start: 0, end: 6 },
+      { speakerContactId: ME, text: 'Right, right.', start: 4, end: 7 },
+    ]);
+    expect(timed[1].interrupted).toBe(true);
+
+    const untimed = buildCallTurns([
+      { speakerContactId: THEM, text: 'The real issue is—' },
+      { speakerContactId: ME, text: 'Let me stop you there.' },
+      { speakerContactId: THEM, text: 'Okay.' },
+    ]);
+    expect(untimed.map(t => t.interrupted)).toEqual([false, true, false]);
+  });
+});
+
+describe('computeCallMetrics', () => {
+  it('uses speaking time when every turn is timed', () => {
+    const resolved: ResolvedUtterance[] = [
+      { speakerContactId: THEM, text: 'What does it cost?', start: 0, end: 10 },
+      { speakerContactId: ME, text: 'It depends on scope. Which teams would use it? How many seats?', start: 10, end: 40 },
+    ];
+    const metrics = computeCallMetrics(buildCallTurns(resolved));
+
+    expect(metrics.durationSeconds).toBe(40);
+    expect(metrics.speakers[0]).toMatchObject({
+      speakerContactId: ME,
+      seconds: 30,
+      talkShare: 0.75,
+      questions: 2,
+      longestMonologueSeconds: 30,
+    });
+    expect(metrics.speakers[1]).toMatchObject({ speakerContactId: THEM, talkShare: 0.25, questions: 1 });
+  });
+
+  it('falls back to word counts without timestamps', () => {
+    const metrics = computeCallMetrics(buildCallTurns([
+      { speakerContactId: ME, text: 'one two three' },
+      { speakerContactId: THEM, text: 'one' },
+    ]));
+
+    expect(metrics.durationSeconds).toBeNull();
+    expect(metrics.speakers[0]).toMatchObject({ words: 3, seconds: null, talkShare: 0.75, longestMonologueSeconds: null });
+  });
+});
+
+describe('selectTurnsForScoring', () => {
+  const turn = (speakerContactId: string, words: number): FrameCallTurn => ({
+    speakerContactId,
+    text: Array(words).fill('word').join(' '),
+    interrupted: false,
+  });
+
+  it('keeps every turn when under the limit', () => {
+    expect(selectTurnsForScoring([turn(ME, 1), turn(THEM, 1)], 5)).toEqual([0, 1]);
+  });
+
+  it('picks the longest turns in call order, keeping both sides', () => {
+    const turns = [turn(ME, 50), turn(THEM, 2), turn(ME, 40), turn(THEM, 1), turn(ME, 60)];
+
+    expect(selectTurnsForScoring(turns, 2)).toEqual([1, 4]);
+    expect(selectTurnsForScoring(turns, 3)).toEqual([0, 1, 4]);
+  });
+});
@@ -0,0 +1,267 @@
+// =============================================================================
+// CALL TRANSCRIPT — Parsing, speaker turns and talk metrics for call scans
+// =============================================================================
+// Transcripts arrive as WebVTT or SRT files (with timestamps) or as plain
+// text, either "Name: line" formatted or a raw Whisper transcript with no
+// speakers at all. parseTranscript turns any of them into utterances; once
+// every utterance has a speaker, buildCallTurns merges them into turns and
+// computeCallMetrics derives talk ratio, interruptions, questions and
+// monologue length.
+//
+// Without timestamps, time-based metrics are null, talk share falls back to
+// word counts, and an interruption is a turn that follows a cut-off line
+// (one ending in a dash or ellipsis).
+// =============================================================================
+
+import type { FrameCallMetrics, FrameCallSpeakerMetrics, FrameCallTurn } from "./frameTypes";
+import { CONTACT_ZERO } from "../../services/contactStore";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * One line of a transcript as parsed, before speakers are resolved.
+ */
+export interface TranscriptUtterance {
+  /** Speaker label from the transcript ("Dana", "Speaker 1"), or null when unlabelled */
+  speaker: string | null;
+  text: string;
+  /** Seconds from the start of the call */
+  start?: number;
+  /** Seconds from the start of the call */
+  end?: number;
+}
+
+/**
+ * An utterance attributed to Contact Zero or the contact.
+ */
+export interface ResolvedUtterance {
+  speakerContactId: string;
+  text: string;
+  start?: number;
+  end?: number;
+}
+
+export type TranscriptFormat = "vtt" | "srt" | "plain";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Overlap (seconds) before a timed turn counts as an interruption */
+const INTERRUPTION_OVERLAP_SECONDS = 0.3;
+
+const TIMING_LINE = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+/** "Speaker 1", "SPEAKER_01" or a capitalised name of up to four words */
+const SPEAKER_LABEL = /^(?:(?:Speaker|SPEAKER)[ _]?\d+|[A-Z][\w.'-]*(?: [A-Z][\w.'-]*){0,3})$/;
+const CUT_OFF = /(?:-|—|–|\.\.\.|…)\s*$/;
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/** Parse "01:02:03.456", "02:03,456" or "2:03.4" into seconds */
+export function parseTimestamp(value: string): number {
+  const [clock, fraction = "0"] = value.trim().split(/[.,]/);
+  const parts = clock.split(":").map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds + Number(`0.${fraction}`);
+}
+
+export function detectTranscriptFormat(text: string): TranscriptFormat {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith("WEBVTT")) return "vtt";
+  if (/^\d+\s*\r?\n\s*(?:\d+:)?\d{1,2}:\d{2},\d{1,3}\s*-->/m.test(trimmed)) return "srt";
+  return "plain";
+}
+
+/**
+ * Split a "Name: text" line into speaker and text. Only short, capitalised
+ * labels count, so ordinary sentences with a colon are left whole.
+ */
+function splitSpeaker(line: string): { speaker: string | null; text: string } {
+  const colon = line.indexOf(":");
+  if (colon > 0 && colon <= 40) {
+    const label = line.slice(0, colon).trim();
+    if (SPEAKER_LABEL.test(label)) {
+      return { speaker: label, text: line.slice(colon + 1).trim() };
+    }
+  }
+  return { speaker: null, text: line.trim() };
+}
+
+/** Parse timed cue blocks shared by WebVTT and SRT */
+function parseCues(text: string): TranscriptUtterance[] {
+  const utterances: TranscriptUtterance[] = [];
+  const blocks = text.replace(/\r\n/g, "\n").split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split("\n").map(l => l.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(l => TIMING_LINE.test(l));
+    if (timingIndex === -1) continue;
+
+    const [, startRaw, endRaw] = lines[timingIndex].match(TIMING_LINE)!;
+    const raw = lines.slice(timingIndex + 1).join(" ");
+    if (!raw) continue;
+
+    // WebVTT voice tags: <v Dana> or <v.loud Dana>
+    const voice = raw.match(/<v(?:\.[\w.]+)?\s+([^>]+)>/);
+    const stripped = raw.replace(/<[^>]+>/g, "").trim();
+    const { speaker, text: body } = voice
+      ? { speaker: voice[1].trim(), text: stripped }
+      : splitSpeaker(stripped);
+
+    if (!body) continue;
+    utterances.push({ speaker, text: body, start: parseTimestamp(startRaw), end: parseTimestamp(endRaw) });
+  }
+
+  return utterances;
+}
+
+/**
+ * Plain text: "Name: line" per line, where unlabelled lines continue the
+ * previous speaker. A transcript with no labels at all is split into
+ * sentences with no speaker, ready for attribution.
+ */
+function parsePlain(text: string): TranscriptUtterance[] {
+  const lines = text.replace(/\r\n/g, "\n").split("\n").map(l => l.trim()).filter(Boolean);
+  const parsed = lines.map(splitSpeaker);
+
+  if (!parsed.some(p => p.speaker)) {
+    return (text.match(/[^.!?…]+(?:[.!?…]+|$)/g) || [])
+      .map(sentence => sentence.trim())
+      .filter(Boolean)
+      .map(sentence => ({ speaker: null, text: sentence }));
+  }
+
+  const utterances: TranscriptUtterance[] = [];
+  for (const { speaker, text: body } of parsed) {
+    const last = utterances[utterances.length - 1];
+    if (!speaker && last) {
+      last.text = `${last.text} ${body}`;
+    } else if (body) {
+      utterances.push({ speaker, text: body });
+    }
+  }
+  return utterances;
+}
+
+/**
+ * Parse a transcript in any supported format into utterances.
+ */
+export function parseTranscript(text: string): TranscriptUtterance[] {
+  const format = detectTranscriptFormat(text);
+  return format === "plain" ? parsePlain(text) : parseCues(text);
+}
+
+/** Distinct speaker labels in order of first appearance */
+export function getTranscriptSpeakers(utterances: TranscriptUtterance[]): string[] {
+  return [...new Set(utterances.map(u => u.speaker).filter((s): s is string => !!s))];
+}
+
+// =============================================================================
+// TURNS
+// =============================================================================
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Merge consecutive utterances by the same speaker into turns and mark
+ * interruptions.
+ */
+export function buildCallTurns(utterances: ResolvedUtterance[]): FrameCallTurn[] {
+  const turns: FrameCallTurn[] = [];
+  let lastText = "";
+
+  for (const utterance of utterances) {
+    const text = utterance.text.trim();
+    if (!text) continue;
+
+    const last = turns[turns.length - 1];
+    if (last && last.speakerContactId === utterance.speakerContactId) {
+      last.text = `${last.text} ${text}`;
+      if (utterance.end !== undefined) last.end = utterance.end;
+    } else {
+      const overlapped = last?.end !== undefined && utterance.start !== undefined
+        && utterance.start < last.end - INTERRUPTION_OVERLAP_SECONDS;
+      turns.push({
+        speakerContactId: utterance.speakerContactId,
+        text,
+        start: utterance.start,
+        end: utterance.end,
+        interrupted: !!last && (overlapped || CUT_OFF.test(lastText)),
+      });
+    }
+    lastText = text;
+  }
+
+  return turns;
+}
+
+// =============================================================================
+// METRICS
+// =============================================================================
+
+/**
+ * Talk ratio, interruptions, questions and monologue length per speaker.
+ * Contact Zero is listed first.
+ */
+export function computeCallMetrics(turns: FrameCallTurn[]): FrameCallMetrics {
+  const timed = turns.length > 0 && turns.every(t => t.start !== undefined && t.end !== undefined);
+  const duration = (turn: FrameCallTurn) => (timed ? Math.max(0, turn.end! - turn.start!) : 0);
+
+  const speakerIds = [...new Set(turns.map(t => t.speakerContactId))]
+    .sort((a, b) => Number(b === CONTACT_ZERO.id) - Number(a === CONTACT_ZERO.id));
+
+  const speakers: FrameCallSpeakerMetrics[] = speakerIds.map(speakerContactId => {
+    const own = turns.filter(t => t.speakerContactId === speakerContactId);
+    const wordsPerTurn = own.map(t => countWords(t.text));
+    return {
+      speakerContactId,
+      turns: own.length,
+      words: wordsPerTurn.reduce((sum, w) => sum + w, 0),
+      seconds: timed ? Math.round(own.reduce((sum, t) => sum + duration(t), 0)) : null,
+      talkShare: 0,
+      questions: own.reduce((sum, t) => sum + (t.text.match(/\?+/g)?.length ?? 0), 0),
+      interruptions: own.filter(t => t.interrupted).length,
+      longestMonologueWords: Math.max(0, ...wordsPerTurn),
+      longestMonologueSeconds: timed ? Math.round(Math.max(0, ...own.map(duration))) : null,
+    };
+  });
+
+  const totalOf = (m: FrameCallSpeakerMetrics) => (timed ? m.seconds ?? 0 : m.words);
+  const total = speakers.reduce((sum, m) => sum + totalOf(m), 0);
+  for (const m of speakers) {
+    m.talkShare = total > 0 ? Math.round((totalOf(m) / total) * 100) / 100 : 0;
+  }
+
+  return {
+    durationSeconds: timed
+      ? Math.round(Math.max(...turns.map(t => t.end!)) - Math.min(...turns.map(t => t.start!)))
+      : null,
+    speakers,
+  };
+}
+
+/**
+ * Choose which turns to score when a call has more turns than a scan takes:
+ * the longest turns, kept in call order, with at least one from each side.
+ */
+export function selectTurnsForScoring(turns: FrameCallTurn[], max: number): number[] {
+  const all = turns.map((_, index) => index);
+  if (turns.length <= max) return all;
+
+  const byLength = [...all].sort((a, b) => countWords(turns[b].text) - countWords(turns[a].text));
+  const selected = byLength.slice(0, max);
+
+  for (const side of [true, false]) {
+    const isSide = (i: number) => (turns[i].speakerContactId === CONTACT_ZERO.id) === side;
+    if (!selected.some(isSide)) {
+      const best = byLength.find(isSide);
+      if (best !== undefined) selected[selected.length - 1] = best;
+    }
+  }
+
+  return selected.sort((a, b) => a - b);
+}
@@ -0,0 +1,110 @@
+// =============================================================================
+// EVIDENCE SPAN TESTS — Span validation and highlight segmentation
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { normalizeEvidenceSpans, normalizeFrameScanReport } from './normalizeFrameScanReport';
+import { collectEvidenceMarks, segmentEvidenceText, getDominantAxisMark } from './evidenceSpans';
+
+const TEXT = 'Sorry to bother you again. I would be so grateful for any time you have. Let me know.';
+
+describe('normalizeEvidenceSpans', () => {
+  it('keeps spans whose offsets match their quote', () => {
+    expect(normalizeEvidenceSpans([{ start: 0, end: 26, quote: 'Sorry to bother you again.' }], TEXT)).toEqual([
+      { start: 0, end: 26, quote: 'Sorry to bother you again.' },
+    ]);
+  });
+
+  it('re-anchors drifted offsets to the quote and drops unplaceable spans', () => {
+    const spans = normalizeEvidenceSpans(
+      [
+        { start: 30, end: 50, quote: 'so grateful' },
+        { start: 0, end: 5, quote: 'not in the text' },
+        { start: 'a', end: 3, quote: 'Sorry' },
+      ],
+      TEXT
+    );
+
+    expect(spans).toEqual([{ start: 38, end: 49, quote: 'so grateful' }]);
+  });
+
+  it('fills a missing quote from the text and rejects out-of-range offsets', () => {
+    expect(normalizeEvidenceSpans([{ start: 73, end: 85 }, { start: 80, end: 200 }], TEXT)).toEqual([
+      { start: 73, end: 85, quote: 'Let me know.' },
+    ]);
+  });
+
+  it('only checks shape without the scanned text', () => {
+    expect(normalizeEvidenceSpans([{ start: 4, end: 2, quote: 'x' }, { start: 1, end: 3, quote: 'ab' }])).toEqual([
+      { start: 1, end: 3, quote: 'ab' },
+    ]);
+  });
+});
+
+describe('normalizeFrameScanReport evidence', () => {
+  const raw = {
+    modality: 'text',
+    domain: 'generic',
+    overallFrame: 'slave',
+    overallWinWinState: 'win_lose',
+    axes: [
+      { axisId: 'pedestalization', score: -2, band: 'mild_slave', notes: 'Grovelling', evidenceSpans: [{ start: 0, end: 3, quote: 'so grateful' }] },
+      { axisId: 'field_strength', score: 0, band: 'neutral', notes: '' },
+    ],
+    diagnostics: {
+      primaryPatterns: ['apologetic opener'],
+      supportingEvidence: [],
+      patternSpans: [
+        { pattern: 'apologetic opener', spans: [{ start: 0, end: 5, quote: 'Sorry' }] },
+        { pattern: 'ghost', spans: [{ start: 0, end: 5, quote: 'nowhere' }] },
+      ],
+    },
+  };
+
+  it('validates axis and pattern spans against the text', () => {
+    const result = normalizeFrameScanReport(raw, TEXT);
+
+    expect(result.axes[0].evidenceSpans).toEqual([{ start: 38, end: 49, quote: 'so grateful' }]);
+    expect(result.axes[1]).not.toHaveProperty('evidenceSpans');
+    expect(result.diagnostics.patternSpans).toEqual([
+      { pattern: 'apologetic opener', spans: [{ start: 0, end: 5, quote: 'Sorry' }] },
+    ]);
+  });
+
+  it('is idempotent', () => {
+    const once = normalizeFrameScanReport(raw, TEXT);
+    expect(normalizeFrameScanReport(once, TEXT)).toEqual(once);
+  });
+});
+
+describe('segmentEvidenceText', () => {
+  const result = normalizeFrameScanReport({
+    axes: [
+      { axisId: 'pedestalization', score: -2, band: 'mild_slave', notes: '', evidenceSpans: [{ start: 27, end: 72, quote: TEXT.slice(27, 72) }] },
+      { axisId: 'assumptive_state', score: -3, band: 'strong_slave', notes: '', evidenceSpans: [{ start: 38, end: 49, quote: 'so grateful' }] },
+    ],
+    diagnostics: { patternSpans: [{ pattern: 'apologetic opener', spans: [{ start: 0, end: 5, quote: 'Sorry' }] }] },
+  }, TEXT);
+  const marks = collectEvidenceMarks(result);
+
+  it('cuts the text at every span boundary without losing text', () => {
+    const segments = segmentEvidenceText(TEXT, marks);
+
+    expect(segments.map(s => s.text).join('')).toBe(TEXT);
+    expect(segments.map(s => [s.start, s.end, s.marks.length])).toEqual([
+      [0, 5, 1],
+      [5, 27, 0],
+      [27, 38, 1],
+      [38, 49, 2],
+      [49, 72, 1],
+      [72, 85, 0],
+    ]);
+  });
+
+  it('colours overlapping evidence by the lowest-scoring axis', () => {
+    const overlap = segmentEvidenceText(TEXT, marks)[3];
+
+    expect(getDominantAxisMark(overlap.marks)).toMatchObject({ axisId: 'assumptive_state' });
+    expect(getDominantAxisMark(segmentEvidenceText(TEXT, marks)[0].marks)).toBeNull();
+  });
+});
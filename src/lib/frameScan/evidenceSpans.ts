@@ -0,0 +1,92 @@
+// =============================================================================
+// EVIDENCE SPANS — Highlight segments for the scanned text of a report
+// =============================================================================
+// Text scans carry character-offset spans per axis and per diagnostic pattern
+// (validated by normalizeFrameScanReport). This module flattens them into
+// marks and cuts the scanned text into segments, each with every mark that
+// covers it, so overlapping evidence renders as one run of text.
+// =============================================================================
+
+import type { FrameAxisId, FrameBand, FrameEvidenceSpan, FrameScanResult } from "./frameTypes";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type EvidenceMark =
+  | { kind: "axis"; axisId: FrameAxisId; score: number; band: FrameBand; notes: string; span: FrameEvidenceSpan }
+  | { kind: "pattern"; pattern: string; span: FrameEvidenceSpan };
+
+export interface EvidenceSegment {
+  start: number;
+  end: number;
+  text: string;
+  /** Marks covering this segment; empty for plain text */
+  marks: EvidenceMark[];
+}
+
+// =============================================================================
+// MARKS
+// =============================================================================
+
+/**
+ * All axis and pattern spans of a scan result, in text order.
+ */
+export function collectEvidenceMarks(result: FrameScanResult): EvidenceMark[] {
+  const marks: EvidenceMark[] = [];
+
+  for (const axis of result.axes) {
+    for (const span of axis.evidenceSpans ?? []) {
+      marks.push({ kind: "axis", axisId: axis.axisId, score: axis.score, band: axis.band, notes: axis.notes, span });
+    }
+  }
+  for (const entry of result.diagnostics.patternSpans ?? []) {
+    for (const span of entry.spans) {
+      marks.push({ kind: "pattern", pattern: entry.pattern, span });
+    }
+  }
+
+  return marks.sort((a, b) => a.span.start - b.span.start);
+}
+
+/**
+ * The axis mark that decides a segment's colour: the lowest-scoring one,
+ * since the point of highlighting is to show what pulled the frame down.
+ */
+export function getDominantAxisMark(marks: EvidenceMark[]): Extract<EvidenceMark, { kind: "axis" }> | null {
+  let dominant: Extract<EvidenceMark, { kind: "axis" }> | null = null;
+  for (const mark of marks) {
+    if (mark.kind === "axis" && (!dominant || mark.score < dominant.score)) {
+      dominant = mark;
+    }
+  }
+  return dominant;
+}
+
+// =============================================================================
+// SEGMENTS
+// =============================================================================
+
+/**
+ * Cut text at every span boundary. Concatenating the segments' text gives
+ * back the original text; spans outside the text are clamped to it.
+ */
+export function segmentEvidenceText(text: string, marks: EvidenceMark[]): EvidenceSegment[] {
+  const clamp = (offset: number) => Math.max(0, Math.min(text.length, offset));
+  const boundaries = [
+    ...new Set([0, text.length, ...marks.flatMap(m => [clamp(m.span.start), clamp(m.span.end)])]),
+  ].sort((a, b) => a - b);
+
+  const segments: EvidenceSegment[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    segments.push({
+      start,
+      end,
+      text: text.slice(start, end),
+      marks: marks.filter(m => m.span.start <= start && m.span.end >= end),
+    });
+  }
+  return segments;
+}
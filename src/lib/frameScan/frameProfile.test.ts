@@ -0,0 +1,72 @@
+// =============================================================================
+// FRAME PROFILE TESTS — Ledger decay and cumulative FrameScore
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyLedgerAdjustments,
+  computeCumulativeFrameProfileForContact,
+  LEDGER_HALF_LIFE_DAYS,
+  MAX_LEDGER_ADJUSTMENT,
+} from './frameProfile';
+import type { FrameScoreLedgerEntry } from '../../services/frameScoreLedgerStore';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const entry = (id: string, adjustment: number, occurredAt: string): FrameScoreLedgerEntry => ({
+  id,
+  contactId: 'contact-ledger-test',
+  eventType: 'manual_adjustment',
+  adjustment,
+  reason: id,
+  occurredAt,
+  createdAt: occurredAt,
+});
+
+describe('applyLedgerAdjustments', () => {
+  it('halves an entry every half-life and lists newest first', () => {
+    const { total, items } = applyLedgerAdjustments(
+      [entry('old', 8, daysAgo(LEDGER_HALF_LIFE_DAYS)), entry('new', 4, daysAgo(0))],
+      NOW
+    );
+
+    expect(items.map(i => i.entry.id)).toEqual(['new', 'old']);
+    expect(items[1].decayFactor).toBeCloseTo(0.5);
+    expect(items[1].effectiveAdjustment).toBeCloseTo(4);
+    expect(total).toBe(8);
+  });
+
+  it('drops fully decayed entries and caps the total', () => {
+    const { items } = applyLedgerAdjustments([entry('ancient', 1, daysAgo(365))], NOW);
+    expect(items).toHaveLength(0);
+
+    const { total } = applyLedgerAdjustments(
+      [entry('a', -20, daysAgo(0)), entry('b', -20, daysAgo(0))],
+      NOW
+    );
+    expect(total).toBe(-MAX_LEDGER_ADJUSTMENT);
+  });
+});
+
+describe('computeCumulativeFrameProfileForContact', () => {
+  it('adds the ledger to the neutral baseline and keeps the breakdown', () => {
+    const profile = computeCumulativeFrameProfileForContact('contact-ledger-test', [], {
+      ledgerEntries: [entry('bonus', 6, daysAgo(0)), entry('penalty', -2, daysAgo(0))],
+      now: NOW,
+    });
+
+    expect(profile.baseFrameScore).toBe(50);
+    expect(profile.ledgerAdjustment).toBe(4);
+    expect(profile.currentFrameScore).toBe(54);
+    expect(profile.ledgerItems).toHaveLength(2);
+  });
+
+  it('leaves the score untouched without ledger entries', () => {
+    const profile = computeCumulativeFrameProfileForContact('contact-ledger-test', [], { ledgerEntries: [], now: NOW });
+
+    expect(profile.currentFrameScore).toBe(50);
+    expect(profile.baseFrameScore).toBeUndefined();
+    expect(profile.ledgerAdjustment).toBeUndefined();
+  });
+});
@@ -5,16 +5,20 @@
 //
 // IMPLEMENTED:
 // - Want Tracking penalty for Contact Zero (self-discipline signal)
+// - FrameScore ledger: event-based adjustments (tasks, commitments, notable
+//   interactions, manual) with exponential time decay
 //
 // TODO: Future expansions:
-// - Add FrameScoreLedger for event-based score adjustments
-// - Add task-based penalties (missed commitments decrease score)
-// - Add time-weighted decay (older scans count less)
+// - Add time-weighted decay for scans (older scans count less)
 // - Add domain-specific profiles (business vs personal)
 // =============================================================================
 
 import type { FrameScanReport } from '../../services/frameScanReportStore';
 import { CONTACT_ZERO } from '../../services/contactStore';
+import {
+  getLedgerEntriesForContact,
+  type FrameScoreLedgerEntry,
+} from '../../services/frameScoreLedgerStore';
 import {
   calculateWantTrackingPenalty,
   type WantTrackingPenaltyBreakdown,
@@ -40,12 +44,34 @@ export interface CumulativeFrameProfile {
   lastScanAt?: string;
   /** Want Tracking penalty details (Contact Zero only) */
   wantTrackingPenalty?: WantTrackingPenaltyBreakdown;
-  // TODO: Add these in future iterations
-  // pendingPenalties?: number;
-  // ledgerAdjustments?: number;
+  /** Net decayed ledger adjustment (set when the contact has ledger entries) */
+  ledgerAdjustment?: number;
+  /** Ledger entries still contributing, newest first */
+  ledgerItems?: LedgerAdjustmentItem[];
+  // TODO: Add in future iterations
   // confidenceLevel?: 'low' | 'medium' | 'high';
 }
 
+/**
+ * One ledger entry with decay applied, for the audit trail.
+ */
+export interface LedgerAdjustmentItem {
+  entry: FrameScoreLedgerEntry;
+  /** 1 for an event today, 0.5 after one half-life */
+  decayFactor: number;
+  /** adjustment × decayFactor */
+  effectiveAdjustment: number;
+}
+
+/**
+ * Options for profile computation (mainly for tests).
+ */
+export interface FrameProfileOptions {
+  /** Ledger entries to apply (default: the contact's stored ledger) */
+  ledgerEntries?: FrameScoreLedgerEntry[];
+  now?: Date;
+}
+
 /**
  * Profile trend data for UI display.
  */
@@ -55,6 +81,43 @@ export interface FrameProfileTrend {
   changePercent: number;           // Percentage change
 }
 
+// =============================================================================
+// LEDGER
+// =============================================================================
+
+/** Ledger events lose half their weight every this many days */
+export const LEDGER_HALF_LIFE_DAYS = 30;
+
+/** Net ledger adjustment is capped at this many points either way */
+export const MAX_LEDGER_ADJUSTMENT = 25;
+
+/** Entries that have decayed below this many points are dropped */
+const MIN_EFFECTIVE_ADJUSTMENT = 0.05;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Apply time decay to ledger entries and sum them.
+ * Entries dated in the future count at full weight.
+ */
+export function applyLedgerAdjustments(
+  entries: FrameScoreLedgerEntry[],
+  now: Date = new Date()
+): { total: number; items: LedgerAdjustmentItem[] } {
+  const items = entries
+    .map(entry => {
+      const ageDays = Math.max(0, (now.getTime() - new Date(entry.occurredAt).getTime()) / DAY_MS);
+      const decayFactor = Math.pow(0.5, ageDays / LEDGER_HALF_LIFE_DAYS);
+      return { entry, decayFactor, effectiveAdjustment: entry.adjustment * decayFactor };
+    })
+    .filter(item => Math.abs(item.effectiveAdjustment) >= MIN_EFFECTIVE_ADJUSTMENT)
+    .sort((a, b) => b.entry.occurredAt.localeCompare(a.entry.occurredAt));
+
+  const sum = items.reduce((total, item) => total + item.effectiveAdjustment, 0);
+  const total = Math.round(Math.max(-MAX_LEDGER_ADJUSTMENT, Math.min(MAX_LEDGER_ADJUSTMENT, sum)));
+  return { total, items };
+}
+
 // =============================================================================
 // CORE COMPUTATION
 // =============================================================================
@@ -62,75 +125,51 @@ export interface FrameProfileTrend {
 /**
  * Compute cumulative frame profile for a contact based on their scan reports.
  *
+ * Base score is the simple average of scan scores (50 with no scans).
  * For Contact Zero: Applies Want Tracking penalty based on self-defined goals.
- * For other contacts: Uses simple average of scan scores.
+ * For everyone: Applies the contact's decayed FrameScore ledger.
  *
  * @param contactId - The contact ID to compute profile for
  * @param reports - All FrameScanReports for this contact (pre-filtered)
+ * @param options - Ledger entries and clock overrides
  * @returns CumulativeFrameProfile with current score and metadata
  */
 export function computeCumulativeFrameProfileForContact(
   contactId: string,
-  reports: FrameScanReport[]
+  reports: FrameScanReport[],
+  options: FrameProfileOptions = {}
 ): CumulativeFrameProfile {
   const isContactZero = contactId === CONTACT_ZERO.id;
 
-  // No reports = default profile
-  if (reports.length === 0) {
-    // For Contact Zero with no scans, still calculate tracking penalty
-    if (isContactZero) {
-      const penaltyBreakdown = calculateWantTrackingPenalty();
-      const baseScore = 50; // Neutral default
-      const finalScore = Math.max(0, Math.min(100, baseScore - penaltyBreakdown.totalPenalty));
-
-      return {
-        contactId,
-        currentFrameScore: finalScore,
-        baseFrameScore: baseScore,
-        scansCount: 0,
-        lastScanAt: undefined,
-        wantTrackingPenalty: penaltyBreakdown,
-      };
-    }
-
-    return {
-      contactId,
-      currentFrameScore: 50, // Neutral default
-      scansCount: 0,
-      lastScanAt: undefined,
-    };
-  }
-
   // Sort reports by date (most recent first)
   const sortedReports = [...reports].sort((a, b) =>
     new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
   );
 
-  // Simple average of all scores
+  // Simple average of all scores; no reports = neutral default
   const totalScore = sortedReports.reduce((sum, r) => sum + r.score.frameScore, 0);
-  const averageScore = Math.round(totalScore / sortedReports.length);
-
-  // For Contact Zero: Apply Want Tracking penalty
-  if (isContactZero) {
-    const penaltyBreakdown = calculateWantTrackingPenalty();
-    const finalScore = Math.max(0, Math.min(100, averageScore - penaltyBreakdown.totalPenalty));
-
-    return {
-      contactId,
-      currentFrameScore: finalScore,
-      baseFrameScore: averageScore,
-      scansCount: sortedReports.length,
-      lastScanAt: sortedReports[0].createdAt,
-      wantTrackingPenalty: penaltyBreakdown,
-    };
-  }
+  const baseScore = sortedReports.length > 0 ? Math.round(totalScore / sortedReports.length) : 50;
+
+  // For Contact Zero: Want Tracking penalty
+  const penaltyBreakdown = isContactZero ? calculateWantTrackingPenalty() : undefined;
+
+  // Event-based ledger adjustments
+  const ledgerEntries = options.ledgerEntries ?? getLedgerEntriesForContact(contactId);
+  const ledger = ledgerEntries.length > 0 ? applyLedgerAdjustments(ledgerEntries, options.now) : null;
+
+  const finalScore = Math.max(
+    0,
+    Math.min(100, baseScore - (penaltyBreakdown?.totalPenalty ?? 0) + (ledger?.total ?? 0))
+  );
 
-  // For other contacts: No Want Tracking penalty
   return {
     contactId,
-    currentFrameScore: Math.max(0, Math.min(100, averageScore)),
+    currentFrameScore: finalScore,
+    ...((penaltyBreakdown || ledger) && { baseFrameScore: baseScore }),
     scansCount: sortedReports.length,
-    lastScanAt: sortedReports[0].createdAt,
+    lastScanAt: sortedReports[0]?.createdAt,
+    ...(penaltyBreakdown && { wantTrackingPenalty: penaltyBreakdown }),
+    ...(ledger && { ledgerAdjustment: ledger.total, ledgerItems: ledger.items }),
   };
 }
 
@@ -238,49 +277,3 @@ export function formatProfileDate(isoDate: string): string {
     });
   }
 }
-
-// =============================================================================
-// TODO: FUTURE LEDGER & TASK INTEGRATION
-// =============================================================================
-
-// /**
-//  * FrameScoreLedger entry - for event-based score adjustments.
-//  * TODO: Implement in future iteration.
-//  */
-// export interface FrameScoreLedgerEntry {
-//   id: string;
-//   contactId: string;
-//   eventType: 'task_completed' | 'task_missed' | 'commitment_kept' | 'commitment_broken' | 'manual_adjustment';
-//   adjustment: number; // Positive or negative
-//   reason: string;
-//   createdAt: string;
-// }
-
-// /**
-//  * Apply ledger adjustments to base score.
-//  * TODO: Implement when ledger store is created.
-//  */
-// function applyLedgerAdjustments(baseScore: number, contactId: string): number {
-//   // Get ledger entries for contact
-//   // Sum up adjustments
-//   // Apply with decay based on age
-//   return baseScore;
-// }
-
-// /**
-//  * Apply task-based penalties.
-//  * TODO: Implement when task integration is ready.
-//  */
-// function applyTaskPenalties(score: number, contactId: string): number {
-//   // Get overdue tasks for contact
-//   // Apply penalty per missed task
-//   // Consider task importance/priority
-//   return score;
-// }
-
-
-
-
-
-
-
@@ -17,7 +17,7 @@
 // - TODO: Mirror with server-side user-level limits in production
 // =============================================================================
 
-import { FrameScanResult, FrameScore, FrameAxisId, FRAME_AXIS_IDS, FrameDomainId, FrameImageScanResult, FrameScanContext } from "./frameTypes";
+import { FrameScanResult, FrameScore, FrameAxisId, FRAME_AXIS_IDS, FRAME_WIN_WIN_STATES, FrameDomainId, FrameImageScanResult, FrameScanContext, FrameThreadMessage, FrameThreadScanResult, FrameThreadAnalysis, FrameAxisScore, FrameWinWinState, FrameCallAnalysis, FrameCallScanResult, FrameSampleRewrite } from "./frameTypes";
 import { frameScanSpec } from "./frameSpec";
 import { scoreFrameScan } from "./frameScoring";
 import { callOpenAIChat, LlmMessage } from "../llm/openaiClient";
@@ -29,6 +29,10 @@ import { getContactById, updateContact } from "../../services/contactStore";
 import type { ContactFrameMetrics } from "../../types";
 import { getApexSupremacyFilter, getSelectiveDoctrine } from "../../services/doctrineLoader";
 import { normalizeFrameScanReport } from "./normalizeFrameScanReport";
+import { buildThreadAnalysis, formatThreadTranscript, validateThreadMessages, MAX_THREAD_MESSAGES, type ThreadMessageAxes } from "./threadScan";
+import { buildCallTurns, computeCallMetrics, selectTurnsForScoring, type ResolvedUtterance } from "./callTranscript";
+import { createInteraction } from "../../services/interactionStore";
+import type { FrameLeakPhrase } from "./inlineCoaching";
 
 // Default contact ID for self-scans
 const CONTACT_ZERO_ID = "contact_zero";
@@ -150,6 +154,67 @@ export interface ImageFrameScanInput {
   subjectLabel?: string;
 }
 
+/**
+ * Input for a thread FrameScan (email or DM back-and-forth).
+ */
+export interface ThreadFrameScanInput {
+  /** The domain context for analysis */
+  domain: TextDomainId;
+  /** Messages in the order they were sent, each attributed to Contact Zero or a contact */
+  messages: FrameThreadMessage[];
+  /** Optional scan context (what, who, userConcern) */
+  scanContext?: FrameScanContext;
+  /** Optional source reference (e.g., email thread ID) */
+  sourceRef?: string;
+  /** Optional human-readable label for the scan subject (e.g., "Email thread with John") */
+  subjectLabel?: string;
+}
+
+/**
+ * One transcript line for a call FrameScan.
+ */
+export interface CallTranscriptLine {
+  /** Contact Zero's ID, the contact's ID, or null when the transcript did not say */
+  speakerContactId: string | null;
+  text: string;
+  /** Seconds from the start of the call */
+  start?: number;
+  /** Seconds from the start of the call */
+  end?: number;
+}
+
+/**
+ * Input for a call FrameScan (transcript of a phone or video call).
+ */
+export interface CallFrameScanInput {
+  /** The contact the call was with */
+  contactId: string;
+  /** The domain context for analysis */
+  domain: TextDomainId;
+  /** Transcript lines in call order */
+  utterances: CallTranscriptLine[];
+  /** When the call took place (defaults to now) */
+  occurredAt?: string;
+  /** Optional scan context (what, who, userConcern) */
+  scanContext?: FrameScanContext;
+  /** Optional source reference (e.g., transcript file name); defaults to the logged interaction */
+  sourceRef?: string;
+  /** Optional human-readable label for the scan subject (e.g., "Discovery call with John") */
+  subjectLabel?: string;
+}
+
+/**
+ * Input for inline coaching on a paragraph being written in the note editor.
+ */
+export interface InlineFrameCoachingInput {
+  /** The paragraph containing the flagged phrases */
+  paragraph: string;
+  /** Phrases found by scanParagraphForFrameLeaks */
+  phrases: FrameLeakPhrase[];
+  /** The domain context for the rewrite (defaults to generic) */
+  domain?: TextDomainId;
+}
+
 /**
  * Legacy payload interface for backward compatibility.
  */
@@ -400,12 +465,14 @@ Output EXACTLY one of these two JSON structures and nothing else:
 "axisId": "assumptive_state | buyer_seller_position | identity_vs_tactic | internal_sale | win_win_integrity | persuasion_style | pedestalization | self_trust_vs_permission | field_strength",
 "score": -3 to 3,
 "band": "strong_slave | mild_slave | neutral | mild_apex | strong_apex",
-"notes": "string"
+"notes": "string",
+"evidenceSpans": [ { "start": 0, "end": 42, "quote": "exact text from request.content" } ]
 }
 ],
 "diagnostics": {
 "primaryPatterns": ["string"],
-"supportingEvidence": ["string"]
+"supportingEvidence": ["string"],
+"patternSpans": [ { "pattern": "same label as in primaryPatterns", "spans": [ same shape as evidenceSpans ] } ]
 },
 "corrections": {
 "topShifts": [
@@ -430,6 +497,12 @@ Output must be valid JSON with double quotes.
 
 All scores must be integers.
 
+evidenceSpans and patternSpans are for text scans only (omit them for images).
+They point at the exact passages behind a score or pattern: start and end are
+0-based character offsets into request.content (end exclusive) and quote is
+the text between them, copied verbatim. Give 1-3 spans per axis and pattern,
+each a phrase or sentence, and leave the array empty when no passage applies.
+
 Do not include comments or explanation outside the JSON.`;
 }
 
@@ -443,10 +516,136 @@ function getFrameScanSystemPrompt(): string {
   return cachedSystemPrompt;
 }
 
+/**
+ * Extra instructions for thread scans, appended to the standard prompt.
+ */
+const THREAD_PROMPT_ADDENDUM = `
+
+=== THREAD MODALITY ===
+
+When request.thread is present, content is a numbered back-and-forth thread
+and request.thread lists the same messages with their index (0-based) and
+speaker ("contact_zero" is the user, "contact" is the other side).
+
+Score the top-level axes, diagnostics and corrections for the USER'S frame
+across the whole thread (the other side's messages are context).
+
+In the SUCCESS RESPONSE, also include a "messages" array with exactly one
+entry per message in request.thread:
+{
+"index": 0,
+"overallWinWinState": "win_win | win_lose | lose_lose | neutral",
+"axes": [ same shape as the top-level axes; only axes this message gives evidence for, at least 3 ],
+"summary": "one sentence on what this message does to the speaker's frame"
+}
+
+=== END THREAD MODALITY ===`;
+
+let cachedThreadSystemPrompt: string | null = null;
+
+function getThreadScanSystemPrompt(): string {
+  if (!cachedThreadSystemPrompt) {
+    cachedThreadSystemPrompt = getFrameScanSystemPrompt() + THREAD_PROMPT_ADDENDUM;
+  }
+  return cachedThreadSystemPrompt;
+}
+
+/**
+ * Extra instructions for call scans, on top of the thread instructions.
+ */
+const CALL_PROMPT_ADDENDUM = `
+
+=== CALL MODALITY ===
+
+When request.call is present, the thread is a spoken call transcript:
+each message is one speaker turn (the [mm:ss] stamp is when it started)
+and only a selection of the longest turns may be included.
+request.call.metrics gives talk share, questions asked, interruptions and
+longest monologue per side. Treat them as evidence: a user who talks most
+of the call, asks few questions or interrupts is showing frame, not just
+words. Transcription errors are not frame signals.
+
+=== END CALL MODALITY ===`;
+
+let cachedCallSystemPrompt: string | null = null;
+
+function getCallScanSystemPrompt(): string {
+  if (!cachedCallSystemPrompt) {
+    cachedCallSystemPrompt = getThreadScanSystemPrompt() + CALL_PROMPT_ADDENDUM;
+  }
+  return cachedCallSystemPrompt;
+}
+
+/**
+ * Prompt for attributing an unlabelled transcript to the two speakers.
+ */
+const CALL_SPEAKER_ATTRIBUTION_PROMPT = `You split a two-person call transcript between its speakers.
+
+request.lines is the transcript in order, one sentence or line per entry.
+The user ("contact_zero") called or met request.contactName ("contact").
+Use context (who introduces themselves, who asks and who answers, turn-taking)
+to decide who said each line.
+
+Respond with JSON only: { "speakers": ["contact_zero" | "contact", ...] }
+with exactly one entry per line, in order.`;
+
+/**
+ * Prompt for rewriting a paragraph flagged by the inline coaching scan.
+ * The Apex Supremacy Filter is prepended so rewrites follow doctrine.
+ */
+const INLINE_COACHING_PROMPT = `You are the FrameLord writing coach, working inline in the user's note editor.
+
+request.paragraph is one paragraph the user is writing. request.phrases lists
+phrases in it that read as needy (seeking approval, permission or forgiveness)
+or as seller posture (chasing, pitching, pressuring), each with the reason.
+
+Rewrite the whole paragraph so it holds Apex Frame and Win/Win: keep the
+user's meaning, facts and voice, drop the flagged postures, and make any ask
+direct and unapologetic. Do not add facts, promises or sign-offs that are not
+in the original. Keep it about as long as the original.
+
+Respond with JSON only:
+{ "sampleRewrites": [ { "purpose": string, "apexVersion": string } ] }
+with 2 or 3 rewrites that differ in approach. "purpose" names the approach in
+a few words (e.g. "direct ask", "lead with value"); "apexVersion" is the full
+replacement paragraph as plain text.`;
+
 // =============================================================================
 // VALIDATION
 // =============================================================================
 
+const VALID_BANDS = ["strong_slave", "mild_slave", "neutral", "mild_apex", "strong_apex"];
+
+/**
+ * Validates each entry of an axes array.
+ * @param path - Field path used in error messages (e.g. "axes", "messages[2].axes")
+ */
+function validateAxisScores(axes: unknown[], path: string): void {
+  for (let i = 0; i < axes.length; i++) {
+    const axis = axes[i] as Record<string, unknown>;
+
+    if (typeof axis !== "object" || axis === null) {
+      throw new Error(`${path}[${i}] must be an object`);
+    }
+
+    if (typeof axis.axisId !== "string" || !FRAME_AXIS_IDS.includes(axis.axisId as FrameAxisId)) {
+      throw new Error(`${path}[${i}].axisId is invalid: ${axis.axisId}`);
+    }
+
+    if (typeof axis.score !== "number" || !Number.isInteger(axis.score) || axis.score < -3 || axis.score > 3) {
+      throw new Error(`${path}[${i}].score must be an integer from -3 to 3, got: ${axis.score}`);
+    }
+
+    if (typeof axis.band !== "string" || !VALID_BANDS.includes(axis.band)) {
+      throw new Error(`${path}[${i}].band is invalid: ${axis.band}`);
+    }
+
+    if (typeof axis.notes !== "string") {
+      throw new Error(`${path}[${i}].notes must be a string`);
+    }
+  }
+}
+
 /**
  * Validates that the parsed response is a valid FrameScanResult.
  * Uses the centralized normalizer to ensure all arrays are initialized.
@@ -454,8 +653,10 @@ function getFrameScanSystemPrompt(): string {
  * Supports two response types:
  * 1. Rejected scan (status: "rejected") - minimal structure with rejectionReason
  * 2. OK scan (status: "ok") - full frame analysis
+ *
+ * Pass the scanned text for text scans so evidence spans can be checked.
  */
-function validateFrameScanResult(input: unknown): FrameScanResult {
+function validateFrameScanResult(input: unknown, sourceText?: string): FrameScanResult {
   if (typeof input !== "object" || input === null) {
     throw new Error("FrameScanResult must be an object");
   }
@@ -519,37 +720,48 @@ function validateFrameScanResult(input: unknown): FrameScanResult {
     throw new Error("axes must be a non-empty array");
   }
 
-  const validBands = ["strong_slave", "mild_slave", "neutral", "mild_apex", "strong_apex"];
+  validateAxisScores(obj.axes, "axes");
 
-  for (let i = 0; i < obj.axes.length; i++) {
-    const axis = obj.axes[i] as Record<string, unknown>;
+  // Use the centralized normalizer to ensure ALL arrays are initialized
+  // This replaces all the scattered "allow X to be missing - default to empty array" logic
+  const normalized = normalizeFrameScanReport(obj, sourceText);
 
-    if (typeof axis !== "object" || axis === null) {
-      throw new Error(`axes[${i}] must be an object`);
-    }
+  return normalized;
+}
 
-    if (typeof axis.axisId !== "string" || !FRAME_AXIS_IDS.includes(axis.axisId as FrameAxisId)) {
-      throw new Error(`axes[${i}].axisId is invalid: ${axis.axisId}`);
-    }
+/**
+ * Validates the per-message entries of a thread scan response.
+ */
+function validateThreadMessageAxes(input: unknown): ThreadMessageAxes[] {
+  if (!Array.isArray(input)) {
+    throw new Error("Thread scans must include a messages array");
+  }
 
-    if (typeof axis.score !== "number" || !Number.isInteger(axis.score) || axis.score < -3 || axis.score > 3) {
-      throw new Error(`axes[${i}].score must be an integer from -3 to 3, got: ${axis.score}`);
+  return input.map((entry, i) => {
+    if (typeof entry !== "object" || entry === null) {
+      throw new Error(`messages[${i}] must be an object`);
     }
+    const message = entry as Record<string, unknown>;
 
-    if (typeof axis.band !== "string" || !validBands.includes(axis.band)) {
-      throw new Error(`axes[${i}].band is invalid: ${axis.band}`);
+    if (typeof message.index !== "number" || !Number.isInteger(message.index)) {
+      throw new Error(`messages[${i}].index must be an integer`);
     }
-
-    if (typeof axis.notes !== "string") {
-      throw new Error(`axes[${i}].notes must be a string`);
+    if (!Array.isArray(message.axes) || message.axes.length === 0) {
+      throw new Error(`messages[${i}].axes must be a non-empty array`);
     }
-  }
+    validateAxisScores(message.axes, `messages[${i}].axes`);
 
-  // Use the centralized normalizer to ensure ALL arrays are initialized
-  // This replaces all the scattered "allow X to be missing - default to empty array" logic
-  const normalized = normalizeFrameScanReport(obj);
+    const winWin = FRAME_WIN_WIN_STATES.includes(message.overallWinWinState as FrameWinWinState)
+      ? (message.overallWinWinState as FrameWinWinState)
+      : "neutral";
 
-  return normalized;
+    return {
+      index: message.index,
+      axes: message.axes as FrameAxisScore[],
+      overallWinWinState: winWin,
+      summary: typeof message.summary === "string" ? message.summary : "",
+    };
+  });
 }
 
 /**
@@ -622,7 +834,7 @@ export async function runTextFrameScan(input: TextFrameScanInput): Promise<Frame
   const raw = response.rawText ?? "";
 
   const parsed = parseJsonResponse(raw);
-  const result = validateFrameScanResult(parsed);
+  const result = validateFrameScanResult(parsed, input.content);
 
   // Check for rejected scan
   if (result.status === "rejected") {
@@ -661,12 +873,14 @@ export async function runTextFrameScan(input: TextFrameScanInput): Promise<Frame
 
   addFrameScanReport({
     title: reportTitle,
+    miniReportMarkdown: "",
     subjectType,
     subjectContactIds,
     modality: "text",
     domain: input.domain,
     context: input.scanContext,
     sourceRef: input.sourceRef,
+    sourceText: input.content,
     rawResult: result,
     score,
     uiReport,
@@ -800,6 +1014,383 @@ export async function runImageFrameScan(input: ImageFrameScanInput): Promise<Fra
   };
 }
 
+// =============================================================================
+// THREAD FRAMESCAN
+// =============================================================================
+
+/**
+ * Send a thread for scoring and build the per-message analysis. Shared by
+ * thread and call scans; leaves throttling and persistence to the caller.
+ * Evidence spans point into the returned transcript, which callers store as
+ * the report's sourceText.
+ *
+ * @throws FrameScanRejectionError if the content is not suitable for analysis
+ * @throws Error if the LLM response is invalid or skips a message
+ */
+async function scoreThreadWithLLM(params: {
+  systemPrompt: string;
+  domain: TextDomainId;
+  messages: FrameThreadMessage[];
+  scanContext?: FrameScanContext;
+  getSpeakerName: (contactId: string) => string;
+  /** Additional request fields (e.g. call metrics) */
+  extraRequest?: Record<string, unknown>;
+}): Promise<{ result: FrameScanResult; thread: FrameThreadAnalysis; transcript: string }> {
+  const { domain, messages: threadMessages, getSpeakerName } = params;
+  const transcript = formatThreadTranscript(threadMessages, getSpeakerName);
+
+  const payload = {
+    frameScanSpec,
+    request: {
+      modality: "text" as const,
+      domain,
+      content: transcript,
+      context: params.scanContext,
+      thread: threadMessages.map((message, index) => ({
+        index,
+        speaker: message.speakerContactId === CONTACT_ZERO_ID ? "contact_zero" : "contact",
+        speakerName: message.speakerContactId === CONTACT_ZERO_ID ? "Me" : getSpeakerName(message.speakerContactId),
+        content: message.content.trim(),
+      })),
+      ...params.extraRequest,
+    },
+  };
+
+  const messages: LlmMessage[] = [
+    { role: "system", content: params.systemPrompt },
+    { role: "user", content: JSON.stringify(payload) },
+  ];
+
+  const response = await callOpenAIChat(messages);
+  const raw = response.rawText ?? "";
+
+  const parsed = parseJsonResponse(raw);
+  const result = validateFrameScanResult(parsed, transcript);
+
+  // Check for rejected scan
+  if (result.status === "rejected") {
+    throw new FrameScanRejectionError(result.rejectionReason || "Content not suitable for FrameScan analysis");
+  }
+
+  if (result.modality !== "text" || !Array.isArray(result.axes) || result.axes.length === 0) {
+    throw new Error("FrameScanResult shape invalid for thread modality");
+  }
+
+  const thread = buildThreadAnalysis(
+    domain,
+    threadMessages,
+    validateThreadMessageAxes((parsed as Record<string, unknown>).messages)
+  );
+
+  return { result, thread, transcript };
+}
+
+/**
+ * Run a FrameScan over an email or DM thread using OpenAI.
+ *
+ * Every message is scored on its own, giving a frame trajectory over the
+ * thread and the turn where Contact Zero's frame collapsed (if it did). The
+ * overall score covers Contact Zero's frame across the whole thread. The
+ * report is linked to every participant.
+ *
+ * @param input - Thread scan input with domain and ordered, attributed messages
+ * @returns FrameThreadScanResult with the overall score and per-message analysis
+ * @throws FrameScanRejectionError if the content is not suitable for analysis
+ * @throws Error if the thread is invalid, throttle limit reached or LLM call fails
+ */
+export async function runThreadFrameScan(input: ThreadFrameScanInput): Promise<FrameThreadScanResult> {
+  const invalid = validateThreadMessages(input.messages);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+
+  // Enforce throttle limit
+  const config = getThrottleConfig();
+  enforceThrottle(config);
+
+  // Participants: Contact Zero first, then the others in order of appearance
+  const subjectContactIds = [
+    CONTACT_ZERO_ID,
+    ...new Set(input.messages.map(m => m.speakerContactId).filter(id => id !== CONTACT_ZERO_ID)),
+  ];
+  const getSpeakerName = (contactId: string) => getContactById(contactId)?.fullName || "Contact";
+  const otherNames = subjectContactIds.slice(1).map(getSpeakerName);
+
+  const { result, thread, transcript } = await scoreThreadWithLLM({
+    systemPrompt: getThreadScanSystemPrompt(),
+    domain: input.domain,
+    messages: input.messages,
+    scanContext: input.scanContext,
+    getSpeakerName,
+  });
+
+  // Increment scan count after successful scan
+  incrementScanCount();
+
+  const score = scoreFrameScan(result);
+
+  // Build UI report
+  const subjectLabel = input.subjectLabel || `Thread with ${otherNames.join(", ")}`;
+  const uiReport = await buildFrameScanUIReportSafe(result, score, {
+    modality: "text",
+    domain: input.domain,
+    subjectLabel,
+  });
+
+  // Use AI-generated title if available, fallback to subjectLabel
+  const reportTitle = result.title || subjectLabel;
+
+  addFrameScanReport({
+    title: reportTitle,
+    miniReportMarkdown: "",
+    subjectType: "contact",
+    subjectContactIds,
+    modality: "thread",
+    domain: input.domain,
+    context: input.scanContext ?? {
+      what: `${input.messages.length}-message thread with ${otherNames.join(", ")}`,
+      who: otherNames,
+    },
+    sourceRef: input.sourceRef,
+    sourceText: transcript,
+    rawResult: result,
+    score,
+    thread,
+    uiReport,
+  });
+
+  // Auto-sync Contact.frame metrics after scan
+  syncContactFrameMetrics(subjectContactIds, score.frameScore);
+
+  return { score, thread };
+}
+
+// =============================================================================
+// CALL FRAMESCAN
+// =============================================================================
+
+/** Longest stretch of a single turn sent for scoring */
+const MAX_CALL_SEGMENT_CHARS = 1500;
+
+const formatCallClock = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`;
+
+/**
+ * Ask the LLM who said each line of a transcript that has no speaker labels.
+ * @returns One speaker contact ID per line
+ * @throws Error if the response does not cover every line
+ */
+async function attributeCallSpeakers(lines: string[], contactId: string, contactName: string): Promise<string[]> {
+  const messages: LlmMessage[] = [
+    { role: "system", content: CALL_SPEAKER_ATTRIBUTION_PROMPT },
+    { role: "user", content: JSON.stringify({ request: { contactName, lines } }) },
+  ];
+
+  const response = await callOpenAIChat(messages);
+  const parsed = parseJsonResponse(response.rawText ?? "") as { speakers?: unknown };
+  const speakers = parsed?.speakers;
+
+  if (!Array.isArray(speakers) || speakers.length !== lines.length) {
+    throw new Error("Could not tell the speakers apart in this transcript. Label who said what and try again.");
+  }
+  return speakers.map(speaker => (speaker === "contact_zero" ? CONTACT_ZERO_ID : contactId));
+}
+
+/**
+ * Run a FrameScan over a call transcript using OpenAI.
+ *
+ * The transcript is merged into speaker turns, from which talk ratio,
+ * interruptions, questions and monologue length are computed locally. The
+ * longest turns are then scored like thread messages. Unlabelled lines are
+ * attributed by the LLM first. Both a FrameScanReport and a "call"
+ * Interaction are written against the contact.
+ *
+ * @param input - Call scan input with the contact, domain and transcript lines
+ * @returns FrameCallScanResult with the score, per-turn analysis, metrics and interaction ID
+ * @throws FrameScanRejectionError if the content is not suitable for analysis
+ * @throws Error if the transcript is unusable, throttle limit reached or LLM call fails
+ */
+export async function runCallFrameScan(input: CallFrameScanInput): Promise<FrameCallScanResult> {
+  const lines = input.utterances.filter(u => u.text.trim());
+  if (input.contactId === CONTACT_ZERO_ID) {
+    throw new Error("A call scan needs a contact other than yourself");
+  }
+  if (lines.length === 0) {
+    throw new Error("The transcript is empty");
+  }
+  if (lines.some(u => u.speakerContactId !== null && u.speakerContactId !== CONTACT_ZERO_ID && u.speakerContactId !== input.contactId)) {
+    throw new Error("Every line must be attributed to you or the contact");
+  }
+
+  // Enforce throttle limit
+  const config = getThrottleConfig();
+  enforceThrottle(config);
+
+  const contactName = getContactById(input.contactId)?.fullName || "Contact";
+
+  // Resolve speakers, asking the LLM only when some lines are unlabelled
+  const attributed = lines.some(u => u.speakerContactId === null)
+    ? await attributeCallSpeakers(lines.map(u => u.text.trim()), input.contactId, contactName)
+    : null;
+  const resolved: ResolvedUtterance[] = lines.map((u, index) => ({
+    speakerContactId: u.speakerContactId ?? attributed![index],
+    text: u.text,
+    start: u.start,
+    end: u.end,
+  }));
+
+  const turns = buildCallTurns(resolved);
+  const metrics = computeCallMetrics(turns);
+  if (!turns.some(t => t.speakerContactId === CONTACT_ZERO_ID) || !turns.some(t => t.speakerContactId !== CONTACT_ZERO_ID)) {
+    throw new Error("The transcript needs turns from both you and the contact");
+  }
+
+  const scoredTurnIndexes = selectTurnsForScoring(turns, MAX_THREAD_MESSAGES);
+  const segments: FrameThreadMessage[] = scoredTurnIndexes.map(index => {
+    const turn = turns[index];
+    return {
+      speakerContactId: turn.speakerContactId,
+      content: turn.text.length > MAX_CALL_SEGMENT_CHARS ? `${turn.text.slice(0, MAX_CALL_SEGMENT_CHARS)}…` : turn.text,
+      sentAt: turn.start !== undefined ? formatCallClock(turn.start) : undefined,
+    };
+  });
+
+  const durationLabel = metrics.durationSeconds !== null ? ` (${Math.max(1, Math.round(metrics.durationSeconds / 60))} min)` : "";
+  const scanContext = input.scanContext ?? {
+    what: `Call with ${contactName}${durationLabel}`,
+    who: [contactName],
+  };
+
+  const { result, thread, transcript } = await scoreThreadWithLLM({
+    systemPrompt: getCallScanSystemPrompt(),
+    domain: input.domain,
+    messages: segments,
+    scanContext,
+    getSpeakerName: () => contactName,
+    extraRequest: {
+      call: {
+        totalTurns: turns.length,
+        metrics: {
+          durationSeconds: metrics.durationSeconds,
+          speakers: metrics.speakers.map(({ speakerContactId, ...rest }) => ({
+            speaker: speakerContactId === CONTACT_ZERO_ID ? "contact_zero" : "contact",
+            ...rest,
+          })),
+        },
+      },
+    },
+  });
+
+  // Increment scan count after successful scan
+  incrementScanCount();
+
+  const score = scoreFrameScan(result);
+  const call: FrameCallAnalysis = { turns, metrics, scoredTurnIndexes };
+
+  // Log the call against the contact
+  const mine = metrics.speakers.find(m => m.speakerContactId === CONTACT_ZERO_ID);
+  const interaction = createInteraction({
+    contactId: input.contactId,
+    authorContactId: CONTACT_ZERO_ID,
+    type: "call",
+    summary: [
+      `Call${durationLabel}`,
+      `FrameScore ${score.frameScore}`,
+      mine ? `you talked ${Math.round(mine.talkShare * 100)}%` : null,
+      mine ? `${mine.questions} question${mine.questions === 1 ? "" : "s"} asked` : null,
+    ].filter(Boolean).join(" · "),
+    occurredAt: input.occurredAt,
+  });
+
+  // Build UI report
+  const subjectLabel = input.subjectLabel || `Call with ${contactName}`;
+  const uiReport = await buildFrameScanUIReportSafe(result, score, {
+    modality: "text",
+    domain: input.domain,
+    subjectLabel,
+  });
+
+  addFrameScanReport({
+    title: result.title || subjectLabel,
+    miniReportMarkdown: "",
+    subjectType: "contact",
+    subjectContactIds: [CONTACT_ZERO_ID, input.contactId],
+    modality: "call",
+    domain: input.domain,
+    context: scanContext,
+    sourceRef: input.sourceRef ?? `interaction:${interaction.id}`,
+    sourceText: transcript,
+    rawResult: result,
+    score,
+    thread,
+    call,
+    uiReport,
+  });
+
+  // Auto-sync Contact.frame metrics after scan
+  syncContactFrameMetrics([CONTACT_ZERO_ID, input.contactId], score.frameScore);
+
+  return { score, thread, call, interactionId: interaction.id };
+}
+
+// =============================================================================
+// INLINE COACHING
+// =============================================================================
+
+/**
+ * Ask for Apex rewrites of a paragraph flagged by the inline coaching scan.
+ *
+ * Counts against the session throttle like a scan, but writes no report:
+ * nothing here is scored, and the paragraph is still a draft.
+ *
+ * @param input - The paragraph and the phrases flagged in it
+ * @returns Sample rewrites, each a full replacement for the paragraph
+ * @throws Error if throttle limit reached, the LLM call fails or no rewrites come back
+ */
+export async function runInlineFrameCoaching(input: InlineFrameCoachingInput): Promise<FrameSampleRewrite[]> {
+  // Enforce throttle limit
+  const config = getThrottleConfig();
+  enforceThrottle(config);
+
+  const messages: LlmMessage[] = [
+    { role: "system", content: `${getApexSupremacyFilter()}\n\n=== END OF APEX SUPREMACY FILTER ===\n\n${INLINE_COACHING_PROMPT}` },
+    {
+      role: "user",
+      content: JSON.stringify({
+        request: {
+          domain: input.domain ?? "generic",
+          paragraph: input.paragraph,
+          phrases: input.phrases.map(({ quote, kind, reason }) => ({ quote, kind, reason })),
+        },
+      }),
+    },
+  ];
+
+  const response = await callOpenAIChat(messages);
+  const parsed = parseJsonResponse(response.rawText ?? "") as { sampleRewrites?: unknown };
+
+  const rewrites = Array.isArray(parsed?.sampleRewrites)
+    ? parsed.sampleRewrites.filter(
+        (r): r is FrameSampleRewrite =>
+          typeof r === "object" && r !== null &&
+          typeof (r as FrameSampleRewrite).apexVersion === "string" &&
+          (r as FrameSampleRewrite).apexVersion.trim().length > 0
+      ).map(r => ({
+        purpose: typeof r.purpose === "string" && r.purpose.trim() ? r.purpose.trim() : "Rewrite",
+        apexVersion: r.apexVersion.trim(),
+      }))
+    : [];
+
+  if (rewrites.length === 0) {
+    throw new Error("No rewrites came back for this paragraph. Try again.");
+  }
+
+  // Increment scan count after successful scan
+  incrementScanCount();
+
+  return rewrites;
+}
+
 // =============================================================================
 // LEGACY / GENERIC INTERFACE
 // =============================================================================
@@ -827,7 +1418,7 @@ export async function callLLMForFrameScanResult(
   });
 
   const parsed = parseJsonResponse(raw);
-  return validateFrameScanResult(parsed);
+  return validateFrameScanResult(parsed, request.modality === "text" ? request.content : undefined);
 }
 
 /**
@@ -63,6 +63,17 @@ export type FrameImageDomainId =
  */
 export type FrameDomainId = FrameTextDomainId | FrameImageDomainId;
 
+/**
+ * A stretch of the scanned text that a score or pattern is based on.
+ * Offsets are character positions in the scanned text, end exclusive.
+ */
+export interface FrameEvidenceSpan {
+  start: number;
+  end: number;
+  /** The text at [start, end), used to re-anchor offsets that drifted */
+  quote: string;
+}
+
 /**
  * Individual axis score with band classification and notes.
  * The score ranges from -3 (strong slave) to +3 (strong apex).
@@ -76,6 +87,17 @@ export interface FrameAxisScore {
   band: FrameBand;
   /** Short explanation referencing specific text or visual details */
   notes: string;
+  /** Text scans only: the passages behind this score */
+  evidenceSpans?: FrameEvidenceSpan[];
+}
+
+/**
+ * The passages behind one diagnostic pattern.
+ */
+export interface FramePatternEvidence {
+  /** Matches an entry in primaryPatterns */
+  pattern: string;
+  spans: FrameEvidenceSpan[];
 }
 
 /**
@@ -87,6 +109,8 @@ export interface FrameScanDiagnostics {
   primaryPatterns: string[];
   /** Short snippets or descriptions that demonstrate each pattern */
   supportingEvidence: string[];
+  /** Text scans only: the passages behind each pattern */
+  patternSpans?: FramePatternEvidence[];
 }
 
 /**
@@ -238,6 +262,174 @@ export interface FrameImageScanResult {
   annotatedImageUrl?: string;
 }
 
+// =============================================================================
+// THREAD SCAN TYPES
+// =============================================================================
+
+/**
+ * One message in an email or DM thread, in the order it was sent.
+ */
+export interface FrameThreadMessage {
+  /** Who sent it: Contact Zero's ID or the other contact's */
+  speakerContactId: string;
+  /** The message text */
+  content: string;
+  /** Optional ISO timestamp of when it was sent */
+  sentAt?: string;
+}
+
+/**
+ * Axis scores for a single message in a thread.
+ */
+export interface FrameThreadMessageScore {
+  /** Position of the message in the thread (0-based) */
+  index: number;
+  /** Who sent the message */
+  speakerContactId: string;
+  /** Axes the message gave evidence for */
+  axes: FrameAxisScore[];
+  /** Win/Win state expressed by this message */
+  overallWinWinState: FrameWinWinState;
+  /** 0-100 score for this message alone */
+  frameScore: number;
+  /** Frame classification for this message alone */
+  overallFrame: "apex" | "slave" | "mixed";
+  /** One-line read of what the message does to the frame */
+  summary: string;
+}
+
+/**
+ * One point on a thread's frame trajectory.
+ */
+export interface FrameThreadTrajectoryPoint {
+  /** Position of the message in the thread (0-based) */
+  index: number;
+  /** Who sent the message */
+  speakerContactId: string;
+  /** 0-100 score for the message */
+  frameScore: number;
+  /** Change from the same speaker's previous message (null on their first) */
+  delta: number | null;
+}
+
+/**
+ * The turn where Contact Zero's frame collapsed.
+ */
+export interface FrameThreadCollapse {
+  /** Position of the collapsing message in the thread (0-based) */
+  index: number;
+  /** Contact Zero's best score before the collapse */
+  fromScore: number;
+  /** Score of the collapsing message */
+  toScore: number;
+  /** Points lost (fromScore - toScore) */
+  drop: number;
+  /** Why this message gave the frame away */
+  reason: string;
+}
+
+/**
+ * Per-message analysis of a thread scan.
+ */
+export interface FrameThreadAnalysis {
+  /** The scanned messages, in order */
+  messages: FrameThreadMessage[];
+  /** One score per message, in order */
+  messageScores: FrameThreadMessageScore[];
+  /** Frame over the course of the thread */
+  trajectory: FrameThreadTrajectoryPoint[];
+  /** Where Contact Zero's frame collapsed, or null if it held */
+  collapse: FrameThreadCollapse | null;
+}
+
+/**
+ * Complete result from a thread FrameScan.
+ * The score covers Contact Zero's frame across the whole thread.
+ */
+export interface FrameThreadScanResult {
+  /** The 0-100 frame score with full breakdown */
+  score: FrameScore;
+  /** Per-message scores, trajectory and collapse point */
+  thread: FrameThreadAnalysis;
+}
+
+// =============================================================================
+// CALL SCAN TYPES
+// =============================================================================
+
+/**
+ * One speaker turn in a call: consecutive lines by the same speaker.
+ */
+export interface FrameCallTurn {
+  /** Who spoke: Contact Zero's ID or the other contact's */
+  speakerContactId: string;
+  /** Everything said in the turn */
+  text: string;
+  /** Seconds from the start of the call, when the transcript has timestamps */
+  start?: number;
+  /** Seconds from the start of the call, when the transcript has timestamps */
+  end?: number;
+  /** Whether this turn cut into the previous speaker */
+  interrupted: boolean;
+}
+
+/**
+ * Conversation metrics for one speaker on a call.
+ */
+export interface FrameCallSpeakerMetrics {
+  speakerContactId: string;
+  turns: number;
+  words: number;
+  /** Speaking time in seconds (null without timestamps) */
+  seconds: number | null;
+  /** Share of the talking, 0-1 (by time when timed, otherwise by words) */
+  talkShare: number;
+  /** Questions asked */
+  questions: number;
+  /** Times this speaker cut into the other */
+  interruptions: number;
+  /** Longest single turn in words */
+  longestMonologueWords: number;
+  /** Longest single turn in seconds (null without timestamps) */
+  longestMonologueSeconds: number | null;
+}
+
+/**
+ * Conversation metrics for a whole call.
+ */
+export interface FrameCallMetrics {
+  /** Call length in seconds (null without timestamps) */
+  durationSeconds: number | null;
+  /** One entry per speaker, Contact Zero first */
+  speakers: FrameCallSpeakerMetrics[];
+}
+
+/**
+ * Turn-level analysis of a call scan.
+ * Scored turns appear in the report's thread analysis; scoredTurnIndexes maps
+ * each thread message back to its turn.
+ */
+export interface FrameCallAnalysis {
+  turns: FrameCallTurn[];
+  metrics: FrameCallMetrics;
+  /** Turn index of each scored segment, in order */
+  scoredTurnIndexes: number[];
+}
+
+/**
+ * Complete result from a call FrameScan.
+ */
+export interface FrameCallScanResult {
+  /** The 0-100 frame score for Contact Zero across the call */
+  score: FrameScore;
+  /** Per-segment scores, trajectory and collapse point */
+  thread: FrameThreadAnalysis;
+  /** Turns and conversation metrics */
+  call: FrameCallAnalysis;
+  /** The call Interaction logged against the contact */
+  interactionId: string;
+}
+
 // =============================================================================
 // SCAN CONTEXT
 // =============================================================================
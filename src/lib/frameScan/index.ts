@@ -49,6 +49,9 @@ export {
   // New provider-aware functions
   runTextFrameScan,
   runImageFrameScan,
+  runThreadFrameScan,
+  runCallFrameScan,
+  runInlineFrameCoaching,
   // Legacy functions (deprecated but kept for compatibility)
   runFrameScan,
   callLLMForFrameScanResult,
@@ -57,10 +60,50 @@ export {
   type FrameScanRequestPayload,
   type TextFrameScanInput,
   type ImageFrameScanInput,
+  type ThreadFrameScanInput,
+  type CallFrameScanInput,
+  type CallTranscriptLine,
+  type InlineFrameCoachingInput,
   type TextDomainId,
   type ImageDomainId,
 } from "./frameScanLLM";
 
+// Export thread scan analysis
+export {
+  buildThreadAnalysis,
+  buildThreadTrajectory,
+  detectFrameCollapse,
+  validateThreadMessages,
+  THREAD_COLLAPSE_MIN_DROP,
+  THREAD_COLLAPSE_CEILING,
+  MAX_THREAD_MESSAGES,
+} from "./threadScan";
+
+// Export evidence span highlighting
+export {
+  collectEvidenceMarks,
+  segmentEvidenceText,
+  type EvidenceMark,
+  type EvidenceSegment,
+} from "./evidenceSpans";
+
+// Export call transcript parsing and metrics
+export {
+  parseTranscript,
+  getTranscriptSpeakers,
+  buildCallTurns,
+  computeCallMetrics,
+  type TranscriptUtterance,
+} from "./callTranscript";
+
+// Export inline coaching for the note editor
+export {
+  scanParagraphForFrameLeaks,
+  INLINE_COACHING_DEBOUNCE_MS,
+  type FrameLeakKind,
+  type FrameLeakPhrase,
+} from "./inlineCoaching";
+
 // Export throttling
 export {
   enforceThrottle,
@@ -78,12 +121,14 @@ export {
 export {
   computeCumulativeFrameProfileForContact,
   computeFrameProfileTrend,
+  applyLedgerAdjustments,
   getFrameScoreLabel,
   getFrameScoreColorClass,
   getFrameScoreBgClass,
   formatProfileDate,
   type CumulativeFrameProfile,
   type FrameProfileTrend,
+  type LedgerAdjustmentItem,
 } from "./frameProfile";
 
 // Export UI report types and builder
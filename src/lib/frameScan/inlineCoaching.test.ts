@@ -0,0 +1,48 @@
+// =============================================================================
+// INLINE COACHING TESTS — Needy and seller-posture phrase detection
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { scanParagraphForFrameLeaks } from './inlineCoaching';
+
+describe('scanParagraphForFrameLeaks', () => {
+  it('finds needy phrases with offsets into the paragraph', () => {
+    const text = 'Sorry to bother you, just checking in on the proposal.';
+    const phrases = scanParagraphForFrameLeaks(text);
+
+    expect(phrases.map(p => [p.quote, p.kind])).toEqual([
+      ['Sorry to bother you', 'needy'],
+      ['just checking in', 'needy'],
+    ]);
+    for (const phrase of phrases) {
+      expect(text.slice(phrase.start, phrase.end)).toBe(phrase.quote);
+    }
+  });
+
+  it('finds seller-posture phrases', () => {
+    const phrases = scanParagraphForFrameLeaks('Quick question: could we hop on a quick call this week?');
+
+    expect(phrases.map(p => [p.quote, p.kind])).toEqual([
+      ['Quick question', 'seller_posture'],
+      ['hop on a quick call', 'seller_posture'],
+    ]);
+  });
+
+  it('matches typographic apostrophes', () => {
+    const phrases = scanParagraphForFrameLeaks('I know you’re busy, but here is the plan.');
+
+    expect(phrases).toHaveLength(1);
+    expect(phrases[0].quote).toBe('I know you’re busy');
+  });
+
+  it('keeps one phrase where matches overlap', () => {
+    const phrases = scanParagraphForFrameLeaks('Let me know if you are interested, please let me know.');
+
+    expect(phrases.map(p => p.quote)).toEqual(['Let me know if you are interested', 'please let me know']);
+  });
+
+  it('ignores words inside other words and short paragraphs', () => {
+    expect(scanParagraphForFrameLeaks('The unguaranteed loan closed on time.')).toEqual([]);
+    expect(scanParagraphForFrameLeaks('Act now')).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+// =============================================================================
+// INLINE COACHING — Lightweight frame-leak scan for a paragraph being written
+// =============================================================================
+// Runs locally on every debounced edit in the note editor, so it uses a fixed
+// phrase list rather than the LLM. Matches are underlined in place; rewrites
+// are only requested from the LLM when the user opens one, which keeps the
+// session throttle for deliberate use.
+// =============================================================================
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type FrameLeakKind = "needy" | "seller_posture";
+
+export interface FrameLeakPhrase {
+  /** Character offset into the scanned paragraph (inclusive) */
+  start: number;
+  /** Character offset into the scanned paragraph (exclusive) */
+  end: number;
+  quote: string;
+  kind: FrameLeakKind;
+  /** Why the phrase leaks frame, shown when the underline is opened */
+  reason: string;
+}
+
+interface FrameLeakPattern {
+  pattern: RegExp;
+  kind: FrameLeakKind;
+  reason: string;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/** Quiet period after the last keystroke before the paragraph is rescanned */
+export const INLINE_COACHING_DEBOUNCE_MS = 1200;
+
+/** Paragraphs shorter than this are not scanned */
+export const MIN_COACHING_PARAGRAPH_CHARS = 12;
+
+const NEEDY = "needy" as const;
+const SELLER = "seller_posture" as const;
+
+/**
+ * Phrases that read as needy (seeking permission, approval or forgiveness)
+ * or as seller posture (chasing, pitching, pressuring). Patterns are matched
+ * case-insensitively on word boundaries.
+ */
+const FRAME_LEAK_PATTERNS: FrameLeakPattern[] = [
+  { pattern: /sorry (to|for) (bother|bothering|disturb|disturbing|interrupt|interrupting)( you)?/, kind: NEEDY, reason: "Apologises for taking up space before saying anything." },
+  { pattern: /just (checking|following) (in|up)/, kind: NEEDY, reason: "Chases for a reply instead of giving a reason to reply." },
+  { pattern: /i know (you'?re|you are) (so |really |very )?(busy|swamped)/, kind: NEEDY, reason: "Puts their time above yours." },
+  { pattern: /i just wanted to/, kind: NEEDY, reason: "\"Just\" shrinks the request before it is made." },
+  { pattern: /i hope (this|that|it) (is ok(ay)?|works|helps|makes sense)/, kind: NEEDY, reason: "Asks for approval of what you just said." },
+  { pattern: /(does|did) (this|that) make sense/, kind: NEEDY, reason: "Checks for approval instead of stating the point." },
+  { pattern: /i('d| would) (really |so |greatly )?appreciate( it)?/, kind: NEEDY, reason: "Frames the outcome as a favour to you." },
+  { pattern: /if (it'?s|that'?s|it is|that is) (ok(ay)?|alright|not too much( trouble)?)( with you)?/, kind: NEEDY, reason: "Asks permission for something that needs none." },
+  { pattern: /no (worries|pressure|problem) if not/, kind: NEEDY, reason: "Pre-accepts a no before the ask lands." },
+  { pattern: /i (totally |completely )?understand if (you|not)/, kind: NEEDY, reason: "Pre-accepts a no before the ask lands." },
+  { pattern: /(please|pls) let me know/, kind: NEEDY, reason: "Hands the next step to them and waits." },
+  { pattern: /sorry (if|for) (this|the) (is )?(late|long|delay)/, kind: NEEDY, reason: "Apologises for the message itself." },
+  { pattern: /any (chance|way) you (could|might|would)/, kind: NEEDY, reason: "Asks for a favour instead of proposing a next step." },
+  { pattern: /(hop|jump|get) on a (quick )?call/, kind: SELLER, reason: "Pitches a call before they have a reason to want one." },
+  { pattern: /(just )?(15|fifteen|10|ten|5|five) minutes of your time/, kind: SELLER, reason: "Bargains for attention." },
+  { pattern: /a (few|couple of) minutes of your time/, kind: SELLER, reason: "Bargains for attention." },
+  { pattern: /quick question/, kind: SELLER, reason: "Minimises the ask to get past their guard." },
+  { pattern: /(limited|for a limited) time( only| offer)?/, kind: SELLER, reason: "Manufactured urgency." },
+  { pattern: /act (now|fast)|don'?t miss (out|this)/, kind: SELLER, reason: "Manufactured urgency." },
+  { pattern: /special (offer|discount|deal|price)/, kind: SELLER, reason: "Leads with price instead of value." },
+  { pattern: /we('?d| would) (love|be honou?red) to (work|partner) with you/, kind: SELLER, reason: "Courts them instead of qualifying them." },
+  { pattern: /(the )?perfect (fit|solution) for you/, kind: SELLER, reason: "Claims fit before understanding their situation." },
+  { pattern: /let me know if you('re| are) interested/, kind: SELLER, reason: "Leaves the decision hanging on their interest." },
+  { pattern: /i('d| would) love to (show|walk) you/, kind: SELLER, reason: "Pitches a demo they did not ask for." },
+  { pattern: /guaranteed?( results)?/, kind: SELLER, reason: "Over-promises to close." },
+];
+
+// Editors turn straight apostrophes into typographic ones as you type
+const COMPILED_PATTERNS = FRAME_LEAK_PATTERNS.map(entry => ({
+  ...entry,
+  regex: new RegExp(`\\b(?:${entry.pattern.source.replace(/'/g, "['’]")})\\b`, "gi"),
+}));
+
+// =============================================================================
+// SCAN
+// =============================================================================
+
+/**
+ * Find needy and seller-posture phrases in a paragraph.
+ * Overlapping matches keep the earliest, then the longest, phrase.
+ */
+export function scanParagraphForFrameLeaks(text: string): FrameLeakPhrase[] {
+  if (text.trim().length < MIN_COACHING_PARAGRAPH_CHARS) return [];
+
+  const matches: FrameLeakPhrase[] = [];
+  for (const { regex, kind, reason } of COMPILED_PATTERNS) {
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        regex.lastIndex += 1;
+        continue;
+      }
+      matches.push({ start: match.index, end: match.index + match[0].length, quote: match[0], kind, reason });
+    }
+  }
+
+  matches.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const phrases: FrameLeakPhrase[] = [];
+  for (const match of matches) {
+    const last = phrases[phrases.length - 1];
+    if (!last || match.start >= last.end) {
+      phrases.push(match);
+    }
+  }
+  return phrases;
+}
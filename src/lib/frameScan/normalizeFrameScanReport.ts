@@ -20,11 +20,87 @@
 // - corrections.sampleRewrites: FrameSampleRewrite[]
 // - axes: FrameAxisScore[]
 //
+// EVIDENCE SPANS VALIDATED (text scans, optional):
+// - axes[].evidenceSpans: FrameEvidenceSpan[]
+// - diagnostics.patternSpans: FramePatternEvidence[]
+// LLM character offsets are unreliable, so each span is checked against the
+// scanned text and its quote: mismatched offsets are re-anchored to where the
+// quote actually appears, and spans that cannot be placed are dropped.
+//
 // This is the SINGLE SOURCE OF TRUTH for normalizing FrameScan reports.
 // All paths (public landing, internal CRM, UI builder) MUST use this normalizer.
 // =============================================================================
 
-import type { FrameScanResult, FrameCorrectionShift, FrameScanStatus } from "./frameTypes";
+import type {
+  FrameScanResult,
+  FrameCorrectionShift,
+  FrameScanStatus,
+  FrameEvidenceSpan,
+  FramePatternEvidence,
+  FrameScanDiagnostics,
+} from "./frameTypes";
+
+/**
+ * Validates evidence spans against the scanned text.
+ *
+ * A span is kept when text.slice(start, end) equals its quote. Otherwise it is
+ * moved to the occurrence of the quote nearest its stated start, or dropped if
+ * the quote does not appear. A span without a quote takes the text at its
+ * offsets. Without the scanned text, only the shape of each span is checked.
+ *
+ * @param raw - Raw spans from the LLM (may be anything)
+ * @param sourceText - The text that was scanned
+ * @returns Valid spans, sorted by start, without duplicates
+ */
+export function normalizeEvidenceSpans(raw: unknown, sourceText?: string): FrameEvidenceSpan[] {
+  if (!Array.isArray(raw)) return [];
+
+  const spans: FrameEvidenceSpan[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== "object") continue;
+    const { start, end, quote } = entry as Record<string, unknown>;
+    if (!Number.isInteger(start) || !Number.isInteger(end)) continue;
+    const from = start as number;
+    const to = end as number;
+    const hasQuote = typeof quote === "string" && quote.length > 0;
+
+    if (sourceText === undefined) {
+      if (from >= 0 && to > from && hasQuote) {
+        spans.push({ start: from, end: to, quote: quote as string });
+      }
+      continue;
+    }
+
+    const inBounds = from >= 0 && to > from && to <= sourceText.length;
+    if (!hasQuote) {
+      if (inBounds) spans.push({ start: from, end: to, quote: sourceText.slice(from, to) });
+      continue;
+    }
+    if (inBounds && sourceText.slice(from, to) === quote) {
+      spans.push({ start: from, end: to, quote });
+      continue;
+    }
+
+    // Re-anchor to the nearest occurrence of the quote
+    let best = -1;
+    for (let at = sourceText.indexOf(quote as string); at !== -1; at = sourceText.indexOf(quote as string, at + 1)) {
+      if (best === -1 || Math.abs(at - from) < Math.abs(best - from)) best = at;
+    }
+    if (best !== -1) {
+      spans.push({ start: best, end: best + (quote as string).length, quote: quote as string });
+    }
+  }
+
+  const seen = new Set<string>();
+  return spans
+    .filter(span => {
+      const key = `${span.start}:${span.end}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+}
 
 /**
  * Normalizes a raw FrameScan report from LLM output to ensure ALL array fields
@@ -35,15 +111,20 @@ import type { FrameScanResult, FrameCorrectionShift, FrameScanStatus } from "./f
  * safely, and it handles malformed or partial LLM responses gracefully.
  *
  * @param raw - Raw object parsed from LLM response (may be incomplete)
+ * @param sourceText - The scanned text, for validating evidence spans (text scans)
  * @returns Fully normalized FrameScanResult safe for UI consumption
  */
-export function normalizeFrameScanReport(raw: any): FrameScanResult {
+export function normalizeFrameScanReport(raw: any, sourceText?: string): FrameScanResult {
   if (!raw || typeof raw !== "object") {
     throw new Error("FrameScanResult must be a non-null object");
   }
 
-  // Ensure axes array exists
-  const axes = Array.isArray(raw.axes) ? raw.axes : [];
+  // Ensure axes array exists, validating evidence spans where given
+  const axes = (Array.isArray(raw.axes) ? raw.axes : []).map((axis: any) =>
+    axis && typeof axis === "object" && "evidenceSpans" in axis
+      ? { ...axis, evidenceSpans: normalizeEvidenceSpans(axis.evidenceSpans, sourceText) }
+      : axis
+  );
 
   // Ensure diagnostics object exists
   const diagnostics = raw.diagnostics && typeof raw.diagnostics === "object"
@@ -51,7 +132,7 @@ export function normalizeFrameScanReport(raw: any): FrameScanResult {
     : {};
 
   // Normalize diagnostics arrays
-  const normalizedDiagnostics = {
+  const normalizedDiagnostics: FrameScanDiagnostics = {
     primaryPatterns: Array.isArray(diagnostics.primaryPatterns)
       ? diagnostics.primaryPatterns
       : [],
@@ -60,6 +141,17 @@ export function normalizeFrameScanReport(raw: any): FrameScanResult {
       : [],
   };
 
+  // Validate pattern evidence (optional); patterns left without spans are dropped
+  if (Array.isArray(diagnostics.patternSpans)) {
+    normalizedDiagnostics.patternSpans = diagnostics.patternSpans
+      .filter((entry: any) => entry && typeof entry === "object" && typeof entry.pattern === "string")
+      .map((entry: any) => ({
+        pattern: entry.pattern,
+        spans: normalizeEvidenceSpans(entry.spans, sourceText),
+      }))
+      .filter((entry: FramePatternEvidence) => entry.spans.length > 0);
+  }
+
   // Ensure corrections object exists
   const corrections = raw.corrections && typeof raw.corrections === "object"
     ? raw.corrections
@@ -0,0 +1,107 @@
+// =============================================================================
+// THREAD SCAN TESTS — Per-message scoring, trajectory and collapse detection
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildThreadAnalysis,
+  detectFrameCollapse,
+  validateThreadMessages,
+  formatThreadTranscript,
+  type ThreadMessageAxes,
+} from './threadScan';
+import { scoreToBand, type FrameAxisId, type FrameThreadMessage, type FrameThreadMessageScore } from './frameTypes';
+
+const ME = 'contact_zero';
+const THEM = 'contact-thread-test';
+
+const axes = (score: number) =>
+  (['assumptive_state', 'buyer_seller_position', 'pedestalization'] as FrameAxisId[]).map(axisId => ({
+    axisId,
+    score,
+    band: scoreToBand(score),
+    notes: `${axisId} at ${score}`,
+  }));
+
+const raw = (index: number, score: number, summary = ''): ThreadMessageAxes => ({
+  index,
+  axes: axes(score),
+  overallWinWinState: 'neutral',
+  summary,
+});
+
+const thread: FrameThreadMessage[] = [
+  { speakerContactId: ME, content: 'Here is the proposal. Start date is the 1st.' },
+  { speakerContactId: THEM, content: 'Can you do 20% off?' },
+  { speakerContactId: ME, content: 'Sorry!! Of course, whatever works for you, I really need this.' },
+  { speakerContactId: THEM, content: 'Great, send it over.' },
+];
+
+describe('validateThreadMessages', () => {
+  it('requires both sides and non-empty messages', () => {
+    expect(validateThreadMessages(thread)).toBeNull();
+    expect(validateThreadMessages(thread.slice(0, 1))).toMatch(/two messages/);
+    expect(validateThreadMessages(thread.filter(m => m.speakerContactId === THEM))).toMatch(/from you/);
+    expect(validateThreadMessages([...thread, { speakerContactId: ME, content: '  ' }])).toMatch(/needs text/);
+  });
+});
+
+describe('buildThreadAnalysis', () => {
+  it('scores each message and tracks each speaker\'s trajectory', () => {
+    const analysis = buildThreadAnalysis('sales_email', thread, [
+      raw(0, 2),
+      raw(1, 1),
+      raw(2, -3, 'Apologises and drops price on the first ask'),
+      raw(3, 1),
+    ]);
+
+    expect(analysis.messageScores).toHaveLength(4);
+    expect(analysis.messageScores[0].frameScore).toBeGreaterThan(analysis.messageScores[2].frameScore);
+    expect(analysis.trajectory.map(p => p.delta)).toEqual([
+      null,
+      null,
+      analysis.messageScores[2].frameScore - analysis.messageScores[0].frameScore,
+      0,
+    ]);
+    expect(analysis.collapse).toMatchObject({
+      index: 2,
+      fromScore: analysis.messageScores[0].frameScore,
+      reason: 'Apologises and drops price on the first ask',
+    });
+  });
+
+  it('throws when a message has no scores', () => {
+    expect(() => buildThreadAnalysis('generic', thread, [raw(0, 1), raw(1, 1), raw(3, 1)])).toThrow(/message 3/);
+  });
+});
+
+describe('detectFrameCollapse', () => {
+  const score = (index: number, speakerContactId: string, frameScore: number): FrameThreadMessageScore => ({
+    index,
+    speakerContactId,
+    axes: axes(0),
+    overallWinWinState: 'neutral',
+    frameScore,
+    overallFrame: 'mixed',
+    summary: '',
+  });
+
+  it('ignores the other side and small or high-landing drops', () => {
+    expect(detectFrameCollapse([score(0, ME, 80), score(1, THEM, 10), score(2, ME, 70)])).toBeNull();
+    expect(detectFrameCollapse([score(0, ME, 50), score(1, ME, 40)])).toBeNull();
+  });
+
+  it('flags the first collapsing turn, measured from the best turn so far', () => {
+    const collapse = detectFrameCollapse([score(0, ME, 60), score(1, ME, 75), score(2, ME, 40), score(3, ME, 10)]);
+    expect(collapse).toMatchObject({ index: 2, fromScore: 75, toScore: 40, drop: 35 });
+  });
+});
+
+describe('formatThreadTranscript', () => {
+  it('numbers messages and labels Contact Zero', () => {
+    const transcript = formatThreadTranscript(thread.slice(0, 2), () => 'Dana Reyes');
+    expect(transcript).toBe(
+      '[1] Me (Contact Zero): Here is the proposal. Start date is the 1st.\n\n[2] Dana Reyes: Can you do 20% off?'
+    );
+  });
+});
@@ -0,0 +1,215 @@
+// =============================================================================
+// THREAD SCAN — Per-message scores, trajectory and collapse detection
+// =============================================================================
+// A thread scan scores every message of an email or DM thread on its own, so
+// the report can show how each side's frame moved over the conversation.
+//
+// The LLM supplies axis scores per message (see runThreadFrameScan). This
+// module turns them into 0-100 scores with the standard scoring engine, builds
+// the trajectory, and finds the turn where Contact Zero's frame collapsed:
+// the first of their messages that falls at least THREAD_COLLAPSE_MIN_DROP
+// points below their best message so far AND lands below
+// THREAD_COLLAPSE_CEILING. Only Contact Zero's frame can collapse; the other
+// side's scores are context.
+// =============================================================================
+
+import { scoreFrameScan } from "./frameScoring";
+import type {
+  FrameAxisScore,
+  FrameTextDomainId,
+  FrameThreadAnalysis,
+  FrameThreadCollapse,
+  FrameThreadMessage,
+  FrameThreadMessageScore,
+  FrameThreadTrajectoryPoint,
+  FrameWinWinState,
+} from "./frameTypes";
+import { CONTACT_ZERO } from "../../services/contactStore";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Minimum drop from Contact Zero's best message that counts as a collapse */
+export const THREAD_COLLAPSE_MIN_DROP = 15;
+
+/** A collapse must land below this score (the bottom of the neutral band) */
+export const THREAD_COLLAPSE_CEILING = 45;
+
+/** Longest thread a single scan accepts */
+export const MAX_THREAD_MESSAGES = 50;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Raw per-message output from the LLM, before local scoring.
+ */
+export interface ThreadMessageAxes {
+  index: number;
+  axes: FrameAxisScore[];
+  overallWinWinState: FrameWinWinState;
+  summary: string;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Check a thread before it is sent for scanning.
+ * @returns An error message, or null when the thread can be scanned
+ */
+export function validateThreadMessages(messages: FrameThreadMessage[]): string | null {
+  if (messages.length < 2) {
+    return "A thread scan needs at least two messages";
+  }
+  if (messages.length > MAX_THREAD_MESSAGES) {
+    return `A thread scan takes at most ${MAX_THREAD_MESSAGES} messages`;
+  }
+  if (messages.some(m => !m.content.trim())) {
+    return "Every message in the thread needs text";
+  }
+  if (!messages.some(m => m.speakerContactId === CONTACT_ZERO.id)) {
+    return "The thread needs at least one message from you";
+  }
+  if (!messages.some(m => m.speakerContactId !== CONTACT_ZERO.id)) {
+    return "The thread needs at least one message from the other side";
+  }
+  return null;
+}
+
+// =============================================================================
+// SCORING
+// =============================================================================
+
+/**
+ * Score one message with the standard engine.
+ * Only the axes the message gave evidence for are weighted.
+ */
+export function scoreThreadMessage(
+  domain: FrameTextDomainId,
+  message: FrameThreadMessage,
+  raw: ThreadMessageAxes
+): FrameThreadMessageScore {
+  const score = scoreFrameScan({
+    status: "ok",
+    rejectionReason: null,
+    modality: "text",
+    domain,
+    overallFrame: "mixed",
+    overallWinWinState: raw.overallWinWinState,
+    axes: raw.axes,
+    diagnostics: { primaryPatterns: [], supportingEvidence: [] },
+    corrections: { topShifts: [] },
+  });
+
+  return {
+    index: raw.index,
+    speakerContactId: message.speakerContactId,
+    axes: raw.axes,
+    overallWinWinState: raw.overallWinWinState,
+    frameScore: score.frameScore,
+    overallFrame: score.overallFrame,
+    summary: raw.summary,
+  };
+}
+
+/**
+ * Trajectory points in thread order, each with the change from the same
+ * speaker's previous message.
+ */
+export function buildThreadTrajectory(scores: FrameThreadMessageScore[]): FrameThreadTrajectoryPoint[] {
+  const lastBySpeaker = new Map<string, number>();
+
+  return scores.map(score => {
+    const previous = lastBySpeaker.get(score.speakerContactId);
+    lastBySpeaker.set(score.speakerContactId, score.frameScore);
+    return {
+      index: score.index,
+      speakerContactId: score.speakerContactId,
+      frameScore: score.frameScore,
+      delta: previous === undefined ? null : score.frameScore - previous,
+    };
+  });
+}
+
+/**
+ * Find the first message where Contact Zero's frame collapsed.
+ * @returns The collapse, or null if their frame held for the whole thread
+ */
+export function detectFrameCollapse(scores: FrameThreadMessageScore[]): FrameThreadCollapse | null {
+  let best: number | null = null;
+
+  for (const score of scores) {
+    if (score.speakerContactId !== CONTACT_ZERO.id) continue;
+
+    if (best !== null) {
+      const drop = best - score.frameScore;
+      if (drop >= THREAD_COLLAPSE_MIN_DROP && score.frameScore < THREAD_COLLAPSE_CEILING) {
+        const weakest = [...score.axes].sort((a, b) => a.score - b.score)[0];
+        return {
+          index: score.index,
+          fromScore: best,
+          toScore: score.frameScore,
+          drop,
+          reason: score.summary || weakest?.notes || "Frame dropped sharply on this message",
+        };
+      }
+    }
+    best = best === null ? score.frameScore : Math.max(best, score.frameScore);
+  }
+
+  return null;
+}
+
+/**
+ * Build the full thread analysis from the LLM's per-message axes.
+ * @throws Error if the LLM skipped a message
+ */
+export function buildThreadAnalysis(
+  domain: FrameTextDomainId,
+  messages: FrameThreadMessage[],
+  rawMessages: ThreadMessageAxes[]
+): FrameThreadAnalysis {
+  const byIndex = new Map(rawMessages.map(raw => [raw.index, raw]));
+
+  const messageScores = messages.map((message, index) => {
+    const raw = byIndex.get(index);
+    if (!raw) {
+      throw new Error(`Thread scan is missing scores for message ${index + 1}`);
+    }
+    return scoreThreadMessage(domain, message, raw);
+  });
+
+  return {
+    messages,
+    messageScores,
+    trajectory: buildThreadTrajectory(messageScores),
+    collapse: detectFrameCollapse(messageScores),
+  };
+}
+
+// =============================================================================
+// PROMPT HELPERS
+// =============================================================================
+
+/**
+ * Render the thread as a numbered transcript for the LLM, e.g.
+ * "[1] Me (Contact Zero): ..." / "[2] Dana Reyes: ...".
+ */
+export function formatThreadTranscript(
+  messages: FrameThreadMessage[],
+  getSpeakerName: (contactId: string) => string
+): string {
+  return messages
+    .map((message, index) => {
+      const speaker = message.speakerContactId === CONTACT_ZERO.id
+        ? "Me (Contact Zero)"
+        : getSpeakerName(message.speakerContactId);
+      const sentAt = message.sentAt ? ` [${message.sentAt}]` : "";
+      return `[${index + 1}] ${speaker}${sentAt}: ${message.content.trim()}`;
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,27 @@
+// =============================================================================
+// CSV TESTS
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { parseCsv, detectDelimiter } from './csv';
+
+describe('parseCsv', () => {
+  it('parses quoted fields with delimiters, quotes and newlines', () => {
+    const text = '\uFEFFName,Notes\r\n"Lovelace, Ada","Said ""hi""\nthen left"\r\nBabbage,\r\n\r\n';
+
+    expect(parseCsv(text)).toEqual([
+      ['Name', 'Notes'],
+      ['Lovelace, Ada', 'Said "hi"\nthen left'],
+      ['Babbage', ''],
+    ]);
+  });
+
+  it('detects semicolon and tab delimiters', () => {
+    expect(detectDelimiter('a;b;c\n1,5;2;3')).toBe(';');
+    expect(detectDelimiter('a\tb\n1\t2')).toBe('\t');
+    expect(parseCsv('Name;Email\nAda;ada@example.com')).toEqual([
+      ['Name', 'Email'],
+      ['Ada', 'ada@example.com'],
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+// =============================================================================
+// CSV — Minimal RFC 4180 parser for contact imports
+// =============================================================================
+// Handles quoted fields, escaped quotes (""), embedded newlines, CRLF line
+// endings and a UTF-8 BOM. The delimiter is auto-detected from the header line
+// (comma, semicolon or tab) because spreadsheet exports vary by locale.
+// =============================================================================
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+const CANDIDATE_DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+/** Pick the delimiter that appears most often outside quotes in the first line */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const counts = new Map<CsvDelimiter, number>(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, counts.get(char as CsvDelimiter)! + 1);
+    }
+  }
+
+  return CANDIDATE_DELIMITERS.reduce((best, d) => (counts.get(d)! > counts.get(best)! ? d : best), ',');
+};
+
+/**
+ * Parse CSV text into rows of fields.
+ * Blank lines are dropped; rows are not padded to the header width.
+ */
+export const parseCsv = (text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] => {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(f => f.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+};
@@ -0,0 +1,62 @@
+// =============================================================================
+// VCARD TESTS
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { parseVCards } from './vcard';
+
+describe('parseVCards', () => {
+  it('parses vCard 3.0 properties, groups and folded lines', () => {
+    const text = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'FN:Ada Lovelace',
+      'N:Lovelace;Ada;;;',
+      'item1.EMAIL;TYPE=INTERNET,WORK:ada@example.com',
+      'TEL;TYPE=CELL:+1 555 010 2000',
+      'ORG:Analytical Engines\\, Ltd;Research',
+      'TITLE:Mathematician',
+      'ADR;TYPE=WORK:;;12 St James Sq;London;;SW1Y 4JH;UK',
+      'URL:https://www.linkedin.com/in/ada',
+      'CATEGORIES:vip,investor',
+      'NOTE:First line\\nsecond',
+      '  continued',
+      'END:VCARD',
+    ].join('\r\n');
+
+    expect(parseVCards(text)).toEqual([
+      {
+        fullName: 'Ada Lovelace',
+        firstName: 'Ada',
+        lastName: 'Lovelace',
+        emails: ['ada@example.com'],
+        phones: ['+1 555 010 2000'],
+        company: 'Analytical Engines, Ltd',
+        title: 'Mathematician',
+        location: 'London, UK',
+        urls: ['https://www.linkedin.com/in/ada'],
+        socialProfiles: [],
+        categories: ['vip', 'investor'],
+        note: 'First line\nsecond continued',
+      },
+    ]);
+  });
+
+  it('builds the name from N and decodes quoted-printable (vCard 2.1)', () => {
+    const text = [
+      'BEGIN:VCARD',
+      'VERSION:2.1',
+      'N;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:M=C3=BCller;J=C3=B6rg',
+      'TEL;WORK;VOICE:555-0100',
+      'END:VCARD',
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'END:VCARD',
+    ].join('\n');
+
+    const [card, ...rest] = parseVCards(text);
+    expect(card.fullName).toBe('Jörg Müller');
+    expect(card.phones).toEqual(['555-0100']);
+    expect(rest).toHaveLength(0);
+  });
+});
@@ -0,0 +1,190 @@
+// =============================================================================
+// VCARD — Parser for .vcf contact exports (vCard 2.1, 3.0 and 4.0)
+// =============================================================================
+// Extracts the properties FrameLord can store on a Contact. Handles folded
+// lines, property parameters (TYPE=work, PREF=1), grouped properties
+// (item1.EMAIL) and backslash escapes. Quoted-printable values (vCard 2.1)
+// are decoded for the common UTF-8 case.
+// =============================================================================
+
+export interface VCardRecord {
+  fullName: string;
+  firstName: string;
+  lastName: string;
+  emails: string[];
+  phones: string[];
+  company: string;
+  title: string;
+  location: string;
+  urls: string[];
+  socialProfiles: string[];
+  categories: string[];
+  note: string;
+}
+
+interface VCardProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/** Join folded lines (continuation lines start with a space or tab) */
+const unfold = (text: string): string[] => {
+  const lines: string[] = [];
+  for (const raw of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (/^[ \t]/.test(raw) && lines.length > 0) {
+      lines[lines.length - 1] += raw.slice(1);
+    } else if (lines.length > 0 && /=$/.test(lines[lines.length - 1]) && /QUOTED-PRINTABLE/i.test(lines[lines.length - 1])) {
+      // vCard 2.1 soft line break inside a quoted-printable value
+      lines[lines.length - 1] = lines[lines.length - 1].slice(0, -1) + raw;
+    } else {
+      lines.push(raw);
+    }
+  }
+  return lines;
+};
+
+const unescapeValue = (value: string): string =>
+  value.replace(/\\([\\,;nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+
+/** Split on an unescaped separator */
+const splitEscaped = (value: string, separator: ',' | ';'): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(current);
+  return parts.map(unescapeValue);
+};
+
+const decodeQuotedPrintable = (value: string): string => {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '=' && /^[0-9A-F]{2}$/i.test(value.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(value.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(value.charCodeAt(i));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+};
+
+const parseProperty = (line: string): VCardProperty | null => {
+  const colon = line.indexOf(':');
+  if (colon <= 0) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, val] = param.split('=');
+    // vCard 2.1 allows bare parameter values ("TEL;WORK;VOICE:")
+    if (val === undefined) params.TYPE = params.TYPE ? `${params.TYPE},${key}` : key;
+    else params[key.toUpperCase()] = val;
+  }
+
+  let value = line.slice(colon + 1);
+  if (params.ENCODING?.toUpperCase() === 'QUOTED-PRINTABLE') value = decodeQuotedPrintable(value);
+
+  // Drop the group prefix ("item1.EMAIL" -> "EMAIL")
+  const name = rawName.includes('.') ? rawName.slice(rawName.lastIndexOf('.') + 1) : rawName;
+  return { name: name.toUpperCase(), params, value };
+};
+
+const emptyRecord = (): VCardRecord => ({
+  fullName: '',
+  firstName: '',
+  lastName: '',
+  emails: [],
+  phones: [],
+  company: '',
+  title: '',
+  location: '',
+  urls: [],
+  socialProfiles: [],
+  categories: [],
+  note: '',
+});
+
+/** Parse every BEGIN:VCARD … END:VCARD block in the text */
+export const parseVCards = (text: string): VCardRecord[] => {
+  const records: VCardRecord[] = [];
+  let current: VCardRecord | null = null;
+
+  for (const line of unfold(text)) {
+    const upper = line.trim().toUpperCase();
+    if (upper === 'BEGIN:VCARD') {
+      current = emptyRecord();
+      continue;
+    }
+    if (upper === 'END:VCARD') {
+      if (current) {
+        if (!current.fullName) current.fullName = [current.firstName, current.lastName].filter(Boolean).join(' ');
+        if (current.fullName || current.emails.length > 0) records.push(current);
+      }
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const prop = parseProperty(line);
+    if (!prop) continue;
+    const value = prop.value.trim();
+    if (!value) continue;
+
+    switch (prop.name) {
+      case 'FN':
+        current.fullName = unescapeValue(value).trim();
+        break;
+      case 'N': {
+        const [family = '', given = ''] = splitEscaped(value, ';');
+        current.lastName = family.trim();
+        current.firstName = given.trim();
+        break;
+      }
+      case 'EMAIL':
+        current.emails.push(unescapeValue(value).trim());
+        break;
+      case 'TEL':
+        current.phones.push(unescapeValue(value).replace(/^tel:/i, '').trim());
+        break;
+      case 'ORG':
+        current.company = splitEscaped(value, ';')[0].trim();
+        break;
+      case 'TITLE':
+        current.title = unescapeValue(value).trim();
+        break;
+      case 'ADR': {
+        // PO box; extended; street; locality; region; postal code; country
+        const parts = splitEscaped(value, ';');
+        current.location ||= [parts[3], parts[4], parts[6]].map(p => p?.trim()).filter(Boolean).join(', ');
+        break;
+      }
+      case 'URL':
+        current.urls.push(unescapeValue(value).trim());
+        break;
+      case 'X-SOCIALPROFILE':
+      case 'X-TWITTER':
+      case 'X-LINKEDIN':
+        current.socialProfiles.push(unescapeValue(value).trim());
+        break;
+      case 'CATEGORIES':
+        current.categories.push(...splitEscaped(value, ',').map(c => c.trim()).filter(Boolean));
+        break;
+      case 'NOTE':
+        current.note = unescapeValue(value).trim();
+        break;
+    }
+  }
+
+  return records;
+};
@@ -0,0 +1,89 @@
+// =============================================================================
+// VERSIONED STORAGE TESTS
+// =============================================================================
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  loadPersisted,
+  savePersisted,
+  clearPersisted,
+  type PersistedSchema,
+} from './versionedStorage';
+
+interface Item {
+  id: string;
+  label: string;
+  priority: number;
+}
+
+const schema: PersistedSchema<Item[]> = {
+  key: 'framelord_test_items',
+  version: 2,
+  migrations: {
+    // v1 -> v2: `name` renamed to `label`, `priority` added
+    2: (data) =>
+      (data as Array<{ id: string; name: string; priority?: number }>).map(i => ({
+        id: i.id,
+        label: i.name,
+        priority: i.priority ?? 0,
+      })),
+  },
+  defaults: () => [{ id: 'seed', label: 'Seed', priority: 0 }],
+};
+
+describe('versionedStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('returns defaults when nothing is stored', () => {
+    expect(loadPersisted(schema)).toEqual([{ id: 'seed', label: 'Seed', priority: 0 }]);
+  });
+
+  it('round-trips data in a versioned envelope', () => {
+    savePersisted(schema, [{ id: 'a', label: 'A', priority: 1 }]);
+
+    const raw = JSON.parse(localStorage.getItem(schema.key)!);
+    expect(raw.version).toBe(2);
+    expect(typeof raw.savedAt).toBe('string');
+    expect(loadPersisted(schema)).toEqual([{ id: 'a', label: 'A', priority: 1 }]);
+  });
+
+  it('migrates envelopes written by an older schema version and writes them back', () => {
+    localStorage.setItem(
+      schema.key,
+      JSON.stringify({ version: 1, savedAt: '2025-01-01T00:00:00Z', data: [{ id: 'a', name: 'Old' }] })
+    );
+
+    expect(loadPersisted(schema)).toEqual([{ id: 'a', label: 'Old', priority: 0 }]);
+    expect(JSON.parse(localStorage.getItem(schema.key)!).version).toBe(2);
+  });
+
+  it('treats bare legacy data without an envelope as version 0', () => {
+    localStorage.setItem(schema.key, JSON.stringify([{ id: 'b', name: 'Legacy', priority: 3 }]));
+
+    expect(loadPersisted(schema)).toEqual([{ id: 'b', label: 'Legacy', priority: 3 }]);
+  });
+
+  it('falls back to defaults on corrupt data', () => {
+    localStorage.setItem(schema.key, '{not json');
+
+    expect(loadPersisted(schema)).toEqual(schema.defaults());
+  });
+
+  it('falls back to defaults when data was written by a newer schema', () => {
+    localStorage.setItem(
+      schema.key,
+      JSON.stringify({ version: 99, savedAt: '2030-01-01T00:00:00Z', data: [] })
+    );
+
+    expect(loadPersisted(schema)).toEqual(schema.defaults());
+  });
+
+  it('clearPersisted removes the stored slice', () => {
+    savePersisted(schema, []);
+    clearPersisted(schema);
+
+    expect(localStorage.getItem(schema.key)).toBeNull();
+  });
+});
@@ -0,0 +1,160 @@
+// =============================================================================
+// VERSIONED STORAGE — Shared localStorage persistence for in-memory stores
+// =============================================================================
+// Stores keep their working set in module-level arrays. This helper gives them
+// a single way to hydrate those arrays on module load and write them back after
+// every mutation, wrapped in a versioned envelope so the shape of persisted
+// data can evolve without wiping what users have already entered.
+//
+// Envelope shape in localStorage:
+//   { version: number, savedAt: ISO string, data: T }
+//
+// Data written before this helper existed (a bare JSON value with no envelope)
+// is treated as version 0 and run through every migration.
+// =============================================================================
+
+/**
+ * A migration upgrades persisted data from `version - 1` to `version`.
+ * Migrations receive untyped data because older shapes are no longer described
+ * by the current TypeScript types.
+ */
+export type StorageMigration = (data: unknown) => unknown;
+
+/**
+ * Describes how a single store slice is persisted.
+ */
+export interface PersistedSchema<T> {
+  /** localStorage key (convention: `framelord_<slice>`) */
+  key: string;
+  /** Current schema version. Bump when the persisted shape changes. */
+  version: number;
+  /**
+   * Migrations keyed by the version they upgrade TO.
+   * e.g. `{ 2: (v1Data) => v2Data }`
+   */
+  migrations?: Record<number, StorageMigration>;
+  /** Value used when nothing is stored yet or stored data is unreadable */
+  defaults: () => T;
+}
+
+/** Persisted envelope written to localStorage */
+export interface PersistedEnvelope<T> {
+  version: number;
+  savedAt: string;
+  data: T;
+}
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+const hasStorage = (): boolean => {
+  try {
+    return typeof window !== 'undefined' && !!window.localStorage;
+  } catch {
+    return false;
+  }
+};
+
+const isEnvelope = (value: unknown): value is PersistedEnvelope<unknown> => {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof (value as PersistedEnvelope<unknown>).version === 'number' &&
+    'data' in (value as object)
+  );
+};
+
+/**
+ * Run migrations from `fromVersion` up to `schema.version`.
+ * Missing migration steps are treated as no-ops (shape unchanged).
+ */
+export const migratePersisted = <T>(
+  schema: PersistedSchema<T>,
+  data: unknown,
+  fromVersion: number
+): T => {
+  let current = data;
+  for (let v = fromVersion + 1; v <= schema.version; v++) {
+    const migrate = schema.migrations?.[v];
+    if (migrate) {
+      current = migrate(current);
+    }
+  }
+  return current as T;
+};
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Load a store slice from localStorage, applying migrations as needed.
+ * Returns `schema.defaults()` if nothing is stored, storage is unavailable,
+ * the stored data is corrupt, or it was written by a newer schema version.
+ */
+export const loadPersisted = <T>(schema: PersistedSchema<T>): T => {
+  if (!hasStorage()) return schema.defaults();
+
+  try {
+    const raw = window.localStorage.getItem(schema.key);
+    if (raw === null) return schema.defaults();
+
+    const parsed: unknown = JSON.parse(raw);
+    const fromVersion = isEnvelope(parsed) ? parsed.version : 0;
+    const payload = isEnvelope(parsed) ? parsed.data : parsed;
+
+    if (fromVersion > schema.version) {
+      console.warn(
+        `[VersionedStorage] ${schema.key} was written by schema v${fromVersion} (current v${schema.version}); using defaults`
+      );
+      return schema.defaults();
+    }
+
+    const migrated = migratePersisted(schema, payload, fromVersion);
+
+    // Write back upgraded data so migrations run once
+    if (fromVersion !== schema.version) {
+      savePersisted(schema, migrated);
+    }
+
+    return migrated;
+  } catch (err) {
+    console.warn(`[VersionedStorage] Failed to load ${schema.key}:`, err);
+    return schema.defaults();
+  }
+};
+
+/**
+ * Save a store slice to localStorage in a versioned envelope.
+ * Silently fails (with a warning) on SSR or quota errors.
+ */
+export const savePersisted = <T>(schema: PersistedSchema<T>, data: T): void => {
+  if (!hasStorage()) return;
+
+  try {
+    const envelope: PersistedEnvelope<T> = {
+      version: schema.version,
+      savedAt: new Date().toISOString(),
+      data,
+    };
+    window.localStorage.setItem(schema.key, JSON.stringify(envelope));
+  } catch (err) {
+    console.warn(`[VersionedStorage] Failed to save ${schema.key}:`, err);
+  }
+};
+
+/**
+ * Remove a store slice from localStorage.
+ * The next load will fall back to `schema.defaults()`.
+ */
+export const clearPersisted = <T>(schema: PersistedSchema<T>): void => {
+  if (!hasStorage()) return;
+
+  try {
+    window.localStorage.removeItem(schema.key);
+  } catch (err) {
+    console.warn(`[VersionedStorage] Failed to clear ${schema.key}:`, err);
+  }
+};
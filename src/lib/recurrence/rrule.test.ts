@@ -0,0 +1,127 @@
+// =============================================================================
+// RRULE TESTS
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseRRule,
+  expandRRule,
+  getNextOccurrence,
+  formatRRule,
+  describeRRule,
+} from './rrule';
+
+describe('parseRRule', () => {
+  it('parses the supported parts', () => {
+    const rule = parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=1MO,-1FR;COUNT=5');
+
+    expect(rule).toMatchObject({
+      freq: 'MONTHLY',
+      interval: 2,
+      count: 5,
+      byDay: [
+        { weekday: 'MO', ordinal: 1 },
+        { weekday: 'FR', ordinal: -1 },
+      ],
+    });
+  });
+
+  it('rejects unsupported or malformed rules', () => {
+    expect(parseRRule('INTERVAL=2')).toBeNull();
+    expect(parseRRule('FREQ=HOURLY')).toBeNull();
+    expect(parseRRule('FREQ=WEEKLY;BYDAY=XX')).toBeNull();
+    expect(parseRRule('FREQ=WEEKLY;BYDAY=1MO')).toBeNull();
+    expect(parseRRule('FREQ=DAILY;BYSETPOS=1')).toBeNull();
+  });
+
+  it('round-trips through formatRRule', () => {
+    const rule = parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20260301T000000Z')!;
+
+    expect(formatRRule(rule)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20260301');
+  });
+});
+
+describe('expandRRule', () => {
+  it('expands daily rules with COUNT', () => {
+    expect(expandRRule('FREQ=DAILY;COUNT=3', '2025-12-30')).toEqual([
+      '2025-12-30',
+      '2025-12-31',
+      '2026-01-01',
+    ]);
+  });
+
+  it('expands weekly rules on several weekdays', () => {
+    // 2025-12-01 is a Monday
+    expect(expandRRule('FREQ=WEEKLY;BYDAY=MO,TH', '2025-12-01', { to: '2025-12-11' })).toEqual([
+      '2025-12-01',
+      '2025-12-04',
+      '2025-12-08',
+      '2025-12-11',
+    ]);
+  });
+
+  it('honours INTERVAL for weekly rules', () => {
+    expect(expandRRule('FREQ=WEEKLY;INTERVAL=2', '2025-12-03', { limit: 3 })).toEqual([
+      '2025-12-03',
+      '2025-12-17',
+      '2025-12-31',
+    ]);
+  });
+
+  it('skips months without the anchor day', () => {
+    expect(expandRRule('FREQ=MONTHLY', '2026-01-31', { limit: 3 })).toEqual([
+      '2026-01-31',
+      '2026-03-31',
+      '2026-05-31',
+    ]);
+  });
+
+  it('supports ordinal weekdays and negative month days', () => {
+    expect(expandRRule('FREQ=MONTHLY;BYDAY=-1FR', '2025-12-26', { limit: 3 })).toEqual([
+      '2025-12-26',
+      '2026-01-30',
+      '2026-02-27',
+    ]);
+    expect(expandRRule('FREQ=MONTHLY;BYMONTHDAY=-1', '2026-01-31', { limit: 3 })).toEqual([
+      '2026-01-31',
+      '2026-02-28',
+      '2026-03-31',
+    ]);
+  });
+
+  it('stops at UNTIL (inclusive)', () => {
+    expect(expandRRule('FREQ=DAILY;UNTIL=20251203', '2025-12-01')).toEqual([
+      '2025-12-01',
+      '2025-12-02',
+      '2025-12-03',
+    ]);
+  });
+
+  it('applies from/to/after/exclude filters after COUNT', () => {
+    expect(
+      expandRRule('FREQ=DAILY;COUNT=5', '2025-12-01', {
+        after: '2025-12-01',
+        exclude: ['2025-12-03'],
+      })
+    ).toEqual(['2025-12-02', '2025-12-04', '2025-12-05']);
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('returns the first occurrence after a date', () => {
+    expect(getNextOccurrence('FREQ=WEEKLY', '2025-12-01', '2025-12-01')).toBe('2025-12-08');
+    expect(getNextOccurrence('FREQ=WEEKLY', '2025-12-01', '2025-12-01', ['2025-12-08'])).toBe('2025-12-15');
+  });
+
+  it('returns null when the series has ended', () => {
+    expect(getNextOccurrence('FREQ=DAILY;COUNT=2', '2025-12-01', '2025-12-02')).toBeNull();
+  });
+});
+
+describe('describeRRule', () => {
+  it('summarizes common rules', () => {
+    expect(describeRRule('FREQ=DAILY')).toBe('Daily');
+    expect(describeRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH')).toBe('Every 2 weeks on Mon, Thu');
+    expect(describeRRule('FREQ=MONTHLY;BYDAY=1MO')).toBe('Every month on 1st Mon');
+  });
+});
@@ -0,0 +1,421 @@
+// =============================================================================
+// RRULE — Minimal RFC 5545 recurrence rules for tasks
+// =============================================================================
+// Supports the subset of RRULE that task scheduling needs:
+// - FREQ=DAILY | WEEKLY | MONTHLY | YEARLY
+// - INTERVAL, COUNT, UNTIL
+// - BYDAY (weekdays; ordinals like 1MO / -1FR for MONTHLY and YEARLY)
+// - BYMONTHDAY (negative values count from the end of the month)
+// - BYMONTH
+//
+// All arithmetic is done on calendar dates ("YYYY-MM-DD") in UTC so an
+// occurrence lands on the same date key the rest of the app uses, regardless
+// of the viewer's timezone. Callers re-attach the time of day.
+// =============================================================================
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface ByDayEntry {
+  weekday: Weekday;
+  /** 1 = first, -1 = last; null = every matching weekday in the period */
+  ordinal: number | null;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count: number | null;
+  /** Inclusive end date ("YYYY-MM-DD") */
+  until: string | null;
+  byDay: ByDayEntry[];
+  byMonthDay: number[];
+  byMonth: number[];
+}
+
+export interface ExpandOptions {
+  /** Only return occurrences on or after this date key */
+  from?: string;
+  /** Only return occurrences on or before this date key */
+  to?: string;
+  /** Only return occurrences strictly after this date key */
+  after?: string;
+  /** Date keys to leave out (EXDATE) */
+  exclude?: string[];
+  /** Stop after this many results */
+  limit?: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Hard stop for rules that never produce a match (e.g. BYMONTHDAY=31;BYMONTH=2) */
+const MAX_PERIODS = 5000;
+
+/** Preset rules offered in task forms */
+export const RECURRENCE_PRESETS: Array<{ id: string; label: string; rule: string }> = [
+  { id: 'daily', label: 'Daily', rule: 'FREQ=DAILY' },
+  { id: 'weekdays', label: 'Every weekday', rule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR' },
+  { id: 'weekly', label: 'Weekly', rule: 'FREQ=WEEKLY' },
+  { id: 'biweekly', label: 'Every 2 weeks', rule: 'FREQ=WEEKLY;INTERVAL=2' },
+  { id: 'monthly', label: 'Monthly', rule: 'FREQ=MONTHLY' },
+];
+
+// =============================================================================
+// DATE HELPERS
+// =============================================================================
+
+const toUtcDate = (dateKey: string): Date => new Date(`${dateKey}T00:00:00Z`);
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/** Monday-based index (MO = 0 … SU = 6), matching the RFC default WKST */
+const mondayIndex = (date: Date): number => (date.getUTCDay() + 6) % 7;
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+const parseUntil = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/) || value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  return `${match[1]}-${match[2]}-${match[3]}`;
+};
+
+const parseByDay = (value: string): ByDayEntry[] | null => {
+  const entries: ByDayEntry[] = [];
+  for (const part of value.split(',')) {
+    const match = part.trim().toUpperCase().match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+    if (!match) return null;
+    const ordinal = match[1] ? parseInt(match[1], 10) : null;
+    if (ordinal === 0) return null;
+    entries.push({ weekday: match[2] as Weekday, ordinal });
+  }
+  return entries;
+};
+
+const parseIntList = (value: string, min: number, max: number): number[] | null => {
+  const values = value.split(',').map(v => parseInt(v.trim(), 10));
+  if (values.some(v => isNaN(v) || v === 0 || v < min || v > max)) return null;
+  return values;
+};
+
+/**
+ * Parse an RRULE string ("FREQ=WEEKLY;BYDAY=MO", optionally prefixed with
+ * "RRULE:"). Returns null for rules outside the supported subset.
+ */
+export const parseRRule = (input: string): RecurrenceRule | null => {
+  const body = input.trim().replace(/^RRULE:/i, '');
+  if (!body) return null;
+
+  const rule: RecurrenceRule = {
+    freq: 'DAILY',
+    interval: 1,
+    count: null,
+    until: null,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+  };
+  let hasFreq = false;
+
+  for (const part of body.split(';')) {
+    if (!part) continue;
+    const [rawKey, rawValue] = part.split('=');
+    if (!rawKey || rawValue === undefined) return null;
+    const key = rawKey.trim().toUpperCase();
+    const value = rawValue.trim();
+
+    switch (key) {
+      case 'FREQ': {
+        const freq = value.toUpperCase();
+        if (!(freq in FREQUENCY_UNITS)) return null;
+        rule.freq = freq as RecurrenceFrequency;
+        hasFreq = true;
+        break;
+      }
+      case 'INTERVAL': {
+        const interval = parseInt(value, 10);
+        if (isNaN(interval) || interval < 1) return null;
+        rule.interval = interval;
+        break;
+      }
+      case 'COUNT': {
+        const count = parseInt(value, 10);
+        if (isNaN(count) || count < 1) return null;
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseUntil(value);
+        if (!until) return null;
+        rule.until = until;
+        break;
+      }
+      case 'BYDAY': {
+        const byDay = parseByDay(value);
+        if (!byDay) return null;
+        rule.byDay = byDay;
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const byMonthDay = parseIntList(value, -31, 31);
+        if (!byMonthDay) return null;
+        rule.byMonthDay = byMonthDay;
+        break;
+      }
+      case 'BYMONTH': {
+        const byMonth = parseIntList(value, 1, 12);
+        if (!byMonth) return null;
+        rule.byMonth = byMonth;
+        break;
+      }
+      case 'WKST':
+        // Weeks always start on Monday here
+        break;
+      default:
+        return null;
+    }
+  }
+
+  if (!hasFreq) return null;
+  // Ordinals only make sense inside a month or year
+  if ((rule.freq === 'DAILY' || rule.freq === 'WEEKLY') && rule.byDay.some(d => d.ordinal !== null)) {
+    return null;
+  }
+  return rule;
+};
+
+/** Check whether a string is an RRULE this module can expand */
+export const isValidRRule = (input: string): boolean => parseRRule(input) !== null;
+
+// =============================================================================
+// EXPANSION
+// =============================================================================
+
+/** Dates in one month matching BYMONTHDAY / BYDAY, or the anchor's day of month */
+const monthCandidates = (rule: RecurrenceRule, year: number, month: number, anchor: Date): Date[] => {
+  const total = daysInMonth(year, month);
+  const days = new Set<number>();
+
+  if (rule.byMonthDay.length > 0) {
+    for (const d of rule.byMonthDay) {
+      const day = d > 0 ? d : total + d + 1;
+      if (day >= 1 && day <= total) days.add(day);
+    }
+  } else if (rule.byDay.length > 0) {
+    for (const entry of rule.byDay) {
+      const target = WEEKDAYS.indexOf(entry.weekday);
+      const matches: number[] = [];
+      for (let day = 1; day <= total; day++) {
+        if (new Date(Date.UTC(year, month, day)).getUTCDay() === target) matches.push(day);
+      }
+      if (entry.ordinal === null) {
+        matches.forEach(m => days.add(m));
+      } else {
+        const pick = entry.ordinal > 0 ? matches[entry.ordinal - 1] : matches[matches.length + entry.ordinal];
+        if (pick !== undefined) days.add(pick);
+      }
+    }
+  } else {
+    // Months without the anchor's day (e.g. the 31st) are skipped, per RFC 5545
+    const day = anchor.getUTCDate();
+    if (day <= total) days.add(day);
+  }
+
+  return [...days].sort((a, b) => a - b).map(day => new Date(Date.UTC(year, month, day)));
+};
+
+/** Candidate dates for the n-th period of the rule, in ascending order */
+const periodCandidates = (rule: RecurrenceRule, anchor: Date, period: number): Date[] => {
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const date = addDays(anchor, step);
+      const weekday = WEEKDAYS[date.getUTCDay()];
+      if (rule.byDay.length > 0 && !rule.byDay.some(d => d.weekday === weekday)) return [];
+      if (rule.byMonth.length > 0 && !rule.byMonth.includes(date.getUTCMonth() + 1)) return [];
+      if (rule.byMonthDay.length > 0) {
+        const total = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+        const day = date.getUTCDate();
+        if (!rule.byMonthDay.some(d => (d > 0 ? d : total + d + 1) === day)) return [];
+      }
+      return [date];
+    }
+
+    case 'WEEKLY': {
+      const weekStart = addDays(anchor, step * 7 - mondayIndex(anchor));
+      const weekdays = rule.byDay.length > 0
+        ? rule.byDay.map(d => d.weekday)
+        : [WEEKDAYS[anchor.getUTCDay()]];
+      return [...new Set(weekdays)]
+        .map(w => (WEEKDAYS.indexOf(w) + 6) % 7)
+        .sort((a, b) => a - b)
+        .map(offset => addDays(weekStart, offset))
+        .filter(date => rule.byMonth.length === 0 || rule.byMonth.includes(date.getUTCMonth() + 1));
+    }
+
+    case 'MONTHLY': {
+      const monthIndex = anchor.getUTCMonth() + step;
+      const year = anchor.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = ((monthIndex % 12) + 12) % 12;
+      if (rule.byMonth.length > 0 && !rule.byMonth.includes(month + 1)) return [];
+      return monthCandidates(rule, year, month, anchor);
+    }
+
+    case 'YEARLY': {
+      const year = anchor.getUTCFullYear() + step;
+      const months = rule.byMonth.length > 0
+        ? [...rule.byMonth].sort((a, b) => a - b).map(m => m - 1)
+        : [anchor.getUTCMonth()];
+      return months.flatMap(month => monthCandidates(rule, year, month, anchor));
+    }
+  }
+};
+
+/**
+ * Expand a rule into occurrence date keys.
+ *
+ * `dtstart` ("YYYY-MM-DD") is always the first occurrence, as in RFC 5545.
+ * COUNT and UNTIL are applied before the from/to/after/exclude filters, so a
+ * skipped occurrence still uses up one of the COUNT slots.
+ */
+export const expandRRule = (
+  rule: RecurrenceRule | string,
+  dtstart: string,
+  options: ExpandOptions = {}
+): string[] => {
+  const parsed = typeof rule === 'string' ? parseRRule(rule) : rule;
+  if (!parsed) return [];
+
+  const anchor = toUtcDate(dtstart);
+  if (isNaN(anchor.getTime())) return [];
+
+  const excluded = new Set(options.exclude || []);
+  const results: string[] = [];
+  let emitted = 0;
+
+  const accept = (key: string): boolean => {
+    if (options.from && key < options.from) return true;
+    if (options.after && key <= options.after) return true;
+    if (options.to && key > options.to) return false;
+    if (!excluded.has(key)) results.push(key);
+    return options.limit === undefined || results.length < options.limit;
+  };
+
+  // DTSTART counts as an occurrence even if the rule would not generate it
+  emitted++;
+  if (!accept(dtstart)) return results;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const date of periodCandidates(parsed, anchor, period)) {
+      const key = toDateKey(date);
+      if (key <= dtstart) continue;
+      if (parsed.until && key > parsed.until) return results;
+      if (parsed.count !== null && emitted >= parsed.count) return results;
+      emitted++;
+      if (!accept(key)) return results;
+    }
+  }
+
+  return results;
+};
+
+/**
+ * First occurrence strictly after `afterDate`, skipping excluded dates.
+ * Returns null when the series has ended.
+ */
+export const getNextOccurrence = (
+  rule: RecurrenceRule | string,
+  dtstart: string,
+  afterDate: string,
+  exclude: string[] = []
+): string | null => {
+  const [next] = expandRRule(rule, dtstart, { after: afterDate, exclude, limit: 1 });
+  return next ?? null;
+};
+
+// =============================================================================
+// FORMATTING
+// =============================================================================
+
+/** Serialize a rule back to RRULE syntax (without the "RRULE:" prefix) */
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${d.weekday}`).join(',')}`);
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth.length > 0) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+};
+
+const ordinalLabel = (n: number): string => {
+  if (n === -1) return 'last';
+  if (n < 0) return `${-n}${ordinalSuffix(-n)} to last`;
+  return `${n}${ordinalSuffix(n)}`;
+};
+
+const ordinalSuffix = (n: number): string => {
+  if (n % 100 >= 11 && n % 100 <= 13) return 'th';
+  return ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+};
+
+/** Human-readable summary, e.g. "Every 2 weeks on Mon, Thu" */
+export const describeRRule = (input: RecurrenceRule | string): string => {
+  const rule = typeof input === 'string' ? parseRRule(input) : input;
+  if (!rule) return 'Custom schedule';
+
+  const unit = FREQUENCY_UNITS[rule.freq];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  if (rule.freq === 'DAILY' && rule.interval === 1) text = 'Daily';
+
+  if (rule.byDay.length > 0) {
+    const days = rule.byDay.map(d =>
+      d.ordinal === null ? WEEKDAY_LABELS[d.weekday] : `${ordinalLabel(d.ordinal)} ${WEEKDAY_LABELS[d.weekday]}`
+    );
+    text += ` on ${days.join(', ')}`;
+  }
+  if (rule.byMonthDay.length > 0) {
+    text += ` on the ${rule.byMonthDay.map(ordinalLabel).join(', ')}`;
+  }
+  if (rule.count !== null) text += `, ${rule.count} times`;
+  if (rule.until) text += `, until ${rule.until}`;
+  return text;
+};
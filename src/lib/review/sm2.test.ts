@@ -0,0 +1,53 @@
+// =============================================================================
+// SM-2 TESTS
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { createSchedule, scheduleReview, isDue, addDaysToKey, MIN_EASE } from './sm2';
+
+describe('scheduleReview', () => {
+  it('grows the interval 1 → 6 → interval × ease while remembered', () => {
+    let schedule = createSchedule('2026-01-01');
+    expect(schedule.dueDate).toBe('2026-01-02');
+
+    schedule = scheduleReview(schedule, 'remembered', '2026-01-02');
+    expect(schedule).toMatchObject({ intervalDays: 1, repetitions: 1, ease: 2.5, dueDate: '2026-01-03' });
+
+    schedule = scheduleReview(schedule, 'remembered', '2026-01-03');
+    expect(schedule).toMatchObject({ intervalDays: 6, repetitions: 2, dueDate: '2026-01-09' });
+
+    schedule = scheduleReview(schedule, 'remembered', '2026-01-09');
+    expect(schedule).toMatchObject({ intervalDays: 15, repetitions: 3, dueDate: '2026-01-24' });
+  });
+
+  it('resets the interval and lowers the ease when forgotten', () => {
+    let schedule = createSchedule('2026-01-01');
+    schedule = scheduleReview(schedule, 'remembered', '2026-01-02');
+    schedule = scheduleReview(schedule, 'remembered', '2026-01-03');
+    schedule = scheduleReview(schedule, 'forgot', '2026-01-09');
+
+    expect(schedule).toMatchObject({ intervalDays: 1, repetitions: 0, lapses: 1, ease: 1.96, dueDate: '2026-01-10' });
+
+    // Relearning starts over at 1 → 6 days, with the lower ease afterwards
+    schedule = scheduleReview(schedule, 'remembered', '2026-01-10');
+    schedule = scheduleReview(schedule, 'remembered', '2026-01-11');
+    schedule = scheduleReview(schedule, 'remembered', '2026-01-17');
+    expect(schedule.intervalDays).toBe(12);
+  });
+
+  it('never lets the ease drop below the minimum', () => {
+    let schedule = createSchedule('2026-01-01');
+    for (let i = 0; i < 5; i++) schedule = scheduleReview(schedule, 'forgot', '2026-01-02');
+
+    expect(schedule.ease).toBe(MIN_EASE);
+    expect(schedule.lapses).toBe(5);
+  });
+});
+
+describe('date keys', () => {
+  it('adds days across month ends and checks due dates', () => {
+    expect(addDaysToKey('2026-01-30', 3)).toBe('2026-02-02');
+    expect(isDue({ ...createSchedule('2026-03-01') }, '2026-03-01')).toBe(false);
+    expect(isDue({ ...createSchedule('2026-03-01') }, '2026-03-02')).toBe(true);
+  });
+});
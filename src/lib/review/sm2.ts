@@ -0,0 +1,73 @@
+// =============================================================================
+// SM-2 — Spaced repetition intervals
+// =============================================================================
+// The SuperMemo-2 scheduler, reduced to two answers:
+//   - remembered → quality 4: interval grows 1 day → 6 days → interval × ease
+//   - forgot     → quality 1: back to a 1-day interval and the ease drops
+// Ease never falls below 1.3, so a hard item still spreads out eventually.
+//
+// Dates are YYYY-MM-DD keys; all arithmetic is in UTC so a schedule does not
+// shift with the time zone it is read in.
+// =============================================================================
+
+export type ReviewOutcome = 'remembered' | 'forgot';
+
+export interface ReviewSchedule {
+  /** SM-2 easiness factor */
+  ease: number;
+  /** Days until the next review */
+  intervalDays: number;
+  /** Successful reviews in a row */
+  repetitions: number;
+  /** Times the item was forgotten */
+  lapses: number;
+  /** YYYY-MM-DD */
+  dueDate: string;
+}
+
+export const DEFAULT_EASE = 2.5;
+export const MIN_EASE = 1.3;
+
+const QUALITY: Record<ReviewOutcome, number> = { remembered: 4, forgot: 1 };
+
+/** Add days to a YYYY-MM-DD key */
+export const addDaysToKey = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+/** Schedule for a newly flagged item: first review the next day */
+export const createSchedule = (today: string): ReviewSchedule => ({
+  ease: DEFAULT_EASE,
+  intervalDays: 1,
+  repetitions: 0,
+  lapses: 0,
+  dueDate: addDaysToKey(today, 1),
+});
+
+/** Next schedule after a review on `today` */
+export const scheduleReview = (
+  schedule: ReviewSchedule,
+  outcome: ReviewOutcome,
+  today: string
+): ReviewSchedule => {
+  const quality = QUALITY[outcome];
+  const ease = Math.max(
+    MIN_EASE,
+    Math.round((schedule.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)) * 100) / 100
+  );
+
+  if (quality < 3) {
+    return { ease, intervalDays: 1, repetitions: 0, lapses: schedule.lapses + 1, dueDate: addDaysToKey(today, 1) };
+  }
+
+  const repetitions = schedule.repetitions + 1;
+  const intervalDays =
+    repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(schedule.intervalDays * schedule.ease);
+
+  return { ease, intervalDays, repetitions, lapses: schedule.lapses, dueDate: addDaysToKey(today, intervalDays) };
+};
+
+/** True when the item should be in the queue on `today` */
+export const isDue = (schedule: ReviewSchedule, today: string): boolean => schedule.dueDate <= today;
@@ -0,0 +1,26 @@
+// =============================================================================
+// SEARCH QUERY TESTS
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { parseSearchQuery } from './searchQuery';
+
+describe('parseSearchQuery', () => {
+  it('extracts operators and leaves the free text', () => {
+    expect(parseSearchQuery('pricing @"Ada Lovelace" #deals is:task is:notes before:2026-01-01 after:2025-06-30')).toEqual({
+      text: 'pricing',
+      contacts: ['Ada Lovelace'],
+      topics: ['deals'],
+      types: ['task', 'note'],
+      before: '2026-01-01',
+      after: '2025-06-30',
+    });
+  });
+
+  it('treats unknown or malformed operators as text', () => {
+    const parsed = parseSearchQuery('is:banana before:soon "exact phrase" c#');
+    expect(parsed.text).toBe('is:banana before:soon exact phrase c#');
+    expect(parsed.types).toEqual([]);
+    expect(parsed.before).toBeUndefined();
+  });
+});
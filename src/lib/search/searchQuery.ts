@@ -0,0 +1,77 @@
+// =============================================================================
+// SEARCH QUERY — Parse filter operators out of a search box query
+// =============================================================================
+// Supported operators (anything else is free text):
+//   @ada  @"ada lovelace"   linked to a contact whose name matches
+//   #pricing                tagged with a matching topic or tag
+//   is:note|contact|task|interaction   restrict result types (repeat to OR)
+//   before:2026-01-01  after:2025-06-30   by the record's date (exclusive)
+// =============================================================================
+
+export type SearchResultType = 'note' | 'contact' | 'task' | 'interaction';
+
+export interface ParsedSearchQuery {
+  /** Free text with operators removed */
+  text: string;
+  contacts: string[];
+  topics: string[];
+  types: SearchResultType[];
+  /** YYYY-MM-DD */
+  before?: string;
+  after?: string;
+}
+
+const TYPE_ALIASES: Record<string, SearchResultType> = {
+  note: 'note',
+  notes: 'note',
+  contact: 'contact',
+  contacts: 'contact',
+  person: 'contact',
+  people: 'contact',
+  task: 'task',
+  tasks: 'task',
+  todo: 'task',
+  interaction: 'interaction',
+  interactions: 'interaction',
+};
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Operator tokens: prefix/key plus either a quoted or bare value */
+const TOKEN = /(@|#|(?:is|before|after):)(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/gi;
+
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+  const parsed: ParsedSearchQuery = { text: '', contacts: [], topics: [], types: [] };
+  const text: string[] = [];
+
+  for (const match of input.matchAll(TOKEN)) {
+    const [raw, operator, quoted, bare, phrase, word] = match;
+    if (!operator) {
+      text.push(phrase ?? word);
+      continue;
+    }
+
+    const value = (quoted ?? bare).trim();
+    const key = operator.toLowerCase();
+
+    if (key === '@' && value) parsed.contacts.push(value);
+    else if (key === '#' && value) parsed.topics.push(value);
+    else if (key === 'is:' && TYPE_ALIASES[value.toLowerCase()]) {
+      const type = TYPE_ALIASES[value.toLowerCase()];
+      if (!parsed.types.includes(type)) parsed.types.push(type);
+    } else if (key === 'before:' && DATE.test(value)) parsed.before = value;
+    else if (key === 'after:' && DATE.test(value)) parsed.after = value;
+    else text.push(raw);
+  }
+
+  parsed.text = text.join(' ').trim();
+  return parsed;
+};
+
+/** True if the query contains any operator */
+export const hasSearchFilters = (query: ParsedSearchQuery): boolean =>
+  query.contacts.length > 0 ||
+  query.topics.length > 0 ||
+  query.types.length > 0 ||
+  !!query.before ||
+  !!query.after;
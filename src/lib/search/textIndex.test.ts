@@ -0,0 +1,54 @@
+// =============================================================================
+// TEXT INDEX TESTS
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { TextIndex, stem, tokenize } from './textIndex';
+
+describe('tokenize / stem', () => {
+  it('normalizes case and diacritics and drops stop words', () => {
+    expect(tokenize('The Café at Zürich, and a 2nd call')).toEqual(['cafe', 'zurich', '2nd', 'call']);
+  });
+
+  it('reduces common suffixes conservatively', () => {
+    expect(['meetings', 'meeting', 'planned', 'running', 'companies', 'called'].map(stem)).toEqual([
+      'meet', 'meet', 'plan', 'run', 'company', 'call',
+    ]);
+    expect(['need', 'status', 'bus', 'sing'].map(stem)).toEqual(['need', 'status', 'bus', 'sing']);
+  });
+});
+
+describe('TextIndex', () => {
+  const build = () => {
+    const index = new TextIndex();
+    index.add('a', [{ text: 'Pricing meeting', weight: 3 }, { text: 'Discussed the enterprise plan' }]);
+    index.add('b', [{ text: 'Weekly review', weight: 3 }, { text: 'Pricing came up briefly' }]);
+    index.add('c', [{ text: 'Hiring plans' }]);
+    return index;
+  };
+
+  it('requires every word and ranks title matches higher', () => {
+    const scores = build().search('pricing');
+    expect([...scores.keys()].sort()).toEqual(['a', 'b']);
+    expect(scores.get('a')!).toBeGreaterThan(scores.get('b')!);
+    expect([...build().search('pricing meetings').keys()]).toEqual(['a']);
+  });
+
+  it('matches prefixes and typos', () => {
+    const index = build();
+    expect([...index.search('enterpr').keys()]).toEqual(['a']);
+    expect([...index.search('meetin').keys()]).toEqual(['a']);
+    expect([...index.search('hirng').keys()]).toEqual(['c']);
+  });
+
+  it('replaces and removes documents incrementally', () => {
+    const index = build();
+    index.add('c', [{ text: 'Hiring freeze' }]);
+    expect(index.search('plans').has('c')).toBe(false);
+    expect(index.search('freeze').has('c')).toBe(true);
+
+    index.remove('c');
+    expect(index.search('hiring').size).toBe(0);
+    expect(index.size).toBe(2);
+  });
+});
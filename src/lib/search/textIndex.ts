@@ -0,0 +1,224 @@
+// =============================================================================
+// TEXT INDEX — Incremental inverted index with prefix and fuzzy matching
+// =============================================================================
+// Documents are added as weighted fields (e.g. title ×3, body ×1). Text is
+// normalized (lowercase, diacritics stripped), split into words, stop words
+// dropped and each word reduced with a light English stemmer, so "meetings",
+// "meeting" and "meet" share a posting list. The unstemmed word is indexed
+// too, so a half-typed "meetin" still finds "meeting" by prefix.
+//
+// Documents can be added, replaced and removed one at a time; nothing is
+// rebuilt wholesale. A query term matches a document if it matches one of
+// its terms exactly, as a prefix (so results appear while typing), or within
+// a small edit distance (typos). Every query term must match (AND).
+// =============================================================================
+
+export interface IndexedField {
+  text: string;
+  /** Relative importance of a match in this field (default 1) */
+  weight?: number;
+}
+
+/** How a query term matched — exact matches outrank prefix, prefix outranks fuzzy */
+const MATCH_FACTOR = { exact: 1, prefix: 0.7, fuzzy: 0.5 } as const;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'in', 'is',
+  'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'with',
+]);
+
+const VOWEL = /[aeiouy]/;
+
+/**
+ * Lowercase, strip diacritics and split into words.
+ * Stop words are dropped; single characters are kept only if they are digits.
+ */
+export const tokenize = (text: string): string[] =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word && !STOP_WORDS.has(word) && (word.length > 1 || /\d/.test(word)));
+
+/**
+ * Light suffix-stripping stemmer (plurals, -ing, -ed, -ly).
+ * Deliberately conservative: a stem keeps at least three letters and a vowel.
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let w = word;
+  if (w.endsWith('ies') && w.length > 4) w = `${w.slice(0, -3)}y`;
+  else if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('s') && !/(ss|us|is)$/.test(w)) w = w.slice(0, -1);
+
+  for (const suffix of ['ingly', 'edly', 'ing', 'ed', 'ly']) {
+    if (!w.endsWith(suffix) || (suffix === 'ed' && w.endsWith('eed'))) continue;
+    const base = w.slice(0, -suffix.length);
+    if (base.length < 3 || !VOWEL.test(base)) break;
+    // "planned" -> "plann" -> "plan"
+    w = /([^aeiouslz])\1$/.test(base) ? base.slice(0, -1) : base;
+    break;
+  }
+  return w;
+};
+
+/** Levenshtein distance, giving up once it exceeds `max` */
+const withinDistance = (a: string, b: string, max: number): boolean => {
+  if (Math.abs(a.length - b.length) > max) return false;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return false;
+    prev = row;
+  }
+  return prev[b.length] <= max;
+};
+
+const maxTypos = (term: string): number => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+export class TextIndex {
+  /** term -> docId -> weighted term frequency */
+  private postings = new Map<string, Map<string, number>>();
+  /** docId -> its distinct terms (for removal) */
+  private docTerms = new Map<string, string[]>();
+  /** Sorted vocabulary for prefix lookups; rebuilt lazily after changes */
+  private sortedTerms: string[] | null = null;
+
+  get size(): number {
+    return this.docTerms.size;
+  }
+
+  has(id: string): boolean {
+    return this.docTerms.has(id);
+  }
+
+  /** Add a document, replacing any previous version with the same ID */
+  add(id: string, fields: IndexedField[]): void {
+    this.remove(id);
+
+    const frequencies = new Map<string, number>();
+    for (const field of fields) {
+      if (!field.text) continue;
+      for (const word of tokenize(field.text)) {
+        const stemmed = stem(word);
+        for (const term of stemmed === word ? [word] : [word, stemmed]) {
+          frequencies.set(term, (frequencies.get(term) || 0) + (field.weight ?? 1));
+        }
+      }
+    }
+
+    for (const [term, tf] of frequencies) {
+      let docs = this.postings.get(term);
+      if (!docs) {
+        docs = new Map();
+        this.postings.set(term, docs);
+        this.sortedTerms = null;
+      }
+      docs.set(id, tf);
+    }
+    this.docTerms.set(id, [...frequencies.keys()]);
+  }
+
+  remove(id: string): void {
+    const terms = this.docTerms.get(id);
+    if (!terms) return;
+
+    for (const term of terms) {
+      const docs = this.postings.get(term);
+      if (!docs) continue;
+      docs.delete(id);
+      if (docs.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = null;
+      }
+    }
+    this.docTerms.delete(id);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.docTerms.clear();
+    this.sortedTerms = null;
+  }
+
+  /**
+   * Score documents matching every word of `query`.
+   * Returns docId -> score (higher is better); empty if the query has no words.
+   */
+  search(query: string): Map<string, number> {
+    const words = [...new Set(tokenize(query))];
+    if (words.length === 0) return new Map();
+
+    let scores: Map<string, number> | null = null;
+    for (const word of words) {
+      const termScores = this.scoreWord(word);
+      if (scores === null) {
+        scores = termScores;
+      } else {
+        const next = new Map<string, number>();
+        for (const [id, score] of scores) {
+          const add = termScores.get(id);
+          if (add !== undefined) next.set(id, score + add);
+        }
+        scores = next;
+      }
+      if (scores.size === 0) break;
+    }
+    return scores || new Map();
+  }
+
+  /** Best score per document for one query word across its exact, prefix and fuzzy matches */
+  private scoreWord(word: string): Map<string, number> {
+    const result = new Map<string, number>();
+    const total = Math.max(this.docTerms.size, 1);
+
+    const collect = (indexTerm: string, factor: number) => {
+      const docs = this.postings.get(indexTerm)!;
+      const idf = Math.log(1 + total / docs.size);
+      for (const [id, tf] of docs) {
+        const score = factor * idf * (1 + Math.log(tf));
+        if (score > (result.get(id) || 0)) result.set(id, score);
+      }
+    };
+
+    const stemmed = stem(word);
+    for (const term of new Set([word, stemmed])) {
+      if (this.postings.has(term)) collect(term, MATCH_FACTOR.exact);
+    }
+    for (const candidate of this.termsWithPrefix(word)) {
+      if (candidate !== word && candidate !== stemmed) collect(candidate, MATCH_FACTOR.prefix);
+    }
+
+    const typos = maxTypos(word);
+    if (result.size === 0 && typos > 0) {
+      for (const candidate of this.postings.keys()) {
+        if (withinDistance(word, candidate, typos)) collect(candidate, MATCH_FACTOR.fuzzy);
+      }
+    }
+    return result;
+  }
+
+  private termsWithPrefix(prefix: string): string[] {
+    if (!this.sortedTerms) this.sortedTerms = [...this.postings.keys()].sort();
+    const terms = this.sortedTerms;
+
+    let lo = 0;
+    let hi = terms.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (terms[mid] < prefix) lo = mid + 1;
+      else hi = mid;
+    }
+
+    const matches: string[] = [];
+    for (let i = lo; i < terms.length && terms[i].startsWith(prefix); i++) matches.push(terms[i]);
+    return matches;
+  }
+}
@@ -0,0 +1,76 @@
+// =============================================================================
+// CRM SYNC TESTS — Store adapters across a page reload
+// =============================================================================
+// Each "page load" re-imports the stores and the engine with fresh module
+// state, keeping localStorage and the remote transport, as a browser reload
+// would.
+// =============================================================================
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createInMemorySyncTransport, type InMemorySyncTransport, type SyncTable } from './syncTransport';
+
+let transport: InMemorySyncTransport;
+
+const loadPage = async () => {
+  vi.resetModules();
+  const contactStore = await import('../../services/contactStore');
+  const taskStore = await import('../../services/taskStore');
+  const engine = await import('./syncEngine');
+  const { CRM_SYNC_ADAPTERS } = await import('./crmSync');
+  engine.configureSync({ transport, adapters: CRM_SYNC_ADAPTERS });
+  return { contactStore, taskStore, engine };
+};
+
+const remoteContact = (id: string) => transport.rows.get('crm_contacts')?.get(id);
+const remoteIds = (table: SyncTable) => [...(transport.rows.get(table)?.keys() || [])];
+
+describe('crmSync', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    transport = createInMemorySyncTransport();
+  });
+
+  it('keeps contacts created before a reload instead of deleting them remotely', async () => {
+    const first = await loadPage();
+    const contact = first.contactStore.createContact({ fullName: 'Dana Reyes', relationshipDomain: 'business' });
+    await first.engine.runSync();
+    expect(remoteContact(contact.id)?.deleted).toBe(false);
+
+    const second = await loadPage();
+    await second.engine.runSync();
+
+    expect(second.contactStore.getContactById(contact.id)?.fullName).toBe('Dana Reyes');
+    expect(remoteContact(contact.id)?.deleted).toBe(false);
+    expect(remoteContact(contact.id)?.sync_version).toBe(1);
+  });
+
+  it('never syncs demo contacts, so turning them off deletes nothing remotely', async () => {
+    const { contactStore, engine } = await loadPage();
+    const demoId = contactStore.getAllContacts(true).find(c => contactStore.isDemoContact(c.id))!.id;
+
+    await engine.runSync();
+    expect(remoteContact(demoId)).toBeUndefined();
+    expect(remoteContact('contact_zero')).toBeDefined();
+
+    contactStore.setDemoContactsEnabled(false);
+    contactStore.refreshContactsList();
+    const result = await engine.runSync();
+
+    expect(result.pushed).toBe(0);
+    expect(remoteContact(demoId)).toBeUndefined();
+  });
+
+  it('never syncs seeded records or records about demo contacts', async () => {
+    const { contactStore, taskStore, engine } = await loadPage();
+    const demoId = contactStore.getAllContacts(true).find(c => contactStore.isDemoContact(c.id))!.id;
+    const real = contactStore.createContact({ fullName: 'Dana Reyes', relationshipDomain: 'business' });
+    taskStore.createTask({ contactId: demoId, title: 'Demo follow-up' });
+    const realTask = taskStore.createTask({ contactId: real.id, title: 'Real follow-up' });
+
+    await engine.runSync();
+
+    expect(remoteIds('crm_tasks')).toEqual([realTask.id]);
+    expect(remoteIds('crm_interactions')).toEqual([]);
+    expect(remoteIds('crm_pipeline_items')).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+// =============================================================================
+// CRM SYNC — Wires the CRM stores into the sync engine
+// =============================================================================
+// Defines one adapter per synced store and starts background sync against
+// Supabase when it is configured and the user is signed in. Without Supabase
+// the engine stays 'disabled' and every store keeps working locally.
+// =============================================================================
+
+import type { Contact, Interaction, Note, PipelineItem, Task } from '../../types';
+import { supabase, isSupabaseConfigured } from '../supabase/client';
+import { isAuthenticated } from '../../services/authStore';
+import {
+  getAllContacts,
+  applySyncedContact,
+  removeSyncedContact,
+  isDemoContact,
+} from '../../services/contactStore';
+import {
+  getAllNotes,
+  getDeletedNotes,
+  applySyncedNote,
+  removeSyncedNote,
+  markNoteSynced,
+} from '../../services/noteStore';
+import { getAllTasks, applySyncedTask, removeSyncedTask, isLocalOnlyTask } from '../../services/taskStore';
+import {
+  getAllInteractions,
+  applySyncedInteraction,
+  removeSyncedInteraction,
+  isLocalOnlyInteraction,
+} from '../../services/interactionStore';
+import {
+  getAllPipelineItems,
+  applySyncedPipelineItem,
+  removeSyncedPipelineItem,
+  isLocalOnlyPipelineItem,
+} from '../../services/pipelineStore';
+import { configureSync, startAutoSync, type SyncAdapter } from './syncEngine';
+import { createSupabaseSyncTransport } from './syncTransport';
+
+// =============================================================================
+// ADAPTERS
+// =============================================================================
+
+const contactAdapter: SyncAdapter<Contact> = {
+  table: 'crm_contacts',
+  label: 'Contact',
+  list: () => getAllContacts(true),
+  apply: applySyncedContact,
+  remove: removeSyncedContact,
+  describe: (c) => c.fullName,
+  // Demo contacts are reseeded on every device and toggle on and off locally
+  isLocalOnly: isDemoContact,
+};
+
+const noteAdapter: SyncAdapter<Note> = {
+  table: 'crm_notes',
+  label: 'Note',
+  // Trashed notes sync too so deletes propagate as soft deletes
+  list: () => [...getAllNotes(), ...getDeletedNotes()],
+  apply: applySyncedNote,
+  remove: removeSyncedNote,
+  getVersion: (n) => n.sync_version || 0,
+  markSynced: (n, version, syncedAt) => markNoteSynced(n.id, version, syncedAt),
+  describe: (n) => n.title || 'Untitled',
+};
+
+const taskAdapter: SyncAdapter<Task> = {
+  table: 'crm_tasks',
+  label: 'Task',
+  list: getAllTasks,
+  apply: applySyncedTask,
+  remove: removeSyncedTask,
+  describe: (t) => t.title,
+  // Seeded records have fixed IDs on every device, so they never sync either
+  isLocalOnly: isLocalOnlyTask,
+};
+
+const interactionAdapter: SyncAdapter<Interaction> = {
+  table: 'crm_interactions',
+  label: 'Interaction',
+  list: getAllInteractions,
+  apply: applySyncedInteraction,
+  remove: removeSyncedInteraction,
+  describe: (i) => `${i.type}: ${i.summary.slice(0, 60)}`,
+  isLocalOnly: isLocalOnlyInteraction,
+};
+
+const pipelineItemAdapter: SyncAdapter<PipelineItem> = {
+  table: 'crm_pipeline_items',
+  label: 'Pipeline item',
+  list: getAllPipelineItems,
+  apply: applySyncedPipelineItem,
+  remove: removeSyncedPipelineItem,
+  describe: (p) => p.label || p.id,
+  isLocalOnly: isLocalOnlyPipelineItem,
+};
+
+/** Adapters in dependency order (contacts before the records that reference them) */
+export const CRM_SYNC_ADAPTERS: SyncAdapter[] = [
+  contactAdapter,
+  noteAdapter,
+  taskAdapter,
+  interactionAdapter,
+  pipelineItemAdapter,
+];
+
+// =============================================================================
+// INITIALIZATION
+// =============================================================================
+
+/**
+ * Configure the sync engine for the CRM stores and start background sync.
+ * Returns a stop function (a no-op when sync is disabled).
+ */
+export const initCrmSync = (intervalMs?: number): (() => void) => {
+  const enabled = isSupabaseConfigured() && isAuthenticated();
+
+  configureSync({
+    transport: enabled ? createSupabaseSyncTransport(supabase) : null,
+    adapters: CRM_SYNC_ADAPTERS,
+  });
+
+  if (!enabled) return () => {};
+  return startAutoSync(intervalMs);
+};
@@ -0,0 +1,248 @@
+// =============================================================================
+// SYNC ENGINE TESTS
+// =============================================================================
+// Runs the engine against the in-memory transport, which enforces the same
+// optimistic-concurrency rules as the Supabase tables.
+// =============================================================================
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  configureSync,
+  runSync,
+  getSyncState,
+  resolveSyncConflict,
+  resetSyncState,
+  mergeRecords,
+  type SyncAdapter,
+} from './syncEngine';
+import { createInMemorySyncTransport, type InMemorySyncTransport } from './syncTransport';
+
+// =============================================================================
+// TEST HELPERS
+// =============================================================================
+
+interface TestTask {
+  id: string;
+  title: string;
+  tags: string[];
+}
+
+interface TestNote {
+  id: string;
+  title: string;
+  sync_version: number;
+  last_synced_at?: string;
+}
+
+let tasks: TestTask[];
+let notes: TestNote[];
+let transport: InMemorySyncTransport;
+
+const taskAdapter: SyncAdapter<TestTask> = {
+  table: 'crm_tasks',
+  label: 'Task',
+  list: () => tasks,
+  apply: (t) => {
+    tasks = [...tasks.filter(x => x.id !== t.id), t];
+  },
+  remove: (id) => {
+    tasks = tasks.filter(t => t.id !== id);
+  },
+};
+
+const noteAdapter: SyncAdapter<TestNote> = {
+  table: 'crm_notes',
+  label: 'Note',
+  list: () => notes,
+  apply: (n) => {
+    notes = [...notes.filter(x => x.id !== n.id), n];
+  },
+  remove: (id) => {
+    notes = notes.filter(n => n.id !== id);
+  },
+  getVersion: (n) => n.sync_version,
+  markSynced: (n, version, syncedAt) => {
+    notes = notes.map(x => (x.id === n.id ? { ...x, sync_version: version, last_synced_at: syncedAt } : x));
+  },
+};
+
+const remoteTask = (id: string) =>
+  transport.rows.get('crm_tasks')?.get(id);
+
+describe('syncEngine', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    resetSyncState();
+    tasks = [{ id: 't1', title: 'Call Sarah', tags: [] }];
+    notes = [{ id: 'n1', title: 'Kickoff', sync_version: 3 }];
+    transport = createInMemorySyncTransport();
+    configureSync({ transport, adapters: [taskAdapter, noteAdapter] });
+  });
+
+  it('pushes new local records on first sync', async () => {
+    const result = await runSync();
+
+    expect(result.pushed).toBe(2);
+    expect(remoteTask('t1')?.sync_version).toBe(1);
+    expect(transport.rows.get('crm_notes')?.get('n1')?.sync_version).toBe(3);
+    expect(notes[0].last_synced_at).toBeDefined();
+    expect(getSyncState().status).toBe('idle');
+  });
+
+  it('does not re-push unchanged records', async () => {
+    await runSync();
+    const result = await runSync();
+
+    expect(result.pushed).toBe(0);
+  });
+
+  it('pushes local edits with a bumped version', async () => {
+    await runSync();
+    tasks = [{ ...tasks[0], title: 'Call Sarah re: demo' }];
+
+    await runSync();
+
+    expect(remoteTask('t1')?.sync_version).toBe(2);
+    expect((remoteTask('t1')?.data as TestTask).title).toBe('Call Sarah re: demo');
+  });
+
+  it('applies remote changes when there is no local edit', async () => {
+    await runSync();
+    transport.writeRemote('crm_tasks', {
+      id: 't1',
+      data: { id: 't1', title: 'Edited elsewhere', tags: [] },
+      sync_version: 2,
+      deleted: false,
+    });
+    transport.writeRemote('crm_tasks', {
+      id: 't2',
+      data: { id: 't2', title: 'New from phone', tags: [] },
+      sync_version: 1,
+      deleted: false,
+    });
+
+    const result = await runSync();
+
+    expect(result.pulled).toBe(2);
+    expect(tasks.find(t => t.id === 't1')?.title).toBe('Edited elsewhere');
+    expect(tasks.find(t => t.id === 't2')).toBeDefined();
+  });
+
+  it('propagates local deletes as tombstones and applies remote tombstones', async () => {
+    tasks.push({ id: 't2', title: 'Temp', tags: [] });
+    await runSync();
+
+    tasks = tasks.filter(t => t.id !== 't2');
+    transport.writeRemote('crm_tasks', { id: 't1', data: null, sync_version: 2, deleted: true });
+
+    await runSync();
+
+    expect(remoteTask('t2')?.deleted).toBe(true);
+    expect(tasks).toHaveLength(0);
+  });
+
+  it('queues a conflict when both sides edited the same record', async () => {
+    await runSync();
+    tasks = [{ ...tasks[0], title: 'Local title' }];
+    transport.writeRemote('crm_tasks', {
+      id: 't1',
+      data: { id: 't1', title: 'Remote title', tags: [] },
+      sync_version: 2,
+      deleted: false,
+    });
+
+    const result = await runSync();
+
+    expect(result.conflicts).toBe(1);
+    const [conflict] = getSyncState().conflicts;
+    expect(conflict.recordId).toBe('t1');
+    expect((conflict.local as TestTask).title).toBe('Local title');
+    // Neither side is overwritten until the user decides
+    expect(tasks[0].title).toBe('Local title');
+    expect((remoteTask('t1')?.data as TestTask).title).toBe('Remote title');
+  });
+
+  it('uses native versions to detect note conflicts', async () => {
+    await runSync();
+    notes = [{ ...notes[0], title: 'Local', sync_version: 4 }];
+    transport.writeRemote('crm_notes', {
+      id: 'n1',
+      data: { id: 'n1', title: 'Remote', sync_version: 4 },
+      sync_version: 4,
+      deleted: false,
+    });
+
+    await runSync();
+
+    expect(getSyncState().conflicts.map(c => c.recordId)).toEqual(['n1']);
+  });
+
+  describe('conflict resolution', () => {
+    beforeEach(async () => {
+      await runSync();
+      tasks = [{ id: 't1', title: 'Local title', tags: ['local'] }];
+      transport.writeRemote('crm_tasks', {
+        id: 't1',
+        data: { id: 't1', title: 'Remote title', tags: ['remote'] },
+        sync_version: 2,
+        deleted: false,
+      });
+      await runSync();
+    });
+
+    it('keep_remote overwrites the local record', async () => {
+      const [conflict] = getSyncState().conflicts;
+      expect(await resolveSyncConflict(conflict.id, 'keep_remote')).toBe(true);
+
+      expect(tasks[0].title).toBe('Remote title');
+      expect(getSyncState().conflicts).toHaveLength(0);
+    });
+
+    it('keep_local overwrites the remote record', async () => {
+      const [conflict] = getSyncState().conflicts;
+      await resolveSyncConflict(conflict.id, 'keep_local');
+
+      expect((remoteTask('t1')?.data as TestTask).title).toBe('Local title');
+      expect(remoteTask('t1')?.sync_version).toBe(3);
+      // Nothing left to push afterwards
+      expect((await runSync()).pushed).toBe(0);
+    });
+
+    it('keep_local pushes edits made after the conflict was queued', async () => {
+      const [conflict] = getSyncState().conflicts;
+      tasks = [{ id: 't1', title: 'Edited while deciding', tags: ['local'] }];
+      await resolveSyncConflict(conflict.id, 'keep_local');
+
+      expect((remoteTask('t1')?.data as TestTask).title).toBe('Edited while deciding');
+      expect((await runSync()).pushed).toBe(0);
+    });
+
+    it('merge keeps local scalars and unions lists on both sides', async () => {
+      const [conflict] = getSyncState().conflicts;
+      await resolveSyncConflict(conflict.id, 'merge');
+
+      expect(tasks[0]).toEqual({ id: 't1', title: 'Local title', tags: ['remote', 'local'] });
+      expect(remoteTask('t1')?.data).toEqual(tasks[0]);
+    });
+  });
+
+  it('is disabled without a transport', async () => {
+    configureSync({ transport: null, adapters: [taskAdapter] });
+
+    const result = await runSync();
+
+    expect(result.pushed).toBe(0);
+    expect(getSyncState().status).toBe('disabled');
+  });
+});
+
+describe('mergeRecords', () => {
+  it('falls back to remote values for fields the local side left empty', () => {
+    const merged = mergeRecords(
+      { id: 'a', company: 'Acme', title: 'CEO' } as Record<string, unknown>,
+      { id: 'a', company: null, title: 'Founder' } as Record<string, unknown>
+    );
+
+    expect(merged).toEqual({ id: 'a', company: 'Acme', title: 'Founder' });
+  });
+});
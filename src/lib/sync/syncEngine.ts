@@ -0,0 +1,556 @@
+// =============================================================================
+// SYNC ENGINE — Offline-first sync of CRM stores with remote storage
+// =============================================================================
+// Local stores remain the source of truth for the UI. The engine periodically:
+//   1. Pulls remote rows changed since the last cursor
+//   2. Applies remote changes to records that have not been edited locally
+//   3. Queues a conflict when both sides changed the same record
+//   4. Pushes local edits using optimistic concurrency on sync_version
+//
+// Versioning:
+// - Entities with native version tracking (Note.sync_version) use it directly.
+// - Other entities are fingerprinted; a changed fingerprint since the last
+//   sync counts as a local edit and is pushed as `lastSyncedVersion + 1`.
+//
+// A per-record ledger (last synced version + fingerprint), pull cursors and
+// the conflict queue are persisted, so sync resumes cleanly after a reload.
+// A record the ledger knows about that is missing locally is pushed as a
+// delete, so adapters must only list stores that are themselves persisted.
+// =============================================================================
+
+import {
+  loadPersisted,
+  savePersisted,
+  type PersistedSchema,
+} from '../persistence/versionedStorage';
+import type {
+  SyncTable,
+  SyncRecord,
+  SyncTransport,
+  SyncPushRequest,
+} from './syncTransport';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Bridges a local store to a remote table.
+ * `apply`/`remove` must write to the store WITHOUT bumping versions, since
+ * they replay changes that already exist remotely.
+ *
+ * Record callbacks are declared as methods so an adapter for a concrete
+ * entity is usable where the engine holds the default `SyncAdapter`: the
+ * engine only ever hands an adapter records from its own table.
+ */
+export interface SyncAdapter<T extends { id: string } = { id: string }> {
+  table: SyncTable;
+  /** Human-readable label for the conflict UI */
+  label: string;
+  list(): T[];
+  apply(record: T): void;
+  remove(id: string): void;
+  /** Native version, for entities that track one (Note.sync_version) */
+  getVersion?(record: T): number;
+  /** Write back the synced version/timestamp for natively versioned entities */
+  markSynced?(record: T, version: number, syncedAt: string): void;
+  /** Short display title for a record in the conflict UI */
+  describe?(record: T): string;
+  /**
+   * Records that exist only on this device (e.g. seeded demo data): never
+   * pushed, never pulled and never tombstoned when they disappear locally.
+   */
+  isLocalOnly?: (id: string) => boolean;
+}
+
+/** What the engine remembers about a record after it last synced */
+interface LedgerEntry {
+  version: number;
+  fingerprint: string;
+}
+
+export type ConflictResolution = 'keep_local' | 'keep_remote' | 'merge';
+
+export interface SyncConflict {
+  /** `${table}:${recordId}` */
+  id: string;
+  table: SyncTable;
+  recordId: string;
+  /** Local copy at detection time; null if deleted locally */
+  local: unknown | null;
+  remote: SyncRecord;
+  /** Version the local edit was based on */
+  baseVersion: number;
+  detectedAt: string;
+}
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error' | 'disabled';
+
+export interface SyncState {
+  status: SyncStatus;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  conflicts: SyncConflict[];
+}
+
+/** Summary of a single sync run */
+export interface SyncRunResult {
+  pulled: number;
+  pushed: number;
+  conflicts: number;
+}
+
+interface PersistedSyncState {
+  ledger: Partial<Record<SyncTable, Record<string, LedgerEntry>>>;
+  cursors: Partial<Record<SyncTable, string>>;
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+}
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+const SYNC_STATE_SCHEMA: PersistedSchema<PersistedSyncState> = {
+  key: 'framelord_sync_state',
+  version: 1,
+  defaults: () => ({ ledger: {}, cursors: {}, conflicts: [], lastSyncedAt: null }),
+};
+
+let persisted: PersistedSyncState = loadPersisted(SYNC_STATE_SCHEMA);
+let status: SyncStatus = 'disabled';
+let lastError: string | null = null;
+let transport: SyncTransport | null = null;
+let adapters: SyncAdapter[] = [];
+let inFlight: Promise<SyncRunResult> | null = null;
+
+const subscribers: Set<() => void> = new Set();
+
+const notify = (): void => {
+  subscribers.forEach(cb => cb());
+};
+
+const save = (): void => {
+  savePersisted(SYNC_STATE_SCHEMA, persisted);
+};
+
+const ledgerFor = (table: SyncTable): Record<string, LedgerEntry> => {
+  if (!persisted.ledger[table]) {
+    persisted.ledger[table] = {};
+  }
+  return persisted.ledger[table]!;
+};
+
+// =============================================================================
+// FINGERPRINTING & MERGE
+// =============================================================================
+
+const stableStringify = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'undefined';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  const obj = value as Record<string, unknown>;
+  return `{${Object.keys(obj)
+    .filter(k => obj[k] !== undefined)
+    .sort()
+    .map(k => `${JSON.stringify(k)}:${stableStringify(obj[k])}`)
+    .join(',')}}`;
+};
+
+/**
+ * Content fingerprint (djb2) of a record, ignoring key order and fields that
+ * only record sync bookkeeping.
+ */
+export const fingerprintRecord = (record: unknown): string => {
+  let toHash = record;
+  if (record && typeof record === 'object' && !Array.isArray(record)) {
+    const { last_synced_at: _ignored, ...rest } = record as Record<string, unknown>;
+    toHash = rest;
+  }
+  const str = stableStringify(toHash);
+  let hash = 5381;
+  for (let i = 0; i < str.length; i++) {
+    hash = ((hash << 5) + hash + str.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * Field-level merge used by the 'merge' resolution.
+ * Local values win for scalar fields the local side has set; list fields are
+ * unioned so neither side's additions (tags, mentions, topics) are lost.
+ */
+export const mergeRecords = <T extends object>(remote: T, local: T): T => {
+  const merged: Record<string, unknown> = { ...(remote as Record<string, unknown>) };
+  for (const [key, localValue] of Object.entries(local as Record<string, unknown>)) {
+    const remoteValue = merged[key];
+    if (Array.isArray(localValue) && Array.isArray(remoteValue)) {
+      const seen = new Set<string>();
+      merged[key] = [...remoteValue, ...localValue].filter(item => {
+        const k = stableStringify(item);
+        if (seen.has(k)) return false;
+        seen.add(k);
+        return true;
+      });
+    } else if (localValue !== undefined && localValue !== null) {
+      merged[key] = localValue;
+    }
+  }
+  return merged as T;
+};
+
+// =============================================================================
+// INTERNAL HELPERS
+// =============================================================================
+
+const conflictId = (table: SyncTable, recordId: string): string => `${table}:${recordId}`;
+
+const isLocallyChanged = (
+  adapter: SyncAdapter,
+  record: { id: string },
+  entry: LedgerEntry | undefined
+): boolean => {
+  if (!entry) return true;
+  if (adapter.getVersion) return adapter.getVersion(record) > entry.version;
+  return fingerprintRecord(record) !== entry.fingerprint;
+};
+
+/** Version to push for a local edit based on `baseVersion` */
+const nextVersion = (adapter: SyncAdapter, record: { id: string } | null, baseVersion: number): number => {
+  const native = record && adapter.getVersion ? adapter.getVersion(record) : 0;
+  return Math.max(native, baseVersion + 1);
+};
+
+const recordSynced = (adapter: SyncAdapter, row: SyncRecord, syncedAt: string): void => {
+  ledgerFor(adapter.table)[row.id] = {
+    version: row.sync_version,
+    fingerprint: row.deleted ? '' : fingerprintRecord(row.data),
+  };
+  if (!row.deleted && adapter.markSynced && row.data) {
+    adapter.markSynced(row.data as { id: string }, row.sync_version, syncedAt);
+  }
+};
+
+const applyRemote = (adapter: SyncAdapter, row: SyncRecord, syncedAt: string): void => {
+  if (row.deleted || row.data === null) {
+    adapter.remove(row.id);
+  } else {
+    adapter.apply(row.data as { id: string });
+  }
+  recordSynced(adapter, row, syncedAt);
+};
+
+const queueConflict = (
+  adapter: SyncAdapter,
+  local: unknown | null,
+  remote: SyncRecord,
+  baseVersion: number
+): void => {
+  const id = conflictId(adapter.table, remote.id);
+  persisted.conflicts = [
+    ...persisted.conflicts.filter(c => c.id !== id),
+    {
+      id,
+      table: adapter.table,
+      recordId: remote.id,
+      local,
+      remote,
+      baseVersion,
+      detectedAt: new Date().toISOString(),
+    },
+  ];
+};
+
+const isOnline = (): boolean => {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+};
+
+/** Sync one adapter's table. Returns counts for the run summary. */
+const syncTable = async (
+  adapter: SyncAdapter,
+  activeTransport: SyncTransport
+): Promise<SyncRunResult> => {
+  const table = adapter.table;
+  const ledger = ledgerFor(table);
+  const now = new Date().toISOString();
+  const pendingConflicts = new Set(
+    persisted.conflicts.filter(c => c.table === table).map(c => c.recordId)
+  );
+  const summary: SyncRunResult = { pulled: 0, pushed: 0, conflicts: 0 };
+
+  // --- PULL ---
+  const isLocalOnly = (id: string): boolean => adapter.isLocalOnly?.(id) ?? false;
+  const remoteRows = await activeTransport.pull(table, persisted.cursors[table] ?? null);
+  const localById = new Map(adapter.list().map(r => [r.id, r]));
+
+  for (const row of remoteRows) {
+    if (!persisted.cursors[table] || row.updated_at > persisted.cursors[table]!) {
+      persisted.cursors[table] = row.updated_at;
+    }
+    if (isLocalOnly(row.id)) continue;
+
+    const entry = ledger[row.id];
+    // Already seen (including echoes of our own pushes)
+    if (entry && row.sync_version <= entry.version) continue;
+    if (pendingConflicts.has(row.id)) continue;
+
+    const local = localById.get(row.id) ?? null;
+    const localDirty = local
+      ? isLocallyChanged(adapter, local, entry)
+      : !!entry; // known before but gone locally = local delete
+
+    if (!localDirty || (local && !row.deleted && fingerprintRecord(local) === fingerprintRecord(row.data))) {
+      applyRemote(adapter, row, now);
+      summary.pulled++;
+      continue;
+    }
+
+    queueConflict(adapter, local, row, entry?.version ?? 0);
+    pendingConflicts.add(row.id);
+    summary.conflicts++;
+  }
+
+  // --- PUSH ---
+  const requests: SyncPushRequest[] = [];
+  const currentLocal = adapter.list().filter(r => !isLocalOnly(r.id));
+  const currentIds = new Set(currentLocal.map(r => r.id));
+
+  for (const record of currentLocal) {
+    if (pendingConflicts.has(record.id)) continue;
+    const entry = ledger[record.id];
+    if (!isLocallyChanged(adapter, record, entry)) continue;
+
+    const baseVersion = entry?.version ?? 0;
+    requests.push({
+      baseVersion,
+      record: {
+        id: record.id,
+        data: record,
+        sync_version: nextVersion(adapter, record, baseVersion),
+        deleted: false,
+      },
+    });
+  }
+
+  // Records the ledger knows about that no longer exist locally
+  for (const [id, entry] of Object.entries(ledger)) {
+    if (isLocalOnly(id)) {
+      // Synced before it was marked local-only; forget it rather than delete it remotely
+      delete ledger[id];
+      continue;
+    }
+    if (currentIds.has(id) || pendingConflicts.has(id) || entry.fingerprint === '') continue;
+    requests.push({
+      baseVersion: entry.version,
+      record: { id, data: null, sync_version: entry.version + 1, deleted: true },
+    });
+  }
+
+  if (requests.length > 0) {
+    const result = await activeTransport.push(table, requests);
+
+    for (const row of result.accepted) {
+      recordSynced(adapter, row, now);
+      summary.pushed++;
+    }
+
+    for (const row of result.rejected) {
+      const request = requests.find(r => r.record.id === row.id);
+      queueConflict(adapter, request?.record.data ?? null, row, request?.baseVersion ?? 0);
+      summary.conflicts++;
+    }
+  }
+
+  return summary;
+};
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Configure the engine with a transport and the stores to sync.
+ * Passing a null transport disables sync (e.g. Supabase not configured).
+ */
+export const configureSync = (config: {
+  transport: SyncTransport | null;
+  adapters: SyncAdapter[];
+}): void => {
+  transport = config.transport;
+  adapters = config.adapters;
+  status = transport ? 'idle' : 'disabled';
+  lastError = null;
+  notify();
+};
+
+/** Current sync status, last run time and pending conflicts */
+export const getSyncState = (): SyncState => ({
+  status,
+  lastSyncedAt: persisted.lastSyncedAt,
+  lastError,
+  conflicts: [...persisted.conflicts],
+});
+
+/** Subscribe to sync state changes. Returns unsubscribe function. */
+export const subscribeSyncState = (callback: () => void): (() => void) => {
+  subscribers.add(callback);
+  return () => subscribers.delete(callback);
+};
+
+/** Display label for a conflict's table (falls back to the table name) */
+export const getSyncTableLabel = (table: SyncTable): string => {
+  return adapters.find(a => a.table === table)?.label ?? table;
+};
+
+/** Display title for a conflicting record */
+export const describeConflict = (conflict: SyncConflict): string => {
+  const adapter = adapters.find(a => a.table === conflict.table);
+  const record = (conflict.local ?? conflict.remote.data) as { id: string } | null;
+  if (adapter?.describe && record) return adapter.describe(record);
+  return conflict.recordId;
+};
+
+/**
+ * Run one pull/push cycle across all adapters.
+ * Concurrent calls share the in-flight run. Never throws: failures are
+ * recorded on the sync state and local data is left untouched.
+ */
+export const runSync = (): Promise<SyncRunResult> => {
+  if (inFlight) return inFlight;
+
+  const empty: SyncRunResult = { pulled: 0, pushed: 0, conflicts: 0 };
+  if (!transport) return Promise.resolve(empty);
+
+  if (!isOnline()) {
+    status = 'offline';
+    notify();
+    return Promise.resolve(empty);
+  }
+
+  const activeTransport = transport;
+  status = 'syncing';
+  notify();
+
+  inFlight = (async () => {
+    const total: SyncRunResult = { ...empty };
+    try {
+      for (const adapter of adapters) {
+        const result = await syncTable(adapter, activeTransport);
+        total.pulled += result.pulled;
+        total.pushed += result.pushed;
+        total.conflicts += result.conflicts;
+      }
+      persisted.lastSyncedAt = new Date().toISOString();
+      status = 'idle';
+      lastError = null;
+    } catch (err) {
+      console.warn('[SyncEngine] Sync failed:', err);
+      status = 'error';
+      lastError = err instanceof Error ? err.message : String(err);
+    } finally {
+      save();
+      inFlight = null;
+      notify();
+    }
+    return total;
+  })();
+
+  return inFlight;
+};
+
+/**
+ * Resolve a queued conflict.
+ * - keep_remote: overwrite the local record with the remote one
+ * - keep_local:  overwrite the remote record with the local one
+ * - merge:       field-level merge (see mergeRecords), applied on both sides
+ */
+export const resolveSyncConflict = async (
+  id: string,
+  resolution: ConflictResolution
+): Promise<boolean> => {
+  const conflict = persisted.conflicts.find(c => c.id === id);
+  const adapter = conflict && adapters.find(a => a.table === conflict.table);
+  if (!conflict || !adapter) return false;
+
+  const now = new Date().toISOString();
+  const { remote } = conflict;
+
+  try {
+    if (resolution === 'keep_remote') {
+      applyRemote(adapter, remote, now);
+    } else {
+      if (!transport) return false;
+
+      // The record may have been edited since the conflict was queued; push what is there now
+      const current = adapter.list().find(r => r.id === conflict.recordId) ?? null;
+      let winner = current;
+      if (resolution === 'merge' && winner && remote.data && !remote.deleted) {
+        winner = mergeRecords(remote.data as { id: string }, winner);
+        adapter.apply(winner);
+      }
+
+      const result = await transport.push(adapter.table, [{
+        baseVersion: remote.sync_version,
+        record: {
+          id: conflict.recordId,
+          data: winner,
+          sync_version: nextVersion(adapter, winner, remote.sync_version),
+          deleted: winner === null,
+        },
+      }]);
+
+      if (result.rejected.length > 0) {
+        // Remote moved again while the user was deciding; re-queue with fresh data
+        queueConflict(adapter, current, result.rejected[0], conflict.baseVersion);
+        save();
+        notify();
+        return false;
+      }
+
+      result.accepted.forEach(row => recordSynced(adapter, row, now));
+    }
+  } catch (err) {
+    console.warn('[SyncEngine] Failed to resolve conflict:', err);
+    lastError = err instanceof Error ? err.message : String(err);
+    notify();
+    return false;
+  }
+
+  persisted.conflicts = persisted.conflicts.filter(c => c.id !== id);
+  save();
+  notify();
+  return true;
+};
+
+/**
+ * Start periodic background sync. Also syncs when the browser comes back
+ * online. Returns a stop function.
+ */
+export const startAutoSync = (intervalMs = 60_000): (() => void) => {
+  const tick = () => {
+    void runSync();
+  };
+  const timer = setInterval(tick, intervalMs);
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', tick);
+  }
+  tick();
+
+  return () => {
+    clearInterval(timer);
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', tick);
+    }
+  };
+};
+
+/** Forget all sync bookkeeping (next run re-pushes everything). */
+export const resetSyncState = (): void => {
+  persisted = SYNC_STATE_SCHEMA.defaults();
+  lastError = null;
+  save();
+  notify();
+};
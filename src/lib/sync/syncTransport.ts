@@ -0,0 +1,226 @@
+// =============================================================================
+// SYNC TRANSPORT — Remote storage adapters for the CRM sync engine
+// =============================================================================
+// The sync engine talks to remote storage only through SyncTransport, so the
+// same engine runs against:
+// - Supabase (production, or a local `supabase start` stack via its URL)
+// - An in-memory stand-in with identical versioning semantics (tests, offline
+//   demos)
+//
+// Tables are defined in supabase/migrations/20241220_crm_sync_tables.sql.
+// =============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Remote tables the sync engine knows about */
+export type SyncTable =
+  | 'crm_contacts'
+  | 'crm_notes'
+  | 'crm_tasks'
+  | 'crm_interactions'
+  | 'crm_pipeline_items';
+
+/** A record as stored remotely */
+export interface SyncRecord {
+  id: string;
+  /** Snapshot of the client-side entity; null for tombstones */
+  data: unknown | null;
+  sync_version: number;
+  /** Server-assigned; used as the pull cursor */
+  updated_at: string;
+  deleted: boolean;
+}
+
+/** A record the client wants to write, with the version it was based on */
+export interface SyncPushRequest {
+  record: Omit<SyncRecord, 'updated_at'>;
+  /** Remote version the local edit started from (0 = never synced) */
+  baseVersion: number;
+}
+
+/**
+ * Result of a push.
+ * Rejected entries carry the current remote row so the engine can queue a
+ * conflict without another round-trip.
+ */
+export interface SyncPushResult {
+  accepted: SyncRecord[];
+  rejected: SyncRecord[];
+}
+
+export interface SyncTransport {
+  /** Fetch rows written at or after `since` (null = everything) */
+  pull: (table: SyncTable, since: string | null) => Promise<SyncRecord[]>;
+  /** Write rows using optimistic concurrency on sync_version */
+  push: (table: SyncTable, requests: SyncPushRequest[]) => Promise<SyncPushResult>;
+}
+
+// =============================================================================
+// SUPABASE TRANSPORT
+// =============================================================================
+
+const SYNC_COLUMNS = 'id, data, sync_version, updated_at, deleted';
+
+/** Postgres unique_violation */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Create a transport backed by a Supabase client.
+ * Pass the app singleton in production, or a client pointed at a local
+ * Supabase/Postgres stack for integration tests.
+ */
+export const createSupabaseSyncTransport = (client: SupabaseClient): SyncTransport => {
+  const fetchRow = async (table: SyncTable, id: string): Promise<SyncRecord | null> => {
+    const { data, error } = await client
+      .from(table)
+      .select(SYNC_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw new Error(`[SyncTransport] Failed to read ${table}/${id}: ${error.message}`);
+    return (data as SyncRecord | null) ?? null;
+  };
+
+  return {
+    pull: async (table, since) => {
+      let query = client.from(table).select(SYNC_COLUMNS).order('updated_at', { ascending: true });
+      // gte (not gt) so rows sharing the cursor timestamp are never skipped;
+      // the engine ignores rows it has already seen via its version ledger.
+      if (since) query = query.gte('updated_at', since);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`[SyncTransport] Failed to pull ${table}: ${error.message}`);
+      return (data as SyncRecord[]) ?? [];
+    },
+
+    push: async (table, requests) => {
+      const result: SyncPushResult = { accepted: [], rejected: [] };
+
+      for (const { record, baseVersion } of requests) {
+        if (baseVersion === 0) {
+          const { data, error } = await client
+            .from(table)
+            .insert(record)
+            .select(SYNC_COLUMNS)
+            .single();
+
+          if (!error && data) {
+            result.accepted.push(data as SyncRecord);
+            continue;
+          }
+          if (error && error.code !== UNIQUE_VIOLATION) {
+            throw new Error(`[SyncTransport] Failed to insert ${table}/${record.id}: ${error.message}`);
+          }
+        } else {
+          const { data, error } = await client
+            .from(table)
+            .update({ data: record.data, sync_version: record.sync_version, deleted: record.deleted })
+            .eq('id', record.id)
+            .eq('sync_version', baseVersion)
+            .select(SYNC_COLUMNS);
+
+          if (error) {
+            throw new Error(`[SyncTransport] Failed to update ${table}/${record.id}: ${error.message}`);
+          }
+          if (data && data.length > 0) {
+            result.accepted.push(data[0] as SyncRecord);
+            continue;
+          }
+        }
+
+        // Version mismatch (or the row vanished): report what is there now
+        const current = await fetchRow(table, record.id);
+        if (current) {
+          result.rejected.push(current);
+        } else {
+          const { data, error } = await client
+            .from(table)
+            .insert(record)
+            .select(SYNC_COLUMNS)
+            .single();
+          if (error) {
+            throw new Error(`[SyncTransport] Failed to insert ${table}/${record.id}: ${error.message}`);
+          }
+          result.accepted.push(data as SyncRecord);
+        }
+      }
+
+      return result;
+    },
+  };
+};
+
+// =============================================================================
+// IN-MEMORY TRANSPORT
+// =============================================================================
+
+/**
+ * In-memory stand-in for the Supabase tables.
+ * Enforces the same optimistic-concurrency rules as the Supabase transport.
+ * `rows` is exposed so tests can simulate writes from another device.
+ */
+export interface InMemorySyncTransport extends SyncTransport {
+  rows: Map<SyncTable, Map<string, SyncRecord>>;
+  /** Write a row as if another client had pushed it */
+  writeRemote: (table: SyncTable, record: Omit<SyncRecord, 'updated_at'>) => SyncRecord;
+}
+
+export const createInMemorySyncTransport = (): InMemorySyncTransport => {
+  const rows = new Map<SyncTable, Map<string, SyncRecord>>();
+  let lastTimestamp = 0;
+
+  // Strictly increasing timestamps, like clock_timestamp() on the server
+  const nextTimestamp = (): string => {
+    lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+    return new Date(lastTimestamp).toISOString();
+  };
+
+  const tableRows = (table: SyncTable): Map<string, SyncRecord> => {
+    let map = rows.get(table);
+    if (!map) {
+      map = new Map();
+      rows.set(table, map);
+    }
+    return map;
+  };
+
+  const writeRemote = (table: SyncTable, record: Omit<SyncRecord, 'updated_at'>): SyncRecord => {
+    const stored: SyncRecord = { ...record, updated_at: nextTimestamp() };
+    tableRows(table).set(record.id, stored);
+    return { ...stored };
+  };
+
+  return {
+    rows,
+    writeRemote,
+
+    pull: async (table, since) => {
+      return [...tableRows(table).values()]
+        .filter(r => !since || r.updated_at >= since)
+        .sort((a, b) => a.updated_at.localeCompare(b.updated_at))
+        .map(r => ({ ...r }));
+    },
+
+    push: async (table, requests) => {
+      const result: SyncPushResult = { accepted: [], rejected: [] };
+
+      for (const { record, baseVersion } of requests) {
+        const current = tableRows(table).get(record.id);
+
+        // A missing row is accepted regardless of base, matching the
+        // Supabase transport's insert fallback
+        if (current && current.sync_version !== baseVersion) {
+          result.rejected.push({ ...current });
+          continue;
+        }
+
+        result.accepted.push(writeRemote(table, record));
+      }
+
+      return result;
+    },
+  };
+};
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { renderTemplate, getTemplatePrompts, getTemplateDataKeys, addToDate } from './templateEngine';
+
+const now = new Date('2026-01-30T12:00:00Z');
+
+describe('renderTemplate', () => {
+  it('renders dates with math and formatters', () => {
+    expect(renderTemplate('{{date}} {{date+7d}} {{date-1w}}', { now })).toBe('2026-01-30 2026-02-06 2026-01-23');
+    expect(renderTemplate('{{date+1y}}', { now })).toBe('2027-01-30');
+    expect(renderTemplate('{{date | weekday}}', { now })).toBe('Friday');
+    expect(renderTemplate('{{date+3d | short}}', { now })).toBe('Feb 2');
+    expect(renderTemplate('{{due | long}}', { now, data: { due: '2026-03-01' } })).toBe('Sunday, March 1, 2026');
+  });
+
+  it('rolls month math over short months the way Date does', () => {
+    expect(addToDate(now, 1, 'm').toISOString().split('T')[0]).toBe('2026-03-02');
+  });
+
+  it('fills prompts from answers or defaults', () => {
+    const source = 'Goal: {{prompt:Goal=Close the deal}} / Notes: {{prompt:Notes}}';
+    expect(renderTemplate(source)).toBe('Goal: Close the deal / Notes: ');
+    expect(renderTemplate(source, { prompts: { Goal: 'Renewal', Notes: 'Bring pricing' } })).toBe(
+      'Goal: Renewal / Notes: Bring pricing'
+    );
+  });
+
+  it('evaluates conditionals', () => {
+    const source = '{{#if contact.company}}at {{contact.company}}{{else}}independent{{/if}}';
+    expect(renderTemplate(source, { data: { contact: { company: 'Acme' } } })).toBe('at Acme');
+    expect(renderTemplate(source, { data: { contact: null } })).toBe('independent');
+    expect(renderTemplate('{{#unless tasks}}none{{/unless}}', { data: { tasks: [] } })).toBe('none');
+  });
+
+  it('loops with item fields, this and counters', () => {
+    const data = { tasks: [{ title: 'Call' }, { title: 'Email' }], tags: ['a', 'b'] };
+    expect(renderTemplate('{{#each tasks}}{{@number}}. {{title}}\n{{/each}}', { data })).toBe('1. Call\n2. Email\n');
+    expect(renderTemplate('{{#each tags}}[{{this}}@{{@index}}]{{/each}}', { data })).toBe('[a@0][b@1]');
+    expect(renderTemplate('{{#each missing}}x{{else}}empty{{/each}}', { data })).toBe('empty');
+  });
+
+  it('renders empty for missing fields of known data', () => {
+    expect(renderTemplate('Hi {{contact.fullName}}!', { data: { contact: null } })).toBe('Hi !');
+  });
+
+  it('is lenient with unknown variables and malformed blocks', () => {
+    expect(renderTemplate('{{unknown}} {{ weird stuff }}')).toBe('{{unknown}} {{ weird stuff }}');
+    expect(renderTemplate('a{{/each}}b')).toBe('a{{/each}}b');
+    expect(renderTemplate('{{#if flag}}open', { data: { flag: true } })).toBe('open');
+  });
+});
+
+describe('template introspection', () => {
+  it('lists prompts once, in order, with defaults', () => {
+    expect(getTemplatePrompts('{{prompt:B=2}} {{prompt:A}} {{#if prompt:B}}x{{/if}}')).toEqual([
+      { label: 'B', defaultValue: '2' },
+      { label: 'A', defaultValue: '' },
+    ]);
+  });
+
+  it('lists top-level data keys', () => {
+    expect(getTemplateDataKeys('{{date}} {{#each contact.openTasks}}{{this.title}}{{/each}} {{deal.stage | iso}}')).toEqual([
+      'contact',
+      'deal',
+    ]);
+  });
+});
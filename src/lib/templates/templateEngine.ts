@@ -0,0 +1,256 @@
+// =============================================================================
+// TEMPLATE ENGINE — Variables, date math, prompts, conditionals and loops
+// =============================================================================
+// A small mustache-style language for note templates. Data comes from the
+// caller; the engine never reads stores.
+//
+//   {{date}}  {{date+7d}}  {{date-2w}}  {{date+1m}}   YYYY-MM-DD, relative to now
+//   {{date+1d | long}}  {{task.dueDate | short}}       formatters: iso, long, short, weekday
+//   {{time}}                                           HH:MM
+//   {{contact.fullName}}  {{contact.company}}          dotted paths into the data
+//   {{prompt:Meeting goal}}  {{prompt:Goal=Close}}     values the user is asked for
+//   {{#if contact.company}}…{{else}}…{{/if}}           also {{#unless …}}
+//   {{#each contact.openTasks}}- {{title}}{{/each}}    {{this}}, {{@index}}, {{@number}}
+//
+// Parsing is lenient: unknown variables are left in the output untouched,
+// unclosed blocks end at the end of the template and stray closing tags are
+// kept as text, so a half-written template still renders.
+// =============================================================================
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TemplateContext {
+  /** Reference time for {{date}} / {{time}} (defaults to now) */
+  now?: Date;
+  /** Answers to {{prompt:…}} tags, keyed by prompt label */
+  prompts?: Record<string, string>;
+  /** Data for dotted paths, e.g. { contact: { fullName: 'Ada' } } */
+  data?: Record<string, unknown>;
+}
+
+export interface TemplatePrompt {
+  label: string;
+  defaultValue: string;
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'var'; expr: string; raw: string }
+  | { kind: 'if'; expr: string; negate: boolean; then: TemplateNode[]; else: TemplateNode[] }
+  | { kind: 'each'; expr: string; body: TemplateNode[]; else: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { kind: 'if' | 'each' }>;
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+const TAG = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const PROMPT = /^prompt:\s*([^=]+?)\s*(?:=\s*([\s\S]*))?$/;
+
+/** Parse template source into a node tree */
+const parseTemplate = (source: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  // Each frame collects into `target`; blocks swap it to their else branch
+  const stack: { node: BlockNode | null; target: TemplateNode[] }[] = [{ node: null, target: root }];
+  const top = () => stack[stack.length - 1];
+  let last = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    const [raw, inner] = match;
+    if (match.index! > last) top().target.push({ kind: 'text', text: source.slice(last, match.index) });
+    last = match.index! + raw.length;
+
+    const block = inner.match(/^#(if|unless|each)\s+([\s\S]+)$/);
+    if (block) {
+      const [, keyword, expr] = block;
+      const node: BlockNode =
+        keyword === 'each'
+          ? { kind: 'each', expr: expr.trim(), body: [], else: [] }
+          : { kind: 'if', expr: expr.trim(), negate: keyword === 'unless', then: [], else: [] };
+      top().target.push(node);
+      stack.push({ node, target: node.kind === 'each' ? node.body : node.then });
+      continue;
+    }
+
+    if (inner === 'else' && top().node) {
+      top().target = top().node!.else;
+      continue;
+    }
+
+    const close = inner.match(/^\/(if|unless|each)$/);
+    if (close) {
+      const keyword = close[1] === 'unless' ? 'if' : close[1];
+      if (top().node?.kind === keyword) {
+        stack.pop();
+        continue;
+      }
+      top().target.push({ kind: 'text', text: raw });
+      continue;
+    }
+
+    top().target.push({ kind: 'var', expr: inner, raw });
+  }
+
+  if (last < source.length) top().target.push({ kind: 'text', text: source.slice(last) });
+  return root;
+};
+
+// =============================================================================
+// DATES
+// =============================================================================
+
+const DATE_EXPR = /^date(?:\s*([+-])\s*(\d+)\s*([dwmy]))?$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+Z?)?$/;
+
+/** Shift a date by N days/weeks/months/years (UTC, like the rest of the app's date keys) */
+export const addToDate = (date: Date, amount: number, unit: 'd' | 'w' | 'm' | 'y'): Date => {
+  const result = new Date(date.getTime());
+  if (unit === 'd') result.setUTCDate(result.getUTCDate() + amount);
+  else if (unit === 'w') result.setUTCDate(result.getUTCDate() + amount * 7);
+  else if (unit === 'm') result.setUTCMonth(result.getUTCMonth() + amount);
+  else result.setUTCFullYear(result.getUTCFullYear() + amount);
+  return result;
+};
+
+const formatDate = (date: Date, format: string): string => {
+  switch (format) {
+    case 'long':
+      return date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+    case 'short':
+      return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+    case 'weekday':
+      return date.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' });
+    default:
+      return date.toISOString().split('T')[0];
+  }
+};
+
+// =============================================================================
+// EVALUATION
+// =============================================================================
+
+/** Marks an expression the engine does not know, so it is output verbatim */
+const UNRESOLVED = Symbol('unresolved');
+
+interface Scope {
+  context: TemplateContext;
+  now: Date;
+  /** Innermost loop item first */
+  frames: { item: unknown; index: number }[];
+}
+
+const readPath = (value: unknown, path: string[]): unknown => {
+  let current = value;
+  for (const key of path) {
+    if (current === null || current === undefined || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+};
+
+const evaluate = (expr: string, scope: Scope): unknown => {
+  const date = expr.match(DATE_EXPR);
+  if (date) {
+    const [, sign, amount, unit] = date;
+    const shifted = sign ? addToDate(scope.now, Number(amount) * (sign === '-' ? -1 : 1), unit as 'd' | 'w' | 'm' | 'y') : scope.now;
+    return formatDate(shifted, 'iso');
+  }
+  if (expr === 'time') return scope.now.toTimeString().slice(0, 5);
+
+  const prompt = expr.match(PROMPT);
+  if (prompt) {
+    const answer = scope.context.prompts?.[prompt[1].trim()];
+    return answer !== undefined && answer !== '' ? answer : prompt[2] ?? '';
+  }
+
+  const frame = scope.frames[0];
+  if (frame) {
+    if (expr === 'this') return frame.item;
+    if (expr === '@index') return frame.index;
+    if (expr === '@number') return frame.index + 1;
+  }
+
+  const path = expr.replace(/^this\./, '').split('.');
+  if (!path.every(part => /^[\w-]+$/.test(part))) return UNRESOLVED;
+
+  // Loop items shadow root data, innermost first
+  for (const { item } of scope.frames) {
+    if (item !== null && typeof item === 'object' && path[0] in (item as object)) return readPath(item, path);
+  }
+  const data = scope.context.data || {};
+  if (path[0] in data) return readPath(data, path);
+  return UNRESOLVED;
+};
+
+const isTruthy = (value: unknown): boolean =>
+  Array.isArray(value) ? value.length > 0 : value !== UNRESOLVED && !!value;
+
+const stringify = (value: unknown, format: string | undefined): string => {
+  if (value === null || value === undefined) return '';
+  if (format && typeof value === 'string' && ISO_DATE.test(value)) return formatDate(new Date(value), format);
+  if (Array.isArray(value)) return value.map(v => stringify(v, format)).join(', ');
+  return String(value);
+};
+
+const renderNodes = (nodes: TemplateNode[], scope: Scope): string =>
+  nodes
+    .map(node => {
+      switch (node.kind) {
+        case 'text':
+          return node.text;
+        case 'var': {
+          const [expr, format] = node.expr.split('|').map(part => part.trim());
+          // Prompt defaults may contain "|", so only split off known formatters
+          const known = format && ['iso', 'long', 'short', 'weekday'].includes(format);
+          const value = evaluate(known ? expr : node.expr, scope);
+          return value === UNRESOLVED ? node.raw : stringify(value, known ? format : undefined);
+        }
+        case 'if': {
+          const truthy = isTruthy(evaluate(node.expr, scope)) !== node.negate;
+          return renderNodes(truthy ? node.then : node.else, scope);
+        }
+        case 'each': {
+          const list = evaluate(node.expr, scope);
+          if (!Array.isArray(list) || list.length === 0) return renderNodes(node.else, scope);
+          return list
+            .map((item, index) => renderNodes(node.body, { ...scope, frames: [{ item, index }, ...scope.frames] }))
+            .join('');
+        }
+      }
+    })
+    .join('');
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/** Render a template with the given context */
+export const renderTemplate = (source: string, context: TemplateContext = {}): string =>
+  renderNodes(parseTemplate(source), { context, now: context.now || new Date(), frames: [] });
+
+/** Prompts a template asks for, in order of first appearance (deduplicated by label) */
+export const getTemplatePrompts = (source: string): TemplatePrompt[] => {
+  const prompts: TemplatePrompt[] = [];
+  for (const [, inner] of source.matchAll(TAG)) {
+    const expr = inner.replace(/^#(if|unless|each)\s+/, '');
+    const match = expr.match(PROMPT);
+    if (!match) continue;
+    const label = match[1].trim();
+    if (!prompts.some(p => p.label === label)) prompts.push({ label, defaultValue: match[2]?.trim() ?? '' });
+  }
+  return prompts;
+};
+
+/** Top-level data keys a template reads, e.g. ['contact'] for {{contact.fullName}} */
+export const getTemplateDataKeys = (source: string): string[] => {
+  const keys = new Set<string>();
+  for (const [, inner] of source.matchAll(TAG)) {
+    const expr = inner.replace(/^#(if|unless|each)\s+/, '').split('|')[0].trim();
+    const head = expr.match(/^([A-Za-z_][\w-]*)\./);
+    if (head && head[1] !== 'this') keys.add(head[1]);
+  }
+  return Array.from(keys);
+};
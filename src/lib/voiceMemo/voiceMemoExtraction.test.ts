@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseVoiceMemoResponse,
+  fallbackVoiceMemo,
+  resolveContactRef,
+  buildVoiceMemoMessages,
+} from './voiceMemoExtraction';
+
+const contacts = [
+  { id: 'c-ada', fullName: 'Ada Lovelace' },
+  { id: 'c-alan', fullName: 'Alan Turing' },
+  { id: 'c-alan2', fullName: 'Alan Kay' },
+];
+
+const transcript = 'Just got off a call with Ada Lovelace. Need to send her the proposal by Friday.';
+
+describe('voice memo extraction', () => {
+  it('resolves contacts by id, full name, or unique first name', () => {
+    expect(resolveContactRef(contacts, 'c-alan', null)?.fullName).toBe('Alan Turing');
+    expect(resolveContactRef(contacts, 'made-up', 'ada lovelace')?.id).toBe('c-ada');
+    expect(resolveContactRef(contacts, null, 'Ada')?.id).toBe('c-ada');
+    expect(resolveContactRef(contacts, null, 'Alan')).toBeNull();
+    expect(resolveContactRef(contacts, null, 'Grace')).toBeNull();
+  });
+
+  it('parses a model response and re-resolves every contact reference', () => {
+    const raw = '```json\n' + JSON.stringify({
+      title: 'Call with Ada',
+      body: 'Call with Ada Lovelace about the proposal.',
+      tasks: [
+        { title: 'Send proposal', dueDate: '2026-05-08', contactId: 'hallucinated', contactName: 'Ada' },
+        { title: 'Intro Grace', dueDate: 'Friday', contactId: null, contactName: 'Grace Hopper' },
+        { title: '' },
+      ],
+      mentions: [{ contactId: null, name: 'Grace Hopper' }],
+      interaction: { type: 'phone', contactId: 'c-ada', summary: 'Discussed proposal', occurredOn: '2026-05-04' },
+    }) + '\n```';
+
+    const memo = parseVoiceMemoResponse(raw, contacts, transcript);
+
+    expect(memo.source).toBe('llm');
+    expect(memo.tasks).toEqual([
+      { title: 'Send proposal', dueDate: '2026-05-08', contactId: 'c-ada', contactName: 'Ada Lovelace' },
+      { title: 'Intro Grace', dueDate: null, contactId: null, contactName: 'Grace Hopper' },
+    ]);
+    // Model mentions plus names found in the text
+    expect(memo.mentions).toEqual([
+      { contactId: null, name: 'Grace Hopper' },
+      { contactId: 'c-ada', name: 'Ada Lovelace' },
+    ]);
+    expect(memo.interaction).toEqual({
+      contactId: 'c-ada',
+      contactName: 'Ada Lovelace',
+      type: 'other',
+      summary: 'Discussed proposal',
+      occurredOn: '2026-05-04',
+    });
+  });
+
+  it('rejects responses that are not a JSON object', () => {
+    expect(() => parseVoiceMemoResponse('[1, 2]', contacts, transcript)).toThrow();
+  });
+
+  it('falls back to the transcript with mentions found by name', () => {
+    const memo = fallbackVoiceMemo(transcript, contacts);
+    expect(memo).toMatchObject({
+      title: 'Just got off a call with Ada Lovelace.',
+      body: transcript,
+      tasks: [],
+      interaction: null,
+      source: 'fallback',
+    });
+    expect(memo.mentions).toEqual([{ contactId: 'c-ada', name: 'Ada Lovelace' }]);
+  });
+
+  it('gives the model today and the contact roster', () => {
+    const [system, user] = buildVoiceMemoMessages(transcript, contacts, new Date('2026-05-04T09:00:00Z'));
+    expect(system.content).toContain('Today is 2026-05-04 (Monday)');
+    expect(system.content).toContain('c-ada: Ada Lovelace');
+    expect(user).toEqual({ role: 'user', content: transcript });
+  });
+});
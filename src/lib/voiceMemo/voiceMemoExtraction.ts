@@ -0,0 +1,268 @@
+// =============================================================================
+// VOICE MEMO EXTRACTION — Split a memo transcript into structured items
+// =============================================================================
+// Turns a transcribed voice memo into:
+//   - a titled note body
+//   - tasks, each with an optional due date and the contact it concerns
+//   - contacts mentioned in the memo
+//   - an optional Interaction (the call/meeting the memo is about)
+//
+// The LLM only sees contact names and IDs. Every contact reference it returns
+// is re-resolved against the roster, so an invented or misspelled ID can never
+// reach the stores; unknown names are kept as names for the user to confirm.
+//
+// When the LLM call fails the memo still becomes a note: the fallback keeps
+// the transcript as the body and finds mentions by name.
+// =============================================================================
+
+import { callOpenAIChat, type LlmMessage } from '../llm/openaiClient';
+import { extractJsonFromResponse } from '../psychometricInferenceUtils';
+import type { InteractionType } from '../../types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface VoiceMemoContactRef {
+  id: string;
+  fullName: string;
+}
+
+export interface ExtractedVoiceMemoTask {
+  title: string;
+  /** YYYY-MM-DD */
+  dueDate: string | null;
+  contactId: string | null;
+  /** Name as spoken, kept when it matched no contact */
+  contactName: string | null;
+}
+
+export interface ExtractedVoiceMemoMention {
+  contactId: string | null;
+  name: string;
+}
+
+export interface ExtractedVoiceMemoInteraction {
+  contactId: string | null;
+  contactName: string | null;
+  type: InteractionType;
+  summary: string;
+  /** YYYY-MM-DD the interaction happened, if the memo says */
+  occurredOn: string | null;
+}
+
+export interface ExtractedVoiceMemo {
+  title: string;
+  body: string;
+  tasks: ExtractedVoiceMemoTask[];
+  mentions: ExtractedVoiceMemoMention[];
+  interaction: ExtractedVoiceMemoInteraction | null;
+  /** 'llm' when the model produced the split, 'fallback' otherwise */
+  source: 'llm' | 'fallback';
+}
+
+const INTERACTION_TYPES: InteractionType[] = ['call', 'meeting', 'message', 'email', 'dm', 'other'];
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_TITLE_LENGTH = 80;
+
+// =============================================================================
+// CONTACT RESOLUTION
+// =============================================================================
+
+/**
+ * Resolve a contact reference from the model: a roster ID wins, then an exact
+ * full-name match, then a first name shared by exactly one contact.
+ */
+export const resolveContactRef = (
+  contacts: VoiceMemoContactRef[],
+  id: unknown,
+  name: unknown
+): VoiceMemoContactRef | null => {
+  if (typeof id === 'string') {
+    const byId = contacts.find(c => c.id === id);
+    if (byId) return byId;
+  }
+  if (typeof name !== 'string' || !name.trim()) return null;
+
+  const lower = name.trim().toLowerCase();
+  const exact = contacts.find(c => c.fullName.toLowerCase() === lower);
+  if (exact) return exact;
+
+  const byFirstName = contacts.filter(c => c.fullName.toLowerCase().split(/\s+/)[0] === lower);
+  return byFirstName.length === 1 ? byFirstName[0] : null;
+};
+
+/** Contacts whose full name appears in the text (longest names first, no overlaps) */
+const findNamedContacts = (text: string, contacts: VoiceMemoContactRef[]): VoiceMemoContactRef[] => {
+  const lower = text.toLowerCase();
+  const taken: [number, number][] = [];
+  const found: VoiceMemoContactRef[] = [];
+
+  for (const contact of [...contacts].sort((a, b) => b.fullName.length - a.fullName.length)) {
+    const name = contact.fullName.trim().toLowerCase();
+    if (!name) continue;
+    const pattern = new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`);
+    const match = pattern.exec(lower);
+    if (!match) continue;
+    const span: [number, number] = [match.index, match.index + name.length];
+    if (taken.some(([start, end]) => span[0] < end && span[1] > start)) continue;
+    taken.push(span);
+    found.push(contact);
+  }
+  return found;
+};
+
+// =============================================================================
+// PROMPT
+// =============================================================================
+
+/** Build the chat messages for extracting a memo */
+export const buildVoiceMemoMessages = (
+  transcript: string,
+  contacts: VoiceMemoContactRef[],
+  now: Date
+): LlmMessage[] => [
+  {
+    role: 'system',
+    content: `You turn a dictated voice memo from a CRM user into structured data.
+
+Today is ${now.toISOString().split('T')[0]} (${now.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' })}).
+
+Known contacts (id: name):
+${contacts.map(c => `${c.id}: ${c.fullName}`).join('\n') || '(none)'}
+
+Output ONLY a JSON object with EXACTLY this structure:
+{
+  "title": "short note title",
+  "body": "the memo rewritten as clean note text, paragraphs separated by blank lines",
+  "tasks": [{ "title": "imperative task", "dueDate": "YYYY-MM-DD" | null, "contactId": "id" | null, "contactName": "name as spoken" | null }],
+  "mentions": [{ "contactId": "id" | null, "name": "name as spoken" }],
+  "interaction": { "type": "call" | "meeting" | "message" | "email" | "dm" | "other", "contactId": "id" | null, "contactName": "name" | null, "summary": "one or two sentences", "occurredOn": "YYYY-MM-DD" | null } | null
+}
+
+Rules:
+1. Only create tasks for things the user says they or someone must do.
+2. Convert relative dates ("Friday", "next week", "in 3 days") to YYYY-MM-DD based on today.
+3. Use a contactId only from the known contacts list. For people not on the list, set contactId to null and give the name.
+4. Set "interaction" only if the memo describes a conversation, call, meeting or message with a person; otherwise null.
+5. Do not invent facts that are not in the memo.`,
+  },
+  { role: 'user', content: transcript },
+];
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+const asDate = (value: unknown): string | null => (typeof value === 'string' && DATE.test(value.trim()) ? value.trim() : null);
+
+/** Title from the first sentence of the text */
+const titleFrom = (text: string): string => {
+  const first = text.split(/(?<=[.!?])\s|\n/)[0]?.trim() || 'Voice memo';
+  return first.length > MAX_TITLE_LENGTH ? `${first.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : first;
+};
+
+/**
+ * Validate a model response and resolve its contact references.
+ * @throws Error if the response is not a JSON object
+ */
+export const parseVoiceMemoResponse = (
+  rawText: string,
+  contacts: VoiceMemoContactRef[],
+  transcript: string
+): ExtractedVoiceMemo => {
+  const parsed = extractJsonFromResponse(rawText);
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Response is not an object');
+  }
+  const obj = parsed as Record<string, unknown>;
+
+  const body = asString(obj.body) || transcript.trim();
+
+  const tasks: ExtractedVoiceMemoTask[] = (Array.isArray(obj.tasks) ? obj.tasks : [])
+    .filter((t): t is Record<string, unknown> => typeof t === 'object' && t !== null && !!asString((t as Record<string, unknown>).title))
+    .map(t => {
+      const contact = resolveContactRef(contacts, t.contactId, t.contactName);
+      return {
+        title: asString(t.title),
+        dueDate: asDate(t.dueDate),
+        contactId: contact?.id ?? null,
+        contactName: contact ? contact.fullName : asString(t.contactName) || null,
+      };
+    });
+
+  // Mentions: the model's list plus anything named in the text, one entry per contact/name
+  const mentions: ExtractedVoiceMemoMention[] = [];
+  const addMention = (contactId: string | null, name: string) => {
+    const key = name.toLowerCase();
+    if (contactId ? mentions.some(m => m.contactId === contactId) : mentions.some(m => !m.contactId && m.name.toLowerCase() === key)) return;
+    mentions.push({ contactId, name });
+  };
+  for (const m of Array.isArray(obj.mentions) ? obj.mentions : []) {
+    if (typeof m !== 'object' || m === null) continue;
+    const record = m as Record<string, unknown>;
+    const contact = resolveContactRef(contacts, record.contactId, record.name);
+    const name = contact?.fullName || asString(record.name);
+    if (name) addMention(contact?.id ?? null, name);
+  }
+  for (const contact of findNamedContacts(`${transcript}\n${body}`, contacts)) addMention(contact.id, contact.fullName);
+
+  let interaction: ExtractedVoiceMemoInteraction | null = null;
+  if (typeof obj.interaction === 'object' && obj.interaction !== null) {
+    const record = obj.interaction as Record<string, unknown>;
+    const contact = resolveContactRef(contacts, record.contactId, record.contactName);
+    const type = asString(record.type) as InteractionType;
+    interaction = {
+      contactId: contact?.id ?? null,
+      contactName: contact ? contact.fullName : asString(record.contactName) || null,
+      type: INTERACTION_TYPES.includes(type) ? type : 'other',
+      summary: asString(record.summary) || titleFrom(body),
+      occurredOn: asDate(record.occurredOn),
+    };
+  }
+
+  return {
+    title: asString(obj.title).slice(0, MAX_TITLE_LENGTH) || titleFrom(body),
+    body,
+    tasks,
+    mentions,
+    interaction,
+    source: 'llm',
+  };
+};
+
+/** Extraction without the LLM: the transcript as the note, mentions by name */
+export const fallbackVoiceMemo = (transcript: string, contacts: VoiceMemoContactRef[]): ExtractedVoiceMemo => ({
+  title: titleFrom(transcript),
+  body: transcript.trim(),
+  tasks: [],
+  mentions: findNamedContacts(transcript, contacts).map(c => ({ contactId: c.id, name: c.fullName })),
+  interaction: null,
+  source: 'fallback',
+});
+
+// =============================================================================
+// MAIN FUNCTION
+// =============================================================================
+
+/**
+ * Split a memo transcript into a note, tasks, mentions and an interaction.
+ * Never throws: falls back to fallbackVoiceMemo when the LLM is unavailable
+ * or returns something unusable.
+ */
+export async function extractVoiceMemo(
+  transcript: string,
+  contacts: VoiceMemoContactRef[],
+  now: Date = new Date()
+): Promise<ExtractedVoiceMemo> {
+  if (!transcript.trim()) return fallbackVoiceMemo(transcript, contacts);
+
+  try {
+    const response = await callOpenAIChat(buildVoiceMemoMessages(transcript, contacts, now));
+    return parseVoiceMemoResponse(response.rawText ?? '', contacts, transcript);
+  } catch (err) {
+    console.warn('[VoiceMemo] Extraction failed, keeping transcript as note:', err);
+    return fallbackVoiceMemo(transcript, contacts);
+  }
+}
@@ -0,0 +1,65 @@
+// =============================================================================
+// WEB CLIP EXTRACTOR TESTS
+// =============================================================================
+// Runs the extractor against saved pages in __fixtures__: a blog article with
+// JSON-LD, an X post and a logged-out LinkedIn post.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { extractWebClip, contentHtmlToText } from './webClipExtractor';
+
+const fixture = (name: string): string =>
+  readFileSync(join(__dirname, '__fixtures__', `${name}.html`), 'utf8');
+
+describe('extractWebClip', () => {
+  it('extracts an article with metadata, readable content and images', () => {
+    const clip = extractWebClip(fixture('article'), 'https://blog.example.com/posts/ada?utm=1');
+
+    expect(clip.sourceType).toBe('article');
+    expect(clip.title).toBe('How Ada Lovelace Negotiates');
+    expect(clip.author).toBe('Charles Babbage');
+    expect(clip.siteName).toBe('Example Business Review');
+    expect(clip.publishedAt).toBe('2026-03-14T08:30:00.000Z');
+    expect(clip.canonicalUrl).toBe('https://review.example.com/2026/03/ada-lovelace-negotiates');
+
+    // Relative image URLs are resolved, og:image leads, tracking pixels are dropped
+    expect(clip.images).toEqual([
+      'https://blog.example.com/images/ada-lead.jpg',
+      'https://blog.example.com/images/ada-desk.jpg',
+    ]);
+
+    expect(clip.contentHtml).toContain('<h2>Hold the frame</h2>');
+    expect(clip.contentHtml).toContain('<strong>never answer a demand with a concession</strong>');
+    expect(clip.contentHtml).toContain('<a href="https://blog.example.com/glossary/reframing">reframes</a>');
+    expect(clip.contentHtml).not.toMatch(/<(nav|aside|footer|script|div)\b/);
+    expect(clip.text).toContain('The person who needs the deal least sets the terms.');
+  });
+
+  it('uses the post text from meta tags for tweets', () => {
+    const clip = extractWebClip(fixture('tweet'), 'https://x.com/gracehopper/status/1790000000000000001');
+
+    expect(clip.sourceType).toBe('tweet');
+    expect(clip.author).toBe('@gracehopper');
+    expect(clip.contentHtml).toBe(
+      '<p>Ships are safe in harbor, but that is not what ships are for. Shipped the new compiler today &amp; the team held the line on scope.</p>'
+    );
+    expect(clip.images).toEqual(['https://pbs.twimg.com/media/compiler.jpg']);
+  });
+
+  it('reads the author from LinkedIn post titles', () => {
+    const clip = extractWebClip(fixture('linkedin'), 'https://www.linkedin.com/posts/alan-turing_series-a-activity-123');
+
+    expect(clip.sourceType).toBe('linkedin');
+    expect(clip.author).toBe('Alan Turing');
+    expect(clip.text).toMatch(/^We closed our Series A this week\./);
+    expect(clip.text).not.toContain('Sign in');
+  });
+});
+
+describe('contentHtmlToText', () => {
+  it('separates blocks with blank lines and decodes entities', () => {
+    expect(contentHtmlToText('<h2>A &amp; B</h2><ul><li>One</li><li>Two</li></ul>')).toBe('A & B\n\nOne\n\nTwo');
+  });
+});
@@ -0,0 +1,411 @@
+// =============================================================================
+// WEB CLIP EXTRACTOR — Readable content and metadata from a fetched page
+// =============================================================================
+// Pure string processing (no DOM), so the same code runs in the api/web-clip
+// function and in tests.
+//
+// Metadata comes from, in order: Open Graph / Twitter meta tags, JSON-LD,
+// then the document itself (<title>, <time>, first <h1>).
+//
+// Content is taken from the page's <article>, <main> or <body>, with chrome
+// (nav, header, footer, aside, forms, scripts) removed, and rebuilt from a
+// small whitelist of tags. Pages that render with JavaScript (tweets,
+// LinkedIn posts) have almost no body text; for those the description meta
+// tag is the content.
+// =============================================================================
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type WebClipSourceType = 'article' | 'tweet' | 'linkedin' | 'web';
+
+export interface WebClip {
+  /** URL the page was fetched from (after redirects) */
+  url: string;
+  canonicalUrl: string | null;
+  sourceType: WebClipSourceType;
+  siteName: string | null;
+  title: string;
+  author: string | null;
+  /** ISO timestamp */
+  publishedAt: string | null;
+  excerpt: string;
+  /** Cleaned HTML using only p, h2–h4, lists, blockquote, pre, img and inline formatting */
+  contentHtml: string;
+  /** Plain text of the content, paragraphs separated by blank lines */
+  text: string;
+  /** Absolute image URLs, lead image first */
+  images: string[];
+}
+
+/** Below this much body text the page is treated as JavaScript-rendered */
+const MIN_READABLE_TEXT = 200;
+const MAX_IMAGES = 10;
+const EXCERPT_LENGTH = 200;
+
+// =============================================================================
+// HTML HELPERS
+// =============================================================================
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  mdash: '—', ndash: '–', hellip: '…', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“',
+  middot: '·', bull: '•', copy: '©', laquo: '«', raquo: '»',
+};
+
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+/** Attributes of a start tag, lower-cased names, decoded values */
+const parseAttributes = (tag: string): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  const body = tag.replace(/^<[a-z0-9-]+/i, '');
+  for (const match of body.matchAll(/([a-z_:][\w:.-]*)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/gi)) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+};
+
+/** Remove elements and everything inside them */
+const removeElements = (html: string, tags: string[]): string =>
+  tags.reduce(
+    (result, tag) => result.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}\\s*>`, 'gi'), ' '),
+    html
+  );
+
+const innerHtmlOf = (html: string, tag: string): string[] =>
+  Array.from(html.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}\\s*>`, 'gi')), m => m[1]);
+
+const textOf = (html: string): string =>
+  collapseWhitespace(decodeEntities(html.replace(/<[^>]*>/g, ' ')));
+
+const resolveUrl = (value: string | undefined, base: string): string | null => {
+  if (!value || value.startsWith('data:') || value.startsWith('javascript:')) return null;
+  try {
+    const url = new URL(value, base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+const toIsoDate = (value: string | null | undefined): string | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// =============================================================================
+// METADATA
+// =============================================================================
+
+/** Meta tag content by property/name/itemprop, first match in the order given */
+const getMeta = (html: string, keys: string[]): string | null => {
+  const metas = Array.from(html.matchAll(/<meta\b[^>]*>/gi), m => parseAttributes(m[0]));
+  for (const key of keys) {
+    const meta = metas.find(m => [m.property, m.name, m.itemprop].some(v => v?.toLowerCase() === key));
+    const content = meta?.content?.trim();
+    if (content) return content;
+  }
+  return null;
+};
+
+interface LinkedData {
+  headline?: string;
+  author?: string;
+  datePublished?: string;
+  image?: string;
+}
+
+const nameOf = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(nameOf).filter(Boolean).join(', ') || undefined;
+  if (value && typeof value === 'object' && typeof (value as { name?: unknown }).name === 'string') {
+    return (value as { name: string }).name;
+  }
+  return undefined;
+};
+
+const imageOf = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return imageOf(value[0]);
+  if (value && typeof value === 'object' && typeof (value as { url?: unknown }).url === 'string') {
+    return (value as { url: string }).url;
+  }
+  return undefined;
+};
+
+/** First JSON-LD object that looks like an article or post */
+const getLinkedData = (html: string): LinkedData => {
+  for (const match of html.matchAll(/<script\b[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(match[1]);
+    } catch {
+      continue;
+    }
+    const candidates = (Array.isArray(parsed) ? parsed : [parsed]).flatMap(item =>
+      item && typeof item === 'object' && Array.isArray((item as { '@graph'?: unknown[] })['@graph'])
+        ? (item as { '@graph': unknown[] })['@graph']
+        : [item]
+    );
+    for (const candidate of candidates) {
+      if (!candidate || typeof candidate !== 'object') continue;
+      const record = candidate as Record<string, unknown>;
+      if (!record.headline && !record.articleBody && !record.datePublished) continue;
+      return {
+        headline: typeof record.headline === 'string' ? record.headline : undefined,
+        author: nameOf(record.author),
+        datePublished: typeof record.datePublished === 'string' ? record.datePublished : undefined,
+        image: imageOf(record.image),
+      };
+    }
+  }
+  return {};
+};
+
+const detectSourceType = (url: string, html: string): WebClipSourceType => {
+  let host = '';
+  let path = '';
+  try {
+    const parsed = new URL(url);
+    host = parsed.hostname.replace(/^www\./, '');
+    path = parsed.pathname;
+  } catch {
+    // Fall through to content-based detection
+  }
+  if ((host === 'twitter.com' || host === 'x.com' || host === 'mobile.twitter.com') && /\/status\/\d+/.test(path)) return 'tweet';
+  if (host === 'linkedin.com' || host.endsWith('.linkedin.com')) return 'linkedin';
+  if (getMeta(html, ['og:type']) === 'article' || /<article\b/i.test(html)) return 'article';
+  return 'web';
+};
+
+/** Tweet text in og:description is wrapped in curly quotes */
+const unquote = (text: string): string => text.replace(/^[“"]([\s\S]*)[”"]$/, '$1').trim();
+
+// =============================================================================
+// CONTENT
+// =============================================================================
+
+const CHROME_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'form', 'nav', 'header', 'footer', 'aside', 'button', 'select'];
+const BLOCK_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'blockquote', 'pre']);
+const CONTAINER_TAGS = new Set(['ul', 'ol']);
+const INLINE_TAGS = new Set(['strong', 'b', 'em', 'i', 'code', 'a']);
+/** Dropped tags that still separate paragraphs */
+const BREAKING_TAGS = new Set(['div', 'section', 'figure', 'figcaption', 'table', 'tr', 'td', 'th', 'main', 'article', 'dl', 'dt', 'dd', 'hr']);
+
+/** Pick the element most likely to hold the readable content */
+const selectContentRegion = (html: string): string => {
+  const cleaned = removeElements(html.replace(/<!--[\s\S]*?-->/g, ' '), CHROME_ELEMENTS);
+  const byText = (regions: string[]) => regions.sort((a, b) => textOf(b).length - textOf(a).length)[0];
+
+  const article = byText(innerHtmlOf(cleaned, 'article'));
+  if (article && textOf(article).length > 0) return article;
+  const main = byText(innerHtmlOf(cleaned, 'main'));
+  if (main && textOf(main).length > 0) return main;
+  return innerHtmlOf(cleaned, 'body')[0] ?? cleaned;
+};
+
+/** Rebuild content from whitelisted tags; stray text is wrapped in paragraphs */
+const cleanContentHtml = (region: string, baseUrl: string): { html: string; images: string[] } => {
+  const output: string[] = [];
+  const images: string[] = [];
+  const open: string[] = [];
+  let implicitParagraph = false;
+
+  const inBlock = () => implicitParagraph || open.some(tag => BLOCK_TAGS.has(tag));
+  const closeImplicit = () => {
+    if (!implicitParagraph) return;
+    // Close inline tags opened inside the implicit paragraph first
+    while (open.length && INLINE_TAGS.has(open[open.length - 1])) output.push(`</${open.pop()}>`);
+    output.push('</p>');
+    implicitParagraph = false;
+  };
+
+  for (const [token] of region.matchAll(/<[^>]*>|[^<]+/g)) {
+    if (!token.startsWith('<')) {
+      const text = token.replace(/\s+/g, ' ');
+      if (!text.trim() && !inBlock()) continue;
+      if (!inBlock() && !open.some(tag => CONTAINER_TAGS.has(tag))) {
+        output.push('<p>');
+        implicitParagraph = true;
+      }
+      output.push(escapeHtml(decodeEntities(text)));
+      continue;
+    }
+
+    const close = token.match(/^<\/([a-z0-9]+)/i);
+    const openMatch = token.match(/^<([a-z0-9]+)/i);
+    const tag = (close?.[1] ?? openMatch?.[1] ?? '').toLowerCase();
+    if (!tag) continue;
+    const mapped = tag === 'h1' ? 'h2' : tag === 'h5' || tag === 'h6' ? 'h4' : tag === 'b' ? 'strong' : tag === 'i' ? 'em' : tag;
+
+    if (close) {
+      if (BREAKING_TAGS.has(tag)) closeImplicit();
+      const index = open.lastIndexOf(mapped);
+      if (index === -1) continue;
+      while (open.length > index) output.push(`</${open.pop()}>`);
+      continue;
+    }
+
+    if (tag === 'img') {
+      const attrs = parseAttributes(token);
+      const src = resolveUrl(attrs.src || attrs['data-src'], baseUrl);
+      if (!src || attrs.width === '1' || attrs.height === '1') continue;
+      closeImplicit();
+      if (!images.includes(src)) images.push(src);
+      output.push(`<img src="${escapeHtml(src)}"${attrs.alt ? ` alt="${escapeHtml(attrs.alt)}"` : ''}>`);
+      continue;
+    }
+    if (tag === 'br') {
+      if (inBlock()) output.push('<br>');
+      continue;
+    }
+    if (BREAKING_TAGS.has(tag)) {
+      closeImplicit();
+      continue;
+    }
+    if (BLOCK_TAGS.has(tag) || CONTAINER_TAGS.has(tag)) {
+      closeImplicit();
+      output.push(`<${mapped}>`);
+      open.push(mapped);
+      continue;
+    }
+    if (INLINE_TAGS.has(tag)) {
+      const href = tag === 'a' ? resolveUrl(parseAttributes(token).href, baseUrl) : null;
+      if (tag === 'a' && !href) continue;
+      if (!inBlock()) {
+        output.push('<p>');
+        implicitParagraph = true;
+      }
+      output.push(href ? `<a href="${escapeHtml(href)}">` : `<${mapped}>`);
+      open.push(mapped);
+    }
+  }
+  closeImplicit();
+  while (open.length) output.push(`</${open.pop()}>`);
+
+  // Drop blocks left empty once chrome and images were removed
+  const html = output
+    .join('')
+    .replace(/<(p|h[2-4]|li|blockquote|strong|em|a)\b[^>]*>\s*(<br>\s*)*<\/\1>/g, '')
+    .replace(/<(ul|ol)>\s*<\/\1>/g, '')
+    .replace(/\s*<br>\s*(<\/p>)/g, '$1');
+  return { html, images };
+};
+
+/** Plain text with a blank line between blocks */
+export const contentHtmlToText = (html: string): string =>
+  decodeEntities(
+    html
+      .replace(/<br>/g, '\n')
+      .replace(/<\/(p|h[2-4]|li|blockquote|pre)>/g, '\n\n')
+      .replace(/<[^>]*>/g, '')
+  )
+    .split(/\n{2,}/)
+    .map(block => block.split('\n').map(line => line.replace(/[ \t]+/g, ' ').trim()).join('\n').trim())
+    .filter(Boolean)
+    .join('\n\n');
+
+const paragraphsFromText = (text: string): string =>
+  text
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .map(p => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+// =============================================================================
+// MAIN FUNCTION
+// =============================================================================
+
+/**
+ * Extract a readable clip from page HTML.
+ * @param html - The fetched document
+ * @param url - The URL it was fetched from, used to resolve relative links
+ */
+export const extractWebClip = (html: string, url: string): WebClip => {
+  const linkedData = getLinkedData(html);
+  const sourceType = detectSourceType(url, html);
+
+  const canonicalHref = Array.from(html.matchAll(/<link\b[^>]*>/gi), m => parseAttributes(m[0]))
+    .find(attrs => attrs.rel?.toLowerCase().split(/\s+/).includes('canonical'))?.href;
+  const canonicalUrl = resolveUrl(canonicalHref || getMeta(html, ['og:url']) || undefined, url);
+
+  const documentTitle = textOf(innerHtmlOf(html, 'title')[0] ?? '');
+  const firstHeading = textOf(innerHtmlOf(html, 'h1')[0] ?? '');
+  const title = collapseWhitespace(
+    getMeta(html, ['og:title', 'twitter:title']) || linkedData.headline || documentTitle || firstHeading || url
+  );
+
+  const metaAuthor = getMeta(html, ['author', 'article:author', 'twitter:creator']);
+  // Social pages title themselves "<Name> on X" / "<Name> on LinkedIn: …"
+  const socialName = sourceType === 'tweet' || sourceType === 'linkedin'
+    ? title.match(/^(.+?) on (?:X|Twitter|LinkedIn)\b/)?.[1] ?? null
+    : null;
+  const author =
+    (metaAuthor && !/^https?:\/\//.test(metaAuthor) ? metaAuthor : null) ||
+    linkedData.author ||
+    socialName;
+
+  const timeMatch = html.match(/<time\b[^>]*datetime=["']([^"']+)["']/i);
+  const publishedAt = toIsoDate(getMeta(html, ['article:published_time', 'datepublished']) || linkedData.datePublished || timeMatch?.[1]);
+
+  let hostname: string | null = null;
+  try {
+    hostname = new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    // Leave siteName to the meta tags
+  }
+  const siteName = getMeta(html, ['og:site_name', 'application-name']) || hostname;
+  const description = getMeta(html, ['og:description', 'twitter:description', 'description']);
+
+  const region = cleanContentHtml(selectContentRegion(html), url);
+  // The title becomes the note title, so drop it from the top of the body
+  const leadingHeading = region.html.match(/^<h2>([\s\S]*?)<\/h2>/);
+  let contentHtml = leadingHeading && textOf(leadingHeading[1]) === title
+    ? region.html.slice(leadingHeading[0].length)
+    : region.html;
+  let text = contentHtmlToText(contentHtml);
+  if (text.length < MIN_READABLE_TEXT && description && description.length > text.length) {
+    const body = sourceType === 'tweet' ? unquote(description) : description;
+    contentHtml = paragraphsFromText(body);
+    text = contentHtmlToText(contentHtml);
+  }
+
+  const leadImage = resolveUrl(getMeta(html, ['og:image', 'og:image:url', 'twitter:image']) || linkedData.image, url);
+  const images = [...(leadImage ? [leadImage] : []), ...region.images]
+    .filter((src, index, all) => all.indexOf(src) === index)
+    .slice(0, MAX_IMAGES);
+
+  const excerptSource = description || text;
+  const excerpt = excerptSource.length > EXCERPT_LENGTH
+    ? `${excerptSource.slice(0, EXCERPT_LENGTH - 1).trimEnd()}…`
+    : excerptSource;
+
+  return {
+    url,
+    canonicalUrl,
+    sourceType,
+    siteName,
+    title,
+    author,
+    publishedAt,
+    excerpt,
+    contentHtml,
+    text,
+    images,
+  };
+};
@@ -0,0 +1,510 @@
+// =============================================================================
+// CONTACT IMPORT SERVICE — Bulk CSV / vCard import with dedupe and undo
+// =============================================================================
+// The import wizard works in four steps, each backed by a function here:
+//   1. parseImportFile      — CSV or .vcf text → a table of headers + rows
+//   2. suggestColumnMapping — guess which Contact field each column holds
+//   3. buildImportPreview   — mapped rows, validation errors and duplicates
+//   4. commitContactImport  — create/merge contacts as one undoable batch
+//
+// Undo deletes the contacts a batch created and reverts only the fields and
+// tags it filled on merged contacts, so later edits survive. It is refused
+// once a created contact has tasks, notes or interactions of its own.
+//
+// Duplicates are matched against existing contacts (and earlier rows of the
+// same file) by email, then phone, then normalized name.
+// =============================================================================
+
+import type { Contact, RelationshipDomain } from '../types';
+import { parseCsv } from '../lib/import/csv';
+import { parseVCards } from '../lib/import/vcard';
+import {
+  getAllContacts,
+  getContactById,
+  createContact,
+  updateContact,
+  deleteContact,
+  CONTACT_ZERO,
+} from './contactStore';
+import { getTasksByContactId } from './taskStore';
+import { getNotesForContact } from './noteStore';
+import { getInteractionsByContactId } from './interactionStore';
+import { loadPersisted, savePersisted, type PersistedSchema } from '../lib/persistence/versionedStorage';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ImportField =
+  | 'ignore'
+  | 'fullName'
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'phone'
+  | 'company'
+  | 'title'
+  | 'location'
+  | 'linkedinUrl'
+  | 'xHandle'
+  | 'tags'
+  | 'relationshipDomain'
+  | 'relationshipRole';
+
+export interface ImportTable {
+  fileName: string;
+  format: 'csv' | 'vcard';
+  headers: string[];
+  rows: string[][];
+}
+
+/** Target field for each column, index-aligned with ImportTable.headers */
+export type ColumnMapping = ImportField[];
+
+export type ContactImportInput = Parameters<typeof createContact>[0];
+
+export interface DuplicateMatch {
+  contactId: string;
+  matchedOn: 'email' | 'phone' | 'name';
+}
+
+export interface ImportPreviewRow {
+  rowIndex: number;
+  contact: ContactImportInput;
+  errors: string[];                  // rows with errors are never imported
+  duplicate: DuplicateMatch | null;  // existing contact this row matches
+  duplicateOfRow: number | null;     // earlier row in the same file this row matches
+}
+
+/** What to do with rows that match an existing contact */
+export type DuplicateStrategy = 'skip' | 'merge' | 'create';
+
+/** Contact fields an import fills when merging into an existing contact */
+const MERGE_FIELDS = ['email', 'phone', 'company', 'title', 'location', 'linkedinUrl', 'xHandle'] as const;
+
+type MergeField = typeof MERGE_FIELDS[number];
+
+/** What an import changed on an existing contact, for undo */
+export interface ImportMergeChange {
+  contactId: string;
+  filled: Partial<Record<MergeField, string>>;  // empty fields the import filled, with the value written
+  addedTags: string[];
+}
+
+export interface ContactImportBatch {
+  id: string;
+  fileName: string;
+  importedAt: string;
+  createdContactIds: string[];
+  merges: ImportMergeChange[];
+  skippedRows: number;
+  undoneAt: string | null;
+}
+
+// =============================================================================
+// FIELDS
+// =============================================================================
+
+export const IMPORT_FIELDS: { field: ImportField; label: string }[] = [
+  { field: 'ignore', label: "Don't import" },
+  { field: 'fullName', label: 'Full name' },
+  { field: 'firstName', label: 'First name' },
+  { field: 'lastName', label: 'Last name' },
+  { field: 'email', label: 'Email' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'company', label: 'Company' },
+  { field: 'title', label: 'Title' },
+  { field: 'location', label: 'Location' },
+  { field: 'linkedinUrl', label: 'LinkedIn URL' },
+  { field: 'xHandle', label: 'X handle' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'relationshipDomain', label: 'Domain' },
+  { field: 'relationshipRole', label: 'Role' },
+];
+
+/** Header spellings seen in common CRM / spreadsheet exports */
+const HEADER_ALIASES: Record<Exclude<ImportField, 'ignore'>, string[]> = {
+  fullName: ['name', 'full name', 'fullname', 'contact name', 'display name', 'contact'],
+  firstName: ['first name', 'firstname', 'given name', 'first'],
+  lastName: ['last name', 'lastname', 'surname', 'family name', 'last'],
+  email: ['email', 'e-mail', 'email address', 'primary email', 'work email', 'e-mail address', 'email 1'],
+  phone: ['phone', 'phone number', 'mobile', 'mobile phone', 'cell', 'telephone', 'work phone', 'phone 1'],
+  company: ['company', 'organization', 'organisation', 'company name', 'account', 'account name', 'employer'],
+  title: ['title', 'job title', 'position', 'role title', 'headline'],
+  location: ['location', 'city', 'address', 'region'],
+  linkedinUrl: ['linkedin', 'linkedin url', 'linkedin profile', 'linkedin profile url'],
+  xHandle: ['x', 'twitter', 'x handle', 'twitter handle', 'twitter username'],
+  tags: ['tags', 'labels', 'groups', 'categories', 'category'],
+  relationshipDomain: ['domain', 'relationship domain', 'relationship type'],
+  relationshipRole: ['role', 'relationship', 'relationship role', 'type', 'contact type', 'stage'],
+};
+
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+/** Guess a field for each column; each field is assigned at most once */
+export const suggestColumnMapping = (headers: string[]): ColumnMapping => {
+  const used = new Set<ImportField>();
+  return headers.map(header => {
+    const normalized = normalizeHeader(header);
+    const match = (Object.keys(HEADER_ALIASES) as Exclude<ImportField, 'ignore'>[]).find(
+      field => !used.has(field) && HEADER_ALIASES[field].some(alias => normalizeHeader(alias) === normalized)
+    );
+    if (!match) return 'ignore';
+    used.add(match);
+    return match;
+  });
+};
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+const VCARD_HEADERS = ['Full Name', 'First Name', 'Last Name', 'Email', 'Phone', 'Company', 'Title', 'Location', 'LinkedIn', 'X', 'Tags'];
+
+/** X/Twitter profile link, with or without the scheme; captures the handle */
+const X_PROFILE_URL = /^(?:https?:\/\/)?(?:www\.)?(?:twitter|x)\.com\/@?([A-Za-z0-9_]+)/i;
+
+/** Turn a CSV or vCard file into a table; vCards are flattened to fixed columns */
+export const parseImportFile = (fileName: string, text: string): ImportTable => {
+  const isVCard = /\.vcf$/i.test(fileName) || /^\s*BEGIN:VCARD/i.test(text);
+
+  if (isVCard) {
+    const rows = parseVCards(text).map(card => {
+      const links = [...card.urls, ...card.socialProfiles];
+      const linkedin = links.find(u => /linkedin\.com/i.test(u)) || '';
+      const x = links.find(u => X_PROFILE_URL.test(u.trim())) || card.socialProfiles.find(p => /^@?\w+$/.test(p)) || '';
+      return [
+        card.fullName,
+        card.firstName,
+        card.lastName,
+        card.emails[0] || '',
+        card.phones[0] || '',
+        card.company,
+        card.title,
+        card.location,
+        linkedin,
+        x,
+        card.categories.join(', '),
+      ];
+    });
+    return { fileName, format: 'vcard', headers: VCARD_HEADERS, rows };
+  }
+
+  const [headers = [], ...rows] = parseCsv(text);
+  return { fileName, format: 'csv', headers: headers.map(h => h.trim()), rows };
+};
+
+// =============================================================================
+// NORMALIZATION & MATCHING
+// =============================================================================
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const normalizeEmail = (email: string | undefined): string => (email || '').trim().toLowerCase();
+
+/** Digits only, compared on the last 10 so "+1 (555) 010-2000" matches "555-010-2000" */
+export const normalizePhone = (phone: string | undefined): string => (phone || '').replace(/\D/g, '').slice(-10);
+
+export const normalizeName = (name: string | undefined): string =>
+  (name || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const parseDomain = (value: string): RelationshipDomain | undefined => {
+  const v = value.trim().toLowerCase();
+  if (v === 'business' || v === 'work' || v === 'professional') return 'business';
+  if (v === 'personal' || v === 'friend' || v === 'family') return 'personal';
+  if (v === 'hybrid' || v === 'both') return 'hybrid';
+  return undefined;
+};
+
+/** "https://x.com/ada" or "ada" → "@ada" */
+const normalizeXHandle = (value: string): string => {
+  const fromUrl = value.trim().match(X_PROFILE_URL)?.[1];
+  const handle = (fromUrl || value).trim().replace(/^@/, '');
+  return handle ? `@${handle}` : '';
+};
+
+const splitTags = (value: string): string[] =>
+  value.split(/[,;|]/).map(t => t.trim()).filter(Boolean);
+
+/** Normalized email/phone/name → contact id (or row index for in-file matching) */
+interface MatchIndex {
+  email: Map<string, string>;
+  phone: Map<string, string>;
+  name: Map<string, string>;
+}
+
+const buildMatchIndex = (contacts: Contact[]): MatchIndex => {
+  const index: MatchIndex = { email: new Map(), phone: new Map(), name: new Map() };
+  for (const contact of contacts) {
+    if (contact.id === CONTACT_ZERO.id) continue;
+    const email = normalizeEmail(contact.email);
+    const phone = normalizePhone(contact.phone);
+    const name = normalizeName(contact.fullName);
+    if (email && !index.email.has(email)) index.email.set(email, contact.id);
+    if (phone.length >= 7 && !index.phone.has(phone)) index.phone.set(phone, contact.id);
+    if (name && !index.name.has(name)) index.name.set(name, contact.id);
+  }
+  return index;
+};
+
+const findMatch = (index: MatchIndex, input: ContactImportInput): DuplicateMatch | null => {
+  const email = normalizeEmail(input.email);
+  const phone = normalizePhone(input.phone);
+  const name = normalizeName(input.fullName);
+  if (email && index.email.has(email)) return { contactId: index.email.get(email)!, matchedOn: 'email' };
+  if (phone.length >= 7 && index.phone.has(phone)) return { contactId: index.phone.get(phone)!, matchedOn: 'phone' };
+  if (name && index.name.has(name)) return { contactId: index.name.get(name)!, matchedOn: 'name' };
+  return null;
+};
+
+// =============================================================================
+// PREVIEW
+// =============================================================================
+
+/** Map one row onto createContact input */
+const mapRow = (
+  row: string[],
+  mapping: ColumnMapping,
+  defaultDomain: RelationshipDomain
+): { contact: ContactImportInput; errors: string[] } => {
+  const values: Partial<Record<ImportField, string>> = {};
+  mapping.forEach((field, col) => {
+    const value = (row[col] || '').trim();
+    if (field === 'ignore' || !value) return;
+    // Several columns may map to tags; other fields keep the first value
+    if (field === 'tags' && values.tags) values.tags += `,${value}`;
+    else if (!values[field]) values[field] = value;
+  });
+
+  const errors: string[] = [];
+  const email = values.email || '';
+  if (email && !EMAIL_PATTERN.test(email)) errors.push(`Invalid email "${email}"`);
+
+  const fullName =
+    values.fullName ||
+    [values.firstName, values.lastName].filter(Boolean).join(' ') ||
+    (email && EMAIL_PATTERN.test(email) ? email : '');
+  if (!fullName) errors.push('Missing name');
+
+  const domain = values.relationshipDomain ? parseDomain(values.relationshipDomain) : undefined;
+  if (values.relationshipDomain && !domain) errors.push(`Unknown domain "${values.relationshipDomain}"`);
+
+  return {
+    contact: {
+      fullName,
+      email: email || undefined,
+      phone: values.phone,
+      relationshipDomain: domain || defaultDomain,
+      relationshipRole: values.relationshipRole,
+      company: values.company,
+      title: values.title,
+      location: values.location,
+      linkedinUrl: values.linkedinUrl,
+      xHandle: values.xHandle ? normalizeXHandle(values.xHandle) || undefined : undefined,
+      tags: values.tags ? splitTags(values.tags) : [],
+    },
+    errors,
+  };
+};
+
+/** Map every row, validate it and flag duplicates */
+export const buildImportPreview = (
+  table: ImportTable,
+  mapping: ColumnMapping,
+  options: { defaultDomain?: RelationshipDomain } = {}
+): ImportPreviewRow[] => {
+  const existing = buildMatchIndex(getAllContacts(true));
+  const seen: MatchIndex = { email: new Map(), phone: new Map(), name: new Map() };
+
+  return table.rows.map((row, rowIndex) => {
+    const { contact, errors } = mapRow(row, mapping, options.defaultDomain || 'business');
+    const duplicate = errors.length === 0 ? findMatch(existing, contact) : null;
+    const earlier = errors.length === 0 ? findMatch(seen, contact) : null;
+
+    if (errors.length === 0 && !earlier) {
+      // Rows are indexed by their own position so later rows can point back
+      const email = normalizeEmail(contact.email);
+      const phone = normalizePhone(contact.phone);
+      const name = normalizeName(contact.fullName);
+      if (email) seen.email.set(email, String(rowIndex));
+      if (phone.length >= 7) seen.phone.set(phone, String(rowIndex));
+      if (name) seen.name.set(name, String(rowIndex));
+    }
+
+    return {
+      rowIndex,
+      contact,
+      errors,
+      duplicate,
+      duplicateOfRow: earlier ? Number(earlier.contactId) : null,
+    };
+  });
+};
+
+// =============================================================================
+// COMMIT & UNDO
+// =============================================================================
+
+// Persisted so an import can still be undone after a reload
+const IMPORT_BATCHES_SCHEMA: PersistedSchema<ContactImportBatch[]> = {
+  key: 'framelord_contact_import_batches',
+  version: 2,
+  migrations: {
+    // v2: merges record the fields written instead of a full snapshot. What an
+    // old batch wrote is unknown, so its merges are kept but revert nothing.
+    2: (data) => (data as (ContactImportBatch & { mergedContacts?: Contact[] })[]).map(({ mergedContacts, ...batch }) => ({
+      ...batch,
+      merges: (mergedContacts || []).map(c => ({ contactId: c.id, filled: {}, addedTags: [] })),
+    })),
+  },
+  defaults: () => [],
+};
+
+let IMPORT_BATCHES: ContactImportBatch[] = loadPersisted(IMPORT_BATCHES_SCHEMA);
+
+const saveBatches = (): void => {
+  savePersisted(IMPORT_BATCHES_SCHEMA, IMPORT_BATCHES);
+};
+
+/** Fill empty fields on an existing contact and add any new tags, recording what changed */
+const mergeIntoContact = (contact: Contact, input: ContactImportInput, change: ImportMergeChange): Contact => {
+  const merged: Contact = { ...contact };
+  for (const field of MERGE_FIELDS) {
+    const value = input[field];
+    if (!contact[field] && value) {
+      merged[field] = value;
+      change.filled[field] = value;
+    }
+  }
+  const addedTags = (input.tags || []).filter(tag => !contact.tags.includes(tag));
+  merged.tags = [...new Set([...contact.tags, ...addedTags])];
+  change.addedTags = [...new Set([...change.addedTags, ...addedTags])];
+  return merged;
+};
+
+/** Take back what an import filled, leaving anything edited since alone */
+const revertMerge = (contact: Contact, change: ImportMergeChange): Contact => {
+  const reverted: Contact = { ...contact };
+  for (const field of MERGE_FIELDS) {
+    if (change.filled[field] !== undefined && contact[field] === change.filled[field]) {
+      reverted[field] = undefined;
+    }
+  }
+  reverted.tags = contact.tags.filter(tag => !change.addedTags.includes(tag));
+  return reverted;
+};
+
+/**
+ * Import previewed rows as one batch.
+ * Rows with errors, rows listed in `excludedRows` and repeats of an earlier
+ * row are skipped. Rows matching an existing contact follow `duplicateStrategy`.
+ */
+export const commitContactImport = (
+  table: ImportTable,
+  preview: ImportPreviewRow[],
+  options: { duplicateStrategy: DuplicateStrategy; excludedRows?: number[]; extraTags?: string[] }
+): ContactImportBatch => {
+  const excluded = new Set(options.excludedRows || []);
+  const extraTags = options.extraTags || [];
+  const batch: ContactImportBatch = {
+    id: `import-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    fileName: table.fileName,
+    importedAt: new Date().toISOString(),
+    createdContactIds: [],
+    merges: [],
+    skippedRows: 0,
+    undoneAt: null,
+  };
+
+  for (const row of preview) {
+    const input = { ...row.contact, tags: [...new Set([...(row.contact.tags || []), ...extraTags])] };
+    const skip =
+      row.errors.length > 0 ||
+      excluded.has(row.rowIndex) ||
+      (row.duplicateOfRow !== null && options.duplicateStrategy !== 'create');
+
+    if (skip) {
+      batch.skippedRows++;
+      continue;
+    }
+
+    const existing = row.duplicate ? getContactById(row.duplicate.contactId) : undefined;
+    if (existing && options.duplicateStrategy === 'skip') {
+      batch.skippedRows++;
+    } else if (existing && options.duplicateStrategy === 'merge') {
+      // One change per contact, even if several rows merge into it
+      let change = batch.merges.find(m => m.contactId === existing.id);
+      if (!change) {
+        change = { contactId: existing.id, filled: {}, addedTags: [] };
+        batch.merges.push(change);
+      }
+      updateContact(mergeIntoContact(existing, input, change));
+    } else {
+      batch.createdContactIds.push(createContact(input).id);
+    }
+  }
+
+  IMPORT_BATCHES = [batch, ...IMPORT_BATCHES];
+  saveBatches();
+  return batch;
+};
+
+/** Import batches, newest first */
+export const getContactImportBatches = (): ContactImportBatch[] => [...IMPORT_BATCHES];
+
+/**
+ * Why a batch can no longer be undone, or null if it can: a contact it
+ * created has since gained tasks, notes or interactions, which deleting the
+ * contact would orphan.
+ */
+export const getImportUndoBlocker = (batchId: string): string | null => {
+  const batch = IMPORT_BATCHES.find(b => b.id === batchId);
+  if (!batch || batch.undoneAt) return null;
+
+  const linked = batch.createdContactIds
+    .map(id => getContactById(id))
+    .filter((contact): contact is Contact => !!contact)
+    .filter(contact =>
+      getTasksByContactId(contact.id).length > 0 ||
+      getNotesForContact(contact.id).length > 0 ||
+      getInteractionsByContactId(contact.id).length > 0
+    );
+  if (linked.length === 0) return null;
+
+  const names = linked.slice(0, 3).map(c => c.fullName).join(', ');
+  const more = linked.length > 3 ? ` and ${linked.length - 3} more` : '';
+  return `${names}${more} now ${linked.length === 1 ? 'has' : 'have'} tasks, notes or interactions. Delete or move those first.`;
+};
+
+/**
+ * Undo a whole import batch: delete the contacts it created and revert what it
+ * filled on the contacts it merged into. Returns false if the batch is
+ * unknown, already undone, or blocked (see getImportUndoBlocker).
+ */
+export const undoContactImport = (batchId: string): boolean => {
+  const batch = IMPORT_BATCHES.find(b => b.id === batchId);
+  if (!batch || batch.undoneAt) return false;
+
+  const blocker = getImportUndoBlocker(batchId);
+  if (blocker) {
+    console.warn('[ContactImport] Cannot undo import:', blocker);
+    return false;
+  }
+
+  batch.createdContactIds.forEach(id => deleteContact(id));
+  batch.merges.forEach(change => {
+    const contact = getContactById(change.contactId);
+    if (contact) updateContact(revertMerge(contact, change));
+  });
+
+  IMPORT_BATCHES = IMPORT_BATCHES.map(b => (b.id === batchId ? { ...b, undoneAt: new Date().toISOString() } : b));
+  saveBatches();
+  return true;
+};
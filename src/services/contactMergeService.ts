@@ -0,0 +1,479 @@
+// =============================================================================
+// CONTACT MERGE SERVICE — Duplicate detection and contact merging
+// =============================================================================
+// @mentions create contacts on the fly, so the same person often ends up as
+// "Jon Smith" and "Jonathan Smith". findDuplicateContacts scores candidate
+// pairs by email, phone, LinkedIn profile and fuzzy name; mergeContacts folds
+// one contact into another and re-points everything that referenced it:
+// notes, tasks, interactions, pipeline items, projects, group memberships,
+// topics, FrameScan reports, psychometric evidence, review flags and
+// FrameScore ledger entries.
+//
+// Contact Zero and demo contacts are never offered as duplicates and can
+// never be merged, on either side: Contact Zero is the user, and demo
+// contacts are rebuilt on every load, so a merge into or out of one would
+// not last.
+// =============================================================================
+
+import type { Contact, ContactSocialProfile, EngagementEvent } from '../types';
+import {
+  getAllContacts,
+  getContactById,
+  updateContact,
+  deleteContact,
+  isDemoContact,
+  CONTACT_ZERO,
+} from './contactStore';
+import { normalizeEmail, normalizePhone, normalizeName } from './contactImportService';
+import { reassignContactInNotes } from './noteStore';
+import { getAllTasks, updateTask } from './taskStore';
+import { getAllInteractions, updateInteraction } from './interactionStore';
+import { getAllPipelineItems, updatePipelineItem } from './pipelineStore';
+import { getAllProjects, updateProject } from './projectStore';
+import { reassignGroupMemberships } from './groupStore';
+import { getAllTopics, syncTopicContacts } from './topicStore';
+import { getReportsForContact, updateFrameScanReport } from './frameScanReportStore';
+import { psychometricStore } from './psychometricStore';
+import { reassignIntelReviewItems } from './reviewStore';
+import { reassignLedgerContact } from './frameScoreLedgerStore';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type DuplicateSignal = 'email' | 'phone' | 'linkedin' | 'name_exact' | 'name_fuzzy';
+
+export interface DuplicateCandidate {
+  contactIds: [string, string];      // sorted so a pair has one stable key
+  score: number;                     // 0..1, higher is more likely the same person
+  signals: DuplicateSignal[];
+}
+
+export interface ContactMergeResult {
+  survivorId: string;
+  mergedId: string;
+  notes: number;
+  tasks: number;
+  interactions: number;
+  pipelineItems: number;
+  projects: number;
+  groups: number;
+  topics: number;
+  frameScanReports: number;
+  psychometricEvidence: number;
+  reviewItems: number;
+  ledgerEntries: number;
+}
+
+// =============================================================================
+// MATCHING HELPERS
+// =============================================================================
+
+/** Contact Zero and demo contacts never take part in a merge */
+const isMergeable = (contactId: string): boolean =>
+  contactId !== CONTACT_ZERO.id && !isDemoContact(contactId);
+
+const SIGNAL_WEIGHTS: Record<DuplicateSignal, number> = {
+  email: 1,
+  linkedin: 1,
+  phone: 0.9,
+  name_exact: 0.7,
+  name_fuzzy: 0.55,
+};
+
+/** Common English nicknames, keyed by both forms */
+const NICKNAME_GROUPS: string[][] = [
+  ['robert', 'rob', 'bob', 'bobby', 'robbie'],
+  ['william', 'will', 'bill', 'billy', 'liam'],
+  ['richard', 'rich', 'rick', 'dick'],
+  ['james', 'jim', 'jimmy', 'jamie'],
+  ['john', 'jack', 'johnny'],
+  ['jonathan', 'jon', 'jonny'],
+  ['michael', 'mike', 'mikey'],
+  ['elizabeth', 'liz', 'beth', 'betty', 'eliza'],
+  ['katherine', 'catherine', 'kate', 'katie', 'cathy', 'kathy'],
+  ['margaret', 'maggie', 'meg', 'peggy'],
+  ['alexander', 'alex', 'sasha'],
+  ['christopher', 'chris'],
+  ['nicholas', 'nick', 'nicky'],
+  ['anthony', 'tony'],
+  ['joseph', 'joe', 'joey'],
+  ['thomas', 'tom', 'tommy'],
+  ['daniel', 'dan', 'danny'],
+  ['edward', 'ed', 'eddie', 'ted'],
+  ['charles', 'charlie', 'chuck'],
+  ['jennifer', 'jen', 'jenny'],
+  ['rebecca', 'becky', 'becca'],
+];
+
+const NICKNAMES = new Map<string, Set<string>>();
+for (const group of NICKNAME_GROUPS) {
+  for (const name of group) {
+    NICKNAMES.set(name, new Set([...(NICKNAMES.get(name) || []), ...group]));
+  }
+}
+
+/** Jaro-Winkler similarity (0..1) */
+const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+/** Same first name allowing nicknames, truncations ("Jon" / "Jonathan") and typos */
+const firstNamesMatch = (a: string, b: string): boolean => {
+  if (a === b) return true;
+  if (NICKNAMES.get(a)?.has(b)) return true;
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  if (short.length >= 3 && long.startsWith(short)) return true;
+  return jaroWinkler(a, b) >= 0.9;
+};
+
+/** Compare two normalized full names */
+const compareNames = (a: string, b: string): 'name_exact' | 'name_fuzzy' | null => {
+  if (!a || !b) return null;
+  if (a === b) return 'name_exact';
+
+  const aTokens = a.split(' ');
+  const bTokens = b.split(' ');
+  // Single-word names ("Sarah") are too ambiguous to match fuzzily
+  if (aTokens.length < 2 || bTokens.length < 2) return null;
+
+  const aLast = aTokens[aTokens.length - 1];
+  const bLast = bTokens[bTokens.length - 1];
+  if (aLast !== bLast && jaroWinkler(aLast, bLast) < 0.93) return null;
+
+  return firstNamesMatch(aTokens[0], bTokens[0]) ? 'name_fuzzy' : null;
+};
+
+/** "https://www.linkedin.com/in/Jane-Doe/?trk=x" -> "jane-doe" */
+export const normalizeLinkedInUrl = (url: string | undefined): string => {
+  const match = (url || '').match(/linkedin\.com\/(?:in|pub)\/([^/?#\s]+)/i);
+  return match ? decodeURIComponent(match[1]).toLowerCase() : '';
+};
+
+const getLinkedInSlug = (contact: Contact): string =>
+  normalizeLinkedInUrl(contact.linkedinUrl) ||
+  normalizeLinkedInUrl(
+    contact.personal?.socialProfiles?.find(p => /linkedin/i.test(p.label) || /linkedin\.com/i.test(p.url || ''))?.url
+  );
+
+interface MatchKeys {
+  contact: Contact;
+  email: string;
+  phone: string;
+  linkedin: string;
+  name: string;
+}
+
+const toMatchKeys = (contact: Contact): MatchKeys => {
+  const phone = normalizePhone(contact.phone || contact.personal?.primaryPhone);
+  return {
+    contact,
+    email: normalizeEmail(contact.email || contact.personal?.primaryEmail),
+    phone: phone.length >= 7 ? phone : '',
+    linkedin: getLinkedInSlug(contact),
+    name: normalizeName(contact.fullName),
+  };
+};
+
+/**
+ * Blocking keys: only contacts sharing at least one key are compared.
+ * Name keys cover same last name, and same first name + last initial
+ * (for last-name typos).
+ */
+const blockingKeys = (keys: MatchKeys): string[] => {
+  const result: string[] = [];
+  if (keys.email) result.push(`e:${keys.email}`);
+  if (keys.phone) result.push(`p:${keys.phone}`);
+  if (keys.linkedin) result.push(`l:${keys.linkedin}`);
+  if (keys.name) {
+    const tokens = keys.name.split(' ');
+    const first = tokens[0];
+    const last = tokens[tokens.length - 1];
+    result.push(`n:${keys.name}`);
+    if (tokens.length > 1) {
+      result.push(`ln:${last}`);
+      result.push(`fn:${first}|${last[0]}`);
+    }
+  }
+  return result;
+};
+
+const compareContacts = (a: MatchKeys, b: MatchKeys): DuplicateSignal[] => {
+  const signals: DuplicateSignal[] = [];
+  if (a.email && a.email === b.email) signals.push('email');
+  if (a.linkedin && a.linkedin === b.linkedin) signals.push('linkedin');
+  if (a.phone && a.phone === b.phone) signals.push('phone');
+  const name = compareNames(a.name, b.name);
+  if (name) signals.push(name);
+  return signals;
+};
+
+/** Strongest signal, plus a bonus for each corroborating one */
+const scoreSignals = (signals: DuplicateSignal[]): number => {
+  const weights = signals.map(s => SIGNAL_WEIGHTS[s]).sort((x, y) => y - x);
+  return Math.min(1, weights[0] + 0.1 * (weights.length - 1));
+};
+
+const pairKey = (a: string, b: string): string => [a, b].sort().join('|');
+
+// =============================================================================
+// DUPLICATE DETECTION
+// =============================================================================
+
+/** Pairs the user marked as "not a duplicate" (session only, like contacts) */
+const DISMISSED_PAIRS = new Set<string>();
+
+/** Hide a pair from future duplicate scans */
+export const dismissDuplicatePair = (contactIdA: string, contactIdB: string): void => {
+  DISMISSED_PAIRS.add(pairKey(contactIdA, contactIdB));
+};
+
+/**
+ * Find likely duplicate pairs among active contacts, best matches first.
+ * Contact Zero is excluded; archived contacts are only included on request.
+ */
+export const findDuplicateContacts = (
+  options: { includeArchived?: boolean; minScore?: number } = {}
+): DuplicateCandidate[] => {
+  const { includeArchived = false, minScore = 0 } = options;
+  const keyed = getAllContacts(includeArchived)
+    .filter(c => isMergeable(c.id))
+    .map(toMatchKeys);
+
+  const buckets = new Map<string, MatchKeys[]>();
+  for (const keys of keyed) {
+    for (const block of blockingKeys(keys)) {
+      buckets.set(block, [...(buckets.get(block) || []), keys]);
+    }
+  }
+
+  const candidates = new Map<string, DuplicateCandidate>();
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const key = pairKey(bucket[i].contact.id, bucket[j].contact.id);
+        if (candidates.has(key) || DISMISSED_PAIRS.has(key)) continue;
+
+        const signals = compareContacts(bucket[i], bucket[j]);
+        if (signals.length === 0) continue;
+        const score = scoreSignals(signals);
+        if (score < minScore) continue;
+
+        candidates.set(key, {
+          contactIds: [bucket[i].contact.id, bucket[j].contact.id].sort() as [string, string],
+          score,
+          signals,
+        });
+      }
+    }
+  }
+
+  return [...candidates.values()].sort((a, b) => b.score - a.score);
+};
+
+/** Likely duplicates of a single contact, best matches first */
+export const findDuplicatesOf = (contactId: string): DuplicateCandidate[] =>
+  findDuplicateContacts({ includeArchived: true }).filter(c => c.contactIds.includes(contactId));
+
+// =============================================================================
+// MERGE
+// =============================================================================
+
+const union = <T>(a: T[] | undefined, b: T[] | undefined): T[] => [...new Set([...(a || []), ...(b || [])])];
+
+const laterOf = (a?: string | null, b?: string | null): string | null | undefined =>
+  !a ? b : !b ? a : a > b ? a : b;
+
+const earlierOf = (a?: string | null, b?: string | null): string | null | undefined =>
+  !a ? b : !b ? a : a < b ? a : b;
+
+/** Fill every empty field of `base` from `extra` (shallow) */
+const fillEmpty = <T extends object>(base: T | undefined, extra: T | undefined): T | undefined => {
+  if (!base) return extra;
+  if (!extra) return base;
+  const result = { ...base } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(extra)) {
+    const current = result[key];
+    if (current === undefined || current === null || current === '') result[key] = value;
+  }
+  return result as T;
+};
+
+/**
+ * Combine two contact records. The survivor's values win; the duplicate fills
+ * gaps, list fields are unioned, and a conflicting email or phone is kept in
+ * the personal notes so nothing is silently lost.
+ */
+const mergeContactRecords = (survivor: Contact, duplicate: Contact): Contact => {
+  const engagementEvents = new Map<string, EngagementEvent>();
+  [...survivor.engagementEvents, ...duplicate.engagementEvents].forEach(e => engagementEvents.set(e.id, e));
+
+  const socialProfiles = new Map<string, ContactSocialProfile>();
+  [...(survivor.personal?.socialProfiles || []), ...(duplicate.personal?.socialProfiles || [])]
+    .forEach(p => socialProfiles.set((p.url || `${p.label}:${p.handle}`).toLowerCase(), p));
+
+  const alternates = [
+    duplicate.email && survivor.email && normalizeEmail(duplicate.email) !== normalizeEmail(survivor.email)
+      ? `email ${duplicate.email}` : '',
+    duplicate.phone && survivor.phone && normalizePhone(duplicate.phone) !== normalizePhone(survivor.phone)
+      ? `phone ${duplicate.phone}` : '',
+  ].filter(Boolean);
+
+  const personal = fillEmpty(survivor.personal, duplicate.personal);
+  const personalNotes = alternates.length > 0
+    ? [personal?.personalNotes, `Merged from ${duplicate.fullName}: ${alternates.join(', ')}`].filter(Boolean).join('\n')
+    : personal?.personalNotes;
+
+  const merged: Contact = {
+    ...fillEmpty(survivor, duplicate)!,
+    id: survivor.id,
+    fullName: survivor.fullName,
+    status: survivor.status === 'archived' ? duplicate.status : survivor.status,
+    tags: union(survivor.tags, duplicate.tags),
+    mentionedInNotes: union(survivor.mentionedInNotes, duplicate.mentionedInNotes),
+    linkedTopics: union(survivor.linkedTopics, duplicate.linkedTopics),
+    initialWants: survivor.initialWants || duplicate.initialWants ? union(survivor.initialWants, duplicate.initialWants) : undefined,
+    engagementEvents: [...engagementEvents.values()].sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+    lastContactAt: laterOf(survivor.lastContactAt, duplicate.lastContactAt),
+    nextActionAt: earlierOf(survivor.nextActionAt, duplicate.nextActionAt),
+    personalIntel: fillEmpty(survivor.personalIntel, duplicate.personalIntel),
+    psychometricProfile: fillEmpty(survivor.psychometricProfile, duplicate.psychometricProfile),
+    contactProfile: fillEmpty(survivor.contactProfile, duplicate.contactProfile),
+  };
+
+  if (personal) {
+    merged.personal = {
+      ...personal,
+      personalNotes,
+      socialProfiles: socialProfiles.size > 0 ? [...socialProfiles.values()] : undefined,
+    };
+  }
+
+  return merged;
+};
+
+const swapId = (ids: string[], fromId: string, toId: string): string[] =>
+  [...new Set(ids.map(id => (id === fromId ? toId : id)))];
+
+/**
+ * Merge `duplicateId` into `survivorId`.
+ * Every record that pointed at the duplicate is re-pointed at the survivor,
+ * the contact fields are combined, and the duplicate is deleted.
+ * Returns undefined if either contact is missing, they are the same, or
+ * either is Contact Zero or a demo contact.
+ */
+export const mergeContacts = (survivorId: string, duplicateId: string): ContactMergeResult | undefined => {
+  const survivor = getContactById(survivorId);
+  const duplicate = getContactById(duplicateId);
+  if (!survivor || !duplicate || survivorId === duplicateId) {
+    console.warn('[ContactMerge] Cannot merge: contact not found or same contact');
+    return undefined;
+  }
+  if (!isMergeable(survivorId) || !isMergeable(duplicateId)) {
+    console.warn('[ContactMerge] Contact Zero and demo contacts cannot be merged');
+    return undefined;
+  }
+
+  const result: ContactMergeResult = {
+    survivorId,
+    mergedId: duplicateId,
+    notes: reassignContactInNotes(duplicateId, survivorId),
+    tasks: 0,
+    interactions: 0,
+    pipelineItems: 0,
+    projects: 0,
+    groups: reassignGroupMemberships(duplicateId, survivorId),
+    topics: 0,
+    frameScanReports: 0,
+    psychometricEvidence: 0,
+    reviewItems: reassignIntelReviewItems(duplicateId, survivorId),
+    ledgerEntries: reassignLedgerContact(duplicateId, survivorId),
+  };
+
+  for (const task of getAllTasks().filter(t => t.contactId === duplicateId)) {
+    updateTask(task.id, { contactId: survivorId });
+    result.tasks++;
+  }
+
+  for (const interaction of getAllInteractions()) {
+    if (interaction.contactId !== duplicateId && interaction.authorContactId !== duplicateId) continue;
+    updateInteraction({
+      ...interaction,
+      contactId: interaction.contactId === duplicateId ? survivorId : interaction.contactId,
+      authorContactId: interaction.authorContactId === duplicateId ? survivorId : interaction.authorContactId,
+    });
+    result.interactions++;
+  }
+
+  for (const item of getAllPipelineItems().filter(i => i.contactId === duplicateId)) {
+    updatePipelineItem({ ...item, contactId: survivorId });
+    result.pipelineItems++;
+  }
+
+  for (const project of getAllProjects(true)) {
+    const involved =
+      project.primaryContactId === duplicateId ||
+      project.relatedContactIds.includes(duplicateId) ||
+      project.groupMemberIds.includes(duplicateId);
+    if (!involved) continue;
+
+    const primaryContactId = project.primaryContactId === duplicateId ? survivorId : project.primaryContactId;
+    updateProject({
+      ...project,
+      primaryContactId,
+      relatedContactIds: swapId(project.relatedContactIds, duplicateId, survivorId).filter(id => id !== primaryContactId),
+      groupMemberIds: swapId(project.groupMemberIds, duplicateId, survivorId),
+    });
+    result.projects++;
+  }
+
+  for (const topic of getAllTopics().filter(t => t.contactIds?.includes(duplicateId))) {
+    syncTopicContacts(topic.id, swapId(topic.contactIds, duplicateId, survivorId));
+    result.topics++;
+  }
+
+  for (const report of getReportsForContact(duplicateId)) {
+    updateFrameScanReport(report.id, {
+      subjectContactIds: swapId(report.subjectContactIds, duplicateId, survivorId),
+    });
+    result.frameScanReports++;
+  }
+
+  // After the reports so evidence they re-derive is not counted twice
+  result.psychometricEvidence = psychometricStore.reassignContact(duplicateId, survivorId);
+
+  updateContact(mergeContactRecords(getContactById(survivorId)!, duplicate));
+  deleteContact(duplicateId);
+  DISMISSED_PAIRS.delete(pairKey(survivorId, duplicateId));
+
+  return result;
+};
@@ -1,8 +1,12 @@
 // =============================================================================
-// CONTACT STORE — In-memory data source for Contacts
+// CONTACT STORE — In-memory data source for Contacts (persisted to localStorage)
+// =============================================================================
+// Contact Zero and the user's own contacts are persisted separately. Demo
+// contacts are rebuilt from DEMO_CONTACTS on every load and never persisted.
 // =============================================================================
 
 import { Contact, ContactZero, RelationshipDomain, EngagementEvent } from '../types';
+import { loadPersisted, savePersisted, type PersistedSchema } from '../lib/persistence/versionedStorage';
 
 // =============================================================================
 // STORAGE KEYS
@@ -370,12 +374,42 @@ const DEMO_CONTACTS: Contact[] = [
   },
 ];
 
-// --- CONTACTS ARRAY (includes Contact Zero + optionally demo contacts) ---
+const DEMO_CONTACT_IDS = new Set(DEMO_CONTACTS.map(c => c.id));
 
-// Initialize CONTACTS with Contact Zero, then add demo contacts if enabled
-let CONTACTS: Contact[] = isDemoContactsEnabled()
-  ? [CONTACT_ZERO, ...DEMO_CONTACTS]
-  : [CONTACT_ZERO];
+/**
+ * Whether a contact is seeded demo data. Demo contacts exist identically on
+ * every device, so they are neither persisted nor synced.
+ */
+export const isDemoContact = (contactId: string): boolean => DEMO_CONTACT_IDS.has(contactId);
+
+// --- PERSISTENCE ---
+
+/** Every contact except Contact Zero and demo contacts */
+const CONTACTS_SCHEMA: PersistedSchema<Contact[]> = {
+  key: 'framelord_contacts',
+  version: 1,
+  defaults: () => [],
+};
+
+const isUserContact = (contact: Contact): boolean =>
+  contact.id !== CONTACT_ZERO.id && !isDemoContact(contact.id);
+
+// --- CONTACTS ARRAY (Contact Zero + optionally demo contacts + the user's contacts) ---
+
+const buildContactsList = (userContacts: Contact[]): Contact[] => [
+  CONTACT_ZERO,
+  ...(isDemoContactsEnabled() ? DEMO_CONTACTS : []),
+  ...userContacts,
+];
+
+let CONTACTS: Contact[] = buildContactsList(
+  loadPersisted(CONTACTS_SCHEMA).map(ensureContactCRMFields)
+);
+
+/** Write the user's contacts to localStorage */
+const saveContacts = (): void => {
+  savePersisted(CONTACTS_SCHEMA, CONTACTS.filter(isUserContact));
+};
 
 // --- SUBSCRIPTION SUPPORT ---
 // Allows components to subscribe to contact changes and re-render
@@ -402,9 +436,7 @@ const notifyContactSubscribers = (): void => {
  * Call this after changing demo contacts setting
  */
 export const refreshContactsList = (): void => {
-  CONTACTS = isDemoContactsEnabled()
-    ? [CONTACT_ZERO, ...DEMO_CONTACTS]
-    : [CONTACT_ZERO];
+  CONTACTS = buildContactsList(CONTACTS.filter(isUserContact));
   // Notify subscribers so components re-render with new contacts
   notifyContactSubscribers();
 };
@@ -527,7 +559,7 @@ export const createContact = (input: {
   xHandle?: string;
 }): Contact => {
   const newContact: Contact = {
-    id: `contact-${Date.now()}`,
+    id: `contact-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
     fullName: input.fullName.trim(),
     email: input.email?.trim() || undefined,
     phone: input.phone?.trim() || undefined,
@@ -557,6 +589,7 @@ export const createContact = (input: {
   };
 
   CONTACTS.push(newContact);
+  saveContacts();
   return newContact;
 };
 
@@ -580,6 +613,8 @@ export const updateContact = (updatedContact: Contact): void => {
   if (updatedContact.id === CONTACT_ZERO.id) {
     Object.assign(CONTACT_ZERO, updatedContact);
     saveContactZeroToStorage(CONTACT_ZERO);
+  } else {
+    saveContacts();
   }
 };
 
@@ -609,6 +644,52 @@ export const archiveContact = (contactId: string): void => {
   updateContact(updatedContact);
 };
 
+/**
+ * Permanently remove a contact (used to undo imports and merges).
+ * Prefer archiveContact for user-facing deletes. Cannot delete Contact Zero.
+ * @returns true if a contact was removed
+ */
+export const deleteContact = (contactId: string): boolean => {
+  if (contactId === CONTACT_ZERO.id) {
+    console.warn('Cannot delete Contact Zero');
+    return false;
+  }
+  const index = CONTACTS.findIndex(c => c.id === contactId);
+  if (index === -1) return false;
+  CONTACTS.splice(index, 1);
+  saveContacts();
+  notifyContactSubscribers();
+  return true;
+};
+
+/**
+ * Insert or replace a contact received from sync.
+ * Contact Zero is updated in place so existing references stay valid.
+ */
+export const applySyncedContact = (contact: Contact): void => {
+  const index = CONTACTS.findIndex(c => c.id === contact.id);
+  if (index === -1) {
+    CONTACTS.push(contact);
+    saveContacts();
+  } else {
+    updateContact(contact);
+  }
+  notifyContactSubscribers();
+};
+
+/**
+ * Remove a contact that was deleted on another device.
+ * Contact Zero can never be removed.
+ */
+export const removeSyncedContact = (contactId: string): void => {
+  if (contactId === CONTACT_ZERO.id) return;
+  const index = CONTACTS.findIndex(c => c.id === contactId);
+  if (index === -1) return;
+  CONTACTS.splice(index, 1);
+  saveContacts();
+  notifyContactSubscribers();
+};
+
 // =============================================================================
 // @ MENTION HELPERS
 // =============================================================================
@@ -196,6 +196,13 @@ export const deleteFolder = (id: string): boolean => {
   return FOLDERS.length < initialLength;
 };
 
+/**
+ * Insert or replace a folder from a workspace backup (keeps its timestamps)
+ */
+export const restoreFolder = (folder: Folder): void => {
+  FOLDERS = [...FOLDERS.filter(f => f.id !== folder.id), folder];
+};
+
 /**
  * Reorder folders (update order values)
  */
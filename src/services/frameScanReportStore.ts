@@ -12,7 +12,9 @@ import type {
   FrameImageAnnotation,
   FrameDomainId,
   FrameScanResult,
-  FrameScanContext
+  FrameScanContext,
+  FrameThreadAnalysis,
+  FrameCallAnalysis
 } from '../lib/frameScan/frameTypes';
 import type { FrameScanUIReport } from '../lib/frameScan/frameReportUI';
 import { CONTACT_ZERO } from './contactStore';
@@ -29,6 +31,8 @@ import { addFrameScanReportToMemory } from './aiMemoryAdapters';
 
 export type FrameScanSubjectType = 'self' | 'contact' | 'asset';
 
+export type FrameScanReportModality = 'text' | 'image' | 'mixed' | 'thread' | 'call';
+
 export interface FrameScanReport {
   id: string;
   createdAt: string;                    // ISO timestamp
@@ -36,15 +40,18 @@ export interface FrameScanReport {
   miniReportMarkdown: string;           // REQUIRED - Full markdown report with wikilinks
   subjectType: FrameScanSubjectType;
   subjectContactIds: string[];          // Array of contact IDs (includes "contact_zero" for self-scans)
-  modality: 'text' | 'image' | 'mixed';
+  modality: FrameScanReportModality;
   domain: FrameDomainId;
   customDomainTags?: string[];          // Optional custom domain tags (IDs from customDomainStore)
   context?: FrameScanContext;           // Optional scan context (what, who, userConcern)
   sourceRef?: string;                   // Optional reference to source (note id, image url, etc.)
+  sourceText?: string;                  // For text, thread and call scans: the scanned text or transcript (evidence span offsets point into it)
   rawResult: FrameScanResult;           // The full LLM response
   score: FrameScore;                    // The computed 0-100 score with breakdown
   imageAnnotations?: FrameImageAnnotation[];  // For image scans
   annotatedImageUrl?: string;           // For image scans
+  thread?: FrameThreadAnalysis;         // For thread and call scans: per-message scores and trajectory
+  call?: FrameCallAnalysis;             // For call scans: speaker turns and talk metrics
   uiReport?: FrameScanUIReport;         // Pre-built UI payload for rendering
 }
 
@@ -200,7 +207,7 @@ export const deleteFrameScanReport = (id: string): boolean => {
 /**
  * Get reports filtered by modality.
  */
-export const getReportsByModality = (modality: 'text' | 'image' | 'mixed'): FrameScanReport[] => {
+export const getReportsByModality = (modality: FrameScanReportModality): FrameScanReport[] => {
   return getFrameScanReports().filter(r => r.modality === modality);
 };
 
@@ -290,6 +297,22 @@ export const importReportsFromJSON = (json: string): void => {
   }
 };
 
+/**
+ * Insert or replace a single report from a workspace backup.
+ * Re-derives its psychometric evidence like a newly added report.
+ */
+export const restoreFrameScanReport = (report: FrameScanReport): void => {
+  const exists = REPORTS.some(r => r.id === report.id);
+  REPORTS = [report, ...REPORTS.filter(r => r.id !== report.id)];
+  emitChange();
+
+  if (exists) {
+    updateFrameScanAsPsychometricEvidence(report);
+  } else {
+    addFrameScanAsPsychometricEvidence(report);
+  }
+};
+
 /**
  * Clear all reports (use for testing/reset).
  */
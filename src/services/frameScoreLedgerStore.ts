@@ -0,0 +1,342 @@
+// =============================================================================
+// FRAME SCORE LEDGER STORE — Event-based FrameScore adjustments
+// =============================================================================
+// Every entry is one event that nudges a contact's FrameScore, kept as an
+// audit trail. Entries come from:
+//   - tasks about Contact Zero:  completed (+) / missed (−)
+//   - tasks about anyone else:   commitments kept (+) / broken (−)
+//     Both land on Contact Zero's ledger; the other contact is recorded as
+//     relatedContactId.
+//   - notable interactions:      on the ledger of the contact it was with
+//   - manual adjustments
+//
+// Task and interaction entries are derived by syncFrameScoreLedger, which is
+// idempotent: each entry has a stable ID built from its source, so re-running
+// it only adds what is new (or removes what was undone). Time decay is applied
+// when the score is computed (see lib/frameScan/frameProfile), not here.
+// =============================================================================
+
+import type { Task, TaskPriority } from '../types';
+import { loadPersisted, savePersisted, type PersistedSchema } from '../lib/persistence/versionedStorage';
+import { CONTACT_ZERO, getContactById } from './contactStore';
+import { getAllTasks, getTaskPriority, subscribeTasks } from './taskStore';
+import { getAllInteractions, subscribeInteractions } from './interactionStore';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type FrameScoreLedgerEventType =
+  | 'task_completed'
+  | 'task_missed'
+  | 'commitment_kept'
+  | 'commitment_broken'
+  | 'notable_interaction'
+  | 'manual_adjustment';
+
+export interface FrameScoreLedgerEntry {
+  id: string;
+  /** Whose FrameScore this adjusts */
+  contactId: string;
+  eventType: FrameScoreLedgerEventType;
+  /** FrameScore points before decay, positive or negative */
+  adjustment: number;
+  reason: string;
+  /** Task or interaction the entry was derived from */
+  sourceId?: string;
+  /** The other party, e.g. who a commitment was made to */
+  relatedContactId?: string;
+  /** When the event happened (decay is measured from here) */
+  occurredAt: string;
+  createdAt: string;
+}
+
+interface LedgerState {
+  entries: FrameScoreLedgerEntry[];
+  /** Last sync; null until the first one */
+  lastSyncAt: string | null;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Base points per event, before priority scaling and decay */
+export const LEDGER_EVENT_POINTS: Record<Exclude<FrameScoreLedgerEventType, 'manual_adjustment'>, number> = {
+  task_completed: 1,
+  task_missed: -2,
+  commitment_kept: 2,
+  commitment_broken: -4,
+  notable_interaction: 2,
+};
+
+/** Task points scale with priority */
+const PRIORITY_MULTIPLIER: Record<TaskPriority, number> = {
+  low: 0.5,
+  medium: 1,
+  high: 1.5,
+  critical: 2,
+};
+
+/** A task counts as missed this long after it was due */
+export const MISSED_GRACE_HOURS = 24;
+
+/** Manual adjustments are limited to this many points either way */
+export const MAX_MANUAL_ADJUSTMENT = 20;
+
+export const LEDGER_EVENT_LABELS: Record<FrameScoreLedgerEventType, string> = {
+  task_completed: 'Task completed',
+  task_missed: 'Task missed',
+  commitment_kept: 'Commitment kept',
+  commitment_broken: 'Commitment broken',
+  notable_interaction: 'Notable interaction',
+  manual_adjustment: 'Manual adjustment',
+};
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+const LEDGER_SCHEMA: PersistedSchema<LedgerState> = {
+  key: 'framelord_frame_score_ledger',
+  version: 1,
+  defaults: () => ({ entries: [], lastSyncAt: null }),
+};
+
+let LEDGER: LedgerState = loadPersisted(LEDGER_SCHEMA);
+
+const ledgerSubscribers: Set<() => void> = new Set();
+
+/**
+ * Subscribe to ledger changes
+ * Returns unsubscribe function
+ */
+export const subscribeFrameScoreLedger = (callback: () => void): (() => void) => {
+  ledgerSubscribers.add(callback);
+  return () => ledgerSubscribers.delete(callback);
+};
+
+/** Persist and notify subscribers */
+const saveLedger = (): void => {
+  savePersisted(LEDGER_SCHEMA, LEDGER);
+  ledgerSubscribers.forEach(callback => callback());
+};
+
+const generateLedgerEntryId = (): string =>
+  `ledger-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+export const getAllLedgerEntries = (): FrameScoreLedgerEntry[] => [...LEDGER.entries];
+
+/** Entries for a contact, newest first */
+export const getLedgerEntriesForContact = (contactId: string): FrameScoreLedgerEntry[] =>
+  LEDGER.entries
+    .filter(entry => entry.contactId === contactId)
+    .sort((a, b) => b.occurredAt.localeCompare(a.occurredAt));
+
+// =============================================================================
+// SYNC
+// =============================================================================
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+const taskEntry = (
+  task: Task,
+  eventType: 'task_completed' | 'task_missed' | 'commitment_kept' | 'commitment_broken',
+  occurredAt: string,
+  now: string,
+  late = false
+): FrameScoreLedgerEntry => {
+  const isCommitment = eventType === 'commitment_kept' || eventType === 'commitment_broken';
+  const relatedName = isCommitment ? getContactById(task.contactId)?.fullName || 'a contact' : null;
+  const points = LEDGER_EVENT_POINTS[eventType] * PRIORITY_MULTIPLIER[getTaskPriority(task)] * (late ? 0.5 : 1);
+
+  return {
+    id: `ledger-${eventType}-${task.id}`,
+    contactId: CONTACT_ZERO.id,
+    eventType,
+    adjustment: round1(points),
+    reason: `${task.title}${relatedName ? ` (to ${relatedName})` : ''}${late ? ' — late' : ''}`,
+    sourceId: task.id,
+    relatedContactId: isCommitment ? task.contactId : undefined,
+    occurredAt,
+    createdAt: now,
+  };
+};
+
+/** Entries the current tasks and interactions call for, keyed by ID */
+const deriveEntries = (now: Date, firstSync: boolean): Map<string, FrameScoreLedgerEntry> => {
+  const nowIso = now.toISOString();
+  const missedBefore = now.getTime() - MISSED_GRACE_HOURS * 60 * 60 * 1000;
+  const derived = new Map<string, FrameScoreLedgerEntry>();
+  const existing = new Map(LEDGER.entries.map(entry => [entry.id, entry]));
+  const add = (entry: FrameScoreLedgerEntry) => {
+    // Keep the first-seen version so completion times and reasons stay put
+    derived.set(entry.id, existing.get(entry.id) ?? entry);
+  };
+
+  for (const task of getAllTasks()) {
+    const isCommitment = task.contactId !== CONTACT_ZERO.id;
+    const dueMs = task.dueAt ? new Date(task.dueAt).getTime() : NaN;
+    const wasMissed = !Number.isNaN(dueMs) && dueMs < missedBefore;
+
+    if (task.status === 'done') {
+      const eventType = isCommitment ? 'commitment_kept' : 'task_completed';
+      // Completion times are not stored on tasks: use the first sync that sees
+      // it done. Tasks already done before the ledger existed are dated to
+      // their due date (or creation) so that backlog decays instead of spiking.
+      const occurredAt = firstSync
+        ? new Date(Math.min(now.getTime(), Number.isNaN(dueMs) ? new Date(task.createdAt).getTime() : dueMs)).toISOString()
+        : nowIso;
+      const missedId = `ledger-${isCommitment ? 'commitment_broken' : 'task_missed'}-${task.id}`;
+      add(taskEntry(task, eventType, occurredAt, nowIso, existing.has(missedId)));
+      if (existing.has(missedId)) add(existing.get(missedId)!);
+    } else if (task.status === 'open' && wasMissed) {
+      add(taskEntry(task, isCommitment ? 'commitment_broken' : 'task_missed', task.dueAt!, nowIso));
+    }
+  }
+
+  for (const interaction of getAllInteractions()) {
+    if (!interaction.isNotable) continue;
+    add({
+      id: `ledger-notable_interaction-${interaction.id}`,
+      contactId: interaction.contactId,
+      eventType: 'notable_interaction',
+      adjustment: LEDGER_EVENT_POINTS.notable_interaction,
+      reason: interaction.summary,
+      sourceId: interaction.id,
+      relatedContactId: interaction.authorContactId !== interaction.contactId ? interaction.authorContactId : undefined,
+      occurredAt: interaction.occurredAt,
+      createdAt: nowIso,
+    });
+  }
+
+  return derived;
+};
+
+/**
+ * Bring derived entries in line with current tasks and interactions.
+ * Adds new events, drops entries whose source was undone (a task reopened, an
+ * interaction un-flagged) and leaves manual adjustments alone. Missed-task
+ * entries stay once recorded, even if the task is completed later.
+ * @returns Number of entries added or removed
+ */
+export const syncFrameScoreLedger = (now: Date = new Date()): number => {
+  const firstSync = LEDGER.lastSyncAt === null;
+  const derived = deriveEntries(now, firstSync);
+
+  const kept = LEDGER.entries.filter(entry =>
+    entry.eventType === 'manual_adjustment' ||
+    entry.eventType === 'task_missed' ||
+    entry.eventType === 'commitment_broken' ||
+    derived.has(entry.id)
+  );
+  const keptIds = new Set(kept.map(entry => entry.id));
+  const added = [...derived.values()].filter(entry => !keptIds.has(entry.id));
+  const changes = added.length + (LEDGER.entries.length - kept.length);
+
+  LEDGER = { entries: [...kept, ...added], lastSyncAt: now.toISOString() };
+  if (changes > 0) saveLedger();
+  else if (firstSync) savePersisted(LEDGER_SCHEMA, LEDGER);
+  return changes;
+};
+
+let ledgerIntervalId: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Keep the ledger in sync: runs now, on every task or interaction change, and
+ * hourly (tasks become missed with the passage of time). Returns a stop function.
+ */
+export const startFrameScoreLedgerSync = (): (() => void) => {
+  syncFrameScoreLedger();
+  const unsubscribers = [
+    subscribeTasks(() => syncFrameScoreLedger()),
+    subscribeInteractions(() => syncFrameScoreLedger()),
+  ];
+  if (!ledgerIntervalId) {
+    ledgerIntervalId = setInterval(() => syncFrameScoreLedger(), 60 * 60 * 1000);
+  }
+
+  return () => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    if (ledgerIntervalId) {
+      clearInterval(ledgerIntervalId);
+      ledgerIntervalId = null;
+    }
+  };
+};
+
+// =============================================================================
+// MANUAL ADJUSTMENTS
+// =============================================================================
+
+/**
+ * Record a manual FrameScore adjustment for a contact.
+ * @returns The entry, or null if the adjustment is zero or the reason empty
+ */
+export const addManualLedgerAdjustment = (
+  contactId: string,
+  adjustment: number,
+  reason: string,
+  occurredAt: string = new Date().toISOString()
+): FrameScoreLedgerEntry | null => {
+  const points = round1(Math.max(-MAX_MANUAL_ADJUSTMENT, Math.min(MAX_MANUAL_ADJUSTMENT, adjustment)));
+  if (!points || !reason.trim()) {
+    console.warn('[FrameScoreLedger] Manual adjustment needs non-zero points and a reason');
+    return null;
+  }
+
+  const entry: FrameScoreLedgerEntry = {
+    id: generateLedgerEntryId(),
+    contactId,
+    eventType: 'manual_adjustment',
+    adjustment: points,
+    reason: reason.trim(),
+    occurredAt,
+    createdAt: new Date().toISOString(),
+  };
+  LEDGER = { ...LEDGER, entries: [...LEDGER.entries, entry] };
+  saveLedger();
+  return entry;
+};
+
+/** Remove a manual adjustment. Derived entries follow their source instead. */
+export const deleteManualLedgerAdjustment = (id: string): boolean => {
+  const entry = LEDGER.entries.find(e => e.id === id);
+  if (!entry || entry.eventType !== 'manual_adjustment') return false;
+  LEDGER = { ...LEDGER, entries: LEDGER.entries.filter(e => e.id !== id) };
+  saveLedger();
+  return true;
+};
+
+/**
+ * Move entries from one contact to another (used by contact merge), both as
+ * the scored contact and as the related party.
+ * @returns Number of entries changed
+ */
+export const reassignLedgerContact = (fromContactId: string, toContactId: string): number => {
+  let changed = 0;
+  const entries = LEDGER.entries.map(entry => {
+    if (entry.contactId !== fromContactId && entry.relatedContactId !== fromContactId) return entry;
+    changed++;
+    return {
+      ...entry,
+      contactId: entry.contactId === fromContactId ? toContactId : entry.contactId,
+      relatedContactId: entry.relatedContactId === fromContactId ? toContactId : entry.relatedContactId,
+    };
+  });
+  if (changed === 0) return 0;
+
+  LEDGER = { ...LEDGER, entries };
+  saveLedger();
+  return changed;
+};
+
+/** Insert or replace an entry as-is (backup restore) */
+export const restoreLedgerEntry = (entry: FrameScoreLedgerEntry): void => {
+  LEDGER = { ...LEDGER, entries: [...LEDGER.entries.filter(e => e.id !== entry.id), entry] };
+  saveLedger();
+};
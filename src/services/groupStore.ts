@@ -1,5 +1,6 @@
 // =============================================================================
 // GROUP STORE — In-memory data source for Groups and Group Memberships
+// (persisted to localStorage)
 // =============================================================================
 // Groups are containers for contacts. A contact can belong to many groups.
 // Groups have their own notes, topics, and can have automated behaviors.
@@ -7,10 +8,12 @@
 
 import { Group, GroupMembership } from '../types';
 import { CONTACT_ZERO } from './contactStore';
+import { loadPersisted, savePersisted, type PersistedSchema } from '../lib/persistence/versionedStorage';
 
-// --- MOCK GROUPS ---
+// --- SEED GROUPS ---
+// Used only on first load, before anything has been persisted
 
-let GROUPS: Group[] = [
+const SEED_GROUPS: Group[] = [
   {
     id: 'group_inner_circle',
     name: 'Inner Circle',
@@ -34,9 +37,9 @@ let GROUPS: Group[] = [
   },
 ];
 
-// --- MOCK MEMBERSHIPS ---
+// --- SEED MEMBERSHIPS ---
 
-let GROUP_MEMBERSHIPS: GroupMembership[] = [
+const SEED_GROUP_MEMBERSHIPS: GroupMembership[] = [
   // Inner Circle
   { groupId: 'group_inner_circle', contactId: CONTACT_ZERO.id, joinedAt: '2025-11-01T00:00:00Z' },
   { groupId: 'group_inner_circle', contactId: 'c_james_wilson', joinedAt: '2025-11-01T00:00:00Z' },
@@ -51,6 +54,29 @@ let GROUP_MEMBERSHIPS: GroupMembership[] = [
   { groupId: 'group_prospects', contactId: 'c_david_kim', joinedAt: '2025-11-01T00:00:00Z' },
 ];
 
+// --- PERSISTENCE ---
+
+const GROUPS_SCHEMA: PersistedSchema<Group[]> = {
+  key: 'framelord_groups',
+  version: 1,
+  defaults: () => [...SEED_GROUPS],
+};
+
+const GROUP_MEMBERSHIPS_SCHEMA: PersistedSchema<GroupMembership[]> = {
+  key: 'framelord_group_memberships',
+  version: 1,
+  defaults: () => [...SEED_GROUP_MEMBERSHIPS],
+};
+
+let GROUPS: Group[] = loadPersisted(GROUPS_SCHEMA);
+let GROUP_MEMBERSHIPS: GroupMembership[] = loadPersisted(GROUP_MEMBERSHIPS_SCHEMA);
+
+/** Write groups and memberships to localStorage */
+const saveGroups = (): void => {
+  savePersisted(GROUPS_SCHEMA, GROUPS);
+  savePersisted(GROUP_MEMBERSHIPS_SCHEMA, GROUP_MEMBERSHIPS);
+};
+
 // --- HELPER FUNCTIONS ---
 
 /** Generate a unique ID for new groups */
@@ -86,6 +112,7 @@ export const createGroup = (input: {
   };
 
   GROUPS.push(group);
+  saveGroups();
   return group;
 };
 
@@ -103,6 +130,7 @@ export const updateGroup = (group: Group): void => {
   };
 
   GROUPS[index] = updated;
+  saveGroups();
 };
 
 /** Delete a group (safe delete: removes all memberships too) */
@@ -118,6 +146,7 @@ export const deleteGroup = (id: string): void => {
 
   // Remove the group
   GROUPS.splice(index, 1);
+  saveGroups();
 };
 
 // --- MEMBERSHIP FUNCTIONS ---
@@ -159,6 +188,7 @@ export const addMember = (input: {
   };
 
   GROUP_MEMBERSHIPS.push(membership);
+  saveGroups();
 
   // Update group's updatedAt
   const group = getGroupById(input.groupId);
@@ -178,6 +208,7 @@ export const removeMember = (groupId: string, contactId: string): void => {
   }
 
   GROUP_MEMBERSHIPS.splice(index, 1);
+  saveGroups();
 
   // Update group's updatedAt
   const group = getGroupById(groupId);
@@ -186,6 +217,30 @@ export const removeMember = (groupId: string, contactId: string): void => {
   }
 };
 
+/**
+ * Move every membership of one contact onto another (used by contact merge).
+ * Where both were members of a group, the earlier joinedAt is kept.
+ * @returns Number of groups affected
+ */
+export const reassignGroupMemberships = (fromContactId: string, toContactId: string): number => {
+  const moving = GROUP_MEMBERSHIPS.filter(m => m.contactId === fromContactId);
+  if (moving.length === 0) return 0;
+
+  GROUP_MEMBERSHIPS = GROUP_MEMBERSHIPS.filter(m => m.contactId !== fromContactId);
+  for (const membership of moving) {
+    const existing = GROUP_MEMBERSHIPS.find(
+      m => m.groupId === membership.groupId && m.contactId === toContactId
+    );
+    if (!existing) {
+      GROUP_MEMBERSHIPS.push({ ...membership, contactId: toContactId });
+    } else if (membership.joinedAt < existing.joinedAt) {
+      existing.joinedAt = membership.joinedAt;
+    }
+  }
+  saveGroups();
+  return moving.length;
+};
+
 /** Check if a contact is a member of a group */
 export const isMember = (groupId: string, contactId: string): boolean => {
   return GROUP_MEMBERSHIPS.some(
@@ -193,10 +248,22 @@ export const isMember = (groupId: string, contactId: string): boolean => {
   );
 };
 
+// --- BACKUP / RESTORE ---
 
+/** Every membership across all groups (for workspace export) */
+export const getAllGroupMemberships = (): GroupMembership[] => [...GROUP_MEMBERSHIPS];
 
+/** Insert or replace a group from a workspace backup (keeps its timestamps) */
+export const restoreGroup = (group: Group): void => {
+  GROUPS = [...GROUPS.filter(g => g.id !== group.id), group];
+  saveGroups();
+};
 
-
-
-
-
+/** Insert or replace a membership from a workspace backup */
+export const restoreGroupMembership = (membership: GroupMembership): void => {
+  GROUP_MEMBERSHIPS = [
+    ...GROUP_MEMBERSHIPS.filter(m => !(m.groupId === membership.groupId && m.contactId === membership.contactId)),
+    membership,
+  ];
+  saveGroups();
+};
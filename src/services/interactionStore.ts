@@ -1,18 +1,20 @@
 // =============================================================================
-// INTERACTION STORE — In-memory data source for Interactions
+// INTERACTION STORE — In-memory data source for Interactions (persisted to localStorage)
 // =============================================================================
 // INVARIANT: Every Interaction has a contactId and authorContactId.
 // Interactions track calls, meetings, messages, emails, DMs, etc. with contacts.
 // =============================================================================
 
 import { Interaction, InteractionType, InteractionAttachment, InteractionDirection, InteractionSource } from '../types';
-import { CONTACT_ZERO } from './contactStore';
+import { CONTACT_ZERO, isDemoContact } from './contactStore';
+import { loadPersisted, savePersisted, type PersistedSchema } from '../lib/persistence/versionedStorage';
 
-// --- MOCK INTERACTIONS ---
+// --- SEED INTERACTIONS ---
 // All interactions are linked to a Contact via contactId
 // All interactions are authored by CONTACT_ZERO (for now)
+// Used only on first load, before anything has been persisted
 
-let MOCK_INTERACTIONS: Interaction[] = [
+const SEED_INTERACTIONS: Interaction[] = [
   // Interactions with Sarah Chen (prospect)
   {
     id: 'int_001',
@@ -164,6 +166,33 @@ let MOCK_INTERACTIONS: Interaction[] = [
   },
 ];
 
+// --- PERSISTENCE ---
+
+const INTERACTIONS_SCHEMA: PersistedSchema<Interaction[]> = {
+  key: 'framelord_interactions',
+  version: 1,
+  defaults: () => [...SEED_INTERACTIONS],
+};
+
+let MOCK_INTERACTIONS: Interaction[] = loadPersisted(INTERACTIONS_SCHEMA);
+
+const interactionSubscribers: Set<() => void> = new Set();
+
+/**
+ * Subscribe to interaction changes (fired on every write)
+ * Returns unsubscribe function
+ */
+export const subscribeInteractions = (callback: () => void): (() => void) => {
+  interactionSubscribers.add(callback);
+  return () => interactionSubscribers.delete(callback);
+};
+
+/** Write the current interaction list to localStorage */
+const saveInteractions = (): void => {
+  savePersisted(INTERACTIONS_SCHEMA, MOCK_INTERACTIONS);
+  interactionSubscribers.forEach((callback) => callback());
+};
+
 // --- HELPER FUNCTIONS ---
 
 /** Generate a unique ID for new interactions */
@@ -214,6 +243,7 @@ export const createInteraction = (params: {
   };
 
   MOCK_INTERACTIONS = [newInteraction, ...MOCK_INTERACTIONS];
+  saveInteractions();
   return newInteraction;
 };
 
@@ -233,6 +263,7 @@ export const updateInteraction = (updated: Interaction): void => {
     return;
   }
   MOCK_INTERACTIONS[index] = updated;
+  saveInteractions();
 };
 
 /**
@@ -246,6 +277,36 @@ export const deleteInteraction = (id: string): void => {
     return;
   }
   MOCK_INTERACTIONS.splice(index, 1);
+  saveInteractions();
+};
+
+/**
+ * Insert or replace an interaction received from sync.
+ * Does not touch any version bookkeeping; the sync engine owns that.
+ */
+export const applySyncedInteraction = (interaction: Interaction): void => {
+  const index = MOCK_INTERACTIONS.findIndex(i => i.id === interaction.id);
+  if (index === -1) {
+    MOCK_INTERACTIONS = [interaction, ...MOCK_INTERACTIONS];
+  } else {
+    MOCK_INTERACTIONS[index] = interaction;
+  }
+  saveInteractions();
+};
+
+/** Remove an interaction that was deleted on another device */
+export const removeSyncedInteraction = (id: string): void => {
+  MOCK_INTERACTIONS = MOCK_INTERACTIONS.filter(i => i.id !== id);
+  saveInteractions();
+};
+
+const SEED_INTERACTION_IDS = new Set(SEED_INTERACTIONS.map(i => i.id));
+
+/** Seeded interactions and interactions with or by demo contacts stay on this device */
+export const isLocalOnlyInteraction = (id: string): boolean => {
+  if (SEED_INTERACTION_IDS.has(id)) return true;
+  const interaction = getInteractionById(id);
+  return !!interaction && (isDemoContact(interaction.contactId) || isDemoContact(interaction.authorContactId));
 };
 
 /**
@@ -278,6 +339,7 @@ export const addAttachmentToInteraction = (
   }
 
   interaction.attachments.push(newAttachment);
+  saveInteractions();
   return newAttachment;
 };
 
@@ -294,6 +356,7 @@ export const removeAttachmentFromInteraction = (interactionId: string, attachmen
   }
 
   interaction.attachments = interaction.attachments.filter(a => a.id !== attachmentId);
+  saveInteractions();
 };
 
 /**
@@ -328,6 +391,7 @@ export const logAutoInteraction = (params: {
   };
 
   MOCK_INTERACTIONS = [newInteraction, ...MOCK_INTERACTIONS];
+  saveInteractions();
   return newInteraction;
 };
 
@@ -359,6 +423,7 @@ export const toggleInteractionNotable = (interactionId: string): void => {
   }
 
   interaction.isNotable = !interaction.isNotable;
+  saveInteractions();
 };
 
 /**
@@ -372,5 +437,6 @@ export const setInteractionNotable = (interactionId: string, isNotable: boolean)
   }
 
   interaction.isNotable = isNotable;
+  saveInteractions();
 };
 
@@ -0,0 +1,353 @@
+// =============================================================================
+// NOTE COMMENT STORE — Threaded, anchored comments on notes
+// =============================================================================
+// A thread is a root comment plus its replies (replies point at the root via
+// threadId). The root carries the thread state:
+//   - anchor: the passage it was left on (see lib/editor/textAnchor), which is
+//     re-located against the current note text on read so it follows edits
+//   - resolvedAt / resolvedBy: resolve and reopen without losing the thread
+//
+// @mentions are resolved against contact names when a comment is saved, so
+// "@Ada Lovelace can you check" stores Ada's contact ID.
+// =============================================================================
+
+import type { Note } from '../types';
+import { loadPersisted, savePersisted, type PersistedSchema } from '../lib/persistence/versionedStorage';
+import { anchorAt, resolveTextAnchor, type TextAnchor, type ResolvedTextAnchor } from '../lib/editor/textAnchor';
+import { CONTACT_ZERO, getAllContacts, getContactById } from './contactStore';
+import { getNoteById } from './noteStore';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface NoteComment {
+  id: string;
+  noteId: string;
+  /** Root comment ID for replies; undefined on the root itself */
+  threadId?: string;
+  authorContactId: string;
+  authorName: string;
+  content: string;
+  mentionedContactIds: string[];
+  createdAt: string;
+  updatedAt: string;
+  /** Root only: the passage the thread is attached to */
+  anchor?: TextAnchor;
+  /** Root only: set while the thread is resolved */
+  resolvedAt?: string;
+  resolvedBy?: string;
+}
+
+export interface CommentThread {
+  root: NoteComment;
+  replies: NoteComment[];
+  resolved: boolean;
+  /** Where the anchor currently sits (undefined for unanchored threads) */
+  range?: ResolvedTextAnchor;
+  /** True when the anchored passage no longer exists in the note */
+  orphaned: boolean;
+}
+
+export interface CommentAuthor {
+  contactId: string;
+  name: string;
+}
+
+export interface CommentFeedItem {
+  comment: NoteComment;
+  noteId: string;
+  noteTitle: string;
+  /** Resolution state of the thread the comment belongs to */
+  resolved: boolean;
+}
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+const NOTE_COMMENTS_SCHEMA: PersistedSchema<NoteComment[]> = {
+  key: 'framelord_note_comments',
+  version: 1,
+  defaults: () => [],
+};
+
+let COMMENTS: NoteComment[] = loadPersisted(NOTE_COMMENTS_SCHEMA);
+
+const commentSubscribers: Set<() => void> = new Set();
+
+/**
+ * Subscribe to comment changes
+ * Returns unsubscribe function
+ */
+export const subscribeComments = (callback: () => void): (() => void) => {
+  commentSubscribers.add(callback);
+  return () => commentSubscribers.delete(callback);
+};
+
+/** Persist and notify subscribers */
+const saveComments = (): void => {
+  savePersisted(NOTE_COMMENTS_SCHEMA, COMMENTS);
+  commentSubscribers.forEach(callback => callback());
+};
+
+const generateCommentId = (): string =>
+  `comment-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const selfAuthor = (): CommentAuthor => ({ contactId: CONTACT_ZERO.id, name: CONTACT_ZERO.fullName });
+
+const rootOf = (comment: NoteComment): NoteComment | undefined =>
+  comment.threadId ? COMMENTS.find(c => c.id === comment.threadId) : comment;
+
+const byCreatedAt = (a: NoteComment, b: NoteComment) => a.createdAt.localeCompare(b.createdAt);
+
+// =============================================================================
+// MENTIONS
+// =============================================================================
+
+/**
+ * Resolve "@Full Name" mentions in comment text to contact IDs. At each "@"
+ * the longest matching contact name wins, so "@Ada Lovelace" prefers
+ * "Ada Lovelace" over a contact named "Ada".
+ */
+export const resolveCommentMentions = (content: string): string[] => {
+  const contacts = getAllContacts()
+    .filter(c => c.id !== CONTACT_ZERO.id && c.fullName.trim())
+    .sort((a, b) => b.fullName.length - a.fullName.length);
+  const found: string[] = [];
+  const lower = content.toLowerCase();
+
+  for (let at = lower.indexOf('@'); at !== -1; at = lower.indexOf('@', at + 1)) {
+    // Skip email addresses ("ada@example.com")
+    if (at > 0 && /\w/.test(lower[at - 1])) continue;
+    const rest = lower.slice(at + 1);
+    const match = contacts.find(c => {
+      const name = c.fullName.toLowerCase();
+      return rest.startsWith(name) && !/\w/.test(rest.charAt(name.length));
+    });
+    if (match && !found.includes(match.id)) found.push(match.id);
+  }
+  return found;
+};
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+export const getAllNoteComments = (): NoteComment[] => [...COMMENTS];
+
+export const getCommentById = (commentId: string): NoteComment | undefined =>
+  COMMENTS.find(c => c.id === commentId);
+
+/** All comments on a note (roots and replies), oldest first */
+export const getNoteComments = (noteId: string): NoteComment[] =>
+  COMMENTS.filter(c => c.noteId === noteId).sort(byCreatedAt);
+
+/**
+ * Threads on a note. Pass the note's current anchor text to locate anchors;
+ * threads are then ordered by position in the note, with unanchored and
+ * orphaned threads last.
+ */
+export const getCommentThreads = (noteId: string, anchorText?: string): CommentThread[] => {
+  const comments = getNoteComments(noteId);
+  const threads = comments
+    .filter(c => !c.threadId)
+    .map((root): CommentThread => {
+      const range = root.anchor && anchorText !== undefined ? resolveTextAnchor(root.anchor, anchorText) : null;
+      return {
+        root,
+        replies: comments.filter(c => c.threadId === root.id),
+        resolved: !!root.resolvedAt,
+        range: range || undefined,
+        orphaned: !!root.anchor && anchorText !== undefined && !range,
+      };
+    });
+
+  const position = (t: CommentThread) => (t.range ? t.range.start : Number.MAX_SAFE_INTEGER);
+  return threads.sort((a, b) => position(a) - position(b) || byCreatedAt(a.root, b.root));
+};
+
+/** Comments that @mention a contact, newest first */
+export const getCommentsMentioningContact = (contactId: string): NoteComment[] =>
+  COMMENTS.filter(c => c.mentionedContactIds.includes(contactId)).sort((a, b) => byCreatedAt(b, a));
+
+/**
+ * Activity feed of comments on notes the user authored, newest first.
+ * By default the user's own comments and resolved threads are left out.
+ */
+export const getCommentsOnMyNotes = (
+  options: { includeOwn?: boolean; includeResolved?: boolean; limit?: number } = {}
+): CommentFeedItem[] => {
+  const items: CommentFeedItem[] = [];
+  const notes = new Map<string, Note | undefined>();
+
+  for (const comment of [...COMMENTS].sort((a, b) => byCreatedAt(b, a))) {
+    if (!options.includeOwn && comment.authorContactId === CONTACT_ZERO.id) continue;
+    if (!notes.has(comment.noteId)) notes.set(comment.noteId, getNoteById(comment.noteId));
+    const note = notes.get(comment.noteId);
+    if (!note || note.deletedAt || note.isArchived || note.authorContactId !== CONTACT_ZERO.id) continue;
+
+    const resolved = !!rootOf(comment)?.resolvedAt;
+    if (resolved && !options.includeResolved) continue;
+
+    items.push({ comment, noteId: note.id, noteTitle: note.title || 'Untitled', resolved });
+    if (options.limit && items.length >= options.limit) break;
+  }
+  return items;
+};
+
+// =============================================================================
+// MUTATIONS
+// =============================================================================
+
+/**
+ * Start a thread on a note, optionally anchored to a passage.
+ * @returns The root comment, or null if the content is empty
+ */
+export const addComment = (
+  noteId: string,
+  content: string,
+  options: { anchor?: TextAnchor | null; author?: CommentAuthor } = {}
+): NoteComment | null => {
+  const text = content.trim();
+  if (!text) return null;
+
+  const author = options.author || selfAuthor();
+  const now = new Date().toISOString();
+  const comment: NoteComment = {
+    id: generateCommentId(),
+    noteId,
+    authorContactId: author.contactId,
+    authorName: author.name,
+    content: text,
+    mentionedContactIds: resolveCommentMentions(text),
+    createdAt: now,
+    updatedAt: now,
+    anchor: options.anchor || undefined,
+  };
+
+  COMMENTS = [...COMMENTS, comment];
+  saveComments();
+  return comment;
+};
+
+/**
+ * Reply to a thread. Replying to a reply attaches to the same thread, and
+ * replying to a resolved thread reopens it.
+ * @returns The reply, or null if the thread does not exist or content is empty
+ */
+export const replyToComment = (
+  commentId: string,
+  content: string,
+  options: { author?: CommentAuthor } = {}
+): NoteComment | null => {
+  const target = getCommentById(commentId);
+  const root = target && rootOf(target);
+  const text = content.trim();
+  if (!root) {
+    console.warn(`[NoteCommentStore] Cannot reply, comment ${commentId} not found`);
+    return null;
+  }
+  if (!text) return null;
+
+  const author = options.author || selfAuthor();
+  const now = new Date().toISOString();
+  const reply: NoteComment = {
+    id: generateCommentId(),
+    noteId: root.noteId,
+    threadId: root.id,
+    authorContactId: author.contactId,
+    authorName: author.name,
+    content: text,
+    mentionedContactIds: resolveCommentMentions(text),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  COMMENTS = [
+    ...COMMENTS.map(c => (c.id === root.id && c.resolvedAt ? { ...c, resolvedAt: undefined, resolvedBy: undefined } : c)),
+    reply,
+  ];
+  saveComments();
+  return reply;
+};
+
+/** Edit a comment's text (mentions are re-resolved) */
+export const editComment = (commentId: string, content: string): NoteComment | null => {
+  const text = content.trim();
+  const existing = getCommentById(commentId);
+  if (!existing || !text) return null;
+
+  const updated: NoteComment = {
+    ...existing,
+    content: text,
+    mentionedContactIds: resolveCommentMentions(text),
+    updatedAt: new Date().toISOString(),
+  };
+  COMMENTS = COMMENTS.map(c => (c.id === commentId ? updated : c));
+  saveComments();
+  return updated;
+};
+
+/** Delete a comment; deleting a thread's root deletes the whole thread */
+export const deleteComment = (commentId: string): void => {
+  const before = COMMENTS.length;
+  COMMENTS = COMMENTS.filter(c => c.id !== commentId && c.threadId !== commentId);
+  if (COMMENTS.length < before) saveComments();
+};
+
+const setThreadResolved = (commentId: string, resolvedBy: string | null): NoteComment | null => {
+  const target = getCommentById(commentId);
+  const root = target && rootOf(target);
+  if (!root) return null;
+
+  const updated: NoteComment = resolvedBy
+    ? { ...root, resolvedAt: new Date().toISOString(), resolvedBy }
+    : { ...root, resolvedAt: undefined, resolvedBy: undefined };
+  COMMENTS = COMMENTS.map(c => (c.id === root.id ? updated : c));
+  saveComments();
+  return updated;
+};
+
+/** Mark the thread containing a comment as resolved */
+export const resolveThread = (commentId: string, resolvedBy: string = CONTACT_ZERO.id): NoteComment | null =>
+  setThreadResolved(commentId, resolvedBy);
+
+/** Reopen a resolved thread */
+export const reopenThread = (commentId: string): NoteComment | null => setThreadResolved(commentId, null);
+
+/**
+ * Store the anchors' current positions so future resolution starts from
+ * where the passages are now rather than where they were first anchored.
+ */
+export const reanchorThreads = (threads: CommentThread[], anchorText: string): void => {
+  const moved = new Map<string, TextAnchor>();
+  for (const thread of threads) {
+    const { anchor } = thread.root;
+    if (!anchor || !thread.range) continue;
+    const { start, end } = thread.range;
+    if (anchor.start === start && anchor.quote === thread.range.text) continue;
+    moved.set(thread.root.id, anchorAt(anchorText, start, end));
+  }
+  if (moved.size === 0) return;
+  COMMENTS = COMMENTS.map(c => (moved.has(c.id) ? { ...c, anchor: moved.get(c.id) } : c));
+  saveComments();
+};
+
+/** Drop the comments of notes that were permanently deleted */
+export const deleteNoteComments = (noteIds: string[]): void => {
+  const ids = new Set(noteIds);
+  const before = COMMENTS.length;
+  COMMENTS = COMMENTS.filter(c => !ids.has(c.noteId));
+  if (COMMENTS.length < before) saveComments();
+};
+
+/** Insert or replace a comment as-is (backup restore) */
+export const restoreNoteComment = (comment: NoteComment): void => {
+  COMMENTS = [...COMMENTS.filter(c => c.id !== comment.id), comment];
+  savePersisted(NOTE_COMMENTS_SCHEMA, COMMENTS);
+};
+
+/** Display name for a comment author, preferring the live contact name */
+export const getCommentAuthorName = (comment: NoteComment): string =>
+  getContactById(comment.authorContactId)?.fullName || comment.authorName;
@@ -0,0 +1,145 @@
+// =============================================================================
+// NOTE REVISION STORE — Bounded per-note version history
+// =============================================================================
+// Before updateNote overwrites a note's title or content, the previous state
+// is captured here as a full snapshot. Editors save on every keystroke, so
+// captures are coalesced: while a note is being edited continuously, only
+// the state from the start of the burst is kept. Each note keeps at most
+// MAX_REVISIONS_PER_NOTE snapshots, and the whole history at most
+// MAX_REVISION_STORAGE_CHARS so it cannot fill the localStorage quota
+// (oldest dropped first in both cases).
+//
+// Restoring a revision lives in noteStore (restoreNoteRevision) because it
+// goes through updateNote; this store only records and reads history.
+// =============================================================================
+
+import type { Note } from '../types';
+import { loadPersisted, savePersisted, type PersistedSchema } from '../lib/persistence/versionedStorage';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Why a snapshot was taken */
+export type NoteRevisionReason = 'edit' | 'restore';
+
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  title: string | null;
+  /** Note content (HTML) as it was before being overwritten */
+  content: string;
+  /** Note's sync_version at capture time */
+  syncVersion: number;
+  /** When the snapshotted state was last edited */
+  editedAt: string;
+  /** When the snapshot was taken */
+  createdAt: string;
+  reason: NoteRevisionReason;
+}
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+export const MAX_REVISIONS_PER_NOTE = 50;
+
+/** Characters of title + content kept across all notes (localStorage holds ~5M) */
+export const MAX_REVISION_STORAGE_CHARS = 1_500_000;
+
+/** Edits closer together than this belong to the same editing burst */
+export const REVISION_COALESCE_MS = 5 * 60 * 1000;
+
+const NOTE_REVISIONS_SCHEMA: PersistedSchema<NoteRevision[]> = {
+  key: 'framelord_note_revisions',
+  version: 1,
+  defaults: () => [],
+};
+
+/** All revisions in capture order (oldest first) */
+let REVISIONS: NoteRevision[] = loadPersisted(NOTE_REVISIONS_SCHEMA);
+
+/** Write revisions to localStorage */
+const saveRevisions = (): void => {
+  savePersisted(NOTE_REVISIONS_SCHEMA, REVISIONS);
+};
+
+const generateRevisionId = (): string =>
+  `rev-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const revisionSize = (revision: NoteRevision): number =>
+  revision.content.length + (revision.title?.length || 0);
+
+/** Drop the oldest revisions of any note until the history fits; the newest is always kept */
+const enforceStorageLimit = (): void => {
+  let total = REVISIONS.reduce((sum, r) => sum + revisionSize(r), 0);
+  let dropCount = 0;
+  while (total > MAX_REVISION_STORAGE_CHARS && dropCount < REVISIONS.length - 1) {
+    total -= revisionSize(REVISIONS[dropCount]);
+    dropCount++;
+  }
+  if (dropCount > 0) REVISIONS = REVISIONS.slice(dropCount);
+};
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/** Revisions of a note, newest first (ties keep capture order) */
+export const getNoteRevisions = (noteId: string): NoteRevision[] =>
+  REVISIONS.filter(r => r.noteId === noteId).reverse().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+export const getNoteRevisionById = (revisionId: string): NoteRevision | undefined =>
+  REVISIONS.find(r => r.id === revisionId);
+
+// =============================================================================
+// MUTATIONS
+// =============================================================================
+
+/**
+ * Snapshot a note's current title and content before it is overwritten.
+ * Skipped for empty notes, for states identical to the latest revision and
+ * (unless `force` is set) while the note is still in the editing burst the
+ * latest revision started, i.e. its last edit is within REVISION_COALESCE_MS.
+ * @returns The new revision, or null if nothing was recorded
+ */
+export const captureNoteRevision = (
+  note: Pick<Note, 'id' | 'title' | 'content' | 'sync_version' | 'updatedAt'>,
+  options: { reason?: NoteRevisionReason; force?: boolean } = {}
+): NoteRevision | null => {
+  const content = note.content || '';
+  const title = note.title ?? null;
+  if (!content && !title) return null;
+
+  const [latest] = getNoteRevisions(note.id);
+  if (latest) {
+    if (latest.content === content && latest.title === title) return null;
+    const sinceLastEdit = Date.now() - new Date(note.updatedAt).getTime();
+    if (!options.force && sinceLastEdit < REVISION_COALESCE_MS) return null;
+  }
+
+  const revision: NoteRevision = {
+    id: generateRevisionId(),
+    noteId: note.id,
+    title,
+    content,
+    syncVersion: note.sync_version || 0,
+    editedAt: note.updatedAt,
+    createdAt: new Date().toISOString(),
+    reason: options.reason || 'edit',
+  };
+
+  const kept = getNoteRevisions(note.id).slice(0, MAX_REVISIONS_PER_NOTE - 1).map(r => r.id);
+  REVISIONS = [...REVISIONS.filter(r => r.noteId !== note.id || kept.includes(r.id)), revision];
+  enforceStorageLimit();
+  saveRevisions();
+  return revision;
+};
+
+/** Drop the history of notes that were permanently deleted */
+export const deleteNoteRevisions = (noteIds: string[]): void => {
+  const ids = new Set(noteIds);
+  const before = REVISIONS.length;
+  REVISIONS = REVISIONS.filter(r => !ids.has(r.noteId));
+  if (REVISIONS.length < before) saveRevisions();
+};
@@ -7,7 +7,7 @@
 // NEW: Unified Note model with BlockSuite document support and PARA organization.
 // =============================================================================
 
-import { Note, NoteLink, NoteKind, NoteViewMode } from '../types';
+import { Note, NoteLink, NoteKind, NoteViewMode, NoteSource } from '../types';
 import {
   CONTACT_ZERO,
   addNoteMentionToContact,
@@ -28,6 +28,9 @@ import {
   createTopicFromHashtag,
   addContactToTopic,
 } from './topicStore';
+import { captureNoteRevision, deleteNoteRevisions, getNoteRevisionById } from './noteRevisionStore';
+import { deleteNoteComments } from './noteCommentStore';
+import { deleteNoteReviewItems } from './reviewStore';
 
 // =============================================================================
 // MIGRATION HELPERS
@@ -257,6 +260,7 @@ const ensureNoteForLink = (
   };
 
   MOCK_NOTES = [newNote, ...MOCK_NOTES];
+  notifyNoteSubscribers();
   return newNote;
 };
 
@@ -309,6 +313,26 @@ const loadNotesFromStorage = (): Note[] => {
   return [];
 };
 
+// --- SUBSCRIPTION SUPPORT ---
+// Notified on saves and on in-memory edits (most edits are not persisted)
+const noteSubscribers: Set<() => void> = new Set();
+
+/**
+ * Subscribe to note changes
+ * Returns unsubscribe function
+ */
+export const subscribeNotes = (callback: () => void): (() => void) => {
+  noteSubscribers.add(callback);
+  return () => noteSubscribers.delete(callback);
+};
+
+/**
+ * Notify all subscribers of note changes
+ */
+const notifyNoteSubscribers = (): void => {
+  noteSubscribers.forEach((callback) => callback());
+};
+
 // Save notes to localStorage
 const saveNotes = (): void => {
   try {
@@ -316,6 +340,7 @@ const saveNotes = (): void => {
   } catch (e) {
     console.warn('[NoteStore] Failed to save notes to localStorage:', e);
   }
+  notifyNoteSubscribers();
 };
 
 // Initialize from localStorage or start with empty array
@@ -433,6 +458,7 @@ export const createNote = (params: {
   preferredView?: NoteViewMode;
   targetContactIds?: string[];
   tags?: string[];
+  source?: NoteSource;
   // Legacy params (backward compatibility)
   contactId?: string;
   authorContactId?: string;
@@ -515,6 +541,7 @@ export const createNote = (params: {
     contactId: params.contactId || targetContactIds[0] || CONTACT_ZERO.id,
     targetContactId: params.targetContactId,
     mentionedContactIds: params.mentionedContactIds ? [...params.mentionedContactIds] : undefined,
+    ...(params.source && { source: params.source }),
   };
 
   MOCK_NOTES = [newNote, ...MOCK_NOTES];
@@ -528,9 +555,26 @@ export const createNote = (params: {
   // Add note content as psychometric evidence for target contacts
   addNoteAsPsychometricEvidence(newNote);
 
+  notifyNoteSubscribers();
   return newNote;
 };
 
+/**
+ * Whether new content replaces more than half of the previous content:
+ * what survives is the unchanged start and end around the edited span.
+ */
+const replacesMostOf = (previous: string, next: string): boolean => {
+  const maxShared = Math.min(previous.length, next.length);
+  let prefix = 0;
+  while (prefix < maxShared && previous[prefix] === next[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < maxShared - prefix &&
+    previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]
+  ) suffix++;
+  return prefix + suffix < previous.length / 2;
+};
+
 /**
  * Update an existing note
  * Supports both legacy and new unified schema fields
@@ -563,6 +607,18 @@ export const updateNote = (
   if (index === -1) return null;
 
   const currentNote = MOCK_NOTES[index];
+
+  // Keep the previous version recoverable. Deleting or pasting over most of
+  // the note always gets a snapshot, even mid-burst, since those are the
+  // usual accidental overwrites.
+  const contentChanged = updates.content !== undefined && updates.content !== currentNote.content;
+  const titleChanged = updates.title !== undefined && updates.title !== currentNote.title;
+  if (contentChanged || titleChanged) {
+    captureNoteRevision(currentNote, {
+      force: contentChanged && replacesMostOf(currentNote.content || '', updates.content || ''),
+    });
+  }
+
   MOCK_NOTES[index] = {
     ...currentNote,
     ...updates,
@@ -600,6 +656,7 @@ export const updateNote = (
     updateNoteAsPsychometricEvidence(MOCK_NOTES[index]);
   }
 
+  notifyNoteSubscribers();
   return MOCK_NOTES[index];
 };
 
@@ -619,12 +676,31 @@ export const permanentlyDeleteNote = (noteId: string): boolean => {
   const initialLength = MOCK_NOTES.length;
   MOCK_NOTES = MOCK_NOTES.filter(n => n.id !== noteId);
   if (MOCK_NOTES.length < initialLength) {
+    deleteNoteRevisions([noteId]);
+    deleteNoteComments([noteId]);
+    deleteNoteReviewItems([noteId]);
     saveNotes();
     return true;
   }
   return false;
 };
 
+/**
+ * Restore a revision as a new version of the note.
+ * The current state is snapshotted first, so the restore can itself be undone.
+ */
+export const restoreNoteRevision = (noteId: string, revisionId: string): Note | null => {
+  const note = MOCK_NOTES.find(n => n.id === noteId);
+  const revision = getNoteRevisionById(revisionId);
+  if (!note || !revision || revision.noteId !== noteId) {
+    console.warn('[NoteStore] Cannot restore revision', revisionId, 'of note', noteId);
+    return null;
+  }
+
+  captureNoteRevision(note, { reason: 'restore', force: true });
+  return updateNote(noteId, { title: revision.title, content: revision.content });
+};
+
 /** Restore a note from trash */
 export const restoreNote = (noteId: string): boolean => {
   const note = MOCK_NOTES.find(n => n.id === noteId);
@@ -650,7 +726,12 @@ export const emptyTrash = (): number => {
   const deletedNotes = MOCK_NOTES.filter(n => n.deletedAt);
   const count = deletedNotes.length;
   MOCK_NOTES = MOCK_NOTES.filter(n => !n.deletedAt);
-  if (count > 0) saveNotes();
+  if (count > 0) {
+    deleteNoteRevisions(deletedNotes.map(n => n.id));
+    deleteNoteComments(deletedNotes.map(n => n.id));
+    deleteNoteReviewItems(deletedNotes.map(n => n.id));
+    saveNotes();
+  }
   return count;
 };
 
@@ -669,6 +750,9 @@ export const autoPurgeTrash = (days: number = 30): number => {
     MOCK_NOTES = MOCK_NOTES.filter(n =>
       !n.deletedAt || new Date(n.deletedAt).getTime() >= cutoffMs
     );
+    deleteNoteRevisions(toPurge.map(n => n.id));
+    deleteNoteComments(toPurge.map(n => n.id));
+    deleteNoteReviewItems(toPurge.map(n => n.id));
     saveNotes();
   }
   return count;
@@ -829,6 +913,7 @@ export const addNoteEntry = (noteId: string, text: string): NoteEntry | null =>
   }
   note.entries.push(entry);
   note.updatedAt = new Date().toISOString();
+  notifyNoteSubscribers();
 
   return entry;
 };
@@ -842,6 +927,7 @@ export const updateNoteEntry = (noteId: string, entryId: string, text: string):
   if (entry) {
     entry.text = text;
     note.updatedAt = new Date().toISOString();
+    notifyNoteSubscribers();
   }
 };
 
@@ -852,6 +938,7 @@ export const deleteNoteEntry = (noteId: string, entryId: string): void => {
 
   note.entries = note.entries.filter(e => e.id !== entryId);
   note.updatedAt = new Date().toISOString();
+  notifyNoteSubscribers();
 };
 
 /** Add attachment to an entry */
@@ -1007,6 +1094,7 @@ export const updateAttachmentTranscript = (
   if (attachment) {
     attachment.transcript = transcript;
     note.updatedAt = new Date().toISOString();
+    notifyNoteSubscribers();
   }
 };
 
@@ -1428,9 +1516,51 @@ export const importNotesFromJSON = (
     }
   }
 
+  notifyNoteSubscribers();
   return importedNotes;
 };
 
+// =============================================================================
+// REMOTE SYNC
+// =============================================================================
+
+/**
+ * Insert or replace a note received from remote sync.
+ * Keeps the incoming sync_version (no bump) and re-derives topics and links.
+ */
+export const applySyncedNote = (note: Note): void => {
+  const index = MOCK_NOTES.findIndex(n => n.id === note.id);
+  if (index === -1) {
+    MOCK_NOTES = [note, ...MOCK_NOTES];
+  } else {
+    MOCK_NOTES[index] = note;
+  }
+
+  if (note.content) {
+    processNoteTopics(note);
+    processNoteLinks(note);
+  }
+  saveNotes();
+};
+
+/** Permanently remove a note that was deleted on another device */
+export const removeSyncedNote = (noteId: string): void => {
+  MOCK_NOTES = MOCK_NOTES.filter(n => n.id !== noteId);
+  saveNotes();
+};
+
+/**
+ * Record a successful sync on a note without counting it as an edit.
+ */
+export const markNoteSynced = (noteId: string, syncVersion: number, syncedAt: string): void => {
+  const note = MOCK_NOTES.find(n => n.id === noteId);
+  if (!note) return;
+
+  note.sync_version = syncVersion;
+  note.last_synced_at = syncedAt;
+  saveNotes();
+};
+
 // =============================================================================
 // CRM MENTION & TOPIC SYNC FUNCTIONS
 // =============================================================================
@@ -1455,6 +1585,7 @@ export const addMentionToNote = (noteId: string, contactId: string): void => {
     note.mentions.push(contactId);
     note.updatedAt = new Date().toISOString();
     note.sync_version = (note.sync_version || 0) + 1;
+    notifyNoteSubscribers();
   }
 
   // Sync to contact store (bidirectional link)
@@ -1476,6 +1607,7 @@ export const removeMentionFromNote = (noteId: string, contactId: string): void =
     note.mentions.splice(index, 1);
     note.updatedAt = new Date().toISOString();
     note.sync_version = (note.sync_version || 0) + 1;
+    notifyNoteSubscribers();
   }
 
   // Sync to contact store (remove bidirectional link)
@@ -1515,6 +1647,7 @@ export const addTopicToNoteById = (noteId: string, topicId: string): void => {
     note.topics.push(topicId);
     note.updatedAt = new Date().toISOString();
     note.sync_version = (note.sync_version || 0) + 1;
+    notifyNoteSubscribers();
   }
 
   // Sync to topic store (bidirectional link)
@@ -1543,6 +1676,7 @@ export const addTopicToNoteByLabel = (noteId: string, label: string): { topicId:
     note.topics.push(topic.id);
     note.updatedAt = new Date().toISOString();
     note.sync_version = (note.sync_version || 0) + 1;
+    notifyNoteSubscribers();
   }
 
   // Sync to topic store
@@ -1566,6 +1700,7 @@ export const removeTopicFromNote = (noteId: string, topicId: string): void => {
     note.topics.splice(index, 1);
     note.updatedAt = new Date().toISOString();
     note.sync_version = (note.sync_version || 0) + 1;
+    notifyNoteSubscribers();
   }
 
   // Sync to topic store (remove bidirectional link)
@@ -1694,6 +1829,7 @@ export const setNoteMentions = (noteId: string, contactIds: string[]): void => {
   note.mentions = newMentions;
   note.updatedAt = new Date().toISOString();
   note.sync_version = (note.sync_version || 0) + 1;
+  notifyNoteSubscribers();
 };
 
 /**
@@ -1727,6 +1863,75 @@ export const setNoteTopics = (noteId: string, topicIds: string[]): void => {
   note.topics = newTopics;
   note.updatedAt = new Date().toISOString();
   note.sync_version = (note.sync_version || 0) + 1;
+  notifyNoteSubscribers();
+};
+
+/**
+ * Re-point every reference to one contact onto another (used by contact merge).
+ * Covers targetContactIds, mentions, legacy contact fields and inline
+ * mention nodes in the content. The contacts' mentionedInNotes arrays are
+ * left to the caller.
+ * @returns Number of notes changed
+ */
+export const reassignContactInNotes = (fromContactId: string, toContactId: string): number => {
+  const swap = (ids: string[] | undefined): string[] | undefined =>
+    ids && [...new Set(ids.map(id => (id === fromContactId ? toContactId : id)))];
+  const mentionAttr = `data-contact-id="${fromContactId}"`;
+  let changed = 0;
+
+  MOCK_NOTES = MOCK_NOTES.map(note => {
+    const touches =
+      note.targetContactIds?.includes(fromContactId) ||
+      note.mentions?.includes(fromContactId) ||
+      note.mentionedContactIds?.includes(fromContactId) ||
+      note.contactId === fromContactId ||
+      note.targetContactId === fromContactId ||
+      note.content?.includes(mentionAttr);
+    if (!touches) return note;
+
+    changed++;
+    return {
+      ...note,
+      targetContactIds: swap(note.targetContactIds) || [],
+      mentions: swap(note.mentions) || [],
+      mentionedContactIds: swap(note.mentionedContactIds),
+      contactId: note.contactId === fromContactId ? toContactId : note.contactId,
+      targetContactId: note.targetContactId === fromContactId ? toContactId : note.targetContactId,
+      content: note.content?.split(mentionAttr).join(`data-contact-id="${toContactId}"`),
+      updatedAt: new Date().toISOString(),
+      sync_version: (note.sync_version || 0) + 1,
+    };
+  });
+
+  if (changed > 0) saveNotes();
+  return changed;
+};
+
+/**
+ * Re-point every reference to one topic onto another (used by topic merge).
+ * Covers the topics array and inline #topic nodes in the content; the
+ * visible hashtag text is left as the author wrote it.
+ * @returns Number of notes changed
+ */
+export const reassignTopicInNotes = (fromTopicId: string, toTopicId: string): number => {
+  const topicAttr = `data-topic-id="${fromTopicId}"`;
+  let changed = 0;
+
+  MOCK_NOTES = MOCK_NOTES.map(note => {
+    if (!note.topics?.includes(fromTopicId) && !note.content?.includes(topicAttr)) return note;
+
+    changed++;
+    return {
+      ...note,
+      topics: [...new Set((note.topics || []).map(id => (id === fromTopicId ? toTopicId : id)))],
+      content: note.content?.split(topicAttr).join(`data-topic-id="${toTopicId}"`),
+      updatedAt: new Date().toISOString(),
+      sync_version: (note.sync_version || 0) + 1,
+    };
+  });
+
+  if (changed > 0) saveNotes();
+  return changed;
 };
 
 // =============================================================================
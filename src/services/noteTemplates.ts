@@ -3,8 +3,24 @@
 // =============================================================================
 // Provides pre-built templates for common note types used in FrameLord.
 // Templates include FrameScan summaries, sales outreach, meeting prep, and daily logs.
+//
+// Template bodies use the template language in lib/templates/templateEngine
+// (date math, prompts, conditionals, loops). This service supplies the data:
+// `contact` is the contact chosen when applying the template, with its open
+// tasks, and applying a contact-aware template links the note to it.
 // =============================================================================
 
+import type { Note } from '../types';
+import {
+  renderTemplate,
+  getTemplatePrompts,
+  getTemplateDataKeys,
+  type TemplatePrompt,
+} from '../lib/templates/templateEngine';
+import { getContactById } from './contactStore';
+import { getOpenTasksByContactId } from './taskStore';
+import { getNoteById, updateNote, addMentionToNote } from './noteStore';
+
 export interface NoteTemplate {
   id: string;
   name: string;
@@ -63,10 +79,14 @@ Goal:
     body: `# Meeting Prep
 
 ## Meeting Details
-With:
-Date:
-Purpose:
-
+With: {{contact.fullName}}{{#if contact.company}} ({{contact.company}}){{/if}}
+Date: {{date}}
+Purpose: {{prompt:Purpose}}
+
+## Open Tasks
+{{#each contact.openTasks}}- [ ] {{title}}{{#if dueDate}} (due {{dueDate | short}}){{/if}}
+{{else}}- None
+{{/each}}
 ## Their Frame
 Current position:
 Likely wants:
@@ -113,15 +133,103 @@ export function getTemplateById(id: string): NoteTemplate | undefined {
   return noteTemplates.find(t => t.id === id);
 }
 
+// =============================================================================
+// RENDERING
+// =============================================================================
+
+export interface TemplateRenderOptions {
+  /** Contact exposed as {{contact.*}} */
+  contactId?: string | null;
+  /** Answers to {{prompt:…}} tags, keyed by label */
+  prompts?: Record<string, string>;
+  now?: Date;
+}
+
+export interface TemplateInputs {
+  prompts: TemplatePrompt[];
+  /** True if the template reads {{contact.*}} */
+  needsContact: boolean;
+}
+
+/** What a template needs from the user before it can be applied */
+export function getTemplateInputs(templateBody: string): TemplateInputs {
+  return {
+    prompts: getTemplatePrompts(templateBody),
+    needsContact: getTemplateDataKeys(templateBody).includes('contact'),
+  };
+}
+
+/** Template data for a contact, including its open tasks (soonest due first) */
+const buildContactData = (contactId: string | null | undefined): Record<string, unknown> | null => {
+  const contact = contactId ? getContactById(contactId) : undefined;
+  if (!contact) return null;
+
+  const openTasks = getOpenTasksByContactId(contact.id)
+    .sort((a, b) => (a.dueAt || '9999').localeCompare(b.dueAt || '9999'))
+    .map(task => ({
+      id: task.id,
+      title: task.title,
+      dueDate: task.dueAt ? task.dueAt.split('T')[0] : '',
+      priority: task.priority || 'medium',
+      status: task.status,
+    }));
+
+  return {
+    id: contact.id,
+    fullName: contact.fullName,
+    firstName: contact.fullName.split(/\s+/)[0] || '',
+    company: contact.company || '',
+    title: contact.title || '',
+    email: contact.email || '',
+    phone: contact.phone || '',
+    location: contact.location || '',
+    openTasks,
+  };
+};
+
+/**
+ * Render a template body. Without a contact, {{contact.*}} renders empty
+ * and {{#if contact…}} blocks take their else branch.
+ */
+export function renderNoteTemplate(templateBody: string, options: TemplateRenderOptions = {}): string {
+  return renderTemplate(templateBody, {
+    now: options.now,
+    prompts: options.prompts,
+    data: { contact: buildContactData(options.contactId) },
+  });
+}
+
 /**
  * Replace template variables like {{date}} with actual values.
  *
  * @param templateBody - The template body string
  * @returns The template body with variables replaced
  */
-export function replaceTemplateVariables(templateBody: string): string {
-  const today = new Date();
-  const dateString = today.toISOString().split('T')[0]; // YYYY-MM-DD format
+export function replaceTemplateVariables(templateBody: string, options: TemplateRenderOptions = {}): string {
+  return renderNoteTemplate(templateBody, options);
+}
 
-  return templateBody.replace(/\{\{date\}\}/g, dateString);
+/**
+ * Render a template into an existing note, replacing its content. When a
+ * contact is given the note is linked to it (target contact and mention).
+ * @returns The updated note, or null if the note does not exist
+ */
+export function applyTemplateToNote(
+  noteId: string,
+  templateBody: string,
+  options: TemplateRenderOptions = {}
+): Note | null {
+  const note = getNoteById(noteId);
+  if (!note) return null;
+
+  const content = renderNoteTemplate(templateBody, options);
+  const contact = options.contactId ? getContactById(options.contactId) : undefined;
+  const targetContactIds = contact
+    ? [...new Set([...(note.targetContactIds || []), contact.id])]
+    : note.targetContactIds;
+
+  const updated = updateNote(noteId, { content, targetContactIds });
+  if (contact) addMentionToNote(noteId, contact.id);
+  if (!updated) return null;
+  return getNoteById(noteId) || updated;
 }
@@ -0,0 +1,179 @@
+// =============================================================================
+// PIPELINE ANALYTICS — Pure selectors for per-template pipeline metrics
+// =============================================================================
+// Computes the stage funnel (stage-to-stage conversion), stage velocity
+// (median days spent in each stage), win rate and a weighted forecast from
+// pipeline items and their stage transition history.
+//
+// Funnel semantics: an item "reached" a stage if it visited it or any later
+// non-lost stage, so items that skip a stage still count as having passed it.
+// Lost stages sit outside the funnel and only count direct visits.
+// =============================================================================
+
+import type { PipelineItem, PipelineStageTemplate, PipelineStageTransition, PipelineTemplate } from '../types';
+import { getPipelineTemplateById, getPipelineItemsByTemplate, isTerminalStage } from './pipelineStore';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface StageAnalytics {
+  stageId: string;
+  name: string;
+  terminal: 'won' | 'lost' | null;
+  probability: number;               // 0..1 used for the forecast
+  reached: number;                   // items that reached this stage (see header)
+  conversionRate: number | null;     // share of those that reached the next stage; null for the last/lost stages
+  medianDaysInStage: number | null;  // over completed visits only
+  completedVisits: number;
+  openCount: number;
+  openValue: number;
+  weightedValue: number;             // openValue × probability
+}
+
+export interface PipelineAnalytics {
+  templateId: string;
+  totalItems: number;
+  openCount: number;
+  wonCount: number;
+  lostCount: number;
+  winRate: number | null;            // won / (won + lost); null until something closes
+  wonValue: number;
+  openValue: number;
+  forecastValue: number;             // sum of open item value × stage probability
+  stages: StageAnalytics[];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sortStages = (stages: PipelineStageTemplate[]): PipelineStageTemplate[] =>
+  [...stages].sort((a, b) => a.order - b.order);
+
+/** Median of a list of numbers, or null when empty */
+export const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/** An item's transitions, oldest first (items without history get their current stage only) */
+const getHistory = (item: PipelineItem): PipelineStageTransition[] =>
+  item.stageHistory?.length
+    ? item.stageHistory
+    : [{
+        fromStageId: null,
+        toStageId: item.currentStageId,
+        at: item.stageEnteredAt || item.createdAt,
+        actor: { type: 'system' },
+      }];
+
+/**
+ * Win probability for a stage.
+ * Uses the stage's own probability when set; otherwise won = 1, lost = 0 and
+ * the remaining stages are spaced evenly between them in board order.
+ */
+export const getStageProbability = (template: PipelineTemplate, stage: PipelineStageTemplate): number => {
+  if (stage.probability !== undefined) return Math.min(1, Math.max(0, stage.probability));
+
+  const terminal = isTerminalStage(stage.name);
+  if (terminal === 'won') return 1;
+  if (terminal === 'lost') return 0;
+
+  const openStages = sortStages(template.stages).filter(s => !isTerminalStage(s.name));
+  const index = openStages.findIndex(s => s.id === stage.id);
+  return (index + 1) / (openStages.length + 1);
+};
+
+// =============================================================================
+// SELECTORS
+// =============================================================================
+
+/** Compute analytics for a template over the given items (archived items are ignored) */
+export const computePipelineAnalytics = (
+  template: PipelineTemplate,
+  allItems: PipelineItem[]
+): PipelineAnalytics => {
+  const items = allItems.filter(i => i.templateId === template.id && i.status !== 'archived');
+  const stages = sortStages(template.stages);
+  const funnel = stages.filter(s => isTerminalStage(s.name) !== 'lost');
+  const funnelIndex = new Map(funnel.map((s, i) => [s.id, i]));
+
+  const reachedCounts = new Map<string, number>();
+  const visitDays = new Map<string, number[]>();
+
+  for (const item of items) {
+    const history = getHistory(item);
+    const visited = new Set(history.map(t => t.toStageId));
+
+    // Funnel reach: every funnel stage up to the furthest one visited
+    const furthest = Math.max(-1, ...[...visited].map(id => funnelIndex.get(id) ?? -1));
+    funnel.slice(0, furthest + 1).forEach(s => reachedCounts.set(s.id, (reachedCounts.get(s.id) || 0) + 1));
+
+    // Lost stages only count direct visits
+    stages
+      .filter(s => isTerminalStage(s.name) === 'lost' && visited.has(s.id))
+      .forEach(s => reachedCounts.set(s.id, (reachedCounts.get(s.id) || 0) + 1));
+
+    // Completed visits: each transition ends the visit started by the previous one
+    history.slice(1).forEach((transition, i) => {
+      const visit = history[i];
+      const days = (new Date(transition.at).getTime() - new Date(visit.at).getTime()) / DAY_MS;
+      if (days >= 0) visitDays.set(visit.toStageId, [...(visitDays.get(visit.toStageId) || []), days]);
+    });
+  }
+
+  const openItems = items.filter(i => i.status === 'open');
+
+  const stageAnalytics: StageAnalytics[] = stages.map(stage => {
+    const terminal = isTerminalStage(stage.name);
+    const probability = getStageProbability(template, stage);
+    const reached = reachedCounts.get(stage.id) || 0;
+    const nextIndex = (funnelIndex.get(stage.id) ?? -1) + 1;
+    const next = terminal !== 'lost' && nextIndex < funnel.length ? funnel[nextIndex] : undefined;
+    const inStage = openItems.filter(i => i.currentStageId === stage.id);
+    const openValue = inStage.reduce((sum, i) => sum + (i.value || 0), 0);
+    const days = visitDays.get(stage.id) || [];
+
+    return {
+      stageId: stage.id,
+      name: stage.name,
+      terminal,
+      probability,
+      reached,
+      conversionRate: next && reached > 0 ? (reachedCounts.get(next.id) || 0) / reached : null,
+      medianDaysInStage: median(days),
+      completedVisits: days.length,
+      openCount: inStage.length,
+      openValue,
+      weightedValue: openValue * probability,
+    };
+  });
+
+  const won = items.filter(i => i.status === 'won');
+  const lost = items.filter(i => i.status === 'lost');
+
+  return {
+    templateId: template.id,
+    totalItems: items.length,
+    openCount: openItems.length,
+    wonCount: won.length,
+    lostCount: lost.length,
+    winRate: won.length + lost.length > 0 ? won.length / (won.length + lost.length) : null,
+    wonValue: won.reduce((sum, i) => sum + (i.value || 0), 0),
+    openValue: openItems.reduce((sum, i) => sum + (i.value || 0), 0),
+    forecastValue: stageAnalytics.reduce((sum, s) => sum + s.weightedValue, 0),
+    stages: stageAnalytics,
+  };
+};
+
+/** Analytics for a stored template, or undefined if it does not exist */
+export const getPipelineAnalytics = (templateId: string): PipelineAnalytics | undefined => {
+  const template = getPipelineTemplateById(templateId);
+  if (!template) return undefined;
+  return computePipelineAnalytics(template, getPipelineItemsByTemplate(templateId));
+};
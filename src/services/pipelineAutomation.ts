@@ -0,0 +1,351 @@
+// =============================================================================
+// PIPELINE AUTOMATION — Stage rules engine for pipeline items
+// =============================================================================
+// Each stage can carry automation rules. A rule fires on a trigger:
+// - enter:         the item moves into the stage
+// - exit:          the item moves out of the stage
+// - time_in_stage: the item has sat in the stage for N days (once per visit)
+//
+// and runs its actions in order (create task, log interaction, send
+// email/SMS, request a FrameScan, move the item). Every execution is recorded
+// in a per-item run history. That history is trimmed, so time-in-stage
+// dedup uses markers stored on the item instead.
+//
+// The legacy `autoTaskTitle`/`autoTaskDueInDays` stage fields are treated as
+// an implicit enter rule, so old templates keep working unchanged.
+//
+// This module never imports pipelineStore: the store passes in a `moveItem`
+// callback, which keeps the dependency one-way.
+// =============================================================================
+
+import type {
+  Contact,
+  PipelineItem,
+  PipelineTemplate,
+  PipelineStageTemplate,
+  PipelineAutomationRule,
+  PipelineAutomationAction,
+  PipelineAutomationActionResult,
+  PipelineAutomationRun,
+  PipelineAutomationTrigger,
+  PipelineTransitionActor,
+} from '../types';
+import { createTask } from './taskStore';
+import { logAutoInteraction } from './interactionStore';
+import { getContactById } from './contactStore';
+import { addLogEntry } from './systemLogStore';
+import { sendEmail } from '../lib/email/emailClient';
+import { sendSmsToContact } from '../lib/sms/smsClient';
+import { loadPersisted, savePersisted, type PersistedSchema } from '../lib/persistence/versionedStorage';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AutomationContext {
+  item: PipelineItem;
+  template: PipelineTemplate;
+  stage: PipelineStageTemplate;
+  /** Move the item to another stage (runs that stage's rules in turn) */
+  moveItem: (itemId: string, stageId: string, actor: PipelineTransitionActor, reason?: string) => void;
+}
+
+// =============================================================================
+// RUN HISTORY
+// =============================================================================
+
+/** Oldest runs are dropped beyond this */
+const MAX_STORED_RUNS = 500;
+
+const RUNS_SCHEMA: PersistedSchema<PipelineAutomationRun[]> = {
+  key: 'framelord_pipeline_automation_runs',
+  version: 1,
+  defaults: () => [],
+};
+
+let RUNS: PipelineAutomationRun[] = loadPersisted(RUNS_SCHEMA);
+
+const saveRuns = (): void => {
+  savePersisted(RUNS_SCHEMA, RUNS);
+};
+
+const recordRun = (run: PipelineAutomationRun): void => {
+  RUNS = [run, ...RUNS].slice(0, MAX_STORED_RUNS);
+  saveRuns();
+};
+
+/** Get the automation run history for an item, newest first */
+export const getAutomationRunsForItem = (itemId: string): PipelineAutomationRun[] => {
+  return RUNS.filter(r => r.itemId === itemId);
+};
+
+/** Clear all run history (used by tests and workspace resets) */
+export const clearAutomationRuns = (): void => {
+  RUNS = [];
+  saveRuns();
+};
+
+// =============================================================================
+// VISIT MARKERS
+// =============================================================================
+
+/** Marker for a time-in-stage rule fired during one stage visit */
+export const timeRuleMarker = (ruleId: string, stageEnteredAt: string): string => `${ruleId}@${stageEnteredAt}`;
+
+/** Whether a time-in-stage rule already fired during the item's current stage visit */
+export const hasFiredDuringVisit = (item: PipelineItem, ruleId: string): boolean => {
+  return !!item.firedTimeRules?.includes(timeRuleMarker(ruleId, getStageEnteredAt(item)));
+};
+
+// =============================================================================
+// RULES
+// =============================================================================
+
+/** Rule equivalent of the legacy autoTaskTitle/autoTaskDueInDays fields */
+const legacyAutoTaskRule = (stage: PipelineStageTemplate): PipelineAutomationRule | null => {
+  if (!stage.autoTaskTitle) return null;
+  return {
+    id: `${stage.id}__auto_task`,
+    name: 'Auto task',
+    enabled: true,
+    trigger: { type: 'enter' },
+    actions: [{ type: 'create_task', titleTemplate: stage.autoTaskTitle, dueInDays: stage.autoTaskDueInDays }],
+  };
+};
+
+/** All enabled rules on a stage, including the legacy auto task */
+export const getStageRules = (stage: PipelineStageTemplate): PipelineAutomationRule[] => {
+  const legacy = legacyAutoTaskRule(stage);
+  return [...(legacy ? [legacy] : []), ...(stage.automations || [])].filter(r => r.enabled);
+};
+
+/** Time-in-stage rules that are due for an item and have not run this visit */
+export const getDueTimeInStageRules = (
+  item: PipelineItem,
+  stage: PipelineStageTemplate,
+  now: Date = new Date()
+): PipelineAutomationRule[] => {
+  const enteredAt = getStageEnteredAt(item);
+  const daysInStage = (now.getTime() - new Date(enteredAt).getTime()) / (24 * 60 * 60 * 1000);
+
+  return getStageRules(stage).filter(rule =>
+    rule.trigger.type === 'time_in_stage' &&
+    daysInStage >= rule.trigger.days &&
+    !hasFiredDuringVisit(item, rule.id)
+  );
+};
+
+/** When the item entered its current stage (items saved before tracking use updatedAt) */
+export const getStageEnteredAt = (item: PipelineItem): string => item.stageEnteredAt || item.updatedAt;
+
+/** Short label for a trigger, e.g. "After 14 days in stage" */
+export const describeAutomationTrigger = (trigger: PipelineAutomationTrigger): string => {
+  switch (trigger.type) {
+    case 'enter':
+      return 'On enter';
+    case 'exit':
+      return 'On exit';
+    case 'time_in_stage':
+      return `After ${trigger.days} day${trigger.days === 1 ? '' : 's'} in stage`;
+  }
+};
+
+// =============================================================================
+// TEMPLATES
+// =============================================================================
+
+/** Fill {{placeholders}} in action text; unknown placeholders are left empty */
+export const renderAutomationTemplate = (
+  text: string,
+  context: Pick<AutomationContext, 'item' | 'template' | 'stage'>,
+  contact?: Contact
+): string => {
+  const values: Record<string, string> = {
+    'contact.name': contact?.fullName || '',
+    'contact.firstName': contact?.fullName.split(' ')[0] || '',
+    'contact.email': contact?.email || '',
+    'item.label': context.item.label || '',
+    'stage.name': context.stage.name,
+    'pipeline.name': context.template.name,
+  };
+  return text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, key: string) => values[key] ?? '');
+};
+
+// =============================================================================
+// ACTIONS
+// =============================================================================
+
+type ActionOutcome = PipelineAutomationActionResult | Promise<PipelineAutomationActionResult>;
+
+const result = (
+  action: PipelineAutomationAction,
+  status: PipelineAutomationActionResult['status'],
+  detail: string
+): PipelineAutomationActionResult => ({ type: action.type, status, detail });
+
+/** Due date for automation-created tasks: N days from now, or today when unset */
+const computeDueAt = (dueInDays: number | undefined): string => {
+  const due = new Date();
+  if (dueInDays !== undefined) {
+    due.setDate(due.getDate() + dueInDays);
+  } else {
+    due.setHours(0, 0, 0, 0);
+  }
+  return due.toISOString();
+};
+
+/** Text/HTML pair for an email body written as plain text */
+const toEmailBody = (text: string): { html: string; text: string } => {
+  const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return { html: escaped.replace(/\n/g, '<br />'), text };
+};
+
+/**
+ * Run a single action. Synchronous actions return their result directly so
+ * that rules without email/SMS complete before movePipelineItem returns.
+ */
+const runAction = (
+  action: PipelineAutomationAction,
+  rule: PipelineAutomationRule,
+  context: AutomationContext
+): ActionOutcome => {
+  const contact = getContactById(context.item.contactId);
+  const render = (text: string) => renderAutomationTemplate(text, context, contact);
+
+  switch (action.type) {
+    case 'create_task': {
+      const title = render(action.titleTemplate).trim();
+      if (!title) return result(action, 'skipped', 'Task title is empty');
+      createTask({
+        contactId: context.item.contactId,
+        title,
+        dueAt: computeDueAt(action.dueInDays),
+        priority: action.priority,
+      });
+      return result(action, 'success', `Created task "${title}"`);
+    }
+
+    case 'log_interaction': {
+      const summary = render(action.summaryTemplate).trim();
+      logAutoInteraction({
+        contactId: context.item.contactId,
+        type: action.interactionType,
+        direction: 'outbound',
+        source: 'system',
+        summary: summary || undefined,
+      });
+      return result(action, 'success', `Logged ${action.interactionType}`);
+    }
+
+    case 'send_email': {
+      if (!contact?.email) return result(action, 'skipped', 'Contact has no email address');
+      const subject = render(action.subjectTemplate);
+      return sendEmail({ to: contact.email, subject, ...toEmailBody(render(action.bodyTemplate)) }).then(res =>
+        res.success
+          ? result(action, 'success', `Emailed ${contact.email}: "${subject}"`)
+          : result(action, 'failed', res.error || 'Email failed')
+      );
+    }
+
+    case 'send_sms': {
+      if (!contact) return result(action, 'skipped', 'Contact not found');
+      if (!contact.smsOptIn) return result(action, 'skipped', 'Contact has not opted in to SMS');
+      if (!contact.phone) return result(action, 'skipped', 'Contact has no phone number');
+      return sendSmsToContact(contact, render(action.bodyTemplate)).then(res =>
+        res.success
+          ? result(action, 'success', 'SMS sent')
+          : result(action, 'failed', res.error || 'SMS failed')
+      );
+    }
+
+    case 'request_framescan': {
+      const name = contact?.fullName || 'contact';
+      const instructions = action.instructions ? render(action.instructions).trim() : '';
+      createTask({
+        contactId: context.item.contactId,
+        title: instructions ? `Run FrameScan on ${name}: ${instructions}` : `Run FrameScan on ${name}`,
+        dueAt: computeDueAt(undefined),
+      });
+      addLogEntry({
+        type: 'task',
+        title: 'FrameScan requested',
+        message: `${context.template.name} → ${context.stage.name}: run a FrameScan on ${name}`,
+        isRead: false,
+        severity: 'info',
+        source: 'userRule',
+      });
+      return result(action, 'success', `Requested FrameScan on ${name}`);
+    }
+
+    case 'move_to_stage': {
+      const target = context.template.stages.find(s => s.id === action.stageId);
+      if (!target) return result(action, 'skipped', 'Target stage no longer exists');
+      if (target.id === context.item.currentStageId) return result(action, 'skipped', `Already in ${target.name}`);
+      context.moveItem(
+        context.item.id,
+        target.id,
+        { type: 'automation', ruleId: rule.id, ruleName: rule.name },
+        describeAutomationTrigger(rule.trigger)
+      );
+      return result(action, 'success', `Moved to ${target.name}`);
+    }
+  }
+};
+
+const runActionSafely = (
+  action: PipelineAutomationAction,
+  rule: PipelineAutomationRule,
+  context: AutomationContext
+): ActionOutcome => {
+  try {
+    const outcome = runAction(action, rule, context);
+    if (outcome instanceof Promise) {
+      return outcome.catch(err => result(action, 'failed', err instanceof Error ? err.message : String(err)));
+    }
+    return outcome;
+  } catch (err) {
+    return result(action, 'failed', err instanceof Error ? err.message : String(err));
+  }
+};
+
+// =============================================================================
+// EXECUTION
+// =============================================================================
+
+/**
+ * Run one rule against an item and record it in the run history.
+ * Actions run in order; only email/SMS actions are awaited.
+ */
+export const executeAutomationRule = async (
+  rule: PipelineAutomationRule,
+  context: AutomationContext
+): Promise<PipelineAutomationRun> => {
+  const results: PipelineAutomationActionResult[] = [];
+  for (const action of rule.actions) {
+    const outcome = runActionSafely(action, rule, context);
+    results.push(outcome instanceof Promise ? await outcome : outcome);
+  }
+
+  const run: PipelineAutomationRun = {
+    id: `run-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    itemId: context.item.id,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    stageId: context.stage.id,
+    trigger: rule.trigger.type,
+    stageEnteredAt: getStageEnteredAt(context.item),
+    ranAt: new Date().toISOString(),
+    results,
+  };
+  recordRun(run);
+  return run;
+};
+
+/** Run every enabled enter/exit rule of a stage */
+export const runStageTrigger = (
+  trigger: 'enter' | 'exit',
+  context: AutomationContext
+): Promise<PipelineAutomationRun[]> => {
+  const rules = getStageRules(context.stage).filter(r => r.trigger.type === trigger);
+  return Promise.all(rules.map(rule => executeAutomationRule(rule, context)));
+};
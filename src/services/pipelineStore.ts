@@ -1,18 +1,38 @@
 // =============================================================================
 // PIPELINE STORE — In-memory data source for Pipeline Templates and Items
+// (persisted to localStorage)
 // =============================================================================
 // Pipelines represent workflows (e.g., Sales, Coaching) with stages.
-// PipelineItems are contacts moving through stages.
-// Stage automation can auto-create tasks when items enter stages.
+// PipelineItems are contacts moving through stages. Every move is appended to
+// the item's stageHistory (from, to, when, who, why); entries are never edited.
+// Stage automation rules (see pipelineAutomation.ts) run when items enter or
+// exit stages, and on a schedule for time-in-stage rules.
 // =============================================================================
 
-import { PipelineTemplate, PipelineStageTemplate, PipelineItem } from '../types';
-import { createTask } from './taskStore';
-import { CONTACT_ZERO } from './contactStore';
-
-// --- MOCK TEMPLATES ---
-
-let PIPELINE_TEMPLATES: PipelineTemplate[] = [
+import {
+  PipelineTemplate,
+  PipelineStageTemplate,
+  PipelineItem,
+  PipelineAutomationRun,
+  PipelineStageTransition,
+  PipelineTransitionActor,
+} from '../types';
+import { CONTACT_ZERO, isDemoContact } from './contactStore';
+import { loadPersisted, savePersisted, type PersistedSchema } from '../lib/persistence/versionedStorage';
+import {
+  runStageTrigger,
+  executeAutomationRule,
+  getDueTimeInStageRules,
+  getStageEnteredAt,
+  hasFiredDuringVisit,
+  timeRuleMarker,
+  type AutomationContext,
+} from './pipelineAutomation';
+
+// --- SEED TEMPLATES ---
+// Used only on first load, before anything has been persisted
+
+const SEED_PIPELINE_TEMPLATES: PipelineTemplate[] = [
   {
     id: 'template_sales',
     name: 'Sales Pipeline',
@@ -121,9 +141,17 @@ let PIPELINE_TEMPLATES: PipelineTemplate[] = [
   },
 ];
 
-// --- MOCK ITEMS ---
+// --- SEED ITEMS ---
 
-let PIPELINE_ITEMS: PipelineItem[] = [
+/** History for items created before transitions were recorded */
+const seedStageHistory = (item: PipelineItem): PipelineItem => ({
+  ...item,
+  stageHistory: item.stageHistory || [
+    { fromStageId: null, toStageId: item.currentStageId, at: item.stageEnteredAt || item.createdAt, actor: { type: 'system' } },
+  ],
+});
+
+const SEED_PIPELINE_ITEMS: PipelineItem[] = [
   {
     id: 'item_001',
     templateId: 'template_sales',
@@ -158,39 +186,113 @@ let PIPELINE_ITEMS: PipelineItem[] = [
   },
 ];
 
+// --- PERSISTENCE ---
+
+const PIPELINE_TEMPLATES_SCHEMA: PersistedSchema<PipelineTemplate[]> = {
+  key: 'framelord_pipeline_templates',
+  version: 1,
+  defaults: () => [...SEED_PIPELINE_TEMPLATES],
+};
+
+const PIPELINE_ITEMS_SCHEMA: PersistedSchema<PipelineItem[]> = {
+  key: 'framelord_pipeline_items',
+  version: 4,
+  migrations: {
+    // v2: track when the item entered its current stage
+    2: (data) => (data as PipelineItem[]).map(i => ({ ...i, stageEnteredAt: i.stageEnteredAt || i.updatedAt })),
+    // v3: start a transition history with the only known entry
+    3: (data) => (data as PipelineItem[]).map(seedStageHistory),
+    // v4: transitions record who made them
+    4: (data) => (data as PipelineItem[]).map(i => ({
+      ...i,
+      stageHistory: i.stageHistory?.map(t => ({ ...t, actor: t.actor || { type: 'system' } })),
+    })),
+  },
+  defaults: () => SEED_PIPELINE_ITEMS.map(i => seedStageHistory({ ...i, stageEnteredAt: i.updatedAt })),
+};
+
+let PIPELINE_TEMPLATES: PipelineTemplate[] = loadPersisted(PIPELINE_TEMPLATES_SCHEMA);
+let PIPELINE_ITEMS: PipelineItem[] = loadPersisted(PIPELINE_ITEMS_SCHEMA);
+
+/** Write pipeline templates to localStorage */
+const saveTemplates = (): void => {
+  savePersisted(PIPELINE_TEMPLATES_SCHEMA, PIPELINE_TEMPLATES);
+};
+
+/** Write pipeline items to localStorage */
+const saveItems = (): void => {
+  savePersisted(PIPELINE_ITEMS_SCHEMA, PIPELINE_ITEMS);
+};
+
 // --- HELPER FUNCTIONS ---
 
-/**
- * Apply stage automation: create task if stage has autoTaskTitle
- */
-function applyStageAutomation(item: PipelineItem, stage: PipelineStageTemplate): void {
-  if (!stage.autoTaskTitle) return;
-
-  // Compute due date
-  let dueAt: string | null = null;
-  if (stage.autoTaskDueInDays !== undefined) {
-    const dueDate = new Date();
-    dueDate.setDate(dueDate.getDate() + stage.autoTaskDueInDays);
-    dueAt = dueDate.toISOString();
-  } else {
-    // Today with no time
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    dueAt = today.toISOString();
-  }
+// --- TRANSITIONS ---
 
-  // Create task
-  createTask({
-    contactId: item.contactId,
-    title: stage.autoTaskTitle,
-    dueAt,
-  });
-}
+/** Actor for moves made through the UI */
+const currentUserActor = (): PipelineTransitionActor => ({ type: 'user', contactId: CONTACT_ZERO.id });
+
+/** Same transition recorded on two devices */
+const isSameTransition = (a: PipelineStageTransition, b: PipelineStageTransition): boolean =>
+  a.at === b.at && a.toStageId === b.toStageId && a.fromStageId === b.fromStageId;
+
+/** Union of two append-only histories, oldest first */
+const mergeStageHistories = (
+  local: PipelineStageTransition[] = [],
+  incoming: PipelineStageTransition[] = []
+): PipelineStageTransition[] => {
+  const merged = [...incoming, ...local.filter(t => !incoming.some(i => isSameTransition(i, t)))];
+  return merged.sort((a, b) => a.at.localeCompare(b.at));
+};
+
+// --- AUTOMATION ---
+
+/** Guards against rules that move items back and forth forever */
+const MAX_AUTOMATION_DEPTH = 5;
+
+/** Automation runs still in flight (email/SMS actions are async) */
+const pendingAutomations = new Set<Promise<unknown>>();
+
+const trackAutomation = (promise: Promise<unknown>): void => {
+  const tracked = promise
+    .catch(err => console.error('[PipelineStore] Automation failed:', err))
+    .finally(() => pendingAutomations.delete(tracked));
+  pendingAutomations.add(tracked);
+};
+
+/** Build the context automation rules run with; nested moves go one level deeper */
+const automationContext = (
+  item: PipelineItem,
+  template: PipelineTemplate,
+  stage: PipelineStageTemplate,
+  depth: number
+): AutomationContext => ({
+  item,
+  template,
+  stage,
+  moveItem: (itemId, stageId, actor, reason) => {
+    moveItemWithAutomations(itemId, stageId, depth + 1, actor, reason);
+  },
+});
+
+/** Fire a stage's enter/exit rules unless the automation chain is too deep */
+const triggerStage = (
+  trigger: 'enter' | 'exit',
+  item: PipelineItem,
+  template: PipelineTemplate,
+  stage: PipelineStageTemplate,
+  depth: number
+): void => {
+  if (depth > MAX_AUTOMATION_DEPTH) {
+    console.warn(`[PipelineStore] Skipping ${trigger} automations for ${item.id}: too many chained moves`);
+    return;
+  }
+  trackAutomation(runStageTrigger(trigger, automationContext(item, template, stage, depth)));
+};
 
 /**
  * Detect if a stage name indicates a terminal state (won/lost)
  */
-function isTerminalStage(stageName: string): 'won' | 'lost' | null {
+export function isTerminalStage(stageName: string): 'won' | 'lost' | null {
   const lower = stageName.toLowerCase();
   if (lower.includes('won')) return 'won';
   if (lower.includes('lost')) return 'lost';
@@ -240,6 +342,7 @@ export const createPipelineTemplate = (input: {
   };
 
   PIPELINE_TEMPLATES.push(template);
+  saveTemplates();
   return template;
 };
 
@@ -257,6 +360,7 @@ export const updatePipelineTemplate = (template: PipelineTemplate): void => {
   };
 
   PIPELINE_TEMPLATES[index] = updated;
+  saveTemplates();
 };
 
 /** Delete a pipeline template (hard delete) */
@@ -273,6 +377,21 @@ export const deletePipelineTemplate = (id: string): void => {
   }
 
   PIPELINE_TEMPLATES.splice(index, 1);
+  saveTemplates();
+};
+
+/**
+ * Insert or replace a pipeline template from a workspace backup.
+ * Keeps the backup's updatedAt.
+ */
+export const restorePipelineTemplate = (template: PipelineTemplate): void => {
+  const index = PIPELINE_TEMPLATES.findIndex(t => t.id === template.id);
+  if (index === -1) {
+    PIPELINE_TEMPLATES.push(template);
+  } else {
+    PIPELINE_TEMPLATES[index] = template;
+  }
+  saveTemplates();
 };
 
 // --- ITEM FUNCTIONS ---
@@ -302,6 +421,7 @@ export const createPipelineItem = (input: {
   contactId: string;
   label?: string;
   initialStageId?: string;
+  value?: number;
 }): PipelineItem => {
   const template = getPipelineTemplateById(input.templateId);
   if (!template) {
@@ -321,29 +441,51 @@ export const createPipelineItem = (input: {
 
   const now = new Date().toISOString();
   const item: PipelineItem = {
-    id: `item-${Date.now()}`,
+    id: `item-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
     templateId: input.templateId,
     contactId: input.contactId,
     label: input.label?.trim(),
     currentStageId: initialStageId,
+    stageEnteredAt: now,
+    stageHistory: [{ fromStageId: null, toStageId: initialStageId, at: now, actor: currentUserActor() }],
     createdAt: now,
     updatedAt: now,
     status: 'open',
+    value: input.value,
   };
 
   PIPELINE_ITEMS.push(item);
+  saveItems();
 
-  // Apply stage automation
+  // Run the initial stage's enter rules
   const stage = template.stages.find(s => s.id === initialStageId);
   if (stage) {
-    applyStageAutomation(item, stage);
+    triggerStage('enter', item, template, stage, 0);
   }
 
   return item;
 };
 
-/** Move a pipeline item to a new stage */
-export const movePipelineItem = (itemId: string, newStageId: string): PipelineItem | undefined => {
+/**
+ * Move a pipeline item to a new stage, recording the transition.
+ * Runs the old stage's exit rules and the new stage's enter rules. Moving an
+ * item to the stage it is already in is a no-op.
+ */
+export const movePipelineItem = (
+  itemId: string,
+  newStageId: string,
+  options: { reason?: string; actor?: PipelineTransitionActor } = {}
+): PipelineItem | undefined => {
+  return moveItemWithAutomations(itemId, newStageId, 0, options.actor || currentUserActor(), options.reason);
+};
+
+const moveItemWithAutomations = (
+  itemId: string,
+  newStageId: string,
+  depth: number,
+  actor: PipelineTransitionActor,
+  reason?: string
+): PipelineItem | undefined => {
   const item = getPipelineItemById(itemId);
   if (!item) {
     console.warn(`Pipeline item with id ${itemId} not found`);
@@ -362,32 +504,135 @@ export const movePipelineItem = (itemId: string, newStageId: string): PipelineIt
     return undefined;
   }
 
+  if (item.currentStageId === newStageId) return item;
+
+  // Exit rules see the item as it was in the old stage
+  const oldStage = template.stages.find(s => s.id === item.currentStageId);
+  if (oldStage) {
+    triggerStage('exit', item, template, oldStage, depth);
+  }
+
   // Update item
+  const now = new Date().toISOString();
+  const transition: PipelineStageTransition = {
+    fromStageId: item.currentStageId,
+    toStageId: newStageId,
+    at: now,
+    actor,
+    ...(reason?.trim() ? { reason: reason.trim() } : {}),
+  };
   const updated: PipelineItem = {
     ...item,
     currentStageId: newStageId,
-    updatedAt: new Date().toISOString(),
+    stageEnteredAt: now,
+    stageHistory: [...(item.stageHistory || []), transition],
+    firedTimeRules: [],
+    updatedAt: now,
   };
 
   // Check if moved to terminal stage
   const terminalStatus = isTerminalStage(newStage.name);
   if (terminalStatus) {
     updated.status = terminalStatus;
-    updated.closedAt = new Date().toISOString();
+    updated.closedAt = now;
   }
 
   const index = PIPELINE_ITEMS.findIndex(i => i.id === itemId);
   if (index !== -1) {
     PIPELINE_ITEMS[index] = updated;
+    saveItems();
   }
 
-  // Apply stage automation
-  applyStageAutomation(updated, newStage);
+  triggerStage('enter', updated, template, newStage, depth);
+
+  // An enter rule may already have moved the item on
+  return getPipelineItemById(itemId);
+};
 
+/**
+ * Record that a time-in-stage rule fired this visit. Written before the
+ * rule's actions run, so a failed or slow send is never repeated.
+ */
+const markTimeRuleFired = (item: PipelineItem, ruleId: string): PipelineItem => {
+  const updated: PipelineItem = {
+    ...item,
+    firedTimeRules: [...(item.firedTimeRules || []), timeRuleMarker(ruleId, getStageEnteredAt(item))],
+  };
+  const index = PIPELINE_ITEMS.findIndex(i => i.id === item.id);
+  if (index !== -1) {
+    PIPELINE_ITEMS[index] = updated;
+    saveItems();
+  }
   return updated;
 };
 
-/** Update a pipeline item */
+/** Markers from both copies of an item that belong to its current stage visit */
+const mergeFiredTimeRules = (local: PipelineItem, incoming: PipelineItem): string[] => {
+  const suffix = `@${getStageEnteredAt(incoming)}`;
+  const markers = [...(incoming.firedTimeRules || []), ...(local.firedTimeRules || [])];
+  return [...new Set(markers.filter(m => m.endsWith(suffix)))];
+};
+
+/**
+ * Run time-in-stage rules that have come due for open items.
+ * Each rule fires at most once per stage visit. Returns the runs executed.
+ */
+export const runTimeInStageAutomations = async (now: Date = new Date()): Promise<PipelineAutomationRun[]> => {
+  const runs: PipelineAutomationRun[] = [];
+
+  for (const item of PIPELINE_ITEMS.filter(i => i.status === 'open')) {
+    const template = getPipelineTemplateById(item.templateId);
+    const stage = template?.stages.find(s => s.id === item.currentStageId);
+    if (!template || !stage) continue;
+
+    for (const rule of getDueTimeInStageRules(item, stage, now)) {
+      // Re-read: an earlier rule may have moved the item out of this stage
+      const current = getPipelineItemById(item.id);
+      if (!current || current.currentStageId !== stage.id) break;
+      // An overlapping sweep may have started this rule while we awaited
+      if (hasFiredDuringVisit(current, rule.id)) continue;
+      const marked = markTimeRuleFired(current, rule.id);
+      runs.push(await executeAutomationRule(rule, automationContext(marked, template, stage, 0)));
+    }
+  }
+
+  return runs;
+};
+
+/** Wait for automation runs started by create/move calls to finish */
+export const flushPipelineAutomations = async (): Promise<void> => {
+  while (pendingAutomations.size > 0) {
+    await Promise.all([...pendingAutomations]);
+  }
+};
+
+let automationIntervalId: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Start checking time-in-stage rules.
+ * Runs immediately, then every 30 minutes. Returns a stop function.
+ */
+export const startPipelineAutomationScheduler = (): (() => void) => {
+  if (!automationIntervalId) {
+    void runTimeInStageAutomations();
+    automationIntervalId = setInterval(() => {
+      void runTimeInStageAutomations();
+    }, 30 * 60 * 1000);
+  }
+
+  return () => {
+    if (automationIntervalId) {
+      clearInterval(automationIntervalId);
+      automationIntervalId = null;
+    }
+  };
+};
+
+/**
+ * Update a pipeline item's details.
+ * Stage changes must go through movePipelineItem, so the stage and its
+ * history are kept as stored.
+ */
 export const updatePipelineItem = (item: PipelineItem): void => {
   const index = PIPELINE_ITEMS.findIndex(i => i.id === item.id);
   if (index === -1) {
@@ -395,12 +640,64 @@ export const updatePipelineItem = (item: PipelineItem): void => {
     return;
   }
 
+  const existing = PIPELINE_ITEMS[index];
   const updated: PipelineItem = {
     ...item,
+    currentStageId: existing.currentStageId,
+    stageEnteredAt: existing.stageEnteredAt,
+    stageHistory: existing.stageHistory,
+    firedTimeRules: existing.firedTimeRules,
     updatedAt: new Date().toISOString(),
   };
 
   PIPELINE_ITEMS[index] = updated;
+  saveItems();
+};
+
+/** Stage transitions of an item, oldest first */
+export const getPipelineItemHistory = (itemId: string): PipelineStageTransition[] => {
+  const item = getPipelineItemById(itemId);
+  return item?.stageHistory ? [...item.stageHistory] : [];
+};
+
+/** Get all pipeline items across templates */
+export const getAllPipelineItems = (): PipelineItem[] => {
+  return [...PIPELINE_ITEMS];
+};
+
+/**
+ * Insert or replace a pipeline item received from sync.
+ * Keeps the incoming updatedAt and skips stage automation, since the change
+ * already happened on another device. Stage histories are merged so that no
+ * locally recorded transition is lost.
+ */
+export const applySyncedPipelineItem = (item: PipelineItem): void => {
+  const index = PIPELINE_ITEMS.findIndex(i => i.id === item.id);
+  if (index === -1) {
+    PIPELINE_ITEMS.push(item);
+  } else {
+    PIPELINE_ITEMS[index] = {
+      ...item,
+      stageHistory: mergeStageHistories(PIPELINE_ITEMS[index].stageHistory, item.stageHistory),
+      firedTimeRules: mergeFiredTimeRules(PIPELINE_ITEMS[index], item),
+    };
+  }
+  saveItems();
+};
+
+/** Remove a pipeline item that was deleted on another device */
+export const removeSyncedPipelineItem = (itemId: string): void => {
+  PIPELINE_ITEMS = PIPELINE_ITEMS.filter(i => i.id !== itemId);
+  saveItems();
+};
+
+const SEED_PIPELINE_ITEM_IDS = new Set(SEED_PIPELINE_ITEMS.map(i => i.id));
+
+/** Seeded pipeline items and items for demo contacts stay on this device */
+export const isLocalOnlyPipelineItem = (itemId: string): boolean => {
+  if (SEED_PIPELINE_ITEM_IDS.has(itemId)) return true;
+  const item = getPipelineItemById(itemId);
+  return !!item && isDemoContact(item.contactId);
 };
 
 /** Archive a pipeline item */
@@ -420,6 +717,7 @@ export const archivePipelineItem = (itemId: string): void => {
   const index = PIPELINE_ITEMS.findIndex(i => i.id === itemId);
   if (index !== -1) {
     PIPELINE_ITEMS[index] = updated;
+    saveItems();
   }
 };
 
@@ -16,14 +16,39 @@ import type {
 } from '../types';
 import { updateTaskStatus, getTaskById } from './taskStore';
 import { CONTACT_ZERO } from './contactStore';
+import { loadPersisted, savePersisted, type PersistedSchema } from '../lib/persistence/versionedStorage';
 
 // =============================================================================
 // STATE
 // =============================================================================
 
-let PROJECTS: Project[] = [];
-let PROJECT_SECTIONS: ProjectSection[] = [];
-let PROJECT_TASK_LINKS: ProjectTaskLink[] = [];
+/** Projects, sections and task links persist together so they never drift apart */
+interface PersistedProjectState {
+  projects: Project[];
+  sections: ProjectSection[];
+  taskLinks: ProjectTaskLink[];
+}
+
+const PROJECTS_SCHEMA: PersistedSchema<PersistedProjectState> = {
+  key: 'framelord_projects',
+  version: 1,
+  defaults: () => ({ projects: [], sections: [], taskLinks: [] }),
+};
+
+const initialState = loadPersisted(PROJECTS_SCHEMA);
+
+let PROJECTS: Project[] = initialState.projects;
+let PROJECT_SECTIONS: ProjectSection[] = initialState.sections;
+let PROJECT_TASK_LINKS: ProjectTaskLink[] = initialState.taskLinks;
+
+/** Write projects, sections and task links to localStorage */
+const saveProjectState = (): void => {
+  savePersisted(PROJECTS_SCHEMA, {
+    projects: PROJECTS,
+    sections: PROJECT_SECTIONS,
+    taskLinks: PROJECT_TASK_LINKS,
+  });
+};
 
 const ensureProjectDefaults = (project: Project): Project => {
   if (project.isGroupProject === undefined) {
@@ -169,6 +194,7 @@ export const updateProject = (updated: Project): void => {
       ...updated,
       updatedAt: new Date().toISOString(),
     };
+    saveProjectState();
   }
 };
 
@@ -188,6 +214,37 @@ export const deleteProject = (projectId: string): void => {
 
   // Remove all task links (but not the tasks themselves)
   PROJECT_TASK_LINKS = PROJECT_TASK_LINKS.filter(l => l.projectId !== projectId);
+
+  saveProjectState();
+};
+
+// =============================================================================
+// BACKUP / RESTORE
+// =============================================================================
+
+/** Every section across all projects (for workspace export) */
+export const getAllProjectSections = (): ProjectSection[] => [...PROJECT_SECTIONS];
+
+/** Every task link across all projects (for workspace export) */
+export const getAllProjectTaskLinks = (): ProjectTaskLink[] => [...PROJECT_TASK_LINKS];
+
+/**
+ * Insert or replace a project, section or task link from a workspace backup.
+ * Timestamps are kept as they were in the backup.
+ */
+export const restoreProject = (project: Project): void => {
+  PROJECTS = [...PROJECTS.filter(p => p.id !== project.id), ensureProjectDefaults({ ...project })];
+  saveProjectState();
+};
+
+export const restoreProjectSection = (section: ProjectSection): void => {
+  PROJECT_SECTIONS = [...PROJECT_SECTIONS.filter(s => s.id !== section.id), section];
+  saveProjectState();
+};
+
+export const restoreProjectTaskLink = (link: ProjectTaskLink): void => {
+  PROJECT_TASK_LINKS = [...PROJECT_TASK_LINKS.filter(l => l.id !== link.id), link];
+  saveProjectState();
 };
 
 // =============================================================================
@@ -239,6 +296,7 @@ export const updateSection = (updated: ProjectSection): void => {
   const index = PROJECT_SECTIONS.findIndex(s => s.id === updated.id);
   if (index !== -1) {
     PROJECT_SECTIONS[index] = updated;
+    saveProjectState();
 
     // Touch project updatedAt
     const project = getProjectById(updated.projectId);
@@ -274,6 +332,7 @@ export const deleteSection = (sectionId: string): void => {
 
   // Remove the section
   PROJECT_SECTIONS = PROJECT_SECTIONS.filter(s => s.id !== sectionId);
+  saveProjectState();
 
   // Update project's sectionIds
   const project = getProjectById(section.projectId);
@@ -432,6 +491,7 @@ export const removeTaskFromProject = (projectId: string, taskId: string): void =
   if (!link) return;
 
   PROJECT_TASK_LINKS = PROJECT_TASK_LINKS.filter(l => l.id !== link.id);
+  saveProjectState();
 
   // Touch project updatedAt
   const project = getProjectById(projectId);
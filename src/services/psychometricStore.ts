@@ -95,6 +95,33 @@ export const psychometricStore = {
     }
   },
 
+  /**
+   * Move all evidence from one contact to another (e.g., when merging duplicates).
+   * Evidence already present on the target (same originId) is not duplicated.
+   * The source profile only carries over if the target has none.
+   * @param fromContactId - The contact being merged away
+   * @param toContactId - The surviving contact
+   * @returns Number of evidence entries moved
+   */
+  reassignContact(fromContactId: string, toContactId: string): number {
+    const moving = psychometricState.evidence[fromContactId] ?? [];
+    let moved = 0;
+    for (const entry of moving) {
+      const before = this.getEvidenceCount(toContactId);
+      this.addEvidence({ ...entry, contactId: toContactId });
+      if (this.getEvidenceCount(toContactId) > before) moved++;
+    }
+    delete psychometricState.evidence[fromContactId];
+
+    const profile = psychometricState.profiles[fromContactId];
+    if (profile && !psychometricState.profiles[toContactId]) {
+      psychometricState.profiles[toContactId] = { ...profile, contactId: toContactId };
+    }
+    delete psychometricState.profiles[fromContactId];
+
+    return moved;
+  },
+
   /**
    * Get evidence count for a contact.
    * Useful for determining profile status.
@@ -0,0 +1,290 @@
+// =============================================================================
+// REVIEW STORE — Spaced review of notes, passages and contact intel
+// =============================================================================
+// Anything worth remembering can be flagged for review:
+//   - a whole note
+//   - a passage in a note (a TextAnchor, so it survives edits)
+//   - one ContactPersonalIntel field on a contact
+//
+// Each flag carries an SM-2 schedule (see lib/review/sm2). The daily queue is
+// every flag due today or earlier, rendered against the current note or
+// contact so the user always reviews the latest wording. Flags whose target
+// is gone (trashed note, deleted passage, emptied intel field) are left out of
+// the queue but kept, so restoring the target brings the schedule back.
+// =============================================================================
+
+import type { ContactPersonalIntel } from '../types';
+import { loadPersisted, savePersisted, type PersistedSchema } from '../lib/persistence/versionedStorage';
+import { htmlToAnchorText, resolveTextAnchor, type TextAnchor } from '../lib/editor/textAnchor';
+import { createSchedule, scheduleReview, isDue, type ReviewOutcome, type ReviewSchedule } from '../lib/review/sm2';
+import { getNoteById } from './noteStore';
+import { getContactById } from './contactStore';
+import { getTodayKey } from './dailyNoteStore';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type { ReviewOutcome, ReviewSchedule } from '../lib/review/sm2';
+
+export type ReviewableIntelField = Exclude<keyof ContactPersonalIntel, 'updatedAt'>;
+
+export type ReviewTarget =
+  | { kind: 'note'; noteId: string }
+  | { kind: 'block'; noteId: string; anchor: TextAnchor }
+  | { kind: 'intel'; contactId: string; field: ReviewableIntelField };
+
+export interface ReviewItem {
+  id: string;
+  target: ReviewTarget;
+  schedule: ReviewSchedule;
+  reviewCount: number;
+  lastOutcome: ReviewOutcome | null;
+  lastReviewedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A due item rendered against its current note or contact */
+export interface ReviewCard {
+  item: ReviewItem;
+  /** Prompt shown before the answer is revealed */
+  title: string;
+  /** Where the item comes from, e.g. "Note" or "Ada Lovelace · Watch for" */
+  context: string;
+  /** Plain text to recall */
+  content: string;
+  noteId?: string;
+  contactId?: string;
+  /** Days past the due date (0 when due today) */
+  overdueDays: number;
+}
+
+export const INTEL_FIELD_LABELS: Record<ReviewableIntelField, string> = {
+  howTheySpeak: 'How they speak',
+  watchFor: 'Watch for',
+  whatTheyWant: 'What they want',
+  notes: 'Notes',
+};
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+const REVIEW_ITEMS_SCHEMA: PersistedSchema<ReviewItem[]> = {
+  key: 'framelord_review_items',
+  version: 1,
+  defaults: () => [],
+};
+
+let REVIEW_ITEMS: ReviewItem[] = loadPersisted(REVIEW_ITEMS_SCHEMA);
+
+const reviewSubscribers: Set<() => void> = new Set();
+
+/**
+ * Subscribe to review flag and schedule changes
+ * Returns unsubscribe function
+ */
+export const subscribeReviewItems = (callback: () => void): (() => void) => {
+  reviewSubscribers.add(callback);
+  return () => reviewSubscribers.delete(callback);
+};
+
+/** Persist and notify subscribers */
+const saveReviewItems = (): void => {
+  savePersisted(REVIEW_ITEMS_SCHEMA, REVIEW_ITEMS);
+  reviewSubscribers.forEach(callback => callback());
+};
+
+const generateReviewItemId = (): string =>
+  `review-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+export const getAllReviewItems = (): ReviewItem[] => [...REVIEW_ITEMS];
+
+export const getReviewItemById = (id: string): ReviewItem | undefined =>
+  REVIEW_ITEMS.find(item => item.id === id);
+
+/** Whole-note and passage flags on a note */
+export const getReviewItemsForNote = (noteId: string): ReviewItem[] =>
+  REVIEW_ITEMS.filter(item => item.target.kind !== 'intel' && item.target.noteId === noteId);
+
+/** The whole-note flag, if the note is flagged */
+export const getNoteReviewItem = (noteId: string): ReviewItem | undefined =>
+  REVIEW_ITEMS.find(item => item.target.kind === 'note' && item.target.noteId === noteId);
+
+export const getIntelReviewItem = (contactId: string, field: ReviewableIntelField): ReviewItem | undefined =>
+  REVIEW_ITEMS.find(
+    item => item.target.kind === 'intel' && item.target.contactId === contactId && item.target.field === field
+  );
+
+// =============================================================================
+// FLAGGING
+// =============================================================================
+
+const addReviewItem = (target: ReviewTarget): ReviewItem => {
+  const now = new Date().toISOString();
+  const item: ReviewItem = {
+    id: generateReviewItemId(),
+    target,
+    schedule: createSchedule(getTodayKey()),
+    reviewCount: 0,
+    lastOutcome: null,
+    lastReviewedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  REVIEW_ITEMS = [...REVIEW_ITEMS, item];
+  saveReviewItems();
+  return item;
+};
+
+/** Flag a whole note. Returns the existing flag if already flagged. */
+export const flagNoteForReview = (noteId: string): ReviewItem | null => {
+  if (!getNoteById(noteId)) {
+    console.warn('[ReviewStore] Cannot flag missing note', noteId);
+    return null;
+  }
+  return getNoteReviewItem(noteId) ?? addReviewItem({ kind: 'note', noteId });
+};
+
+/** Flag a passage in a note. The same quote is only flagged once per note. */
+export const flagBlockForReview = (noteId: string, anchor: TextAnchor): ReviewItem | null => {
+  if (!getNoteById(noteId) || !anchor.quote.trim()) {
+    console.warn('[ReviewStore] Cannot flag passage in note', noteId);
+    return null;
+  }
+  const existing = REVIEW_ITEMS.find(
+    item => item.target.kind === 'block' && item.target.noteId === noteId && item.target.anchor.quote === anchor.quote
+  );
+  return existing ?? addReviewItem({ kind: 'block', noteId, anchor });
+};
+
+/** Flag one personal intel field on a contact */
+export const flagIntelForReview = (contactId: string, field: ReviewableIntelField): ReviewItem | null => {
+  if (!getContactById(contactId)) {
+    console.warn('[ReviewStore] Cannot flag intel on missing contact', contactId);
+    return null;
+  }
+  return getIntelReviewItem(contactId, field) ?? addReviewItem({ kind: 'intel', contactId, field });
+};
+
+export const unflagReviewItem = (id: string): boolean => {
+  const before = REVIEW_ITEMS.length;
+  REVIEW_ITEMS = REVIEW_ITEMS.filter(item => item.id !== id);
+  if (REVIEW_ITEMS.length === before) return false;
+  saveReviewItems();
+  return true;
+};
+
+// =============================================================================
+// REVIEWING
+// =============================================================================
+
+/**
+ * Record a "remembered" / "forgot" answer and schedule the next review.
+ * @returns The updated item, or null if it does not exist
+ */
+export const recordReview = (id: string, outcome: ReviewOutcome, today: string = getTodayKey()): ReviewItem | null => {
+  const index = REVIEW_ITEMS.findIndex(item => item.id === id);
+  if (index === -1) return null;
+
+  const now = new Date().toISOString();
+  const item = REVIEW_ITEMS[index];
+  const updated: ReviewItem = {
+    ...item,
+    schedule: scheduleReview(item.schedule, outcome, today),
+    reviewCount: item.reviewCount + 1,
+    lastOutcome: outcome,
+    lastReviewedAt: now,
+    updatedAt: now,
+  };
+  REVIEW_ITEMS = REVIEW_ITEMS.map((existing, i) => (i === index ? updated : existing));
+  saveReviewItems();
+  return updated;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Render an item against its current target; null when the target is gone */
+const toReviewCard = (item: ReviewItem, today: string): ReviewCard | null => {
+  const overdueDays = Math.round(
+    (new Date(`${today}T00:00:00Z`).getTime() - new Date(`${item.schedule.dueDate}T00:00:00Z`).getTime()) / DAY_MS
+  );
+  const { target } = item;
+
+  if (target.kind === 'intel') {
+    const contact = getContactById(target.contactId);
+    const value = contact?.personalIntel?.[target.field]?.trim();
+    if (!contact || !value) return null;
+    return {
+      item,
+      title: `${contact.fullName}: ${INTEL_FIELD_LABELS[target.field].toLowerCase()}?`,
+      context: `${contact.fullName} · ${INTEL_FIELD_LABELS[target.field]}`,
+      content: value,
+      contactId: contact.id,
+      overdueDays,
+    };
+  }
+
+  const note = getNoteById(target.noteId);
+  if (!note || note.deletedAt) return null;
+  const text = htmlToAnchorText(note.content || '');
+  const title = note.title || 'Untitled';
+
+  if (target.kind === 'note') {
+    return { item, title, context: 'Note', content: text, noteId: note.id, overdueDays };
+  }
+
+  const range = resolveTextAnchor(target.anchor, text);
+  if (!range) return null;
+  return { item, title: `Passage in “${title}”`, context: title, content: range.text, noteId: note.id, overdueDays };
+};
+
+/** Items due on or before `today`, most overdue first */
+export const getReviewQueue = (today: string = getTodayKey()): ReviewCard[] =>
+  REVIEW_ITEMS
+    .filter(item => isDue(item.schedule, today))
+    .sort((a, b) => a.schedule.dueDate.localeCompare(b.schedule.dueDate) || a.createdAt.localeCompare(b.createdAt))
+    .map(item => toReviewCard(item, today))
+    .filter((card): card is ReviewCard => card !== null);
+
+// =============================================================================
+// MAINTENANCE
+// =============================================================================
+
+/** Drop flags on permanently deleted notes */
+export const deleteNoteReviewItems = (noteIds: string[]): void => {
+  const ids = new Set(noteIds);
+  const before = REVIEW_ITEMS.length;
+  REVIEW_ITEMS = REVIEW_ITEMS.filter(item => item.target.kind === 'intel' || !ids.has(item.target.noteId));
+  if (REVIEW_ITEMS.length < before) saveReviewItems();
+};
+
+/**
+ * Move intel flags from one contact to another (used by contact merge).
+ * Where both flagged the same field, the other contact's flag is kept.
+ * @returns Number of flags moved or dropped
+ */
+export const reassignIntelReviewItems = (fromContactId: string, toContactId: string): number => {
+  const moving = REVIEW_ITEMS.filter(item => item.target.kind === 'intel' && item.target.contactId === fromContactId);
+  if (moving.length === 0) return 0;
+
+  REVIEW_ITEMS = REVIEW_ITEMS.flatMap(item => {
+    if (item.target.kind !== 'intel' || item.target.contactId !== fromContactId) return [item];
+    const { field } = item.target;
+    if (getIntelReviewItem(toContactId, field)) return [];
+    return [{ ...item, target: { ...item.target, contactId: toContactId }, updatedAt: new Date().toISOString() }];
+  });
+  saveReviewItems();
+  return moving.length;
+};
+
+/** Insert or replace a review item as-is (backup restore) */
+export const restoreReviewItem = (item: ReviewItem): void => {
+  REVIEW_ITEMS = [...REVIEW_ITEMS.filter(existing => existing.id !== item.id), item];
+  saveReviewItems();
+};
@@ -0,0 +1,407 @@
+// =============================================================================
+// SEARCH SERVICE — Workspace-wide full-text search
+// =============================================================================
+// Keeps a TextIndex of notes, contacts, tasks and interactions and answers
+// search box queries with typed, ranked results.
+//
+// The index is incremental: each source subscribes to its store and is only
+// marked dirty on change. On the next query, dirty sources are diffed by a
+// per-record signature and only changed records are re-tokenized. Contacts
+// are re-checked on every query because contact edits are not broadcast
+// (cheap — the list is small and signatures are compared, not re-indexed).
+//
+// Queries support the operators parsed by searchQuery.ts
+// (@contact, #topic, is:type, before:/after:). Ranking combines text
+// relevance with recency and how often a record is linked to.
+// =============================================================================
+
+import type { Contact, Interaction, Note, Task } from '../types';
+import { TextIndex, tokenize, type IndexedField } from '../lib/search/textIndex';
+import {
+  parseSearchQuery,
+  hasSearchFilters,
+  type ParsedSearchQuery,
+  type SearchResultType,
+} from '../lib/search/searchQuery';
+import { getAllNotes, getNoteLinks, subscribeNotes } from './noteStore';
+import { getAllContacts, getContactById, subscribeContacts } from './contactStore';
+import { getAllTasks, subscribeTasks } from './taskStore';
+import { getAllInteractions, subscribeInteractions } from './interactionStore';
+import { getAllTopics } from './topicStore';
+
+export type { SearchResultType } from '../lib/search/searchQuery';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  /** Excerpt around the first match (or the start of the text) */
+  snippet: string;
+  /** Date the record is filed under (note/log date, due date, occurred at…) */
+  date: string | null;
+  /** Contact to open for contact, task and interaction results */
+  contactId: string | null;
+  score: number;
+}
+
+export interface SearchOptions {
+  limit?: number;
+}
+
+/** What the index keeps per record besides its postings */
+interface SearchDoc {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  body: string;
+  date: string | null;
+  contactIds: string[];
+  topicIds: string[];
+  tags: string[];
+  linkCount: number;
+  signature: string;
+}
+
+/**
+ * Describes how one store feeds the index.
+ * Record callbacks are declared as methods so sources of every record type fit
+ * in one `SearchSource[]`: a source only ever receives its own list's records.
+ */
+interface SearchSource<T extends { id: string } = { id: string }> {
+  type: SearchResultType;
+  list(): T[];
+  subscribe(callback: () => void): () => void;
+  /** Changes whenever anything indexed about the record changes */
+  signature(record: T): string;
+  toDoc(record: T): Omit<SearchDoc, 'signature'>;
+  fields(doc: SearchDoc): IndexedField[];
+}
+
+// =============================================================================
+// TEXT EXTRACTION
+// =============================================================================
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", nbsp: ' ' };
+
+/** Strip stored note HTML to text without touching the DOM */
+const htmlToText = (html: string): string =>
+  html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_, entity) => ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/** Collect text runs from a serialized BlockSuite snapshot (delta inserts and text props) */
+const serializedText = (value: unknown, depth = 0, out: string[] = []): string[] => {
+  if (depth > 12 || value === null || typeof value !== 'object') return out;
+  if (Array.isArray(value)) {
+    value.forEach(item => serializedText(item, depth + 1, out));
+    return out;
+  }
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    if ((key === 'insert' || key === 'text' || key === 'title') && typeof child === 'string') out.push(child);
+    else serializedText(child, depth + 1, out);
+  }
+  return out;
+};
+
+const noteBody = (note: Note): string =>
+  [
+    note.content ? htmlToText(note.content) : '',
+    ...(note.entries || []).flatMap(entry => [
+      entry.text,
+      ...entry.attachments.map(attachment => attachment.transcript || ''),
+    ]),
+    ...(note.blocksuiteSerialized ? serializedText(note.blocksuiteSerialized) : []),
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+const INTERACTION_LABELS: Record<Interaction['type'], string> = {
+  call: 'Call',
+  meeting: 'Meeting',
+  message: 'Message',
+  email: 'Email',
+  dm: 'DM',
+  other: 'Interaction',
+};
+
+// =============================================================================
+// SOURCES
+// =============================================================================
+
+/** Backlink counts, refreshed whenever notes are re-synced */
+let backlinkCounts = new Map<string, number>();
+
+const source = <T extends { id: string }>(config: SearchSource<T>): SearchSource<T> => config;
+
+const SOURCES: SearchSource[] = [
+  source<Note>({
+    type: 'note',
+    list: () => getAllNotes().filter(note => !note.isArchived),
+    subscribe: subscribeNotes,
+    signature: note =>
+      [
+        note.updatedAt,
+        note.sync_version,
+        note.title,
+        note.content?.length,
+        note.entries?.length,
+        note.topics?.join(','),
+        note.tags?.join(','),
+        backlinkCounts.get(note.id) || 0,
+      ].join('|'),
+    toDoc: note => ({
+      type: 'note',
+      id: note.id,
+      title: note.title || (note.kind === 'log' && note.dateKey) || 'Untitled',
+      body: noteBody(note),
+      date: note.dateKey || note.createdAt,
+      contactIds: [...new Set([...(note.targetContactIds || []), ...(note.mentions || [])])],
+      topicIds: note.topics || [],
+      tags: note.tags || [],
+      linkCount: backlinkCounts.get(note.id) || 0,
+    }),
+    fields: doc => [
+      { text: doc.title, weight: 3 },
+      { text: doc.tags.join(' '), weight: 2 },
+      { text: doc.body },
+    ],
+  }),
+  source<Contact>({
+    type: 'contact',
+    list: () => getAllContacts(),
+    subscribe: subscribeContacts,
+    signature: c =>
+      [c.fullName, c.company, c.title, c.email, c.location, c.relationshipRole, c.tags.join(','), c.lastContactAt, c.mentionedInNotes.length].join('|'),
+    toDoc: c => ({
+      type: 'contact',
+      id: c.id,
+      title: c.fullName,
+      body: [c.title, c.company, c.email, c.location, c.relationshipRole].filter(Boolean).join(' · '),
+      date: c.lastContactAt || null,
+      contactIds: [c.id],
+      topicIds: c.linkedTopics || [],
+      tags: c.tags,
+      linkCount: c.mentionedInNotes.length,
+    }),
+    fields: doc => [
+      { text: doc.title, weight: 3 },
+      { text: doc.tags.join(' '), weight: 2 },
+      { text: doc.body },
+    ],
+  }),
+  source<Task>({
+    type: 'task',
+    list: getAllTasks,
+    subscribe: subscribeTasks,
+    signature: t => [t.title, t.status, t.dueAt, t.contactId].join('|'),
+    toDoc: t => ({
+      type: 'task',
+      id: t.id,
+      title: t.title,
+      body: '',
+      date: t.dueAt || t.createdAt,
+      contactIds: [t.contactId],
+      topicIds: [],
+      tags: [],
+      linkCount: 0,
+    }),
+    fields: doc => [{ text: doc.title, weight: 3 }],
+  }),
+  source<Interaction>({
+    type: 'interaction',
+    list: getAllInteractions,
+    subscribe: subscribeInteractions,
+    signature: i => [i.type, i.summary, i.occurredAt, i.contactId].join('|'),
+    toDoc: i => ({
+      type: 'interaction',
+      id: i.id,
+      title: INTERACTION_LABELS[i.type] || 'Interaction',
+      body: i.summary,
+      date: i.occurredAt,
+      contactIds: [i.contactId],
+      topicIds: [],
+      tags: [],
+      linkCount: 0,
+    }),
+    fields: doc => [
+      { text: doc.title, weight: 2 },
+      { text: doc.body },
+    ],
+  }),
+];
+
+// =============================================================================
+// INDEX MAINTENANCE
+// =============================================================================
+
+const index = new TextIndex();
+const docs = new Map<string, SearchDoc>();
+const dirty = new Set<SearchResultType>(SOURCES.map(s => s.type));
+let subscribed = false;
+
+const docKey = (type: SearchResultType, id: string) => `${type}:${id}`;
+
+const syncSource = (src: SearchSource): void => {
+  if (src.type === 'note') {
+    backlinkCounts = new Map();
+    for (const link of getNoteLinks()) {
+      backlinkCounts.set(link.targetNoteId, (backlinkCounts.get(link.targetNoteId) || 0) + 1);
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const record of src.list()) {
+    const key = docKey(src.type, record.id);
+    seen.add(key);
+
+    const signature = src.signature(record);
+    if (docs.get(key)?.signature === signature) continue;
+
+    const next: SearchDoc = { ...src.toDoc(record), signature };
+    docs.set(key, next);
+    index.add(key, src.fields(next));
+  }
+
+  for (const [key, doc] of docs) {
+    if (doc.type === src.type && !seen.has(key)) {
+      docs.delete(key);
+      index.remove(key);
+    }
+  }
+};
+
+/** Bring dirty sources up to date (subscribing to the stores on first use) */
+const refreshIndex = (): void => {
+  if (!subscribed) {
+    SOURCES.forEach(src => src.subscribe(() => dirty.add(src.type)));
+    subscribed = true;
+  }
+
+  // Contact edits are not broadcast by contactStore; diff them every time
+  dirty.add('contact');
+
+  for (const src of SOURCES) {
+    if (!dirty.has(src.type)) continue;
+    try {
+      syncSource(src);
+    } catch (err) {
+      console.warn(`[SearchService] Failed to index ${src.type}s:`, err);
+    }
+    dirty.delete(src.type);
+  }
+};
+
+/** Force a full rebuild on the next query */
+export const resetSearchIndex = (): void => {
+  index.clear();
+  docs.clear();
+  SOURCES.forEach(src => dirty.add(src.type));
+};
+
+// =============================================================================
+// QUERYING
+// =============================================================================
+
+const normalize = (text: string): string => tokenize(text).join(' ');
+
+/** Contacts whose name contains every word of `query` as a word prefix */
+const matchContacts = (query: string): Set<string> => {
+  const words = tokenize(query);
+  return new Set(
+    getAllContacts(true)
+      .filter(contact => {
+        const nameWords = tokenize(contact.fullName);
+        return words.every(word => nameWords.some(n => n.startsWith(word)));
+      })
+      .map(contact => contact.id)
+  );
+};
+
+const matchesTopic = (doc: SearchDoc, query: string, topicIds: Set<string>): boolean =>
+  doc.topicIds.some(id => topicIds.has(id)) || doc.tags.some(tag => normalize(tag).startsWith(query));
+
+const passesFilters = (doc: SearchDoc, query: ParsedSearchQuery, contactSets: Set<string>[], topicSets: [string, Set<string>][]): boolean => {
+  if (query.types.length > 0 && !query.types.includes(doc.type)) return false;
+  if (contactSets.some(ids => !doc.contactIds.some(id => ids.has(id)))) return false;
+  if (topicSets.some(([text, ids]) => !matchesTopic(doc, text, ids))) return false;
+
+  if (query.before || query.after) {
+    const day = doc.date?.slice(0, 10);
+    if (!day) return false;
+    if (query.before && day >= query.before) return false;
+    if (query.after && day <= query.after) return false;
+  }
+  return true;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Boost for recently dated records and for records many others link to */
+const rankBoost = (doc: SearchDoc, now: number): number => {
+  const time = doc.date ? new Date(doc.date).getTime() : NaN;
+  const ageDays = Number.isNaN(time) ? Infinity : Math.max(0, (now - time) / DAY_MS);
+  const recency = Number.isFinite(ageDays) ? Math.exp(-ageDays / 90) : 0;
+  return (1 + 0.5 * recency) * (1 + 0.2 * Math.log2(1 + doc.linkCount));
+};
+
+const makeSnippet = (doc: SearchDoc, text: string): string => {
+  const body = doc.body;
+  if (!body) return '';
+  const lower = body.toLowerCase();
+  const positions = tokenize(text)
+    .map(word => lower.indexOf(word))
+    .filter(pos => pos >= 0);
+  const start = positions.length > 0 ? Math.max(0, Math.min(...positions) - 40) : 0;
+  const excerpt = body.slice(start, start + 160).trim();
+  return `${start > 0 ? '…' : ''}${excerpt}${start + 160 < body.length ? '…' : ''}`;
+};
+
+/**
+ * Search notes, contacts, tasks and interactions.
+ * A query of only operators (e.g. "is:task @ada") lists matches by recency.
+ */
+export const searchWorkspace = (input: string, options: SearchOptions = {}): SearchResult[] => {
+  const query = parseSearchQuery(input);
+  if (!query.text && !hasSearchFilters(query)) return [];
+
+  refreshIndex();
+
+  const contactSets = query.contacts.map(matchContacts);
+  const allTopics = getAllTopics();
+  const topicSets = query.topics.map((label): [string, Set<string>] => {
+    const text = normalize(label);
+    return [text, new Set(allTopics.filter(t => normalize(t.label).startsWith(text)).map(t => t.id))];
+  });
+
+  const textScores = query.text ? index.search(query.text) : null;
+  const candidates = textScores ? [...textScores.keys()] : [...docs.keys()];
+  const now = Date.now();
+
+  const results: SearchResult[] = [];
+  for (const key of candidates) {
+    const doc = docs.get(key);
+    if (!doc || !passesFilters(doc, query, contactSets, topicSets)) continue;
+
+    const score = (textScores?.get(key) ?? 1) * rankBoost(doc, now);
+    results.push({
+      type: doc.type,
+      id: doc.id,
+      title: doc.type === 'task' || doc.type === 'interaction'
+        ? `${doc.title} · ${getContactById(doc.contactIds[0])?.fullName || 'Unknown contact'}`
+        : doc.title,
+      snippet: makeSnippet(doc, query.text),
+      date: doc.date,
+      contactId: doc.type === 'note' ? null : doc.contactIds[0] || null,
+      score,
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, options.limit ?? 20);
+};
@@ -0,0 +1,304 @@
+// =============================================================================
+// SMART FOLDER STORE — Saved note queries
+// =============================================================================
+// A smart folder is a named NoteQuery. Its contents are never stored: the
+// query is re-run against the current notes, so a smart folder stays up to
+// date as notes, topics and FrameScans change. The same queries can be
+// embedded in a note as a live result block (see SmartQueryNode).
+//
+// Criteria are ANDed together; list criteria (topics, contacts, kinds) match
+// when the note has ANY of the listed values. Trashed and archived notes are
+// never included.
+// =============================================================================
+
+import type { Note, NoteKind } from '../types';
+import { loadPersisted, savePersisted, type PersistedSchema } from '../lib/persistence/versionedStorage';
+import { getAllNotes, subscribeNotes } from './noteStore';
+import { getDescendantTopicIds, getTopicPath } from './topicStore';
+import { getContactById } from './contactStore';
+import { getFrameScanReports, subscribe as subscribeFrameScans } from './frameScanReportStore';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type NoteQuerySort = 'updated' | 'created' | 'title';
+
+export interface NoteQuery {
+  /** Tagged with any of these topics (subtopics included) */
+  topicIds?: string[];
+  /** Mentions or targets any of these contacts */
+  contactIds?: string[];
+  kinds?: NoteKind[];
+  /** Which date the range applies to (default: created, or the log date) */
+  dateField?: 'created' | 'updated';
+  /** Inclusive YYYY-MM-DD bounds */
+  after?: string | null;
+  before?: string | null;
+  /** Rolling range: the last N days, today included */
+  withinDays?: number | null;
+  pinned?: boolean;
+  hasAttachment?: boolean;
+  /** A FrameScan report was run on the note */
+  hasFrameScan?: boolean;
+  sort?: NoteQuerySort;
+}
+
+export interface SmartFolder {
+  id: string;
+  name: string;
+  query: NoteQuery;
+  color?: string;
+  order: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+const SMART_FOLDERS_SCHEMA: PersistedSchema<SmartFolder[]> = {
+  key: 'framelord_smart_folders',
+  version: 1,
+  defaults: () => [],
+};
+
+let SMART_FOLDERS: SmartFolder[] = loadPersisted(SMART_FOLDERS_SCHEMA);
+
+const smartFolderSubscribers: Set<() => void> = new Set();
+
+/**
+ * Subscribe to smart folder definition changes
+ * Returns unsubscribe function
+ */
+export const subscribeSmartFolders = (callback: () => void): (() => void) => {
+  smartFolderSubscribers.add(callback);
+  return () => smartFolderSubscribers.delete(callback);
+};
+
+/**
+ * Subscribe to anything that can change query results: smart folder
+ * definitions, notes and FrameScan reports.
+ * Returns unsubscribe function
+ */
+export const subscribeNoteQueryResults = (callback: () => void): (() => void) => {
+  const unsubscribers = [
+    subscribeSmartFolders(callback),
+    subscribeNotes(callback),
+    subscribeFrameScans(callback),
+  ];
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
+
+/** Persist and notify subscribers */
+const saveSmartFolders = (): void => {
+  savePersisted(SMART_FOLDERS_SCHEMA, SMART_FOLDERS);
+  smartFolderSubscribers.forEach(callback => callback());
+};
+
+const generateSmartFolderId = (): string =>
+  `smart-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+// =============================================================================
+// QUERY EVALUATION
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateKey = (iso: string): string => iso.split('T')[0];
+
+/** Contacts a note is linked to, across the current and legacy fields */
+const linkedContactIds = (note: Note): string[] => [
+  ...(note.targetContactIds || []),
+  ...(note.mentions || []),
+  ...(note.mentionedContactIds || []),
+  ...(note.targetContactId ? [note.targetContactId] : []),
+  ...(note.contactId ? [note.contactId] : []),
+];
+
+/** Stored attachments, or embedded images and audio in the note body */
+export const noteHasAttachment = (note: Note): boolean =>
+  (note.attachments?.length ?? 0) > 0 ||
+  !!note.entries?.some(entry => (entry.attachments?.length ?? 0) > 0) ||
+  /<img\b|data-type="(audio-embed|resizable-image)"/.test(note.content || '');
+
+/**
+ * IDs of notes that have a FrameScan report. Reports point at their note via
+ * sourceRef, either the bare note ID or "note:<id>" / "note:<id>:canvas".
+ */
+export const getFrameScannedNoteIds = (): Set<string> => {
+  const ids = new Set<string>();
+  for (const report of getFrameScanReports()) {
+    const ref = report.sourceRef;
+    if (!ref) continue;
+    ids.add(ref.startsWith('note:') ? ref.split(':')[1] : ref);
+  }
+  return ids;
+};
+
+interface QueryContext {
+  topicIds: Set<string> | null;
+  frameScannedNoteIds: Set<string> | null;
+  after: string | null;
+  before: string | null;
+}
+
+const buildQueryContext = (query: NoteQuery, now: Date): QueryContext => {
+  let after = query.after || null;
+  if (query.withinDays && query.withinDays > 0) {
+    const rolling = toDateKey(new Date(now.getTime() - (query.withinDays - 1) * DAY_MS).toISOString());
+    after = after && after > rolling ? after : rolling;
+  }
+
+  return {
+    topicIds: query.topicIds?.length
+      ? new Set(query.topicIds.flatMap(id => [id, ...getDescendantTopicIds(id)]))
+      : null,
+    frameScannedNoteIds: query.hasFrameScan !== undefined ? getFrameScannedNoteIds() : null,
+    after,
+    before: query.before || null,
+  };
+};
+
+const matchesContext = (note: Note, query: NoteQuery, context: QueryContext): boolean => {
+  if (note.deletedAt || note.isArchived) return false;
+
+  if (context.topicIds && !(note.topics || []).some(id => context.topicIds!.has(id))) return false;
+  if (query.contactIds?.length) {
+    const linked = linkedContactIds(note);
+    if (!query.contactIds.some(id => linked.includes(id))) return false;
+  }
+  if (query.kinds?.length && !query.kinds.includes(note.kind)) return false;
+
+  if (context.after || context.before) {
+    const date = query.dateField === 'updated'
+      ? toDateKey(note.updatedAt || note.createdAt)
+      : note.dateKey || toDateKey(note.createdAt);
+    if (context.after && date < context.after) return false;
+    if (context.before && date > context.before) return false;
+  }
+
+  if (query.pinned !== undefined && !!note.isPinned !== query.pinned) return false;
+  if (query.hasAttachment !== undefined && noteHasAttachment(note) !== query.hasAttachment) return false;
+  if (context.frameScannedNoteIds && context.frameScannedNoteIds.has(note.id) !== query.hasFrameScan) return false;
+
+  return true;
+};
+
+const SORTERS: Record<NoteQuerySort, (a: Note, b: Note) => number> = {
+  updated: (a, b) => (b.updatedAt || b.createdAt).localeCompare(a.updatedAt || a.createdAt),
+  created: (a, b) => b.createdAt.localeCompare(a.createdAt),
+  title: (a, b) => (a.title || 'Untitled').localeCompare(b.title || 'Untitled'),
+};
+
+/** True if a single note matches the query */
+export const matchesNoteQuery = (note: Note, query: NoteQuery, now: Date = new Date()): boolean =>
+  matchesContext(note, query, buildQueryContext(query, now));
+
+/** Run a query against all notes, sorted by the query's sort (default: recently updated) */
+export const runNoteQuery = (query: NoteQuery, now: Date = new Date()): Note[] => {
+  const context = buildQueryContext(query, now);
+  return getAllNotes()
+    .filter(note => matchesContext(note, query, context))
+    .sort(SORTERS[query.sort || 'updated']);
+};
+
+/** True if the query has no criteria (it would match every note) */
+export const isEmptyNoteQuery = (query: NoteQuery): boolean =>
+  !query.topicIds?.length &&
+  !query.contactIds?.length &&
+  !query.kinds?.length &&
+  !query.after &&
+  !query.before &&
+  !query.withinDays &&
+  query.pinned === undefined &&
+  query.hasAttachment === undefined &&
+  query.hasFrameScan === undefined;
+
+/** One-line summary of a query for tooltips and block headers */
+export const describeNoteQuery = (query: NoteQuery): string => {
+  const parts: string[] = [];
+  if (query.topicIds?.length) parts.push(query.topicIds.map(id => `#${getTopicPath(id) || id}`).join(' or '));
+  if (query.contactIds?.length) {
+    parts.push(query.contactIds.map(id => `@${getContactById(id)?.fullName || 'Unknown'}`).join(' or '));
+  }
+  if (query.kinds?.length) parts.push(query.kinds.join(' or '));
+  if (query.withinDays) parts.push(`last ${query.withinDays} days`);
+  if (query.after) parts.push(`from ${query.after}`);
+  if (query.before) parts.push(`until ${query.before}`);
+  if (query.pinned !== undefined) parts.push(query.pinned ? 'pinned' : 'not pinned');
+  if (query.hasAttachment !== undefined) parts.push(query.hasAttachment ? 'with attachments' : 'without attachments');
+  if (query.hasFrameScan !== undefined) parts.push(query.hasFrameScan ? 'FrameScanned' : 'not FrameScanned');
+  return parts.length > 0 ? parts.join(' · ') : 'All notes';
+};
+
+// =============================================================================
+// SMART FOLDERS
+// =============================================================================
+
+/** Get all smart folders in display order */
+export const getAllSmartFolders = (): SmartFolder[] =>
+  [...SMART_FOLDERS].sort((a, b) => a.order - b.order);
+
+export const getSmartFolderById = (id: string): SmartFolder | undefined =>
+  SMART_FOLDERS.find(f => f.id === id);
+
+/** Current contents of a smart folder (empty if it does not exist) */
+export const getSmartFolderNotes = (id: string, now: Date = new Date()): Note[] => {
+  const folder = getSmartFolderById(id);
+  return folder ? runNoteQuery(folder.query, now) : [];
+};
+
+export const createSmartFolder = (
+  name: string,
+  query: NoteQuery,
+  options: { color?: string } = {}
+): SmartFolder => {
+  const now = new Date().toISOString();
+  const folder: SmartFolder = {
+    id: generateSmartFolderId(),
+    name: name.trim() || 'Smart Folder',
+    query,
+    color: options.color,
+    order: SMART_FOLDERS.reduce((max, f) => Math.max(max, f.order), 0) + 1,
+    createdAt: now,
+    updatedAt: now,
+  };
+  SMART_FOLDERS = [...SMART_FOLDERS, folder];
+  saveSmartFolders();
+  return folder;
+};
+
+export const updateSmartFolder = (
+  id: string,
+  updates: Partial<Pick<SmartFolder, 'name' | 'query' | 'color' | 'order'>>
+): SmartFolder | null => {
+  const existing = getSmartFolderById(id);
+  if (!existing) return null;
+
+  const updated: SmartFolder = {
+    ...existing,
+    ...updates,
+    name: updates.name !== undefined ? updates.name.trim() || existing.name : existing.name,
+    updatedAt: new Date().toISOString(),
+  };
+  SMART_FOLDERS = SMART_FOLDERS.map(f => (f.id === id ? updated : f));
+  saveSmartFolders();
+  return updated;
+};
+
+/** Delete a smart folder. Notes are untouched; embedded blocks show it as missing. */
+export const deleteSmartFolder = (id: string): boolean => {
+  const initialLength = SMART_FOLDERS.length;
+  SMART_FOLDERS = SMART_FOLDERS.filter(f => f.id !== id);
+  if (SMART_FOLDERS.length === initialLength) return false;
+  saveSmartFolders();
+  return true;
+};
+
+/** Insert or replace a smart folder from a workspace backup (keeps its timestamps) */
+export const restoreSmartFolder = (folder: SmartFolder): void => {
+  SMART_FOLDERS = [...SMART_FOLDERS.filter(f => f.id !== folder.id), folder];
+  saveSmartFolders();
+};
@@ -1,17 +1,22 @@
 // =============================================================================
-// TASK STORE — In-memory data source for Tasks
+// TASK STORE — In-memory data source for Tasks (persisted to localStorage)
 // =============================================================================
 // INVARIANT: Every Task has a contactId. No orphan tasks.
 // Tasks track what needs to be done for/about a specific contact.
+// INVARIANT: A task with unfinished blockedBy dependencies is 'blocked'; it
+// returns to 'open' once they are all done.
 // =============================================================================
 
-import { Task, TaskStatus } from '../types';
-import { CONTACT_ZERO } from './contactStore';
+import { Task, TaskStatus, TaskRecurrence, TaskPriority } from '../types';
+import { CONTACT_ZERO, isDemoContact } from './contactStore';
+import { loadPersisted, savePersisted, type PersistedSchema } from '../lib/persistence/versionedStorage';
+import { expandRRule, getNextOccurrence, isValidRRule } from '../lib/recurrence/rrule';
 
-// --- MOCK TASKS ---
+// --- SEED TASKS ---
 // All tasks are linked to a Contact via contactId
+// Used only on first load, before anything has been persisted
 
-let MOCK_TASKS: Task[] = [
+const SEED_TASKS: Task[] = [
   // Tasks for Contact Zero (personal to-dos)
   {
     id: 'task_001',
@@ -139,11 +144,53 @@ let MOCK_TASKS: Task[] = [
   },
 ];
 
+// --- PERSISTENCE ---
+
+const TASKS_SCHEMA: PersistedSchema<Task[]> = {
+  key: 'framelord_tasks',
+  version: 2,
+  migrations: {
+    // v2: priorities
+    2: (data) => (data as Task[]).map(t => ({ ...t, priority: t.priority || 'medium' })),
+  },
+  defaults: () => SEED_TASKS.map(t => ({ ...t, priority: 'medium' as TaskPriority })),
+};
+
+let MOCK_TASKS: Task[] = loadPersisted(TASKS_SCHEMA);
+
+const taskSubscribers: Set<() => void> = new Set();
+
+/**
+ * Subscribe to task changes (fired on every write)
+ * Returns unsubscribe function
+ */
+export const subscribeTasks = (callback: () => void): (() => void) => {
+  taskSubscribers.add(callback);
+  return () => taskSubscribers.delete(callback);
+};
+
+/** Write the current task list to localStorage */
+const saveTasks = (): void => {
+  savePersisted(TASKS_SCHEMA, MOCK_TASKS);
+  taskSubscribers.forEach((callback) => callback());
+};
+
 // --- HELPER FUNCTIONS ---
 
+/** Sort rank for priorities (most urgent first) */
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+/** Priority of a task, treating tasks saved before priorities existed as 'medium' */
+export const getTaskPriority = (task: Task): TaskPriority => task.priority || 'medium';
+
 /** Generate a unique ID for new tasks */
 const generateTaskId = (): string => {
-  return `task-${Date.now()}`;
+  return `task-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
 };
 
 /** Get all tasks sorted by dueAt (earliest first, null at bottom), then createdAt */
@@ -216,48 +263,602 @@ export const createTask = (params: {
   title: string;
   dueAt?: string | null;
   wantId?: string | null;
+  /** RRULE; ignored without a dueAt to anchor it */
+  recurrence?: string | null;
+  priority?: TaskPriority;
+  parentTaskId?: string | null;
+  blockedBy?: string[];
+  estimatedMinutes?: number | null;
 }): Task => {
+  const id = generateTaskId();
+  const dueAt = params.dueAt || null;
+  const isRecurring = !!(dueAt && params.recurrence && isValidRRule(params.recurrence));
+
   const newTask: Task = {
-    id: generateTaskId(),
+    id,
     contactId: params.contactId,
     title: params.title,
-    dueAt: params.dueAt || null,
+    dueAt,
     status: 'open',
     createdAt: new Date().toISOString(),
     wantId: params.wantId || null,
+    priority: params.priority || 'medium',
+    ...(params.parentTaskId && { parentTaskId: params.parentTaskId }),
+    ...(params.blockedBy && params.blockedBy.length > 0 && { blockedBy: [...params.blockedBy] }),
+    ...(params.estimatedMinutes != null && { estimatedMinutes: params.estimatedMinutes }),
+    ...(isRecurring && {
+      recurrence: { rule: params.recurrence!, dtstart: dueAt! },
+      seriesId: id,
+      occurrenceAt: dueAt,
+    }),
   };
 
   MOCK_TASKS = [newTask, ...MOCK_TASKS];
-  return newTask;
+  applyDependencyStatuses();
+  saveTasks();
+  return getTaskById(id)!;
 };
 
-/** Update task status */
-export const updateTaskStatus = (taskId: string, status: TaskStatus): void => {
+/**
+ * Update task status.
+ * Completing the current occurrence of a recurring task creates the next one;
+ * reopening it takes the series back from that occurrence if it is untouched.
+ * Returns false if the reopen is refused because the next occurrence has
+ * already been worked on.
+ */
+export const updateTaskStatus = (taskId: string, status: TaskStatus): boolean => {
   const index = MOCK_TASKS.findIndex(t => t.id === taskId);
-  if (index !== -1) {
-    MOCK_TASKS[index] = { ...MOCK_TASKS[index], status };
+  if (index === -1) return false;
+  const task = MOCK_TASKS[index];
+
+  if (status === 'done' && task.status !== 'done' && task.recurrence) {
+    // The completed occurrence becomes history; the series moves on
+    MOCK_TASKS[index] = { ...task, status, recurrence: null };
+    const next = buildNextOccurrence(task);
+    if (next) MOCK_TASKS = [next, ...MOCK_TASKS];
+  } else if (status !== 'done' && task.status === 'done' && task.seriesId) {
+    const successor = findSeriesSuccessor(task);
+    if (successor && !isUntouchedOccurrence(successor, task)) {
+      console.warn('[TaskStore] Not reopening occurrence; the next one has already been worked on:', taskId);
+      return false;
+    }
+    // The series goes back to this occurrence; the generated next one is dropped
+    MOCK_TASKS[index] = {
+      ...task,
+      status,
+      ...(successor && { recurrence: restoreRecurrence(task, successor) }),
+    };
+    if (successor) MOCK_TASKS = MOCK_TASKS.filter(t => t.id !== successor.id);
+  } else {
+    MOCK_TASKS[index] = { ...task, status };
   }
+  applyDependencyStatuses();
+  saveTasks();
+  return true;
 };
 
 /** Update task with partial fields */
-export const updateTask = (taskId: string, updates: Partial<Pick<Task, 'title' | 'status' | 'dueAt' | 'contactId'>>): Task | null => {
+export const updateTask = (
+  taskId: string,
+  updates: Partial<Pick<Task, 'title' | 'status' | 'dueAt' | 'contactId' | 'priority' | 'estimatedMinutes' | 'actualMinutes'>>
+): Task | null => {
   const index = MOCK_TASKS.findIndex(t => t.id === taskId);
   if (index === -1) return null;
 
   MOCK_TASKS[index] = { ...MOCK_TASKS[index], ...updates };
+  applyDependencyStatuses();
+  saveTasks();
+  return getTaskById(taskId)!;
+};
+
+// =============================================================================
+// SUBTASKS, DEPENDENCIES & TIME TRACKING
+// =============================================================================
+
+/**
+ * Re-derive 'blocked' for every task with dependencies.
+ * Missing blockers (e.g. deleted on another device) count as done.
+ */
+const applyDependencyStatuses = (): void => {
+  const statusById = new Map(MOCK_TASKS.map(t => [t.id, t.status]));
+
+  MOCK_TASKS = MOCK_TASKS.map(task => {
+    if (!task.blockedBy || task.blockedBy.length === 0 || task.status === 'done') return task;
+
+    const waiting = task.blockedBy.some(id => {
+      const status = statusById.get(id);
+      return status !== undefined && status !== 'done';
+    });
+    if (waiting && task.status === 'open') return { ...task, status: 'blocked' };
+    if (!waiting && task.status === 'blocked') return { ...task, status: 'open' };
+    return task;
+  });
+};
+
+/** Get the direct subtasks of a task, oldest first */
+export const getSubtasks = (parentTaskId: string): Task[] => {
+  return MOCK_TASKS
+    .filter(t => t.parentTaskId === parentTaskId)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+};
+
+/** Count done vs. total direct subtasks */
+export const getSubtaskProgress = (parentTaskId: string): { done: number; total: number } => {
+  const subtasks = getSubtasks(parentTaskId);
+  return {
+    done: subtasks.filter(t => t.status === 'done').length,
+    total: subtasks.length,
+  };
+};
+
+/**
+ * Move a task under a new parent (or to the top level with null).
+ * Returns false if either task is missing or the move would create a cycle.
+ */
+export const setTaskParent = (taskId: string, parentTaskId: string | null): boolean => {
+  const index = MOCK_TASKS.findIndex(t => t.id === taskId);
+  if (index === -1) return false;
+
+  if (parentTaskId) {
+    if (!getTaskById(parentTaskId)) return false;
+    // Walk up from the new parent; reaching the task itself means a cycle
+    const seen = new Set<string>();
+    let cursor: string | null | undefined = parentTaskId;
+    while (cursor && !seen.has(cursor)) {
+      if (cursor === taskId) return false;
+      seen.add(cursor);
+      cursor = getTaskById(cursor)?.parentTaskId;
+    }
+  }
+
+  MOCK_TASKS[index] = { ...MOCK_TASKS[index], parentTaskId };
+  saveTasks();
+  return true;
+};
+
+/** Get the tasks a task is waiting on */
+export const getTaskBlockers = (taskId: string): Task[] => {
+  const task = getTaskById(taskId);
+  if (!task?.blockedBy) return [];
+  return task.blockedBy
+    .map(id => getTaskById(id))
+    .filter((t): t is Task => t !== undefined);
+};
+
+/** Get the tasks waiting on a task */
+export const getDependentTasks = (taskId: string): Task[] => {
+  return MOCK_TASKS.filter(t => t.blockedBy?.includes(taskId));
+};
+
+/** Whether `taskId` (transitively) waits on `otherId` */
+const dependsOn = (taskId: string, otherId: string, seen = new Set<string>()): boolean => {
+  if (seen.has(taskId)) return false;
+  seen.add(taskId);
+  const task = getTaskById(taskId);
+  return !!task?.blockedBy?.some(id => id === otherId || dependsOn(id, otherId, seen));
+};
+
+/**
+ * Mark `taskId` as blocked by `blockerId`.
+ * Returns false for missing tasks, self-dependencies and cycles.
+ */
+export const addTaskDependency = (taskId: string, blockerId: string): boolean => {
+  if (taskId === blockerId) return false;
+  const index = MOCK_TASKS.findIndex(t => t.id === taskId);
+  if (index === -1 || !getTaskById(blockerId)) return false;
+  if (dependsOn(blockerId, taskId)) return false;
+
+  const blockedBy = MOCK_TASKS[index].blockedBy || [];
+  if (!blockedBy.includes(blockerId)) {
+    MOCK_TASKS[index] = { ...MOCK_TASKS[index], blockedBy: [...blockedBy, blockerId] };
+    applyDependencyStatuses();
+    saveTasks();
+  }
+  return true;
+};
+
+/** Remove a dependency; the task reopens if nothing else is blocking it */
+export const removeTaskDependency = (taskId: string, blockerId: string): void => {
+  const index = MOCK_TASKS.findIndex(t => t.id === taskId);
+  if (index === -1) return;
+
+  const task = MOCK_TASKS[index];
+  const blockedBy = (task.blockedBy || []).filter(id => id !== blockerId);
+  MOCK_TASKS[index] = {
+    ...task,
+    blockedBy,
+    // Removing the last dependency lifts the block it imposed
+    ...(blockedBy.length === 0 && task.status === 'blocked' && { status: 'open' as TaskStatus }),
+  };
+  applyDependencyStatuses();
+  saveTasks();
+};
+
+/** Add time spent to a task's actual duration */
+export const logTaskTime = (taskId: string, minutes: number): Task | null => {
+  const task = getTaskById(taskId);
+  if (!task || minutes <= 0) return null;
+  return updateTask(taskId, { actualMinutes: (task.actualMinutes || 0) + minutes });
+};
+
+/** Format a duration in minutes as "1h 30m" */
+export const formatTaskDuration = (minutes: number | null | undefined): string => {
+  if (!minutes) return '0m';
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+// =============================================================================
+// SORTING & FILTERING
+// =============================================================================
+
+export type TaskSortKey = 'due' | 'priority' | 'estimate' | 'created';
+
+export interface TaskQueryOptions {
+  sortBy?: TaskSortKey;
+  /** Only tasks with one of these priorities */
+  priorities?: TaskPriority[];
+  /** Hide subtasks */
+  topLevelOnly?: boolean;
+  /** Only tasks that are waiting on other tasks */
+  hasBlockers?: boolean;
+  /** Only tasks with (true) or without (false) an estimate */
+  hasEstimate?: boolean;
+}
+
+/** Due date comparison used across the store: earliest first, undated last, then newest created */
+const compareByDue = (a: Task, b: Task): number => {
+  if (a.dueAt && b.dueAt) {
+    return new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime();
+  }
+  if (a.dueAt && !b.dueAt) return -1;
+  if (!a.dueAt && b.dueAt) return 1;
+  return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+};
+
+const TASK_COMPARATORS: Record<TaskSortKey, (a: Task, b: Task) => number> = {
+  due: compareByDue,
+  priority: (a, b) =>
+    PRIORITY_RANK[getTaskPriority(a)] - PRIORITY_RANK[getTaskPriority(b)] || compareByDue(a, b),
+  // Largest estimate first; unestimated last
+  estimate: (a, b) =>
+    (b.estimatedMinutes ?? -1) - (a.estimatedMinutes ?? -1) || compareByDue(a, b),
+  created: (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+};
+
+/** Filter and sort a list of tasks */
+export const queryTasks = (tasks: Task[], options: TaskQueryOptions = {}): Task[] => {
+  const filtered = tasks.filter(t => {
+    if (options.priorities && options.priorities.length > 0 && !options.priorities.includes(getTaskPriority(t))) {
+      return false;
+    }
+    if (options.topLevelOnly && t.parentTaskId) return false;
+    if (options.hasBlockers && !(t.blockedBy && t.blockedBy.length > 0)) return false;
+    if (options.hasEstimate !== undefined && (t.estimatedMinutes != null) !== options.hasEstimate) return false;
+    return true;
+  });
+  return filtered.sort(TASK_COMPARATORS[options.sortBy || 'due']);
+};
+
+// =============================================================================
+// RECURRENCE
+// =============================================================================
+// A recurring series is represented by a single open task (the current
+// occurrence) that carries `recurrence`. Later occurrences are not stored;
+// date-range queries project them from the rule. Completing the current
+// occurrence strips its recurrence and creates the next occurrence.
+
+/** Separator between the series task id and the date in projected occurrence ids */
+const OCCURRENCE_ID_SEPARATOR = '::';
+
+/** "T09:00:00Z" for timed ISO strings, "" for date-only ones */
+const extractTimeSuffix = (iso: string): string => {
+  const index = iso.indexOf('T');
+  return index === -1 ? '' : iso.slice(index);
+};
+
+/** Occurrence slot (ISO) for a date key, keeping the series' time of day */
+const occurrenceSlot = (recurrence: TaskRecurrence, dateKey: string): string => {
+  return `${dateKey}${extractTimeSuffix(recurrence.dtstart)}`;
+};
+
+/** Drop skip/reschedule entries for occurrences on or before a date */
+const pruneRecurrence = (recurrence: TaskRecurrence, throughDate: string): TaskRecurrence => {
+  const exdates = (recurrence.exdates || []).filter(d => d > throughDate);
+  const overrides = Object.fromEntries(
+    Object.entries(recurrence.overrides || {}).filter(([d]) => d > throughDate)
+  );
+  return {
+    rule: recurrence.rule,
+    dtstart: recurrence.dtstart,
+    ...(exdates.length > 0 && { exdates }),
+    ...(Object.keys(overrides).length > 0 && { overrides }),
+  };
+};
+
+/** Date key of the slot the current occurrence fills */
+const currentOccurrenceDate = (task: Task): string | null => {
+  const slot = task.occurrenceAt || task.dueAt;
+  return slot ? extractDatePortion(slot) : null;
+};
+
+/** Move a series task onto the occurrence after its current one (null if the series ended) */
+const advanceSeries = (task: Task, recurrence: TaskRecurrence): Pick<Task, 'dueAt' | 'occurrenceAt' | 'recurrence'> | null => {
+  const current = currentOccurrenceDate(task);
+  if (!current) return null;
+
+  const nextDate = getNextOccurrence(
+    recurrence.rule,
+    extractDatePortion(recurrence.dtstart),
+    current,
+    recurrence.exdates
+  );
+  if (!nextDate) return null;
+
+  const occurrenceAt = occurrenceSlot(recurrence, nextDate);
+  return {
+    dueAt: recurrence.overrides?.[nextDate] || occurrenceAt,
+    occurrenceAt,
+    recurrence: pruneRecurrence(recurrence, nextDate),
+  };
+};
+
+/** Build the task for the occurrence after `task`, or null if the series ended */
+const buildNextOccurrence = (task: Task): Task | null => {
+  if (!task.recurrence) return null;
+  const advanced = advanceSeries(task, task.recurrence);
+  if (!advanced) return null;
+
+  return {
+    id: generateTaskId(),
+    contactId: task.contactId,
+    title: task.title,
+    status: 'open',
+    createdAt: new Date().toISOString(),
+    wantId: task.wantId || null,
+    priority: getTaskPriority(task),
+    ...(task.parentTaskId && { parentTaskId: task.parentTaskId }),
+    ...(task.estimatedMinutes != null && { estimatedMinutes: task.estimatedMinutes }),
+    seriesId: task.seriesId || task.id,
+    ...advanced,
+  };
+};
+
+/**
+ * The occurrence created when `task` was completed: the one now carrying the
+ * series rule, provided it is the next slot after `task`.
+ */
+const findSeriesSuccessor = (task: Task): Task | null => {
+  const current = currentOccurrenceDate(task);
+  const successor = MOCK_TASKS.find(
+    t => t.id !== task.id && t.recurrence && (t.seriesId || t.id) === task.seriesId
+  );
+  if (!current || !successor) return null;
+
+  // Later completed occurrences mean this one is no longer the latest
+  const later = MOCK_TASKS.some(t =>
+    t.id !== task.id &&
+    t.id !== successor.id &&
+    (t.seriesId || t.id) === task.seriesId &&
+    (currentOccurrenceDate(t) ?? '') > current
+  );
+  return later ? null : successor;
+};
+
+/** Whether a generated occurrence is still exactly as completing `previous` left it */
+const isUntouchedOccurrence = (occurrence: Task, previous: Task): boolean => {
+  return (
+    occurrence.status === 'open' &&
+    occurrence.title === previous.title &&
+    getTaskPriority(occurrence) === getTaskPriority(previous) &&
+    (occurrence.estimatedMinutes ?? null) === (previous.estimatedMinutes ?? null) &&
+    occurrence.actualMinutes == null &&
+    !(occurrence.blockedBy && occurrence.blockedBy.length > 0) &&
+    !MOCK_TASKS.some(t => t.parentTaskId === occurrence.id || t.blockedBy?.includes(occurrence.id))
+  );
+};
+
+/**
+ * The successor's rule, with the skips and reschedule it consumed when the
+ * series advanced put back so projections from `task` match the old ones.
+ */
+const restoreRecurrence = (task: Task, successor: Task): TaskRecurrence => {
+  const recurrence = successor.recurrence!;
+  const current = currentOccurrenceDate(task)!;
+  const next = currentOccurrenceDate(successor)!;
+  const skipped = expandRRule(recurrence.rule, extractDatePortion(recurrence.dtstart), {
+    after: current,
+    to: next,
+    exclude: recurrence.exdates,
+  }).filter(d => d < next);
+  const rescheduled = successor.dueAt && successor.dueAt !== successor.occurrenceAt;
+
+  return {
+    ...recurrence,
+    ...(skipped.length > 0 && { exdates: [...skipped, ...(recurrence.exdates || [])] }),
+    ...(rescheduled && { overrides: { ...recurrence.overrides, [next]: successor.dueAt! } }),
+  };
+};
+
+/** Project the not-yet-created occurrences of a series task within a date range */
+const projectOccurrences = (task: Task, startDate: string, endDate: string): Task[] => {
+  const recurrence = task.recurrence;
+  const current = currentOccurrenceDate(task);
+  if (!recurrence || !current || task.status === 'done') return [];
+
+  // Slots after the range may have been rescheduled into it
+  const to = Object.entries(recurrence.overrides || {}).reduce(
+    (latest, [dateKey, dueAt]) =>
+      dateKey > latest && extractDatePortion(dueAt) <= endDate ? dateKey : latest,
+    endDate
+  );
+
+  return expandRRule(recurrence.rule, extractDatePortion(recurrence.dtstart), {
+    after: current,
+    to,
+    exclude: recurrence.exdates,
+  })
+    .map(dateKey => {
+      const occurrenceAt = occurrenceSlot(recurrence, dateKey);
+      return {
+        ...task,
+        id: `${task.id}${OCCURRENCE_ID_SEPARATOR}${dateKey}`,
+        status: 'open' as TaskStatus,
+        dueAt: recurrence.overrides?.[dateKey] || occurrenceAt,
+        occurrenceAt,
+      };
+    })
+    .filter(t => {
+      const dueDate = extractDatePortion(t.dueAt!);
+      return dueDate >= startDate && dueDate <= endDate;
+    });
+};
+
+/**
+ * Split a projected occurrence id ("task-123::2025-12-10") into the series
+ * task id and occurrence date. Returns null for ids of stored tasks.
+ */
+export const parseOccurrenceId = (id: string): { taskId: string; occurrenceDate: string } | null => {
+  const index = id.indexOf(OCCURRENCE_ID_SEPARATOR);
+  if (index === -1) return null;
+  return {
+    taskId: id.slice(0, index),
+    occurrenceDate: id.slice(index + OCCURRENCE_ID_SEPARATOR.length),
+  };
+};
+
+/** Whether a task returned by a date query is a projected (not yet stored) occurrence */
+export const isProjectedOccurrence = (task: Task): boolean => {
+  return parseOccurrenceId(task.id) !== null;
+};
+
+/**
+ * Set or clear the recurrence rule of a task.
+ * The task's current dueAt becomes the start of the series. Returns null if
+ * the task does not exist, has no dueAt, or the rule is invalid.
+ */
+export const setTaskRecurrence = (taskId: string, rule: string | null): Task | null => {
+  const index = MOCK_TASKS.findIndex(t => t.id === taskId);
+  if (index === -1) return null;
+  const task = MOCK_TASKS[index];
+
+  if (!rule) {
+    MOCK_TASKS[index] = { ...task, recurrence: null };
+  } else {
+    if (!task.dueAt || !isValidRRule(rule)) return null;
+    MOCK_TASKS[index] = {
+      ...task,
+      recurrence: { rule, dtstart: task.dueAt },
+      seriesId: task.seriesId || task.id,
+      occurrenceAt: task.dueAt,
+    };
+  }
+  saveTasks();
   return MOCK_TASKS[index];
 };
 
+/**
+ * Skip a single occurrence of a recurring task.
+ * Skipping the current occurrence moves the task to the next one; if the
+ * series has no further occurrences the task is removed.
+ * @param occurrenceDate - Date of the occurrence slot in "YYYY-MM-DD" format
+ */
+export const skipTaskOccurrence = (taskId: string, occurrenceDate: string): boolean => {
+  const index = MOCK_TASKS.findIndex(t => t.id === taskId);
+  if (index === -1) return false;
+  const task = MOCK_TASKS[index];
+  if (!task.recurrence) return false;
+
+  const recurrence: TaskRecurrence = {
+    ...task.recurrence,
+    exdates: [...new Set([...(task.recurrence.exdates || []), occurrenceDate])],
+  };
+
+  if (occurrenceDate === currentOccurrenceDate(task)) {
+    const advanced = advanceSeries(task, recurrence);
+    if (advanced) {
+      MOCK_TASKS[index] = { ...task, ...advanced };
+    } else {
+      MOCK_TASKS = MOCK_TASKS.filter(t => t.id !== taskId);
+    }
+  } else {
+    MOCK_TASKS[index] = { ...task, recurrence };
+  }
+  saveTasks();
+  return true;
+};
+
+/**
+ * Move a single occurrence of a recurring task to a different time.
+ * The rest of the series keeps its schedule.
+ * @param occurrenceDate - Date of the occurrence slot in "YYYY-MM-DD" format
+ * @param newDueAt - New due date/time (ISO)
+ */
+export const rescheduleTaskOccurrence = (taskId: string, occurrenceDate: string, newDueAt: string): boolean => {
+  const index = MOCK_TASKS.findIndex(t => t.id === taskId);
+  if (index === -1) return false;
+  const task = MOCK_TASKS[index];
+  if (!task.recurrence) return false;
+
+  if (occurrenceDate === currentOccurrenceDate(task)) {
+    MOCK_TASKS[index] = { ...task, dueAt: newDueAt, occurrenceAt: task.occurrenceAt || task.dueAt };
+  } else {
+    MOCK_TASKS[index] = {
+      ...task,
+      recurrence: {
+        ...task.recurrence,
+        overrides: { ...task.recurrence.overrides, [occurrenceDate]: newDueAt },
+      },
+    };
+  }
+  saveTasks();
+  return true;
+};
+
+/**
+ * Insert or replace a task received from sync.
+ * Does not touch any version bookkeeping; the sync engine owns that.
+ */
+export const applySyncedTask = (task: Task): void => {
+  const index = MOCK_TASKS.findIndex(t => t.id === task.id);
+  if (index === -1) {
+    MOCK_TASKS = [task, ...MOCK_TASKS];
+  } else {
+    MOCK_TASKS[index] = task;
+  }
+  saveTasks();
+};
+
+/** Remove a task that was deleted on another device */
+export const removeSyncedTask = (taskId: string): void => {
+  MOCK_TASKS = MOCK_TASKS.filter(t => t.id !== taskId);
+  saveTasks();
+};
+
+const SEED_TASK_IDS = new Set(SEED_TASKS.map(t => t.id));
+
+/** Seeded tasks and tasks about demo contacts stay on this device */
+export const isLocalOnlyTask = (taskId: string): boolean => {
+  if (SEED_TASK_IDS.has(taskId)) return true;
+  const task = getTaskById(taskId);
+  return !!task && isDemoContact(task.contactId);
+};
+
 /** Get a task by ID */
 export const getTaskById = (taskId: string): Task | undefined => {
   return MOCK_TASKS.find(t => t.id === taskId);
 };
 
 /** Get tasks grouped by contact (for Contact Zero summary) */
-export const getOpenTasksGroupedByContact = (): Map<string, Task[]> => {
+export const getOpenTasksGroupedByContact = (options: TaskQueryOptions = {}): Map<string, Task[]> => {
   const grouped = new Map<string, Task[]>();
   
-  const openTasks = getAllOpenTasks().filter(t => t.contactId !== CONTACT_ZERO.id);
+  const openTasks = queryTasks(
+    getAllOpenTasks().filter(t => t.contactId !== CONTACT_ZERO.id),
+    options
+  );
   
   for (const task of openTasks) {
     const existing = grouped.get(task.contactId) || [];
@@ -314,33 +915,25 @@ export const getTasksWithDueDate = (): Task[] => {
  * @param date - Date string in "YYYY-MM-DD" format
  */
 export const getTasksByDate = (date: string): Task[] => {
-  return MOCK_TASKS
-    .filter(t => {
-      if (!t.dueAt) return false;
-      const taskDate = extractDatePortion(t.dueAt);
-      return taskDate === date;
-    })
-    .sort((a, b) => {
-      // Sort by time if both have time, otherwise by title
-      if (a.dueAt && b.dueAt) {
-        return new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime();
-      }
-      return 0;
-    });
+  return getTasksByDateRange(date, date);
 };
 
 /**
  * Get tasks within a date range (inclusive).
+ * Recurring tasks are expanded: future occurrences in the range are returned
+ * as projected tasks (see isProjectedOccurrence / parseOccurrenceId).
  * @param startDate - Start date in "YYYY-MM-DD" format
  * @param endDate - End date in "YYYY-MM-DD" format
  */
 export const getTasksByDateRange = (startDate: string, endDate: string): Task[] => {
-  return MOCK_TASKS
-    .filter(t => {
-      if (!t.dueAt) return false;
-      const taskDate = extractDatePortion(t.dueAt);
-      return taskDate >= startDate && taskDate <= endDate;
-    })
+  const stored = MOCK_TASKS.filter(t => {
+    if (!t.dueAt) return false;
+    const taskDate = extractDatePortion(t.dueAt);
+    return taskDate >= startDate && taskDate <= endDate;
+  });
+  const projected = MOCK_TASKS.flatMap(t => projectOccurrences(t, startDate, endDate));
+
+  return [...stored, ...projected]
     .sort((a, b) => {
       if (a.dueAt && b.dueAt) {
         return new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime();
@@ -0,0 +1,109 @@
+// =============================================================================
+// TOPIC MERGE SERVICE — Fold duplicate topics into one
+// =============================================================================
+// Hashtags are typed freehand, so #sales, #Sales-Team and #selling end up as
+// three topics. mergeTopics folds one topic into another and re-points
+// everything that referenced it: Note.topics (and inline #topic nodes),
+// Contact.linkedTopics, NOTE_TOPICS links and Project.topicIds. The merged
+// topic's names become aliases of the survivor, so typing them again
+// resolves to the survivor instead of recreating the duplicate.
+//
+// Children of the merged topic move under the survivor; a child whose name
+// the survivor already has as a child is merged into it recursively.
+// =============================================================================
+
+import { getAllContacts, updateContact } from './contactStore';
+import { reassignTopicInNotes } from './noteStore';
+import { getAllProjects, updateProject } from './projectStore';
+import {
+  getTopicById,
+  getChildTopics,
+  getDescendantTopicIds,
+  absorbTopic,
+} from './topicStore';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TopicMergeResult {
+  survivorId: string;
+  mergedId: string;
+  notes: number;
+  contacts: number;
+  projects: number;
+  noteLinks: number;
+  /** Child topics moved under the survivor */
+  childTopics: number;
+  /** Child topics that were themselves merged into a survivor child */
+  mergedChildTopics: number;
+}
+
+const swapId = (ids: string[], fromId: string, toId: string): string[] =>
+  [...new Set(ids.map(id => (id === fromId ? toId : id)))];
+
+const segmentOf = (slug: string): string => slug.slice(slug.lastIndexOf('/') + 1);
+
+// =============================================================================
+// MERGE
+// =============================================================================
+
+/**
+ * Merge `duplicateId` into `survivorId`.
+ * Returns undefined if either topic is missing, they are the same, or the
+ * survivor sits below the duplicate (move it out first).
+ */
+export const mergeTopics = (survivorId: string, duplicateId: string): TopicMergeResult | undefined => {
+  const survivor = getTopicById(survivorId);
+  const duplicate = getTopicById(duplicateId);
+  if (!survivor || !duplicate || survivorId === duplicateId) {
+    console.warn('[TopicMerge] Cannot merge: topic not found or same topic');
+    return undefined;
+  }
+  if (getDescendantTopicIds(duplicateId).includes(survivorId)) {
+    console.warn('[TopicMerge] Cannot merge a topic into one of its own children');
+    return undefined;
+  }
+
+  const result: TopicMergeResult = {
+    survivorId,
+    mergedId: duplicateId,
+    notes: 0,
+    contacts: 0,
+    projects: 0,
+    noteLinks: 0,
+    childTopics: 0,
+    mergedChildTopics: 0,
+  };
+
+  // Same-named children would collide once moved, so fold them first
+  for (const child of getChildTopics(duplicateId)) {
+    const twin = getChildTopics(survivorId).find(c => segmentOf(c.slug) === segmentOf(child.slug));
+    if (!twin) continue;
+    const nested = mergeTopics(twin.id, child.id);
+    if (!nested) continue;
+    result.notes += nested.notes;
+    result.contacts += nested.contacts;
+    result.projects += nested.projects;
+    result.noteLinks += nested.noteLinks;
+    result.mergedChildTopics += 1 + nested.mergedChildTopics;
+  }
+
+  result.notes += reassignTopicInNotes(duplicateId, survivorId);
+
+  for (const contact of getAllContacts(true).filter(c => c.linkedTopics?.includes(duplicateId))) {
+    updateContact({ ...contact, linkedTopics: swapId(contact.linkedTopics, duplicateId, survivorId) });
+    result.contacts++;
+  }
+
+  for (const project of getAllProjects(true).filter(p => p.topicIds?.includes(duplicateId))) {
+    updateProject({ ...project, topicIds: swapId(project.topicIds, duplicateId, survivorId) });
+    result.projects++;
+  }
+
+  const absorbed = absorbTopic(survivorId, duplicateId);
+  result.noteLinks += absorbed.noteLinks;
+  result.childTopics = absorbed.childTopics;
+
+  return result;
+};
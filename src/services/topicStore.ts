@@ -1,12 +1,19 @@
 // =============================================================================
-// TOPIC STORE — In-memory data source for Hashtag Topics
+// TOPIC STORE — Data source for Hashtag Topics
 // =============================================================================
 // Topics are lightweight tags created via #hashtag syntax in notes.
 // They link notes and contacts together for organization and discovery.
+//
+// Topics nest with "/" (#sales/enterprise): each path segment is its own
+// topic with a parentId, and the slug is the full path. Aliases are extra
+// slugs that resolve to a canonical topic so #selling and #sales-team land on
+// Sales instead of creating new topics. Merging topics lives in
+// topicMergeService.
 // =============================================================================
 
 import { Topic, NoteTopic, Note } from '../types';
 import { getNotesByContactId, getNotesByAuthorId, getAllNotes } from './noteStore';
+import { loadPersisted, savePersisted, type PersistedSchema } from '../lib/persistence/versionedStorage';
 
 // =============================================================================
 // HELPER: Ensure topic has CRM linkage fields
@@ -20,18 +27,29 @@ const ensureTopicCRMFields = (topic: Partial<Topic>): Topic => ({
   contactIds: topic.contactIds || [],
 } as Topic);
 
-// --- IN-MEMORY STORES ---
+// --- PERSISTED STORES ---
+
+const TOPICS_SCHEMA: PersistedSchema<Topic[]> = {
+  key: 'framelord_topics',
+  version: 1,
+  defaults: () => [
+    // Sample topics with CRM linkage
+    ensureTopicCRMFields({ id: 'topic-sales', label: 'Sales', slug: 'sales' }),
+    ensureTopicCRMFields({ id: 'topic-marketing', label: 'Marketing', slug: 'marketing' }),
+    ensureTopicCRMFields({ id: 'topic-engineering', label: 'Engineering', slug: 'engineering' }),
+    ensureTopicCRMFields({ id: 'topic-product', label: 'Product', slug: 'product' }),
+    ensureTopicCRMFields({ id: 'topic-ideas', label: 'Ideas', slug: 'ideas' }),
+  ],
+};
 
-let TOPICS: Topic[] = [
-  // Sample topics with CRM linkage
-  ensureTopicCRMFields({ id: 'topic-sales', label: 'Sales', slug: 'sales' }),
-  ensureTopicCRMFields({ id: 'topic-marketing', label: 'Marketing', slug: 'marketing' }),
-  ensureTopicCRMFields({ id: 'topic-engineering', label: 'Engineering', slug: 'engineering' }),
-  ensureTopicCRMFields({ id: 'topic-product', label: 'Product', slug: 'product' }),
-  ensureTopicCRMFields({ id: 'topic-ideas', label: 'Ideas', slug: 'ideas' }),
-];
+let TOPICS: Topic[] = loadPersisted(TOPICS_SCHEMA).map(ensureTopicCRMFields);
 let NOTE_TOPICS: NoteTopic[] = [];
 
+/** Write topics to localStorage */
+const saveTopics = (): void => {
+  savePersisted(TOPICS_SCHEMA, TOPICS);
+};
+
 // --- HELPER: Normalize slug ---
 
 const normalizeSlug = (label: string): string => {
@@ -43,47 +61,92 @@ const normalizeSlug = (label: string): string => {
     .replace(/-+/g, '-');       // Collapse multiple hyphens
 };
 
+/** Split "Sales / Enterprise" into trimmed, non-empty segment labels */
+const splitTopicPath = (label: string): string[] =>
+  label.split('/').map(part => part.trim()).filter(part => normalizeSlug(part));
+
+/** Normalize a (possibly nested) label to a path slug: "Sales/Enterprise Deals" -> "sales/enterprise-deals" */
+export const normalizeTopicPath = (label: string): string =>
+  splitTopicPath(label).map(normalizeSlug).join('/');
+
+const lastSegment = (slug: string): string => slug.slice(slug.lastIndexOf('/') + 1);
+
 // --- HELPER: Generate topic ID ---
 
 const generateTopicId = (): string => {
   return `topic-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
 };
 
+// --- HELPER: Resolve slugs and aliases ---
+
+/**
+ * Resolve a path slug to a topic: exact slug, then alias, then (for nested
+ * paths) the resolved parent's child with that segment, so an alias on a
+ * parent also works inside a path (#selling/enterprise -> sales/enterprise).
+ */
+const resolveTopicSlug = (pathSlug: string): Topic | undefined => {
+  if (!pathSlug) return undefined;
+  const exact = TOPICS.find(t => t.slug === pathSlug) || TOPICS.find(t => t.aliases?.includes(pathSlug));
+  if (exact) return exact;
+
+  const split = pathSlug.lastIndexOf('/');
+  if (split === -1) return undefined;
+  const parent = resolveTopicSlug(pathSlug.slice(0, split));
+  const segment = pathSlug.slice(split + 1);
+  return parent && TOPICS.find(t => t.parentId === parent.id && lastSegment(t.slug) === segment);
+};
+
+/** Resolve a label (nested or aliased) to its canonical topic without creating anything */
+export const resolveTopic = (label: string): Topic | undefined => resolveTopicSlug(normalizeTopicPath(label));
+
 // --- EXPORTS ---
 
 /**
  * Get or create a topic by label.
- * If a topic with the normalized slug exists, return it.
- * Otherwise, create a new topic.
+ * If the label resolves to an existing topic (by slug or alias), return it.
+ * Otherwise create it; "a/b/c" creates any missing ancestors as well.
  */
 export const getOrCreateTopic = (label: string): Topic => {
-  const trimmedLabel = label.trim();
-  if (!trimmedLabel) {
+  const segments = splitTopicPath(label);
+  if (segments.length === 0) {
     throw new Error('Topic label cannot be empty');
   }
 
-  const slug = normalizeSlug(trimmedLabel);
-  
   // Check if topic already exists
-  const existing = TOPICS.find(t => t.slug === slug);
+  const existing = resolveTopic(label);
   if (existing) {
     return existing;
   }
 
-  // Create new topic with CRM fields
-  const now = new Date().toISOString();
-  const newTopic: Topic = {
-    id: generateTopicId(),
-    label: trimmedLabel,
-    slug,
-    createdAt: now,
-    updatedAt: now,
-    noteIds: [],
-    contactIds: [],
-  };
+  // Walk the path, creating missing levels under their resolved parents
+  let parent: Topic | undefined;
+  for (let i = 0; i < segments.length; i++) {
+    const found = resolveTopic(segments.slice(0, i + 1).join('/'));
+    if (found) {
+      parent = found;
+      continue;
+    }
+
+    // Create new topic with CRM fields
+    const now = new Date().toISOString();
+    const segmentSlug = normalizeSlug(segments[i]);
+    const newTopic: Topic = {
+      id: generateTopicId(),
+      label: segments[i],
+      slug: parent ? `${parent.slug}/${segmentSlug}` : segmentSlug,
+      parentId: parent?.id ?? null,
+      aliases: [],
+      createdAt: now,
+      updatedAt: now,
+      noteIds: [],
+      contactIds: [],
+    };
+    TOPICS.push(newTopic);
+    parent = newTopic;
+  }
 
-  TOPICS.push(newTopic);
-  return newTopic;
+  saveTopics();
+  return parent!;
 };
 
 /**
@@ -143,18 +206,30 @@ export const getTopicsForAuthor = (authorContactId: string): Topic[] => {
   return TOPICS.filter(t => topicIds.has(t.id));
 };
 
+/** Topic IDs covered by a topic: itself, plus every descendant when rolling up */
+const topicScope = (topicId: string, includeDescendants: boolean): Set<string> =>
+  new Set([topicId, ...(includeDescendants ? getDescendantTopicIds(topicId) : [])]);
+
 /**
  * Get all notes linked to a specific topic.
+ * @param includeDescendants - Roll up notes tagged with child topics too
  */
-export const getNotesForTopic = (topicId: string): Note[] => {
-  const noteIds = NOTE_TOPICS
-    .filter(nt => nt.topicId === topicId)
-    .map(nt => nt.noteId);
+export const getNotesForTopic = (topicId: string, includeDescendants = false): Note[] => {
+  const scope = topicScope(topicId, includeDescendants);
+  const noteIds = new Set(
+    NOTE_TOPICS
+      .filter(nt => scope.has(nt.topicId))
+      .map(nt => nt.noteId)
+  );
+  // Hashtag links are tracked on the topic itself
+  for (const id of scope) {
+    getTopicById(id)?.noteIds?.forEach(noteId => noteIds.add(noteId));
+  }
 
   // Get all notes and filter by matching IDs
   const allNotes = getAllNotes();
   return allNotes
-    .filter(n => noteIds.includes(n.id))
+    .filter(n => noteIds.has(n.id))
     .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 };
 
@@ -181,21 +256,28 @@ export const getAllTopics = (): Topic[] => {
 
 /**
  * Get count of notes for a topic.
+ * @param includeDescendants - Count distinct notes across child topics too
  */
-export const getNoteCountForTopic = (topicId: string): number => {
+export const getNoteCountForTopic = (topicId: string, includeDescendants = false): number => {
+  if (includeDescendants) return getNotesForTopic(topicId, true).length;
   return NOTE_TOPICS.filter(nt => nt.topicId === topicId).length;
 };
 
 /**
  * Get unique contacts for a topic (from notes about those contacts).
+ * @param includeDescendants - Roll up contacts of child topics too
  */
-export const getContactIdsForTopic = (topicId: string): string[] => {
-  const topic = getTopicById(topicId);
-  if (topic?.contactIds?.length) {
-    return [...topic.contactIds];
+export const getContactIdsForTopic = (topicId: string, includeDescendants = false): string[] => {
+  const scope = topicScope(topicId, includeDescendants);
+  const linked = new Set<string>();
+  for (const id of scope) {
+    getTopicById(id)?.contactIds?.forEach(contactId => linked.add(contactId));
+  }
+  if (linked.size > 0) {
+    return Array.from(linked);
   }
   // Fallback to legacy method
-  const notes = getNotesForTopic(topicId);
+  const notes = getNotesForTopic(topicId, includeDescendants);
   const contactIds = new Set<string>();
   notes.forEach(n => {
     if (n.contactId) contactIds.add(n.contactId);
@@ -216,9 +298,12 @@ export const searchTopicsByLabel = (query: string, limit = 8): Topic[] => {
   if (!query || query.trim().length === 0) return [];
 
   const q = query.toLowerCase().trim();
+  const qSlug = normalizeTopicPath(q);
 
+  // Match on label, full path ("sales/ent") or any alias
   let results = TOPICS.filter(t =>
-    t.label.toLowerCase().includes(q)
+    t.label.toLowerCase().includes(q) ||
+    (qSlug && (t.slug.includes(qSlug) || t.aliases?.some(alias => alias.includes(qSlug))))
   );
 
   // Sort by relevance: starts with query first
@@ -232,11 +317,12 @@ export const searchTopicsByLabel = (query: string, limit = 8): Topic[] => {
 };
 
 /**
- * Find a topic by exact label match (case-insensitive).
+ * Find a topic by label: its path or an alias first, then an exact
+ * (case-insensitive) label match.
  */
 export const findTopicByLabel = (label: string): Topic | undefined => {
   const normalizedLabel = label.trim().toLowerCase();
-  return TOPICS.find(t => t.label.toLowerCase() === normalizedLabel);
+  return resolveTopic(label) || TOPICS.find(t => t.label.toLowerCase() === normalizedLabel);
 };
 
 /**
@@ -269,6 +355,7 @@ export const addNoteToTopic = (topicId: string, noteId: string): void => {
   if (!topic.noteIds.includes(noteId)) {
     topic.noteIds.push(noteId);
     topic.updatedAt = new Date().toISOString();
+    saveTopics();
   }
 };
 
@@ -283,6 +370,7 @@ export const removeNoteFromTopic = (topicId: string, noteId: string): void => {
 
   topic.noteIds = topic.noteIds.filter(id => id !== noteId);
   topic.updatedAt = new Date().toISOString();
+  saveTopics();
 };
 
 /**
@@ -298,6 +386,7 @@ export const addContactToTopic = (topicId: string, contactId: string): void => {
   if (!topic.contactIds.includes(contactId)) {
     topic.contactIds.push(contactId);
     topic.updatedAt = new Date().toISOString();
+    saveTopics();
   }
 };
 
@@ -312,12 +401,178 @@ export const syncTopicContacts = (topicId: string, contactIds: string[]): void =
 
   topic.contactIds = [...new Set(contactIds)];
   topic.updatedAt = new Date().toISOString();
+  saveTopics();
+};
+
+// =============================================================================
+// HIERARCHY
+// =============================================================================
+
+/** Direct children of a topic, sorted by label */
+export const getChildTopics = (topicId: string): Topic[] =>
+  TOPICS.filter(t => t.parentId === topicId).sort((a, b) => a.label.localeCompare(b.label));
+
+/** IDs of all topics below a topic (children, grandchildren, ...) */
+export const getDescendantTopicIds = (topicId: string): string[] => {
+  const result: string[] = [];
+  const queue = [topicId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const child of TOPICS.filter(t => t.parentId === current)) {
+      if (result.includes(child.id) || child.id === topicId) continue;
+      result.push(child.id);
+      queue.push(child.id);
+    }
+  }
+  return result;
+};
+
+/** Ancestors of a topic, root first */
+export const getTopicAncestors = (topicId: string): Topic[] => {
+  const ancestors: Topic[] = [];
+  let current = getTopicById(topicId);
+  while (current?.parentId) {
+    const parent = getTopicById(current.parentId);
+    if (!parent || ancestors.includes(parent)) break;
+    ancestors.unshift(parent);
+    current = parent;
+  }
+  return ancestors;
+};
+
+/** Display path of a topic, e.g. "Sales/Enterprise" */
+export const getTopicPath = (topicId: string): string => {
+  const topic = getTopicById(topicId);
+  if (!topic) return '';
+  return [...getTopicAncestors(topicId), topic].map(t => t.label).join('/');
+};
+
+/** Recompute the slugs of a topic and its subtree after a move */
+const rebuildSlugs = (topic: Topic, parentSlug: string | null): void => {
+  const segment = lastSegment(topic.slug);
+  topic.slug = parentSlug ? `${parentSlug}/${segment}` : segment;
+  topic.updatedAt = new Date().toISOString();
+  for (const child of TOPICS.filter(t => t.parentId === topic.id)) {
+    rebuildSlugs(child, topic.slug);
+  }
 };
 
+/**
+ * Move a topic under another topic, or to the top level with null.
+ * Refused if it would create a cycle or collide with an existing path.
+ * @returns true if the topic was moved
+ */
+export const setTopicParent = (topicId: string, parentId: string | null): boolean => {
+  const topic = getTopicById(topicId);
+  const parent = parentId ? getTopicById(parentId) : null;
+  if (!topic || (parentId && !parent)) return false;
+  if (parentId && (parentId === topicId || getDescendantTopicIds(topicId).includes(parentId))) {
+    console.warn('[TopicStore] Cannot move a topic under itself or one of its children');
+    return false;
+  }
 
+  const segment = lastSegment(topic.slug);
+  const newSlug = parent ? `${parent.slug}/${segment}` : segment;
+  if (TOPICS.some(t => t.id !== topicId && (t.slug === newSlug || t.aliases?.includes(newSlug)))) {
+    console.warn(`[TopicStore] Cannot move topic, "${newSlug}" already exists (merge them instead)`);
+    return false;
+  }
 
+  topic.parentId = parent?.id ?? null;
+  rebuildSlugs(topic, parent?.slug ?? null);
+  saveTopics();
+  return true;
+};
 
+// =============================================================================
+// ALIASES
+// =============================================================================
 
+/**
+ * Make another spelling resolve to a topic.
+ * Refused if the alias is already a topic's path or another topic's alias.
+ * @returns true if the alias was added (or already pointed at this topic)
+ */
+export const addTopicAlias = (topicId: string, alias: string): boolean => {
+  const topic = getTopicById(topicId);
+  const slug = normalizeTopicPath(alias);
+  if (!topic || !slug) return false;
+  if (topic.slug === slug || topic.aliases?.includes(slug)) return true;
+
+  const owner = TOPICS.find(t => t.slug === slug || t.aliases?.includes(slug));
+  if (owner) {
+    console.warn(`[TopicStore] Alias "${slug}" is already used by topic "${owner.label}"`);
+    return false;
+  }
 
+  topic.aliases = [...(topic.aliases || []), slug];
+  topic.updatedAt = new Date().toISOString();
+  saveTopics();
+  return true;
+};
 
+export const removeTopicAlias = (topicId: string, alias: string): void => {
+  const topic = getTopicById(topicId);
+  const slug = normalizeTopicPath(alias);
+  if (!topic?.aliases?.includes(slug)) return;
 
+  topic.aliases = topic.aliases.filter(a => a !== slug);
+  topic.updatedAt = new Date().toISOString();
+  saveTopics();
+};
+
+// =============================================================================
+// MERGE SUPPORT
+// =============================================================================
+
+/**
+ * Fold one topic into another inside the topic store: NOTE_TOPICS links,
+ * note/contact linkage and children move to the survivor, the duplicate's
+ * path, label and aliases become survivor aliases, and the duplicate is
+ * removed. Records in other stores are re-pointed by topicMergeService.
+ * @returns Counts of moved note links and child topics
+ */
+export const absorbTopic = (
+  survivorId: string,
+  duplicateId: string
+): { noteLinks: number; childTopics: number } => {
+  const survivor = getTopicById(survivorId);
+  const duplicate = getTopicById(duplicateId);
+  if (!survivor || !duplicate || survivorId === duplicateId) return { noteLinks: 0, childTopics: 0 };
+
+  // Note links (dropping ones the survivor already has)
+  let noteLinks = 0;
+  NOTE_TOPICS = NOTE_TOPICS.flatMap(nt => {
+    if (nt.topicId !== duplicateId) return [nt];
+    noteLinks++;
+    const exists = NOTE_TOPICS.some(other => other.noteId === nt.noteId && other.topicId === survivorId);
+    return exists ? [] : [{ ...nt, topicId: survivorId }];
+  });
+
+  survivor.noteIds = [...new Set([...(survivor.noteIds || []), ...(duplicate.noteIds || [])])];
+  survivor.contactIds = [...new Set([...(survivor.contactIds || []), ...(duplicate.contactIds || [])])];
+
+  // Children keep their own segment under the survivor
+  const children = TOPICS.filter(t => t.parentId === duplicateId);
+  for (const child of children) {
+    child.parentId = survivorId;
+    rebuildSlugs(child, survivor.slug);
+  }
+
+  // Everything that used to name the duplicate now resolves to the survivor
+  const oldNames = [duplicate.slug, normalizeSlug(duplicate.label), ...(duplicate.aliases || [])];
+  TOPICS = TOPICS.filter(t => t.id !== duplicateId);
+  survivor.aliases = [
+    ...new Set([...(survivor.aliases || []), ...oldNames]),
+  ].filter(alias => alias && alias !== survivor.slug && !TOPICS.some(t => t.slug === alias));
+  survivor.updatedAt = new Date().toISOString();
+
+  saveTopics();
+  return { noteLinks, childTopics: children.length };
+};
+
+/** Insert or replace a topic as-is (backup restore) */
+export const restoreTopic = (topic: Topic): void => {
+  TOPICS = [...TOPICS.filter(t => t.id !== topic.id), ensureTopicCRMFields(topic)];
+  saveTopics();
+};
@@ -0,0 +1,295 @@
+// =============================================================================
+// UNLINKED MENTION SERVICE — Plain-text note titles and contact names
+// =============================================================================
+// Finds places where a note body names another note or a contact without
+// linking to it, and converts them into links:
+//   - note titles  → wikilinks (WikiLinkNode HTML, or [[Title]] in plain text)
+//   - contact names → @mentions (ContactMentionNode HTML, or @Name in plain text)
+//
+// Only visible text is scanned: tags, existing wikilinks, mentions, links and
+// code are skipped, so a converted mention is never found again. Matching is
+// case-insensitive on word boundaries; when names overlap the longest wins.
+// =============================================================================
+
+import type { Note } from '../types';
+import { getAllNotes, getNoteById, updateNote, addMentionToNote } from './noteStore';
+import { CONTACT_ZERO, getAllContacts } from './contactStore';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface UnlinkedMention {
+  /** Stable key: "note:<id>" or "contact:<id>" */
+  key: string;
+  kind: 'note' | 'contact';
+  targetId: string;
+  /** Canonical note title or contact name */
+  label: string;
+  /** Number of unlinked occurrences in the note */
+  count: number;
+  /** Text around the first occurrence */
+  snippet: string;
+}
+
+interface MentionTarget {
+  key: string;
+  kind: 'note' | 'contact';
+  targetId: string;
+  label: string;
+  pattern: RegExp;
+}
+
+/** Titles shorter than this are too likely to be ordinary words */
+const MIN_LABEL_LENGTH = 3;
+const SNIPPET_RADIUS = 40;
+
+// =============================================================================
+// TARGETS
+// =============================================================================
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const isHtmlContent = (content: string): boolean => /<\/?[a-z][^>]*>/i.test(content);
+
+const buildTarget = (kind: 'note' | 'contact', targetId: string, label: string, html: boolean): MentionTarget => {
+  const text = html ? escapeHtml(label) : label;
+  return {
+    key: `${kind}:${targetId}`,
+    kind,
+    targetId,
+    label,
+    // Not preceded by a word character or @, not followed by a word character
+    pattern: new RegExp(`(?<![\\w@])${escapeRegExp(text)}(?!\\w)`, 'gi'),
+  };
+};
+
+/** Other notes' titles and contact names, longest first */
+const getMentionTargets = (excludeNoteId: string | undefined, html: boolean): MentionTarget[] => {
+  const targets: MentionTarget[] = [];
+  const seen = new Set<string>();
+
+  for (const contact of getAllContacts()) {
+    const name = contact.fullName?.trim();
+    if (contact.id === CONTACT_ZERO.id || !name || name.length < MIN_LABEL_LENGTH) continue;
+    targets.push(buildTarget('contact', contact.id, name, html));
+    seen.add(name.toLowerCase());
+  }
+
+  for (const note of getAllNotes()) {
+    const title = note.title?.trim();
+    if (note.id === excludeNoteId || note.isArchived || !title || title.length < MIN_LABEL_LENGTH) continue;
+    if (title === 'Untitled' || seen.has(title.toLowerCase())) continue;
+    targets.push(buildTarget('note', note.id, title, html));
+    seen.add(title.toLowerCase());
+  }
+
+  return targets.sort((a, b) => b.label.length - a.label.length);
+};
+
+// =============================================================================
+// SCANNING
+// =============================================================================
+
+/** Elements whose text is already a link, or should never become one */
+const SKIP_ELEMENT = /^<(a|code|pre)\b|^<span\b[^>]*class="[^"]*\b(wikilink|contact-mention|topic-mention)\b|^<div\b[^>]*data-type=/i;
+const VOID_ELEMENT = /^<(br|hr|img|input|source|wbr)\b/i;
+
+interface TextSegment {
+  text: string;
+  /** False for markup and already-linked text */
+  scan: boolean;
+}
+
+/** Split content into scannable text and everything else */
+const segmentContent = (content: string, html: boolean): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  const pushText = (text: string, scan: boolean) => {
+    if (!scan) {
+      segments.push({ text, scan: false });
+      return;
+    }
+    // [[wikilinks]] and #[[topics]] typed as text are already links
+    let last = 0;
+    for (const match of text.matchAll(/#?\[\[[^\]]*\]\]/g)) {
+      if (match.index! > last) segments.push({ text: text.slice(last, match.index), scan: true });
+      segments.push({ text: match[0], scan: false });
+      last = match.index! + match[0].length;
+    }
+    if (last < text.length) segments.push({ text: text.slice(last), scan: true });
+  };
+
+  if (!html) {
+    pushText(content, true);
+    return segments;
+  }
+
+  // Open elements, with whether each one starts a skipped region
+  const stack: { tag: string; skip: boolean }[] = [];
+  const skipping = () => stack.some(entry => entry.skip);
+
+  for (const [token] of content.matchAll(/<[^>]*>|[^<]+/g)) {
+    if (!token.startsWith('<')) {
+      pushText(token, !skipping());
+      continue;
+    }
+    segments.push({ text: token, scan: false });
+
+    const close = token.match(/^<\/([a-z0-9]+)/i);
+    if (close) {
+      const index = stack.map(entry => entry.tag).lastIndexOf(close[1].toLowerCase());
+      if (index !== -1) stack.length = index;
+      continue;
+    }
+    const open = token.match(/^<([a-z0-9]+)/i);
+    if (open && !VOID_ELEMENT.test(token) && !token.endsWith('/>')) {
+      stack.push({ tag: open[1].toLowerCase(), skip: SKIP_ELEMENT.test(token) });
+    }
+  }
+  return segments;
+};
+
+const stripTags = (text: string): string =>
+  text.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"');
+
+interface TextMatch {
+  target: MentionTarget;
+  start: number;
+  end: number;
+}
+
+/** Non-overlapping matches in one text segment, longest label first */
+const matchSegment = (text: string, targets: MentionTarget[]): TextMatch[] => {
+  const matches: TextMatch[] = [];
+  for (const target of targets) {
+    for (const match of text.matchAll(target.pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (matches.some(m => start < m.end && end > m.start)) continue;
+      matches.push({ target, start, end });
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+};
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Unlinked mentions of other notes and contacts in a piece of note content.
+ * @param options.excludeNoteId - The note being scanned (never links to itself)
+ */
+export const findUnlinkedMentions = (
+  content: string,
+  options: { excludeNoteId?: string } = {}
+): UnlinkedMention[] => {
+  if (!content.trim()) return [];
+  const html = isHtmlContent(content);
+  const targets = getMentionTargets(options.excludeNoteId, html);
+  if (targets.length === 0) return [];
+
+  const found = new Map<string, UnlinkedMention>();
+  const segments = segmentContent(content, html);
+  const plainText = (from: number, to: number) =>
+    stripTags(segments.slice(from, to).map(s => s.text).join(''));
+
+  segments.forEach((segment, index) => {
+    if (!segment.scan) return;
+    for (const match of matchSegment(segment.text, targets)) {
+      const existing = found.get(match.target.key);
+      if (existing) {
+        existing.count++;
+        continue;
+      }
+      const before = plainText(0, index) + stripTags(segment.text.slice(0, match.start));
+      const after = stripTags(segment.text.slice(match.end)) + plainText(index + 1, segments.length);
+      const head = before.slice(-SNIPPET_RADIUS).replace(/\s+/g, ' ').trimStart();
+      const tail = after.slice(0, SNIPPET_RADIUS).replace(/\s+/g, ' ').trimEnd();
+      found.set(match.target.key, {
+        key: match.target.key,
+        kind: match.target.kind,
+        targetId: match.target.targetId,
+        label: match.target.label,
+        count: 1,
+        snippet: `${before.length > SNIPPET_RADIUS ? '...' : ''}${head}${stripTags(match.target.label)}${tail}${after.length > SNIPPET_RADIUS ? '...' : ''}`,
+      });
+    }
+  });
+
+  return Array.from(found.values()).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+};
+
+/** Unlinked mentions in a stored note */
+export const getUnlinkedMentions = (noteId: string): UnlinkedMention[] => {
+  const note = getNoteById(noteId);
+  return note ? findUnlinkedMentions(note.content || '', { excludeNoteId: noteId }) : [];
+};
+
+const renderLink = (mention: Pick<UnlinkedMention, 'kind' | 'targetId' | 'label'>, html: boolean): string => {
+  if (!html) return mention.kind === 'note' ? `[[${mention.label}]]` : `@${mention.label}`;
+
+  const label = escapeHtml(mention.label);
+  const id = escapeHtml(mention.targetId);
+  return mention.kind === 'note'
+    ? `<span data-wiki-title="${label}" data-note-id="${id}" class="wikilink"><span class="wikilink-icon-placeholder"></span><span class="wikilink-text">${label}</span></span>`
+    : `<span data-contact-id="${id}" data-contact-name="${label}" class="contact-mention"><span class="mention-icon-placeholder"></span><span class="mention-text">${label}</span></span>`;
+};
+
+/**
+ * Replace every unlinked occurrence of the given mentions with links.
+ * Pure: returns the new content; the notes and contacts are not touched.
+ */
+export const linkMentionsInContent = (
+  content: string,
+  mentions: Pick<UnlinkedMention, 'kind' | 'targetId' | 'label'>[],
+  options: { excludeNoteId?: string } = {}
+): string => {
+  if (mentions.length === 0) return content;
+  const html = isHtmlContent(content);
+  const selected = new Set(mentions.map(m => `${m.kind}:${m.targetId}`));
+
+  // Match against every target so an unselected longer name still shadows a shorter one
+  const targets = getMentionTargets(options.excludeNoteId, html);
+
+  return segmentContent(content, html)
+    .map(segment => {
+      if (!segment.scan) return segment.text;
+      let output = '';
+      let cursor = 0;
+      for (const match of matchSegment(segment.text, targets)) {
+        if (!selected.has(match.target.key)) continue;
+        output += segment.text.slice(cursor, match.start) + renderLink(match.target, html);
+        cursor = match.end;
+      }
+      return output + segment.text.slice(cursor);
+    })
+    .join('');
+};
+
+/**
+ * Convert unlinked mentions in a note into wikilinks / @mentions and link the
+ * contacts to the note.
+ * @param content - Current editor content, if newer than the stored note
+ * @returns The updated note, or null if it does not exist
+ */
+export const linkUnlinkedMentions = (
+  noteId: string,
+  mentions: Pick<UnlinkedMention, 'kind' | 'targetId' | 'label'>[],
+  content?: string
+): Note | null => {
+  const note = getNoteById(noteId);
+  if (!note) return null;
+
+  const source = content ?? note.content ?? '';
+  const linked = linkMentionsInContent(source, mentions, { excludeNoteId: noteId });
+  const updated = linked !== source || content !== undefined ? updateNote(noteId, { content: linked }) : note;
+
+  for (const mention of mentions) {
+    if (mention.kind === 'contact') addMentionToNote(noteId, mention.targetId);
+  }
+  return updated ?? null;
+};
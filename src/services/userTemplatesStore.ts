@@ -2,11 +2,13 @@
 // USER TEMPLATES STORE — Custom note templates with localStorage persistence
 // =============================================================================
 // Allows users to create, edit, and delete their own note templates.
-// Templates support {{date}} variable substitution like built-in templates.
+// Templates use the same template language as built-in templates (see
+// noteTemplates / lib/templates/templateEngine).
 // =============================================================================
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { renderNoteTemplate, type TemplateRenderOptions } from './noteTemplates';
 
 // =============================================================================
 // TYPES
@@ -89,9 +91,6 @@ export const useUserTemplatesStore = create<UserTemplatesState>()(
  * Replace template variables like {{date}} with actual values.
  * Same behavior as built-in templates.
  */
-export function replaceUserTemplateVariables(templateContent: string): string {
-  const today = new Date();
-  const dateString = today.toISOString().split('T')[0]; // YYYY-MM-DD format
-
-  return templateContent.replace(/\{\{date\}\}/g, dateString);
+export function replaceUserTemplateVariables(templateContent: string, options: TemplateRenderOptions = {}): string {
+  return renderNoteTemplate(templateContent, options);
 }
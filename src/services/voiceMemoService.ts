@@ -0,0 +1,240 @@
+// =============================================================================
+// VOICE MEMO SERVICE — Turn a memo transcript into notes, tasks and interactions
+// =============================================================================
+// Two steps, so the user can confirm each item in between:
+//
+//   1. createVoiceMemoDraft(transcript)  — LLM extraction against the contact
+//      roster; every extracted item starts out included.
+//   2. commitVoiceMemo(draft)            — creates the note, the included
+//      tasks, the mention links and the Interaction.
+//
+// Mentions, tasks and interactions naming someone who is not a contact create
+// that contact on commit (the same path as typing an unknown @mention), once
+// per name. Tasks without a contact or name fall back to the interaction's
+// contact, then to Contact Zero.
+// =============================================================================
+
+import type { Interaction, InteractionType, Note, Task } from '../types';
+import {
+  extractVoiceMemo,
+  type ExtractedVoiceMemoMention,
+  type VoiceMemoContactRef,
+} from '../lib/voiceMemo/voiceMemoExtraction';
+import { CONTACT_ZERO, getAllContacts, createContactFromMention } from './contactStore';
+import { createNote, addMentionToNote } from './noteStore';
+import { createTask } from './taskStore';
+import { createInteraction } from './interactionStore';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface VoiceMemoDraftTask {
+  include: boolean;
+  title: string;
+  /** YYYY-MM-DD */
+  dueDate: string | null;
+  contactId: string | null;
+  /** Used to create the contact when contactId is null */
+  contactName: string | null;
+}
+
+export interface VoiceMemoDraftMention extends ExtractedVoiceMemoMention {
+  include: boolean;
+}
+
+export interface VoiceMemoDraftInteraction {
+  include: boolean;
+  contactId: string | null;
+  /** Used to create the contact when contactId is null */
+  contactName: string | null;
+  type: InteractionType;
+  summary: string;
+  /** YYYY-MM-DD */
+  occurredOn: string | null;
+}
+
+export interface VoiceMemoDraft {
+  transcript: string;
+  title: string;
+  body: string;
+  tasks: VoiceMemoDraftTask[];
+  mentions: VoiceMemoDraftMention[];
+  interaction: VoiceMemoDraftInteraction | null;
+  /** False when the LLM was unavailable and only the transcript was kept */
+  extracted: boolean;
+}
+
+export interface VoiceMemoCommitResult {
+  note: Note;
+  tasks: Task[];
+  interaction: Interaction | null;
+  /** Contact IDs linked to the note, including contacts created for new names */
+  mentionedContactIds: string[];
+}
+
+// =============================================================================
+// DRAFT
+// =============================================================================
+
+/** Contacts the LLM may reference (everyone but Contact Zero) */
+const getContactRoster = (): VoiceMemoContactRef[] =>
+  getAllContacts()
+    .filter(c => c.id !== CONTACT_ZERO.id)
+    .map(c => ({ id: c.id, fullName: c.fullName }));
+
+/** Extract a reviewable draft from a transcript. Never throws. */
+export const createVoiceMemoDraft = async (transcript: string, now: Date = new Date()): Promise<VoiceMemoDraft> => {
+  const extracted = await extractVoiceMemo(transcript, getContactRoster(), now);
+
+  return {
+    transcript,
+    title: extracted.title,
+    body: extracted.body,
+    tasks: extracted.tasks.map(t => ({ ...t, include: true })),
+    mentions: extracted.mentions.map(m => ({ ...m, include: true })),
+    interaction: extracted.interaction ? { ...extracted.interaction, include: true } : null,
+    extracted: extracted.source === 'llm',
+  };
+};
+
+// =============================================================================
+// COMMIT
+// =============================================================================
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Note HTML from plain memo text: one paragraph per blank-line block, with the
+ * first occurrence of each mentioned contact's name turned into a mention chip.
+ */
+export const buildVoiceMemoHtml = (
+  body: string,
+  mentions: { contactId: string; name: string }[],
+  audio?: { src: string; title?: string }
+): string => {
+  const pending = [...mentions].sort((a, b) => b.name.length - a.name.length);
+
+  const paragraphs = body
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .map(paragraph => {
+      const hits: { start: number; end: number; contactId: string; name: string }[] = [];
+      for (const mention of [...pending]) {
+        const match = new RegExp(`\\b${escapeRegExp(mention.name)}\\b`, 'i').exec(paragraph);
+        if (!match) continue;
+        const start = match.index;
+        const end = start + match[0].length;
+        if (hits.some(h => start < h.end && end > h.start)) continue;
+        hits.push({ start, end, contactId: mention.contactId, name: mention.name });
+        pending.splice(pending.indexOf(mention), 1);
+      }
+
+      let html = '';
+      let cursor = 0;
+      for (const hit of hits.sort((a, b) => a.start - b.start)) {
+        html += escapeHtml(paragraph.slice(cursor, hit.start));
+        html += `<span class="contact-mention" data-contact-id="${escapeHtml(hit.contactId)}" data-contact-name="${escapeHtml(hit.name)}">${escapeHtml(hit.name)}</span>`;
+        cursor = hit.end;
+      }
+      html += escapeHtml(paragraph.slice(cursor));
+      return `<p>${html.replace(/\n/g, '<br>')}</p>`;
+    });
+
+  if (audio) {
+    paragraphs.push(`<div data-type="audio-embed" src="${escapeHtml(audio.src)}" title="${escapeHtml(audio.title || 'Voice memo')}"></div>`);
+  }
+  return paragraphs.join('');
+};
+
+/** Resolve a confirmed name to a contact, creating one if needed */
+const resolveOrCreateContact = (contactId: string | null, name: string | null): string | null => {
+  if (contactId) return contactId;
+  if (!name?.trim()) return null;
+  return createContactFromMention(name).id;
+};
+
+const toIsoDate = (dateKey: string | null): string | null => {
+  if (!dateKey) return null;
+  const date = new Date(dateKey);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * Create everything the user confirmed in the draft.
+ * @param options.audioSrc - Recording to embed in the note (e.g. a data URL)
+ */
+export const commitVoiceMemo = (
+  draft: VoiceMemoDraft,
+  options: { audioSrc?: string; now?: Date } = {}
+): VoiceMemoCommitResult => {
+  const now = options.now || new Date();
+
+  // Resolve mentions first so new contacts exist for the note, tasks and interaction
+  const mentions: { contactId: string; name: string }[] = [];
+  for (const mention of draft.mentions) {
+    if (!mention.include) continue;
+    const contactId = resolveOrCreateContact(mention.contactId, mention.name);
+    if (contactId && !mentions.some(m => m.contactId === contactId)) mentions.push({ contactId, name: mention.name });
+  }
+
+  // Names already resolved, so a person named in several places becomes one contact
+  const contactIdsByName = new Map(mentions.map(m => [m.name.trim().toLowerCase(), m.contactId]));
+  const resolveNamed = (contactId: string | null, name: string | null): string | null => {
+    const key = name?.trim().toLowerCase();
+    if (!contactId && key && contactIdsByName.has(key)) return contactIdsByName.get(key)!;
+    const resolved = resolveOrCreateContact(contactId, name);
+    if (!contactId && key && resolved) contactIdsByName.set(key, resolved);
+    return resolved;
+  };
+
+  const interactionDraft = draft.interaction?.include ? draft.interaction : null;
+  const interactionContactId = interactionDraft
+    ? resolveNamed(interactionDraft.contactId, interactionDraft.contactName)
+    : null;
+
+  const targetContactIds = mentions.map(m => m.contactId);
+  if (interactionContactId && !targetContactIds.includes(interactionContactId)) targetContactIds.unshift(interactionContactId);
+
+  const note = createNote({
+    title: draft.title.trim() || 'Voice memo',
+    content: buildVoiceMemoHtml(
+      draft.body,
+      mentions,
+      options.audioSrc ? { src: options.audioSrc, title: draft.title.trim() || 'Voice memo' } : undefined
+    ),
+    kind: 'note',
+    dateKey: now.toISOString().split('T')[0],
+    preferredView: 'doc',
+    targetContactIds,
+    tags: ['voice-memo'],
+  });
+  for (const { contactId } of mentions) addMentionToNote(note.id, contactId);
+
+  const tasks = draft.tasks
+    .filter(t => t.include && t.title.trim())
+    .map(t =>
+      createTask({
+        contactId: resolveNamed(t.contactId, t.contactName) || interactionContactId || CONTACT_ZERO.id,
+        title: t.title.trim(),
+        // Date-only, stored as the bare key like tasks added in the Tasks view
+        dueAt: t.dueDate || null,
+      })
+    );
+
+  const interaction = interactionDraft && interactionContactId
+    ? createInteraction({
+        contactId: interactionContactId,
+        authorContactId: CONTACT_ZERO.id,
+        type: interactionDraft.type,
+        summary: interactionDraft.summary.trim() || note.title || 'Voice memo',
+        occurredAt: toIsoDate(interactionDraft.occurredOn) || now.toISOString(),
+      })
+    : null;
+
+  return { note, tasks, interaction, mentionedContactIds: mentions.map(m => m.contactId) };
+};
@@ -299,6 +299,14 @@ export const resetStagesToDefaults = (): void => {
   notifyStageListeners();
 };
 
+/**
+ * Insert or replace a stage from a workspace backup.
+ */
+export const restoreStage = (stage: WantStage): void => {
+  STAGES = [...STAGES.filter(s => s.id !== stage.id), stage];
+  notifyStageListeners();
+};
+
 // =============================================================================
 // ID GENERATION
 // =============================================================================
@@ -394,6 +402,19 @@ export const createWant = (params: {
   return newWant;
 };
 
+/**
+ * Insert or replace a Want from a workspace backup (keeps its timestamps).
+ */
+export const restoreWant = (want: Want): void => {
+  const index = WANTS.findIndex(w => w.id === want.id);
+  if (index === -1) {
+    WANTS = [want, ...WANTS];
+  } else {
+    WANTS[index] = want;
+  }
+  notifyListeners();
+};
+
 /**
  * Create a rejected "should" (for tracking purposes).
  */
@@ -314,6 +314,24 @@ export const upsertDayEntry = (
   return newEntry;
 };
 
+/**
+ * Insert or replace a metric from a workspace backup.
+ * Matches on id, then slug, since day values are keyed by slug.
+ */
+export const restoreMetric = (metric: WantMetric): void => {
+  BOARD.metrics = [...BOARD.metrics.filter(m => m.id !== metric.id && m.slug !== metric.slug), metric];
+  notifyListeners();
+};
+
+/**
+ * Insert or replace a whole day entry from a workspace backup.
+ * Days are unique by date, so an existing entry for the same date is replaced.
+ */
+export const restoreDayEntry = (entry: WantDayEntry): void => {
+  BOARD.days = [...BOARD.days.filter(d => d.date !== entry.date), entry].sort((a, b) => a.date.localeCompare(b.date));
+  notifyListeners();
+};
+
 /**
  * Set a single value for a specific date and metric.
  */
@@ -0,0 +1,162 @@
+// =============================================================================
+// WEB CLIP SERVICE — Save articles, posts and tweets as notes
+// =============================================================================
+// Pages are fetched and cleaned by the /api/web-clip serverless function
+// (browsers cannot fetch arbitrary sites because of CORS). The clip is stored
+// as a regular note with `source` metadata, optionally attached to a contact
+// and FrameScanned as text.
+// =============================================================================
+
+import type { Note } from '../types';
+import type { WebClip } from '../lib/webClip/webClipExtractor';
+import { createNote } from './noteStore';
+import { CONTACT_ZERO, getContactById } from './contactStore';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface WebClipFetchResult {
+  success: boolean;
+  clip?: WebClip;
+  error?: string;
+}
+
+export interface ClipUrlOptions {
+  /** Contact the clip is about */
+  contactId?: string | null;
+  /** Run a text FrameScan on the clipped content */
+  runFrameScan?: boolean;
+}
+
+export interface ClipUrlResult {
+  success: boolean;
+  note?: Note;
+  /** Overall score when a FrameScan ran */
+  frameScore?: number;
+  /** Set when the note was saved but the FrameScan failed */
+  frameScanError?: string;
+  error?: string;
+}
+
+/** Same minimum the note FrameScan button enforces */
+const MIN_FRAMESCAN_LENGTH = 50;
+
+// =============================================================================
+// FETCH
+// =============================================================================
+
+/** Fetch and extract a page via the web clip proxy */
+export async function fetchWebClip(url: string): Promise<WebClipFetchResult> {
+  try {
+    const response = await fetch('/api/web-clip', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({ error: 'Unknown error' }));
+      console.error('[WebClip] API error:', response.status, data.error);
+      return { success: false, error: data.error || response.statusText };
+    }
+
+    const clip = await response.json();
+    if (!clip || typeof clip.title !== 'string' || typeof clip.contentHtml !== 'string') {
+      return { success: false, error: 'Invalid response from web clip service' };
+    }
+    return { success: true, clip };
+  } catch (err) {
+    console.error('[WebClip] Error:', err);
+    return { success: false, error: err instanceof Error ? err.message : 'Could not clip page' };
+  }
+}
+
+// =============================================================================
+// NOTE CREATION
+// =============================================================================
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Note body: source line, tweet embed or lead image, then the content */
+export const buildWebClipNoteHtml = (clip: WebClip): string => {
+  const byline = [
+    `Clipped from <a href="${escapeHtml(clip.url)}">${escapeHtml(clip.siteName || clip.url)}</a>`,
+    clip.author ? escapeHtml(clip.author) : null,
+    clip.publishedAt ? escapeHtml(clip.publishedAt.split('T')[0]) : null,
+  ].filter(Boolean).join(' · ');
+  const parts = [`<p><em>${byline}</em></p>`];
+
+  const tweet = clip.sourceType === 'tweet' ? clip.url.match(/\/([^/]+)\/status\/(\d+)/) : null;
+  if (tweet) {
+    parts.push(`<div data-type="tweet-embed" data-url="${escapeHtml(clip.url)}" data-tweet-id="${tweet[2]}" data-author="${escapeHtml(tweet[1])}"></div>`);
+  } else if (clip.images[0] && !clip.contentHtml.includes(clip.images[0])) {
+    parts.push(`<img src="${escapeHtml(clip.images[0])}" alt="">`);
+  }
+
+  parts.push(clip.contentHtml);
+  return parts.join('');
+};
+
+/** Store a clip as a note, optionally about a contact */
+export const createNoteFromWebClip = (clip: WebClip, options: { contactId?: string | null } = {}): Note => {
+  const contactId = options.contactId && options.contactId !== CONTACT_ZERO.id ? options.contactId : null;
+
+  return createNote({
+    title: clip.title,
+    content: buildWebClipNoteHtml(clip),
+    kind: 'note',
+    preferredView: 'doc',
+    targetContactIds: contactId ? [contactId] : [],
+    tags: ['clipped', clip.sourceType],
+    source: {
+      url: clip.canonicalUrl || clip.url,
+      type: clip.sourceType,
+      siteName: clip.siteName,
+      author: clip.author,
+      publishedAt: clip.publishedAt,
+      imageUrl: clip.images[0] ?? null,
+      clippedAt: new Date().toISOString(),
+    },
+  });
+};
+
+/**
+ * Clip a URL into a note: fetch, extract, save, and optionally FrameScan.
+ * A failed FrameScan does not undo the note; it is reported in frameScanError.
+ */
+export async function clipUrlToNote(url: string, options: ClipUrlOptions = {}): Promise<ClipUrlResult> {
+  const fetched = await fetchWebClip(url);
+  if (!fetched.success || !fetched.clip) {
+    return { success: false, error: fetched.error || 'Could not clip page' };
+  }
+
+  const clip = fetched.clip;
+  const note = createNoteFromWebClip(clip, { contactId: options.contactId });
+  if (!options.runFrameScan) return { success: true, note };
+
+  if (clip.text.trim().length < MIN_FRAMESCAN_LENGTH) {
+    return { success: true, note, frameScanError: 'Not enough text to scan' };
+  }
+
+  try {
+    const { runTextFrameScan } = await import('../lib/frameScan');
+    const contact = options.contactId ? getContactById(options.contactId) : undefined;
+    const score = await runTextFrameScan({
+      domain: clip.sourceType === 'tweet' || clip.sourceType === 'linkedin' ? 'social_post' : 'generic',
+      content: clip.text,
+      contactIds: [contact?.id || CONTACT_ZERO.id],
+      sourceRef: note.id,
+      subjectLabel: clip.title,
+      scanContext: {
+        what: `${clip.sourceType === 'article' ? 'Article' : 'Post'} clipped from ${clip.siteName || clip.url}`,
+        who: [contact?.fullName || clip.author].filter((name): name is string => !!name),
+      },
+    });
+    return { success: true, note, frameScore: score.frameScore };
+  } catch (err) {
+    console.error('[WebClip] FrameScan failed:', err);
+    return { success: true, note, frameScanError: err instanceof Error ? err.message : 'FrameScan failed' };
+  }
+}
@@ -0,0 +1,589 @@
+// =============================================================================
+// WORKSPACE EXPORT SERVICE — Full-workspace backup, restore and Markdown export
+// =============================================================================
+// Three ways out (and one way back in) for everything a user has entered:
+//
+//   exportWorkspaceBundle  — one versioned JSON bundle covering contacts,
+//                            topics, notes and their comments, tasks,
+//                            interactions, pipelines, projects, groups, wants,
+//                            the tracking board and FrameScan reports
+//   importWorkspaceBundle  — restores a bundle section by section with a
+//                            conflict strategy for records that already exist
+//   exportMarkdownVault    — an Obsidian-compatible vault (.zip) of notes with
+//                            YAML frontmatter and [[wikilinks]], plus a page
+//                            per contact so mention links resolve
+//   fulfillDataExportRequest — completes an EXPORT request from
+//                            dataRequestStore by producing the bundle
+//
+// Each store is described by a WorkspaceSection (list + restore), mirroring
+// the adapter pattern the sync engine uses. Sections are ordered so records
+// are restored after the ones they reference.
+// =============================================================================
+
+import type {
+  Contact,
+  Folder,
+  Group,
+  GroupMembership,
+  Interaction,
+  Note,
+  PipelineItem,
+  PipelineTemplate,
+  Project,
+  ProjectSection,
+  ProjectTaskLink,
+  Task,
+  Topic,
+  WantDayEntry,
+  WantMetric,
+} from '../types';
+import type { PersistedSchema } from '../lib/persistence/versionedStorage';
+import { migratePersisted } from '../lib/persistence/versionedStorage';
+import { htmlToMarkdown, toObsidianTag } from '../lib/editor/htmlToMarkdown';
+import { createZip, type ZipEntry } from '../lib/export/zip';
+import { getAllContacts, getContactById, applySyncedContact } from './contactStore';
+import { getAllFolders, restoreFolder, getFolderPath } from './folderStore';
+import { getAllSmartFolders, restoreSmartFolder, type SmartFolder } from './smartFolderStore';
+import { getAllNotes, getDeletedNotes, applySyncedNote } from './noteStore';
+import { getAllNoteComments, restoreNoteComment, type NoteComment } from './noteCommentStore';
+import { getAllReviewItems, restoreReviewItem, type ReviewItem } from './reviewStore';
+import { getAllTasks, applySyncedTask } from './taskStore';
+import { getAllInteractions, applySyncedInteraction } from './interactionStore';
+import {
+  getPipelineTemplates,
+  restorePipelineTemplate,
+  getAllPipelineItems,
+  applySyncedPipelineItem,
+} from './pipelineStore';
+import {
+  getAllProjects,
+  getAllProjectSections,
+  getAllProjectTaskLinks,
+  restoreProject,
+  restoreProjectSection,
+  restoreProjectTaskLink,
+} from './projectStore';
+import { getAllGroups, getAllGroupMemberships, restoreGroup, restoreGroupMembership } from './groupStore';
+import { getAllStages, restoreStage, getAllWants, restoreWant, type Want, type WantStage } from './wantStore';
+import {
+  getMetrics as getTrackingMetrics,
+  getDays as getTrackingDays,
+  restoreMetric,
+  restoreDayEntry,
+} from './wantTrackingStore';
+import { getFrameScanReports, restoreFrameScanReport, type FrameScanReport } from './frameScanReportStore';
+import { getAllLedgerEntries, restoreLedgerEntry, type FrameScoreLedgerEntry } from './frameScoreLedgerStore';
+import { getTopicById, getAllTopics, restoreTopic } from './topicStore';
+import {
+  getDataRequestById,
+  startProcessingRequest,
+  completeRequest,
+  declineRequest,
+} from '../stores/dataRequestStore';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type WorkspaceSectionKey =
+  | 'contacts'
+  | 'folders'
+  | 'smartFolders'
+  | 'topics'
+  | 'notes'
+  | 'noteComments'
+  | 'reviewItems'
+  | 'tasks'
+  | 'interactions'
+  | 'pipelineTemplates'
+  | 'pipelineItems'
+  | 'projects'
+  | 'projectSections'
+  | 'projectTaskLinks'
+  | 'groups'
+  | 'groupMemberships'
+  | 'wantStages'
+  | 'wants'
+  | 'trackingMetrics'
+  | 'trackingDays'
+  | 'frameScanReports'
+  | 'frameScoreLedger';
+
+export const WORKSPACE_BUNDLE_FORMAT = 'framelord-workspace';
+
+export interface WorkspaceBundle {
+  format: typeof WORKSPACE_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  counts: Partial<Record<WorkspaceSectionKey, number>>;
+  data: Partial<Record<WorkspaceSectionKey, unknown[]>>;
+}
+
+/**
+ * How to treat a backup record whose ID already exists locally.
+ * - skip:      keep the local record
+ * - overwrite: replace it with the backup
+ * - newer:     keep whichever was updated last (records without an
+ *              updatedAt keep the local copy)
+ */
+export type WorkspaceConflictStrategy = 'skip' | 'overwrite' | 'newer';
+
+export interface WorkspaceSectionPreview {
+  key: WorkspaceSectionKey;
+  label: string;
+  total: number;
+  new: number;
+  conflicts: number;
+}
+
+export interface WorkspaceSectionResult {
+  key: WorkspaceSectionKey;
+  label: string;
+  added: number;
+  replaced: number;
+  skipped: number;
+}
+
+export interface WorkspaceImportOptions {
+  conflictStrategy: WorkspaceConflictStrategy;
+  /** Restrict the restore to these sections (default: all in the bundle) */
+  sections?: WorkspaceSectionKey[];
+}
+
+/** Describes how one store is exported and restored */
+interface WorkspaceSection<T> {
+  key: WorkspaceSectionKey;
+  label: string;
+  list: () => T[];
+  /** Insert or replace without side effects such as version bumps */
+  restore: (record: T) => void;
+  getId?: (record: T) => string;
+  getUpdatedAt?: (record: T) => string | undefined;
+}
+
+/**
+ * A section with its record type closed over, so sections of every type can
+ * share one list. Backup records are only checked to be objects with an ID
+ * before they reach a store.
+ */
+interface WorkspaceSectionHandle {
+  key: WorkspaceSectionKey;
+  label: string;
+  list: () => object[];
+  restore: (record: object) => void;
+  getId: (record: object) => string;
+  getUpdatedAt: (record: object) => string | undefined;
+}
+
+// =============================================================================
+// SECTIONS
+// =============================================================================
+
+const byUpdatedAt = (r: { updatedAt?: string | null }) => r.updatedAt || undefined;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const defaultId = (record: object): string => {
+  const id = (record as { id?: unknown }).id;
+  return typeof id === 'string' || typeof id === 'number' ? String(id) : '';
+};
+
+const section = <T extends object>(config: WorkspaceSection<T>): WorkspaceSectionHandle => ({
+  key: config.key,
+  label: config.label,
+  list: config.list,
+  restore: record => config.restore(record as T),
+  getId: record => (config.getId ? config.getId(record as T) : defaultId(record)),
+  getUpdatedAt: record => config.getUpdatedAt?.(record as T),
+});
+
+/** Sections in restore order (referenced records first) */
+const WORKSPACE_SECTIONS: WorkspaceSectionHandle[] = [
+  section<Contact>({ key: 'contacts', label: 'Contacts', list: () => getAllContacts(true), restore: applySyncedContact }),
+  section<Folder>({ key: 'folders', label: 'Folders', list: getAllFolders, restore: restoreFolder, getUpdatedAt: byUpdatedAt }),
+  section<SmartFolder>({
+    key: 'smartFolders',
+    label: 'Smart folders',
+    list: getAllSmartFolders,
+    restore: restoreSmartFolder,
+    getUpdatedAt: byUpdatedAt,
+  }),
+  section<Topic>({ key: 'topics', label: 'Topics', list: getAllTopics, restore: restoreTopic, getUpdatedAt: byUpdatedAt }),
+  section<Note>({
+    key: 'notes',
+    label: 'Notes',
+    // Trashed notes are included so a restore does not resurrect deleted ones
+    list: () => [...getAllNotes(), ...getDeletedNotes()],
+    restore: applySyncedNote,
+    getUpdatedAt: byUpdatedAt,
+  }),
+  section<NoteComment>({
+    key: 'noteComments',
+    label: 'Note comments',
+    list: getAllNoteComments,
+    restore: restoreNoteComment,
+    getUpdatedAt: byUpdatedAt,
+  }),
+  section<ReviewItem>({
+    key: 'reviewItems',
+    label: 'Review schedule',
+    list: getAllReviewItems,
+    restore: restoreReviewItem,
+    getUpdatedAt: byUpdatedAt,
+  }),
+  section<Task>({ key: 'tasks', label: 'Tasks', list: getAllTasks, restore: applySyncedTask }),
+  section<Interaction>({ key: 'interactions', label: 'Interactions', list: getAllInteractions, restore: applySyncedInteraction }),
+  section<PipelineTemplate>({
+    key: 'pipelineTemplates',
+    label: 'Pipelines',
+    list: getPipelineTemplates,
+    restore: restorePipelineTemplate,
+    getUpdatedAt: byUpdatedAt,
+  }),
+  section<PipelineItem>({
+    key: 'pipelineItems',
+    label: 'Pipeline items',
+    list: getAllPipelineItems,
+    restore: applySyncedPipelineItem,
+    getUpdatedAt: byUpdatedAt,
+  }),
+  section<Project>({
+    key: 'projects',
+    label: 'Projects',
+    list: () => getAllProjects(true),
+    restore: restoreProject,
+    getUpdatedAt: byUpdatedAt,
+  }),
+  section<ProjectSection>({
+    key: 'projectSections',
+    label: 'Project sections',
+    list: getAllProjectSections,
+    restore: restoreProjectSection,
+  }),
+  section<ProjectTaskLink>({
+    key: 'projectTaskLinks',
+    label: 'Project task links',
+    list: getAllProjectTaskLinks,
+    restore: restoreProjectTaskLink,
+  }),
+  section<Group>({ key: 'groups', label: 'Groups', list: getAllGroups, restore: restoreGroup, getUpdatedAt: byUpdatedAt }),
+  section<GroupMembership>({
+    key: 'groupMemberships',
+    label: 'Group memberships',
+    list: getAllGroupMemberships,
+    restore: restoreGroupMembership,
+    getId: m => `${m.groupId}:${m.contactId}`,
+  }),
+  section<WantStage>({ key: 'wantStages', label: 'Want stages', list: getAllStages, restore: restoreStage }),
+  section<Want>({ key: 'wants', label: 'Wants', list: getAllWants, restore: restoreWant, getUpdatedAt: byUpdatedAt }),
+  section<WantMetric>({
+    key: 'trackingMetrics',
+    label: 'Tracking metrics',
+    list: getTrackingMetrics,
+    restore: restoreMetric,
+    getId: m => m.slug,
+  }),
+  section<WantDayEntry>({
+    key: 'trackingDays',
+    label: 'Tracking days',
+    list: getTrackingDays,
+    restore: restoreDayEntry,
+    getId: d => d.date,
+    getUpdatedAt: byUpdatedAt,
+  }),
+  section<FrameScanReport>({
+    key: 'frameScanReports',
+    label: 'FrameScan reports',
+    list: getFrameScanReports,
+    restore: restoreFrameScanReport,
+  }),
+  section<FrameScoreLedgerEntry>({
+    key: 'frameScoreLedger',
+    label: 'FrameScore ledger',
+    list: getAllLedgerEntries,
+    restore: restoreLedgerEntry,
+  }),
+];
+
+/** ID of a backup or local record; '' for anything that is not a record */
+const recordId = (sec: WorkspaceSectionHandle, record: unknown): string =>
+  isObject(record) ? sec.getId(record) : '';
+
+// =============================================================================
+// JSON BUNDLE
+// =============================================================================
+
+/**
+ * Bundle format versions. Bump `version` and add a migration (keyed by the
+ * version it upgrades to) whenever a section's shape changes.
+ */
+const BUNDLE_SCHEMA: PersistedSchema<WorkspaceBundle['data']> = {
+  key: WORKSPACE_BUNDLE_FORMAT,
+  version: 1,
+  migrations: {},
+  defaults: () => ({}),
+};
+
+/** Snapshot every section of the workspace */
+export const exportWorkspaceBundle = (): WorkspaceBundle => {
+  const data: WorkspaceBundle['data'] = {};
+  const counts: WorkspaceBundle['counts'] = {};
+
+  for (const sec of WORKSPACE_SECTIONS) {
+    const records = sec.list();
+    data[sec.key] = records;
+    counts[sec.key] = records.length;
+  }
+
+  return {
+    format: WORKSPACE_BUNDLE_FORMAT,
+    version: BUNDLE_SCHEMA.version,
+    exportedAt: new Date().toISOString(),
+    counts,
+    data,
+  };
+};
+
+/** The workspace bundle as pretty-printed JSON */
+export const exportWorkspaceJSON = (): string => JSON.stringify(exportWorkspaceBundle(), null, 2);
+
+/**
+ * Parse and upgrade a bundle.
+ * Throws with a user-facing message if the text is not a readable bundle.
+ */
+export const parseWorkspaceBundle = (json: string): WorkspaceBundle => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid JSON format');
+  }
+
+  if (!isObject(parsed) || parsed.format !== WORKSPACE_BUNDLE_FORMAT || !isObject(parsed.data)) {
+    throw new Error('Not a FrameLord workspace export');
+  }
+  const version = typeof parsed.version === 'number' ? parsed.version : 0;
+  if (version > BUNDLE_SCHEMA.version) {
+    throw new Error(`This export was made by a newer version of FrameLord (format v${version})`);
+  }
+
+  const data = migratePersisted(BUNDLE_SCHEMA, parsed.data, version);
+  for (const [key, records] of Object.entries(data)) {
+    if (!Array.isArray(records)) throw new Error(`Invalid export format: "${key}" is not a list`);
+  }
+
+  const counts: WorkspaceBundle['counts'] = {};
+  if (isObject(parsed.counts)) {
+    for (const [key, count] of Object.entries(parsed.counts)) {
+      if (typeof count === 'number') counts[key as WorkspaceSectionKey] = count;
+    }
+  }
+
+  return {
+    format: WORKSPACE_BUNDLE_FORMAT,
+    version: BUNDLE_SCHEMA.version,
+    exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+    counts,
+    data,
+  };
+};
+
+const sectionsToImport = (bundle: WorkspaceBundle, only?: WorkspaceSectionKey[]) =>
+  WORKSPACE_SECTIONS.filter(sec => bundle.data[sec.key]?.length && (!only || only.includes(sec.key)));
+
+/** Count new and conflicting records per section without changing anything */
+export const previewWorkspaceImport = (bundle: WorkspaceBundle): WorkspaceSectionPreview[] =>
+  sectionsToImport(bundle).map(sec => {
+    const existing = new Set(sec.list().map(r => recordId(sec, r)));
+    const records = bundle.data[sec.key]!;
+    const conflicts = records.filter(r => existing.has(recordId(sec, r))).length;
+    return { key: sec.key, label: sec.label, total: records.length, new: records.length - conflicts, conflicts };
+  });
+
+/** Restore a bundle into the local stores */
+export const importWorkspaceBundle = (
+  bundle: WorkspaceBundle,
+  options: WorkspaceImportOptions
+): WorkspaceSectionResult[] =>
+  sectionsToImport(bundle, options.sections).map(sec => {
+    const existing = new Map(sec.list().map(r => [recordId(sec, r), r]));
+    const result: WorkspaceSectionResult = { key: sec.key, label: sec.label, added: 0, replaced: 0, skipped: 0 };
+
+    for (const record of bundle.data[sec.key]!) {
+      if (!isObject(record) || !recordId(sec, record)) {
+        result.skipped++;
+        continue;
+      }
+
+      const local = existing.get(recordId(sec, record));
+      if (!local) {
+        sec.restore(record);
+        result.added++;
+        continue;
+      }
+
+      const incomingAt = sec.getUpdatedAt?.(record);
+      const localAt = sec.getUpdatedAt?.(local);
+      const replace =
+        options.conflictStrategy === 'overwrite' ||
+        (options.conflictStrategy === 'newer' && !!incomingAt && (!localAt || incomingAt > localAt));
+
+      if (replace) {
+        sec.restore(record);
+        result.replaced++;
+      } else {
+        result.skipped++;
+      }
+    }
+
+    return result;
+  });
+
+// =============================================================================
+// MARKDOWN VAULT (OBSIDIAN)
+// =============================================================================
+
+/** Characters Obsidian does not allow in file names (and therefore link targets) */
+const toFileName = (title: string): string =>
+  title.replace(/[\\/:*?"<>|#^[\]]/g, '-').replace(/\s+/g, ' ').trim().slice(0, 120) || 'Untitled';
+
+/** JSON strings are valid double-quoted YAML scalars */
+const yamlValue = (value: unknown): string =>
+  Array.isArray(value) ? `[${value.map(v => JSON.stringify(v)).join(', ')}]` : JSON.stringify(value);
+
+const frontmatter = (fields: Record<string, unknown>): string => {
+  const lines = Object.entries(fields)
+    .filter(([, v]) => v !== undefined && v !== null && v !== '' && !(Array.isArray(v) && v.length === 0))
+    .map(([k, v]) => `${k}: ${yamlValue(v)}`);
+  return `---\n${lines.join('\n')}\n---\n`;
+};
+
+/** Hand out unique names within a folder ("Idea", "Idea (2)", …) */
+const uniqueNamer = () => {
+  const used = new Set<string>();
+  return (folder: string, base: string): string => {
+    let name = base;
+    for (let n = 2; used.has(`${folder}/${name}`.toLowerCase()); n++) name = `${base} (${n})`;
+    used.add(`${folder}/${name}`.toLowerCase());
+    return name;
+  };
+};
+
+const noteFolder = (note: Note): string => {
+  if (note.kind === 'log') return 'Journal';
+  if (note.isArchived) return 'Archive';
+  const path = note.folderId ? getFolderPath(note.folderId) : [];
+  return path.length > 0 ? path.map(toFileName).join('/') : 'Inbox';
+};
+
+const noteTitle = (note: Note): string =>
+  note.title?.trim() || (note.kind === 'log' && note.dateKey) || `Untitled ${note.createdAt.slice(0, 10)}`;
+
+/**
+ * Build the vault's files: one Markdown file per note (trash excluded) and
+ * one page per referenced contact so [[Contact Name]] links resolve.
+ */
+export const buildMarkdownVault = (): ZipEntry[] => {
+  const nameFor = uniqueNamer();
+  const contactPageNames = new Map<string, string>();
+  const contactName = (id: string) => getContactById(id)?.fullName;
+  const entries: ZipEntry[] = [];
+
+  // Oldest first so the original keeps the plain file name when titles collide
+  const notes = [...getAllNotes()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const note of notes) {
+    const folder = noteFolder(note);
+    const name = nameFor(folder, toFileName(noteTitle(note)));
+    const contactIds = [...new Set([...(note.targetContactIds || []), ...(note.mentions || [])])];
+    contactIds.forEach(id => {
+      const fullName = contactName(id);
+      if (fullName) contactPageNames.set(id, fullName);
+    });
+
+    const topicTags = (note.topics || [])
+      .map(id => getTopicById(id)?.label)
+      .filter((label): label is string => !!label)
+      .map(toObsidianTag);
+
+    const body = htmlToMarkdown(note.content || '', {
+      resolveContactName: id => contactPageNames.get(id) || contactName(id),
+    });
+
+    entries.push({
+      path: `${folder}/${name}.md`,
+      modifiedAt: new Date(note.updatedAt || note.createdAt),
+      content:
+        frontmatter({
+          id: note.id,
+          title: noteTitle(note),
+          created: note.createdAt,
+          updated: note.updatedAt,
+          date: note.dateKey,
+          tags: [...new Set([...(note.tags || []).map(toObsidianTag), ...topicTags])].filter(Boolean),
+          contacts: contactIds.map(contactName).filter(Boolean).map(n => `[[${n}]]`),
+          pinned: note.isPinned || undefined,
+        }) + `\n${body}\n`,
+    });
+  }
+
+  for (const [id, fullName] of contactPageNames) {
+    const contact = getContactById(id)!;
+    const name = nameFor('Contacts', toFileName(fullName));
+    const details = [
+      contact.title && contact.company ? `${contact.title} at ${contact.company}` : contact.company || contact.title,
+      contact.email,
+      contact.phone,
+      contact.linkedinUrl,
+    ].filter(Boolean);
+
+    entries.push({
+      path: `Contacts/${name}.md`,
+      content:
+        frontmatter({
+          id: contact.id,
+          aliases: name !== fullName ? [fullName] : undefined,
+          email: contact.email,
+          company: contact.company,
+          role: contact.relationshipRole,
+          tags: contact.tags.map(toObsidianTag).filter(Boolean),
+        }) + `\n# ${fullName}\n${details.length > 0 ? `\n${details.join('\n')}\n` : ''}`,
+    });
+  }
+
+  return entries;
+};
+
+/** The Markdown vault as a .zip archive */
+export const exportMarkdownVault = (): Uint8Array => createZip(buildMarkdownVault());
+
+// =============================================================================
+// DATA REQUESTS
+// =============================================================================
+
+/**
+ * Complete an EXPORT data request by generating the workspace bundle.
+ * Returns the bundle JSON for download, or null if the request cannot be
+ * fulfilled (missing, not an export, or already resolved).
+ */
+export const fulfillDataExportRequest = (requestId: string): string | null => {
+  const request = getDataRequestById(requestId);
+  if (!request || request.type !== 'EXPORT' || request.status === 'COMPLETED' || request.status === 'DECLINED') {
+    console.warn('[WorkspaceExport] Cannot fulfill data request:', requestId);
+    return null;
+  }
+
+  startProcessingRequest(requestId);
+  try {
+    const bundle = exportWorkspaceBundle();
+    const total = Object.values(bundle.counts).reduce((sum, n) => sum + (n || 0), 0);
+    completeRequest(requestId, `Workspace export generated (${total} records)`);
+    return JSON.stringify(bundle, null, 2);
+  } catch (err) {
+    console.error('[WorkspaceExport] Export failed:', err);
+    declineRequest(requestId, 'Export failed; please try again');
+    return null;
+  }
+};
+
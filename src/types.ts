@@ -293,6 +293,22 @@ export interface Note {
   contactId?: string;             // OLD single contact link (who note is ABOUT)
   targetContactId?: string;       // OLD explicit target contact
   mentionedContactIds?: string[]; // OLD contacts mentioned via @mention
+
+  // Web clipping
+  source?: NoteSource;            // Set when the note was clipped from a URL
+}
+
+/**
+ * NoteSource - where a clipped note came from
+ */
+export interface NoteSource {
+  url: string;
+  type: 'article' | 'tweet' | 'linkedin' | 'web';
+  siteName?: string | null;
+  author?: string | null;
+  publishedAt?: string | null;    // ISO timestamp
+  imageUrl?: string | null;       // Lead image
+  clippedAt: string;              // ISO timestamp
 }
 
 /**
@@ -372,9 +388,12 @@ export interface NotePage {
 export interface Topic {
   id: string;
   label: string;                  // Human-facing name, e.g. "Sales"
-  slug: string;                   // Normalized key, e.g. "sales"
+  slug: string;                   // Normalized key, e.g. "sales" or "sales/enterprise"
   createdAt: string;              // ISO timestamp
   updatedAt: string;              // ISO timestamp
+  // Hierarchy & aliases
+  parentId?: string | null;       // Parent topic for nested tags (#sales/enterprise)
+  aliases?: string[];             // Normalized slugs that resolve to this topic (#selling -> Sales)
   // CRM Linkage
   noteIds: string[];              // Notes that use this topic
   contactIds: string[];           // Contacts frequently co-mentioned with this topic
@@ -418,6 +437,20 @@ export interface Interaction {
 
 export type TaskStatus = 'open' | 'done' | 'blocked';
 
+export type TaskPriority = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * Recurrence settings for a repeating task.
+ * Only the current (open) occurrence of a series carries this; completed
+ * occurrences keep their seriesId for history.
+ */
+export interface TaskRecurrence {
+  rule: string;                   // RFC 5545 RRULE, e.g. "FREQ=WEEKLY;BYDAY=MO"
+  dtstart: string;                // First occurrence (ISO), anchors the rule
+  exdates?: string[];             // Skipped occurrence dates ("YYYY-MM-DD")
+  overrides?: Record<string, string>;  // Occurrence date → rescheduled dueAt (ISO)
+}
+
 export interface Task {
   id: string;
   contactId: string;              // REQUIRED — who the task is ABOUT
@@ -426,6 +459,14 @@ export interface Task {
   status: TaskStatus;
   createdAt: string;              // ISO timestamp
   wantId?: string | null;         // Optional link to a Want (sovereign desire)
+  recurrence?: TaskRecurrence | null;
+  seriesId?: string | null;       // Shared by every occurrence of a recurring task
+  occurrenceAt?: string | null;   // Slot this occurrence fills (differs from dueAt when rescheduled)
+  priority?: TaskPriority;        // Defaults to 'medium'
+  parentTaskId?: string | null;   // Set on subtasks
+  blockedBy?: string[];           // Task IDs that must be done first; status is 'blocked' until they are
+  estimatedMinutes?: number | null;
+  actualMinutes?: number | null;
 }
 
 // =============================================================================
@@ -529,6 +570,54 @@ export interface Plan {
 
 // --- PIPELINE ---
 
+/** When a stage automation rule fires */
+export type PipelineAutomationTrigger =
+  | { type: 'enter' }
+  | { type: 'exit' }
+  | { type: 'time_in_stage'; days: number }; // once per stage visit, after N days
+
+/**
+ * What a stage automation rule does.
+ * Text fields accept placeholders: {{contact.name}}, {{contact.firstName}},
+ * {{item.label}}, {{stage.name}}, {{pipeline.name}}
+ */
+export type PipelineAutomationAction =
+  | { type: 'create_task'; titleTemplate: string; dueInDays?: number; priority?: TaskPriority }
+  | { type: 'log_interaction'; interactionType: InteractionType; summaryTemplate: string }
+  | { type: 'send_email'; subjectTemplate: string; bodyTemplate: string }
+  | { type: 'send_sms'; bodyTemplate: string }
+  | { type: 'request_framescan'; instructions?: string }
+  | { type: 'move_to_stage'; stageId: string };
+
+export interface PipelineAutomationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: PipelineAutomationTrigger;
+  actions: PipelineAutomationAction[];
+}
+
+export type PipelineAutomationActionStatus = 'success' | 'skipped' | 'failed';
+
+export interface PipelineAutomationActionResult {
+  type: PipelineAutomationAction['type'];
+  status: PipelineAutomationActionStatus;
+  detail: string;
+}
+
+/** One execution of a rule against a pipeline item */
+export interface PipelineAutomationRun {
+  id: string;
+  itemId: string;
+  ruleId: string;
+  ruleName: string;
+  stageId: string;
+  trigger: PipelineAutomationTrigger['type'];
+  stageEnteredAt: string;         // Identifies the stage visit (time_in_stage rules fire once per visit)
+  ranAt: string;                  // ISO timestamp
+  results: PipelineAutomationActionResult[];
+}
+
 export interface PipelineStageTemplate {
   id: string;
   name: string;
@@ -536,6 +625,8 @@ export interface PipelineStageTemplate {
   color?: string; // simple string like "green" or hex, optional
   autoTaskTitle?: string; // if set, create a task when item enters this stage
   autoTaskDueInDays?: number; // days from now for due date when autoTaskTitle is used
+  automations?: PipelineAutomationRule[];
+  probability?: number; // 0..1 chance an item in this stage is won, used for forecasts
 }
 
 export interface PipelineTemplate {
@@ -549,12 +640,30 @@ export interface PipelineTemplate {
   updatedAt: string;
 }
 
+/** Who moved a pipeline item */
+export type PipelineTransitionActor =
+  | { type: 'user'; contactId: string }                       // manual move (Contact Zero)
+  | { type: 'automation'; ruleId: string; ruleName: string }  // stage automation rule
+  | { type: 'system' };                                       // history recorded before actors were tracked
+
+/** One move of a pipeline item into a stage. Entries are append-only. */
+export interface PipelineStageTransition {
+  fromStageId: string | null; // null when the item was created
+  toStageId: string;
+  at: string; // ISO timestamp
+  actor: PipelineTransitionActor;
+  reason?: string;
+}
+
 export interface PipelineItem {
   id: string;
   templateId: string;
   contactId: string;
   label?: string; // optional free text (deal name / case name)
   currentStageId: string;
+  stageEnteredAt?: string; // ISO timestamp the item entered currentStageId
+  stageHistory?: PipelineStageTransition[]; // oldest first, append-only
+  firedTimeRules?: string[]; // "ruleId@stageEnteredAt" of time-in-stage rules started this visit
   createdAt: string;
   updatedAt: string;
   closedAt?: string | null;
@@ -294,7 +294,7 @@ export interface FrameScanMemoryPayload {
     overallFrame: string;
   };
   domain: string;
-  modality: 'text' | 'image' | 'mixed';
+  modality: 'text' | 'image' | 'mixed' | 'thread' | 'call';
   subjectContactIds: string[];
   inputText?: string;
   corrections?: string[];
@@ -0,0 +1,199 @@
+-- =============================================================================
+-- CRM SYNC TABLES MIGRATION
+-- =============================================================================
+-- Creates the tables the offline-first sync engine (src/lib/sync) pushes to
+-- and pulls from:
+-- - crm_contacts
+-- - crm_notes
+-- - crm_tasks
+-- - crm_interactions
+-- - crm_pipeline_items
+--
+-- Every table has the same shape. Records are stored as JSONB snapshots of the
+-- client-side type, keyed by (owner_id, id) because client ids are only unique
+-- per user. sync_version is used for optimistic concurrency: the client only
+-- updates a row when its base version matches, otherwise it queues a conflict.
+-- =============================================================================
+
+-- =============================================================================
+-- SHARED TRIGGER: bump updated_at on every write
+-- =============================================================================
+-- The pull cursor is based on updated_at, so it must be set by the server
+-- (client clocks cannot be trusted for ordering).
+
+CREATE OR REPLACE FUNCTION public.crm_sync_touch_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = clock_timestamp();
+  RETURN NEW;
+END;
+$$;
+
+-- =============================================================================
+-- CRM_CONTACTS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.crm_contacts (
+  id TEXT NOT NULL,
+  owner_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  data JSONB,
+  sync_version INTEGER NOT NULL DEFAULT 1 CHECK (sync_version > 0),
+  deleted BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (owner_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_contacts_owner_updated ON public.crm_contacts(owner_id, updated_at);
+
+ALTER TABLE public.crm_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage own contacts"
+  ON public.crm_contacts
+  FOR ALL
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+DROP TRIGGER IF EXISTS crm_contacts_touch_updated_at ON public.crm_contacts;
+CREATE TRIGGER crm_contacts_touch_updated_at
+  BEFORE INSERT OR UPDATE ON public.crm_contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.crm_sync_touch_updated_at();
+
+-- =============================================================================
+-- CRM_NOTES TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.crm_notes (
+  id TEXT NOT NULL,
+  owner_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  data JSONB,
+  sync_version INTEGER NOT NULL DEFAULT 1 CHECK (sync_version > 0),
+  deleted BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (owner_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_notes_owner_updated ON public.crm_notes(owner_id, updated_at);
+
+ALTER TABLE public.crm_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage own notes"
+  ON public.crm_notes
+  FOR ALL
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+DROP TRIGGER IF EXISTS crm_notes_touch_updated_at ON public.crm_notes;
+CREATE TRIGGER crm_notes_touch_updated_at
+  BEFORE INSERT OR UPDATE ON public.crm_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.crm_sync_touch_updated_at();
+
+-- =============================================================================
+-- CRM_TASKS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.crm_tasks (
+  id TEXT NOT NULL,
+  owner_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  data JSONB,
+  sync_version INTEGER NOT NULL DEFAULT 1 CHECK (sync_version > 0),
+  deleted BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (owner_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_tasks_owner_updated ON public.crm_tasks(owner_id, updated_at);
+
+ALTER TABLE public.crm_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage own tasks"
+  ON public.crm_tasks
+  FOR ALL
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+DROP TRIGGER IF EXISTS crm_tasks_touch_updated_at ON public.crm_tasks;
+CREATE TRIGGER crm_tasks_touch_updated_at
+  BEFORE INSERT OR UPDATE ON public.crm_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.crm_sync_touch_updated_at();
+
+-- =============================================================================
+-- CRM_INTERACTIONS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.crm_interactions (
+  id TEXT NOT NULL,
+  owner_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  data JSONB,
+  sync_version INTEGER NOT NULL DEFAULT 1 CHECK (sync_version > 0),
+  deleted BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (owner_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_interactions_owner_updated ON public.crm_interactions(owner_id, updated_at);
+
+ALTER TABLE public.crm_interactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage own interactions"
+  ON public.crm_interactions
+  FOR ALL
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+DROP TRIGGER IF EXISTS crm_interactions_touch_updated_at ON public.crm_interactions;
+CREATE TRIGGER crm_interactions_touch_updated_at
+  BEFORE INSERT OR UPDATE ON public.crm_interactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.crm_sync_touch_updated_at();
+
+-- =============================================================================
+-- CRM_PIPELINE_ITEMS TABLE
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.crm_pipeline_items (
+  id TEXT NOT NULL,
+  owner_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  data JSONB,
+  sync_version INTEGER NOT NULL DEFAULT 1 CHECK (sync_version > 0),
+  deleted BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (owner_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_pipeline_items_owner_updated ON public.crm_pipeline_items(owner_id, updated_at);
+
+ALTER TABLE public.crm_pipeline_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage own pipeline items"
+  ON public.crm_pipeline_items
+  FOR ALL
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+DROP TRIGGER IF EXISTS crm_pipeline_items_touch_updated_at ON public.crm_pipeline_items;
+CREATE TRIGGER crm_pipeline_items_touch_updated_at
+  BEFORE INSERT OR UPDATE ON public.crm_pipeline_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.crm_sync_touch_updated_at();
+
+-- =============================================================================
+-- GRANTS
+-- =============================================================================
+-- Rows are tombstoned (deleted = true) rather than removed, so clients never
+-- need DELETE.
+
+GRANT SELECT, INSERT, UPDATE ON public.crm_contacts TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.crm_notes TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.crm_tasks TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.crm_interactions TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.crm_pipeline_items TO authenticated;